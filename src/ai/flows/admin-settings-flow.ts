@@ -1,23 +1,22 @@
 // src/ai/flows/admin-settings-flow.ts
 'use server';
 /**
- * @fileOverview Flow to update admin credentials.
+ * @fileOverview Flow to change an admin account password.
  *
- * - updateAdminCredentialsFlow - Handles updating admin email and password in Firestore.
+ * - updateAdminCredentialsFlow - Verifies the current password of an admin account and stores a new salted hash.
  * - UpdateAdminCredentialsInput - Input type for the flow.
  * - UpdateAdminCredentialsOutput - Output type for the flow.
  */
 
 import { ai } from '@/ai/genkit'; // Assuming genkit is initialized in @/ai/genkit
 import { z } from 'genkit'; // Updated Zod import
-import { db } from '@/lib/firebase';
-import { doc, updateDoc, serverTimestamp, setDoc } from 'firebase/firestore';
-
-const ADMIN_CREDENTIALS_PATH = 'admin_config/main_credentials';
+import { findAdminAccountByEmail, setAdminAccountPassword } from '@/lib/admin-accounts';
+import { verifyPassword } from '@/lib/password-hash';
 
 // Define input schema using Zod
 const UpdateAdminCredentialsInputSchema = z.object({
-  newEmail: z.string().email().describe('The new email address for the admin.'),
+  email: z.string().email().describe('The email address of the admin account.'),
+  currentPassword: z.string().min(1).describe('The current password of the admin account.'),
   newPassword: z.string().min(8).describe('The new password for the admin (min 8 characters).'),
 });
 export type UpdateAdminCredentialsInput = z.infer<typeof UpdateAdminCredentialsInputSchema>;
@@ -38,27 +37,29 @@ const updateAdminCredentialsFlow = ai.defineFlow(
     outputSchema: UpdateAdminCredentialsOutputSchema,
   },
   async (input) => {
-    const { newEmail, newPassword } = input;
-    const credentialsDocRef = doc(db, ADMIN_CREDENTIALS_PATH);
+    const { email, currentPassword, newPassword } = input;
 
     try {
-      // WARNING: Storing password in plaintext. Highly insecure for production.
-      // Passwords should be hashed before storage.
-      await setDoc(credentialsDocRef, { // Use setDoc with merge:true or updateDoc carefully
-        email: newEmail,
-        password: newPassword, // Storing plaintext password
-        updatedAt: serverTimestamp(),
-      }, { merge: true }); // merge: true will create if not exists, or update if it does.
+      const account = await findAdminAccountByEmail(email);
+      if (!account || !(await verifyPassword(currentPassword, account.data.passwordHash))) {
+        return { success: false, message: 'Current email or password is incorrect.' };
+      }
+
+      if (account.data.status !== 'active') {
+        return { success: false, message: 'This admin account is disabled.' };
+      }
+
+      await setAdminAccountPassword(account.id, newPassword);
 
       return {
         success: true,
-        message: 'Admin credentials updated successfully. Please use the new credentials to log in next time.',
+        message: 'Password updated successfully. Please use the new password to log in next time.',
       };
     } catch (error: any) {
-      console.error('Error updating admin credentials in Firestore:', error);
+      console.error('Error updating admin password in Firestore:', error);
       return {
         success: false,
-        message: `Failed to update admin credentials: ${error.message || 'Unknown error'}`,
+        message: `Failed to update admin password: ${error.message || 'Unknown error'}`,
       };
     }
   }
@@ -4,30 +4,43 @@
  * @fileOverview Flow to process application submissions (accept or reject).
  *
  * - processApplication - Handles accepting or rejecting an application,
- *   updating Firestore, creating Firebase Auth users, and preparing a notification email.
+ *   updating Firestore, provisioning Firebase Auth users (Admin SDK), and sending a notification email
+ *   rendered from the chosen (or default) decision email template.
+ *   Accepting is idempotent: re-accepting a submission returns the UID it was already given.
  * - ProcessApplicationInput - Input type for the flow.
  * - ProcessApplicationOutput - Output type for the flow.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
-import { db, auth } from '@/lib/firebase';
-import { doc, updateDoc, serverTimestamp, getDoc, setDoc, collection, addDoc } from 'firebase/firestore';
-import { createUserWithEmailAndPassword, signOut } from 'firebase/auth';
-import { Resend } from 'resend';
-import { Submission } from '@/types/Submission';
-
-// Helper function to generate a simple random string
-const generateRandomString = (length: number = 8) => {
-  return Math.random().toString(36).substring(2, 2 + length);
-};
+import { db } from '@/lib/firebase';
+import {
+  doc,
+  updateDoc,
+  serverTimestamp,
+  getDoc,
+  setDoc,
+  deleteField,
+  runTransaction,
+  Timestamp,
+  type DocumentReference,
+} from 'firebase/firestore';
+import { sendEmailNotification } from '@/lib/email';
+import { provisionAuthAccount } from '@/lib/account-provisioning';
+import { issueAccountInvitation, ACCOUNT_INVITATION_TTL_MS } from '@/lib/account-invitations';
+import { APPLICATIONS_COLLECTION } from '@/lib/applications';
+import { normalizeSubmission } from '@/lib/validation/submission-schema';
+import type { Submission } from '@/types/Submission';
+import { resolveDecisionEmailTemplate } from '@/lib/decision-email-templates';
+import { renderEmailTemplate } from '@/lib/validation/email-template-schema';
 
 const ProcessApplicationInputSchema = z.object({
-  submissionId: z.string().describe('The ID of the contact submission document in Firestore.'),
+  submissionId: z.string().describe('The ID of the application document in Firestore.'),
   action: z.enum(['accept', 'reject']).describe('The action to take: "accept" or "reject".'),
   applicantName: z.string().describe("The name of the applicant."),
   applicantEmail: z.string().email().describe("The email of the applicant to send notification to."),
-  campusStatus: z.enum(['campus', 'off-campus']).optional().describe('The campus status of the applicant.'),
+  message: z.string().optional().describe("A note from the admins added to the notification email."),
+  templateId: z.string().optional().describe("The email template to send; the decision's default template if omitted."),
 });
 export type ProcessApplicationInput = z.infer<typeof ProcessApplicationInputSchema>;
 
@@ -38,61 +51,70 @@ const ProcessApplicationOutputSchema = z.object({
     to: z.string(),
     subject: z.string(),
     body: z.string(),
+    templateId: z.string(),
     sent: z.boolean(),
     sendError: z.string().optional(),
   }).optional().describe('Details of the email operation. Optional if email sending is not applicable.'),
-  firebaseUid: z.string().optional().describe('Firebase Auth UID if user was created successfully.'),
-  temporaryPassword: z.string().optional().describe('Generated temporary password if accepted.'),
+  firebaseUid: z.string().optional().describe('Firebase Auth UID of the applicant account if accepted.'),
 });
 export type ProcessApplicationOutput = z.infer<typeof ProcessApplicationOutputSchema>;
 
 
-async function sendEmailNotification(to: string, subject: string, body: string): Promise<{ success: boolean; message: string; error?: string }> {
-  if (!process.env.RESEND_API_KEY) {
-    console.error("**********************************************************************************");
-    console.error("ERROR: RESEND_API_KEY not found in environment variables.");
-    console.error("Email sending is DISABLED. The email below is a simulation logged to the console.");
-    console.error("To enable real email sending, set RESEND_API_KEY in your .env.local file and restart the server.");
-    console.error("**********************************************************************************");
-    console.log("------ SIMULATING EMAIL SENDING (RESEND_API_KEY missing) ------");
-    console.log("To:", to);
-    console.log("Subject:", subject);
-    console.log("Body:\n", body);
-    console.log("-----------------------------------------------------------");
-    return { success: false, message: "Email sending disabled: RESEND_API_KEY not found. Logged to console.", error: "RESEND_API_KEY_MISSING" };
-  }
+// A claim older than this was left by a run that died before deciding, and may be taken over
+const DECISION_CLAIM_TTL_MS = 10 * 60 * 1000;
 
-  const resend = new Resend(process.env.RESEND_API_KEY);
+type DecisionClaim =
+  | { claimed: true; submission: Submission }
+  | { claimed: false; result: ProcessApplicationOutput };
 
-  try {
-    const fromEmail = process.env.RESEND_FROM_EMAIL || 'TBI Platform <onboarding@resend.dev>';
-    
-    console.log("Attempting to send email:");
-    console.log("From:", fromEmail);
-    console.log("To:", to);
-    console.log("Subject:", subject);
-    
-    const { data, error } = await resend.emails.send({
-      from: fromEmail, 
-      to: [to],
-      subject: subject,
-      text: body,
-    });
-
-    if (error) {
-      console.error("Resend API Error:", error);
-      const errorMessage = error.message || error.name || JSON.stringify(error) || 'Unknown Resend API error';
-      return { success: false, message: `Failed to send email via Resend: ${errorMessage}`, error: JSON.stringify(error) };
+/**
+ * Mark a pending submission as being decided, in a transaction, so two decisions on it (e.g. a single
+ * accept racing a bulk one) cannot both provision an account and email the applicant.
+ */
+async function claimDecision(submissionRef: DocumentReference, action: 'accept' | 'reject'): Promise<DecisionClaim> {
+  return runTransaction(db, async (transaction) => {
+    const submissionSnap = await transaction.get(submissionRef);
+    if (!submissionSnap.exists()) {
+      return { claimed: false, result: { status: 'error', message: `Submission with ID ${submissionRef.id} not found.` } };
+    }
+    const submission = normalizeSubmission(submissionSnap.id, submissionSnap.data());
+    if (action === 'accept' && submission.status === 'accepted' && submission.firebaseUid) {
+      return {
+        claimed: false,
+        result: {
+          status: 'success',
+          message: `Application was already accepted; the existing account was kept.`,
+          firebaseUid: submission.firebaseUid,
+        },
+      };
+    }
+    if (submission.status !== 'pending') {
+      return {
+        claimed: false,
+        result: { status: 'error', message: `Submission ${submissionRef.id} has already been processed (status: ${submission.status}).` },
+      };
+    }
+    const claimedAt = submission.decisionInProgress?.claimedAt;
+    if (claimedAt instanceof Timestamp && Date.now() - claimedAt.toMillis() < DECISION_CLAIM_TTL_MS) {
+      return {
+        claimed: false,
+        result: { status: 'error', message: `Submission ${submissionRef.id} is already being processed.` },
+      };
     }
 
-    console.log("Email sent successfully via Resend. ID:", data?.id);
-    return { success: true, message: `Email sent successfully to ${to} via Resend.` };
-  } catch (e: any) {
-    console.error("Error in sendEmailNotification with Resend:", e);
-    return { success: false, message: `Exception during email sending: ${e.message}`, error: e.toString() };
-  }
+    transaction.update(submissionRef, { decisionInProgress: { action, claimedAt: serverTimestamp() } });
+    return { claimed: true, submission };
+  });
 }
 
+// Let the submission be decided again after a run failed before recording its decision
+async function releaseDecisionClaim(submissionRef: DocumentReference): Promise<void> {
+  try {
+    await updateDoc(submissionRef, { decisionInProgress: deleteField() });
+  } catch (error) {
+    console.error('Error releasing the decision claim:', error);
+  }
+}
 
 const processApplicationFlow = ai.defineFlow(
   {
@@ -101,96 +123,119 @@ const processApplicationFlow = ai.defineFlow(
     outputSchema: ProcessApplicationOutputSchema,
   },
   async (input) => {
-    const { submissionId, action, applicantName, applicantEmail, campusStatus } = input;
+    const { submissionId, action, applicantName, applicantEmail } = input;
     
-    const collectionName = campusStatus === 'off-campus' ? 'offCampusApplications' : 'contactSubmissions';
-    const submissionRef = doc(db, collectionName, submissionId);
+    const submissionRef = doc(db, APPLICATIONS_COLLECTION, submissionId);
 
+    let claimed = false;
     try {
-      const submissionSnap = await getDoc(submissionRef);
-      if (!submissionSnap.exists()) {
-        return { status: 'error' as const, message: `Submission with ID ${submissionId} not found in ${collectionName}.` };
-      }
-      const submissionData = submissionSnap.data() as Submission;
-      if (submissionData.status !== 'pending') {
-         return { status: 'error' as const, message: `Submission ${submissionId} has already been processed (status: ${submissionData.status}).` };
-      }
+      // Resolved before anything changes so an unknown template cannot leave a half-processed decision
+      const template = await resolveDecisionEmailTemplate(action, input.templateId);
 
-      let emailSubject = '';
-      let emailBody = '';
+      const claim = await claimDecision(submissionRef, action);
+      if (!claim.claimed) {
+        return claim.result;
+      }
+      claimed = true;
+      const submissionData = claim.submission;
+
+      const variables = {
+        applicantName,
+        companyName: submissionData.companyName ?? '',
+        loginEmail: applicantEmail,
+        loginUrl: '',
+        linkExpiresInHours: String(ACCOUNT_INVITATION_TTL_MS / (60 * 60 * 1000)),
+        message: input.message?.trim() ?? '',
+      };
       let updateData: any = {
         processedByAdminAt: serverTimestamp(),
+        decisionInProgress: deleteField(),
       };
-      let temporaryUserId: string | undefined = undefined;
-      let temporaryPassword: string | undefined = undefined;
+      let firebaseUid: string | undefined = undefined;
 
       if (action === 'accept') {
-        temporaryPassword = generateRandomString(10);
-        
         try {
-          const userCredential = await createUserWithEmailAndPassword(auth, applicantEmail, temporaryPassword);
-          const firebaseUser = userCredential.user;
-          await signOut(auth);
-          
-          const userDoc = {
+          const account = await provisionAuthAccount({
+            email: applicantEmail,
+            displayName: applicantName,
+            existingUid: submissionData.firebaseUid,
+          });
+
+          // Keep the profile of an account that already exists (e.g. a retried accept), including its onboarding progress
+          const userRef = doc(db, 'users', account.uid);
+          const existingUser = await getDoc(userRef);
+          if (!existingUser.exists()) {
+            const userDoc = {
+              email: applicantEmail,
+              name: applicantName,
+              uid: account.uid,
+              status: 'active',
+              role: 'user',
+              submissionId: submissionId,
+              onboardingCompleted: false,
+              onboardingProgress: {
+                passwordChanged: false,
+                profileCompleted: false,
+                notificationsConfigured: false,
+                completed: false,
+              },
+              notificationPreferences: { emailNotifications: true },
+              createdAt: serverTimestamp(),
+              updatedAt: serverTimestamp(),
+            };
+
+            await setDoc(userRef, userDoc);
+          }
+
+          const invitation = await issueAccountInvitation({
+            uid: account.uid,
             email: applicantEmail,
             name: applicantName,
-            uid: firebaseUser.uid,
-            status: 'active',
-            role: 'user',
-            submissionId: submissionId,
-            onboardingCompleted: false,
-            onboardingProgress: {
-              passwordChanged: false,
-              profileCompleted: false,
-              notificationsConfigured: false,
-              completed: false,
-            },
-            notificationPreferences: { emailNotifications: true },
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp(),
-          };
-          
-          await setDoc(doc(db, 'users', firebaseUser.uid), userDoc);
+            accountType: 'user',
+            subject: { collection: APPLICATIONS_COLLECTION, id: submissionId },
+          });
           
           updateData.status = 'accepted';
-          updateData.firebaseUid = firebaseUser.uid;
+          updateData.firebaseUid = account.uid;
 
-          emailSubject = 'Congratulations! Your RCEOM-TBI Application has been Accepted!';
-          emailBody = `Dear ${applicantName},\n\nWe are thrilled to inform you that your application to RCEOM-TBI has been accepted!\n\nWe were very impressed with your idea and believe in its potential. Here are your login credentials to access our portal:\n\nEmail: ${applicantEmail}\nTemporary Password: ${temporaryPassword}\n\nPlease keep these safe and change your password after your first login. We will be in touch shortly with the next steps.\n\nWelcome to RCEOM-TBI!\n\nBest regards,\nThe RCEOM-TBI Team`;
+          variables.loginUrl = invitation.url;
           
-          temporaryUserId = firebaseUser.uid;
+          firebaseUid = account.uid;
           
         } catch (authError: any) {
-          console.error('Error creating Firebase Auth user:', authError);
+          console.error('Error provisioning Firebase Auth user:', authError);
+          await releaseDecisionClaim(submissionRef);
           return { status: 'error' as const, message: `Failed to create user account: ${authError.message}` };
         }
       } else { // action === 'reject'
         updateData.status = 'rejected';
-        emailSubject = 'Update on Your RCEOM-TBI Application';
-        emailBody = `Dear ${applicantName},\n\nThank you for your interest in RCEOM-TBI and for taking the time to apply.\n\nAfter careful consideration, we regret to inform you that we will not be moving forward with your application at this time. The selection process is highly competitive, and we receive many qualified applications.\n\nWe wish you the best of luck in your future endeavors.\n\nSincerely,\nThe RCEOM-TBI Team`;
       }
 
       await updateDoc(submissionRef, updateData);
-      
-      const emailResult = await sendEmailNotification(applicantEmail, emailSubject, emailBody);
+      claimed = false;
+
+      const email = renderEmailTemplate(template, variables);
+      const emailResult = await sendEmailNotification(applicantEmail, email.subject, email.text, email.html);
 
       return {
         status: 'success' as const,
         message: `Application ${action === 'accept' ? 'accepted' : 'rejected'} successfully. ${emailResult.message}`,
         email: {
           to: applicantEmail,
-          subject: emailSubject,
-          body: emailBody,
+          subject: email.subject,
+          body: email.text,
+          templateId: template.id,
           sent: emailResult.success,
           sendError: emailResult.error,
         },
-        firebaseUid: temporaryUserId,
-        temporaryPassword: temporaryPassword,
+        firebaseUid,
       };
 
     } catch (error: any) {
       console.error('Error processing application:', error);
+      if (claimed) {
+        await releaseDecisionClaim(submissionRef);
+      }
       return {
         status: 'error' as const,
         message: `Failed to process application: ${error.message}`,
@@ -0,0 +1,41 @@
+// src/app/actions/application-attachment-actions.ts
+'use server';
+
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { requirePermission } from '@/lib/auth-guard';
+import { APPLICATIONS_COLLECTION } from '@/lib/applications';
+import { getApplicationAttachmentUrl } from '@/lib/application-attachments';
+import { normalizeSubmission } from '@/lib/validation/submission-schema';
+
+export interface ApplicationAttachmentUrlResponse {
+  success: boolean;
+  message: string;
+  url?: string;
+}
+
+// Download URL for one of an application's attachments, for the admin preview and download links
+export async function getApplicationAttachmentUrlAction(
+  submissionId: string,
+  attachmentId: string
+): Promise<ApplicationAttachmentUrlResponse> {
+  try {
+    await requirePermission('submissions:read');
+    if (typeof submissionId !== 'string' || !submissionId || typeof attachmentId !== 'string') {
+      return { success: false, message: 'Attachment not found.' };
+    }
+
+    const snapshot = await getDoc(doc(db, APPLICATIONS_COLLECTION, submissionId));
+    const attachment = snapshot.exists()
+      ? normalizeSubmission(snapshot.id, snapshot.data()).attachments?.find((entry) => entry.id === attachmentId)
+      : undefined;
+    if (!attachment) {
+      return { success: false, message: 'Attachment not found.' };
+    }
+
+    return { success: true, message: 'OK', url: await getApplicationAttachmentUrl(attachment) };
+  } catch (error) {
+    console.error('[ApplicationAttachmentActions] Error loading an attachment:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load the attachment.' };
+  }
+}
@@ -0,0 +1,139 @@
+// src/app/actions/application-draft-actions.ts
+'use server';
+
+import { z } from 'zod';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { sendEmailNotification } from '@/lib/email';
+import {
+  deleteApplicationDraft,
+  getApplicationDraft,
+  issueApplicationResumeLink,
+  redeemApplicationResumeLink,
+  saveApplicationDraft,
+} from '@/lib/application-drafts';
+import type { ApplicationDraft, ApplicationDraftKey } from '@/types/application-draft';
+import type { CampusStatus } from '@/types/Submission';
+
+// Autosave runs every few seconds while typing; this only stops scripted floods
+const DRAFT_SAVE_RATE_LIMIT = { limit: 30, windowMs: 60 * 1000 };
+const RESUME_LINK_RATE_LIMIT = { limit: 3, windowMs: 15 * 60 * 1000 };
+
+const emailSchema = z.string().trim().toLowerCase().email();
+
+const draftKeySchema = z.object({
+  email: z.string().email(),
+  token: z.string().min(32).max(128),
+});
+
+export interface ApplicationDraftActionResponse {
+  success: boolean;
+  message: string;
+  key?: ApplicationDraftKey; // Keep in localStorage to continue autosaving
+  draft?: ApplicationDraft;
+  conflict?: boolean; // A draft for this email belongs to another browser; offer a resume link
+}
+
+export async function saveApplicationDraftAction(input: {
+  answers: Record<string, string>;
+  formVersion: number;
+  campusStatus: CampusStatus;
+  key?: ApplicationDraftKey;
+}): Promise<ApplicationDraftActionResponse> {
+  try {
+    const email = emailSchema.safeParse(input.answers?.companyEmail ?? '');
+    if (!email.success) {
+      return { success: false, message: 'Enter your company email to save a draft.' };
+    }
+    if (!checkRateLimit(`application-draft:${email.data}`, DRAFT_SAVE_RATE_LIMIT).allowed) {
+      return { success: false, message: 'Saving too often. Your answers will be saved shortly.' };
+    }
+
+    const key = input.key && draftKeySchema.safeParse(input.key).success ? input.key : undefined;
+    const result = await saveApplicationDraft({
+      email: email.data,
+      answers: input.answers,
+      formVersion: Number.isInteger(input.formVersion) ? input.formVersion : 0,
+      campusStatus: input.campusStatus === 'off-campus' ? 'off-campus' : 'campus',
+      token: key?.email === email.data ? key.token : undefined,
+    });
+
+    if (result.status === 'conflict') {
+      return {
+        success: false,
+        conflict: true,
+        message: 'An application draft is already saved for this email. We can email you a link to continue it.',
+      };
+    }
+
+    // The applicant changed their company email; the draft moved with it
+    if (key && key.email !== email.data) {
+      await deleteApplicationDraft(key);
+    }
+
+    return { success: true, message: 'Draft saved.', key: result.key };
+  } catch (error) {
+    console.error('[ApplicationDraftActions] Error saving a draft:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to save the draft.' };
+  }
+}
+
+export async function loadApplicationDraftAction(key: ApplicationDraftKey): Promise<ApplicationDraftActionResponse> {
+  try {
+    const parsed = draftKeySchema.safeParse(key);
+    if (!parsed.success) {
+      return { success: false, message: 'No saved draft.' };
+    }
+    const draft = await getApplicationDraft(parsed.data);
+    return draft
+      ? { success: true, message: 'Draft restored.', draft, key: parsed.data }
+      : { success: false, message: 'No saved draft.' };
+  } catch (error) {
+    console.error('[ApplicationDraftActions] Error loading a draft:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load the draft.' };
+  }
+}
+
+export async function resumeApplicationDraftAction(resumeToken: string): Promise<ApplicationDraftActionResponse> {
+  try {
+    if (typeof resumeToken !== 'string' || resumeToken.length < 32 || resumeToken.length > 128) {
+      return { success: false, message: 'This resume link is not valid.' };
+    }
+    const result = await redeemApplicationResumeLink(resumeToken);
+    if (!result.success) {
+      return { success: false, message: result.error || 'This resume link is not valid.' };
+    }
+    return { success: true, message: 'Welcome back! Your saved answers have been restored.', draft: result.draft, key: result.key };
+  } catch (error) {
+    console.error('[ApplicationDraftActions] Error resuming a draft:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to open the draft.' };
+  }
+}
+
+// Answers the same whether or not a draft exists, so it cannot be used to probe for applicants
+export async function requestApplicationResumeLinkAction(email: string): Promise<ApplicationDraftActionResponse> {
+  const message = 'If a draft is saved for this email, a link to continue it is on its way.';
+  try {
+    const parsed = emailSchema.safeParse(email);
+    if (!parsed.success) {
+      return { success: false, message: 'Please enter a valid email address.' };
+    }
+    const rateLimit = checkRateLimit(`application-resume:${parsed.data}`, RESUME_LINK_RATE_LIMIT);
+    if (!rateLimit.allowed) {
+      return { success: false, message: `Too many requests. Try again in ${Math.ceil(rateLimit.retryAfterSeconds / 60)} minutes.` };
+    }
+
+    const link = await issueApplicationResumeLink(parsed.data);
+    if (link) {
+      const emailBody = `Hello,\n\nYou asked to continue your RCOEM-TBI incubation application. Open this link to pick up where you left off:\n\n${link.url}\n\nThe link expires on ${link.expiresAt.toUTCString()}. If you did not ask for it, you can ignore this email.\n\nBest regards,\nThe RCOEM-TBI Team`;
+      const emailResult = await sendEmailNotification(parsed.data, 'Continue your RCOEM-TBI application', emailBody);
+      if (!emailResult.success) {
+        console.error('[ApplicationDraftActions] Resume link email failed:', emailResult.message);
+      }
+    }
+
+    return { success: true, message };
+  } catch (error) {
+    console.error('[ApplicationDraftActions] Error sending a resume link:', error);
+    return { success: false, message: 'Failed to send the resume link. Please try again.' };
+  }
+}
@@ -0,0 +1,155 @@
+// src/app/actions/application-form-actions.ts
+'use server';
+
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth-guard';
+import { recordAuditEvent, toAuditActor } from '@/lib/audit-log';
+import {
+  createApplicationFormDraft,
+  discardApplicationFormDraft,
+  getActiveApplicationForm,
+  getApplicationFormVersion,
+  listApplicationFormVersions,
+  publishApplicationFormVersion,
+  saveApplicationFormDraft,
+} from '@/lib/application-forms';
+import { applicationFormDefinitionSchema } from '@/lib/validation/application-form-schema';
+import type { ApplicationFormDefinition, ApplicationFormVersion } from '@/types/application-form';
+
+export interface ApplicationFormActionResponse {
+  success: boolean;
+  message: string;
+  form?: ApplicationFormVersion;
+}
+
+const versionSchema = z.number().int().positive();
+
+function formTarget(version: number) {
+  return { type: 'applicationForm' as const, id: `v${version}`, label: `Application form v${version}`, collection: 'applicationForms' };
+}
+
+// Public: the schema the application form renders from
+export async function getActiveApplicationFormAction(): Promise<ApplicationFormVersion> {
+  try {
+    return await getActiveApplicationForm();
+  } catch (error) {
+    console.error('[ApplicationFormActions] Error loading the active form:', error);
+    throw new Error('The application form could not be loaded. Please try again later.');
+  }
+}
+
+export async function listApplicationFormVersionsAction(): Promise<{ success: boolean; message?: string; forms?: ApplicationFormVersion[] }> {
+  try {
+    await requirePermission('forms:manage');
+    return { success: true, forms: await listApplicationFormVersions() };
+  } catch (error) {
+    console.error('[ApplicationFormActions] Error listing form versions:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load form versions.' };
+  }
+}
+
+export async function getApplicationFormVersionAction(version: number): Promise<ApplicationFormActionResponse> {
+  try {
+    await requirePermission('forms:manage');
+    const form = await getApplicationFormVersion(version);
+    if (!form) {
+      return { success: false, message: `Form version ${version} does not exist.` };
+    }
+    return { success: true, message: 'Form loaded.', form };
+  } catch (error) {
+    console.error('[ApplicationFormActions] Error loading form version:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load the form.' };
+  }
+}
+
+export async function createApplicationFormDraftAction(baseVersion: number): Promise<ApplicationFormActionResponse> {
+  try {
+    const session = await requirePermission('forms:manage');
+    const form = await createApplicationFormDraft(baseVersion, session.email);
+
+    await recordAuditEvent({
+      action: 'applicationForm.create_draft',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: formTarget(form.version),
+      details: { baseVersion },
+    });
+
+    return { success: true, message: `Draft v${form.version} created from v${baseVersion}.`, form };
+  } catch (error) {
+    console.error('[ApplicationFormActions] Error creating a draft:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to create a draft.' };
+  }
+}
+
+export async function saveApplicationFormDraftAction(
+  version: number,
+  definition: ApplicationFormDefinition
+): Promise<ApplicationFormActionResponse> {
+  try {
+    const session = await requirePermission('forms:manage');
+    const parsedVersion = versionSchema.safeParse(version);
+    const parsed = applicationFormDefinitionSchema.safeParse(definition);
+    if (!parsedVersion.success) {
+      return { success: false, message: 'Invalid form version.' };
+    }
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The form is not valid.' };
+    }
+
+    await saveApplicationFormDraft(parsedVersion.data, parsed.data, session.email);
+    return { success: true, message: `Draft v${version} saved.`, form: (await getApplicationFormVersion(version)) ?? undefined };
+  } catch (error) {
+    console.error('[ApplicationFormActions] Error saving a draft:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to save the draft.' };
+  }
+}
+
+export async function publishApplicationFormAction(version: number): Promise<ApplicationFormActionResponse> {
+  try {
+    const session = await requirePermission('forms:manage');
+    const draft = await getApplicationFormVersion(version);
+    if (!draft || draft.status !== 'draft') {
+      return { success: false, message: 'Only drafts can be published.' };
+    }
+    // Drafts are saved with the same checks, but re-check in case the rules tightened since
+    const parsed = applicationFormDefinitionSchema.safeParse(draft);
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The form is not valid.' };
+    }
+
+    const previousVersion = await publishApplicationFormVersion(version, session.email);
+
+    await recordAuditEvent({
+      action: 'applicationForm.publish',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: formTarget(version),
+      changes: [{ field: 'activeVersion', before: previousVersion, after: version }],
+    });
+
+    return { success: true, message: `Version ${version} is now live. New applications use this form.` };
+  } catch (error) {
+    console.error('[ApplicationFormActions] Error publishing a form:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to publish the form.' };
+  }
+}
+
+export async function discardApplicationFormDraftAction(version: number): Promise<ApplicationFormActionResponse> {
+  try {
+    const session = await requirePermission('forms:manage');
+    await discardApplicationFormDraft(version);
+
+    await recordAuditEvent({
+      action: 'applicationForm.discard_draft',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: formTarget(version),
+    });
+
+    return { success: true, message: `Draft v${version} discarded.` };
+  } catch (error) {
+    console.error('[ApplicationFormActions] Error discarding a draft:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to discard the draft.' };
+  }
+}
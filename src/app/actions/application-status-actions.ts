@@ -0,0 +1,110 @@
+// src/app/actions/application-status-actions.ts
+'use server';
+
+import { z } from 'zod';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { sendEmailNotification } from '@/lib/email';
+import {
+  clearApplicationStatusCookie,
+  getApplicationStatusEmail,
+  setApplicationStatusCookie,
+} from '@/lib/auth-guard';
+import {
+  APPLICATION_STATUS_CODE_LENGTH,
+  getApplicationStatuses,
+  issueApplicationStatusCode,
+  verifyApplicationStatusCode,
+} from '@/lib/application-status';
+import type { ApplicationStatusSummary } from '@/types/application-status';
+
+const CODE_REQUEST_RATE_LIMIT = { limit: 3, windowMs: 15 * 60 * 1000 };
+// Each code also allows only a few guesses; this caps guessing across re-issued codes
+const CODE_VERIFY_RATE_LIMIT = { limit: 10, windowMs: 15 * 60 * 1000 };
+
+const emailSchema = z.string().trim().email();
+const codeSchema = z.string().trim().regex(new RegExp(`^\\d{${APPLICATION_STATUS_CODE_LENGTH}}$`));
+
+export interface ApplicationStatusActionResponse {
+  success: boolean;
+  message: string;
+  email?: string;
+  applications?: ApplicationStatusSummary[];
+}
+
+// Answers the same whether or not the email has applied, so it cannot be used to probe for applicants
+export async function requestApplicationStatusCodeAction(email: string): Promise<ApplicationStatusActionResponse> {
+  const message = 'If an application was submitted with this email, a verification code is on its way.';
+  try {
+    const parsed = emailSchema.safeParse(email);
+    if (!parsed.success) {
+      return { success: false, message: 'Please enter a valid email address.' };
+    }
+    const rateLimit = checkRateLimit(`application-status-code:${parsed.data.toLowerCase()}`, CODE_REQUEST_RATE_LIMIT);
+    if (!rateLimit.allowed) {
+      return { success: false, message: `Too many requests. Try again in ${Math.ceil(rateLimit.retryAfterSeconds / 60)} minutes.` };
+    }
+
+    const issued = await issueApplicationStatusCode(parsed.data);
+    if (issued) {
+      const emailBody = `Hello,\n\nYour code to view your RCOEM-TBI application status is:\n\n${issued.code}\n\nIt expires in 10 minutes. If you did not ask for it, you can ignore this email.\n\nBest regards,\nThe RCOEM-TBI Team`;
+      const emailResult = await sendEmailNotification(parsed.data, 'Your RCOEM-TBI application status code', emailBody);
+      if (!emailResult.success) {
+        console.error('[ApplicationStatusActions] Code email failed:', emailResult.message);
+      }
+    }
+
+    return { success: true, message, email: parsed.data };
+  } catch (error) {
+    console.error('[ApplicationStatusActions] Error sending a status code:', error);
+    return { success: false, message: 'Failed to send the code. Please try again.' };
+  }
+}
+
+export async function verifyApplicationStatusCodeAction(email: string, code: string): Promise<ApplicationStatusActionResponse> {
+  try {
+    const parsedEmail = emailSchema.safeParse(email);
+    const parsedCode = codeSchema.safeParse(code);
+    if (!parsedEmail.success || !parsedCode.success) {
+      return { success: false, message: `Enter the ${APPLICATION_STATUS_CODE_LENGTH}-digit code from the email.` };
+    }
+    const rateLimit = checkRateLimit(`application-status-verify:${parsedEmail.data.toLowerCase()}`, CODE_VERIFY_RATE_LIMIT);
+    if (!rateLimit.allowed) {
+      return { success: false, message: `Too many attempts. Try again in ${Math.ceil(rateLimit.retryAfterSeconds / 60)} minutes.` };
+    }
+
+    const result = await verifyApplicationStatusCode(parsedEmail.data, parsedCode.data);
+    if (result === 'expired') {
+      return { success: false, message: 'This code has expired. Request a new one.' };
+    }
+    if (result === 'invalid') {
+      return { success: false, message: 'That code is not correct.' };
+    }
+
+    await setApplicationStatusCookie(parsedEmail.data);
+    const applications = await getApplicationStatuses(parsedEmail.data);
+    return { success: true, message: 'Email verified.', email: parsedEmail.data, applications };
+  } catch (error) {
+    console.error('[ApplicationStatusActions] Error verifying a status code:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to verify the code.' };
+  }
+}
+
+// Status for the email verified earlier in this browser, if that is still recent enough
+export async function getApplicationStatusAction(): Promise<ApplicationStatusActionResponse> {
+  try {
+    const email = await getApplicationStatusEmail();
+    if (!email) {
+      return { success: false, message: 'Verify your email to see your application status.' };
+    }
+    const applications = await getApplicationStatuses(email);
+    return { success: true, message: 'Application status loaded.', email, applications };
+  } catch (error) {
+    console.error('[ApplicationStatusActions] Error loading application status:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load your application status.' };
+  }
+}
+
+export async function endApplicationStatusViewAction(): Promise<ApplicationStatusActionResponse> {
+  await clearApplicationStatusCookie();
+  return { success: true, message: 'Signed out of the status page.' };
+}
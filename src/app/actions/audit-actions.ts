@@ -0,0 +1,28 @@
+// src/app/actions/audit-actions.ts
+'use server';
+
+import { requirePermission } from '@/lib/auth-guard';
+import { listAuditLogs } from '@/lib/audit-log';
+import type { AuditLog, AuditLogFilters } from '@/types/audit-log';
+
+export interface AuditLogsResponse {
+  success: boolean;
+  message?: string;
+  logs?: AuditLog[];
+}
+
+export async function getAuditLogsAction(filters: AuditLogFilters): Promise<AuditLogsResponse> {
+  try {
+    await requirePermission('audit:read');
+
+    if (filters.from && filters.to && filters.from > filters.to) {
+      return { success: false, message: 'The start date must be before the end date.' };
+    }
+
+    const logs = await listAuditLogs(filters);
+    return { success: true, logs };
+  } catch (error) {
+    console.error('[AuditActions] Error fetching audit logs:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load audit logs.' };
+  }
+}
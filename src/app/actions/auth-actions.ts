@@ -5,6 +5,10 @@ import { z } from 'zod';
 import { db, auth } from '@/lib/firebase';
 import { doc, getDoc, collection, query, where, getDocs, QuerySnapshot, DocumentData } from 'firebase/firestore';
 import { signInWithEmailAndPassword, signOut, sendPasswordResetEmail } from 'firebase/auth';
+import { findAdminAccountByEmail, migrateLegacyAdminCredentials, getAdminAccountRoles } from '@/lib/admin-accounts';
+import { verifyPassword } from '@/lib/password-hash';
+import { clearSessionCookie } from '@/lib/auth-guard';
+import { beginSecondFactorIfEnrolled, completeLogin } from '@/lib/login-flow';
 
 // --- Admin Credentials ---
 const AdminLoginFormSchema = z.object({
@@ -17,65 +21,67 @@ export interface VerifyAdminCredentialsResponse {
   success: boolean;
   message: string;
   redirectTo?: string;
+  adminData?: {
+    id: string;
+    email: string;
+    name: string;
+  };
+  firebaseToken?: string; // Custom token the browser signs in with so the Firestore rules see the admin's roles
+  requiresTwoFactor?: boolean; // Password accepted; the login continues with an authenticator code
 }
-const ADMIN_CREDENTIALS_PATH = 'admin_config/main_credentials';
 
 export async function verifyAdminCredentials(
   values: AdminLoginFormValues
 ): Promise<VerifyAdminCredentialsResponse> {
   try {
     const validatedValues = AdminLoginFormSchema.parse(values);
+    const { email, password } = validatedValues;
 
-    const credsDocRef = doc(db, ADMIN_CREDENTIALS_PATH);
-    const credsDocSnap = await getDoc(credsDocRef);
+    let account = await findAdminAccountByEmail(email);
 
-    if (!credsDocSnap.exists()) {
-      console.error(
-        `Admin credentials document not found at ${ADMIN_CREDENTIALS_PATH}. Please create it in Firestore with 'email' and 'password' fields.`
-      );
-      return {
-        success: false,
-        message:
-          'Admin configuration error. Please contact support. (Hint: Create admin_config/main_credentials document in Firestore with email and password fields)',
-      };
+    // First login after the upgrade: convert the legacy single-admin document
+    if (!account) {
+      account = await migrateLegacyAdminCredentials(email, password);
+      if (!account) {
+        return { success: false, message: 'Invalid admin email or password.' };
+      }
     }
 
-    const storedCredentials = credsDocSnap.data();
-    
-    if (!storedCredentials || typeof storedCredentials !== 'object') {
-      console.error(
-        `Admin credentials document at ${ADMIN_CREDENTIALS_PATH} is empty or not an object.`
-      );
-      return {
-        success: false,
-        message:
-          'Admin configuration error. Credentials document is malformed. Ensure it has email and password fields.',
-      };
+    if (!(await verifyPassword(password, account.data.passwordHash))) {
+      return { success: false, message: 'Invalid admin email or password.' };
     }
-    
-    if (typeof storedCredentials.email !== 'string' || typeof storedCredentials.password !== 'string') {
-      console.error(
-        `Admin credentials document at ${ADMIN_CREDENTIALS_PATH} is missing 'email' or 'password' string fields.`
-      );
-      return {
-        success: false,
-        message:
-          'Admin configuration error. Credentials document is missing required email/password string fields.',
-      };
+
+    if (account.data.status !== 'active') {
+      return { success: false, message: 'This admin account has been disabled. Please contact another administrator.' };
     }
 
-    if (
-      validatedValues.email === storedCredentials.email &&
-      validatedValues.password === storedCredentials.password
-    ) {
-      return {
-        success: true,
-        message: 'Admin Login Successful',
-        redirectTo: '/admin/dashboard',
-      };
-    } else {
-      return { success: false, message: 'Invalid admin email or password.' };
+    const identity = {
+      sub: account.id,
+      email: account.data.email,
+      name: account.data.name,
+      role: 'admin' as const,
+      roles: getAdminAccountRoles(account.data),
+    };
+
+    if (await beginSecondFactorIfEnrolled(identity)) {
+      return { success: true, requiresTwoFactor: true, message: 'Enter the code from your authenticator app.' };
     }
+
+    const { redirectTo, firebaseToken, twoFactorSetupRequired } = await completeLogin(identity, { twoFactorVerified: false });
+
+    return {
+      success: true,
+      message: twoFactorSetupRequired
+        ? 'Two-factor authentication is required for administrators. Set it up to continue.'
+        : 'Admin Login Successful',
+      redirectTo,
+      adminData: {
+        id: account.id,
+        email: account.data.email,
+        name: account.data.name,
+      },
+      firebaseToken,
+    };
   } catch (error: any) {
     console.error('[AuthActions] Error verifying admin credentials:', error);
     if (error instanceof z.ZodError) {
@@ -84,7 +90,7 @@ export async function verifyAdminCredentials(
     if (error.code === 'permission-denied' || (error.message && (error.message.toLowerCase().includes('permission denied') || error.message.toLowerCase().includes('insufficient permissions')))) {
       return {
         success: false,
-        message: 'Login Failed: Firestore permission denied. Please check your Firestore security rules to allow reading the admin credentials document.',
+        message: 'Login Failed: Firestore permission denied. Please check your Firestore security rules for the adminAccounts collection.',
       };
     }
     const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred.';
@@ -238,6 +244,7 @@ export async function resetPassword(email: string): Promise<PasswordResetRespons
 // User logout function
 export async function logoutUser(): Promise<{ success: boolean; message: string }> {
   try {
+    await clearSessionCookie();
     await signOut(auth);
     return {
       success: true,
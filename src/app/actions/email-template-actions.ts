@@ -0,0 +1,121 @@
+// src/app/actions/email-template-actions.ts
+'use server';
+
+import { requirePermission } from '@/lib/auth-guard';
+import { diffForAudit, recordAuditEvent, toAuditActor } from '@/lib/audit-log';
+import {
+  EMAIL_TEMPLATES_COLLECTION,
+  createEmailTemplate,
+  deleteEmailTemplate,
+  getEmailTemplate,
+  listEmailTemplates,
+  saveEmailTemplate,
+  setDefaultEmailTemplate,
+} from '@/lib/decision-email-templates';
+import { emailTemplateContentSchema } from '@/lib/validation/email-template-schema';
+import type { EmailTemplate, EmailTemplateContent } from '@/types/email-template';
+
+export interface EmailTemplateActionResponse {
+  success: boolean;
+  message: string;
+  template?: EmailTemplate;
+}
+
+function templateTarget(id: string, name?: string) {
+  return { type: 'emailTemplate' as const, id, label: name, collection: EMAIL_TEMPLATES_COLLECTION };
+}
+
+// Also used by the decision dialogs, so anyone who can decide applications can list templates
+export async function listEmailTemplatesAction(): Promise<{ success: boolean; message?: string; templates?: EmailTemplate[] }> {
+  try {
+    await requirePermission('submissions:decide');
+    return { success: true, templates: await listEmailTemplates() };
+  } catch (error) {
+    console.error('[EmailTemplateActions] Error listing templates:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load email templates.' };
+  }
+}
+
+// Creates a template when `id` is null
+export async function saveEmailTemplateAction(id: string | null, content: EmailTemplateContent): Promise<EmailTemplateActionResponse> {
+  try {
+    const session = await requirePermission('settings:manage');
+    const parsed = emailTemplateContentSchema.safeParse(content);
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The template is not valid.' };
+    }
+
+    const before = id ? await getEmailTemplate(id) : null;
+    if (id && (!before || before.builtIn)) {
+      return { success: false, message: before ? 'Built-in templates cannot be edited. Copy one to make changes.' : `Email template ${id} does not exist.` };
+    }
+
+    let templateId = id;
+    if (templateId) {
+      await saveEmailTemplate(templateId, parsed.data, session.email);
+    } else {
+      templateId = await createEmailTemplate(parsed.data, session.email);
+    }
+
+    await recordAuditEvent({
+      action: id ? 'emailTemplate.update' : 'emailTemplate.create',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: templateTarget(templateId, parsed.data.name),
+      changes: diffForAudit(before ? { ...before } : null, { ...parsed.data }, ['name', 'decision', 'subject', 'text', 'html']),
+    });
+
+    return {
+      success: true,
+      message: `"${parsed.data.name}" ${id ? 'saved' : 'created'}.`,
+      template: (await getEmailTemplate(templateId)) ?? undefined,
+    };
+  } catch (error) {
+    console.error('[EmailTemplateActions] Error saving a template:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to save the template.' };
+  }
+}
+
+export async function setDefaultEmailTemplateAction(id: string): Promise<EmailTemplateActionResponse> {
+  try {
+    const session = await requirePermission('settings:manage');
+    const template = await setDefaultEmailTemplate(id);
+
+    await recordAuditEvent({
+      action: 'emailTemplate.set_default',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: templateTarget(id, template.name),
+      details: { decision: template.decision },
+    });
+
+    return {
+      success: true,
+      message: `"${template.name}" is now the default ${template.decision === 'accept' ? 'acceptance' : 'rejection'} email.`,
+      template,
+    };
+  } catch (error) {
+    console.error('[EmailTemplateActions] Error setting the default template:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to change the default template.' };
+  }
+}
+
+export async function deleteEmailTemplateAction(id: string): Promise<EmailTemplateActionResponse> {
+  try {
+    const session = await requirePermission('settings:manage');
+    const template = await getEmailTemplate(id);
+    await deleteEmailTemplate(id);
+
+    await recordAuditEvent({
+      action: 'emailTemplate.delete',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: templateTarget(id, template?.name),
+    });
+
+    return { success: true, message: `"${template?.name ?? id}" deleted.` };
+  } catch (error) {
+    console.error('[EmailTemplateActions] Error deleting a template:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to delete the template.' };
+  }
+}
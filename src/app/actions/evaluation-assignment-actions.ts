@@ -0,0 +1,408 @@
+// src/app/actions/evaluation-assignment-actions.ts
+'use server';
+
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth-guard';
+import { recordAuditEvent, toAuditActor } from '@/lib/audit-log';
+import { anonymousLabel, identitiesRevealed } from '@/lib/blind-evaluation';
+import { EVALUATION_ROUNDS_COLLECTION, getEvaluationRound } from '@/lib/evaluation-rounds';
+import {
+  addSubmissionsToRound,
+  assignEvaluators,
+  autoAssignEvaluators,
+  declareEvaluationConflict,
+  findEvaluationConflicts,
+  getEvaluatorLoad,
+  listEvaluationCandidates,
+  listEvaluators,
+  listNominationOpenings,
+  listRoundAssignments,
+  listRoundEvaluators,
+  listRoundSubmissionIds,
+  nominateForRound,
+  notifyEvaluatorsOfQueue,
+  removeEvaluationAssignment,
+  withdrawNomination,
+} from '@/lib/evaluation-assignments';
+import { countUnreconciled, listRoundScores } from '@/lib/evaluation-scores';
+import type {
+  EvaluationAssignment,
+  EvaluationCandidate,
+  EvaluationConflict,
+  EvaluationScoreStatus,
+  EvaluatorSummary,
+  NominationOpening,
+} from '@/types/evaluation-score';
+
+export interface RoundAssignmentsResponse {
+  success: boolean;
+  message?: string;
+  assignments?: (EvaluationAssignment & { scoreStatus: EvaluationScoreStatus | 'not_started'; total?: number })[];
+  evaluators?: EvaluatorSummary[];
+  eligibleUids?: string[]; // Evaluators the round draws on when assigning automatically
+  nominatedUids?: string[]; // Evaluators who volunteered for the round
+  candidates?: EvaluationCandidate[];
+  submissionIds?: string[]; // Applications in the round, assigned or not
+  conflicts?: EvaluationConflict[]; // Between the round's applications and the evaluators
+  load?: Record<string, number>; // Unscored assignments each evaluator has in other open rounds
+  identitiesHidden?: boolean; // Blind round whose scores can still change: its applications are anonymised
+}
+
+export interface NominationOpeningsResponse {
+  success: boolean;
+  message?: string;
+  openings?: NominationOpening[];
+}
+
+export interface AssignEvaluatorsResponse {
+  success: boolean;
+  message: string;
+  conflicts?: EvaluationConflict[]; // Pairs skipped because of a conflict of interest
+}
+
+const assignSchema = z.object({
+  roundId: z.string().min(1),
+  submissionIds: z.array(z.string().min(1)).min(1, 'Choose at least one application.').max(500),
+  evaluatorUids: z.array(z.string().min(1)).min(1, 'Choose at least one evaluator.').max(50),
+});
+
+const addSubmissionsSchema = z.object({
+  roundId: z.string().min(1),
+  submissionIds: z.array(z.string().min(1)).min(1, 'Choose at least one application.').max(500),
+});
+
+const declareConflictSchema = z.object({
+  roundId: z.string().min(1),
+  submissionId: z.string().min(1),
+  detail: z.string().trim().min(1, 'Say briefly why you have a conflict of interest.').max(1000),
+});
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function roundTarget(id: string, name?: string) {
+  return { type: 'evaluationRound' as const, id, label: name, collection: EVALUATION_ROUNDS_COLLECTION };
+}
+
+// Conflict details can name the applicant, so blind rounds leave them out until scores are locked
+function withoutDetail({ submissionId, evaluatorUid, reason }: EvaluationConflict): EvaluationConflict {
+  return { submissionId, evaluatorUid, reason };
+}
+
+// Portal and email notices are best effort; a failure must not undo an assignment
+async function notifyQuietly(roundId: string, evaluatorUids: string[]): Promise<void> {
+  if (evaluatorUids.length === 0) return;
+  try {
+    await notifyEvaluatorsOfQueue(roundId, Array.from(new Set(evaluatorUids)));
+  } catch (error) {
+    console.error('[EvaluationAssignmentActions] Error notifying evaluators:', error);
+  }
+}
+
+// Who is assigned to what in a round, with the evaluators and applications that can be added
+export async function getRoundAssignmentsAction(roundId: string): Promise<RoundAssignmentsResponse> {
+  try {
+    await requirePermission('evaluations:read');
+    const round = await getEvaluationRound(roundId);
+    const [assignments, scores, { evaluators, eligibleUids, nominatedUids }, candidates, submissionIds, load] = await Promise.all([
+      listRoundAssignments(roundId),
+      listRoundScores(roundId),
+      listRoundEvaluators(roundId, {
+        evaluatorRoles: round?.evaluatorRoles ?? [],
+        allowSelfNomination: round?.allowSelfNomination ?? false,
+      }),
+      listEvaluationCandidates(roundId),
+      listRoundSubmissionIds(roundId),
+      getEvaluatorLoad(roundId),
+    ]);
+    const scoresById = new Map(scores.map((score) => [score.id, score]));
+    const conflicts = await findEvaluationConflicts(submissionIds, evaluators);
+
+    // Admins learn whose scores these are only once the scores are locked
+    const identitiesHidden = round ? !identitiesRevealed(round, await countUnreconciled(round)) : false;
+    const inRound = new Set(submissionIds);
+
+    return {
+      success: true,
+      assignments: assignments.map((assignment) => {
+        const score = scoresById.get(assignment.id);
+        return {
+          ...assignment,
+          scoreStatus: score?.status ?? 'not_started',
+          total: score?.status === 'submitted' && score.total !== null ? score.total : undefined,
+        };
+      }),
+      evaluators,
+      eligibleUids,
+      nominatedUids,
+      candidates: identitiesHidden
+        ? candidates.map((candidate) =>
+            inRound.has(candidate.id) ? { ...candidate, companyName: anonymousLabel(candidate.id), applicantName: '' } : candidate
+          )
+        : candidates,
+      submissionIds,
+      conflicts: identitiesHidden ? conflicts.map(withoutDetail) : conflicts,
+      load,
+      identitiesHidden,
+    };
+  } catch (error) {
+    console.error('[EvaluationAssignmentActions] Error loading assignments:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load the assignments.' };
+  }
+}
+
+/**
+ * Put applications into a round. When the round assigns evaluators automatically, the new applications
+ * get their evaluators straight away.
+ */
+export async function addSubmissionsToRoundAction(roundId: string, submissionIds: string[]): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await requirePermission('evaluations:manage');
+    const parsed = addSubmissionsSchema.safeParse({ roundId, submissionIds });
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The selection is not valid.' };
+    }
+
+    const round = await getEvaluationRound(parsed.data.roundId);
+    const { added, missing } = await addSubmissionsToRound(parsed.data.roundId, parsed.data.submissionIds);
+    const auto = round?.autoAssignEvaluators
+      ? await autoAssignEvaluators(parsed.data.roundId, session.email, parsed.data.submissionIds.filter((id) => !missing.includes(id)))
+      : null;
+
+    await recordAuditEvent({
+      action: 'evaluationRound.addSubmissions',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: roundTarget(parsed.data.roundId, round?.roundName),
+      details: { added, missing, autoAssigned: auto?.created, shortfalls: auto?.shortfalls },
+    });
+    await notifyQuietly(parsed.data.roundId, auto?.created.map((pair) => pair.evaluatorUid) ?? []);
+
+    let message = `${plural(added.length, 'application')} added to the round`;
+    if (missing.length > 0) message += `, ${missing.length} not found`;
+    if (auto) message += `; ${plural(auto.created.length, 'assignment')} made automatically`;
+    if (auto && auto.shortfalls.length > 0) message += `, ${plural(auto.shortfalls.length, 'application')} still short of evaluators`;
+    return { success: true, message: `${message}.` };
+  } catch (error) {
+    console.error('[EvaluationAssignmentActions] Error adding applications to a round:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to add the applications.' };
+  }
+}
+
+// Top up every application in the round to the round's number of evaluators, balancing the load
+export async function autoAssignEvaluatorsAction(roundId: string): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await requirePermission('evaluations:manage');
+    const round = await getEvaluationRound(roundId);
+    const { created, shortfalls } = await autoAssignEvaluators(roundId, session.email);
+
+    await recordAuditEvent({
+      action: 'evaluationRound.autoAssign',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: roundTarget(roundId, round?.roundName),
+      details: { created, shortfalls },
+    });
+    await notifyQuietly(roundId, created.map((pair) => pair.evaluatorUid));
+
+    return {
+      success: true,
+      message: `${plural(created.length, 'assignment')} made${
+        shortfalls.length > 0
+          ? `; ${plural(shortfalls.length, 'application')} could not get enough of this round's evaluators without a conflict of interest`
+          : ''
+      }.`,
+    };
+  } catch (error) {
+    console.error('[EvaluationAssignmentActions] Error auto-assigning evaluators:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to assign evaluators automatically.' };
+  }
+}
+
+/**
+ * Assign the chosen evaluators to the chosen applications. Pairs with a conflict of interest are
+ * skipped and returned unless `overrideConflicts` is set; overrides are recorded on the assignment
+ * and in the audit trail.
+ */
+export async function assignEvaluatorsAction(
+  roundId: string,
+  submissionIds: string[],
+  evaluatorUids: string[],
+  overrideConflicts = false
+): Promise<AssignEvaluatorsResponse> {
+  try {
+    const session = await requirePermission('evaluations:manage');
+    const parsed = assignSchema.safeParse({ roundId, submissionIds, evaluatorUids });
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The assignment is not valid.' };
+    }
+
+    // Only people who currently hold the evaluator role can be assigned
+    const evaluators = (await listEvaluators()).filter((evaluator) => parsed.data.evaluatorUids.includes(evaluator.uid));
+    if (evaluators.length !== new Set(parsed.data.evaluatorUids).size) {
+      return { success: false, message: 'Some of the chosen people are no longer evaluators. Reload and try again.' };
+    }
+
+    const round = await getEvaluationRound(parsed.data.roundId);
+    const result = await assignEvaluators(
+      parsed.data.roundId,
+      parsed.data.submissionIds,
+      evaluators,
+      session.email,
+      overrideConflicts === true
+    );
+
+    const hideDetails = round ? !identitiesRevealed(round, await countUnreconciled(round)) : false;
+    const skipped = hideDetails ? result.conflicts.map(withoutDetail) : result.conflicts;
+
+    await recordAuditEvent({
+      action: 'evaluationRound.assign',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: roundTarget(parsed.data.roundId, round?.roundName),
+      details: {
+        submissionIds: parsed.data.submissionIds,
+        evaluators: evaluators.map((evaluator) => evaluator.email),
+        created: result.created.length,
+        existing: result.existing,
+        missing: result.missing,
+        skippedConflicts: skipped,
+        conflictOverride: overrideConflicts === true,
+      },
+    });
+    await notifyQuietly(parsed.data.roundId, result.created.map((pair) => pair.evaluatorUid));
+
+    let message = `${plural(result.created.length, 'assignment')} added`;
+    if (result.existing > 0) message += `, ${result.existing} already existed`;
+    if (result.missing.length > 0) message += `, ${plural(result.missing.length, 'application')} not found`;
+    if (result.conflicts.length > 0) message += `, ${result.conflicts.length} skipped for a conflict of interest`;
+    return { success: true, message: `${message}.`, conflicts: skipped };
+  } catch (error) {
+    console.error('[EvaluationAssignmentActions] Error assigning evaluators:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to assign the evaluators.' };
+  }
+}
+
+export async function removeEvaluationAssignmentAction(
+  roundId: string,
+  submissionId: string,
+  evaluatorUid: string
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await requirePermission('evaluations:manage');
+    const round = await getEvaluationRound(roundId);
+    await removeEvaluationAssignment(roundId, submissionId, evaluatorUid);
+
+    await recordAuditEvent({
+      action: 'evaluationRound.unassign',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: roundTarget(roundId, round?.roundName),
+      details: { submissionId, evaluatorUid },
+    });
+
+    return { success: true, message: 'Assignment removed.' };
+  } catch (error) {
+    console.error('[EvaluationAssignmentActions] Error removing an assignment:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to remove the assignment.' };
+  }
+}
+
+/**
+ * The signed-in evaluator declares a conflict of interest with a submission they were assigned. The
+ * submission leaves their queue, and rounds that assign automatically find a replacement.
+ */
+export async function declareEvaluationConflictAction(
+  roundId: string,
+  submissionId: string,
+  detail: string
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    const parsed = declareConflictSchema.safeParse({ roundId, submissionId, detail });
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The declaration is not valid.' };
+    }
+
+    const round = await getEvaluationRound(parsed.data.roundId);
+    await declareEvaluationConflict(
+      parsed.data.roundId,
+      parsed.data.submissionId,
+      { uid: session.sub, email: session.email },
+      parsed.data.detail,
+      session.email
+    );
+    const replacement =
+      round?.autoAssignEvaluators && (round.status === 'Draft' || round.status === 'Active')
+        ? await autoAssignEvaluators(parsed.data.roundId, session.email, [parsed.data.submissionId])
+        : null;
+
+    await recordAuditEvent({
+      action: 'evaluationRound.declareConflict',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: roundTarget(parsed.data.roundId, round?.roundName),
+      details: { submissionId: parsed.data.submissionId, detail: parsed.data.detail, replacement: replacement?.created },
+    });
+    await notifyQuietly(parsed.data.roundId, replacement?.created.map((pair) => pair.evaluatorUid) ?? []);
+
+    return { success: true, message: 'Conflict of interest recorded. This application has been taken out of your queue.' };
+  } catch (error) {
+    console.error('[EvaluationAssignmentActions] Error declaring a conflict of interest:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to record the conflict of interest.' };
+  }
+}
+
+// The signed-in evaluator's profile; volunteering is only for people who hold the evaluator role
+async function currentEvaluator(uid: string): Promise<EvaluatorSummary> {
+  const evaluator = (await listEvaluators()).find((entry) => entry.uid === uid);
+  if (!evaluator) {
+    throw new Error('Only people with the evaluator role can volunteer for a round.');
+  }
+  return evaluator;
+}
+
+// Open rounds the signed-in evaluator can volunteer for because they do not hold the roles the round asks for
+export async function getNominationOpeningsAction(): Promise<NominationOpeningsResponse> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    const evaluator = (await listEvaluators()).find((entry) => entry.uid === session.sub);
+    return { success: true, openings: evaluator ? await listNominationOpenings(evaluator) : [] };
+  } catch (error) {
+    console.error('[EvaluationAssignmentActions] Error loading rounds open to volunteers:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load the rounds open to volunteers.' };
+  }
+}
+
+/**
+ * The signed-in evaluator volunteers for a round that takes volunteers, or withdraws. Volunteers are
+ * drawn on by the round's automatic assignments; withdrawing keeps what is already in their queue.
+ */
+export async function setRoundNominationAction(roundId: string, nominate: boolean): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    if (!roundId) {
+      return { success: false, message: 'Choose a round.' };
+    }
+
+    const evaluator = await currentEvaluator(session.sub);
+    const round = nominate ? await nominateForRound(roundId, evaluator) : await withdrawNomination(roundId, evaluator.uid);
+    await recordAuditEvent({
+      action: nominate ? 'evaluationRound.nominate' : 'evaluationRound.withdrawNomination',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: roundTarget(roundId, round.roundName),
+    });
+
+    return {
+      success: true,
+      message: nominate
+        ? `You have volunteered for ${round.roundName}. Applications are assigned to you as the round needs evaluators.`
+        : `You are no longer volunteering for ${round.roundName}.`,
+    };
+  } catch (error) {
+    console.error('[EvaluationAssignmentActions] Error updating a nomination:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to update your nomination.' };
+  }
+}
@@ -0,0 +1,242 @@
+// src/app/actions/evaluation-round-actions.ts
+'use server';
+
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth-guard';
+import { diffForAudit, recordAuditEvent, toAuditActor } from '@/lib/audit-log';
+import {
+  EVALUATION_ROUNDS_COLLECTION,
+  closeEvaluationRound,
+  createEvaluationRound,
+  deleteEvaluationRound,
+  getEvaluationRound,
+  importLegacyEvaluationRounds,
+  listEvaluationRounds,
+  updateEvaluationRound,
+} from '@/lib/evaluation-rounds';
+import { notifyEvaluatorsOfQueue } from '@/lib/evaluation-assignments';
+import {
+  evaluationRoundSettingsSchema,
+  legacyLocalRoundSchema,
+  settingsFromLegacyRound,
+} from '@/lib/validation/evaluation-round-schema';
+import type { EvaluationRound, EvaluationRoundSettings } from '@/types/evaluation-round';
+
+export interface EvaluationRoundActionResponse {
+  success: boolean;
+  message: string;
+  round?: EvaluationRound;
+}
+
+const openStatusSchema = z.enum(['Draft', 'Active']);
+
+// Settings fields recorded in the audit trail when a round changes
+const AUDITED_FIELDS = [
+  'roundName',
+  'description',
+  'phase',
+  'scheduledAt',
+  'evaluationDeadline',
+  'maxScore',
+  'minimumScore',
+  'passingGrade',
+  'evaluationPeriod',
+  'scoringMethod',
+  'consensusThreshold',
+  'criteria',
+  'evaluatorsPerSubmission',
+  'autoAssignEvaluators',
+  'blindEvaluation',
+  'status',
+];
+
+function roundTarget(id: string, name?: string) {
+  return { type: 'evaluationRound' as const, id, label: name, collection: EVALUATION_ROUNDS_COLLECTION };
+}
+
+export async function listEvaluationRoundsAction(): Promise<{ success: boolean; message?: string; rounds?: EvaluationRound[] }> {
+  try {
+    await requirePermission('evaluations:read');
+    return { success: true, rounds: await listEvaluationRounds() };
+  } catch (error) {
+    console.error('[EvaluationRoundActions] Error listing rounds:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load evaluation rounds.' };
+  }
+}
+
+export async function createEvaluationRoundAction(
+  settings: EvaluationRoundSettings,
+  status: 'Draft' | 'Active' = 'Draft'
+): Promise<EvaluationRoundActionResponse> {
+  try {
+    const session = await requirePermission('evaluations:manage');
+    const parsed = evaluationRoundSettingsSchema.safeParse(settings);
+    const parsedStatus = openStatusSchema.safeParse(status);
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The round is not valid.' };
+    }
+    if (!parsedStatus.success) {
+      return { success: false, message: 'New rounds start as Draft or Active.' };
+    }
+
+    const id = await createEvaluationRound(parsed.data, parsedStatus.data, session.email);
+
+    await recordAuditEvent({
+      action: 'evaluationRound.create',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: roundTarget(id, parsed.data.roundName),
+      details: { status: parsedStatus.data, phase: parsed.data.phase, criteria: parsed.data.criteria.length },
+    });
+
+    return {
+      success: true,
+      message: `Evaluation round "${parsed.data.roundName}" created.`,
+      round: (await getEvaluationRound(id)) ?? undefined,
+    };
+  } catch (error) {
+    console.error('[EvaluationRoundActions] Error creating a round:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to create the evaluation round.' };
+  }
+}
+
+export async function updateEvaluationRoundAction(
+  id: string,
+  settings: EvaluationRoundSettings,
+  status: 'Draft' | 'Active'
+): Promise<EvaluationRoundActionResponse> {
+  try {
+    const session = await requirePermission('evaluations:manage');
+    const parsed = evaluationRoundSettingsSchema.safeParse(settings);
+    const parsedStatus = openStatusSchema.safeParse(status);
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The round is not valid.' };
+    }
+    if (!parsedStatus.success) {
+      return { success: false, message: 'Use Complete or Cancel to close a round.' };
+    }
+
+    const before = await getEvaluationRound(id);
+    await updateEvaluationRound(id, parsed.data, parsedStatus.data, session.email);
+    const after = await getEvaluationRound(id);
+
+    await recordAuditEvent({
+      action: 'evaluationRound.update',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: roundTarget(id, parsed.data.roundName),
+      changes: diffForAudit(before ? { ...before } : null, after ? { ...after } : null, AUDITED_FIELDS),
+    });
+
+    // Evaluators hear about their queue when the round opens for scoring
+    if (before?.status === 'Draft' && after?.status === 'Active') {
+      await notifyEvaluatorsOfQueue(id).catch((error) =>
+        console.error('[EvaluationRoundActions] Error notifying evaluators:', error)
+      );
+    }
+
+    return { success: true, message: `Evaluation round "${parsed.data.roundName}" updated.`, round: after ?? undefined };
+  } catch (error) {
+    console.error('[EvaluationRoundActions] Error updating a round:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to update the evaluation round.' };
+  }
+}
+
+async function closeRound(id: string, status: 'Completed' | 'Cancelled'): Promise<EvaluationRoundActionResponse> {
+  const verb = status === 'Completed' ? 'complete' : 'cancel';
+  try {
+    const session = await requirePermission('evaluations:manage');
+    const previousStatus = await closeEvaluationRound(id, status, session.email);
+    const round = await getEvaluationRound(id);
+
+    await recordAuditEvent({
+      action: `evaluationRound.${verb}`,
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: roundTarget(id, round?.roundName),
+      changes: [{ field: 'status', before: previousStatus, after: status }],
+    });
+
+    return { success: true, message: `Evaluation round "${round?.roundName ?? id}" ${status.toLowerCase()}.`, round: round ?? undefined };
+  } catch (error) {
+    console.error(`[EvaluationRoundActions] Error trying to ${verb} a round:`, error);
+    return { success: false, message: error instanceof Error ? error.message : `Failed to ${verb} the evaluation round.` };
+  }
+}
+
+export async function completeEvaluationRoundAction(id: string): Promise<EvaluationRoundActionResponse> {
+  return closeRound(id, 'Completed');
+}
+
+export async function cancelEvaluationRoundAction(id: string): Promise<EvaluationRoundActionResponse> {
+  return closeRound(id, 'Cancelled');
+}
+
+export async function deleteEvaluationRoundAction(id: string): Promise<EvaluationRoundActionResponse> {
+  try {
+    const session = await requirePermission('evaluations:manage');
+    const round = await getEvaluationRound(id);
+    await deleteEvaluationRound(id);
+
+    await recordAuditEvent({
+      action: 'evaluationRound.delete',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: roundTarget(id, round?.roundName),
+    });
+
+    return { success: true, message: `Evaluation round "${round?.roundName ?? id}" deleted.` };
+  } catch (error) {
+    console.error('[EvaluationRoundActions] Error deleting a round:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to delete the evaluation round.' };
+  }
+}
+
+/**
+ * One-time import of the rounds the evaluation page used to keep in the browser's localStorage.
+ * Takes the raw stored entries; ones that cannot be read are reported rather than guessed at.
+ */
+export async function importLocalEvaluationRoundsAction(
+  entries: unknown[]
+): Promise<{ success: boolean; message: string; imported?: string[]; skipped?: string[]; invalid?: number }> {
+  try {
+    const session = await requirePermission('evaluations:manage');
+    if (!Array.isArray(entries) || entries.length > 500) {
+      return { success: false, message: 'Nothing to import.' };
+    }
+
+    const rounds = [];
+    let invalid = 0;
+    for (const entry of entries) {
+      const legacy = legacyLocalRoundSchema.safeParse(entry);
+      const settings = legacy.success ? evaluationRoundSettingsSchema.safeParse(settingsFromLegacyRound(legacy.data)) : null;
+      if (!legacy.success || !settings?.success) {
+        invalid++;
+        continue;
+      }
+      rounds.push({ localId: legacy.data.id, settings: settings.data, status: legacy.data.status, createdAt: legacy.data.createdAt });
+    }
+
+    const result = await importLegacyEvaluationRounds(rounds, session.email);
+
+    await recordAuditEvent({
+      action: 'evaluationRound.import_local',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'evaluationRound', collection: EVALUATION_ROUNDS_COLLECTION },
+      details: { imported: result.imported.length, skipped: result.skipped.length, invalid },
+    });
+
+    return {
+      success: true,
+      message: `${result.imported.length} round${result.imported.length === 1 ? '' : 's'} imported${
+        result.skipped.length > 0 ? `, ${result.skipped.length} already imported` : ''
+      }${invalid > 0 ? `, ${invalid} could not be read` : ''}.`,
+      ...result,
+      invalid,
+    };
+  } catch (error) {
+    console.error('[EvaluationRoundActions] Error importing local rounds:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to import the evaluation rounds.' };
+  }
+}
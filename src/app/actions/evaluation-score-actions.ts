@@ -0,0 +1,325 @@
+// src/app/actions/evaluation-score-actions.ts
+'use server';
+
+import { z } from 'zod';
+import { getApplicationAttachmentUrl } from '@/lib/application-attachments';
+import { requirePermission } from '@/lib/auth-guard';
+import { recordAuditEvent, toAuditActor } from '@/lib/audit-log';
+import { anonymousLabel, identitiesRevealed } from '@/lib/blind-evaluation';
+import {
+  EVALUATION_RECONCILIATIONS_COLLECTION,
+  EVALUATION_SCORES_COLLECTION,
+  getEvaluationRound,
+} from '@/lib/evaluation-rounds';
+import {
+  approveReconciledScore,
+  getReconciliationThread,
+  notifyReconciliationOpened,
+  openReconciliationIfDivergent,
+  postReconciliationMessage,
+  proposeReconciledScore,
+  reconciliationId,
+  settleReconciliation,
+} from '@/lib/evaluation-reconciliations';
+import { getEvaluationAttachment, getEvaluatorQueue, getRoundResults, getScoreSheet, saveEvaluationScore } from '@/lib/evaluation-scores';
+import type { SessionPayload } from '@/lib/session-token';
+import {
+  reconciledScoreSchema,
+  reconciliationMessageSchema,
+  scoreSheetInputSchema,
+  type ScoreSheetInput,
+} from '@/lib/validation/evaluation-score-schema';
+import type {
+  EvaluationReconciliation,
+  EvaluationScore,
+  EvaluatorRoundQueue,
+  ReconciliationThread,
+  ScoreSheet,
+  SubmissionResult,
+} from '@/types/evaluation-score';
+
+export interface RoundResultsResponse {
+  success: boolean;
+  message?: string;
+  results?: SubmissionResult[];
+  identitiesHidden?: boolean; // Blind round whose scores can still change: its applications are anonymised
+}
+
+const threadSchema = z.object({
+  roundId: z.string().min(1),
+  submissionId: z.string().min(1),
+});
+
+function reconciliationTarget(roundId: string, submissionId: string) {
+  return {
+    type: 'evaluationReconciliation' as const,
+    id: reconciliationId(roundId, submissionId),
+    collection: EVALUATION_RECONCILIATIONS_COLLECTION,
+  };
+}
+
+/**
+ * Open a reconciliation after a submitted score if the submission's totals now diverge, and tell its
+ * evaluators. Best effort: the score stays submitted even if this fails. Returns whether one opened.
+ */
+async function openReconciliationQuietly(session: SessionPayload, roundId: string, submissionId: string): Promise<boolean> {
+  try {
+    const reconciliation = await openReconciliationIfDivergent(roundId, submissionId);
+    if (!reconciliation) return false;
+    await recordAuditEvent({
+      action: 'evaluationReconciliation.open',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: reconciliationTarget(roundId, submissionId),
+      details: { roundId, submissionId, totals: reconciliation.totals, spread: reconciliation.spread, threshold: reconciliation.threshold },
+    });
+    const round = await getEvaluationRound(roundId);
+    await notifyReconciliationOpened(reconciliation, round?.roundName ?? 'an evaluation round');
+    return true;
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error opening a reconciliation:', error);
+    return false;
+  }
+}
+
+// The signed-in evaluator's assigned submissions, by round
+export async function getMyEvaluationQueueAction(): Promise<{ success: boolean; message?: string; queues?: EvaluatorRoundQueue[] }> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    return { success: true, queues: await getEvaluatorQueue(session.sub) };
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error loading the evaluation queue:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load your evaluations.' };
+  }
+}
+
+export async function getScoreSheetAction(
+  roundId: string,
+  submissionId: string
+): Promise<{ success: boolean; message?: string; sheet?: ScoreSheet }> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    return { success: true, sheet: await getScoreSheet(roundId, submissionId, session.sub) };
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error loading a score sheet:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load the score sheet.' };
+  }
+}
+
+/**
+ * Save the signed-in evaluator's score for a submission as a draft, or submit it. The total is worked
+ * out on the server from the round's criteria.
+ */
+export async function saveEvaluationScoreAction(
+  roundId: string,
+  submissionId: string,
+  input: ScoreSheetInput,
+  submit: boolean
+): Promise<{ success: boolean; message: string; score?: EvaluationScore }> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    const parsed = scoreSheetInputSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The score sheet is not valid.' };
+    }
+
+    const score = await saveEvaluationScore(roundId, submissionId, { uid: session.sub, email: session.email }, parsed.data, submit === true);
+
+    if (score.status === 'submitted') {
+      await recordAuditEvent({
+        action: 'evaluationScore.submit',
+        outcome: 'success',
+        actor: toAuditActor(session),
+        target: { type: 'evaluationScore', id: score.id, collection: EVALUATION_SCORES_COLLECTION },
+        details: { roundId, submissionId, total: score.total },
+      });
+      if (await openReconciliationQuietly(session, roundId, submissionId)) {
+        return {
+          success: true,
+          message: 'Score submitted. The evaluators’ totals are too far apart, so you will need to agree on a final score together.',
+          score,
+        };
+      }
+    }
+
+    return { success: true, message: score.status === 'submitted' ? 'Score submitted.' : 'Draft saved.', score };
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error saving a score:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to save the score.' };
+  }
+}
+
+// Download URL for an attachment of a submission assigned to the signed-in evaluator
+export async function getEvaluationAttachmentUrlAction(
+  roundId: string,
+  submissionId: string,
+  attachmentId: string
+): Promise<{ success: boolean; message: string; url?: string }> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    const attachment = await getEvaluationAttachment(roundId, submissionId, session.sub, attachmentId);
+    if (!attachment) {
+      return { success: false, message: 'Attachment not found.' };
+    }
+    return { success: true, message: 'OK', url: await getApplicationAttachmentUrl(attachment) };
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error loading an attachment:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load the attachment.' };
+  }
+}
+
+// The reconciliation thread for a submission, when the signed-in evaluator takes part in it
+export async function getReconciliationThreadAction(
+  roundId: string,
+  submissionId: string
+): Promise<{ success: boolean; message?: string; thread?: ReconciliationThread | null }> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    return { success: true, thread: await getReconciliationThread(roundId, submissionId, session.sub) };
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error loading a reconciliation:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load the reconciliation.' };
+  }
+}
+
+export async function postReconciliationMessageAction(
+  roundId: string,
+  submissionId: string,
+  text: string
+): Promise<{ success: boolean; message: string; reconciliation?: EvaluationReconciliation }> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    const parsed = threadSchema.merge(reconciliationMessageSchema).safeParse({ roundId, submissionId, text });
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The message is not valid.' };
+    }
+    const reconciliation = await postReconciliationMessage(
+      parsed.data.roundId,
+      parsed.data.submissionId,
+      { uid: session.sub, name: session.name || session.email },
+      parsed.data.text
+    );
+    return { success: true, message: 'Message posted.', reconciliation };
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error posting a reconciliation message:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to post the message.' };
+  }
+}
+
+// Put a final score forward for the other evaluators in the thread to approve
+export async function proposeReconciledScoreAction(
+  roundId: string,
+  submissionId: string,
+  score: number,
+  justification: string
+): Promise<{ success: boolean; message: string; reconciliation?: EvaluationReconciliation }> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    const parsed = threadSchema.merge(reconciledScoreSchema).safeParse({ roundId, submissionId, score, justification });
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The proposal is not valid.' };
+    }
+    const reconciliation = await proposeReconciledScore(
+      parsed.data.roundId,
+      parsed.data.submissionId,
+      session.sub,
+      parsed.data.score,
+      parsed.data.justification
+    );
+    await recordAuditEvent({
+      action: 'evaluationReconciliation.propose',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: reconciliationTarget(parsed.data.roundId, parsed.data.submissionId),
+      details: { roundId: parsed.data.roundId, submissionId: parsed.data.submissionId, score: parsed.data.score },
+    });
+    return { success: true, message: 'Final score proposed.', reconciliation };
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error proposing a final score:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to propose the final score.' };
+  }
+}
+
+export async function approveReconciledScoreAction(
+  roundId: string,
+  submissionId: string
+): Promise<{ success: boolean; message: string; reconciliation?: EvaluationReconciliation }> {
+  try {
+    const session = await requirePermission('evaluations:score');
+    const parsed = threadSchema.safeParse({ roundId, submissionId });
+    if (!parsed.success) {
+      return { success: false, message: 'The reconciliation is not valid.' };
+    }
+    const reconciliation = await approveReconciledScore(parsed.data.roundId, parsed.data.submissionId, session.sub);
+    const agreed = reconciliation.status === 'agreed';
+    await recordAuditEvent({
+      action: agreed ? 'evaluationReconciliation.agree' : 'evaluationReconciliation.approve',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: reconciliationTarget(parsed.data.roundId, parsed.data.submissionId),
+      details: { roundId: parsed.data.roundId, submissionId: parsed.data.submissionId, score: reconciliation.proposal?.score },
+    });
+    return {
+      success: true,
+      message: agreed ? 'Everyone approved: the final score is recorded.' : 'Approved. Waiting for the other evaluators.',
+      reconciliation,
+    };
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error approving a final score:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to approve the final score.' };
+  }
+}
+
+// Each submission's evaluator totals and final score under the round's scoring method
+export async function getRoundResultsAction(roundId: string): Promise<RoundResultsResponse> {
+  try {
+    await requirePermission('evaluations:read');
+    const [round, results] = await Promise.all([getEvaluationRound(roundId), getRoundResults(roundId)]);
+    // Admins learn whose scores these are only once the scores are locked
+    const unreconciled = results.filter((result) => result.status === 'divergent').length;
+    const identitiesHidden = round ? !identitiesRevealed(round, unreconciled) : false;
+    return {
+      success: true,
+      results: identitiesHidden
+        ? results.map((result) => ({ ...result, companyName: anonymousLabel(result.submissionId) }))
+        : results,
+      identitiesHidden,
+    };
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error loading round results:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load the results.' };
+  }
+}
+
+// Record the final score of a reconciliation the evaluators could not agree on
+export async function settleReconciliationAction(
+  roundId: string,
+  submissionId: string,
+  score: number,
+  justification: string
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await requirePermission('evaluations:manage');
+    const parsed = threadSchema.merge(reconciledScoreSchema).safeParse({ roundId, submissionId, score, justification });
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'The final score is not valid.' };
+    }
+    await settleReconciliation(parsed.data.roundId, parsed.data.submissionId, parsed.data.score, parsed.data.justification, session.sub);
+    await recordAuditEvent({
+      action: 'evaluationReconciliation.settle',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: reconciliationTarget(parsed.data.roundId, parsed.data.submissionId),
+      details: {
+        roundId: parsed.data.roundId,
+        submissionId: parsed.data.submissionId,
+        score: parsed.data.score,
+        justification: parsed.data.justification,
+      },
+    });
+    return { success: true, message: 'Final score recorded.' };
+  } catch (error) {
+    console.error('[EvaluationScoreActions] Error settling a reconciliation:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to record the final score.' };
+  }
+}
@@ -3,9 +3,11 @@
 
 import { z } from 'zod';
 import { db } from '@/lib/firebase';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { collection, addDoc, serverTimestamp, doc, getDoc, updateDoc, deleteDoc } from 'firebase/firestore';
 import { revalidatePath } from 'next/cache';
 import { format } from 'date-fns';
+import { requirePermission } from '@/lib/auth-guard';
+import { recordAuditEvent, toAuditActor, diffForAudit } from '@/lib/audit-log';
 
 // Schema matches the form validation schema in the page component
 const eventFormSchema = z.object({
@@ -28,6 +30,7 @@ interface CreateEventResponse {
 
 export async function createEventAction(values: EventFormValues): Promise<CreateEventResponse> {
   try {
+    await requirePermission('events:manage');
     // Validate the input values on the server side as well
     const validatedValues = eventFormSchema.safeParse(values);
     if (!validatedValues.success) {
@@ -57,18 +60,88 @@ export async function createEventAction(values: EventFormValues): Promise<Create
 
     return { success: true, eventId: docRef.id, message: "Event created successfully." };
 
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error in createEventAction: ", error);
-    let errorMessage = "Failed to create event.";
-    if (error.code === 'permission-denied') {
-        errorMessage = "Permission denied. Check Firestore rules for 'events' collection.";
-    } else if (error.message) {
-        errorMessage = error.message;
+    return { success: false, message: getEventErrorMessage(error, "Failed to create event.") };
+  }
+}
+
+export type EventStatus = 'draft' | 'published' | 'archived';
+
+interface EventMutationResponse {
+  success: boolean;
+  message: string;
+}
+
+function getEventErrorMessage(error: unknown, fallback: string): string {
+  if (error && typeof error === 'object' && 'code' in error && error.code === 'permission-denied') {
+    return "Permission denied. Check Firestore rules for 'events' collection.";
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export async function updateEventStatusAction(
+  eventId: string,
+  status: EventStatus,
+  reason?: string
+): Promise<EventMutationResponse> {
+  try {
+    const session = await requirePermission('events:manage');
+    if (!['draft', 'published', 'archived'].includes(status)) {
+      return { success: false, message: "Invalid event status." };
     }
-    return { success: false, message: errorMessage };
+
+    const eventRef = doc(db, "events", eventId);
+    const eventSnap = await getDoc(eventRef);
+    if (!eventSnap.exists()) {
+      return { success: false, message: "Event not found." };
+    }
+
+    const updateData = { status, updatedAt: serverTimestamp() };
+    await updateDoc(eventRef, updateData);
+
+    await recordAuditEvent({
+      action: 'event.status_change',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'event', id: eventId, label: eventSnap.data().title, collection: 'events' },
+      changes: diffForAudit(eventSnap.data(), updateData),
+      reason,
+    });
+
+    revalidatePath('/admin/events');
+    revalidatePath('/events');
+
+    return { success: true, message: "Event status updated." };
+  } catch (error) {
+    console.error("Error in updateEventStatusAction: ", error);
+    return { success: false, message: getEventErrorMessage(error, "Failed to update event status.") };
   }
 }
 
-// Placeholder for future actions
-// export async function updateEventAction(eventId: string, values: Partial<EventFormValues>): Promise<any> {}
-// export async function deleteEventAction(eventId: string): Promise<any> {}
+export async function deleteEventAction(eventId: string): Promise<EventMutationResponse> {
+  try {
+    const session = await requirePermission('events:manage');
+    const eventRef = doc(db, "events", eventId);
+    const eventSnap = await getDoc(eventRef);
+    const eventData = eventSnap.exists() ? eventSnap.data() : null;
+
+    await deleteDoc(eventRef);
+
+    await recordAuditEvent({
+      action: 'event.delete',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'event', id: eventId, label: eventData?.title, collection: 'events' },
+      changes: diffForAudit(eventData, null, ['title', 'date', 'venue', 'status']),
+    });
+
+    revalidatePath('/admin/events');
+    revalidatePath('/events');
+
+    return { success: true, message: "Event deleted successfully." };
+  } catch (error) {
+    console.error("Error in deleteEventAction: ", error);
+    return { success: false, message: getEventErrorMessage(error, "Failed to delete event.") };
+  }
+}
@@ -1,67 +1,45 @@
-import { db, storage } from '@/lib/firebase';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { v4 as uuidv4 } from 'uuid';
-
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ALLOWED_FILE_TYPES = [
-  'application/pdf',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-];
+import { MAX_ATTACHMENT_SIZE } from '@/lib/attachment-validation';
+import type { ApplicationAttachmentKind } from '@/types/application-attachment';
 
 export interface FileUploadResult {
   success: boolean;
   message: string;
-  url?: string;
+  token?: string; // Send back with the application to attach the file
+  fileName?: string;
 }
 
 // This function must only be used on the client!
-export async function uploadSupportingDocument(file: File): Promise<FileUploadResult> {
+// The server checks the file's contents; the size check here only saves a pointless upload.
+export async function uploadSupportingDocument(file: File, kind: ApplicationAttachmentKind): Promise<FileUploadResult> {
   try {
-    // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
       return {
         success: false,
-        message: 'File size must be less than 10MB'
+        message: `File size must be less than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB`
       };
     }
 
-    // Validate file type
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-      return {
-        success: false,
-        message: 'File must be a PDF or Word document'
-      };
-    }
+    const body = new FormData();
+    body.append('file', file);
+    body.append('kind', kind);
 
-    // Get file extension
-    const extension = file.name.split('.').pop() || '';
-    
-    // Generate unique filename
-    const fileName = `supporting-docs/${uuidv4()}.${extension}`;
-    
-    // Get storage reference
-    const fileRef = ref(storage, fileName);
-    
-    // Upload file
-    const buffer = await file.arrayBuffer();
-    await uploadBytes(fileRef, buffer, {
-      contentType: file.type
-    });
-    
-    // Get download URL
-    const downloadUrl = await getDownloadURL(fileRef);
+    const response = await fetch('/api/application-attachments', { method: 'POST', body });
+    const result = await response.json();
+    if (!response.ok) {
+      return { success: false, message: result.message || 'Error uploading file' };
+    }
 
     return {
       success: true,
       message: 'File uploaded successfully',
-      url: downloadUrl
+      token: result.token,
+      fileName: result.fileName
     };
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error uploading file:', error);
     return {
       success: false,
-      message: `Error uploading file: ${error.message}`
+      message: `Error uploading file: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
   }
 }
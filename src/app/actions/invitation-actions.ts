@@ -0,0 +1,199 @@
+// src/app/actions/invitation-actions.ts
+'use server';
+
+import { z } from 'zod';
+import { doc, getDoc, Timestamp } from 'firebase/firestore';
+import { revalidatePath } from 'next/cache';
+import { db } from '@/lib/firebase';
+import { APPLICATIONS_COLLECTION } from '@/lib/applications';
+import { normalizeSubmission } from '@/lib/validation/submission-schema';
+import { requirePermission } from '@/lib/auth-guard';
+import { recordAuditEvent, toAuditActor } from '@/lib/audit-log';
+import { sendEmailNotification } from '@/lib/email';
+import {
+  issueAccountInvitation,
+  redeemAccountInvitation,
+  revokeAccountInvitations,
+  verifyAccountInvitation,
+} from '@/lib/account-invitations';
+import type { AccountInvitationSummary } from '@/types/account-invitation';
+import type { Submission } from '@/types/Submission';
+
+export interface AccountInvitationDetails {
+  valid: boolean;
+  error?: string;
+  name?: string;
+  email?: string;
+  expiresAt?: string;
+}
+
+export interface InvitationActionResponse {
+  success: boolean;
+  message: string;
+  invitation?: AccountInvitationSummary;
+}
+
+const setupAccountSchema = z.object({
+  token: z.string().min(1, 'The invitation link is incomplete.'),
+  password: z.string().min(8, 'Password must be at least 8 characters.'),
+  confirmPassword: z.string(),
+}).refine((values) => values.password === values.confirmPassword, {
+  message: 'Passwords do not match.',
+  path: ['confirmPassword'],
+});
+
+export type SetupAccountValues = z.infer<typeof setupAccountSchema>;
+
+// Timestamps cannot cross the server action boundary
+function serializeInvitation(invitation: AccountInvitationSummary | undefined): AccountInvitationSummary | undefined {
+  if (!invitation) return undefined;
+  const toIso = (value: AccountInvitationSummary['sentAt'] | undefined) =>
+    value instanceof Timestamp ? value.toDate().toISOString() : value instanceof Date ? value.toISOString() : value;
+
+  return JSON.parse(JSON.stringify({
+    ...invitation,
+    sentAt: toIso(invitation.sentAt),
+    expiresAt: toIso(invitation.expiresAt),
+    redeemedAt: toIso(invitation.redeemedAt),
+    revokedAt: toIso(invitation.revokedAt),
+  }));
+}
+
+// Public: used by /setup-account to show who the link is for before the password form
+export async function getAccountInvitationAction(token: string): Promise<AccountInvitationDetails> {
+  const result = await verifyAccountInvitation(token);
+  if (!result.valid || !result.invitation) {
+    return { valid: false, error: result.error };
+  }
+
+  return {
+    valid: true,
+    name: result.invitation.name,
+    email: result.invitation.email,
+    expiresAt: result.invitation.expiresAt.toISOString(),
+  };
+}
+
+// Public: the invitation token is the credential
+export async function setupAccountAction(values: SetupAccountValues): Promise<{ success: boolean; message: string; accountType?: 'user' | 'mentor' }> {
+  const validated = setupAccountSchema.safeParse(values);
+  if (!validated.success) {
+    return { success: false, message: validated.error.errors[0]?.message || 'Invalid input.' };
+  }
+
+  const result = await redeemAccountInvitation(validated.data.token, validated.data.password);
+  if (!result.success || !result.invitation) {
+    return { success: false, message: result.error || 'Failed to set up your account.' };
+  }
+
+  const { invitation } = result;
+  await recordAuditEvent({
+    action: 'invitation.redeem',
+    outcome: 'success',
+    actor: { id: invitation.uid, email: invitation.email, name: invitation.name, roles: [invitation.accountType] },
+    target: invitation.subject
+      ? { type: invitation.accountType === 'mentor' ? 'mentor' : 'application', id: invitation.subject.id, label: invitation.name, collection: invitation.subject.collection }
+      : { type: 'authUser', id: invitation.uid, label: invitation.email },
+  });
+
+  return { success: true, message: 'Your password has been set. You can now sign in.', accountType: invitation.accountType };
+}
+
+export async function resendApplicantInvitationAction(
+  submissionId: string
+): Promise<InvitationActionResponse> {
+  try {
+    const session = await requirePermission('submissions:decide');
+    const submissionRef = doc(db, APPLICATIONS_COLLECTION, submissionId);
+
+    const submissionSnap = await getDoc(submissionRef);
+    if (!submissionSnap.exists()) {
+      return { success: false, message: 'Submission not found.' };
+    }
+    const submission = normalizeSubmission(submissionId, submissionSnap.data());
+    if (submission.status !== 'accepted' || !submission.firebaseUid) {
+      return { success: false, message: 'Only accepted applications with an account can be sent an invitation.' };
+    }
+    if (submission.invitation?.status === 'redeemed') {
+      return { success: false, message: 'The applicant has already set their password.' };
+    }
+
+    const applicantName = submission.fullName || submission.name;
+    const { url, expiresAt } = await issueAccountInvitation({
+      uid: submission.firebaseUid,
+      email: submission.email,
+      name: applicantName,
+      accountType: 'user',
+      subject: { collection: APPLICATIONS_COLLECTION, id: submissionId },
+      createdBy: session.email,
+    });
+
+    const emailBody = `Dear ${applicantName},\n\nHere is a new link to set the password for your RCOEM-TBI portal account:\n\n${url}\n\nThe link can be used once and expires on ${expiresAt.toUTCString()}. Any link we sent you earlier no longer works.\n\nYour login email is ${submission.email}.\n\nBest regards,\nThe RCOEM-TBI Team`;
+    const emailResult = await sendEmailNotification(submission.email, 'Set up your RCOEM-TBI account', emailBody);
+
+    await recordAuditEvent({
+      action: 'invitation.resend',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'application', id: submissionId, label: applicantName, collection: APPLICATIONS_COLLECTION },
+      details: { emailSent: emailResult.success, expiresAt: expiresAt.toISOString() },
+    });
+
+    const updated = await getDoc(submissionRef);
+    revalidatePath('/admin/dashboard');
+
+    return {
+      success: true,
+      message: emailResult.success
+        ? `A new invitation was emailed to ${submission.email}.`
+        : `A new invitation was created, but the email could not be sent: ${emailResult.message}`,
+      invitation: serializeInvitation((updated.data() as Submission | undefined)?.invitation),
+    };
+  } catch (error) {
+    console.error('[InvitationActions] Error resending invitation:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to resend the invitation.' };
+  }
+}
+
+export async function revokeApplicantInvitationAction(
+  submissionId: string
+): Promise<InvitationActionResponse> {
+  try {
+    const session = await requirePermission('submissions:decide');
+    const submissionRef = doc(db, APPLICATIONS_COLLECTION, submissionId);
+
+    const submissionSnap = await getDoc(submissionRef);
+    if (!submissionSnap.exists()) {
+      return { success: false, message: 'Submission not found.' };
+    }
+    const submission = normalizeSubmission(submissionId, submissionSnap.data());
+    if (!submission.firebaseUid) {
+      return { success: false, message: 'This application has no account invitation.' };
+    }
+
+    const revokedCount = await revokeAccountInvitations(submission.firebaseUid, { collection: APPLICATIONS_COLLECTION, id: submissionId });
+    if (revokedCount === 0) {
+      return { success: false, message: 'There is no outstanding invitation to revoke.' };
+    }
+
+    await recordAuditEvent({
+      action: 'invitation.revoke',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'application', id: submissionId, label: submission.fullName || submission.name, collection: APPLICATIONS_COLLECTION },
+      changes: [{ field: 'invitation.status', before: submission.invitation?.status ?? null, after: 'revoked' }],
+    });
+
+    const updated = await getDoc(submissionRef);
+    revalidatePath('/admin/dashboard');
+
+    return {
+      success: true,
+      message: 'The invitation link has been revoked.',
+      invitation: serializeInvitation((updated.data() as Submission | undefined)?.invitation),
+    };
+  } catch (error) {
+    console.error('[InvitationActions] Error revoking invitation:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to revoke the invitation.' };
+  }
+}
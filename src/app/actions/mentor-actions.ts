@@ -2,11 +2,15 @@
 'use server';
 
 import { z } from 'zod';
-import { db, auth } from '@/lib/firebase';
-import { collection, serverTimestamp, doc, setDoc, deleteDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { collection, serverTimestamp, doc, setDoc, deleteDoc, getDoc } from 'firebase/firestore';
 import { revalidatePath } from 'next/cache';
-import { createUserWithEmailAndPassword } from 'firebase/auth';
 import { Resend } from 'resend';
+import { requirePermission } from '@/lib/auth-guard';
+import { deleteFirebaseAuthUser } from '@/lib/firebase-admin';
+import { provisionAuthAccount } from '@/lib/account-provisioning';
+import { issueAccountInvitation, ACCOUNT_INVITATION_TTL_MS } from '@/lib/account-invitations';
+import { recordAuditEvent, toAuditActor, diffForAudit } from '@/lib/audit-log';
 
 // Helper function to send emails via Resend
 // This is copied from mentor-request-actions.ts for now.
@@ -70,7 +74,6 @@ const mentorFormSchema = z.object({
   profilePictureUrl: z.string().url().optional().or(z.literal('')),
   linkedinUrl: z.string().url().optional().or(z.literal('')),
   email: z.string().email(),
-  password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
 export type MentorFormValues = z.infer<typeof mentorFormSchema>;
@@ -83,17 +86,20 @@ interface CreateMentorResponse {
 
 export async function createMentorAction(values: MentorFormValues): Promise<CreateMentorResponse> {
   try {
+    await requirePermission('mentors:manage');
     const validatedValues = mentorFormSchema.safeParse(values);
     if (!validatedValues.success) {
       console.error("Server-side validation failed for mentor:", validatedValues.error.flatten().fieldErrors);
       return { success: false, message: "Invalid input data for mentor. " + JSON.stringify(validatedValues.error.flatten().fieldErrors) };
     }
     
-    const { name, designation, expertise, description, profilePictureUrl, linkedinUrl, email, password } = validatedValues.data;
+    const { name, designation, expertise, description, profilePictureUrl, linkedinUrl, email } = validatedValues.data;
 
-    // Create Firebase Auth user for the mentor
-    const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-    const firebaseUser = userCredential.user;
+    // Create (or reuse) the Firebase Auth user for the mentor
+    const firebaseUser = await provisionAuthAccount({ email, displayName: name });
+    if ((await getDoc(doc(db, "mentors", firebaseUser.uid))).exists()) {
+      return { success: false, message: "A mentor with this email already exists." };
+    }
     
     // Main mentor document with basic info only
     const mentorData = {
@@ -135,9 +141,16 @@ export async function createMentorAction(values: MentorFormValues): Promise<Crea
     
     // Note: No longer creating in 'users' collection - mentors are only in 'mentors' collection
     
-    // Send welcome email with credentials
+    // Send welcome email with a link to choose a password
+    const invitation = await issueAccountInvitation({
+      uid: firebaseUser.uid,
+      email,
+      name,
+      accountType: 'mentor',
+      subject: { collection: 'mentors', id: firebaseUser.uid },
+    });
     const emailSubject = 'Welcome to the RCOEM-TBI Mentor Panel!';
-    const emailBody = `Dear ${name},\n\nWelcome! An account has been created for you on the RCOEM-TBI platform.\n\nYou can now log in to the Mentor Panel to view requests and manage your mentorship activities.\n\nHere are your login credentials:\n\nLogin URL: ${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002'}/login\nEmail: ${email}\nTemporary Password: ${password}\n\nPlease change your password after your first login.\n\nWe are excited to have you on board!\n\nBest regards,\nThe RCOEM-TBI Team`;
+    const emailBody = `Dear ${name},\n\nWelcome! An account has been created for you on the RCOEM-TBI platform.\n\nYou can now log in to the Mentor Panel to view requests and manage your mentorship activities.\n\nPlease choose your password using the link below:\n\n${invitation.url}\n\nThe link can be used once and expires in ${ACCOUNT_INVITATION_TTL_MS / (60 * 60 * 1000)} hours.\n\nLogin URL: ${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002'}/login\nEmail: ${email}\n\nWe are excited to have you on board!\n\nBest regards,\nThe RCOEM-TBI Team`;
 
     const emailResult = await sendEmailNotification(email, emailSubject, emailBody);
 
@@ -147,7 +160,7 @@ export async function createMentorAction(values: MentorFormValues): Promise<Crea
       return {
         success: true,
         mentorId: firebaseUser.uid,
-        message: "Mentor added, but failed to send welcome email. Please share credentials manually."
+        message: "Mentor added, but failed to send welcome email. Ask the mentor to use \"Forgot password\" on the login page to set a password."
       };
     }
 
@@ -159,8 +172,8 @@ export async function createMentorAction(values: MentorFormValues): Promise<Crea
   } catch (error: any) {
     console.error("Error in createMentorAction: ", error);
     let errorMessage = "Failed to add mentor.";
-    if (error.code === 'auth/email-already-in-use') {
-        errorMessage = "This email is already registered in Firebase Authentication. If you recently deleted a mentor with this email, you need to also delete the Firebase Auth user from the Firebase Console (Authentication > Users) to reuse this email.";
+    if (error.code === 'auth/invalid-email') {
+        errorMessage = "This email address is not accepted by Firebase Authentication.";
     } else if (error.code === 'permission-denied') {
         errorMessage = "Permission denied. Check Firestore rules for 'mentors' and 'users' collections.";
     } else if (error.message) {
@@ -173,7 +186,12 @@ export async function createMentorAction(values: MentorFormValues): Promise<Crea
 // Function to delete a mentor completely (Auth user + Firestore documents)
 export async function deleteMentorAction(mentorId: string, deleteAuthUser: boolean = false): Promise<{ success: boolean; message: string }> {
   try {
+    const session = await requirePermission('mentors:manage');
     console.log(`🗑️ Starting deletion process for mentor: ${mentorId}`);
+
+    // Snapshot the mentor before deleting so the audit log keeps what was removed
+    const mentorSnap = await getDoc(doc(db, "mentors", mentorId));
+    const mentorData = mentorSnap.exists() ? mentorSnap.data() : null;
     
     // Delete from mentor collection and its subcollections
     const deletionPromises = [
@@ -190,34 +208,37 @@ export async function deleteMentorAction(mentorId: string, deleteAuthUser: boole
     
     await Promise.allSettled(deletionPromises);
     console.log(`✅ Firestore documents deleted for mentor: ${mentorId}`);
+
+    await recordAuditEvent({
+      action: 'mentor.delete',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'mentor', id: mentorId, label: mentorData?.name, collection: 'mentors' },
+      changes: diffForAudit(mentorData, null, ['name', 'email', 'designation', 'status']),
+      details: { deleteAuthUser },
+    });
     
     let authUserMessage = "";
     
     if (deleteAuthUser) {
-      try {
-        console.log(`🔐 Attempting to delete Firebase Auth user: ${mentorId}`);
-        
-        // Attempt to delete Firebase Auth user via API
-        const response = await fetch('/api/admin/delete-auth-user', {
-          method: 'DELETE',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ uid: mentorId }),
-        });
-        
-        const result = await response.json();
-        
-        if (result.success) {
-          authUserMessage = " ✅ Firebase Auth user deleted successfully.";
-          console.log(`✅ Firebase Auth user deleted: ${mentorId}`);
-        } else {
-          authUserMessage = ` ⚠️ Warning: Firebase Auth user could not be deleted automatically (${result.message}). Please delete manually from Firebase Console.`;
-          console.warn(`⚠️ Auth deletion failed for ${mentorId}:`, result.message);
-        }
-      } catch (error) {
-        authUserMessage = " ⚠️ Warning: Could not connect to auth deletion API. Please delete Firebase Auth user manually from Firebase Console.";
-        console.error(`❌ Auth deletion API error for ${mentorId}:`, error);
+      console.log(`🔐 Attempting to delete Firebase Auth user: ${mentorId}`);
+
+      // Deleted in-process with the Admin SDK; the delete-auth-user API route is for external callers
+      const result = await deleteFirebaseAuthUser(mentorId);
+      await recordAuditEvent({
+        action: 'authUser.delete',
+        outcome: result.success ? 'success' : 'failure',
+        actor: toAuditActor(session),
+        target: { type: 'authUser', id: mentorId, label: 'mentor' },
+        details: result.success ? undefined : { message: result.message },
+      });
+
+      if (result.success) {
+        authUserMessage = " ✅ Firebase Auth user deleted successfully.";
+        console.log(`✅ Firebase Auth user deleted: ${mentorId}`);
+      } else {
+        authUserMessage = ` ⚠️ Warning: Firebase Auth user could not be deleted automatically (${result.message}). Please delete manually from Firebase Console.`;
+        console.warn(`⚠️ Auth deletion failed for ${mentorId}:`, result.message);
       }
     } else {
       authUserMessage = " ℹ️ Note: Firebase Auth account still exists. To reuse this email, delete the auth user manually from Firebase Console (Authentication > Users).";
@@ -25,6 +25,8 @@ import type {
   NotificationData
 } from '@/types/mentor-request';
 import { getUserData } from './user-actions';
+import { requirePermission, AuthorizationError } from '@/lib/auth-guard';
+import { recordAuditEvent, toAuditActor, diffForAudit } from '@/lib/audit-log';
 
 // Validation schemas
 const mentorRequestSchema = z.object({
@@ -247,12 +249,21 @@ export async function submitMentorRequest(
   }
 }
 
+// Mentor-facing actions receive the mentor's email from the client; make sure it is the signed-in mentor
+async function requireMentorSession(mentorEmail: string) {
+  const session = await requirePermission('mentorRequests:respond');
+  if (session.email.toLowerCase() !== mentorEmail.toLowerCase()) {
+    throw new AuthorizationError('Unauthorized: You can only access your own mentor requests.');
+  }
+  return session;
+}
+
 // 2. Admin processes mentor request
 export async function processAdminMentorRequest(
-  adminId: string,
   action: AdminMentorRequestAction
 ): Promise<{ success: boolean; message: string }> {
   try {
+    const session = await requirePermission('mentorRequests:decide');
     // Validate action data
     const validatedAction = adminActionSchema.safeParse(action);
     if (!validatedAction.success) {
@@ -274,12 +285,22 @@ export async function processAdminMentorRequest(
     const newStatus = action.action === 'approve' ? 'admin_approved' : 'admin_rejected';
 
     // Update request status
-    await updateDoc(doc(db, 'mentorRequests', action.requestId), {
+    const updateData = {
       status: newStatus,
       adminNotes: action.notes || '',
       adminProcessedAt: serverTimestamp(),
-      adminProcessedBy: adminId,
+      adminProcessedBy: session.email,
       updatedAt: serverTimestamp(),
+    };
+    await updateDoc(doc(db, 'mentorRequests', action.requestId), updateData);
+
+    await recordAuditEvent({
+      action: `mentorRequest.admin_${action.action}`,
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'mentorRequest', id: action.requestId, label: `${requestData.userName} → ${requestData.mentorName}`, collection: 'mentorRequests' },
+      changes: diffForAudit(requestDoc.data(), updateData),
+      reason: action.notes || undefined,
     });
 
     if (action.action === 'reject') {
@@ -340,6 +361,9 @@ export async function processAdminMentorRequest(
 
   } catch (error: any) {
     console.error("Error processing admin mentor request:", error);
+    if (error instanceof AuthorizationError) {
+      return { success: false, message: error.message };
+    }
     return { success: false, message: "Failed to process request" };
   }
 }
@@ -350,6 +374,7 @@ export async function processMentorDecision(
   mentorEmail: string // Added for security
 ): Promise<{ success: boolean; message: string }> {
   try {
+    const session = await requireMentorSession(mentorEmail);
     const validatedAction = mentorDecisionSchema.safeParse(action);
     if (!validatedAction.success) {
       return { success: false, message: "Invalid action data" };
@@ -372,11 +397,21 @@ export async function processMentorDecision(
 
     const newStatus = action.action === 'approve' ? 'mentor_approved' : 'mentor_rejected';
 
-    await updateDoc(doc(db, 'mentorRequests', action.requestId), {
+    const updateData = {
       status: newStatus,
       mentorNotes: action.notes || '',
       mentorProcessedAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
+    };
+    await updateDoc(doc(db, 'mentorRequests', action.requestId), updateData);
+
+    await recordAuditEvent({
+      action: `mentorRequest.mentor_${action.action}`,
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'mentorRequest', id: action.requestId, label: `${requestData.userName} → ${requestData.mentorName}`, collection: 'mentorRequests' },
+      changes: diffForAudit(requestDoc.data(), updateData),
+      reason: action.notes || undefined,
     });
 
     if (action.action === 'approve') {
@@ -406,6 +441,7 @@ export async function processMentorDecision(
 // Get mentor requests for admin
 export async function getAdminMentorRequests(): Promise<MentorRequest[]> {
   try {
+    await requirePermission('mentorRequests:read');
     const q = query(
       collection(db, 'mentorRequests'),
       orderBy('createdAt', 'desc')
@@ -451,6 +487,7 @@ export async function getMentorRequestForMentor(
   mentorEmail: string
 ): Promise<{ success: boolean; request?: MentorRequest; userDetails?: any; error?: string }> {
   try {
+    await requireMentorSession(mentorEmail);
     const requestDoc = await getDoc(doc(db, 'mentorRequests', requestId));
     
     if (!requestDoc.exists()) {
@@ -534,6 +571,7 @@ export async function getUserMentorRequests(userId: string): Promise<MentorReque
 // Get approved mentees for a mentor
 export async function getApprovedMentees(mentorEmail: string): Promise<{ success: boolean; mentees?: MentorRequest[]; error?: string }> {
   try {
+    await requireMentorSession(mentorEmail);
     const q = query(
       collection(db, 'mentorRequests'),
       where('mentorEmail', '==', mentorEmail),
@@ -573,6 +611,7 @@ export async function getApprovedMentees(mentorEmail: string): Promise<{ success
 // Get a specific mentee's profile if the mentor is authorized
 export async function getMenteeProfile(menteeUserId: string, mentorEmail: string): Promise<any> {
   try {
+    await requireMentorSession(mentorEmail);
     // Security Check: Verify there's an approved mentorship relationship
     const q = query(
       collection(db, 'mentorRequests'),
@@ -0,0 +1,170 @@
+// src/app/actions/role-actions.ts
+'use server';
+
+import { collection, getDocs } from 'firebase/firestore';
+import { revalidatePath } from 'next/cache';
+import { db } from '@/lib/firebase';
+import { requirePermission } from '@/lib/auth-guard';
+import {
+  listAdminAccounts,
+  setAdminAccountRoles,
+  countActiveAdminAccounts,
+  getAdminAccountRoles,
+} from '@/lib/admin-accounts';
+import { setUserGrantedRoles, type MemberCollection } from '@/lib/role-claims';
+import { setEvaluatorRoles } from '@/lib/evaluation-assignments';
+import { recordAuditEvent, toAuditActor } from '@/lib/audit-log';
+import { revokeAllSessions } from '@/lib/session-revocation';
+import { ADMIN_ACCOUNT_ROLES, GRANTABLE_USER_ROLES, isRole, type Role } from '@/lib/permissions';
+import type { AdminAccount } from '@/types/admin-account';
+import type { RoleMember } from '@/types/role-assignment';
+
+export interface RoleAssignmentsResponse {
+  success: boolean;
+  message?: string;
+  adminAccounts?: AdminAccount[];
+  members?: RoleMember[];
+}
+
+export async function getRoleAssignmentsAction(): Promise<RoleAssignmentsResponse> {
+  try {
+    await requirePermission('roles:manage');
+
+    const [adminAccounts, mentorsSnap, usersSnap] = await Promise.all([
+      listAdminAccounts(),
+      getDocs(collection(db, 'mentors')),
+      getDocs(collection(db, 'users')),
+    ]);
+
+    const toMember = (baseRole: RoleMember['baseRole']) => (memberDoc: (typeof mentorsSnap.docs)[number]): RoleMember => {
+      const data = memberDoc.data();
+      return {
+        uid: memberDoc.id,
+        name: data.name || data.email || 'Unnamed',
+        email: data.email || '',
+        baseRole,
+        grantedRoles: Array.isArray(data.roles) ? data.roles.filter(isRole) : [],
+        evaluatorRoles: Array.isArray(data.evaluatorRoles) ? data.evaluatorRoles : [],
+      };
+    };
+
+    const members = [
+      ...mentorsSnap.docs.map(toMember('mentor')),
+      ...usersSnap.docs.map(toMember('user')),
+    ].sort((a, b) => a.name.localeCompare(b.name));
+
+    return { success: true, adminAccounts, members };
+  } catch (error) {
+    console.error('[RoleActions] Error fetching role assignments:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load role assignments.' };
+  }
+}
+
+export async function setAdminAccountRolesAction(
+  accountId: string,
+  roles: Role[]
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await requirePermission('roles:manage');
+
+    const nextRoles = getAdminAccountRoles({ roles: roles.filter((role) => ADMIN_ACCOUNT_ROLES.includes(role)) });
+    const target = (await listAdminAccounts()).find((account) => account.id === accountId);
+    if (!nextRoles.includes('admin')) {
+      if (session.sub === accountId) {
+        return { success: false, message: 'You cannot remove your own administrator role.' };
+      }
+
+      if (target?.status === 'active' && target.roles.includes('admin') && (await countActiveAdminAccounts()) <= 1) {
+        return { success: false, message: 'At least one active administrator is required.' };
+      }
+    }
+
+    await setAdminAccountRoles(accountId, nextRoles);
+    // Roles are baked into the session cookie and the Firebase token, so a demotion signs the account
+    // out everywhere; the next login carries the new roles
+    const demoted = (target?.roles ?? []).some((role) => !nextRoles.includes(role));
+    if (demoted) {
+      await revokeAllSessions({ role: 'admin', sub: accountId }, session.email);
+    }
+    await recordAuditEvent({
+      action: 'adminAccount.roles_change',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'adminAccount', id: accountId, label: target?.email, collection: 'adminAccounts' },
+      changes: [{ field: 'roles', before: target?.roles ?? null, after: nextRoles }],
+    });
+    revalidatePath('/admin/roles');
+    return {
+      success: true,
+      message: demoted
+        ? 'Roles updated. The account was signed out everywhere and gets the new roles at its next login.'
+        : 'Roles updated. They take effect at the next login.',
+    };
+  } catch (error) {
+    console.error('[RoleActions] Error updating admin account roles:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to update roles.' };
+  }
+}
+
+export async function setMemberRolesAction(
+  uid: string,
+  baseRole: RoleMember['baseRole'],
+  roles: Role[]
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await requirePermission('roles:manage');
+
+    const collectionName: MemberCollection = baseRole === 'mentor' ? 'mentors' : 'users';
+    const { previousRoles, grantedRoles } = await setUserGrantedRoles(uid, collectionName, roles.filter((role) => GRANTABLE_USER_ROLES.includes(role)));
+    // Granted roles only count in the mentor portal; revoking there also revokes the Firebase refresh tokens
+    const demoted = previousRoles.some((role) => !grantedRoles.includes(role));
+    if (demoted) {
+      await revokeAllSessions({ role: 'mentor', sub: uid }, session.email);
+    }
+    await recordAuditEvent({
+      action: 'member.roles_change',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: baseRole === 'mentor' ? 'mentor' : 'user', id: uid, collection: collectionName },
+      changes: [{ field: 'roles', before: previousRoles, after: grantedRoles }],
+    });
+
+    revalidatePath('/admin/roles');
+    return {
+      success: true,
+      message: demoted
+        ? 'Roles updated. The member was signed out everywhere and gets the new roles at their next login.'
+        : 'Roles updated. They take effect at the next login.',
+    };
+  } catch (error) {
+    console.error('[RoleActions] Error updating member roles:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to update roles.' };
+  }
+}
+
+// Tag an evaluator with the expertise evaluation rounds can ask for
+export async function setEvaluatorRolesAction(
+  uid: string,
+  baseRole: RoleMember['baseRole'],
+  evaluatorRoles: string[]
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await requirePermission('roles:manage');
+
+    const collectionName: MemberCollection = baseRole === 'mentor' ? 'mentors' : 'users';
+    const { previousRoles, evaluatorRoles: nextRoles } = await setEvaluatorRoles(uid, collectionName, evaluatorRoles);
+    await recordAuditEvent({
+      action: 'member.evaluator_roles_change',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: baseRole === 'mentor' ? 'mentor' : 'user', id: uid, collection: collectionName },
+      changes: [{ field: 'evaluatorRoles', before: previousRoles, after: nextRoles }],
+    });
+
+    revalidatePath('/admin/roles');
+    return { success: true, message: 'Evaluator expertise updated.' };
+  } catch (error) {
+    console.error('[RoleActions] Error updating evaluator expertise:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to update the expertise.' };
+  }
+}
@@ -0,0 +1,124 @@
+// src/app/actions/session-actions.ts
+'use server';
+
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { adminAuth } from '@/lib/firebase-admin';
+import { clearSessionCookie, getCurrentSession } from '@/lib/auth-guard';
+import { beginSecondFactorIfEnrolled, completeLogin } from '@/lib/login-flow';
+import { revokeAllSessions } from '@/lib/session-revocation';
+import { recordAuditEvent, toAuditActor } from '@/lib/audit-log';
+import { getClaimRoles } from '@/lib/role-claims';
+import type { Role } from '@/lib/permissions';
+import type { SessionRole } from '@/lib/session-token';
+
+export interface EstablishSessionResponse {
+  success: boolean;
+  message: string;
+  requiresTwoFactor?: boolean; // Mentor portal accounts with 2FA enabled continue with an authenticator code
+}
+
+/**
+ * Exchange a Firebase ID token for a signed session cookie.
+ * Called by the mentor and user login forms after client-side Firebase sign-in.
+ * Accounts holding the evaluator claim may use the mentor portal without a mentor profile.
+ */
+export async function establishSessionFromIdToken(
+  idToken: string,
+  role: 'mentor' | 'user'
+): Promise<EstablishSessionResponse> {
+  try {
+    // checkRevoked: a login cached on a device signed out with "sign out all devices" cannot come back
+    const decodedToken = await adminAuth.verifyIdToken(idToken, true);
+    const uid = decodedToken.uid;
+    const claimRoles = getClaimRoles(decodedToken);
+
+    const profileSnap = await getDoc(doc(db, role === 'mentor' ? 'mentors' : 'users', uid));
+    const profile = profileSnap.exists() ? profileSnap.data() : null;
+
+    const roles: Role[] = role === 'mentor'
+      ? [...(profile ? (['mentor'] as Role[]) : []), ...claimRoles]
+      : profile ? ['user'] : [];
+
+    if (roles.length === 0) {
+      return { success: false, message: `This account does not have ${role} access. Please contact an admin.` };
+    }
+
+    if (profile?.status && profile.status !== 'active') {
+      return { success: false, message: 'Your account is not active. Please contact support.' };
+    }
+
+    const identity = {
+      sub: uid,
+      email: decodedToken.email || profile?.email || '',
+      name: profile?.name || decodedToken.name || (role === 'mentor' ? 'Mentor' : 'User'),
+      role,
+      roles,
+    };
+
+    if (role === 'mentor' && (await beginSecondFactorIfEnrolled(identity))) {
+      return { success: false, requiresTwoFactor: true, message: 'Enter the code from your authenticator app.' };
+    }
+
+    await completeLogin(identity, { twoFactorVerified: false });
+
+    return { success: true, message: 'Session established.' };
+  } catch (error) {
+    console.error('[SessionActions] Error establishing session:', error);
+    return { success: false, message: 'Could not verify your login. Please try again.' };
+  }
+}
+
+export interface SessionInfo {
+  uid: string;
+  email: string;
+  name: string;
+  portal: SessionRole;
+  roles: Role[];
+  twoFactorSetupRequired: boolean;
+  expiresAt: number; // Absolute end of the session (ms since epoch)
+}
+
+// Non-sensitive view of the current session for client components (the cookie itself is httpOnly)
+export async function getSessionInfo(): Promise<SessionInfo | null> {
+  const session = await getCurrentSession();
+  if (!session) return null;
+
+  return {
+    uid: session.sub,
+    email: session.email,
+    name: session.name,
+    portal: session.role,
+    roles: session.roles,
+    twoFactorSetupRequired: session.twoFactorSetupRequired === true,
+    expiresAt: session.exp * 1000,
+  };
+}
+
+// Ends every session of the signed-in account, including this one ("sign out all devices")
+export async function signOutAllDevicesAction(): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await getCurrentSession();
+    if (!session) {
+      return { success: false, message: 'Your session has expired. Please log in again.' };
+    }
+
+    await revokeAllSessions(session, session.email);
+    await clearSessionCookie();
+    await recordAuditEvent({
+      action: 'auth.sign_out_all',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: {
+        type: session.role === 'admin' ? 'adminAccount' : session.role === 'mentor' ? 'mentor' : 'authUser',
+        id: session.sub,
+        label: session.email,
+      },
+    });
+
+    return { success: true, message: 'You have been signed out on all devices.' };
+  } catch (error) {
+    console.error('[SessionActions] Error signing out all devices:', error);
+    return { success: false, message: 'Could not sign out your other devices. Please try again.' };
+  }
+}
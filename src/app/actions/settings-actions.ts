@@ -1,20 +1,34 @@
 // src/app/actions/settings-actions.ts
 'use server';
 
-import { 
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import {
   performFlowUpdateAdminCredentials,
   type UpdateAdminCredentialsInput,
   type UpdateAdminCredentialsOutput,
 } from '@/ai/flows/admin-settings-flow';
+import {
+  listAdminAccounts,
+  createAdminAccount,
+  setAdminAccountStatus,
+  countActiveAdminAccounts,
+} from '@/lib/admin-accounts';
+import type { AdminAccount, AdminAccountStatus } from '@/types/admin-account';
+import { requirePermission } from '@/lib/auth-guard';
+import { recordAuditEvent, toAuditActor } from '@/lib/audit-log';
+import { revokeAllSessions } from '@/lib/session-revocation';
 
 export async function performUpdateAdminCredentials(
-  newEmail: string,
+  email: string,
+  currentPassword: string,
   newPassword: string
 ): Promise<UpdateAdminCredentialsOutput> {
   try {
-    const input: UpdateAdminCredentialsInput = { newEmail, newPassword };
+    await requirePermission('settings:manage');
+    const input: UpdateAdminCredentialsInput = { email, currentPassword, newPassword };
     const result = await performFlowUpdateAdminCredentials(input);
-    
+
     console.log("[SettingsActions] Result from updateAdminCredentialsFlow:", JSON.stringify(result, null, 2));
     return result;
 
@@ -26,3 +40,104 @@ export async function performUpdateAdminCredentials(
     };
   }
 }
+
+// --- Admin Accounts ---
+
+export interface AdminAccountsResponse {
+  success: boolean;
+  message?: string;
+  accounts?: AdminAccount[];
+}
+
+export async function getAdminAccountsAction(): Promise<AdminAccountsResponse> {
+  try {
+    await requirePermission('settings:manage');
+    const accounts = await listAdminAccounts();
+    return { success: true, accounts };
+  } catch (error) {
+    console.error("[SettingsActions] Error fetching admin accounts: ", error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, message: `Failed to fetch admin accounts: ${errorMessage}` };
+  }
+}
+
+const CreateAdminAccountSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters.'),
+  email: z.string().email('Please enter a valid email address.'),
+  password: z.string().min(8, 'Password must be at least 8 characters.'),
+});
+export type CreateAdminAccountValues = z.infer<typeof CreateAdminAccountSchema>;
+
+export async function createAdminAccountAction(
+  values: CreateAdminAccountValues
+): Promise<{ success: boolean; message: string; accountId?: string }> {
+  try {
+    const session = await requirePermission('settings:manage');
+    const validated = CreateAdminAccountSchema.safeParse(values);
+    if (!validated.success) {
+      return { success: false, message: validated.error.errors[0]?.message || 'Invalid input data.' };
+    }
+
+    const accountId = await createAdminAccount({ ...validated.data, createdBy: session.email });
+    await recordAuditEvent({
+      action: 'adminAccount.create',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'adminAccount', id: accountId, label: validated.data.email, collection: 'adminAccounts' },
+    });
+    revalidatePath('/admin/settings');
+    return { success: true, message: `Admin account created for ${validated.data.email}.`, accountId };
+  } catch (error) {
+    console.error("[SettingsActions] Error creating admin account: ", error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to create admin account.' };
+  }
+}
+
+const AdminAccountStatusSchema = z.enum(['active', 'disabled']);
+
+export async function setAdminAccountStatusAction(
+  accountId: string,
+  status: AdminAccountStatus
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const session = await requirePermission('settings:manage');
+    const validatedStatus = AdminAccountStatusSchema.safeParse(status);
+    if (!validatedStatus.success) {
+      return { success: false, message: 'Invalid account status.' };
+    }
+
+    const account = (await listAdminAccounts()).find((adminAccount) => adminAccount.id === accountId);
+    if (!account) {
+      return { success: false, message: 'Admin account not found.' };
+    }
+    if (
+      validatedStatus.data === 'disabled' &&
+      account.status === 'active' &&
+      account.roles.includes('admin') &&
+      (await countActiveAdminAccounts()) <= 1
+    ) {
+      return { success: false, message: 'At least one active admin account is required.' };
+    }
+
+    await setAdminAccountStatus(accountId, validatedStatus.data);
+    if (validatedStatus.data === 'disabled') {
+      // Sessions already signed in would otherwise keep working until they expire
+      await revokeAllSessions({ role: 'admin', sub: accountId }, session.email);
+    }
+    await recordAuditEvent({
+      action: 'adminAccount.status_change',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'adminAccount', id: accountId, label: account.email, collection: 'adminAccounts' },
+      changes: [{ field: 'status', before: account.status, after: validatedStatus.data }],
+    });
+    revalidatePath('/admin/settings');
+    return {
+      success: true,
+      message: validatedStatus.data === 'disabled' ? 'Admin account disabled and signed out everywhere.' : 'Admin account enabled.',
+    };
+  } catch (error) {
+    console.error("[SettingsActions] Error updating admin account status: ", error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to update admin account.' };
+  }
+}
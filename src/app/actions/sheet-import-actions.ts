@@ -0,0 +1,176 @@
+// src/app/actions/sheet-import-actions.ts
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/auth-guard';
+import { recordAuditEvent, toAuditActor, diffForAudit } from '@/lib/audit-log';
+import {
+  createSheetImportSource,
+  deleteSheetImportSource,
+  getSheetImportSource,
+  listSheetImportSources,
+  readSheetHeaders,
+  resetSheetImportCursor,
+  runSheetImport,
+  updateSheetImportSource,
+} from '@/lib/sheet-import';
+import { sheetImportSourceSchema, suggestColumnMapping } from '@/lib/validation/sheet-import-schema';
+import type { SheetColumnMapping, SheetImportResult, SheetImportSource, SheetImportSourceInput } from '@/types/sheet-import';
+
+export interface SheetImportActionResponse {
+  success: boolean;
+  message: string;
+  source?: SheetImportSource;
+  result?: SheetImportResult;
+}
+
+const sourceIdSchema = z.string().min(1).max(100);
+
+function sourceTarget(source: Pick<SheetImportSource, 'id' | 'name'>) {
+  return { type: 'sheetImportSource' as const, id: source.id, label: source.name, collection: 'sheetImportSources' };
+}
+
+export async function listSheetImportSourcesAction(): Promise<{ success: boolean; message?: string; sources?: SheetImportSource[] }> {
+  try {
+    await requirePermission('submissions:decide');
+    return { success: true, sources: await listSheetImportSources() };
+  } catch (error) {
+    console.error('[SheetImportActions] Error listing import sources:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to load import sources.' };
+  }
+}
+
+// Header row of a tab, with a suggested mapping for sources that do not have one yet
+export async function loadSheetHeadersAction(
+  spreadsheetId: string,
+  sheetName: string
+): Promise<{ success: boolean; message?: string; headers?: string[]; suggestedMapping?: SheetColumnMapping }> {
+  try {
+    await requirePermission('submissions:decide');
+    const parsed = sheetImportSourceSchema.pick({ spreadsheetId: true, sheetName: true }).safeParse({ spreadsheetId, sheetName });
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'Invalid sheet.' };
+    }
+    const headers = await readSheetHeaders(parsed.data.spreadsheetId, parsed.data.sheetName);
+    if (headers.length === 0) {
+      return { success: false, message: 'The first row of this tab is empty. It should hold the column headers.' };
+    }
+    return { success: true, headers, suggestedMapping: suggestColumnMapping(headers) };
+  } catch (error) {
+    console.error('[SheetImportActions] Error reading sheet headers:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to read the sheet.' };
+  }
+}
+
+// Create a source, or update it when `id` is given
+export async function saveSheetImportSourceAction(input: SheetImportSourceInput, id?: string): Promise<SheetImportActionResponse> {
+  try {
+    const session = await requirePermission('submissions:decide');
+    const parsed = sheetImportSourceSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, message: parsed.error.errors[0]?.message || 'Invalid import source.' };
+    }
+
+    if (id) {
+      const { before, after } = await updateSheetImportSource(sourceIdSchema.parse(id), parsed.data, session.email);
+      await recordAuditEvent({
+        action: 'sheetImport.update_source',
+        outcome: 'success',
+        actor: toAuditActor(session),
+        target: sourceTarget(after),
+        changes: diffForAudit(
+          { ...before, columnMapping: JSON.stringify(before.columnMapping) },
+          { ...parsed.data, columnMapping: JSON.stringify(parsed.data.columnMapping) },
+          ['name', 'spreadsheetId', 'sheetName', 'columnMapping']
+        ),
+      });
+      return { success: true, message: 'Import source saved.', source: after };
+    }
+
+    const source = await createSheetImportSource(parsed.data, session.email);
+    await recordAuditEvent({
+      action: 'sheetImport.create_source',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: sourceTarget(source),
+      details: { spreadsheetId: source.spreadsheetId, sheetName: source.sheetName },
+    });
+    return { success: true, message: 'Import source created.', source };
+  } catch (error) {
+    console.error('[SheetImportActions] Error saving an import source:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to save the import source.' };
+  }
+}
+
+export async function deleteSheetImportSourceAction(id: string): Promise<SheetImportActionResponse> {
+  try {
+    const session = await requirePermission('submissions:decide');
+    const source = await deleteSheetImportSource(sourceIdSchema.parse(id));
+    if (!source) {
+      return { success: false, message: 'Import source not found.' };
+    }
+    await recordAuditEvent({
+      action: 'sheetImport.delete_source',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: sourceTarget(source),
+    });
+    return { success: true, message: 'Import source deleted. Submissions it imported are kept.' };
+  } catch (error) {
+    console.error('[SheetImportActions] Error deleting an import source:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to delete the import source.' };
+  }
+}
+
+export async function resetSheetImportCursorAction(id: string): Promise<SheetImportActionResponse> {
+  try {
+    const session = await requirePermission('submissions:decide');
+    const source = await getSheetImportSource(sourceIdSchema.parse(id));
+    if (!source) {
+      return { success: false, message: 'Import source not found.' };
+    }
+    await resetSheetImportCursor(source.id);
+    await recordAuditEvent({
+      action: 'sheetImport.reset_cursor',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: sourceTarget(source),
+      details: { previousLastRow: source.cursor.lastRow },
+    });
+    return { success: true, message: 'The next run reads the whole sheet again. Rows already imported are still skipped.' };
+  } catch (error) {
+    console.error('[SheetImportActions] Error resetting the import cursor:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to reset the cursor.' };
+  }
+}
+
+// With `dryRun`, report what an import would create, skip and reject without writing anything
+export async function runSheetImportAction(id: string, options: { dryRun: boolean }): Promise<SheetImportActionResponse> {
+  try {
+    const session = await requirePermission('submissions:decide');
+    const dryRun = options.dryRun !== false;
+    const { source, result } = await runSheetImport(sourceIdSchema.parse(id), { dryRun, runBy: session.email });
+
+    if (!dryRun) {
+      await recordAuditEvent({
+        action: 'sheetImport.run',
+        outcome: 'success',
+        actor: toAuditActor(session),
+        target: sourceTarget(source),
+        details: { ...result.summary, lastRow: result.cursor.lastRow },
+      });
+      revalidatePath('/admin/submissions');
+      revalidatePath('/admin/dashboard');
+    }
+
+    const { created, skipped, errors } = result.summary;
+    const message = dryRun
+      ? `Preview: ${created} to import, ${skipped} to skip, ${errors} with errors.`
+      : `Imported ${created} submissions (${skipped} skipped, ${errors} with errors).`;
+    return { success: true, message, result };
+  } catch (error) {
+    console.error('[SheetImportActions] Error running the sheet import:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to run the import.' };
+  }
+}
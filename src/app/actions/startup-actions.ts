@@ -3,8 +3,10 @@
 
 import { z } from 'zod';
 import { db } from '@/lib/firebase';
-import { collection, addDoc, doc, updateDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { collection, addDoc, doc, getDoc, updateDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
 import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/auth-guard';
+import { recordAuditEvent, toAuditActor, diffForAudit } from '@/lib/audit-log';
 
 // Schema matches the form validation schema in the page component
 const startupFormSchema = z.object({
@@ -56,6 +58,7 @@ function determineLogoUrl(name: string, providedLogoUrl?: string): string {
 // --- Create Startup Action ---
 export async function createStartupAction(values: StartupFormValues): Promise<CreateStartupResponse> {
   try {
+    await requirePermission('startups:manage');
     const validatedValues = startupFormSchema.safeParse(values);
     if (!validatedValues.success) {
       console.error("Server-side validation failed for startup creation:", validatedValues.error.flatten().fieldErrors);      return { success: false, message: "Invalid input data for startup. " + JSON.stringify(validatedValues.error.flatten().fieldErrors) };
@@ -101,6 +104,7 @@ export async function createStartupAction(values: StartupFormValues): Promise<Cr
 // --- Update Startup Action ---
 export async function updateStartupAction(startupId: string, values: StartupFormValues): Promise<UpdateStartupResponse> {
   try {
+    await requirePermission('startups:manage');
     const validatedValues = startupFormSchema.safeParse(values);
     if (!validatedValues.success) {
       console.error("Server-side validation failed for startup update:", validatedValues.error.flatten().fieldErrors);
@@ -161,9 +165,20 @@ export async function updateStartupAction(startupId: string, values: StartupForm
 // --- Delete Startup Action ---
 export async function deleteStartupAction(startupId: string): Promise<DeleteStartupResponse> {
   try {
+    const session = await requirePermission('startups:manage');
     const startupDocRef = doc(db, "startups", startupId);
+    const startupSnap = await getDoc(startupDocRef);
+    const startupData = startupSnap.exists() ? startupSnap.data() : null;
     await deleteDoc(startupDocRef);
 
+    await recordAuditEvent({
+      action: 'startup.delete',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'startup', id: startupId, label: startupData?.name, collection: 'startups' },
+      changes: diffForAudit(startupData, null, ['name', 'status', 'session', 'emailId', 'websiteUrl']),
+    });
+
     revalidatePath('/admin/startups');
     revalidatePath('/');
 
@@ -201,6 +216,12 @@ export interface StartupRowData {
 }
 
 export async function importStartupsFromTable(data: StartupRowData[]): Promise<ImportStartupsResponse> {
+  try {
+    await requirePermission('startups:manage');
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : 'Not authorized.' };
+  }
+
   console.log("Attempting to import startups from provided table data...");
   let importedCount = 0;
   const importErrors: any[] = [];
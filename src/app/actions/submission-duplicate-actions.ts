@@ -0,0 +1,100 @@
+// src/app/actions/submission-duplicate-actions.ts
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/auth-guard';
+import { recordAuditEvent, toAuditActor, diffForAudit } from '@/lib/audit-log';
+import { CUSTOM_ANSWER_FIELD_PREFIX } from '@/lib/duplicate-detection';
+import { dismissDuplicateFlag, mergeSubmissions } from '@/lib/submission-duplicates';
+import { APPLICATIONS_COLLECTION } from '@/lib/applications';
+
+export interface SubmissionDuplicateActionResponse {
+  success: boolean;
+  message: string;
+}
+
+const submissionIdSchema = z.string().min(1);
+
+const mergeInputSchema = z.object({
+  primaryId: submissionIdSchema,
+  duplicateId: submissionIdSchema,
+  fields: z.array(z.string()).max(100),
+});
+
+function submissionLabel(data: { companyName?: unknown; name?: unknown } | null | undefined): string | undefined {
+  const label = data?.companyName || data?.name;
+  return typeof label === 'string' ? label : undefined;
+}
+
+// Keep `primary`, copy the chosen answers over from `duplicate`, then delete `duplicate`
+export async function mergeSubmissionsAction(input: z.infer<typeof mergeInputSchema>): Promise<SubmissionDuplicateActionResponse> {
+  const parsed = mergeInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, message: 'Invalid merge request.' };
+  }
+  const { primaryId, duplicateId, fields } = parsed.data;
+
+  try {
+    const session = await requirePermission('submissions:decide');
+    const result = await mergeSubmissions({ primaryId, duplicateId, fields, mergedBy: session.email });
+
+    const beforeValues = Object.fromEntries(
+      Object.keys(result.updates).map((field) => [
+        field,
+        field.startsWith(CUSTOM_ANSWER_FIELD_PREFIX)
+          ? result.before.customAnswers?.[field.slice(CUSTOM_ANSWER_FIELD_PREFIX.length)]
+          : result.before[field],
+      ])
+    );
+
+    await recordAuditEvent({
+      action: 'application.merge',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'application', id: primaryId, label: submissionLabel(result.before), collection: APPLICATIONS_COLLECTION },
+      changes: diffForAudit(beforeValues, result.updates),
+      details: {
+        mergedId: duplicateId,
+        mergedLabel: submissionLabel(result.duplicate),
+        mergedEmail: result.duplicate.email,
+        attachmentsMoved: result.attachments.map((attachment) => attachment.fileName),
+        matchesRemovedFrom: result.unlinkedFrom,
+      },
+    });
+
+    revalidatePath('/admin/submissions');
+    revalidatePath('/admin/dashboard');
+    return { success: true, message: 'Submissions merged. The duplicate was removed.' };
+  } catch (error) {
+    console.error('[SubmissionDuplicateActions] Error merging submissions:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to merge the submissions.' };
+  }
+}
+
+// Clear the "possible duplicate" flag once an admin has checked it is a different applicant
+export async function dismissDuplicateFlagAction(submissionId: string): Promise<SubmissionDuplicateActionResponse> {
+  const parsed = submissionIdSchema.safeParse(submissionId);
+  if (!parsed.success) {
+    return { success: false, message: 'Invalid submission.' };
+  }
+
+  try {
+    const session = await requirePermission('submissions:decide');
+    const before = await dismissDuplicateFlag(parsed.data);
+
+    await recordAuditEvent({
+      action: 'application.dismiss_duplicate',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'application', id: parsed.data, label: submissionLabel(before), collection: APPLICATIONS_COLLECTION },
+      changes: diffForAudit({ duplicateStatus: before.duplicateCheck?.status }, { duplicateStatus: 'dismissed' }),
+    });
+
+    revalidatePath('/admin/submissions');
+    return { success: true, message: 'Marked as not a duplicate.' };
+  } catch (error) {
+    console.error('[SubmissionDuplicateActions] Error dismissing a duplicate flag:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to update the submission.' };
+  }
+}
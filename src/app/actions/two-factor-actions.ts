@@ -0,0 +1,320 @@
+// src/app/actions/two-factor-actions.ts
+'use server';
+
+import QRCode from 'qrcode';
+import { z } from 'zod';
+import {
+  clearPendingLoginCookie,
+  getCurrentSession,
+  getPendingLogin,
+  requirePermission,
+  setSessionCookie,
+} from '@/lib/auth-guard';
+import { completeLogin } from '@/lib/login-flow';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { recordAuditEvent, toAuditActor } from '@/lib/audit-log';
+import { createAdminFirebaseToken } from '@/lib/firestore-identity';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorPolicy,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  regenerateRecoveryCodes,
+  setTwoFactorPolicy,
+  twoFactorPrincipalId,
+  verifySecondFactor,
+  type SecondFactorMethod,
+} from '@/lib/two-factor';
+import type { SessionPayload } from '@/lib/session-token';
+import type { TwoFactorPolicy, TwoFactorStatus } from '@/types/two-factor';
+
+// Login and settings codes share one budget per account
+const TWO_FACTOR_RATE_LIMIT = { limit: 5, windowMs: 5 * 60 * 1000 };
+
+const codeSchema = z.string().trim().min(6, 'Enter the 6-digit code or a recovery code.').max(32);
+
+export interface TwoFactorActionResponse {
+  success: boolean;
+  message: string;
+}
+
+export interface CompleteTwoFactorLoginResponse extends TwoFactorActionResponse {
+  redirectTo?: string;
+  firebaseToken?: string; // Admin logins, and mentor logins (the form signed out of Firebase for the code)
+  method?: SecondFactorMethod;
+}
+
+export interface TwoFactorEnrollmentResponse extends TwoFactorActionResponse {
+  secret?: string; // Shown for manual entry when the QR code cannot be scanned
+  otpauthUri?: string;
+  qrCodeDataUrl?: string;
+}
+
+export interface TwoFactorRecoveryCodesResponse extends TwoFactorActionResponse {
+  recoveryCodes?: string[];
+  firebaseToken?: string; // Issued when confirming lifts an admin's "set up 2FA" restriction
+}
+
+// 2FA is offered to the admin and mentor portals only
+async function requireTwoFactorSession(): Promise<SessionPayload> {
+  const session = await getCurrentSession();
+  if (!session || (session.role !== 'admin' && session.role !== 'mentor')) {
+    throw new Error('Two-factor authentication is available to admin and mentor accounts only.');
+  }
+  return session;
+}
+
+function rateLimitMessage(key: string): string | null {
+  const limit = checkRateLimit(`2fa:${key}`, TWO_FACTOR_RATE_LIMIT);
+  return limit.allowed ? null : `Too many attempts. Try again in ${limit.retryAfterSeconds} seconds.`;
+}
+
+function parseCode(code: string): { code?: string; error?: string } {
+  const parsed = codeSchema.safeParse(code);
+  return parsed.success ? { code: parsed.data } : { error: parsed.error.errors[0]?.message };
+}
+
+// Second step of the admin and mentor logins, against the pending-login cookie set after the password
+export async function completeTwoFactorLoginAction(code: string): Promise<CompleteTwoFactorLoginResponse> {
+  try {
+    const pending = await getPendingLogin();
+    if (!pending) {
+      return { success: false, message: 'Your sign-in has expired. Enter your email and password again.' };
+    }
+
+    const { identity } = pending;
+    const principalId = twoFactorPrincipalId(identity);
+    const limited = rateLimitMessage(principalId);
+    if (limited) return { success: false, message: limited };
+
+    const parsed = parseCode(code);
+    if (!parsed.code) return { success: false, message: parsed.error || 'Invalid code.' };
+
+    const result = await verifySecondFactor(identity, parsed.code);
+    await recordAuditEvent({
+      action: 'auth.two_factor_login',
+      outcome: result.success ? 'success' : 'failure',
+      actor: toAuditActor(identity),
+      target: { type: identity.role === 'admin' ? 'adminAccount' : 'mentor', id: identity.sub, label: identity.email },
+      details: { method: result.method ?? null, recoveryCodesRemaining: result.recoveryCodesRemaining ?? null },
+    });
+    if (!result.success) {
+      return { success: false, message: result.error || 'That code is not valid.' };
+    }
+
+    const { redirectTo, firebaseToken } = await completeLogin(identity, { twoFactorVerified: true });
+
+    return {
+      success: true,
+      message: result.method === 'recovery_code'
+        ? `Signed in with a recovery code. ${result.recoveryCodesRemaining ?? 0} left — generate new ones in your security settings.`
+        : 'Login successful.',
+      redirectTo,
+      firebaseToken,
+      method: result.method,
+    };
+  } catch (error) {
+    console.error('[TwoFactorActions] Error completing two-factor login:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to verify the code.' };
+  }
+}
+
+export async function cancelTwoFactorLoginAction(): Promise<void> {
+  await clearPendingLoginCookie();
+}
+
+export async function getTwoFactorStatusAction(): Promise<TwoFactorStatus | null> {
+  try {
+    const session = await requireTwoFactorSession();
+    return await getTwoFactorStatus(session);
+  } catch (error) {
+    console.error('[TwoFactorActions] Error loading two-factor status:', error);
+    return null;
+  }
+}
+
+/**
+ * Start setting up 2FA. Moving an enabled 2FA to a new device replaces its secret and recovery
+ * codes, so it needs a current code or a recovery code, like turning 2FA off does.
+ */
+export async function beginTwoFactorEnrollmentAction(currentCode?: string): Promise<TwoFactorEnrollmentResponse> {
+  try {
+    const session = await requireTwoFactorSession();
+    const enabled = await isTwoFactorEnabled(session);
+    if (enabled) {
+      const limited = rateLimitMessage(twoFactorPrincipalId(session));
+      if (limited) return { success: false, message: limited };
+
+      const parsed = parseCode(currentCode ?? '');
+      if (!parsed.code) return { success: false, message: parsed.error || 'Invalid code.' };
+
+      const result = await verifySecondFactor(session, parsed.code);
+      if (!result.success) {
+        await recordAuditEvent({
+          action: 'auth.two_factor_reenroll',
+          outcome: 'failure',
+          actor: toAuditActor(session),
+          target: { type: session.role === 'admin' ? 'adminAccount' : 'mentor', id: session.sub, label: session.email },
+        });
+        return { success: false, message: result.error || 'That code is not valid.' };
+      }
+    }
+
+    const { secret, otpauthUri } = await beginTwoFactorEnrollment(session, { currentFactorVerified: enabled });
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 220 });
+
+    return { success: true, message: 'Scan the QR code with your authenticator app.', secret, otpauthUri, qrCodeDataUrl };
+  } catch (error) {
+    console.error('[TwoFactorActions] Error starting two-factor enrollment:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to start two-factor setup.' };
+  }
+}
+
+export async function confirmTwoFactorEnrollmentAction(code: string): Promise<TwoFactorRecoveryCodesResponse> {
+  try {
+    const session = await requireTwoFactorSession();
+    const limited = rateLimitMessage(twoFactorPrincipalId(session));
+    if (limited) return { success: false, message: limited };
+
+    const parsed = parseCode(code);
+    if (!parsed.code) return { success: false, message: parsed.error || 'Invalid code.' };
+
+    const result = await confirmTwoFactorEnrollment(session, parsed.code);
+    if (!result.success) {
+      return { success: false, message: result.error || 'That code is not valid.' };
+    }
+
+    await recordAuditEvent({
+      action: 'auth.two_factor_enable',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: session.role === 'admin' ? 'adminAccount' : 'mentor', id: session.sub, label: session.email },
+    });
+
+    // An admin held at the settings page by the policy gets a full session (and Firestore access) now
+    let firebaseToken: string | undefined;
+    if (session.twoFactorSetupRequired) {
+      const { sub, email, name, role, roles } = session;
+      await setSessionCookie({ sub, email, name, role, roles });
+      if (role === 'admin') {
+        try {
+          firebaseToken = await createAdminFirebaseToken(sub, roles);
+        } catch (tokenError) {
+          console.error('[TwoFactorActions] Could not create Firebase custom token for admin:', tokenError);
+        }
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Two-factor authentication is on. Save your recovery codes somewhere safe.',
+      recoveryCodes: result.recoveryCodes,
+      firebaseToken,
+    };
+  } catch (error) {
+    console.error('[TwoFactorActions] Error confirming two-factor enrollment:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to turn on two-factor authentication.' };
+  }
+}
+
+// Needs a current code (not a recovery code) so a stolen session alone cannot turn 2FA off
+export async function disableTwoFactorAction(code: string): Promise<TwoFactorActionResponse> {
+  try {
+    const session = await requireTwoFactorSession();
+    const status = await getTwoFactorStatus(session);
+    if (status.required) {
+      return { success: false, message: 'Two-factor authentication is required for your account by the security policy.' };
+    }
+
+    const limited = rateLimitMessage(twoFactorPrincipalId(session));
+    if (limited) return { success: false, message: limited };
+
+    const parsed = parseCode(code);
+    if (!parsed.code) return { success: false, message: parsed.error || 'Invalid code.' };
+
+    const result = await verifySecondFactor(session, parsed.code, { allowRecoveryCode: false });
+    if (!result.success) {
+      return { success: false, message: result.error || 'That code is not valid.' };
+    }
+
+    await disableTwoFactor(session);
+    await recordAuditEvent({
+      action: 'auth.two_factor_disable',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: session.role === 'admin' ? 'adminAccount' : 'mentor', id: session.sub, label: session.email },
+    });
+
+    return { success: true, message: 'Two-factor authentication has been turned off.' };
+  } catch (error) {
+    console.error('[TwoFactorActions] Error disabling two-factor authentication:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to turn off two-factor authentication.' };
+  }
+}
+
+export async function regenerateRecoveryCodesAction(code: string): Promise<TwoFactorRecoveryCodesResponse> {
+  try {
+    const session = await requireTwoFactorSession();
+    const limited = rateLimitMessage(twoFactorPrincipalId(session));
+    if (limited) return { success: false, message: limited };
+
+    const parsed = parseCode(code);
+    if (!parsed.code) return { success: false, message: parsed.error || 'Invalid code.' };
+
+    const result = await verifySecondFactor(session, parsed.code, { allowRecoveryCode: false });
+    if (!result.success) {
+      return { success: false, message: result.error || 'That code is not valid.' };
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(session);
+    await recordAuditEvent({
+      action: 'auth.recovery_codes_regenerate',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: session.role === 'admin' ? 'adminAccount' : 'mentor', id: session.sub, label: session.email },
+    });
+
+    return { success: true, message: 'New recovery codes generated. The old ones no longer work.', recoveryCodes };
+  } catch (error) {
+    console.error('[TwoFactorActions] Error regenerating recovery codes:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to generate recovery codes.' };
+  }
+}
+
+export async function getTwoFactorPolicyAction(): Promise<TwoFactorPolicy | null> {
+  try {
+    await requirePermission('settings:manage');
+    return await getTwoFactorPolicy();
+  } catch (error) {
+    console.error('[TwoFactorActions] Error loading the security policy:', error);
+    return null;
+  }
+}
+
+export async function setTwoFactorPolicyAction(requireForAdmins: boolean): Promise<TwoFactorActionResponse> {
+  try {
+    const session = await requirePermission('settings:manage');
+    const before = await getTwoFactorPolicy();
+    await setTwoFactorPolicy(requireForAdmins, session.email);
+
+    await recordAuditEvent({
+      action: 'settings.two_factor_policy',
+      outcome: 'success',
+      actor: toAuditActor(session),
+      target: { type: 'settings', id: 'security_policy', label: 'Security policy', collection: 'admin_config' },
+      changes: [{ field: 'requireAdminTwoFactor', before: before.requireForAdmins, after: requireForAdmins }],
+    });
+
+    return {
+      success: true,
+      message: requireForAdmins
+        ? 'Administrators without two-factor authentication will be asked to set it up at their next sign-in.'
+        : 'Two-factor authentication is now optional for administrators.',
+    };
+  } catch (error) {
+    console.error('[TwoFactorActions] Error updating the security policy:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to update the security policy.' };
+  }
+}
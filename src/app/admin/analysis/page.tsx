@@ -17,6 +17,7 @@ import { useSearchFilter } from "@/hooks/useSearchFilter";
 import { useYearFilter } from "@/hooks/useYearFilter";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { db } from '@/lib/firebase';
+import { APPLICATIONS_COLLECTION, applicationSourceOf } from '@/lib/applications';
 import { collection, getDocs, addDoc, setDoc, doc } from 'firebase/firestore';
 import { format } from 'date-fns';
 import { getAuth, signInWithEmailAndPassword } from "firebase/auth";
@@ -335,26 +336,17 @@ async function uploadExcelDataToFirestore(parsedData: any[]) {
   });
 }
 
-// Helper: Fetch all campus and off-campus submissions and merge them
+// Helper: Copy every application into the analysis collection
 async function fetchAndMergeSubmissionsToAnalysis() {
-  // Fetch campus submissions
-  const campusSnapshot = await getDocs(collection(db, 'contactSubmissions'));
-  const campusData = campusSnapshot.docs.map(doc => ({
-    ...doc.data(),
-    id: doc.id,
-    source: 'campus',
-  }));
-
-  // Fetch off-campus submissions
-  const offCampusSnapshot = await getDocs(collection(db, 'offCampusApplications'));
-  const offCampusData = offCampusSnapshot.docs.map(doc => ({
-    ...doc.data(),
-    id: doc.id,
-    source: 'off-campus',
-  }));
-
-  // Merge both
-  const allSubmissions = [...campusData, ...offCampusData];
+  const snapshot = await getDocs(collection(db, APPLICATIONS_COLLECTION));
+  const allSubmissions = snapshot.docs.map(doc => {
+    const data = doc.data();
+    return {
+      ...data,
+      id: doc.id,
+      source: applicationSourceOf(data),
+    };
+  });
 
   // Upload/merge to 'analysis' collection (idempotent by submission id)
   const analysisCol = collection(db, 'analysis');
@@ -483,10 +475,10 @@ const AnalysisPage = () => {
   useEffect(() => {
     async function fetchSubmissionsForGraph() {
       setLoadingSubmissionGraph(true);
-      const campusSnapshot = await getDocs(collection(db, 'contactSubmissions'));
-      const campusData = campusSnapshot.docs.map(doc => doc.data());
-      const offCampusSnapshot = await getDocs(collection(db, 'offCampusApplications'));
-      const offCampusData = offCampusSnapshot.docs.map(doc => doc.data());
+      const snapshot = await getDocs(collection(db, APPLICATIONS_COLLECTION));
+      const applications = snapshot.docs.map(doc => doc.data());
+      const campusData = applications.filter(sub => applicationSourceOf(sub) === 'campus');
+      const offCampusData = applications.filter(sub => applicationSourceOf(sub) === 'off-campus');
       console.log('Campus submissions:', campusData);
       console.log('Off-campus submissions:', offCampusData);
       const campusCounts: Record<string, number> = {};
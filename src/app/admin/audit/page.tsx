@@ -0,0 +1,308 @@
+// src/app/admin/audit/page.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Filter, Loader2, ScrollText, RotateCcw } from "lucide-react";
+import { getAuditLogsAction } from "@/app/actions/audit-actions";
+import {
+  AUDIT_TARGET_TYPE_LABELS,
+  type AuditChange,
+  type AuditLog,
+  type AuditLogFilters,
+  type AuditOutcome,
+  type AuditTargetType,
+} from "@/types/audit-log";
+
+const ALL_TARGET_TYPES = "all";
+
+const OUTCOME_BADGES: Record<AuditOutcome, { label: string; variant: "success" | "error" | "outline" }> = {
+  success: { label: "Success", variant: "success" },
+  failure: { label: "Failed", variant: "error" },
+  denied: { label: "Denied", variant: "outline" },
+};
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function formatChanges(changes: AuditChange[] | undefined): string {
+  if (!changes || changes.length === 0) return "";
+  return changes
+    .map((change) => `${change.field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`)
+    .join("; ");
+}
+
+// Spreadsheets run cells starting with these as formulas; actor names and reasons are user input
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: string): string {
+  const neutralized = CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(neutralized) ? `"${neutralized.replace(/"/g, '""')}"` : neutralized;
+}
+
+function buildAuditCsv(logs: AuditLog[]): string {
+  const header = [
+    "Timestamp", "Actor Name", "Actor Email", "Actor Roles", "Action", "Outcome",
+    "Entity Type", "Entity ID", "Entity", "Changes", "Reason", "IP Address",
+  ];
+  const rows = logs.map((log) => [
+    new Date(log.createdAt).toISOString(),
+    log.actor?.name || "",
+    log.actor?.email || "",
+    log.actor?.roles.join(" ") || "",
+    log.action,
+    log.outcome,
+    log.target ? AUDIT_TARGET_TYPE_LABELS[log.target.type] ?? log.target.type : "",
+    log.target?.id || "",
+    log.target?.label || "",
+    formatChanges(log.changes),
+    log.reason || "",
+    log.ipAddress || "",
+  ]);
+  return [header, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+}
+
+export default function AdminAuditPage() {
+  const { toast } = useToast();
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [actorEmail, setActorEmail] = useState("");
+  const [targetType, setTargetType] = useState<string>(ALL_TARGET_TYPES);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const loadLogs = useCallback(async (filters: AuditLogFilters) => {
+    setIsLoading(true);
+    const result = await getAuditLogsAction(filters);
+    if (result.success) {
+      setLogs(result.logs || []);
+    } else {
+      toast({
+        title: "Failed to load audit log",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadLogs({});
+  }, [loadLogs]);
+
+  const currentFilters = (): AuditLogFilters => ({
+    actorEmail: actorEmail.trim() || undefined,
+    targetType: targetType === ALL_TARGET_TYPES ? undefined : (targetType as AuditTargetType),
+    from: from || undefined,
+    to: to || undefined,
+  });
+
+  const resetFilters = () => {
+    setActorEmail("");
+    setTargetType(ALL_TARGET_TYPES);
+    setFrom("");
+    setTo("");
+    loadLogs({});
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([buildAuditCsv(logs)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `audit-log-${format(new Date(), "yyyy-MM-dd")}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="admin-heading-2 mb-2 flex items-center">
+              <ScrollText className="mr-3 h-7 w-7 text-indigo-600" />
+              Audit Log
+            </h1>
+            <p className="admin-caption">
+              Every admin and mentor decision, who made it and what changed.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={exportCsv}
+            disabled={isLoading || logs.length === 0}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+
+        <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+          <CardHeader className="border-b border-gray-100 bg-gray-50">
+            <CardTitle className="flex items-center admin-heading-3">
+              <Filter className="mr-3 h-6 w-6 text-indigo-600" />
+              Filters
+            </CardTitle>
+            <CardDescription className="admin-body-small">
+              Narrow the log by who acted, what kind of record was affected and when.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <form
+              className="grid gap-4 md:grid-cols-5 items-end"
+              onSubmit={(e) => {
+                e.preventDefault();
+                loadLogs(currentFilters());
+              }}
+            >
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="audit-actor">Actor email</Label>
+                <Input
+                  id="audit-actor"
+                  type="email"
+                  placeholder="manager@rcoem.edu"
+                  value={actorEmail}
+                  onChange={(e) => setActorEmail(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Entity type</Label>
+                <Select value={targetType} onValueChange={setTargetType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TARGET_TYPES}>All types</SelectItem>
+                    {Object.entries(AUDIT_TARGET_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+              <div className="md:col-span-5 flex justify-end gap-2">
+                <Button type="button" variant="ghost" onClick={resetFilters} disabled={isLoading}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Reset
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white"
+                >
+                  {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Filter className="mr-2 h-4 w-4" />}
+                  Apply Filters
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Changes</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Outcome</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-gray-500">
+                        No audit entries match these filters.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    logs.map((log) => (
+                      <TableRow key={log.id} className="align-top">
+                        <TableCell className="whitespace-nowrap text-gray-500">
+                          {format(new Date(log.createdAt), "dd MMM yyyy, HH:mm")}
+                        </TableCell>
+                        <TableCell>
+                          {log.actor ? (
+                            <div>
+                              <div className="font-medium">{log.actor.name || log.actor.email}</div>
+                              <div className="text-xs text-gray-500">{log.actor.email}</div>
+                              <div className="text-xs text-gray-400">{log.actor.roles.join(", ")}</div>
+                            </div>
+                          ) : (
+                            <span className="text-gray-500">Unauthenticated</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{log.action}</TableCell>
+                        <TableCell>
+                          {log.target ? (
+                            <div>
+                              <div className="text-xs text-gray-500">
+                                {AUDIT_TARGET_TYPE_LABELS[log.target.type] ?? log.target.type}
+                              </div>
+                              <div className="font-medium">{log.target.label || log.target.id || "—"}</div>
+                            </div>
+                          ) : (
+                            "—"
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs max-w-xs break-words">
+                          {log.changes && log.changes.length > 0 ? (
+                            <ul className="space-y-1">
+                              {log.changes.map((change) => (
+                                <li key={change.field}>
+                                  <span className="font-medium">{change.field}</span>: {formatAuditValue(change.before)} → {formatAuditValue(change.after)}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            "—"
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm max-w-xs break-words">{log.reason || "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant={OUTCOME_BADGES[log.outcome]?.variant ?? "outline"}>
+                            {OUTCOME_BADGES[log.outcome]?.label ?? log.outcome}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { CheckCircle, Clock, Loader2, MinusCircle, ThumbsDown, ThumbsUp, X, XCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { processApplicationAction } from '@/app/actions/admin-actions';
+import { listEmailTemplatesAction } from '@/app/actions/email-template-actions';
+import {
+  DECISION_MESSAGE_MAX_LENGTH,
+  runDecisionQueue,
+  type BulkDecisionItem,
+  type BulkDecisionItemStatus,
+} from '@/lib/bulk-decisions';
+import type { EmailTemplate } from '@/types/email-template';
+import type { Submission } from '@/types/Submission';
+
+type Decision = 'accept' | 'reject';
+
+interface BulkSelectionBarProps {
+  count: number;
+  onDecide: (action: Decision) => void;
+  onClear: () => void;
+}
+
+// Shown above a list while applications are selected
+export function BulkSelectionBar({ count, onDecide, onClear }: BulkSelectionBarProps) {
+  if (count === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-blue-200 bg-blue-50 px-4 py-3">
+      <span className="text-sm font-medium text-blue-800">
+        {count} application{count === 1 ? '' : 's'} selected
+      </span>
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => onDecide('accept')} className="border-green-200 text-green-700 hover:bg-green-50">
+          <ThumbsUp className="h-4 w-4 mr-1" />
+          Accept selected
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onDecide('reject')} className="border-red-200 text-red-700 hover:bg-red-50">
+          <ThumbsDown className="h-4 w-4 mr-1" />
+          Reject selected
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClear} className="text-gray-600">
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface BulkDecisionDialogProps {
+  action: Decision | null; // Open while set
+  submissions: Submission[];
+  onClose: () => void;
+  onFinished: (succeededIds: string[]) => void;
+}
+
+const STATUS_ICONS: Record<BulkDecisionItemStatus, React.ReactNode> = {
+  queued: <Clock className="h-4 w-4 text-gray-400" />,
+  processing: <Loader2 className="h-4 w-4 animate-spin text-blue-600" />,
+  succeeded: <CheckCircle className="h-4 w-4 text-green-600" />,
+  failed: <XCircle className="h-4 w-4 text-red-600" />,
+  skipped: <MinusCircle className="h-4 w-4 text-gray-400" />,
+  cancelled: <MinusCircle className="h-4 w-4 text-amber-500" />,
+};
+
+// Only pending applications can be decided; the rest are listed as skipped
+function queueFor(submissions: Submission[]): BulkDecisionItem[] {
+  return submissions.map((submission) => ({
+    id: submission.id,
+    label: submission.companyName || submission.name || submission.email,
+    ...(submission.status === 'pending'
+      ? { status: 'queued' as const }
+      : { status: 'skipped' as const, message: `Already ${submission.status}.` }),
+  }));
+}
+
+export function BulkDecisionDialog({ action, submissions, onClose, onFinished }: BulkDecisionDialogProps) {
+  const [message, setMessage] = useState('');
+  const [templates, setTemplates] = useState<EmailTemplate[] | null>(null);
+  const [templateId, setTemplateId] = useState('');
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [items, setItems] = useState<BulkDecisionItem[]>([]);
+  const [phase, setPhase] = useState<'confirm' | 'running' | 'finished'>('confirm');
+  const [stopping, setStopping] = useState(false);
+  const cancelled = useRef(false);
+
+  useEffect(() => {
+    if (action) {
+      setItems(queueFor(submissions));
+      setMessage('');
+      setPhase('confirm');
+      setTemplates(null);
+      setTemplateError(null);
+      listEmailTemplatesAction().then((result) => {
+        const forDecision = (result.templates ?? []).filter((template) => template.decision === action);
+        setTemplates(forDecision);
+        setTemplateId(forDecision.find((template) => template.isDefault)?.id ?? forDecision[0]?.id ?? '');
+        if (!result.success) setTemplateError(result.message ?? 'Email templates could not be loaded.');
+      });
+    }
+    // Snapshot the selection when the dialog opens; a refresh while it runs must not reset the queue
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [action]);
+
+  const submissionsById = new Map(submissions.map((submission) => [submission.id, submission]));
+  const queued = items.filter((item) => item.status === 'queued').length;
+  const settled = items.filter((item) => ['succeeded', 'failed', 'cancelled'].includes(item.status)).length;
+  const toProcess = items.filter((item) => item.status !== 'skipped').length;
+  const failed = items.filter((item) => item.status === 'failed').length;
+  const succeeded = items.filter((item) => item.status === 'succeeded');
+  const verb = action === 'accept' ? 'Accept' : 'Reject';
+
+  const run = async (queue: BulkDecisionItem[]) => {
+    if (!action) return;
+    cancelled.current = false;
+    setStopping(false);
+    setPhase('running');
+    const batchId = crypto.randomUUID();
+    const trimmedMessage = message.trim();
+    const chosenTemplateId = templateId || undefined;
+
+    await runDecisionQueue(
+      queue,
+      async (item) => {
+        const submission = submissionsById.get(item.id);
+        if (!submission) return { ok: false, message: 'The application is no longer in the list.' };
+        const result = await processApplicationAction(
+          submission.id,
+          action,
+          submission.name,
+          submission.email,
+          undefined,
+          { message: trimmedMessage || undefined, batchId, templateId: chosenTemplateId }
+        );
+        return { ok: result.status === 'success', message: result.message };
+      },
+      {
+        onUpdate: (id, update) =>
+          setItems((current) => current.map((item) => (item.id === id ? { ...item, ...update } : item))),
+        isCancelled: () => cancelled.current,
+      }
+    );
+
+    setPhase('finished');
+  };
+
+  // Re-queue failed and cancelled items; the ones that went through are not sent again
+  const retry = () => {
+    const requeued = items.map((item) =>
+      item.status === 'failed' || item.status === 'cancelled' ? { ...item, status: 'queued' as const, message: undefined } : item
+    );
+    setItems(requeued);
+    run(requeued);
+  };
+
+  const close = () => {
+    if (phase === 'running') return;
+    if (phase === 'finished') onFinished(succeeded.map((item) => item.id));
+    onClose();
+  };
+
+  return (
+    <Dialog open={action !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-2xl bg-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-gray-900">
+            {action === 'accept' ? <ThumbsUp className="h-5 w-5 text-green-600" /> : <ThumbsDown className="h-5 w-5 text-red-600" />}
+            {verb} {toProcess} application{toProcess === 1 ? '' : 's'}
+          </DialogTitle>
+          <DialogDescription>
+            {action === 'accept'
+              ? 'Each applicant gets an account and an acceptance email with a link to set their password.'
+              : 'Each applicant gets a rejection email.'}{' '}
+            Applications are processed one at a time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {phase === 'confirm' ? (
+          <div className="space-y-2">
+            <label htmlFor="bulk-decision-template" className="text-sm font-medium text-gray-700">
+              Email template
+            </label>
+            {templates === null ? (
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading templates…
+              </div>
+            ) : (
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger id="bulk-decision-template" className="bg-white text-gray-900">
+                  <SelectValue placeholder="Default template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}{template.isDefault ? ' (default)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {templateError && <p className="text-xs text-red-600">{templateError} The default template will be used.</p>}
+            <label htmlFor="bulk-decision-message" className="block pt-2 text-sm font-medium text-gray-700">
+              Message to include in every email (optional)
+            </label>
+            <Textarea
+              id="bulk-decision-message"
+              value={message}
+              onChange={(event) => setMessage(event.target.value)}
+              maxLength={DECISION_MESSAGE_MAX_LENGTH}
+              rows={4}
+              placeholder={
+                action === 'accept'
+                  ? 'e.g. Orientation for this cohort is on the 12th at 10am in the TBI hall.'
+                  : 'e.g. We encourage you to apply again in the next intake.'
+              }
+              className="bg-white text-gray-900"
+            />
+            <p className="text-xs text-gray-500">
+              {message.length}/{DECISION_MESSAGE_MAX_LENGTH} characters. Shown where the template places {'{{message}}'}.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Progress value={toProcess === 0 ? 100 : (settled / toProcess) * 100} className="bg-gray-100" />
+            <p className="text-sm text-gray-600">
+              {settled} of {toProcess} processed · {succeeded.length} succeeded · {failed} failed
+              {phase === 'running' && stopping ? ' · stopping after the current application' : ''}
+            </p>
+          </div>
+        )}
+
+        <ScrollArea className="max-h-[40vh] pr-3">
+          <ul className="divide-y divide-gray-100">
+            {items.map((item) => (
+              <li key={item.id} className="flex items-start gap-3 py-2 text-sm">
+                <span className="mt-0.5">{STATUS_ICONS[item.status]}</span>
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium text-gray-900">{item.label}</div>
+                  {item.message && (
+                    <div className={`text-xs ${item.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>{item.message}</div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+
+        <DialogFooter>
+          {phase === 'confirm' && (
+            <>
+              <Button variant="outline" onClick={close}>Cancel</Button>
+              <Button onClick={() => run(items)} disabled={queued === 0 || templates === null}>
+                {verb} {queued}
+              </Button>
+            </>
+          )}
+          {phase === 'running' && (
+            <Button variant="outline" onClick={() => { cancelled.current = true; setStopping(true); }} disabled={stopping}>
+              Stop
+            </Button>
+          )}
+          {phase === 'finished' && (
+            <>
+              {items.some((item) => item.status === 'failed' || item.status === 'cancelled') && (
+                <Button variant="outline" onClick={retry}>Retry failed</Button>
+              )}
+              <Button onClick={close}>Close</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
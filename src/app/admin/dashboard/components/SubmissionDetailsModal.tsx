@@ -20,12 +20,17 @@ import {
   FileText,
   Calendar,
   Download,
-  UserCircle,
-  KeyRound
+  KeyRound,
+  Send,
+  Ban,
+  Loader2
 } from "lucide-react";
 import { Submission } from "@/types/Submission";
+import type { AccountInvitationSummary, InvitationStatus } from "@/types/account-invitation";
 import { format } from 'date-fns';
 import { Timestamp } from 'firebase/firestore';
+import { useToast } from "@/hooks/use-toast";
+import { resendApplicantInvitationAction, revokeApplicantInvitationAction } from "@/app/actions/invitation-actions";
 
 interface SubmissionDetailsModalProps {
   submission: Submission;
@@ -44,6 +49,29 @@ const formatDate = (date: Date | string | Timestamp | undefined) => {
   }
 };
 
+const toMillis = (date: Date | string | Timestamp) =>
+  date && typeof date === 'object' && 'toMillis' in date ? date.toMillis() : new Date(date).getTime();
+
+const getInvitationStatus = (invitation: AccountInvitationSummary | undefined): InvitationStatus | null => {
+  if (!invitation) return null;
+  if (invitation.status === 'sent' && toMillis(invitation.expiresAt) < Date.now()) return 'expired';
+  return invitation.status;
+};
+
+// Custom field keys are camelCase or snake_case identifiers chosen in the form builder
+const formatFieldKey = (key: string) =>
+  key
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/^./, (char) => char.toUpperCase());
+
+const INVITATION_STATUS_STYLES: Record<InvitationStatus, { label: string; className: string }> = {
+  sent: { label: 'Awaiting setup', className: 'bg-blue-100 text-blue-700 border-blue-300' },
+  redeemed: { label: 'Password set', className: 'bg-emerald-100 text-emerald-700 border-emerald-300' },
+  revoked: { label: 'Revoked', className: 'bg-gray-100 text-gray-700 border-gray-300' },
+  expired: { label: 'Expired', className: 'bg-amber-100 text-amber-700 border-amber-300' },
+};
+
 const DetailSection = ({ 
   title, 
   icon: Icon, 
@@ -91,6 +119,27 @@ const DetailItem = ({
 
 export function SubmissionDetailsModal({ submission, children }: SubmissionDetailsModalProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [invitation, setInvitation] = useState<AccountInvitationSummary | undefined>(submission.invitation);
+  const [invitationAction, setInvitationAction] = useState<'resend' | 'revoke' | null>(null);
+  const { toast } = useToast();
+  const invitationStatus = getInvitationStatus(invitation);
+
+  const handleInvitationAction = async (action: 'resend' | 'revoke') => {
+    setInvitationAction(action);
+    try {
+      const result = action === 'resend'
+        ? await resendApplicantInvitationAction(submission.id)
+        : await revokeApplicantInvitationAction(submission.id);
+      if (result.success) {
+        setInvitation(result.invitation);
+        toast({ title: action === 'resend' ? 'Invitation Sent' : 'Invitation Revoked', description: result.message });
+      } else {
+        toast({ title: 'Failed', description: result.message, variant: 'destructive' });
+      }
+    } finally {
+      setInvitationAction(null);
+    }
+  };
 
   const downloadAttachment = () => {
     if (submission.attachmentBase64 && submission.attachmentName) {
@@ -219,7 +268,7 @@ export function SubmissionDetailsModal({ submission, children }: SubmissionDetai
                   <label className="text-xs font-bold text-gray-600 mb-2 block uppercase tracking-wide drop-shadow-sm">Startup Idea</label>
                   <div className="bg-white rounded-xl p-4 border border-blue-200/60 shadow-md backdrop-blur-sm ring-1 ring-blue-100/30 overflow-hidden">
                     <div className="absolute inset-0 bg-gradient-to-r from-blue-500/3 via-purple-500/2 to-indigo-500/3 rounded-xl opacity-100"></div>
-                    <p className="relative text-gray-800 leading-relaxed font-medium text-sm drop-shadow-sm">{submission.startupIdea || submission.idea || 'N/A'}</p>
+                    <p className="relative text-gray-800 leading-relaxed font-medium text-sm drop-shadow-sm">{submission.startupIdea || 'N/A'}</p>
                   </div>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -234,7 +283,7 @@ export function SubmissionDetailsModal({ submission, children }: SubmissionDetai
                     <label className="text-xs font-bold text-gray-600 mb-2 block uppercase tracking-wide drop-shadow-sm">Current Stage</label>
                     <div className="bg-white rounded-xl p-4 border border-blue-200/60 shadow-md backdrop-blur-sm ring-1 ring-blue-100/30 overflow-hidden">
                       <div className="absolute inset-0 bg-gradient-to-r from-blue-500/3 via-purple-500/2 to-indigo-500/3 rounded-xl opacity-100"></div>
-                      <p className="relative text-gray-800 font-medium text-sm drop-shadow-sm">{submission.currentStage || 'N/A'}</p>
+                      <p className="relative text-gray-800 font-medium text-sm drop-shadow-sm">{submission.developmentStage || 'N/A'}</p>
                     </div>
                   </div>
                 </div>
@@ -255,28 +304,59 @@ export function SubmissionDetailsModal({ submission, children }: SubmissionDetai
               </div>
             </DetailSection>
 
-            {/* Login Credentials (if accepted) */}
-            {submission.status === 'accepted' && submission.temporaryUserId && (
-              <DetailSection title="Login Credentials" icon={KeyRound} className="bg-gradient-to-br from-emerald-50/90 to-green-50/90 border-2 border-emerald-200/70 shadow-lg shadow-emerald-100/50">
+            {/* Answers to fields added in the form builder */}
+            {submission.customAnswers && Object.keys(submission.customAnswers).length > 0 && (
+              <DetailSection title={`Additional Answers (form v${submission.formVersion ?? 0})`} icon={FileText}>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {Object.entries(submission.customAnswers).map(([key, value]) => (
+                    <DetailItem key={key} label={formatFieldKey(key)} value={value} className="md:col-span-2" />
+                  ))}
+                </div>
+              </DetailSection>
+            )}
+
+            {/* Account Invitation (if accepted) */}
+            {submission.status === 'accepted' && submission.firebaseUid && (
+              <DetailSection title="Account Invitation" icon={KeyRound} className="bg-gradient-to-br from-emerald-50/90 to-green-50/90 border-2 border-emerald-200/70 shadow-lg shadow-emerald-100/50">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
                   <div className="space-y-2">
-                    <label className="text-xs font-bold text-emerald-600 uppercase tracking-wide">User ID</label>
-                    <div className="bg-gradient-to-r from-emerald-100/80 to-emerald-200/80 rounded-lg p-3 border border-emerald-300/60 shadow-sm">
-                      <div className="flex items-center gap-2">
-                        <UserCircle className="h-4 w-4 text-emerald-600" />
-                        <span className="font-mono text-emerald-800 font-bold text-sm">{submission.temporaryUserId}</span>
+                    <Badge variant="outline" className={`px-3 py-1 text-xs font-bold border-2 rounded-lg ${invitationStatus ? INVITATION_STATUS_STYLES[invitationStatus].className : 'bg-gray-100 text-gray-700 border-gray-300'}`}>
+                      {invitationStatus ? INVITATION_STATUS_STYLES[invitationStatus].label : 'No invitation sent'}
+                    </Badge>
+                    {invitation && (
+                      <div className="text-xs text-gray-600 space-y-1">
+                        <div>Last sent: {formatDate(invitation.sentAt)} ({invitation.sentCount} {invitation.sentCount === 1 ? 'time' : 'times'})</div>
+                        {invitation.status === 'sent' && <div>Expires: {formatDate(invitation.expiresAt)}</div>}
+                        {invitation.redeemedAt && <div>Password set: {formatDate(invitation.redeemedAt)}</div>}
+                        {invitation.revokedAt && invitation.status === 'revoked' && <div>Revoked: {formatDate(invitation.revokedAt)}</div>}
                       </div>
-                    </div>
+                    )}
                   </div>
-                  <div className="space-y-2">
-                    <label className="text-xs font-bold text-emerald-600 uppercase tracking-wide">Password</label>
-                    <div className="bg-gradient-to-r from-emerald-100/80 to-emerald-200/80 rounded-lg p-3 border border-emerald-300/60 shadow-sm">
-                      <div className="flex items-center gap-2">
-                        <KeyRound className="h-4 w-4 text-emerald-600" />
-                        <span className="font-mono text-emerald-800 font-bold text-sm">{submission.temporaryPassword}</span>
-                      </div>
+                  {invitationStatus !== 'redeemed' && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleInvitationAction('resend')}
+                        disabled={invitationAction !== null}
+                      >
+                        {invitationAction === 'resend' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                        Resend Invite
+                      </Button>
+                      {invitationStatus === 'sent' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => handleInvitationAction('revoke')}
+                          disabled={invitationAction !== null}
+                        >
+                          {invitationAction === 'revoke' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+                          Revoke
+                        </Button>
+                      )}
                     </div>
-                  </div>
+                  )}
                 </div>
               </DetailSection>
             )}
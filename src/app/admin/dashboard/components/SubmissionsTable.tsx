@@ -8,17 +8,20 @@ import { SubmissionActions } from "./SubmissionActions";
 import { Timestamp } from 'firebase/firestore';
 import { useState } from 'react';
 import { SubmissionDetailsModal } from './SubmissionDetailsModal';
+import { Checkbox } from "@/components/ui/checkbox";
 
 type Status = 'pending' | 'accepted' | 'rejected';
 
 interface SubmissionsTableProps {
   submissions: Submission[];
   processingAction: { id: string; type: 'accept' | 'reject' } | null;
-  onProcessAction: (id: string, action: 'accept' | 'reject', name: string, email: string, campusStatus: Submission['campusStatus']) => void;
+  onProcessAction: (id: string, action: 'accept' | 'reject', name: string, email: string) => void;
   isLoading?: boolean;
   error?: string | null;
   onRetry: () => void;
   className?: string;
+  selectedIds?: Set<string>; // Pending submissions picked for a bulk decision
+  onSelectionChange?: (selectedIds: Set<string>) => void;
 }
 
 const formatDate = (date: Date | string | Timestamp | undefined) => {
@@ -94,7 +97,9 @@ export function SubmissionsTable({
   isLoading = false,
   error = null,
   onRetry,
-  className = ''
+  className = '',
+  selectedIds,
+  onSelectionChange
 }: SubmissionsTableProps) {
   if (isLoading && submissions.length === 0) {
     return (
@@ -159,12 +164,31 @@ export function SubmissionsTable({
     );
   }
 
+  // Only pending submissions can be decided, so only they can be selected
+  const selectableIds = submissions.filter((submission) => submission.status === 'pending').map((submission) => submission.id);
+  const allSelected = selectableIds.length > 0 && selectableIds.every((id) => selectedIds?.has(id));
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) next.add(id); else next.delete(id);
+    onSelectionChange?.(next);
+  };
+
   return (
     <div className={`overflow-hidden bg-white border border-gray-100 rounded-3xl shadow-lg ${className}`}>
       <div className="overflow-x-auto">
         <table className="w-full text-sm">
           <thead className="sticky top-0 z-10">
             <tr className="border-b border-gray-100 bg-gray-50">
+              {onSelectionChange && (
+                <th className="p-5 w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => onSelectionChange(checked === true ? new Set(selectableIds) : new Set())}
+                    disabled={selectableIds.length === 0}
+                    aria-label="Select all pending applications"
+                  />
+                </th>
+              )}
               <th className="p-5 text-left text-xs font-semibold text-gray-600 uppercase tracking-widest">Applicant</th>
               <th className="p-5 text-left text-xs font-semibold text-gray-600 uppercase tracking-widest">Company</th>
               <th className="p-5 text-left text-xs font-semibold text-gray-600 uppercase tracking-widest">Domain</th>
@@ -182,6 +206,16 @@ export function SubmissionsTable({
                   `transition-all duration-200 ${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} hover:bg-blue-50/40`
                 }
               >
+                {onSelectionChange && (
+                  <td className="p-5 w-10">
+                    <Checkbox
+                      checked={selectedIds?.has(submission.id) ?? false}
+                      onCheckedChange={(checked) => toggleSelected(submission.id, checked === true)}
+                      disabled={submission.status !== 'pending'}
+                      aria-label={`Select ${submission.fullName || submission.name}`}
+                    />
+                  </td>
+                )}
                 <td className="p-5">
                   <SubmissionDetailsModal submission={submission}>
                     <div className="flex items-center space-x-3 cursor-pointer hover:bg-blue-50 -m-2 p-2 rounded-lg transition-all duration-200">
@@ -203,7 +237,7 @@ export function SubmissionsTable({
                 <td className="p-5 text-gray-800">{submission.domain || '-'}</td>
                 <td className="p-5 text-gray-800 max-w-xs">
                   <IdeaCell 
-                    idea={submission.idea || ''} 
+                    idea={submission.startupIdea || ''} 
                     submissionId={submission.id} 
                     status={submission.status} 
                     temporaryUserId={submission.temporaryUserId} 
@@ -234,15 +268,13 @@ export function SubmissionsTable({
                         submission.id, 
                         'accept', 
                         submission.name, 
-                        submission.email,
-                        submission.campusStatus
+                        submission.email
                       )}
                       onReject={() => onProcessAction(
                         submission.id, 
                         'reject', 
                         submission.name, 
-                        submission.email,
-                        submission.campusStatus
+                        submission.email
                       )}
                     />
                   </div>
@@ -6,10 +6,13 @@ import { Button } from "@/components/ui/button";
 import { FileTextIcon, TrendingUp, Users, Activity, BarChart3 } from "lucide-react";
 import { AlertCircle, Loader2, ThumbsUp, ThumbsDown, KeyRound, UserCircle, CheckCircle, XCircle, Clock, Landmark, Building, RefreshCw } from "lucide-react";
 import { db } from '@/lib/firebase';
+import { APPLICATIONS_COLLECTION } from '@/lib/applications';
+import { normalizeSubmission } from '@/lib/validation/submission-schema';
 import { collection, getDocs, orderBy, query, Timestamp } from 'firebase/firestore';
 import { useToast } from "@/hooks/use-toast";
 import { processApplicationAction } from '@/app/actions/admin-actions';
 import { SubmissionsTable } from './components/SubmissionsTable';
+import { BulkDecisionDialog, BulkSelectionBar } from './components/BulkDecisionDialog';
 import { Submission } from '@/types/Submission';
 
 interface ProcessingActionState {
@@ -25,33 +28,23 @@ export default function AdminDashboardPage() {
   const [processingActionState, setProcessingActionState] = useState<ProcessingActionState | null>(null);
 
   const [kpiData, setKpiData] = useState({ total: 0, pending: 0, accepted: 0, rejected: 0 });
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<'accept' | 'reject' | null>(null);
 
   const fetchSubmissions = async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const collectionsToFetch = ['contactSubmissions', 'offCampusApplications'];
-      const allSubmissions: Submission[] = [];
-
-      for (const collectionName of collectionsToFetch) {
-        const submissionsCollection = collection(db, collectionName);
-        const q = query(submissionsCollection, orderBy("submittedAt", "desc"));
-        const snapshot = await getDocs(q);
-        
-        snapshot.forEach(doc => {
-          const data = doc.data();
-          allSubmissions.push({
-            id: doc.id,
-            ...data,
-            submittedAt: data.submittedAt instanceof Timestamp ? data.submittedAt.toDate() : new Date(data.submittedAt),
-            status: data.status || "pending",
-            processedByAdminAt: data.processedByAdminAt instanceof Timestamp ? data.processedByAdminAt.toDate() : data.processedByAdminAt ? new Date(data.processedByAdminAt) : undefined,
-          } as Submission);
-        });
-      }
-
-      // Sort combined submissions by date
-      allSubmissions.sort((a, b) => new Date(b.submittedAt as string).getTime() - new Date(a.submittedAt as string).getTime());
+      const q = query(collection(db, APPLICATIONS_COLLECTION), orderBy("submittedAt", "desc"));
+      const snapshot = await getDocs(q);
+      const allSubmissions: Submission[] = snapshot.docs.map(doc => {
+        const data = normalizeSubmission(doc.id, doc.data());
+        return {
+          ...data,
+          submittedAt: data.submittedAt instanceof Timestamp ? data.submittedAt.toDate() : new Date(data.submittedAt),
+          processedByAdminAt: data.processedByAdminAt instanceof Timestamp ? data.processedByAdminAt.toDate() : data.processedByAdminAt ? new Date(data.processedByAdminAt) : undefined,
+        };
+      });
 
       setSubmissions(allSubmissions);
       updateKpi(allSubmissions);
@@ -75,10 +68,10 @@ export default function AdminDashboardPage() {
 
   useEffect(() => { fetchSubmissions(); }, []);
 
-  const handleProcess = async (id: string, action: 'accept' | 'reject', name: string, email: string, campusStatus: Submission['campusStatus']) => {
+  const handleProcess = async (id: string, action: 'accept' | 'reject', name: string, email: string) => {
     setProcessingActionState({ id, type: action });
     try {
-      const result = await processApplicationAction(id, action, name, email, campusStatus);
+      const result = await processApplicationAction(id, action, name, email);
       if (result.status === 'success') {
         toast({ title: `Application ${action === 'accept' ? 'Accepted' : 'Rejected'}`, description: result.message });
         fetchSubmissions();
@@ -253,6 +246,11 @@ export default function AdminDashboardPage() {
               </div>
             </div>
           </div>
+          {selectedIds.size > 0 && (
+            <div className="px-10 pt-6">
+              <BulkSelectionBar count={selectedIds.size} onDecide={setBulkAction} onClear={() => setSelectedIds(new Set())} />
+            </div>
+          )}
           <div className="overflow-hidden">
             <SubmissionsTable
               submissions={submissions}
@@ -261,10 +259,21 @@ export default function AdminDashboardPage() {
               isLoading={isLoading}
               error={error}
               onRetry={fetchSubmissions}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
             />
           </div>
         </div>
       </div>
+      <BulkDecisionDialog
+        action={bulkAction}
+        submissions={submissions.filter((submission) => selectedIds.has(submission.id))}
+        onClose={() => setBulkAction(null)}
+        onFinished={(succeededIds) => {
+          setSelectedIds((current) => new Set(Array.from(current).filter((id) => !succeededIds.includes(id))));
+          fetchSubmissions();
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,399 @@
+// src/app/admin/email-templates/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CopyPlus, Loader2, Mail, Plus, Save, Star, Trash2 } from "lucide-react";
+import {
+  deleteEmailTemplateAction,
+  listEmailTemplatesAction,
+  saveEmailTemplateAction,
+  setDefaultEmailTemplateAction,
+} from "@/app/actions/email-template-actions";
+import {
+  EMAIL_TEMPLATE_DECISION_LABELS,
+  EMAIL_TEMPLATE_VARIABLES,
+  SAMPLE_EMAIL_VARIABLES,
+  emailTemplateContentSchema,
+  renderEmailTemplate,
+} from "@/lib/validation/email-template-schema";
+import type { EmailTemplate, EmailTemplateContent, EmailTemplateDecision } from "@/types/email-template";
+
+const DECISIONS: EmailTemplateDecision[] = ["accept", "reject"];
+
+function toContent(template: EmailTemplateContent): EmailTemplateContent {
+  const { name, decision, subject, text, html } = template;
+  return { name, decision, subject, text, html };
+}
+
+export default function AdminEmailTemplatesPage() {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  // null while editing a template that has not been saved yet
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EmailTemplateContent | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<"save" | "default" | "delete" | null>(null);
+
+  const selected = templates.find((template) => template.id === selectedId) ?? null;
+  const isEditable = draft !== null && (selected === null || !selected.builtIn);
+
+  const preview = useMemo(() => (draft ? renderEmailTemplate(draft, SAMPLE_EMAIL_VARIABLES) : null), [draft]);
+  const issues = useMemo(() => {
+    if (!draft || !isEditable) return [];
+    const parsed = emailTemplateContentSchema.safeParse(draft);
+    return parsed.success ? [] : parsed.error.errors.map((issue) => issue.message);
+  }, [draft, isEditable]);
+
+  const selectTemplate = useCallback((template: EmailTemplate) => {
+    setSelectedId(template.id);
+    setDraft(toContent(template));
+    setIsDirty(false);
+  }, []);
+
+  const loadTemplates = useCallback(async (focusId?: string) => {
+    setIsLoading(true);
+    const result = await listEmailTemplatesAction();
+    if (result.success) {
+      const loaded = result.templates || [];
+      setTemplates(loaded);
+      const focus = loaded.find((template) => template.id === focusId) ?? loaded[0];
+      if (focus) selectTemplate(focus);
+    } else {
+      toast({ title: "Failed to load templates", description: result.message, variant: "destructive" });
+    }
+    setIsLoading(false);
+  }, [selectTemplate, toast]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const updateDraft = (changes: Partial<EmailTemplateContent>) => {
+    if (!draft) return;
+    setDraft({ ...draft, ...changes });
+    setIsDirty(true);
+  };
+
+  // Start an unsaved template, either blank or as a copy of the one on screen
+  const startTemplate = (base: EmailTemplateContent | null) => {
+    const source = base ?? templates.find((template) => template.builtIn && template.decision === "reject");
+    if (!source) return;
+    setSelectedId(null);
+    setDraft({ ...toContent(source), name: base ? `${base.name} (copy)` : "New template" });
+    setIsDirty(true);
+  };
+
+  async function handleSave() {
+    if (!draft) return;
+    setPendingAction("save");
+    const result = await saveEmailTemplateAction(selectedId, draft);
+    toast({
+      title: result.success ? "Template Saved" : "Save Failed",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success && result.template) {
+      await loadTemplates(result.template.id);
+    }
+    setPendingAction(null);
+  }
+
+  async function handleSetDefault() {
+    if (!selected) return;
+    setPendingAction("default");
+    const result = await setDefaultEmailTemplateAction(selected.id);
+    toast({
+      title: result.success ? "Default Changed" : "Could Not Change Default",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      await loadTemplates(selected.id);
+    }
+    setPendingAction(null);
+  }
+
+  async function handleDelete() {
+    if (!selected) return;
+    setPendingAction("delete");
+    const result = await deleteEmailTemplateAction(selected.id);
+    toast({
+      title: result.success ? "Template Deleted" : "Delete Failed",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      await loadTemplates();
+    }
+    setPendingAction(null);
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="admin-heading-2 mb-2 flex items-center">
+              <Mail className="mr-3 h-7 w-7 text-indigo-600" />
+              Email Templates
+            </h1>
+            <p className="admin-caption">
+              The emails applicants receive when their application is accepted or rejected. The default template is
+              sent unless another one is chosen when deciding.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => startTemplate(null)} disabled={isLoading || pendingAction !== null}>
+            <Plus className="mr-2 h-4 w-4" />
+            New template
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6 items-start">
+            <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+              <CardHeader className="border-b border-gray-100 bg-gray-50">
+                <CardTitle className="admin-heading-3">Templates</CardTitle>
+              </CardHeader>
+              <CardContent className="p-2 space-y-3">
+                {DECISIONS.map((decision) => (
+                  <div key={decision}>
+                    <p className="px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      {EMAIL_TEMPLATE_DECISION_LABELS[decision]}
+                    </p>
+                    {templates
+                      .filter((template) => template.decision === decision)
+                      .map((template) => (
+                        <button
+                          key={template.id}
+                          type="button"
+                          onClick={() => selectTemplate(template)}
+                          className={`w-full text-left rounded-lg px-3 py-2 mb-1 transition-colors ${
+                            template.id === selectedId ? "bg-indigo-50 ring-1 ring-indigo-200" : "hover:bg-gray-50"
+                          }`}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium truncate">{template.name}</span>
+                            {template.isDefault ? (
+                              <Badge variant="success">Default</Badge>
+                            ) : template.builtIn ? (
+                              <Badge variant="secondary">Built-in</Badge>
+                            ) : null}
+                          </div>
+                          {template.updatedAt && (
+                            <p className="text-xs text-gray-500 mt-1">Edited {format(new Date(template.updatedAt), "PP")}</p>
+                          )}
+                        </button>
+                      ))}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {draft && preview && (
+              <div className="space-y-6">
+                <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+                  <CardHeader className="border-b border-gray-100 bg-gray-50">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <CardTitle className="admin-heading-3">{selected ? selected.name : "New template"}</CardTitle>
+                        <CardDescription className="admin-body-small">
+                          {selected?.builtIn
+                            ? "Built-in templates are read-only. Copy one to make changes."
+                            : selected
+                              ? `${EMAIL_TEMPLATE_DECISION_LABELS[selected.decision]} template.`
+                              : "Not saved yet."}
+                        </CardDescription>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {selected && (
+                          <Button variant="outline" onClick={() => startTemplate(selected)} disabled={pendingAction !== null}>
+                            <CopyPlus className="mr-2 h-4 w-4" />
+                            Copy
+                          </Button>
+                        )}
+                        {selected && !selected.isDefault && (
+                          <Button variant="outline" onClick={handleSetDefault} disabled={pendingAction !== null || isDirty}>
+                            {pendingAction === "default" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Star className="mr-2 h-4 w-4" />}
+                            Make default
+                          </Button>
+                        )}
+                        {selected && !selected.builtIn && !selected.isDefault && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" disabled={pendingAction !== null}>
+                                {pendingAction === "delete" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                                Delete
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete &ldquo;{selected.name}&rdquo;?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  The template can no longer be chosen when deciding. Emails already sent are not affected.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={handleDelete}>Delete template</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                        {isEditable && (
+                          <Button onClick={handleSave} disabled={pendingAction !== null || !isDirty || issues.length > 0}>
+                            {pendingAction === "save" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                            Save
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="pt-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="template-name">Name</Label>
+                        <Input
+                          id="template-name"
+                          value={draft.name}
+                          disabled={!isEditable}
+                          onChange={(e) => updateDraft({ name: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="template-decision">Sent when an application is</Label>
+                        <Select
+                          value={draft.decision}
+                          disabled={!isEditable}
+                          onValueChange={(value) => updateDraft({ decision: value as EmailTemplateDecision })}
+                        >
+                          <SelectTrigger id="template-decision">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="accept">Accepted</SelectItem>
+                            <SelectItem value="reject">Rejected</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="template-subject">Subject</Label>
+                      <Input
+                        id="template-subject"
+                        value={draft.subject}
+                        disabled={!isEditable}
+                        onChange={(e) => updateDraft({ subject: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="template-text">Plain text</Label>
+                        <Textarea
+                          id="template-text"
+                          rows={16}
+                          value={draft.text}
+                          disabled={!isEditable}
+                          onChange={(e) => updateDraft({ text: e.target.value })}
+                          className="font-mono text-xs"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="template-html">HTML</Label>
+                        <Textarea
+                          id="template-html"
+                          rows={16}
+                          value={draft.html}
+                          disabled={!isEditable}
+                          onChange={(e) => updateDraft({ html: e.target.value })}
+                          className="font-mono text-xs"
+                        />
+                      </div>
+                    </div>
+                    {issues.length > 0 && (
+                      <ul className="list-disc pl-5 text-sm text-red-600 space-y-1">
+                        {issues.map((issue) => <li key={issue}>{issue}</li>)}
+                      </ul>
+                    )}
+                    <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+                      <p className="text-sm font-medium text-gray-700 mb-2">Variables</p>
+                      <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+                        {Object.entries(EMAIL_TEMPLATE_VARIABLES)
+                          .filter(([, variable]) => variable.decisions.includes(draft.decision))
+                          .map(([name, variable]) => (
+                            <div key={name} className="flex gap-2">
+                              <dt className="font-mono text-indigo-700">{`{{${name}}}`}</dt>
+                              <dd className="text-gray-600">{variable.description}</dd>
+                            </div>
+                          ))}
+                      </dl>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+                  <CardHeader className="border-b border-gray-100 bg-gray-50">
+                    <CardTitle className="admin-heading-3">Preview</CardTitle>
+                    <CardDescription className="admin-body-small">
+                      Filled in with sample values for {SAMPLE_EMAIL_VARIABLES.applicantName}. Updates as you type.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="pt-6 space-y-3">
+                    <p className="text-sm">
+                      <span className="font-medium text-gray-700">Subject:</span> {preview.subject}
+                    </p>
+                    <Tabs defaultValue="html">
+                      <TabsList>
+                        <TabsTrigger value="html">HTML</TabsTrigger>
+                        <TabsTrigger value="text">Plain text</TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="html">
+                        {/* Sandboxed so template markup cannot run scripts in the admin panel */}
+                        <iframe
+                          title="HTML preview"
+                          sandbox=""
+                          srcDoc={preview.html}
+                          className="w-full h-[420px] rounded-lg border border-gray-200 bg-white"
+                        />
+                      </TabsContent>
+                      <TabsContent value="text">
+                        <pre className="whitespace-pre-wrap rounded-lg border border-gray-200 bg-white p-4 text-sm text-gray-800">
+                          {preview.text}
+                        </pre>
+                      </TabsContent>
+                    </Tabs>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
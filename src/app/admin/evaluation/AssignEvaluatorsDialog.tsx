@@ -0,0 +1,419 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Loader2, Wand2, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  addSubmissionsToRoundAction,
+  assignEvaluatorsAction,
+  autoAssignEvaluatorsAction,
+  getRoundAssignmentsAction,
+  removeEvaluationAssignmentAction,
+  type RoundAssignmentsResponse,
+} from '@/app/actions/evaluation-assignment-actions';
+import { CONFLICT_REASON_LABELS, conflictKey } from '@/lib/evaluator-matching';
+import { DEFAULT_EVALUATORS_PER_SUBMISSION } from '@/lib/validation/evaluation-round-schema';
+import type { EvaluationRound } from '@/types/evaluation-round';
+import type { EvaluationConflict } from '@/types/evaluation-score';
+
+interface AssignEvaluatorsDialogProps {
+  round: Pick<
+    EvaluationRound,
+    'id' | 'roundName' | 'status' | 'evaluatorsPerSubmission' | 'autoAssignEvaluators' | 'evaluatorRoles' | 'allowSelfNomination'
+  > | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: (message: string) => void; // Called after assignments were added or removed
+}
+
+const SCORE_STATUS_LABELS = { not_started: 'Not started', draft: 'Draft', submitted: 'Submitted' };
+
+// Put applications into a round and choose who scores them, automatically or by hand
+export default function AssignEvaluatorsDialog({ round, isOpen, onClose, onChanged }: AssignEvaluatorsDialogProps) {
+  const [data, setData] = useState<RoundAssignmentsResponse | null>(null);
+  const [search, setSearch] = useState('');
+  const [selectedSubmissions, setSelectedSubmissions] = useState<Set<string>>(new Set());
+  const [selectedEvaluators, setSelectedEvaluators] = useState<Set<string>>(new Set());
+  const [skippedConflicts, setSkippedConflicts] = useState<EvaluationConflict[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOpenRound = round?.status === 'Draft' || round?.status === 'Active';
+  const needed = round?.evaluatorsPerSubmission ?? DEFAULT_EVALUATORS_PER_SUBMISSION;
+  const roundRoles = round?.evaluatorRoles ?? [];
+
+  const load = useCallback(async () => {
+    if (!round) return;
+    const result = await getRoundAssignmentsAction(round.id);
+    if (result.success) {
+      setData(result);
+    } else {
+      setError(result.message ?? 'Failed to load the assignments.');
+    }
+  }, [round]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setData(null);
+      setSearch('');
+      setSelectedSubmissions(new Set());
+      setSelectedEvaluators(new Set());
+      setSkippedConflicts([]);
+      setError(null);
+      load();
+    }
+  }, [isOpen, load]);
+
+  const companyNames = useMemo(
+    () => new Map((data?.candidates ?? []).map((candidate) => [candidate.id, candidate.companyName])),
+    [data]
+  );
+  const evaluatorNames = useMemo(
+    () => new Map((data?.evaluators ?? []).map((evaluator) => [evaluator.uid, evaluator.name])),
+    [data]
+  );
+  const conflictsByPair = useMemo(() => {
+    const conflicts = new Map<string, EvaluationConflict[]>();
+    for (const conflict of data?.conflicts ?? []) {
+      const key = conflictKey(conflict.submissionId, conflict.evaluatorUid);
+      conflicts.set(key, [...(conflicts.get(key) ?? []), conflict]);
+    }
+    return conflicts;
+  }, [data]);
+
+  // The round's applications with their current assignments, fewest evaluators first
+  const roundSubmissions = useMemo(() => {
+    const groups = new Map<string, NonNullable<RoundAssignmentsResponse['assignments']>>();
+    for (const submissionId of data?.submissionIds ?? []) {
+      groups.set(submissionId, []);
+    }
+    for (const assignment of data?.assignments ?? []) {
+      groups.set(assignment.submissionId, [...(groups.get(assignment.submissionId) ?? []), assignment]);
+    }
+    return Array.from(groups.entries()).sort(
+      ([a, left], [b, right]) =>
+        left.length - right.length || (companyNames.get(a) ?? a).localeCompare(companyNames.get(b) ?? b)
+    );
+  }, [data, companyNames]);
+  const shortCount = roundSubmissions.filter(([, assignments]) => assignments.length < needed).length;
+
+  // Pending applications not yet in this round
+  const candidates = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const inRound = new Set(data?.submissionIds ?? []);
+    return (data?.candidates ?? []).filter(
+      (candidate) =>
+        !inRound.has(candidate.id) &&
+        (!term || candidate.companyName.toLowerCase().includes(term) || candidate.applicantName.toLowerCase().includes(term))
+    );
+  }, [data, search]);
+
+  const toggle = (set: Set<string>, update: (next: Set<string>) => void, id: string, checked: boolean) => {
+    const next = new Set(set);
+    if (checked) next.add(id);
+    else next.delete(id);
+    update(next);
+  };
+
+  const run = async (action: () => Promise<{ success: boolean; message: string }>) => {
+    setIsBusy(true);
+    setError(null);
+    const result = await action();
+    setIsBusy(false);
+    if (result.success) {
+      onChanged(result.message);
+      await load();
+    } else {
+      setError(result.message);
+    }
+    return result.success;
+  };
+
+  const handleAddSubmissions = async () => {
+    if (!round) return;
+    if (await run(() => addSubmissionsToRoundAction(round.id, Array.from(selectedSubmissions)))) {
+      setSelectedSubmissions(new Set());
+    }
+  };
+
+  const handleAutoAssign = async () => {
+    if (!round) return;
+    await run(() => autoAssignEvaluatorsAction(round.id));
+  };
+
+  const handleAssign = async (overrideConflicts: boolean) => {
+    if (!round) return;
+    const submissionIds = overrideConflicts
+      ? Array.from(new Set(skippedConflicts.map((conflict) => conflict.submissionId)))
+      : Array.from(selectedSubmissions);
+    const evaluatorUids = overrideConflicts
+      ? Array.from(new Set(skippedConflicts.map((conflict) => conflict.evaluatorUid)))
+      : Array.from(selectedEvaluators);
+    let skipped: EvaluationConflict[] = [];
+    const succeeded = await run(async () => {
+      const result = await assignEvaluatorsAction(round.id, submissionIds, evaluatorUids, overrideConflicts);
+      skipped = result.conflicts ?? [];
+      return result;
+    });
+    if (succeeded) {
+      setSkippedConflicts(skipped);
+      if (skipped.length === 0) {
+        setSelectedSubmissions(new Set());
+      }
+    }
+  };
+
+  const handleRemove = async (submissionId: string, evaluatorUid: string) => {
+    if (!round) return;
+    await run(() => removeEvaluationAssignmentAction(round.id, submissionId, evaluatorUid));
+  };
+
+  const describeConflicts = (submissionId: string, evaluatorUid: string) =>
+    (conflictsByPair.get(conflictKey(submissionId, evaluatorUid)) ?? [])
+      .map((conflict) => CONFLICT_REASON_LABELS[conflict.reason] + (conflict.detail ? ` (${conflict.detail})` : ''))
+      .join(', ');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <DialogContent className="max-w-5xl bg-white">
+        <DialogHeader>
+          <DialogTitle className="text-gray-900">Evaluators for {round?.roundName}</DialogTitle>
+          <DialogDescription>
+            This round asks for {needed} evaluator{needed === 1 ? '' : 's'} per application
+            {round?.autoAssignEvaluators ? ' and assigns them automatically as applications are added' : ''}.{' '}
+            {roundRoles.length > 0
+              ? `Automatic assignment draws on ${roundRoles.join(', ')}${round?.allowSelfNomination ? ' and volunteers' : ''}; you can still assign anyone by hand.`
+              : 'Automatic assignment draws on every evaluator.'}{' '}
+            Evaluators are told about their queue once the round is active; conflicts of interest are never assigned
+            automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        {data?.identitiesHidden && (
+          <p className="rounded-md bg-blue-50 p-3 text-sm text-blue-900">
+            Blind round: applications in it are shown by their anonymous label until scores are locked, when the round is
+            completed, or its deadline has passed and no reconciliation is still open.
+          </p>
+        )}
+
+        {!data && !error ? (
+          <div className="flex items-center justify-center py-12 text-gray-500">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Loading assignments...
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <section>
+              <div className="mb-2 flex items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold text-gray-900">
+                  In this round ({roundSubmissions.length} applications{shortCount > 0 ? `, ${shortCount} short` : ''})
+                </h3>
+                {isOpenRound && (
+                  <Button size="sm" variant="outline" onClick={handleAutoAssign} disabled={isBusy || shortCount === 0}>
+                    <Wand2 className="mr-1 h-4 w-4" /> Auto-assign
+                  </Button>
+                )}
+              </div>
+              <ScrollArea className="h-96 rounded-md border border-gray-200 p-3">
+                {roundSubmissions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No applications are in this round yet.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {roundSubmissions.map(([submissionId, assignments]) => (
+                      <li key={submissionId} className="text-sm">
+                        <div className="flex items-center gap-2 font-medium text-gray-900">
+                          {isOpenRound && (
+                            <Checkbox
+                              checked={selectedSubmissions.has(submissionId)}
+                              onCheckedChange={(checked) =>
+                                toggle(selectedSubmissions, setSelectedSubmissions, submissionId, checked === true)
+                              }
+                              aria-label={`Select ${companyNames.get(submissionId) ?? submissionId}`}
+                            />
+                          )}
+                          <span className="min-w-0 flex-1 truncate">{companyNames.get(submissionId) ?? submissionId}</span>
+                          {assignments.length < needed && (
+                            <Badge variant="outline" className="border-amber-300 text-amber-700">
+                              {assignments.length}/{needed}
+                            </Badge>
+                          )}
+                        </div>
+                        <ul className="mt-1 space-y-1 pl-6">
+                          {assignments.map((assignment) => (
+                            <li key={assignment.id} className="flex items-center gap-2 text-gray-600">
+                              <span className="min-w-0 flex-1 truncate">
+                                {assignment.evaluatorName}
+                                {assignment.method === 'auto' && <span className="text-gray-400"> · auto</span>}
+                              </span>
+                              {assignment.conflictOverride && (
+                                <span title={`Assigned despite: ${assignment.conflictOverride.map((reason) => CONFLICT_REASON_LABELS[reason]).join(', ')}`}>
+                                  <AlertTriangle className="h-4 w-4 text-amber-500" />
+                                </span>
+                              )}
+                              <Badge variant={assignment.scoreStatus === 'submitted' ? 'default' : 'secondary'}>
+                                {SCORE_STATUS_LABELS[assignment.scoreStatus]}
+                                {assignment.total !== undefined && ` · ${assignment.total}`}
+                              </Badge>
+                              {isOpenRound && assignment.scoreStatus !== 'submitted' && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleRemove(submissionId, assignment.evaluatorUid)}
+                                  disabled={isBusy}
+                                  className="rounded p-0.5 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                                  title={`Remove ${assignment.evaluatorName}`}
+                                >
+                                  <X className="h-4 w-4" />
+                                </button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </ScrollArea>
+            </section>
+
+            {isOpenRound ? (
+              <section className="space-y-3">
+                <div>
+                  <h3 className="mb-2 text-sm font-semibold text-gray-900">Add applications</h3>
+                  <Input
+                    value={search}
+                    onChange={(event) => setSearch(event.target.value)}
+                    placeholder="Search by startup or applicant"
+                    className="mb-2"
+                  />
+                  <ScrollArea className="h-36 rounded-md border border-gray-200 p-2">
+                    <ul className="space-y-1">
+                      {candidates.map((candidate) => (
+                        <li key={candidate.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={selectedSubmissions.has(candidate.id)}
+                            onCheckedChange={(checked) =>
+                              toggle(selectedSubmissions, setSelectedSubmissions, candidate.id, checked === true)
+                            }
+                            aria-label={`Select ${candidate.companyName}`}
+                          />
+                          <span className="min-w-0 flex-1 truncate text-gray-800">
+                            {candidate.companyName} <span className="text-gray-500">· {candidate.applicantName}</span>
+                          </span>
+                          {candidate.roundId && (
+                            <Badge variant="outline" title="Adding moves the applicant's status page to this round">
+                              {candidate.roundName}
+                            </Badge>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </div>
+                <div>
+                  <h3 className="mb-2 text-sm font-semibold text-gray-900">Evaluators</h3>
+                  <ScrollArea className="h-32 rounded-md border border-gray-200 p-2">
+                    {(data?.evaluators ?? []).length === 0 ? (
+                      <p className="text-sm text-gray-500">Nobody holds the evaluator role yet. Grant it in Admin → Roles.</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {data?.evaluators?.map((evaluator) => {
+                          const conflicts = Array.from(selectedSubmissions)
+                            .map((submissionId) => describeConflicts(submissionId, evaluator.uid))
+                            .filter(Boolean);
+                          const eligible = data.eligibleUids?.includes(evaluator.uid) ?? true;
+                          return (
+                            <li key={evaluator.uid} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={selectedEvaluators.has(evaluator.uid)}
+                                onCheckedChange={(checked) =>
+                                  toggle(selectedEvaluators, setSelectedEvaluators, evaluator.uid, checked === true)
+                                }
+                                aria-label={`Select ${evaluator.name}`}
+                              />
+                              <span
+                                className={`min-w-0 flex-1 truncate ${eligible ? 'text-gray-800' : 'text-gray-500'}`}
+                                title={
+                                  eligible
+                                    ? evaluator.evaluatorRoles.join(', ') || undefined
+                                    : "Does not hold this round's evaluator roles; only assigned by hand"
+                                }
+                              >
+                                {evaluator.name} <span className="text-gray-500">· {evaluator.email}</span>
+                              </span>
+                              {data.nominatedUids?.includes(evaluator.uid) && <Badge variant="secondary">Volunteered</Badge>}
+                              {conflicts.length > 0 && (
+                                <span title={conflicts.join('; ')}>
+                                  <AlertTriangle className="h-4 w-4 text-amber-500" />
+                                </span>
+                              )}
+                              <Badge variant="outline" title="Unscored assignments in other open rounds">
+                                {data.load?.[evaluator.uid] ?? 0} open
+                              </Badge>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </ScrollArea>
+                </div>
+              </section>
+            ) : (
+              <p className="text-sm text-gray-500">This round is closed; its assignments can no longer change.</p>
+            )}
+          </div>
+        )}
+
+        {skippedConflicts.length > 0 && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+            <p className="font-medium">These pairs were skipped for a conflict of interest:</p>
+            <ul className="mt-1 list-disc pl-5">
+              {skippedConflicts.map((conflict) => (
+                <li key={`${conflictKey(conflict.submissionId, conflict.evaluatorUid)}:${conflict.reason}`}>
+                  {evaluatorNames.get(conflict.evaluatorUid) ?? conflict.evaluatorUid} →{' '}
+                  {companyNames.get(conflict.submissionId) ?? conflict.submissionId}: {CONFLICT_REASON_LABELS[conflict.reason]}
+                  {conflict.detail && ` (${conflict.detail})`}
+                </li>
+              ))}
+            </ul>
+            <div className="mt-2 flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setSkippedConflicts([])} disabled={isBusy}>
+                Keep skipped
+              </Button>
+              <Button size="sm" variant="destructive" onClick={() => handleAssign(true)} disabled={isBusy}>
+                Assign anyway
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isBusy}>
+            Close
+          </Button>
+          {isOpenRound && selectedEvaluators.size === 0 && (
+            <Button
+              onClick={handleAddSubmissions}
+              disabled={isBusy || candidates.every((candidate) => !selectedSubmissions.has(candidate.id))}
+            >
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add to round{round?.autoAssignEvaluators ? ' and auto-assign' : ''}
+            </Button>
+          )}
+          {isOpenRound && selectedEvaluators.size > 0 && (
+            <Button onClick={() => handleAssign(false)} disabled={isBusy || selectedSubmissions.size === 0}>
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Assign {selectedEvaluators.size} evaluator{selectedEvaluators.size === 1 ? '' : 's'} to {selectedSubmissions.size}{' '}
+              application{selectedSubmissions.size === 1 ? '' : 's'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { importLocalEvaluationRoundsAction } from '@/app/actions/evaluation-round-actions';
+import { isLegacySampleRound, legacyLocalRoundSchema } from '@/lib/validation/evaluation-round-schema';
+
+interface ImportLocalRoundsDialogProps {
+  entries: unknown[]; // Raw rounds from localStorage
+  isOpen: boolean;
+  onClose: () => void;
+  onDone: (message: string | null) => void; // Called once the rounds are imported or discarded
+}
+
+// One-time move of the rounds the evaluation page used to keep in localStorage into Firestore
+export default function ImportLocalRoundsDialog({ entries, isOpen, onClose, onDone }: ImportLocalRoundsDialogProps) {
+  const rounds = useMemo(
+    () =>
+      entries.map((entry, index) => {
+        const parsed = legacyLocalRoundSchema.safeParse(entry);
+        return { index, entry, round: parsed.success ? parsed.data : null };
+      }),
+    [entries]
+  );
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  // The sample rounds the old page seeded are left out unless ticked
+  useEffect(() => {
+    if (isOpen) {
+      setSelected(new Set(rounds.filter(({ round }) => round && !isLegacySampleRound(round)).map(({ index }) => index)));
+      setError(null);
+      setConfirmDiscard(false);
+    }
+  }, [isOpen, rounds]);
+
+  const toggle = (index: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(index);
+    else next.delete(index);
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    const result = await importLocalEvaluationRoundsAction(rounds.filter(({ index }) => selected.has(index)).map(({ entry }) => entry));
+    setIsImporting(false);
+    if (result.success) {
+      onDone(result.message);
+    } else {
+      setError(result.message);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isImporting && onClose()}>
+      <DialogContent className="max-w-2xl bg-white">
+        <DialogHeader>
+          <DialogTitle className="text-gray-900">Import rounds saved in this browser</DialogTitle>
+          <DialogDescription>
+            Earlier versions of this page kept evaluation rounds in the browser only. Imported rounds are shared with
+            every admin; their applications, evaluators and scores start empty. This browser&apos;s copy is removed afterwards.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[50vh] pr-3">
+          <ul className="divide-y divide-gray-100">
+            {rounds.map(({ index, round }) => (
+              <li key={index} className="flex items-start gap-3 py-3 text-sm">
+                <Checkbox
+                  checked={selected.has(index)}
+                  disabled={!round || isImporting}
+                  onCheckedChange={(checked) => toggle(index, checked === true)}
+                  aria-label={round ? `Import ${round.roundName}` : 'Unreadable round'}
+                  className="mt-0.5"
+                />
+                {round ? (
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900">{round.roundName}</span>
+                      <Badge variant="secondary">{round.status}</Badge>
+                      {isLegacySampleRound(round) && <Badge variant="outline">Sample data</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {round.phase} · starts {format(new Date(round.scheduledAt), 'PP')} · created {format(new Date(round.createdAt), 'PP')}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex-1 text-gray-500">This entry could not be read and will not be imported.</div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => (confirmDiscard ? onDone(null) : setConfirmDiscard(true))}
+            disabled={isImporting}
+            title="Remove the rounds from this browser without importing them"
+            className={confirmDiscard ? 'border-red-300 text-red-700 hover:bg-red-50' : undefined}
+          >
+            {confirmDiscard ? 'Click again to discard' : 'Discard all'}
+          </Button>
+          <Button onClick={handleImport} disabled={isImporting || selected.size === 0}>
+            {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import {selected.size}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -35,6 +35,10 @@ import {
   Code,
   Database
 } from "lucide-react";
+import { EVALUATOR_ROLE_OPTIONS } from "@/lib/evaluator-matching";
+import { SCORING_METHOD_DESCRIPTIONS } from "@/lib/score-aggregation";
+import { DEFAULT_EVALUATORS_PER_SUBMISSION } from "@/lib/validation/evaluation-round-schema";
+import type { ScoringMethod } from "@/types/evaluation-round";
 
 interface EvaluationModalProps {
   isOpen: boolean;
@@ -84,7 +88,8 @@ function NewEvaluationModal({ isOpen, onClose, onSubmit }: EvaluationModalProps)
     maxScore: 100,
     minimumScore: 60,
     passingGrade: 70,
-    scoringMethod: 'weighted' as const,
+    scoringMethod: 'weighted' as ScoringMethod,
+    consensusThreshold: 20,
     weightedCriteria: [
       { name: 'Innovation & Technology', weight: 25, description: 'Novelty and technical excellence' },
       { name: 'Market Opportunity', weight: 20, description: 'Market size and potential' },
@@ -100,7 +105,7 @@ function NewEvaluationModal({ isOpen, onClose, onSubmit }: EvaluationModalProps)
     
     // Step 4: Evaluators & Access
     evaluatorRoles: [] as string[],
-    evaluatorCount: 3,
+    evaluatorCount: DEFAULT_EVALUATORS_PER_SUBMISSION,
     blindEvaluation: true,
     evaluatorInstructions: '',
     autoAssignEvaluators: true,
@@ -209,6 +214,7 @@ function NewEvaluationModal({ isOpen, onClose, onSubmit }: EvaluationModalProps)
       minimumScore: 60,
       passingGrade: 70,
       scoringMethod: 'weighted',
+      consensusThreshold: 20,
       weightedCriteria: [
         { name: 'Innovation & Technology', weight: 25, description: 'Novelty and technical excellence' },
         { name: 'Market Opportunity', weight: 20, description: 'Market size and potential' },
@@ -222,7 +228,7 @@ function NewEvaluationModal({ isOpen, onClose, onSubmit }: EvaluationModalProps)
       maxFileSize: 10,
       allowedFileTypes: ['pdf', 'pptx', 'docx'],
       evaluatorRoles: [],
-      evaluatorCount: 3,
+      evaluatorCount: DEFAULT_EVALUATORS_PER_SUBMISSION,
       blindEvaluation: true,
       evaluatorInstructions: '',
       autoAssignEvaluators: true,
@@ -671,84 +677,104 @@ function NewEvaluationModal({ isOpen, onClose, onSubmit }: EvaluationModalProps)
               <select
                 id="scoringMethod"
                 value={formData.scoringMethod}
-                onChange={(e) => setFormData({ ...formData, scoringMethod: e.target.value as any })}
+                onChange={(e) => setFormData({ ...formData, scoringMethod: e.target.value as ScoringMethod })}
                 className="w-full p-3 bg-white border border-gray-300 rounded-lg text-gray-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 backdrop-blur-sm transition-all duration-300 shadow-sm hover:shadow-md"
               >
                 <option value="weighted">⚖️ Weighted Average (Recommended)</option>
                 <option value="simple">➕ Simple Average</option>
                 <option value="consensus">🤝 Consensus Based</option>
-                <option value="median">📊 Median Score</option>
               </select>
+              <p className="text-xs text-gray-500 mt-1">{SCORING_METHOD_DESCRIPTIONS[formData.scoringMethod]}</p>
             </div>
-            
-            {formData.scoringMethod === 'weighted' && (
+
+            {formData.scoringMethod === 'consensus' && (
               <div>
-                <div className="flex items-center justify-between mb-4">
-                  <Label className="text-gray-700 font-medium">
-                    <PieChart className="inline h-4 w-4 mr-1" />
-                    Weighted Criteria (Total: {formData.weightedCriteria.reduce((sum, c) => sum + c.weight, 0)}%)
-                  </Label>
-                  <Button
-                    type="button"
-                    onClick={addCriteria}
-                    size="sm"
-                    className="bg-orange-100 hover:bg-orange-200 text-orange-700 border border-orange-300 shadow-sm"
-                  >
-                    <Plus className="h-4 w-4 mr-1" />
-                    Add Criteria
-                  </Button>
-                </div>
-                
-                <div className="space-y-3 max-h-60 overflow-y-auto">
-                  {formData.weightedCriteria.map((criteria, index) => (
-                    <div key={index} className="p-4 bg-orange-50 rounded-lg border border-orange-200 shadow-sm">
-                      <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
-                        <div className="md:col-span-4">
-                          <Label className="text-gray-600 text-xs mb-1 block">Criteria Name</Label>
-                          <Input
-                            value={criteria.name}
-                            onChange={(e) => updateCriteria(index, 'name', e.target.value)}
-                            placeholder="e.g., Innovation & Technology"
-                            className="bg-white border border-gray-200 rounded-xl px-5 py-3 text-base font-medium placeholder-gray-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-100 transition-all duration-300 shadow-sm hover:shadow-md"
-                          />
-                        </div>
-                        <div className="md:col-span-2">
-                          <Label className="text-gray-600 text-xs mb-1 block">Weight (%)</Label>
-                          <Input
-                            type="number"
-                            value={criteria.weight}
-                            onChange={(e) => updateCriteria(index, 'weight', parseInt(e.target.value) || 0)}
-                            min="0"
-                            max="100"
-                            className="bg-white border border-gray-200 rounded-xl px-5 py-3 text-base font-medium placeholder-gray-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-100 transition-all duration-300 shadow-sm hover:shadow-md"
-                          />
-                        </div>
-                        <div className="md:col-span-5">
-                          <Label className="text-gray-600 text-xs mb-1 block">Description</Label>
-                          <Input
-                            value={criteria.description}
-                            onChange={(e) => updateCriteria(index, 'description', e.target.value)}
-                            placeholder="Brief description..."
-                            className="bg-white border border-gray-200 rounded-xl px-5 py-3 text-base font-medium placeholder-gray-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-100 transition-all duration-300 shadow-sm hover:shadow-md"
-                          />
-                        </div>
-                        <div className="md:col-span-1">
-                          <Button
-                            type="button"
-                            onClick={() => removeCriteria(index)}
-                            size="sm"
-                            variant="outline"
-                            className="w-full text-red-600 border-red-300 hover:bg-red-50"
-                          >
-                            <Minus className="h-4 w-4" />
-                          </Button>
-                        </div>
+                <Label htmlFor="consensusThreshold" className="text-gray-700 font-medium mb-2 block">
+                  Consensus Threshold (points)
+                </Label>
+                <Input
+                  id="consensusThreshold"
+                  type="number"
+                  value={formData.consensusThreshold}
+                  onChange={(e) => setFormData({ ...formData, consensusThreshold: parseFloat(e.target.value) || 0 })}
+                  min={0}
+                  max={formData.maxScore}
+                  className="bg-white border border-gray-200 rounded-xl px-5 py-3 text-base font-medium placeholder-gray-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-100 transition-all duration-300 shadow-sm hover:shadow-md"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Submissions whose evaluator totals differ by more than this open a reconciliation thread.
+                </p>
+              </div>
+            )}
+            
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <Label className="text-gray-700 font-medium">
+                  <PieChart className="inline h-4 w-4 mr-1" />
+                  {formData.scoringMethod === 'simple'
+                    ? 'Criteria (scored equally)'
+                    : `Weighted Criteria (Total: ${formData.weightedCriteria.reduce((sum, c) => sum + c.weight, 0)}%)`}
+                </Label>
+                <Button
+                  type="button"
+                  onClick={addCriteria}
+                  size="sm"
+                  className="bg-orange-100 hover:bg-orange-200 text-orange-700 border border-orange-300 shadow-sm"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Criteria
+                </Button>
+              </div>
+              
+              <div className="space-y-3 max-h-60 overflow-y-auto">
+                {formData.weightedCriteria.map((criteria, index) => (
+                  <div key={index} className="p-4 bg-orange-50 rounded-lg border border-orange-200 shadow-sm">
+                    <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+                      <div className="md:col-span-4">
+                        <Label className="text-gray-600 text-xs mb-1 block">Criteria Name</Label>
+                        <Input
+                          value={criteria.name}
+                          onChange={(e) => updateCriteria(index, 'name', e.target.value)}
+                          placeholder="e.g., Innovation & Technology"
+                          className="bg-white border border-gray-200 rounded-xl px-5 py-3 text-base font-medium placeholder-gray-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-100 transition-all duration-300 shadow-sm hover:shadow-md"
+                        />
+                      </div>
+                      <div className="md:col-span-2">
+                        <Label className="text-gray-600 text-xs mb-1 block">Weight (%)</Label>
+                        <Input
+                          type="number"
+                          value={criteria.weight}
+                          onChange={(e) => updateCriteria(index, 'weight', parseInt(e.target.value) || 0)}
+                          min="0"
+                          max="100"
+                          className="bg-white border border-gray-200 rounded-xl px-5 py-3 text-base font-medium placeholder-gray-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-100 transition-all duration-300 shadow-sm hover:shadow-md"
+                        />
+                      </div>
+                      <div className="md:col-span-5">
+                        <Label className="text-gray-600 text-xs mb-1 block">Description</Label>
+                        <Input
+                          value={criteria.description}
+                          onChange={(e) => updateCriteria(index, 'description', e.target.value)}
+                          placeholder="Brief description..."
+                          className="bg-white border border-gray-200 rounded-xl px-5 py-3 text-base font-medium placeholder-gray-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-100 transition-all duration-300 shadow-sm hover:shadow-md"
+                        />
+                      </div>
+                      <div className="md:col-span-1">
+                        <Button
+                          type="button"
+                          onClick={() => removeCriteria(index)}
+                          size="sm"
+                          variant="outline"
+                          className="w-full text-red-600 border-red-300 hover:bg-red-50"
+                        >
+                          <Minus className="h-4 w-4" />
+                        </Button>
                       </div>
                     </div>
-                  ))}
-                </div>
+                  </div>
+                ))}
               </div>
-            )}
+            </div>
 
               <div>
                 <Label className="text-gray-700 text-sm font-medium mb-2 block">Required Documents</Label>
@@ -858,7 +884,7 @@ function NewEvaluationModal({ isOpen, onClose, onSubmit }: EvaluationModalProps)
               <div>
                 <Label className="text-gray-700 text-sm font-medium mb-2 block">Evaluator Roles</Label>
                 <div className="grid grid-cols-2 gap-2">
-                  {['Industry Expert', 'Technical Reviewer', 'Business Analyst', 'Financial Advisor', 'Market Specialist', 'Product Manager', 'Venture Capitalist', 'Academic Researcher'].map((role) => (
+                  {EVALUATOR_ROLE_OPTIONS.map((role) => (
                     <label key={role} className="flex items-center space-x-2 text-sm p-2 bg-green-50 rounded-lg border border-green-200 hover:border-green-400 hover:bg-green-100 transition-colors cursor-pointer">
                       <input
                         type="checkbox"
@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  getRoundResultsAction,
+  settleReconciliationAction,
+  type RoundResultsResponse,
+} from '@/app/actions/evaluation-score-actions';
+import { SCORING_METHOD_DESCRIPTIONS, SCORING_METHOD_LABELS } from '@/lib/score-aggregation';
+import type { EvaluationRound } from '@/types/evaluation-round';
+import type { SubmissionResultStatus } from '@/types/evaluation-score';
+
+interface RoundResultsDialogProps {
+  round: Pick<
+    EvaluationRound,
+    'id' | 'roundName' | 'status' | 'scoringMethod' | 'maxScore' | 'passingGrade' | 'consensusThreshold'
+  > | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: (message: string) => void; // Called after an admin recorded a final score
+}
+
+const RESULT_STATUS_LABELS: Record<SubmissionResultStatus, string> = {
+  awaiting_scores: 'Awaiting scores',
+  final: 'Final',
+  divergent: 'To reconcile',
+  reconciled: 'Reconciled',
+};
+
+// Each application's evaluator totals and final score, with a way to settle reconciliations that stall
+export default function RoundResultsDialog({ round, isOpen, onClose, onChanged }: RoundResultsDialogProps) {
+  const [data, setData] = useState<RoundResultsResponse | null>(null);
+  const [settling, setSettling] = useState<{ submissionId: string; score: string; justification: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!round) return;
+    const result = await getRoundResultsAction(round.id);
+    if (result.success) {
+      setData(result);
+    } else {
+      setError(result.message ?? 'Failed to load the results.');
+    }
+  }, [round]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setData(null);
+      setSettling(null);
+      setError(null);
+      load();
+    }
+  }, [isOpen, load]);
+
+  const handleSettle = async () => {
+    if (!round || !settling) return;
+    setIsBusy(true);
+    setError(null);
+    const result = await settleReconciliationAction(round.id, settling.submissionId, Number(settling.score), settling.justification);
+    setIsBusy(false);
+    if (result.success) {
+      setSettling(null);
+      onChanged(result.message);
+      await load();
+    } else {
+      setError(result.message);
+    }
+  };
+
+  const results = data?.results ?? [];
+  const canSettle = round?.status !== 'Cancelled';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <DialogContent className="max-w-5xl bg-white">
+        <DialogHeader>
+          <DialogTitle className="text-gray-900">Results for {round?.roundName}</DialogTitle>
+          <DialogDescription>
+            {round && (
+              <>
+                {SCORING_METHOD_LABELS[round.scoringMethod]}: {SCORING_METHOD_DESCRIPTIONS[round.scoringMethod]}
+                {round.scoringMethod === 'consensus' && ` Totals more than ${round.consensusThreshold} points apart are reconciled.`}{' '}
+                Scores are out of {round.maxScore}; {round.passingGrade} passes.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {data?.identitiesHidden && (
+          <p className="rounded-md bg-blue-50 p-3 text-sm text-blue-900">
+            Blind round: applications are shown by their anonymous label until scores are locked, when the round is completed,
+            or its deadline has passed and no reconciliation is still open.
+          </p>
+        )}
+        {error && <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</p>}
+
+        {!data && !error ? (
+          <div className="flex items-center justify-center py-12 text-gray-500">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Loading results...
+          </div>
+        ) : results.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No applications are in this round yet.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Application</TableHead>
+                  <TableHead>Evaluator totals</TableHead>
+                  <TableHead className="text-right">Average</TableHead>
+                  <TableHead className="text-right">Spread</TableHead>
+                  <TableHead className="text-right">Final</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <React.Fragment key={result.submissionId}>
+                    <TableRow>
+                      <TableCell className="font-medium text-gray-900">{result.companyName}</TableCell>
+                      <TableCell className="text-xs text-gray-600">
+                        {result.evaluatorTotals.length === 0
+                          ? 'No evaluators'
+                          : result.evaluatorTotals.map((entry) => (
+                              <div key={entry.evaluatorUid}>
+                                {entry.evaluatorName}: {entry.total ?? '—'}
+                              </div>
+                            ))}
+                      </TableCell>
+                      <TableCell className="text-right">{result.average ?? '—'}</TableCell>
+                      <TableCell className="text-right">{result.spread ?? '—'}</TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {result.finalScore ?? '—'}
+                        {result.passed !== undefined && (
+                          <div className={`text-xs font-normal ${result.passed ? 'text-green-700' : 'text-red-700'}`}>
+                            {result.passed ? 'Passes' : 'Below passing grade'}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={result.status === 'final' || result.status === 'reconciled' ? 'default' : 'outline'}
+                          className={result.status === 'divergent' ? 'border-amber-300 bg-amber-50 text-amber-800' : undefined}
+                        >
+                          {RESULT_STATUS_LABELS[result.status]}
+                        </Badge>
+                        {result.reconciliation?.justification && (
+                          <p className="mt-1 max-w-xs text-xs text-gray-500" title={result.reconciliation.justification}>
+                            {result.reconciliation.justification}
+                          </p>
+                        )}
+                        {result.status === 'divergent' && canSettle && settling?.submissionId !== result.submissionId && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className="mt-2"
+                            onClick={() => setSettling({ submissionId: result.submissionId, score: '', justification: '' })}
+                            disabled={isBusy}
+                          >
+                            Record final score
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {settling?.submissionId === result.submissionId && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="space-y-2 bg-gray-50">
+                          <p className="text-xs text-gray-600">
+                            {result.reconciliation
+                              ? 'The evaluators have not agreed yet. Recording a final score closes their discussion.'
+                              : 'No discussion was opened for this application. Recording a final score settles it.'}
+                          </p>
+                          <div className="flex flex-wrap items-start gap-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              max={round?.maxScore}
+                              step={0.5}
+                              value={settling.score}
+                              onChange={(event) => setSettling({ ...settling, score: event.target.value })}
+                              placeholder="Final score"
+                              className="w-32"
+                              disabled={isBusy}
+                            />
+                            <Textarea
+                              value={settling.justification}
+                              onChange={(event) => setSettling({ ...settling, justification: event.target.value })}
+                              placeholder="Why this score?"
+                              rows={2}
+                              maxLength={2000}
+                              className="min-w-[16rem] flex-1"
+                              disabled={isBusy}
+                            />
+                          </div>
+                          <div className="flex gap-2">
+                            <Button type="button" variant="outline" size="sm" onClick={() => setSettling(null)} disabled={isBusy}>
+                              Cancel
+                            </Button>
+                            <Button
+                              type="button"
+                              size="sm"
+                              onClick={handleSettle}
+                              disabled={isBusy || settling.score === '' || !settling.justification.trim()}
+                            >
+                              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                              Record final score
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
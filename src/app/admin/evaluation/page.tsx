@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -32,6 +32,23 @@ import {
 } from "lucide-react";
 import { format } from 'date-fns';
 import dynamic from 'next/dynamic';
+import {
+  cancelEvaluationRoundAction,
+  completeEvaluationRoundAction,
+  createEvaluationRoundAction,
+  deleteEvaluationRoundAction,
+  listEvaluationRoundsAction,
+  updateEvaluationRoundAction,
+} from '@/app/actions/evaluation-round-actions';
+import {
+  DEFAULT_EVALUATORS_PER_SUBMISSION,
+  LEGACY_ROUNDS_STORAGE_KEY,
+  defaultConsensusThreshold,
+} from '@/lib/validation/evaluation-round-schema';
+import type { EvaluationRound as StoredEvaluationRound, EvaluationRoundSettings } from '@/types/evaluation-round';
+import ImportLocalRoundsDialog from './ImportLocalRoundsDialog';
+import AssignEvaluatorsDialog from './AssignEvaluatorsDialog';
+import RoundResultsDialog from './RoundResultsDialog';
 
 // Helper function to safely format dates
 const safeFormat = (date: Date | string, formatStr: string) => {
@@ -606,6 +623,20 @@ const EditRoundModal = ({
                 </div>
               </div>
 
+              {formData.scoringMethod === 'consensus' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Consensus Threshold (points)</label>
+                  <Input
+                    type="number"
+                    value={formData.consensusThreshold ?? ''}
+                    onChange={(e) => setFormData({...formData, consensusThreshold: parseFloat(e.target.value)})}
+                    className="bg-white border-gray-300 text-gray-900 focus:border-green-500 focus:ring-green-500 transition-colors"
+                    placeholder="20"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Evaluator totals further apart than this are reconciled by the evaluators</p>
+                </div>
+              )}
+
               <div>
                 <label className="flex items-center gap-3 cursor-pointer">
                   <input
@@ -669,31 +700,115 @@ const CreateEvaluationModal = dynamic(
   }
 );
 
-// Enhanced evaluation round interface
-interface EvaluationRound {
-  id: string;
-  roundName: string;
-  description?: string;
-  phase: 'Application' | 'Screening' | 'Pitch' | 'Demo' | 'Due Diligence' | 'Final';
+// A stored round with its dates as Date objects for display
+type EvaluationRound = Omit<StoredEvaluationRound, 'scheduledAt' | 'evaluationDeadline' | 'createdAt' | 'updatedAt'> & {
   scheduledAt: Date;
   evaluationDeadline?: Date;
-  status: 'Draft' | 'Active' | 'Completed' | 'Cancelled';
   createdAt: Date;
   updatedAt: Date;
-  maxScore: number;
-  minimumScore: number;
-  evaluationPeriod: number;
-  scoringMethod: 'weighted' | 'simple' | 'consensus';
-  autoAdvance: boolean;
-  allowedSubmissionTypes: string[];
-  criteriaCount?: number;
-  evaluatorCount?: number;
-  submissionCount?: number;
-  averageScore?: number;
+};
+
+function toPageRound(round: StoredEvaluationRound): EvaluationRound {
+  return {
+    ...round,
+    scheduledAt: new Date(round.scheduledAt),
+    evaluationDeadline: round.evaluationDeadline ? new Date(round.evaluationDeadline) : undefined,
+    createdAt: new Date(round.createdAt),
+    updatedAt: new Date(round.updatedAt),
+  };
 }
 
-// Local storage key for evaluation rounds
-const STORAGE_KEY = 'admin_evaluation_rounds';
+function toSettings(round: EvaluationRound): EvaluationRoundSettings {
+  return {
+    roundName: round.roundName,
+    description: round.description,
+    phase: round.phase,
+    scheduledAt: new Date(round.scheduledAt).toISOString(),
+    evaluationDeadline: round.evaluationDeadline ? new Date(round.evaluationDeadline).toISOString() : undefined,
+    maxScore: Number(round.maxScore),
+    minimumScore: Number(round.minimumScore),
+    passingGrade: Number(round.passingGrade),
+    evaluationPeriod: Number(round.evaluationPeriod),
+    scoringMethod: round.scoringMethod,
+    consensusThreshold: Number(round.consensusThreshold),
+    criteria: round.criteria,
+    autoAdvance: round.autoAdvance,
+    allowedSubmissionTypes: round.allowedSubmissionTypes,
+    evaluatorsPerSubmission: round.evaluatorsPerSubmission,
+    autoAssignEvaluators: round.autoAssignEvaluators,
+    evaluatorRoles: round.evaluatorRoles,
+    allowSelfNomination: round.allowSelfNomination,
+    blindEvaluation: round.blindEvaluation,
+    evaluatorInstructions: round.evaluatorInstructions,
+  };
+}
+
+// The values NewEvaluationModal collects that a round keeps
+interface NewRoundFormValues {
+  roundName?: string;
+  description?: string;
+  phase?: EvaluationRoundSettings['phase'];
+  startDate?: string;
+  endDate?: string;
+  evaluationDeadline?: string;
+  maxScore?: number | string;
+  minimumScore?: number | string;
+  passingGrade?: number | string;
+  evaluationPeriod?: number | string;
+  scoringMethod?: EvaluationRoundSettings['scoringMethod'];
+  consensusThreshold?: number | string;
+  weightedCriteria?: { name?: string; weight?: number | string; description?: string }[];
+  autoAdvance?: boolean;
+  allowedSubmissionTypes?: string[];
+  evaluatorCount?: number | string;
+  autoAssignEvaluators?: boolean;
+  evaluatorRoles?: string[];
+  allowSelfNomination?: boolean;
+  blindEvaluation?: boolean;
+  evaluatorInstructions?: string;
+}
+
+// Settings from the values NewEvaluationModal collects
+function settingsFromNewRoundForm(data: NewRoundFormValues): EvaluationRoundSettings {
+  const deadline = data.evaluationDeadline || data.endDate;
+  return {
+    roundName: String(data.roundName ?? '').trim(),
+    description: String(data.description ?? '').trim() || undefined,
+    phase: data.phase || 'Application',
+    scheduledAt: (data.startDate ? new Date(data.startDate) : new Date()).toISOString(),
+    evaluationDeadline: deadline ? new Date(deadline).toISOString() : undefined,
+    maxScore: Number(data.maxScore) || 100,
+    minimumScore: Number(data.minimumScore) || 0,
+    passingGrade: Number(data.passingGrade) || 0,
+    evaluationPeriod: Number(data.evaluationPeriod) || 7,
+    scoringMethod: data.scoringMethod || 'weighted',
+    consensusThreshold: Number(data.consensusThreshold ?? defaultConsensusThreshold(Number(data.maxScore) || 100)) || 0,
+    criteria: (data.weightedCriteria ?? []).map((criterion) => ({
+      name: String(criterion.name ?? '').trim(),
+      weight: Number(criterion.weight) || 0,
+      description: String(criterion.description ?? '').trim(),
+    })),
+    autoAdvance: Boolean(data.autoAdvance),
+    allowedSubmissionTypes: data.allowedSubmissionTypes ?? [],
+    evaluatorsPerSubmission: Number(data.evaluatorCount) || DEFAULT_EVALUATORS_PER_SUBMISSION,
+    autoAssignEvaluators: Boolean(data.autoAssignEvaluators),
+    evaluatorRoles: data.evaluatorRoles ?? [],
+    allowSelfNomination: Boolean(data.allowSelfNomination),
+    blindEvaluation: Boolean(data.blindEvaluation),
+    evaluatorInstructions: String(data.evaluatorInstructions ?? '').trim() || undefined,
+  };
+}
+
+// Rounds the page used to keep in this browser; empty once imported or discarded
+function readLocalRounds(): unknown[] {
+  try {
+    const stored = localStorage.getItem(LEGACY_ROUNDS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
 
 export default function EvaluationPage() {
   const [evaluationRounds, setEvaluationRounds] = useState<EvaluationRound[]>([]);
@@ -721,124 +836,26 @@ export default function EvaluationPage() {
     onConfirm: () => {},
   });
 
-  // Load evaluation rounds from localStorage on mount
-  useEffect(() => {
-    const loadEvaluationRounds = () => {
-      setIsLoading(true);
-      setError(null);
-      
-      try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        if (stored) {
-          const rounds = JSON.parse(stored).map((round: any) => ({
-            ...round,
-            scheduledAt: new Date(round.scheduledAt),
-            evaluationDeadline: round.evaluationDeadline ? new Date(round.evaluationDeadline) : undefined,
-            createdAt: new Date(round.createdAt),
-            updatedAt: new Date(round.updatedAt)
-          }));
-          setEvaluationRounds(rounds);
-        } else {
-          // Initialize with sample data
-          const sampleRounds: EvaluationRound[] = [
-            {
-              id: '1',
-              roundName: 'Q1 2024 Startup Pitch Competition',
-              description: 'Initial screening round for Q1 startup applications with comprehensive evaluation criteria',
-              phase: 'Pitch',
-              scheduledAt: new Date('2024-02-15T09:00:00'),
-              evaluationDeadline: new Date('2024-02-20T17:00:00'),
-              status: 'Active',
-              createdAt: new Date('2024-01-15T10:00:00'),
-              updatedAt: new Date('2024-01-15T10:00:00'),
-              maxScore: 100,
-              minimumScore: 60,
-              evaluationPeriod: 7,
-              scoringMethod: 'weighted',
-              autoAdvance: false,
-              allowedSubmissionTypes: ['pitch_deck', 'business_plan'],
-              criteriaCount: 8,
-              evaluatorCount: 12,
-              submissionCount: 45,
-              averageScore: 78.5
-            },
-            {
-              id: '2',
-              roundName: 'FinTech Innovation Challenge',
-              description: 'Specialized evaluation round focusing on financial technology startups',
-              phase: 'Due Diligence',
-              scheduledAt: new Date('2024-03-01T14:00:00'),
-              evaluationDeadline: new Date('2024-03-15T16:00:00'),
-              status: 'Completed',
-              createdAt: new Date('2024-02-01T09:30:00'),
-              updatedAt: new Date('2024-03-16T10:15:00'),
-              maxScore: 100,
-              minimumScore: 70,
-              evaluationPeriod: 14,
-              scoringMethod: 'consensus',
-              autoAdvance: true,
-              allowedSubmissionTypes: ['pitch_deck', 'financial_projections', 'demo_video'],
-              criteriaCount: 10,
-              evaluatorCount: 8,
-              submissionCount: 28,
-              averageScore: 84.2
-            },
-            {
-              id: '3',
-              roundName: 'Healthcare Innovation Round',
-              description: 'Evaluation round for healthcare and medical technology startups',
-              phase: 'Demo',
-              scheduledAt: new Date('2024-04-10T10:00:00'),
-              evaluationDeadline: new Date('2024-04-25T18:00:00'),
-              status: 'Draft',
-              createdAt: new Date('2024-03-20T11:00:00'),
-              updatedAt: new Date('2024-03-20T11:00:00'),
-              maxScore: 100,
-              minimumScore: 65,
-              evaluationPeriod: 15,
-              scoringMethod: 'weighted',
-              autoAdvance: false,
-              allowedSubmissionTypes: ['pitch_deck', 'prototype_demo', 'technical_documentation'],
-              criteriaCount: 12,
-              evaluatorCount: 15,
-              submissionCount: 32,
-              averageScore: 0
-            },
-            {
-              id: '4',
-              roundName: 'AI & Machine Learning Showcase',
-              description: 'Comprehensive evaluation for artificial intelligence and machine learning startups',
-              phase: 'Final',
-              scheduledAt: new Date('2024-05-05T13:00:00'),
-              evaluationDeadline: new Date('2024-05-20T17:00:00'),
-              status: 'Active',
-              createdAt: new Date('2024-04-01T14:30:00'),
-              updatedAt: new Date('2024-04-02T09:45:00'),
-              maxScore: 100,
-              minimumScore: 75,
-              evaluationPeriod: 15,
-              scoringMethod: 'simple',
-              autoAdvance: true,
-              allowedSubmissionTypes: ['pitch_deck', 'live_demo', 'technical_whitepaper'],
-              criteriaCount: 15,
-              evaluatorCount: 20,
-              submissionCount: 18,
-              averageScore: 89.7
-            }
-          ];
-          setEvaluationRounds(sampleRounds);
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(sampleRounds));
-        }
-      } catch (err) {
-        setError('Failed to load evaluation rounds');
-        console.error('Error loading evaluation rounds:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const [localRounds, setLocalRounds] = useState<unknown[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [assignRound, setAssignRound] = useState<EvaluationRound | null>(null);
+  const [resultsRound, setResultsRound] = useState<EvaluationRound | null>(null);
+
+  const loadEvaluationRounds = useCallback(async () => {
+    setError(null);
+    const result = await listEvaluationRoundsAction();
+    if (result.success) {
+      setEvaluationRounds((result.rounds || []).map(toPageRound));
+    } else {
+      setError(result.message || 'Failed to load evaluation rounds');
+    }
+    setIsLoading(false);
+  }, []);
 
+  useEffect(() => {
     loadEvaluationRounds();
-  }, []);
+    setLocalRounds(readLocalRounds());
+  }, [loadEvaluationRounds]);
 
   // Listen for edit modal events from View modal
   useEffect(() => {
@@ -911,13 +928,6 @@ export default function EvaluationPage() {
     return () => document.removeEventListener('keydown', handleKeydown, { capture: true });
   }, [isViewModalOpen, isEditModalOpen, isModalOpen, confirmDialog.isOpen, showMoreActions]);
 
-  // Save evaluation rounds to localStorage whenever they change
-  useEffect(() => {
-    if (evaluationRounds.length > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(evaluationRounds));
-    }
-  }, [evaluationRounds]);
-
   // Show toast notification
   const showToast = (message: string, type: 'success' | 'error' | 'info') => {
     setToast({ message, type });
@@ -939,42 +949,19 @@ export default function EvaluationPage() {
   };
 
   // Handle creating a new evaluation round
-  const handleCreateEvaluation = async (roundData: Partial<EvaluationRound>) => {
-    try {
-      const newRound: EvaluationRound = {
-        id: Date.now().toString(),
-        roundName: roundData.roundName || '',
-        description: roundData.description,
-        phase: roundData.phase || 'Application',
-        scheduledAt: roundData.scheduledAt || new Date(),
-        evaluationDeadline: roundData.evaluationDeadline,
-        status: roundData.status || 'Draft',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        maxScore: roundData.maxScore || 100,
-        minimumScore: roundData.minimumScore || 60,
-        evaluationPeriod: roundData.evaluationPeriod || 7,
-        scoringMethod: roundData.scoringMethod || 'weighted',
-        autoAdvance: roundData.autoAdvance || false,
-        allowedSubmissionTypes: roundData.allowedSubmissionTypes || ['pitch_deck'],
-        criteriaCount: 0,
-        evaluatorCount: 0,
-        submissionCount: 0,
-        averageScore: 0
-      };
-
-      const updatedRounds = [...evaluationRounds, newRound];
-      setEvaluationRounds(updatedRounds);
+  const handleCreateEvaluation = async (roundData: NewRoundFormValues) => {
+    const result = await createEvaluationRoundAction(settingsFromNewRoundForm(roundData), 'Draft');
+    if (result.success) {
       setIsModalOpen(false);
-      showToast(`Evaluation round "${newRound.roundName}" created successfully!`, 'success');
-    } catch (error) {
-      console.error('Failed to create evaluation round:', error);
-      setError('Failed to create evaluation round');
-      showToast('Failed to create evaluation round', 'error');
+      showToast(result.message, 'success');
+      await loadEvaluationRounds();
+    } else {
+      setError(result.message);
+      showToast(result.message, 'error');
     }
   };
 
-  // Handle deleting an evaluation round
+  // Handle deleting an evaluation round; only drafts without applications can be deleted
   const handleDeleteRound = (id: string) => {
     const round = evaluationRounds.find(r => r.id === id);
     if (!round) return;
@@ -983,15 +970,10 @@ export default function EvaluationPage() {
       'Delete Evaluation Round',
       `Are you sure you want to delete "${round.roundName}"? This action cannot be undone.`,
       async () => {
-        try {
-          const updatedRounds = evaluationRounds.filter(round => round.id !== id);
-          setEvaluationRounds(updatedRounds);
-          showToast(`Evaluation round "${round.roundName}" deleted successfully`, 'success');
-          setShowMoreActions(null);
-        } catch (error) {
-          console.error('Failed to delete evaluation round:', error);
-          showToast('Failed to delete evaluation round', 'error');
-        }
+        const result = await deleteEvaluationRoundAction(id);
+        showToast(result.message, result.success ? 'success' : 'error');
+        setShowMoreActions(null);
+        if (result.success) await loadEvaluationRounds();
       },
       "danger"
     );
@@ -1011,53 +993,33 @@ export default function EvaluationPage() {
     setShowMoreActions(null);
   };
 
-  // Handle saving edited round
-  const handleSaveEditedRound = (updatedData: Partial<EvaluationRound>) => {
+  // Handle saving edited round; choosing Completed or Cancelled saves the edits, then closes the round
+  const handleSaveEditedRound = async (updatedData: Partial<EvaluationRound>) => {
     if (!selectedRound) return;
 
-    try {
-      const updatedRound = {
-        ...selectedRound,
-        ...updatedData,
-        updatedAt: new Date()
-      };
-
-      const updatedRounds = evaluationRounds.map(r => 
-        r.id === selectedRound.id ? updatedRound : r
-      );
-      
-      setEvaluationRounds(updatedRounds);
-      setIsEditModalOpen(false);
-      setSelectedRound(null);
-      showToast(`Evaluation round "${updatedRound.roundName}" updated successfully!`, 'success');
-    } catch (error) {
-      console.error('Failed to update evaluation round:', error);
-      showToast('Failed to update evaluation round', 'error');
+    const updatedRound = { ...selectedRound, ...updatedData };
+    const closing = updatedRound.status === 'Completed' || updatedRound.status === 'Cancelled';
+    const openStatus = (closing ? selectedRound.status : updatedRound.status) as 'Draft' | 'Active';
+
+    let result = await updateEvaluationRoundAction(selectedRound.id, toSettings(updatedRound), openStatus);
+    if (result.success && closing && updatedRound.status !== selectedRound.status) {
+      result = updatedRound.status === 'Completed'
+        ? await completeEvaluationRoundAction(selectedRound.id)
+        : await cancelEvaluationRoundAction(selectedRound.id);
     }
+
+    setIsEditModalOpen(false);
+    setSelectedRound(null);
+    showToast(result.message, result.success ? 'success' : 'error');
+    await loadEvaluationRounds();
   };
 
-  // Handle duplicating a round
-  const handleDuplicateRound = (round: EvaluationRound) => {
-    try {
-      const duplicatedRound: EvaluationRound = {
-        ...round,
-        id: Date.now().toString(),
-        roundName: `${round.roundName} (Copy)`,
-        status: 'Draft',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        submissionCount: 0,
-        averageScore: 0
-      };
-      
-      const updatedRounds = [...evaluationRounds, duplicatedRound];
-      setEvaluationRounds(updatedRounds);
-      setShowMoreActions(null);
-      showToast(`Evaluation round duplicated as "${duplicatedRound.roundName}"`, 'success');
-    } catch (error) {
-      console.error('Failed to duplicate evaluation round:', error);
-      showToast('Failed to duplicate evaluation round', 'error');
-    }
+  // Handle duplicating a round; the copy starts as a draft with no applications or scores
+  const handleDuplicateRound = async (round: EvaluationRound) => {
+    setShowMoreActions(null);
+    const result = await createEvaluationRoundAction({ ...toSettings(round), roundName: `${round.roundName} (Copy)` }, 'Draft');
+    showToast(result.message, result.success ? 'success' : 'error');
+    if (result.success) await loadEvaluationRounds();
   };
 
   // Handle archiving a round
@@ -1065,22 +1027,31 @@ export default function EvaluationPage() {
     showConfirmDialog(
       'Archive Evaluation Round',
       `Are you sure you want to archive "${round.roundName}"? This will change its status to Cancelled.`,
-      () => {
-        try {
-          const updatedRound = { ...round, status: 'Cancelled' as const, updatedAt: new Date() };
-          const updatedRounds = evaluationRounds.map(r => r.id === round.id ? updatedRound : r);
-          setEvaluationRounds(updatedRounds);
-          setShowMoreActions(null);
-          showToast(`Evaluation round "${round.roundName}" archived successfully`, 'info');
-        } catch (error) {
-          console.error('Failed to archive evaluation round:', error);
-          showToast('Failed to archive evaluation round', 'error');
-        }
+      async () => {
+        setShowMoreActions(null);
+        const result = await cancelEvaluationRoundAction(round.id);
+        showToast(result.success ? `Evaluation round "${round.roundName}" archived successfully` : result.message, result.success ? 'info' : 'error');
+        if (result.success) await loadEvaluationRounds();
       },
       "warning"
     );
   };
 
+  // Handle completing an active round
+  const handleCompleteRound = (round: EvaluationRound) => {
+    showConfirmDialog(
+      'Complete Evaluation Round',
+      `Mark "${round.roundName}" as completed? Completed rounds can no longer be edited or scored.`,
+      async () => {
+        setShowMoreActions(null);
+        const result = await completeEvaluationRoundAction(round.id);
+        showToast(result.message, result.success ? 'success' : 'error');
+        if (result.success) await loadEvaluationRounds();
+      },
+      "info"
+    );
+  };
+
   // Handle exporting round data
   const handleExportRound = (round: EvaluationRound) => {
     try {
@@ -1167,6 +1138,24 @@ export default function EvaluationPage() {
           </div>
         )}
 
+        {/* Rounds saved in this browser by the old version of the page */}
+        {localRounds.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex flex-wrap items-center gap-3">
+            <Archive className="w-5 h-5 text-amber-600" />
+            <p className="text-amber-800 flex-1">
+              {localRounds.length} evaluation round{localRounds.length === 1 ? ' is' : 's are'} saved only in this browser.
+              Import them so other admins can see them.
+            </p>
+            <Button
+              size="sm"
+              onClick={() => setIsImportOpen(true)}
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              Review and import
+            </Button>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white border border-gray-100 rounded-xl p-4 shadow-sm flex flex-col items-start gap-2 min-h-0">
@@ -1415,6 +1404,35 @@ export default function EvaluationPage() {
                             {showMoreActions === round.id && (
                               <div className="absolute right-0 top-full mt-2 w-52 bg-white border border-gray-100 rounded-xl shadow-lg z-10 overflow-hidden">
                                 <div className="py-2">
+                                  {round.status === 'Active' && (
+                                    <button
+                                      onClick={() => handleCompleteRound(round)}
+                                      className="w-full text-left px-4 py-2 text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition-all duration-150 flex items-center gap-2 text-sm"
+                                    >
+                                      <CheckCircle className="w-5 h-5" />
+                                      <span>Complete</span>
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => {
+                                      setAssignRound(round);
+                                      setShowMoreActions(null);
+                                    }}
+                                    className="w-full text-left px-4 py-2 text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition-all duration-150 flex items-center gap-2 text-sm"
+                                  >
+                                    <Users className="w-5 h-5" />
+                                    <span>Evaluators</span>
+                                  </button>
+                                  <button
+                                    onClick={() => {
+                                      setResultsRound(round);
+                                      setShowMoreActions(null);
+                                    }}
+                                    className="w-full text-left px-4 py-2 text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition-all duration-150 flex items-center gap-2 text-sm"
+                                  >
+                                    <TrendingUp className="w-5 h-5" />
+                                    <span>Results</span>
+                                  </button>
                                   <button
                                     onClick={() => handleDuplicateRound(round)}
                                     className="w-full text-left px-4 py-2 text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition-all duration-150 flex items-center gap-2 text-sm"
@@ -1491,6 +1509,39 @@ export default function EvaluationPage() {
           onSave={handleSaveEditedRound}
         />
 
+        {/* Import rounds from this browser's storage */}
+        <ImportLocalRoundsDialog
+          entries={localRounds}
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          onDone={async (message) => {
+            localStorage.removeItem(LEGACY_ROUNDS_STORAGE_KEY);
+            setLocalRounds([]);
+            setIsImportOpen(false);
+            if (message) showToast(message, 'success');
+            await loadEvaluationRounds();
+          }}
+        />
+
+        {/* Applications and evaluators in a round */}
+        <AssignEvaluatorsDialog
+          round={assignRound}
+          isOpen={assignRound !== null}
+          onClose={() => setAssignRound(null)}
+          onChanged={async (message) => {
+            showToast(message, 'success');
+            await loadEvaluationRounds();
+          }}
+        />
+
+        {/* Evaluators' totals and final scores */}
+        <RoundResultsDialog
+          round={resultsRound}
+          isOpen={resultsRound !== null}
+          onClose={() => setResultsRound(null)}
+          onChanged={(message) => showToast(message, 'success')}
+        />
+
         {/* Confirmation Dialog */}
         <ConfirmDialog
           isOpen={confirmDialog.isOpen}
@@ -6,6 +6,9 @@ import styles from './events.module.css';
 
 // Firebase
 import { db } from '@/lib/firebase';
+import { deleteEventAction, updateEventStatusAction } from '@/app/actions/event-actions';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
 import { 
   collection, 
   query, 
@@ -13,8 +16,6 @@ import {
   getDocs, 
   addDoc, 
   updateDoc, 
-  deleteDoc, 
-  doc, 
   Timestamp,
   where,
   DocumentData
@@ -49,7 +50,6 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -154,6 +154,7 @@ export default function EventsPage() {
   const [filteredEvents, setFilteredEvents] = useState<EventDocument[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState('');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -257,12 +258,21 @@ export default function EventsPage() {
       return;
     }
     
-    try {
-      await deleteDoc(doc(db, 'events', id));
-      
+    const result = await deleteEventAction(id);
+    if (result.success) {
       fetchEvents();
-    } catch (error) {
-      console.error('Error deleting event:', error);
+    } else {
+      toast({ title: 'Could not delete event', description: result.message, variant: 'destructive' });
+    }
+  };
+
+  // Status changes go through a server action so they are recorded in the audit log
+  const handleStatusChange = async (id: string, status: EventStatus) => {
+    const result = await updateEventStatusAction(id, status);
+    if (result.success) {
+      setEvents(prev => prev.map(event => event.id === id ? { ...event, status } : event));
+    } else {
+      toast({ title: 'Could not update status', description: result.message, variant: 'destructive' });
     }
   };
 
@@ -628,16 +638,27 @@ export default function EventsPage() {
                                 </div>
                               </div>
                               <div className="flex items-center mt-1">
-                                <Badge 
-                                  className={
-                                    event.status === 'published' ? 'bg-green-100 text-green-700 border border-green-200' :
-                                    event.status === 'draft' ? 'bg-yellow-100 text-yellow-700 border border-yellow-200' :
-                                    'bg-gray-100 text-gray-700 border border-gray-200'
-                                  }
+                                <Select
+                                  value={event.status}
+                                  onValueChange={(value) => handleStatusChange(event.id, value as EventStatus)}
                                 >
-                                  {event.status === 'published' ? 'Published' : 
-                                  event.status === 'draft' ? 'Draft' : 'Archived'}
-                                </Badge>
+                                  <SelectTrigger
+                                    className={cn(
+                                      'h-7 w-auto gap-2 rounded-full px-3 text-xs font-semibold',
+                                      event.status === 'published' ? 'bg-green-100 text-green-700 border border-green-200' :
+                                      event.status === 'draft' ? 'bg-yellow-100 text-yellow-700 border border-yellow-200' :
+                                      'bg-gray-100 text-gray-700 border border-gray-200'
+                                    )}
+                                    aria-label="Event status"
+                                  >
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="draft">Draft</SelectItem>
+                                    <SelectItem value="published">Published</SelectItem>
+                                    <SelectItem value="archived">Archived</SelectItem>
+                                  </SelectContent>
+                                </Select>
                               </div>
                             </CardHeader>
                             <CardContent>
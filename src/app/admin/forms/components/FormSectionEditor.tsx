@@ -0,0 +1,277 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Lock, Plus, Trash2 } from "lucide-react";
+import {
+  DROPDOWN_SOURCES,
+  FORM_FIELD_TYPES,
+  FORM_FIELD_TYPE_LABELS,
+  LOCKED_FIELDS,
+  isStandardFieldKey,
+} from "@/lib/validation/application-form-schema";
+import type { DropdownSource, FormFieldDefinition, FormFieldType, FormSectionDefinition } from "@/types/application-form";
+
+const CUSTOM_OPTIONS = "custom";
+
+interface FormSectionEditorProps {
+  section: FormSectionDefinition;
+  index: number;
+  sectionCount: number;
+  readOnly: boolean;
+  onChange: (section: FormSectionDefinition) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+  onAddField: () => void;
+}
+
+export function moveItem<T>(items: T[], index: number, direction: -1 | 1): T[] {
+  const target = index + direction;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+function FieldEditor({
+  field,
+  index,
+  fieldCount,
+  readOnly,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  field: FormFieldDefinition;
+  index: number;
+  fieldCount: number;
+  readOnly: boolean;
+  onChange: (field: FormFieldDefinition) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}) {
+  // fullName and companyEmail are needed to create the applicant's account
+  const isLocked = field.key in LOCKED_FIELDS;
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-4">
+      <div className="flex items-start gap-3">
+        <div className="grid flex-1 grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor={`label-${field.key}-${index}`}>Label</Label>
+            <Input
+              id={`label-${field.key}-${index}`}
+              value={field.label}
+              disabled={readOnly}
+              onChange={(e) => onChange({ ...field, label: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`key-${field.key}-${index}`} className="flex items-center gap-1">
+              Key
+              {isLocked && <Lock className="h-3 w-3 text-gray-400" />}
+            </Label>
+            <Input
+              id={`key-${field.key}-${index}`}
+              value={field.key}
+              disabled={readOnly || isLocked}
+              className="font-mono text-sm"
+              onChange={(e) => onChange({ ...field, key: e.target.value.replace(/\s/g, "") })}
+            />
+            <p className="text-xs text-gray-500">
+              {isStandardFieldKey(field.key) ? "Standard submission field" : "Stored with the additional answers"}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select
+              value={field.type}
+              disabled={readOnly || isLocked}
+              onValueChange={(value) => onChange({ ...field, type: value as FormFieldType })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORM_FIELD_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{FORM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!readOnly && (
+          <div className="flex flex-col gap-1 pt-6">
+            <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => onMove(-1)} title="Move up">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" disabled={index === fieldCount - 1} onClick={() => onMove(1)} title="Move down">
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" disabled={isLocked} onClick={onRemove} title="Remove field">
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor={`placeholder-${field.key}-${index}`}>Placeholder</Label>
+          <Input
+            id={`placeholder-${field.key}-${index}`}
+            value={field.placeholder ?? ""}
+            disabled={readOnly}
+            onChange={(e) => onChange({ ...field, placeholder: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`help-${field.key}-${index}`}>Help text</Label>
+          <Input
+            id={`help-${field.key}-${index}`}
+            value={field.helpText ?? ""}
+            disabled={readOnly}
+            onChange={(e) => onChange({ ...field, helpText: e.target.value })}
+          />
+        </div>
+      </div>
+
+      {field.type === "select" && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Options</Label>
+            <Select
+              value={field.optionsSource ?? CUSTOM_OPTIONS}
+              disabled={readOnly}
+              onValueChange={(value) =>
+                onChange({
+                  ...field,
+                  optionsSource: value === CUSTOM_OPTIONS ? undefined : (value as DropdownSource),
+                  options: value === CUSTOM_OPTIONS ? field.options ?? [] : undefined,
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CUSTOM_OPTIONS}>Custom list</SelectItem>
+                {(Object.keys(DROPDOWN_SOURCES) as DropdownSource[]).map((source) => (
+                  <SelectItem key={source} value={source}>
+                    {DROPDOWN_SOURCES[source].label} ({DROPDOWN_SOURCES[source].options.length})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {!field.optionsSource && (
+            <div className="space-y-1">
+              <Label htmlFor={`options-${field.key}-${index}`}>One option per line</Label>
+              <Textarea
+                id={`options-${field.key}-${index}`}
+                rows={4}
+                value={(field.options ?? []).join("\n")}
+                disabled={readOnly}
+                onChange={(e) => onChange({ ...field, options: e.target.value.split("\n") })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`required-${field.key}-${index}`}
+          checked={field.required}
+          disabled={readOnly || isLocked}
+          onCheckedChange={(required) => onChange({ ...field, required })}
+        />
+        <Label htmlFor={`required-${field.key}-${index}`}>Required</Label>
+      </div>
+    </div>
+  );
+}
+
+export function FormSectionEditor({
+  section,
+  index,
+  sectionCount,
+  readOnly,
+  onChange,
+  onMove,
+  onRemove,
+  onAddField,
+}: FormSectionEditorProps) {
+  const hasLockedField = section.fields.some((field) => field.key in LOCKED_FIELDS);
+
+  const updateField = (fieldIndex: number, field: FormFieldDefinition) =>
+    onChange({ ...section, fields: section.fields.map((current, i) => (i === fieldIndex ? field : current)) });
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+      <CardHeader className="border-b border-gray-100 bg-gray-50">
+        <div className="flex items-start gap-3">
+          <div className="grid flex-1 grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor={`section-title-${section.id}`}>Section {index + 1} title</Label>
+              <Input
+                id={`section-title-${section.id}`}
+                value={section.title}
+                disabled={readOnly}
+                onChange={(e) => onChange({ ...section, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`section-description-${section.id}`}>Description</Label>
+              <Input
+                id={`section-description-${section.id}`}
+                value={section.description ?? ""}
+                disabled={readOnly}
+                onChange={(e) => onChange({ ...section, description: e.target.value })}
+              />
+            </div>
+          </div>
+          {!readOnly && (
+            <div className="flex gap-1 pt-6">
+              <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => onMove(-1)} title="Move section up">
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" disabled={index === sectionCount - 1} onClick={() => onMove(1)} title="Move section down">
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" disabled={hasLockedField} onClick={onRemove} title="Remove section">
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        {section.fields.map((field, fieldIndex) => (
+          <FieldEditor
+            key={fieldIndex}
+            field={field}
+            index={fieldIndex}
+            fieldCount={section.fields.length}
+            readOnly={readOnly}
+            onChange={(updated) => updateField(fieldIndex, updated)}
+            onMove={(direction) => onChange({ ...section, fields: moveItem(section.fields, fieldIndex, direction) })}
+            onRemove={() => onChange({ ...section, fields: section.fields.filter((_, i) => i !== fieldIndex) })}
+          />
+        ))}
+        {!readOnly && (
+          <Button type="button" variant="outline" onClick={onAddField}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add field
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,412 @@
+// src/app/admin/forms/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CopyPlus, FileSliders, Loader2, Plus, Rocket, Save, Trash2 } from "lucide-react";
+import {
+  createApplicationFormDraftAction,
+  discardApplicationFormDraftAction,
+  listApplicationFormVersionsAction,
+  publishApplicationFormAction,
+  saveApplicationFormDraftAction,
+} from "@/app/actions/application-form-actions";
+import {
+  DEFAULT_APPLICATION_FORM,
+  applicationFormDefinitionSchema,
+} from "@/lib/validation/application-form-schema";
+import type {
+  ApplicationFormDefinition,
+  ApplicationFormStatus,
+  ApplicationFormVersion,
+  FormSectionDefinition,
+} from "@/types/application-form";
+import { FormSectionEditor, moveItem } from "./components/FormSectionEditor";
+
+const STATUS_BADGES: Record<ApplicationFormStatus, { label: string; variant: "success" | "warning" | "secondary" }> = {
+  published: { label: "Live", variant: "success" },
+  draft: { label: "Draft", variant: "warning" },
+  archived: { label: "Archived", variant: "secondary" },
+};
+
+function toDefinition(form: ApplicationFormVersion): ApplicationFormDefinition {
+  return { title: form.title, description: form.description, sections: form.sections };
+}
+
+// Trim text and drop blank custom options before validating or saving
+function prepareDefinition(definition: ApplicationFormDefinition): ApplicationFormDefinition {
+  return {
+    title: definition.title.trim(),
+    description: definition.description?.trim() || undefined,
+    sections: definition.sections.map((section) => ({
+      ...section,
+      title: section.title.trim(),
+      description: section.description?.trim() || undefined,
+      fields: section.fields.map((field) => ({
+        ...field,
+        label: field.label.trim(),
+        helpText: field.helpText?.trim() || undefined,
+        placeholder: field.placeholder?.trim() || undefined,
+        options: field.options?.map((option) => option.trim()).filter(Boolean),
+      })),
+    })),
+  };
+}
+
+function nextUnusedName(prefix: string, used: string[]): string {
+  let n = 1;
+  while (used.includes(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+export default function AdminFormsPage() {
+  const { toast } = useToast();
+  const [forms, setForms] = useState<ApplicationFormVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [definition, setDefinition] = useState<ApplicationFormDefinition | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<"create" | "save" | "publish" | "discard" | null>(null);
+
+  // The built-in form stays listed so a first draft can be based on it
+  const versions = useMemo(() => [...forms, DEFAULT_APPLICATION_FORM], [forms]);
+  const selected = versions.find((form) => form.version === selectedVersion) ?? null;
+  const liveVersion = forms.find((form) => form.status === "published")?.version ?? 0;
+  const isDraft = selected?.status === "draft";
+
+  const selectVersion = useCallback((form: ApplicationFormVersion) => {
+    setSelectedVersion(form.version);
+    setDefinition(toDefinition(form));
+    setIsDirty(false);
+  }, []);
+
+  const loadForms = useCallback(async (focusVersion?: number) => {
+    setIsLoading(true);
+    const result = await listApplicationFormVersionsAction();
+    if (result.success) {
+      const loaded = result.forms || [];
+      setForms(loaded);
+      const all = [...loaded, DEFAULT_APPLICATION_FORM];
+      const focus =
+        all.find((form) => form.version === focusVersion) ??
+        all.find((form) => form.status === "draft") ??
+        all.find((form) => form.status === "published") ??
+        DEFAULT_APPLICATION_FORM;
+      selectVersion(focus);
+    } else {
+      toast({ title: "Failed to load forms", description: result.message, variant: "destructive" });
+    }
+    setIsLoading(false);
+  }, [selectVersion, toast]);
+
+  useEffect(() => {
+    loadForms();
+  }, [loadForms]);
+
+  const updateDefinition = (next: ApplicationFormDefinition) => {
+    setDefinition(next);
+    setIsDirty(true);
+  };
+
+  const updateSection = (index: number, section: FormSectionDefinition) => {
+    if (!definition) return;
+    updateDefinition({ ...definition, sections: definition.sections.map((current, i) => (i === index ? section : current)) });
+  };
+
+  const addSection = () => {
+    if (!definition) return;
+    const id = nextUnusedName("section", definition.sections.map((section) => section.id));
+    updateDefinition({ ...definition, sections: [...definition.sections, { id, title: "New section", fields: [] }] });
+  };
+
+  const addField = (sectionIndex: number) => {
+    if (!definition) return;
+    const usedKeys = definition.sections.flatMap((section) => section.fields.map((field) => field.key));
+    const section = definition.sections[sectionIndex];
+    updateSection(sectionIndex, {
+      ...section,
+      fields: [...section.fields, { key: nextUnusedName("question", usedKeys), label: "New question", type: "text", required: false }],
+    });
+  };
+
+  async function handleCreateDraft() {
+    if (!selected) return;
+    setPendingAction("create");
+    const result = await createApplicationFormDraftAction(selected.version);
+    toast({
+      title: result.success ? "Draft Created" : "Could Not Create Draft",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success && result.form) {
+      await loadForms(result.form.version);
+    }
+    setPendingAction(null);
+  }
+
+  // Returns false when the draft could not be saved
+  async function saveDraft(): Promise<boolean> {
+    if (!selected || !definition) return false;
+    const prepared = prepareDefinition(definition);
+    const parsed = applicationFormDefinitionSchema.safeParse(prepared);
+    if (!parsed.success) {
+      toast({ title: "Form Not Valid", description: parsed.error.errors[0]?.message, variant: "destructive" });
+      return false;
+    }
+
+    const result = await saveApplicationFormDraftAction(selected.version, prepared);
+    if (!result.success) {
+      toast({ title: "Save Failed", description: result.message, variant: "destructive" });
+      return false;
+    }
+    if (result.form) {
+      setForms((current) => current.map((form) => (form.version === result.form!.version ? result.form! : form)));
+      setDefinition(toDefinition(result.form));
+    }
+    setIsDirty(false);
+    return true;
+  }
+
+  async function handleSave() {
+    setPendingAction("save");
+    if (await saveDraft()) {
+      toast({ title: "Draft Saved", description: `Version ${selectedVersion} saved.` });
+    }
+    setPendingAction(null);
+  }
+
+  async function handlePublish() {
+    if (!selected) return;
+    setPendingAction("publish");
+    // Publish exactly what is on screen
+    if (!isDirty || (await saveDraft())) {
+      const result = await publishApplicationFormAction(selected.version);
+      toast({
+        title: result.success ? "Form Published" : "Publish Failed",
+        description: result.message,
+        variant: result.success ? "default" : "destructive",
+      });
+      if (result.success) {
+        await loadForms(selected.version);
+      }
+    }
+    setPendingAction(null);
+  }
+
+  async function handleDiscard() {
+    if (!selected) return;
+    setPendingAction("discard");
+    const result = await discardApplicationFormDraftAction(selected.version);
+    toast({
+      title: result.success ? "Draft Discarded" : "Discard Failed",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      await loadForms();
+    }
+    setPendingAction(null);
+  }
+
+  const hasDraft = forms.some((form) => form.status === "draft");
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 p-6">
+      <div className="max-w-6xl mx-auto space-y-8">
+        <div>
+          <h1 className="admin-heading-2 mb-2 flex items-center">
+            <FileSliders className="mr-3 h-7 w-7 text-indigo-600" />
+            Application Form
+          </h1>
+          <p className="admin-caption">
+            Edit the questions applicants answer. Changes are made in a draft and go live when you publish it;
+            applications already submitted keep the version they were filled in with.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6 items-start">
+            <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+              <CardHeader className="border-b border-gray-100 bg-gray-50">
+                <CardTitle className="admin-heading-3">Versions</CardTitle>
+              </CardHeader>
+              <CardContent className="p-2">
+                {versions.map((form) => {
+                  const badge = form.version === 0
+                    ? { label: liveVersion === 0 ? "Live" : "Built-in", variant: liveVersion === 0 ? "success" as const : "secondary" as const }
+                    : STATUS_BADGES[form.status];
+                  return (
+                    <button
+                      key={form.id}
+                      type="button"
+                      onClick={() => selectVersion(form)}
+                      className={`w-full text-left rounded-lg px-3 py-2 mb-1 transition-colors ${
+                        form.version === selectedVersion ? "bg-indigo-50 ring-1 ring-indigo-200" : "hover:bg-gray-50"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{form.version === 0 ? "Built-in form" : `Version ${form.version}`}</span>
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </div>
+                      {form.publishedAt ? (
+                        <p className="text-xs text-gray-500 mt-1">Published {format(new Date(form.publishedAt), "PP")}</p>
+                      ) : form.updatedAt ? (
+                        <p className="text-xs text-gray-500 mt-1">Edited {format(new Date(form.updatedAt), "PP")}</p>
+                      ) : null}
+                    </button>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {selected && definition && (
+              <div className="space-y-6">
+                <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+                  <CardHeader className="border-b border-gray-100 bg-gray-50">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <CardTitle className="admin-heading-3">
+                          {selected.version === 0 ? "Built-in form" : `Version ${selected.version}`}
+                        </CardTitle>
+                        <CardDescription className="admin-body-small">
+                          {isDraft
+                            ? "Draft. Applicants do not see it until it is published."
+                            : "Published and archived versions are read-only. Create a draft to make changes."}
+                        </CardDescription>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {isDraft ? (
+                          <>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="outline" disabled={pendingAction !== null}>
+                                  {pendingAction === "discard" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                                  Discard
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Discard this draft?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Version {selected.version} and all its unpublished changes will be deleted.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={handleDiscard}>Discard draft</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                            <Button variant="outline" onClick={handleSave} disabled={pendingAction !== null || !isDirty}>
+                              {pendingAction === "save" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                              Save draft
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button disabled={pendingAction !== null}>
+                                  {pendingAction === "publish" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Rocket className="mr-2 h-4 w-4" />}
+                                  Publish
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Publish version {selected.version}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    New applicants will see this form straight away. The current live version is archived;
+                                    anyone already filling it in can still submit.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={handlePublish}>Publish</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            onClick={handleCreateDraft}
+                            disabled={pendingAction !== null || hasDraft}
+                            title={hasDraft ? "Publish or discard the existing draft first" : undefined}
+                          >
+                            {pendingAction === "create" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CopyPlus className="mr-2 h-4 w-4" />}
+                            New draft from this version
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="form-title">Form title</Label>
+                      <Input
+                        id="form-title"
+                        value={definition.title}
+                        disabled={!isDraft}
+                        onChange={(e) => updateDefinition({ ...definition, title: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="form-description">Introduction</Label>
+                      <Textarea
+                        id="form-description"
+                        rows={2}
+                        value={definition.description ?? ""}
+                        disabled={!isDraft}
+                        onChange={(e) => updateDefinition({ ...definition, description: e.target.value })}
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {definition.sections.map((section, index) => (
+                  <FormSectionEditor
+                    key={section.id}
+                    section={section}
+                    index={index}
+                    sectionCount={definition.sections.length}
+                    readOnly={!isDraft}
+                    onChange={(updated) => updateSection(index, updated)}
+                    onMove={(direction) => updateDefinition({ ...definition, sections: moveItem(definition.sections, index, direction) })}
+                    onRemove={() => updateDefinition({ ...definition, sections: definition.sections.filter((_, i) => i !== index) })}
+                    onAddField={() => addField(index)}
+                  />
+                ))}
+
+                {isDraft && (
+                  <Button variant="outline" onClick={addSection}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add section
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
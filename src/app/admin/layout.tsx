@@ -24,18 +24,28 @@ import {
   FileCheck,
   MessageSquare,
   Rocket,
-  ClipboardCheck
+  ClipboardCheck,
+  ShieldCheck,
+  ScrollText,
+  FileSliders,
+  Mail
 } from "lucide-react";
 import { InnoNexusLogo } from "@/components/icons/innnexus-logo";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
 import NotificationsPanel from "@/components/ui/notifications-panel";
+import { useAuth } from "@/contexts/AuthContext";
+import { sessionManager } from "@/lib/session-manager";
+import { signOut } from "firebase/auth";
+import { auth } from "@/lib/firebase";
+import type { Permission } from "@/lib/permissions";
 
 interface NavItem {
   href: string;
   label: string;
   icon: React.ReactNode;
   disabled: boolean;
+  permission: Permission;
 }
 
 function AdminLayoutContent({
@@ -45,6 +55,7 @@ function AdminLayoutContent({
 }) {
   const pathname = usePathname();
   const { open, setOpen } = useSidebar();
+  const { can } = useAuth();
 
   React.useEffect(() => {
     // Close sidebar on mobile when route changes
@@ -53,63 +64,119 @@ function AdminLayoutContent({
     }
   }, [pathname, setOpen]);
 
-  const navItems: NavItem[] = [
+  const allNavItems: NavItem[] = [
     {
       href: "/admin/dashboard",
       label: "Dashboard",
       icon: <LayoutDashboard className="h-5 w-5" />,
-      disabled: false
+      disabled: false,
+      permission: "admin:portal"
     },
     {
       href: "/admin/submissions",
       label: "Submissions",
       icon: <FileCheck className="h-5 w-5" />,
-      disabled: false
+      disabled: false,
+      permission: "submissions:read"
     },
     {
       href: "/admin/mentors",
       label: "Mentors",
       icon: <Users className="h-5 w-5" />,
-      disabled: false
+      disabled: false,
+      permission: "mentors:manage"
     },
     {
       href: "/admin/mentor-requests",
       label: "Mentor Requests",
       icon: <MessageSquare className="h-5 w-5" />,
-      disabled: false
+      disabled: false,
+      permission: "mentorRequests:read"
     },
     {
       href: "/admin/events",
       label: "Events",
       icon: <CalendarDays className="h-5 w-5" />,
-      disabled: false
+      disabled: false,
+      permission: "events:manage"
     },
     {
       href: "/admin/startups", // Link to the startups management page
       label: "Add-startups",   // New label
       icon: <Rocket className="h-5 w-5" />, // Using Rocket icon
-      disabled: false
+      disabled: false,
+      permission: "startups:manage"
     },
     {
       href: "/admin/analysis",
       label: "Analysis",
       icon: <BarChart2 className="h-5 w-5" />,
-      disabled: false
+      disabled: false,
+      permission: "submissions:read"
     },
     {
       href: "/admin/evaluation",
       label: "Evaluation",
       icon: <ClipboardCheck className="h-5 w-5" />,
-      disabled: false
+      disabled: false,
+      permission: "evaluations:read"
+    },
+    {
+      href: "/admin/forms",
+      label: "Application Form",
+      icon: <FileSliders className="h-5 w-5" />,
+      disabled: false,
+      permission: "forms:manage"
+    },
+    {
+      href: "/admin/email-templates",
+      label: "Email Templates",
+      icon: <Mail className="h-5 w-5" />,
+      disabled: false,
+      permission: "settings:manage"
+    },
+    {
+      href: "/admin/roles",
+      label: "Roles",
+      icon: <ShieldCheck className="h-5 w-5" />,
+      disabled: false,
+      permission: "roles:manage"
+    },
+    {
+      href: "/admin/audit",
+      label: "Audit Log",
+      icon: <ScrollText className="h-5 w-5" />,
+      disabled: false,
+      permission: "audit:read"
     },
     {
       href: "/admin/settings",
       label: "Settings",
       icon: <Settings className="h-5 w-5" />,
-      disabled: false
+      disabled: false,
+      permission: "settings:manage"
     },
   ];
 
+  // Only show the sections the signed-in role is allowed to open
+  const navItems = allNavItems.filter((item) => can(item.permission));
+
+  // End the Firestore identity issued at login before the server clears the session cookie,
+  // in this tab and every other open one
+  const handleLogout = async (e: React.MouseEvent<HTMLAnchorElement>) => {
+    e.preventDefault();
+    if (sessionManager) {
+      await sessionManager.endSession('logout');
+      return;
+    }
+    try {
+      await signOut(auth);
+    } catch (error) {
+      console.error('Error signing out of Firebase:', error);
+    }
+    window.location.href = "/logout";
+  };
+
   const handleMobileLinkClick = () => {
     if (typeof window !== 'undefined' && window.innerWidth < 768) { // Check if mobile
       setOpen(false);
@@ -206,6 +273,7 @@ function AdminLayoutContent({
                   icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path d="M16 17l5-5-5-5M21 12H9M13 7V5a2 2 0 0 0-2-2H5a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h6a2 2 0 0 0 2-2v-2"/></svg>
                 }}
                 className="text-red-600 hover:bg-red-50 hover:text-red-700 font-semibold"
+                onClick={handleLogout}
               />
             </div>
           </DesktopSidebar>
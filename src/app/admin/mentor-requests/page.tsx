@@ -126,7 +126,7 @@ export default function AdminMentorRequestsPage() {
     setIsConfirmDialogOpen(false);
 
     try {
-      const result = await processAdminMentorRequest('admin_123', {
+      const result = await processAdminMentorRequest({
         requestId: selectedRequest.id,
         action: actionType,
         notes: notes,
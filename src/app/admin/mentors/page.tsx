@@ -78,7 +78,6 @@ const mentorFormSchema = z.object({
   profilePictureUrl: z.string().optional(),
   linkedinUrl: z.string().url({ message: "Please enter a valid LinkedIn URL." }).optional().or(z.literal('')),
   email: z.string().email({ message: "Please enter a valid email address." }),
-  password: z.string().min(6, { message: "Password must be at least 6 characters." }),
 });
 
 export type MentorFormValues = z.infer<typeof mentorFormSchema>;
@@ -126,7 +125,6 @@ export default function AdminMentorsPage() {
       profilePictureUrl: "",
       linkedinUrl: "",
       email: "",
-      password: "",
     },
   });
 
@@ -277,7 +275,6 @@ Type "DELETE" to confirm:`;
       const mentorData = {
         // Admin fields for mentor document
         email: values.email,
-        password: values.password,
         createdAt: new Date(),
         // Mentor profile fields for subcollection
         name: values.name,
@@ -486,19 +483,6 @@ Type "DELETE" to confirm:`;
                               </FormItem>
                             )}
                           />
-                          <FormField
-                            control={form.control}
-                            name="password"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel className="font-semibold text-gray-700">Set Temporary Password</FormLabel>
-                                <FormControl>
-                                  <Input type="password" placeholder="Enter a secure temporary password" {...field} disabled={isSubmitting} className="rounded-lg border-gray-200 focus:border-blue-400 focus:ring-blue-200 bg-white" suppressHydrationWarning />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
                           <FormField
                             control={form.control}
                             name="profilePictureUrl"
@@ -0,0 +1,304 @@
+// src/app/admin/roles/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, Loader2, ShieldCheck, Users, UserCog, Search } from "lucide-react";
+import {
+  getRoleAssignmentsAction,
+  setAdminAccountRolesAction,
+  setEvaluatorRolesAction,
+  setMemberRolesAction,
+} from "@/app/actions/role-actions";
+import { EVALUATOR_ROLE_OPTIONS } from "@/lib/evaluator-matching";
+import { ADMIN_ACCOUNT_ROLES, ROLE_LABELS, type Role } from "@/lib/permissions";
+import type { AdminAccount } from "@/types/admin-account";
+import type { RoleMember } from "@/types/role-assignment";
+
+export default function AdminRolesPage() {
+  const { toast } = useToast();
+  const [adminAccounts, setAdminAccounts] = useState<AdminAccount[]>([]);
+  const [members, setMembers] = useState<RoleMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const loadAssignments = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getRoleAssignmentsAction();
+    if (result.success) {
+      setAdminAccounts(result.adminAccounts || []);
+      setMembers(result.members || []);
+    } else {
+      toast({
+        title: "Failed to load roles",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [loadAssignments]);
+
+  const filteredMembers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return members;
+    return members.filter(
+      (member) => member.name.toLowerCase().includes(term) || member.email.toLowerCase().includes(term)
+    );
+  }, [members, searchTerm]);
+
+  async function changeAdminRole(account: AdminAccount, role: Role) {
+    setUpdatingId(account.id);
+    const result = await setAdminAccountRolesAction(account.id, [role]);
+    toast({
+      title: result.success ? "Roles Updated" : "Update Failed",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      await loadAssignments();
+    }
+    setUpdatingId(null);
+  }
+
+  async function toggleEvaluator(member: RoleMember, enabled: boolean) {
+    setUpdatingId(member.uid);
+    const nextRoles: Role[] = enabled
+      ? [...member.grantedRoles.filter((role) => role !== "evaluator"), "evaluator"]
+      : member.grantedRoles.filter((role) => role !== "evaluator");
+    const result = await setMemberRolesAction(member.uid, member.baseRole, nextRoles);
+    toast({
+      title: result.success ? "Roles Updated" : "Update Failed",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      await loadAssignments();
+    }
+    setUpdatingId(null);
+  }
+
+  async function toggleEvaluatorRole(member: RoleMember, evaluatorRole: string, enabled: boolean) {
+    setUpdatingId(member.uid);
+    const nextRoles = enabled
+      ? [...member.evaluatorRoles, evaluatorRole]
+      : member.evaluatorRoles.filter((role) => role !== evaluatorRole);
+    const result = await setEvaluatorRolesAction(member.uid, member.baseRole, nextRoles);
+    if (result.success) {
+      setMembers((current) =>
+        current.map((entry) =>
+          entry.uid === member.uid && entry.baseRole === member.baseRole ? { ...entry, evaluatorRoles: nextRoles } : entry
+        )
+      );
+    } else {
+      toast({ title: "Update Failed", description: result.message, variant: "destructive" });
+    }
+    setUpdatingId(null);
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 p-6">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <div>
+          <h1 className="admin-heading-2 mb-2 flex items-center">
+            <ShieldCheck className="mr-3 h-7 w-7 text-indigo-600" />
+            Roles
+          </h1>
+          <p className="admin-caption">
+            Grant and revoke access. Changes apply the next time the person signs in.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          </div>
+        ) : (
+          <>
+            <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+              <CardHeader className="border-b border-gray-100 bg-gray-50">
+                <CardTitle className="flex items-center admin-heading-3">
+                  <UserCog className="mr-3 h-6 w-6 text-indigo-600" />
+                  Admin Panel Accounts
+                </CardTitle>
+                <CardDescription className="admin-body-small">
+                  Admins have full access. Auditors can view submissions, mentor requests, evaluations and the audit log, but cannot change anything.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-48">Role</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {adminAccounts.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-gray-500">
+                          No admin accounts found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      adminAccounts.map((account) => (
+                        <TableRow key={account.id}>
+                          <TableCell className="font-medium">{account.name}</TableCell>
+                          <TableCell>{account.email}</TableCell>
+                          <TableCell>
+                            <Badge variant={account.status === "active" ? "success" : "error"}>
+                              {account.status === "active" ? "Active" : "Disabled"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={account.roles.includes("admin") ? "admin" : "auditor"}
+                              onValueChange={(value) => changeAdminRole(account, value as Role)}
+                              disabled={updatingId === account.id}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ADMIN_ACCOUNT_ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {ROLE_LABELS[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+              <CardHeader className="border-b border-gray-100 bg-gray-50">
+                <CardTitle className="flex items-center admin-heading-3">
+                  <Users className="mr-3 h-6 w-6 text-indigo-600" />
+                  Mentors &amp; Users
+                </CardTitle>
+                <CardDescription className="admin-body-small">
+                  Evaluators sign in through the mentor portal and can score applications assigned to them. Their expertise
+                  decides which evaluation rounds assign them automatically.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-4">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    placeholder="Search by name or email"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Account</TableHead>
+                      <TableHead>Expertise</TableHead>
+                      <TableHead className="text-right">{ROLE_LABELS.evaluator}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredMembers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-gray-500">
+                          No matching accounts.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredMembers.map((member) => (
+                        <TableRow key={`${member.baseRole}-${member.uid}`}>
+                          <TableCell className="font-medium">{member.name}</TableCell>
+                          <TableCell>{member.email}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{ROLE_LABELS[member.baseRole]}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            {member.grantedRoles.includes("evaluator") ? (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="max-w-[14rem] justify-between"
+                                    disabled={updatingId === member.uid}
+                                  >
+                                    <span className="truncate">
+                                      {member.evaluatorRoles.length > 0 ? member.evaluatorRoles.join(", ") : "None"}
+                                    </span>
+                                    <ChevronDown className="ml-2 h-4 w-4 shrink-0" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="start">
+                                  <DropdownMenuLabel>Expertise</DropdownMenuLabel>
+                                  <DropdownMenuSeparator />
+                                  {EVALUATOR_ROLE_OPTIONS.map((role) => (
+                                    <DropdownMenuCheckboxItem
+                                      key={role}
+                                      checked={member.evaluatorRoles.includes(role)}
+                                      onCheckedChange={(checked) => toggleEvaluatorRole(member, role, checked === true)}
+                                      onSelect={(event) => event.preventDefault()}
+                                    >
+                                      {role}
+                                    </DropdownMenuCheckboxItem>
+                                  ))}
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            ) : (
+                              <span className="text-sm text-gray-400">—</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {updatingId === member.uid ? (
+                              <Loader2 className="ml-auto h-4 w-4 animate-spin text-indigo-600" />
+                            ) : (
+                              <Switch
+                                checked={member.grantedRoles.includes("evaluator")}
+                                onCheckedChange={(checked) => toggleEvaluator(member, checked)}
+                                aria-label={`Evaluator role for ${member.name}`}
+                              />
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, UserPlus, Users, Ban, CheckCircle } from "lucide-react";
+import {
+  getAdminAccountsAction,
+  createAdminAccountAction,
+  setAdminAccountStatusAction,
+} from "@/app/actions/settings-actions";
+import type { AdminAccount } from "@/types/admin-account";
+
+const newAdminSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  email: z.string().email({ message: "Please enter a valid email address." }),
+  password: z.string().min(8, { message: "Password must be at least 8 characters." }),
+});
+
+type NewAdminValues = z.infer<typeof newAdminSchema>;
+
+export function AdminAccountsCard() {
+  const { toast } = useToast();
+  const [accounts, setAccounts] = useState<AdminAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const form = useForm<NewAdminValues>({
+    resolver: zodResolver(newAdminSchema),
+    defaultValues: { name: "", email: "", password: "" },
+  });
+
+  const loadAccounts = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getAdminAccountsAction();
+    if (result.success && result.accounts) {
+      setAccounts(result.accounts);
+    } else {
+      toast({
+        title: "Failed to load administrators",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  async function onCreate(values: NewAdminValues) {
+    setIsCreating(true);
+    const result = await createAdminAccountAction(values);
+    toast({
+      title: result.success ? "Administrator Added" : "Could not add administrator",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      form.reset();
+      await loadAccounts();
+    }
+    setIsCreating(false);
+  }
+
+  async function toggleStatus(account: AdminAccount) {
+    setUpdatingId(account.id);
+    const nextStatus = account.status === "active" ? "disabled" : "active";
+    const result = await setAdminAccountStatusAction(account.id, nextStatus);
+    toast({
+      title: result.success ? "Administrator Updated" : "Update Failed",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      await loadAccounts();
+    }
+    setUpdatingId(null);
+  }
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+      <CardHeader className="border-b border-gray-100 bg-gray-50">
+        <CardTitle className="flex items-center admin-heading-3">
+          <Users className="mr-3 h-6 w-6 text-indigo-600" />
+          Administrators
+        </CardTitle>
+        <CardDescription className="admin-body-small">
+          Every program manager gets their own login so actions can be attributed to a person.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accounts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-gray-500">
+                    No admin accounts yet. The legacy admin is migrated on its next login.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                accounts.map((account) => (
+                  <TableRow key={account.id}>
+                    <TableCell className="font-medium">{account.name}</TableCell>
+                    <TableCell>{account.email}</TableCell>
+                    <TableCell>
+                      <Badge variant={account.status === "active" ? "success" : "error"}>
+                        {account.status === "active" ? "Active" : "Disabled"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-gray-500">
+                      {account.lastLoginAt ? new Date(account.lastLoginAt).toLocaleString() : "Never"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={updatingId === account.id}
+                        onClick={() => toggleStatus(account)}
+                      >
+                        {updatingId === account.id ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : account.status === "active" ? (
+                          <Ban className="mr-2 h-4 w-4" />
+                        ) : (
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                        )}
+                        {account.status === "active" ? "Disable" : "Enable"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="border-t border-gray-100 pt-6">
+          <h3 className="admin-heading-5 mb-4 flex items-center">
+            <UserPlus className="mr-2 h-5 w-5 text-indigo-600" />
+            Add Administrator
+          </h3>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onCreate)} className="grid gap-4 md:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-700">Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Program Manager" {...field} disabled={isCreating} />
+                    </FormControl>
+                    <FormMessage className="text-red-500" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-700">Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="manager@rcoem.edu" {...field} disabled={isCreating} />
+                    </FormControl>
+                    <FormMessage className="text-red-500" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-700">Initial Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="••••••••" {...field} disabled={isCreating} />
+                    </FormControl>
+                    <FormMessage className="text-red-500" />
+                  </FormItem>
+                )}
+              />
+              <div className="md:col-span-3 flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={isCreating}
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg shadow-sm px-6 py-2 font-medium transition-all"
+                >
+                  {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                  Add Administrator
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { getTwoFactorPolicyAction, setTwoFactorPolicyAction } from "@/app/actions/two-factor-actions";
+import type { TwoFactorPolicy } from "@/types/two-factor";
+
+export function TwoFactorPolicyCard() {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<TwoFactorPolicy | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getTwoFactorPolicyAction().then((result) => {
+      setPolicy(result);
+      setIsLoading(false);
+    });
+  }, []);
+
+  async function togglePolicy(requireForAdmins: boolean) {
+    setIsSaving(true);
+    const result = await setTwoFactorPolicyAction(requireForAdmins);
+    toast({
+      title: result.success ? "Security Policy Updated" : "Update Failed",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      setPolicy((current) => ({ ...current, requireForAdmins }));
+    }
+    setIsSaving(false);
+  }
+
+  // Hidden for sessions that cannot manage settings (e.g. while held at 2FA setup)
+  if (!isLoading && !policy) return null;
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+      <CardHeader className="border-b border-gray-100 bg-gray-50">
+        <CardTitle className="flex items-center admin-heading-3">
+          <ShieldAlert className="mr-3 h-6 w-6 text-indigo-600" />
+          Security Policy
+        </CardTitle>
+        <CardDescription className="admin-body-small">
+          Rules that apply to every administrator account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading…
+          </div>
+        ) : (
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="require-admin-2fa" className="text-gray-900 font-medium">
+                Require two-factor authentication for administrators
+              </Label>
+              <p className="text-sm text-gray-500">
+                Administrators without 2FA are sent to this page after signing in and cannot use the portal until they set it up.
+                Auditors and mentors are not affected.
+              </p>
+              {policy?.updatedBy && (
+                <p className="text-xs text-gray-400">
+                  Last changed by {policy.updatedBy}
+                  {policy.updatedAt ? ` on ${new Date(policy.updatedAt).toLocaleString()}` : ""}
+                </p>
+              )}
+            </div>
+            <Switch
+              id="require-admin-2fa"
+              checked={policy?.requireForAdmins ?? false}
+              onCheckedChange={togglePolicy}
+              disabled={isSaving}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
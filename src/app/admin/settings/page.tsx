@@ -18,7 +18,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import { 
   Loader2, 
@@ -33,12 +33,18 @@ import {
   Paintbrush,
   Cog,
   Info,
-  AlertCircle
+  AlertCircle,
+  Users
 } from "lucide-react";
 import { performUpdateAdminCredentials } from "@/app/actions/settings-actions";
+import { AdminAccountsCard } from "./components/AdminAccountsCard";
+import { TwoFactorPolicyCard } from "./components/TwoFactorPolicyCard";
+import { TwoFactorSettingsCard } from "@/components/auth/two-factor-settings-card";
+import { useAuth } from "@/contexts/AuthContext";
 
 const settingsFormSchema = z.object({
-  newEmail: z.string().email({ message: "Please enter a valid email address." }),
+  email: z.string().email({ message: "Please enter a valid email address." }),
+  currentPassword: z.string().min(1, { message: "Current password is required." }),
   newPassword: z.string().min(8, { message: "New password must be at least 8 characters." }),
   confirmPassword: z.string(),
 }).refine((data) => data.newPassword === data.confirmPassword, {
@@ -51,11 +57,20 @@ type SettingsFormValues = z.infer<typeof settingsFormSchema>;
 export default function AdminSettingsPage() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const { session, refreshSession } = useAuth();
+  const twoFactorSetupRequired = session?.twoFactorSetupRequired === true;
+  const [activeTab, setActiveTab] = useState("account");
+
+  // Admins held here by the 2FA policy land straight on the Security tab
+  useEffect(() => {
+    if (twoFactorSetupRequired) setActiveTab("security");
+  }, [twoFactorSetupRequired]);
 
   const form = useForm<SettingsFormValues>({
     resolver: zodResolver(settingsFormSchema),
     defaultValues: {
-      newEmail: "",
+      email: "",
+      currentPassword: "",
       newPassword: "",
       confirmPassword: "",
     },
@@ -64,10 +79,10 @@ export default function AdminSettingsPage() {
   async function onSubmit(values: SettingsFormValues) {
     setIsLoading(true);
     try {
-      const result = await performUpdateAdminCredentials(values.newEmail, values.newPassword);
+      const result = await performUpdateAdminCredentials(values.email, values.currentPassword, values.newPassword);
       if (result.success) {
         toast({
-          title: "Credentials Updated",
+          title: "Password Updated",
           description: result.message,
         });
         form.reset();
@@ -130,8 +145,17 @@ export default function AdminSettingsPage() {
           <p className="admin-caption">Manage your account settings and preferences</p>
         </motion.div>
 
-        <Tabs defaultValue="account" className="w-full">
-          <TabsList className="grid grid-cols-3 mb-8 bg-white border border-gray-200 p-1 rounded-xl shadow-sm">
+        {twoFactorSetupRequired && (
+          <motion.div variants={itemVariants} className="bg-amber-50 border-l-4 border-amber-400 p-4 mb-6 rounded-r-lg flex">
+            <ShieldAlert className="h-5 w-5 text-amber-600 mr-2 flex-shrink-0 mt-0.5" />
+            <p className="admin-body-small text-amber-800">
+              Two-factor authentication is required for administrator accounts. Set it up below to unlock the rest of the portal.
+            </p>
+          </motion.div>
+        )}
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid grid-cols-4 mb-8 bg-white border border-gray-200 p-1 rounded-xl shadow-sm">
             <TabsTrigger value="account" className="data-[state=active]:bg-indigo-50 data-[state=active]:text-indigo-700 rounded-lg transition-colors">
               <User className="h-4 w-4 mr-2" />
               Account
@@ -140,6 +164,10 @@ export default function AdminSettingsPage() {
               <Lock className="h-4 w-4 mr-2" />
               Security
             </TabsTrigger>
+            <TabsTrigger value="administrators" className="data-[state=active]:bg-indigo-50 data-[state=active]:text-indigo-700 rounded-lg transition-colors">
+              <Users className="h-4 w-4 mr-2" />
+              Administrators
+            </TabsTrigger>
             <TabsTrigger value="preferences" className="data-[state=active]:bg-indigo-50 data-[state=active]:text-indigo-700 rounded-lg transition-colors">
               <Cog className="h-4 w-4 mr-2" />
               Preferences
@@ -147,26 +175,34 @@ export default function AdminSettingsPage() {
           </TabsList>
           
           <TabsContent value="security" className="space-y-6">
+            <motion.div variants={itemVariants}>
+              <TwoFactorSettingsCard onEnabled={refreshSession} />
+            </motion.div>
+
+            <motion.div variants={itemVariants}>
+              <TwoFactorPolicyCard />
+            </motion.div>
+
             <motion.div variants={itemVariants}>
               <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
                 <CardHeader className="border-b border-gray-100 bg-gray-50">
                   <CardTitle className="flex items-center admin-heading-3">
                     <ShieldAlert className="mr-3 h-6 w-6 text-indigo-600" />
-                    Admin Credentials
+                    Change Password
                   </CardTitle>
                   <CardDescription className="admin-body-small">
-                    Update your administrator email and password.
+                    Update the password of your administrator account.
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="pt-6">
-                  <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-6 rounded-r-lg">
+                  <div className="bg-indigo-50 border-l-4 border-indigo-400 p-4 mb-6 rounded-r-lg">
                     <div className="flex">
-                      <AlertCircle className="h-5 w-5 text-yellow-500 mr-2 flex-shrink-0 mt-0.5" />
+                      <AlertCircle className="h-5 w-5 text-indigo-500 mr-2 flex-shrink-0 mt-0.5" />
                       <div>
-                        <p className="admin-body-small admin-font-semibold text-yellow-700">Security Notice</p>
-                        <p className="admin-caption text-yellow-700/80 mt-1">
-                          Passwords are currently stored in plaintext in Firestore for this demonstration. 
-                          This is highly insecure for production environments.
+                        <p className="admin-body-small admin-font-semibold text-indigo-700">Security Notice</p>
+                        <p className="admin-caption text-indigo-700/80 mt-1">
+                          Admin passwords are stored as salted hashes. Each administrator signs in with their own account,
+                          which can be added or disabled from the Administrators tab.
                         </p>
                       </div>
                     </div>
@@ -176,10 +212,10 @@ export default function AdminSettingsPage() {
                     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
                       <FormField
                         control={form.control}
-                        name="newEmail"
+                        name="email"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel className="text-gray-700">New Admin Email</FormLabel>
+                            <FormLabel className="text-gray-700">Admin Email</FormLabel>
                             <FormControl>
                               <div className="relative">
                                 <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
@@ -197,6 +233,29 @@ export default function AdminSettingsPage() {
                           </FormItem>
                         )}
                       />
+                      <FormField
+                        control={form.control}
+                        name="currentPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-gray-700">Current Password</FormLabel>
+                            <FormControl>
+                              <div className="relative">
+                                <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                                <Input 
+                                  type="password" 
+                                  placeholder="••••••••" 
+                                  {...field} 
+                                  disabled={isLoading}
+                                  className="bg-gray-50 border border-gray-200 pl-10 focus:border-indigo-500 focus:ring-indigo-100 rounded-lg transition-all"
+                                  suppressHydrationWarning
+                                />
+                              </div>
+                            </FormControl>
+                            <FormMessage className="text-red-500" />
+                          </FormItem>
+                        )}
+                      />
                       <FormField
                         control={form.control}
                         name="newPassword"
@@ -251,7 +310,7 @@ export default function AdminSettingsPage() {
                           suppressHydrationWarning
                         >
                           {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
-                          Update Credentials
+                          Update Password
                         </Button>
                       </CardFooter>
                     </form>
@@ -262,10 +321,16 @@ export default function AdminSettingsPage() {
             
             <motion.p variants={itemVariants} className="text-sm text-gray-500 flex items-center">
               <Info className="h-4 w-4 mr-2 text-gray-400" />
-              Remember to use strong, unique passwords. After updating, you will need to use the new credentials to log in.
+              Remember to use strong, unique passwords. After updating, you will need to use the new password to log in.
             </motion.p>
           </TabsContent>
           
+          <TabsContent value="administrators" className="space-y-6">
+            <motion.div variants={itemVariants}>
+              <AdminAccountsCard />
+            </motion.div>
+          </TabsContent>
+
           <TabsContent value="account" className="space-y-6">
             <motion.div variants={itemVariants}>
               <Card className="bg-white border border-gray-200 shadow-lg rounded-xl">
@@ -0,0 +1,286 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { Loader2, GitMerge, ShieldCheck } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  CUSTOM_ANSWER_FIELD_PREFIX,
+  DUPLICATE_REASON_LABELS,
+  MERGEABLE_SUBMISSION_FIELDS,
+} from '@/lib/duplicate-detection';
+import { dismissDuplicateFlagAction, mergeSubmissionsAction } from '@/app/actions/submission-duplicate-actions';
+import { APPLICATION_SOURCE_LABELS, applicationSourceOf } from '@/lib/applications';
+import type { Submission, SubmissionDuplicateMatch } from '@/types/Submission';
+
+interface DuplicateReviewDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  flagged: Submission | null;
+  matches: { submission: Submission; match: SubmissionDuplicateMatch }[];
+  onResolved: () => void;
+}
+
+type Side = 'flagged' | 'match';
+
+const formatDate = (date: Date | string | Timestamp | undefined) => {
+  if (!date) return 'N/A';
+  try {
+    const d = date instanceof Timestamp ? date.toDate() : new Date(date);
+    return format(d, 'PPp');
+  } catch {
+    return 'Invalid Date';
+  }
+};
+
+const formatFieldKey = (key: string) =>
+  key
+    .replace(CUSTOM_ANSWER_FIELD_PREFIX, '')
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/^./, (char) => char.toUpperCase());
+
+function readValue(submission: Submission, field: string): string {
+  const value = field.startsWith(CUSTOM_ANSWER_FIELD_PREFIX)
+    ? submission.customAnswers?.[field.slice(CUSTOM_ANSWER_FIELD_PREFIX.length)]
+    : (submission as unknown as Record<string, unknown>)[field];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+// Decided submissions have accounts attached, and evaluated ones have scores recorded under their ID
+function canBeMergedAway(submission: Submission): boolean {
+  return (
+    (submission.status ?? 'pending') === 'pending' &&
+    !submission.firebaseUid &&
+    !submission.evaluation &&
+    (submission.evaluationRoundIds ?? []).length === 0
+  );
+}
+
+export default function DuplicateReviewDialog({ isOpen, onClose, flagged, matches, onResolved }: DuplicateReviewDialogProps) {
+  const { toast } = useToast();
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [keep, setKeep] = useState<Side>('match');
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [pendingAction, setPendingAction] = useState<'merge' | 'dismiss' | null>(null);
+
+  const other = matches[matchIndex];
+
+  // Fields where at least one side has an answer
+  const fields = useMemo(() => {
+    if (!flagged || !other) return [];
+    const customKeys = Array.from(
+      new Set([...Object.keys(flagged.customAnswers ?? {}), ...Object.keys(other.submission.customAnswers ?? {})])
+    ).map((key) => `${CUSTOM_ANSWER_FIELD_PREFIX}${key}`);
+    return [...MERGEABLE_SUBMISSION_FIELDS, ...customKeys].filter(
+      (field) => readValue(flagged, field) || readValue(other.submission, field)
+    );
+  }, [flagged, other]);
+
+  // Keep the earlier submission by default, unless it can no longer be removed anyway
+  useEffect(() => {
+    if (!flagged || !other) return;
+    setKeep(canBeMergedAway(flagged) ? 'match' : 'flagged');
+  }, [flagged, other]);
+
+  // Prefer the kept submission's answers, filling its blanks from the other one
+  useEffect(() => {
+    if (!flagged || !other) return;
+    const kept = keep === 'flagged' ? flagged : other.submission;
+    const removedSide: Side = keep === 'flagged' ? 'match' : 'flagged';
+    setChoices(Object.fromEntries(fields.map((field) => [field, readValue(kept, field) ? keep : removedSide])));
+  }, [fields, flagged, other, keep]);
+
+  useEffect(() => {
+    if (isOpen) setMatchIndex(0);
+  }, [isOpen, flagged]);
+
+  if (!flagged) return null;
+
+  const kept = keep === 'flagged' ? flagged : other?.submission;
+  const removed = keep === 'flagged' ? other?.submission : flagged;
+  const mergeBlocked = !!removed && !canBeMergedAway(removed);
+
+  const handleMerge = async () => {
+    if (!kept || !removed) return;
+    setPendingAction('merge');
+    try {
+      const removedSide: Side = keep === 'flagged' ? 'match' : 'flagged';
+      const result = await mergeSubmissionsAction({
+        primaryId: kept.id,
+        duplicateId: removed.id,
+        fields: fields.filter((field) => choices[field] === removedSide),
+      });
+      if (result.success) {
+        toast({ title: 'Submissions Merged', description: result.message });
+        onResolved();
+        onClose();
+      } else {
+        toast({ title: 'Merge Failed', description: result.message, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Error merging submissions:', error);
+      toast({ title: 'Merge Failed', description: 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleDismiss = async () => {
+    setPendingAction('dismiss');
+    try {
+      const result = await dismissDuplicateFlagAction(flagged.id);
+      if (result.success) {
+        toast({ title: 'Flag Cleared', description: result.message });
+        onResolved();
+        onClose();
+      } else {
+        toast({ title: 'Update Failed', description: result.message, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Error dismissing duplicate flag:', error);
+      toast({ title: 'Update Failed', description: 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const columnHeader = (side: Side, submission: Submission) => (
+    <button
+      type="button"
+      onClick={() => setKeep(side)}
+      className={cn(
+        'w-full text-left rounded-lg border p-3 transition',
+        keep === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-gray-900 truncate">
+          {submission.companyName || submission.name || 'Unknown'}
+        </span>
+        <Badge className="bg-gray-100 text-gray-700 border-gray-200 capitalize">{submission.status || 'pending'}</Badge>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {APPLICATION_SOURCE_LABELS[applicationSourceOf(submission)]} · {formatDate(submission.submittedAt)}
+      </p>
+      <p className="text-xs font-medium mt-2 text-blue-700">{keep === side ? 'Keeping this submission' : 'Keep this one instead'}</p>
+    </button>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl bg-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-gray-900">
+            <GitMerge className="h-5 w-5 text-amber-600" />
+            Possible Duplicate
+          </DialogTitle>
+          <DialogDescription>
+            Choose the submission to keep and which answers it should end up with. The other submission is deleted after the merge; its attachments move to the one you keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {matches.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {matches.map((candidate, index) => (
+              <Button
+                key={candidate.submission.id}
+                size="sm"
+                variant={index === matchIndex ? 'default' : 'outline'}
+                onClick={() => setMatchIndex(index)}
+              >
+                {candidate.submission.companyName || candidate.submission.name || `Match ${index + 1}`}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {other ? (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {other.match.reasons.map((reason) => (
+                <Badge key={reason} className="bg-amber-50 text-amber-700 border-amber-200">
+                  {DUPLICATE_REASON_LABELS[reason]}
+                </Badge>
+              ))}
+              <Badge className="bg-gray-50 text-gray-600 border-gray-200">Match {Math.round(other.match.score * 100)}%</Badge>
+            </div>
+
+            <div className="grid grid-cols-[10rem_1fr_1fr] gap-3 items-stretch">
+              <div />
+              {columnHeader('flagged', flagged)}
+              {columnHeader('match', other.submission)}
+            </div>
+
+            <ScrollArea className="max-h-[45vh] pr-3">
+              <div className="space-y-1">
+                {fields.map((field) => {
+                  const values: Record<Side, string> = {
+                    flagged: readValue(flagged, field),
+                    match: readValue(other.submission, field),
+                  };
+                  const same = values.flagged === values.match;
+                  return (
+                    <div key={field} className="grid grid-cols-[10rem_1fr_1fr] gap-3 text-sm">
+                      <div className="py-2 font-medium text-gray-600">{formatFieldKey(field)}</div>
+                      {(['flagged', 'match'] as Side[]).map((side) => (
+                        <button
+                          key={side}
+                          type="button"
+                          disabled={same || !values[side]}
+                          onClick={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+                          className={cn(
+                            'rounded-md border px-3 py-2 text-left whitespace-pre-wrap break-words transition',
+                            same
+                              ? 'border-gray-100 bg-gray-50 text-gray-500'
+                              : choices[field] === side
+                                ? 'border-blue-400 bg-blue-50 text-gray-900'
+                                : 'border-gray-200 bg-white text-gray-500 hover:bg-gray-50'
+                          )}
+                        >
+                          {values[side] || <span className="italic text-gray-400">Empty</span>}
+                        </button>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            {mergeBlocked && (
+              <p className="text-sm text-rose-600">
+                The submission that would be removed has already been decided or put into an evaluation round. Keep it
+                instead, or mark this as not a duplicate.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">
+            The matching submissions were merged or deleted. Clear the flag to hide this notice.
+          </p>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={handleDismiss} disabled={pendingAction !== null}>
+            {pendingAction === 'dismiss' ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+            Not a Duplicate
+          </Button>
+          <Button
+            onClick={handleMerge}
+            disabled={!other || mergeBlocked || pendingAction !== null}
+            className="bg-amber-600 hover:bg-amber-700 text-white"
+          >
+            {pendingAction === 'merge' ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <GitMerge className="h-4 w-4 mr-2" />}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
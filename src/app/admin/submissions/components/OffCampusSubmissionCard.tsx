@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Submission, CampusStatus } from "@/types/Submission";
 import { SubmissionActions } from "@/app/admin/dashboard/components/SubmissionActions";
+import { Checkbox } from "@/components/ui/checkbox";
 import { format } from 'date-fns';
 import { Timestamp } from 'firebase/firestore';
 import { 
@@ -39,15 +40,19 @@ import {
   Award,
   BookOpen,
   Zap,
-  Heart
+  Heart,
+  GitMerge
 } from "lucide-react";
 import { useState } from "react";
 
 interface OffCampusSubmissionCardProps {
   submission: Submission;
   processingAction: { id: string; type: 'accept' | 'reject' } | null;
-  onProcessAction: (id: string, action: 'accept' | 'reject', name: string, email: string, campusStatus: Submission['campusStatus']) => void;
+  onProcessAction: (id: string, action: 'accept' | 'reject', name: string, email: string) => void;
   onViewDetails: (submission: Submission) => void;
+  onReviewDuplicate?: (submission: Submission) => void; // Set when the submission is flagged as a possible duplicate
+  selected?: boolean; // Picked for a bulk decision
+  onSelectedChange?: (selected: boolean) => void;
 }
 
 const formatDate = (date: Date | string | Timestamp | undefined) => {
@@ -67,6 +72,9 @@ export function OffCampusSubmissionCard({
   processingAction,
   onProcessAction,
   onViewDetails,
+  onReviewDuplicate,
+  selected = false,
+  onSelectedChange,
 }: OffCampusSubmissionCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -100,7 +108,7 @@ export function OffCampusSubmissionCard({
     submission.problemSolving ? `Problem: ${submission.problemSolving}` : '',
     submission.uniqueness ? `Unique Value: ${submission.uniqueness}` : '',
     submission.targetAudience ? `Target: ${submission.targetAudience}` : '',
-  ].filter(part => part && part.trim()).join('\n\n') || submission.idea || 'No details provided.';
+  ].filter(part => part && part.trim()).join('\n\n') || 'No details provided.';
 
   return (
     <div className="w-full h-full" style={{ width: 'calc(100% + 25px)', marginRight: '-25px' }}>
@@ -108,6 +116,13 @@ export function OffCampusSubmissionCard({
         <CardHeader className="pb-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
+              {onSelectedChange && submission.status === 'pending' && (
+                <Checkbox
+                  checked={selected}
+                  onCheckedChange={(checked) => onSelectedChange(checked === true)}
+                  aria-label={`Select ${submission.companyName || submission.name}`}
+                />
+              )}
               <div className="w-12 h-12 bg-purple-50 rounded-full flex items-center justify-center border border-purple-100">
                 <Building className="h-5 w-5 text-purple-700" />
               </div>
@@ -139,6 +154,22 @@ export function OffCampusSubmissionCard({
           </div>
         </CardHeader>
         <CardContent className="flex-grow space-y-4">
+          {onReviewDuplicate && (
+            <button
+              type="button"
+              onClick={() => onReviewDuplicate(submission)}
+              className="w-full flex items-center gap-3 p-3 rounded-lg bg-amber-50 border border-amber-200 text-left hover:bg-amber-100 transition"
+            >
+              <div className="p-2 bg-amber-100 rounded-md">
+                <GitMerge className="h-4 w-4 text-amber-700" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-xs font-medium text-amber-700 uppercase tracking-wide">Possible Duplicate</div>
+                <div className="text-sm font-semibold text-gray-800">Review and merge</div>
+              </div>
+              <ArrowRight className="h-4 w-4 text-amber-700" />
+            </button>
+          )}
           <div className="space-y-3">
             <div className="flex items-center gap-3 p-3 rounded-lg bg-purple-50 border border-purple-100">
               <div className="p-2 bg-purple-100 rounded-md">
@@ -164,7 +195,7 @@ export function OffCampusSubmissionCard({
                 </div>
               </div>
             )}
-            {(submission.domain || submission.businessCategory) && (
+            {(submission.domain) && (
               <div className="flex items-center gap-3 p-3 rounded-lg bg-blue-50 border border-blue-100">
                 <div className="p-2 bg-blue-100 rounded-md">
                   <Briefcase className="h-4 w-4 text-blue-600" />
@@ -172,7 +203,7 @@ export function OffCampusSubmissionCard({
                 <div className="flex-1 min-w-0">
                   <div className="text-xs font-medium text-blue-600 uppercase tracking-wide">Domain</div>
                   <Badge className="bg-blue-50 text-blue-700 border-blue-200 text-xs font-bold">
-                    {submission.domain || submission.businessCategory}
+                    {submission.domain}
                   </Badge>
                 </div>
               </div>
@@ -231,7 +262,7 @@ export function OffCampusSubmissionCard({
               </div>
             )}
           </div>
-          {submission.idea && (
+          {submission.startupIdea && (
             <div className="space-y-3">
               <div className="flex items-center gap-3 p-3 rounded-lg bg-purple-50 border border-purple-100">
                 <div className="p-2 bg-purple-100 rounded-md">
@@ -333,15 +364,13 @@ export function OffCampusSubmissionCard({
                 submission.id, 
                 'accept', 
                 submission.name || submission.companyName || 'Unknown', 
-                submission.companyEmail || submission.email || 'unknown@example.com',
-                submission.campusStatus
+                submission.companyEmail || submission.email || 'unknown@example.com'
               )}
               onReject={() => onProcessAction(
                 submission.id, 
                 'reject', 
                 submission.name || submission.companyName || 'Unknown', 
-                submission.companyEmail || submission.email || 'unknown@example.com',
-                submission.campusStatus
+                submission.companyEmail || submission.email || 'unknown@example.com'
               )}
             />
           </div>
@@ -13,7 +13,7 @@ import { useState } from "react";
 interface OnCampusSubmissionCardProps {
   submission: Submission;
   processingAction: { id: string; type: 'accept' | 'reject' } | null;
-  onProcessAction: (id: string, action: 'accept' | 'reject', name: string, email: string, campusStatus: Submission['campusStatus']) => void;
+  onProcessAction: (id: string, action: 'accept' | 'reject', name: string, email: string) => void;
   onViewDetails: (submission: Submission) => void;
 }
 
@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download, ExternalLink, Eye, FileText, Loader2, Paperclip, Video } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { ATTACHMENT_KINDS } from '@/lib/attachment-validation';
+import { getApplicationAttachmentUrlAction } from '@/app/actions/application-attachment-actions';
+import type { Submission } from '@/types/Submission';
+import type { ApplicationAttachment } from '@/types/application-attachment';
+
+interface SubmissionAttachmentsPanelProps {
+  submission: Submission;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Older submissions stored a single file inline; it may or may not carry the data URL prefix
+const legacyAttachmentHref = (base64: string) =>
+  base64.startsWith('data:') ? base64 : `data:application/octet-stream;base64,${base64}`;
+
+export default function SubmissionAttachmentsPanel({ submission }: SubmissionAttachmentsPanelProps) {
+  const { toast } = useToast();
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const attachments = submission.attachments ?? [];
+
+  // Links are fetched per submission; drop the previous submission's preview
+  useEffect(() => {
+    setUrls({});
+    setPreviewId(null);
+  }, [submission.id]);
+
+  const loadUrl = async (attachment: ApplicationAttachment): Promise<string | null> => {
+    if (urls[attachment.id]) return urls[attachment.id];
+    setLoadingId(attachment.id);
+    try {
+      const result = await getApplicationAttachmentUrlAction(submission.id, attachment.id);
+      if (!result.success || !result.url) {
+        toast({ title: 'Error', description: result.message, variant: 'destructive' });
+        return null;
+      }
+      setUrls((current) => ({ ...current, [attachment.id]: result.url! }));
+      return result.url;
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const handlePreview = async (attachment: ApplicationAttachment) => {
+    if (previewId === attachment.id) {
+      setPreviewId(null);
+      return;
+    }
+    if (await loadUrl(attachment)) setPreviewId(attachment.id);
+  };
+
+  const handleOpen = async (attachment: ApplicationAttachment) => {
+    const url = await loadUrl(attachment);
+    if (url) window.open(url, '_blank', 'noopener,noreferrer');
+  };
+
+  if (attachments.length === 0 && !submission.videoUrl && !submission.attachmentBase64) return null;
+
+  return (
+    <div className="space-y-3">
+      <strong className="flex items-center gap-2 text-gray-700">
+        <Paperclip className="h-4 w-4 text-gray-400" />
+        Attachments:
+      </strong>
+      <div className="ml-6 space-y-2">
+        {attachments.map((attachment) => {
+          const isPdf = attachment.contentType === 'application/pdf';
+          return (
+            <div key={attachment.id} className="rounded border border-gray-200 bg-gray-50">
+              <div className="flex items-center justify-between gap-2 p-2">
+                <div className="flex min-w-0 items-center gap-2 text-gray-700">
+                  <FileText className="h-4 w-4 shrink-0 text-gray-400" />
+                  <div className="min-w-0">
+                    <div className="font-medium">{ATTACHMENT_KINDS[attachment.kind]?.label ?? 'Attachment'}</div>
+                    <div className="truncate text-xs text-gray-500">
+                      {attachment.fileName} · {formatSize(attachment.size)}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  {loadingId === attachment.id && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+                  {isPdf && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handlePreview(attachment)}
+                      disabled={loadingId !== null}
+                    >
+                      <Eye className="mr-1 h-3 w-3" />
+                      {previewId === attachment.id ? 'Hide' : 'Preview'}
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => handleOpen(attachment)} disabled={loadingId !== null}>
+                    {isPdf ? <ExternalLink className="mr-1 h-3 w-3" /> : <Download className="mr-1 h-3 w-3" />}
+                    {isPdf ? 'Open' : 'Download'}
+                  </Button>
+                </div>
+              </div>
+              {previewId === attachment.id && urls[attachment.id] && (
+                <iframe
+                  src={urls[attachment.id]}
+                  title={attachment.fileName}
+                  className="h-[480px] w-full rounded-b border-t border-gray-200 bg-white"
+                />
+              )}
+            </div>
+          );
+        })}
+        {submission.videoUrl && (
+          <div className="flex items-center gap-2 text-gray-700">
+            <Video className="h-4 w-4 text-gray-400" />
+            <strong>Pitch Video:</strong>
+            <a href={submission.videoUrl} target="_blank" rel="noopener noreferrer" className="truncate text-blue-600 hover:underline">
+              {submission.videoUrl}
+            </a>
+          </div>
+        )}
+        {submission.attachmentBase64 && (
+          <div className="flex items-center gap-2 text-gray-700">
+            <Download className="h-4 w-4 text-gray-400" />
+            <a
+              href={legacyAttachmentHref(submission.attachmentBase64)}
+              download={submission.attachmentName || 'attachment'}
+              className="text-blue-600 hover:underline"
+            >
+              {submission.attachmentName || 'Download attachment'}
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
 import { Timestamp } from 'firebase/firestore';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import SubmissionAttachmentsPanel from './SubmissionAttachmentsPanel';
 import { 
   Eye, 
   User, 
@@ -112,10 +113,10 @@ export default function SubmissionDetailModal({ isOpen, onClose, submission }: S
               <strong>Phone:</strong> {submission.phone}
             </div>
           )}
-          {submission.linkedin && (
+          {submission.linkedinUrl && (
             <div className="flex items-center gap-2 text-gray-700">
               <ExternalLink className="h-4 w-4 text-gray-400" />
-              <strong>LinkedIn:</strong> <a href={submission.linkedin} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{submission.linkedin}</a>
+              <strong>LinkedIn:</strong> <a href={submission.linkedinUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{submission.linkedinUrl}</a>
             </div>
           )}
           {submission.course && (
@@ -136,10 +137,10 @@ export default function SubmissionDetailModal({ isOpen, onClose, submission }: S
               <strong>Campus:</strong> <Badge variant="secondary">{submission.campus}</Badge>
             </div>
           )}
-          {submission.startupName && (
+          {submission.companyName && (
             <div className="flex items-center gap-2 text-gray-700">
               <Info className="h-4 w-4 text-gray-400" />
-              <strong>Startup Name:</strong> {submission.startupName}
+              <strong>Startup Name:</strong> {submission.companyName}
             </div>
           )}
           {submission.startupIdea && (
@@ -154,6 +155,7 @@ export default function SubmissionDetailModal({ isOpen, onClose, submission }: S
               <p className="ml-6 text-gray-700 whitespace-pre-wrap bg-gray-50 rounded p-2 mt-1">{submission.message}</p>
             </div>
           )}
+          <SubmissionAttachmentsPanel submission={submission} />
           {submission.status && (
             <div className="flex items-center gap-2 text-gray-700">
               <ClipboardList className="h-4 w-4 text-gray-400" />
@@ -0,0 +1,487 @@
+// src/app/admin/submissions/import/page.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Columns3, Eye, Loader2, Plus, RotateCcw, Save, Sheet, Trash2, UploadCloud } from "lucide-react";
+import {
+  deleteSheetImportSourceAction,
+  listSheetImportSourcesAction,
+  loadSheetHeadersAction,
+  resetSheetImportCursorAction,
+  runSheetImportAction,
+  saveSheetImportSourceAction,
+} from "@/app/actions/sheet-import-actions";
+import {
+  LEGACY_SHEET_NAME,
+  LEGACY_SPREADSHEET_ID,
+  SHEET_IMPORT_FIELDS,
+  sheetImportSourceSchema,
+} from "@/lib/validation/sheet-import-schema";
+import type {
+  SheetImportField,
+  SheetImportResult,
+  SheetImportRowResult,
+  SheetImportSource,
+  SheetImportSourceInput,
+} from "@/types/sheet-import";
+
+// Radix Select items cannot have an empty value
+const NOT_MAPPED = "__not_mapped__";
+
+const NEW_SOURCE: SheetImportSourceInput = {
+  name: "Off-campus application form",
+  spreadsheetId: LEGACY_SPREADSHEET_ID,
+  sheetName: LEGACY_SHEET_NAME,
+  columnMapping: {},
+};
+
+const ROW_ACTION_BADGES: Record<SheetImportRowResult["action"], { label: string; variant: "success" | "secondary" | "error" }> = {
+  create: { label: "Create", variant: "success" },
+  skip: { label: "Skip", variant: "secondary" },
+  error: { label: "Error", variant: "error" },
+};
+
+function toInput(source: SheetImportSource): SheetImportSourceInput {
+  return {
+    name: source.name,
+    spreadsheetId: source.spreadsheetId,
+    sheetName: source.sheetName,
+    columnMapping: source.columnMapping,
+  };
+}
+
+export default function SheetImportPage() {
+  const { toast } = useToast();
+  const [sources, setSources] = useState<SheetImportSource[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SheetImportSourceInput>(NEW_SOURCE);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [result, setResult] = useState<SheetImportResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<"headers" | "save" | "preview" | "import" | "reset" | "delete" | null>(null);
+
+  const selected = sources.find((source) => source.id === selectedId) ?? null;
+  const isDirty = !selected || JSON.stringify(toInput(selected)) !== JSON.stringify(draft);
+
+  const selectSource = useCallback((source: SheetImportSource | null) => {
+    setSelectedId(source?.id ?? null);
+    setDraft(source ? toInput(source) : NEW_SOURCE);
+    setHeaders([]);
+    setResult(null);
+  }, []);
+
+  const loadSources = useCallback(async (selectId?: string) => {
+    const response = await listSheetImportSourcesAction();
+    if (!response.success || !response.sources) {
+      toast({ title: "Error", description: response.message || "Failed to load import sources.", variant: "destructive" });
+      return;
+    }
+    setSources(response.sources);
+    const next = response.sources.find((source) => source.id === selectId) ?? response.sources[0] ?? null;
+    selectSource(next);
+  }, [selectSource, toast]);
+
+  useEffect(() => {
+    loadSources().finally(() => setIsLoading(false));
+  }, [loadSources]);
+
+  async function handleLoadHeaders() {
+    setPendingAction("headers");
+    const response = await loadSheetHeadersAction(draft.spreadsheetId, draft.sheetName);
+    setPendingAction(null);
+    if (!response.success || !response.headers) {
+      toast({ title: "Could Not Read Sheet", description: response.message, variant: "destructive" });
+      return;
+    }
+    setHeaders(response.headers);
+    // Only fill in a mapping for a source that has none; an existing one is the admin's choice
+    if (Object.keys(draft.columnMapping).length === 0 && response.suggestedMapping) {
+      setDraft((prev) => ({ ...prev, columnMapping: response.suggestedMapping ?? {} }));
+      toast({ title: "Columns Loaded", description: "Review the suggested mapping before saving." });
+    }
+  }
+
+  function setMapping(field: SheetImportField, header: string) {
+    setDraft((prev) => {
+      const columnMapping = { ...prev.columnMapping };
+      if (header === NOT_MAPPED) {
+        delete columnMapping[field];
+      } else {
+        columnMapping[field] = header;
+      }
+      return { ...prev, columnMapping };
+    });
+  }
+
+  async function handleSave() {
+    const parsed = sheetImportSourceSchema.safeParse(draft);
+    if (!parsed.success) {
+      toast({ title: "Cannot Save", description: parsed.error.errors[0]?.message, variant: "destructive" });
+      return;
+    }
+    setPendingAction("save");
+    const response = await saveSheetImportSourceAction(parsed.data, selected?.id);
+    setPendingAction(null);
+    if (response.success && response.source) {
+      toast({ title: "Saved", description: response.message });
+      await loadSources(response.source.id);
+    } else {
+      toast({ title: "Save Failed", description: response.message, variant: "destructive" });
+    }
+  }
+
+  async function handleRun(dryRun: boolean) {
+    if (!selected) return;
+    setPendingAction(dryRun ? "preview" : "import");
+    const response = await runSheetImportAction(selected.id, { dryRun });
+    setPendingAction(null);
+    if (!response.success || !response.result) {
+      toast({ title: dryRun ? "Preview Failed" : "Import Failed", description: response.message, variant: "destructive" });
+      return;
+    }
+    setResult(response.result);
+    toast({ title: dryRun ? "Preview Ready" : "Import Complete", description: response.message });
+    if (!dryRun) {
+      await loadSources(selected.id);
+      setResult(response.result);
+    }
+  }
+
+  async function handleReset() {
+    if (!selected) return;
+    setPendingAction("reset");
+    const response = await resetSheetImportCursorAction(selected.id);
+    setPendingAction(null);
+    toast({ title: response.success ? "Cursor Reset" : "Reset Failed", description: response.message, variant: response.success ? "default" : "destructive" });
+    if (response.success) await loadSources(selected.id);
+  }
+
+  async function handleDelete() {
+    if (!selected) return;
+    setPendingAction("delete");
+    const response = await deleteSheetImportSourceAction(selected.id);
+    setPendingAction(null);
+    toast({ title: response.success ? "Source Deleted" : "Delete Failed", description: response.message, variant: response.success ? "default" : "destructive" });
+    if (response.success) await loadSources();
+  }
+
+  // Headers to offer: the loaded header row, plus whatever the saved mapping already refers to
+  const headerOptions = Array.from(new Set([...headers, ...Object.values(draft.columnMapping).filter(Boolean) as string[]]));
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 p-6">
+      <div className="max-w-6xl mx-auto space-y-8">
+        <div>
+          <Link href="/admin/submissions?tab=off-campus" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-800 mb-3">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to submissions
+          </Link>
+          <h1 className="admin-heading-2 mb-2 flex items-center">
+            <Sheet className="mr-3 h-7 w-7 text-purple-600" />
+            Off-Campus Sheet Import
+          </h1>
+          <p className="admin-caption">
+            Import applications collected in Google Sheets. Each source remembers how far it has been imported, so a
+            run only adds rows that are new since the last one. Preview a run first to see what it will do.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6 items-start">
+            <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+              <CardHeader className="border-b border-gray-100 bg-gray-50">
+                <CardTitle className="admin-heading-3">Sources</CardTitle>
+              </CardHeader>
+              <CardContent className="p-2">
+                {sources.map((source) => (
+                  <button
+                    key={source.id}
+                    type="button"
+                    onClick={() => selectSource(source)}
+                    className={`w-full text-left rounded-lg px-3 py-2 mb-1 transition-colors ${
+                      source.id === selectedId ? "bg-purple-50 ring-1 ring-purple-200" : "hover:bg-gray-50"
+                    }`}
+                  >
+                    <span className="font-medium block truncate">{source.name}</span>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {source.lastRunAt ? `Last run ${format(new Date(source.lastRunAt), "PP")}` : "Never run"}
+                    </p>
+                  </button>
+                ))}
+                <Button variant="ghost" className="w-full justify-start" onClick={() => selectSource(null)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New source
+                </Button>
+              </CardContent>
+            </Card>
+
+            <div className="space-y-6">
+              <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+                <CardHeader className="border-b border-gray-100 bg-gray-50">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <CardTitle className="admin-heading-3">{selected ? selected.name : "New source"}</CardTitle>
+                      <CardDescription className="admin-body-small">
+                        Columns are matched by their header in the first row, so reordering the sheet does not break the import.
+                      </CardDescription>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {selected && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" disabled={pendingAction !== null}>
+                              {pendingAction === "delete" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                              Delete
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete this source?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Its settings and cursor are removed. Submissions it already imported are kept.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                      <Button onClick={handleSave} disabled={pendingAction !== null || !isDirty}>
+                        {pendingAction === "save" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-6 space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="source-name">Name</Label>
+                      <Input
+                        id="source-name"
+                        value={draft.name}
+                        onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="source-spreadsheet">Spreadsheet ID</Label>
+                      <Input
+                        id="source-spreadsheet"
+                        value={draft.spreadsheetId}
+                        onChange={(event) => setDraft((prev) => ({ ...prev, spreadsheetId: event.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="source-tab">Tab</Label>
+                      <Input
+                        id="source-tab"
+                        value={draft.sheetName}
+                        onChange={(event) => setDraft((prev) => ({ ...prev, sheetName: event.target.value }))}
+                      />
+                    </div>
+                  </div>
+                  {selected && (draft.spreadsheetId !== selected.spreadsheetId || draft.sheetName !== selected.sheetName) && (
+                    <p className="text-sm text-amber-700">
+                      Saving a different spreadsheet or tab starts this source&apos;s cursor over.
+                    </p>
+                  )}
+
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <h3 className="font-semibold text-gray-900">Column mapping</h3>
+                      <Button variant="outline" size="sm" onClick={handleLoadHeaders} disabled={pendingAction !== null}>
+                        {pendingAction === "headers" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Columns3 className="mr-2 h-4 w-4" />}
+                        Load columns
+                      </Button>
+                    </div>
+                    {headerOptions.length === 0 ? (
+                      <p className="text-sm text-gray-500">Load the columns of the tab to map them to application fields.</p>
+                    ) : (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+                        {SHEET_IMPORT_FIELDS.map((field) => (
+                          <div key={field.key} className="grid grid-cols-[9rem_1fr] items-center gap-3">
+                            <Label className="text-sm">
+                              {field.label}
+                              {field.required && <span className="text-rose-600"> *</span>}
+                            </Label>
+                            <Select
+                              value={draft.columnMapping[field.key] || NOT_MAPPED}
+                              onValueChange={(value) => setMapping(field.key, value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                                {headerOptions.map((header) => (
+                                  <SelectItem key={header} value={header}>
+                                    {header}
+                                    {headers.length > 0 && !headers.includes(header) ? " (missing)" : ""}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {selected && (
+                <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+                  <CardHeader className="border-b border-gray-100 bg-gray-50">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <CardTitle className="admin-heading-3">Run import</CardTitle>
+                        <CardDescription className="admin-body-small">
+                          {selected.cursor.lastRow > 1
+                            ? `Imported up to row ${selected.cursor.lastRow}${
+                                selected.cursor.retryRows.length > 0 ? `; ${selected.cursor.retryRows.length} failed rows will be retried` : ""
+                              }.`
+                            : "Nothing imported from this source yet; the first run reads the whole tab."}
+                          {selected.lastRunAt && selected.lastRunSummary && (
+                            <>
+                              {" "}Last run {format(new Date(selected.lastRunAt), "PPp")} by {selected.lastRunBy}:{" "}
+                              {selected.lastRunSummary.created} created, {selected.lastRunSummary.skipped} skipped,{" "}
+                              {selected.lastRunSummary.errors} errors.
+                            </>
+                          )}
+                        </CardDescription>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" disabled={pendingAction !== null || selected.cursor.lastRow <= 1}>
+                              {pendingAction === "reset" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                              Reset cursor
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Read the whole sheet again?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The next run checks every row again. Rows that were already imported are still recognised and skipped.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={handleReset}>Reset</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                        <Button variant="outline" onClick={() => handleRun(true)} disabled={pendingAction !== null || isDirty}>
+                          {pendingAction === "preview" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+                          Preview
+                        </Button>
+                        <Button
+                          onClick={() => handleRun(false)}
+                          disabled={pendingAction !== null || isDirty}
+                          className="bg-purple-600 hover:bg-purple-700 text-white"
+                        >
+                          {pendingAction === "import" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UploadCloud className="mr-2 h-4 w-4" />}
+                          Import
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="pt-6">
+                    {isDirty && <p className="text-sm text-amber-700 mb-4">Save your changes before running the import.</p>}
+                    {!result ? (
+                      <p className="text-sm text-gray-500">Preview shows the rows a run would create, skip or reject, without importing anything.</p>
+                    ) : (
+                      <div className="space-y-4">
+                        <div className="flex flex-wrap gap-2 text-sm">
+                          <Badge variant={result.dryRun ? "warning" : "success"}>{result.dryRun ? "Preview" : "Imported"}</Badge>
+                          <span>{result.summary.created} {result.dryRun ? "to create" : "created"}</span>
+                          <span className="text-gray-400">·</span>
+                          <span>{result.summary.skipped} skipped</span>
+                          <span className="text-gray-400">·</span>
+                          <span>{result.summary.errors} errors</span>
+                          {result.summary.flagged > 0 && (
+                            <>
+                              <span className="text-gray-400">·</span>
+                              <span>{result.summary.flagged} possible duplicates</span>
+                            </>
+                          )}
+                          {result.rowsBeforeCursor > 0 && (
+                            <>
+                              <span className="text-gray-400">·</span>
+                              <span className="text-gray-500">{result.rowsBeforeCursor} earlier rows not read again</span>
+                            </>
+                          )}
+                        </div>
+                        {result.rows.length === 0 ? (
+                          <p className="text-sm text-gray-500">No new rows since the last import.</p>
+                        ) : (
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>Row</TableHead>
+                                <TableHead>Action</TableHead>
+                                <TableHead>Applicant</TableHead>
+                                <TableHead>Company</TableHead>
+                                <TableHead>Notes</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {result.rows.map((row) => (
+                                <TableRow key={row.rowNumber} className="align-top">
+                                  <TableCell className="text-gray-500">{row.rowNumber}</TableCell>
+                                  <TableCell>
+                                    <Badge variant={ROW_ACTION_BADGES[row.action].variant}>{ROW_ACTION_BADGES[row.action].label}</Badge>
+                                  </TableCell>
+                                  <TableCell>
+                                    {row.name && <div className="font-medium">{row.name}</div>}
+                                    {row.email && <div className="text-xs text-gray-500">{row.email}</div>}
+                                  </TableCell>
+                                  <TableCell>{row.companyName}</TableCell>
+                                  <TableCell className="text-sm text-gray-600">
+                                    {row.message}
+                                    {row.possibleDuplicate && <span className="text-amber-700">Possible duplicate of an existing submission.</span>}
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
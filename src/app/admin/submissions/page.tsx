@@ -1,18 +1,23 @@
 
 "use client";
 
-import { useEffect, useState, Suspense } from 'react';
+import { useEffect, useMemo, useState, Suspense } from 'react';
 import { Button } from "@/components/ui/button";
 import { FileTextIcon, Loader2, AlertCircle, RefreshCw, UploadCloud, Building, Landmark } from "lucide-react";
 import { db } from '@/lib/firebase';
 import { collection, getDocs, orderBy, query, Timestamp } from 'firebase/firestore';
+import { APPLICATIONS_COLLECTION, applicationSourceOf } from '@/lib/applications';
+import { normalizeSubmission } from '@/lib/validation/submission-schema';
 import { useToast } from "@/hooks/use-toast";
-import { processApplicationAction, importOffCampusSubmissionsFromSheet } from '@/app/actions/admin-actions';
+import Link from 'next/link';
+import { processApplicationAction } from '@/app/actions/admin-actions';
 import { OffCampusSubmissionCard } from './components/OffCampusSubmissionCard';
 import { Submission } from '@/types/Submission';
 import { useSearchParams } from 'next/navigation';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import SubmissionDetailModal from './components/SubmissionDetailModal';
+import DuplicateReviewDialog from './components/DuplicateReviewDialog';
+import { BulkDecisionDialog, BulkSelectionBar } from '@/app/admin/dashboard/components/BulkDecisionDialog';
 
 interface ProcessingActionState {
   id: string;
@@ -20,16 +25,17 @@ interface ProcessingActionState {
 }
 
 function AdminSubmissionsContent() {
-  const [onCampusSubmissions, setOnCampusSubmissions] = useState<Submission[]>([]);
-  const [offCampusSubmissions, setOffCampusSubmissions] = useState<Submission[]>([]);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
   const [processingActionState, setProcessingActionState] = useState<ProcessingActionState | null>(null);
-  const [isImporting, setIsImporting] = useState(false);
   const [selectedSubmission, setSelectedSubmission] = useState<Submission | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<'on-campus' | 'off-campus'>('on-campus');
+  const [duplicateReview, setDuplicateReview] = useState<Submission | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<'accept' | 'reject' | null>(null);
   const searchParams = useSearchParams();
 
   // Initialize activeTab from URL params
@@ -46,25 +52,8 @@ function AdminSubmissionsContent() {
     setIsLoading(true);
     setError(null);
     try {
-      const onCampusQuery = query(collection(db, "contactSubmissions"), orderBy("submittedAt", "desc"));
-      const offCampusQuery = query(collection(db, "offCampusApplications"), orderBy("submittedAt", "desc"));
-
-      const [onCampusSnapshot, offCampusSnapshot] = await Promise.all([
-        getDocs(onCampusQuery),
-        getDocs(offCampusQuery)
-      ]);
-
-      const onCampusData = onCampusSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as Submission));
-      setOnCampusSubmissions(onCampusData);
-
-      const offCampusData = offCampusSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as Submission));
-      setOffCampusSubmissions(offCampusData);
+      const snapshot = await getDocs(query(collection(db, APPLICATIONS_COLLECTION), orderBy("submittedAt", "desc")));
+      setSubmissions(snapshot.docs.map(doc => normalizeSubmission(doc.id, doc.data())));
 
     } catch (err: any) {
       console.error("Error fetching submissions:", err);
@@ -76,10 +65,10 @@ function AdminSubmissionsContent() {
 
   useEffect(() => { fetchSubmissions(); }, []);
 
-  const handleProcess = async (id: string, action: 'accept' | 'reject', name: string, email: string, campusStatus: Submission['campusStatus']) => {
+  const handleProcess = async (id: string, action: 'accept' | 'reject', name: string, email: string) => {
     setProcessingActionState({ id, type: action });
     try {
-      const result = await processApplicationAction(id, action, name, email, campusStatus);
+      const result = await processApplicationAction(id, action, name, email);
       if (result.status === 'success') {
         toast({ title: `Application ${action === 'accept' ? 'Accepted' : 'Rejected'}`, description: result.message });
         fetchSubmissions();
@@ -94,21 +83,37 @@ function AdminSubmissionsContent() {
     }
   };
 
-  const handleImportOffCampus = async () => {
-    setIsImporting(true);
-    try {
-      const result = await importOffCampusSubmissionsFromSheet();
-      if (result.success) {
-        toast({ title: "Import Successful", description: result.message });
-        fetchSubmissions();
-      } else {
-        toast({ title: "Import Failed", description: result.message || "An unknown error occurred during import.", variant: "destructive" });
-      }
-    } catch (error: any) {
-      toast({ title: "Error", description: `Failed to import off-campus data: ${error.message || 'Unknown error'}`, variant: "destructive" });
-    } finally {
-      setIsImporting(false);
-    }
+  // The tabs split the one applications collection by intake channel
+  const onCampusSubmissions = useMemo(
+    () => submissions.filter((submission) => applicationSourceOf(submission) === 'campus'),
+    [submissions]
+  );
+  const offCampusSubmissions = useMemo(
+    () => submissions.filter((submission) => applicationSourceOf(submission) === 'off-campus'),
+    [submissions]
+  );
+
+  // To find the submissions a duplicate flag points at
+  const submissionsById = useMemo(
+    () => new Map(submissions.map((submission) => [submission.id, submission])),
+    [submissions]
+  );
+
+  const duplicateReviewMatches = useMemo(
+    () =>
+      (duplicateReview?.duplicateCheck?.matches ?? []).flatMap((match) => {
+        const submission = submissionsById.get(match.id);
+        return submission ? [{ submission, match }] : [];
+      }),
+    [duplicateReview, submissionsById]
+  );
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) next.add(id); else next.delete(id);
+      return next;
+    });
   };
 
   const handleViewDetails = (submission: Submission) => {
@@ -174,18 +179,19 @@ function AdminSubmissionsContent() {
             
             {type === 'off-campus' && (
               <div className="relative">
-                <Button 
-                  onClick={handleImportOffCampus}
-                  disabled={isImporting}
+                <Button
+                  asChild
                   className="group relative bg-gradient-to-r from-purple-500 to-pink-600 hover:from-purple-600 hover:to-pink-700 text-white font-semibold py-3 px-8 rounded-full border-0 shadow-lg shadow-purple-200/50 hover:shadow-xl hover:shadow-purple-300/50 transition-all duration-300 hover:scale-105 overflow-hidden"
                 >
-                  {/* Button shine effect */}
-                  <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -skew-x-12 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-1000 ease-out"></div>
-                  
-                  <div className="relative flex items-center gap-2">
-                    {isImporting ? <Loader2 className="h-5 w-5 animate-spin"/> : <UploadCloud className="h-5 w-5 group-hover:scale-110 transition-transform duration-300"/>}
-                    <span>Import Off-Campus Data</span>
-                  </div>
+                  <Link href="/admin/submissions/import">
+                    {/* Button shine effect */}
+                    <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -skew-x-12 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-1000 ease-out"></div>
+
+                    <div className="relative flex items-center gap-2">
+                      <UploadCloud className="h-5 w-5 group-hover:scale-110 transition-transform duration-300"/>
+                      <span>Import Off-Campus Data</span>
+                    </div>
+                  </Link>
                 </Button>
               </div>
             )}
@@ -201,18 +207,40 @@ function AdminSubmissionsContent() {
         </div>
       );
     }
+    const pendingIds = submissions.filter((submission) => submission.status === 'pending').map((submission) => submission.id);
     return (
+      <>
+      {pendingIds.length > 0 && (
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSelectedIds((current) => new Set([...Array.from(current), ...pendingIds]))}
+            className="text-blue-700 hover:bg-blue-50"
+          >
+            Select all pending ({pendingIds.length})
+          </Button>
+        </div>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
         {submissions.map(submission => (
           <OffCampusSubmissionCard
             key={submission.id}
             submission={submission}
             processingAction={processingActionState}
-            onProcessAction={(id, action, name, email) => handleProcess(id, action, name, email, submission.campusStatus)}
+            onProcessAction={handleProcess}
             onViewDetails={handleViewDetails}
+            onReviewDuplicate={
+              submission.duplicateCheck?.status === 'flagged'
+                ? () => setDuplicateReview(submission)
+                : undefined
+            }
+            selected={selectedIds.has(submission.id)}
+            onSelectedChange={(selected) => toggleSelected(submission.id, selected)}
           />
         ))}
       </div>
+      </>
     );
   };
 
@@ -239,13 +267,14 @@ function AdminSubmissionsContent() {
                 {isLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <RefreshCw className="h-4 w-4 mr-2" />}
                 Refresh
               </Button>
-              <Button 
-                onClick={handleImportOffCampus}
-                disabled={isImporting}
+              <Button
+                asChild
                 className="bg-white border border-purple-200 text-purple-700 hover:bg-purple-50 hover:border-purple-300 focus:ring-2 focus:ring-purple-200 rounded-lg shadow-sm px-5 py-2 font-medium transition"
               >
-                {isImporting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <UploadCloud className="h-4 w-4 mr-2" />}
-                Import Off-Campus Data
+                <Link href="/admin/submissions/import">
+                  <UploadCloud className="h-4 w-4 mr-2" />
+                  Import Off-Campus Data
+                </Link>
               </Button>
             </div>
           </div>
@@ -282,6 +311,11 @@ function AdminSubmissionsContent() {
                 </span>
               </button>
             </div>
+            {selectedIds.size > 0 && (
+              <div className="mb-4">
+                <BulkSelectionBar count={selectedIds.size} onDecide={setBulkAction} onClear={() => setSelectedIds(new Set())} />
+              </div>
+            )}
             {activeTab === 'on-campus' && (
               <SubmissionsGrid submissions={onCampusSubmissions} type="on-campus" />
             )}
@@ -295,6 +329,22 @@ function AdminSubmissionsContent() {
           onClose={handleCloseModal}
           submission={selectedSubmission}
         />
+        <DuplicateReviewDialog
+          isOpen={duplicateReview !== null}
+          onClose={() => setDuplicateReview(null)}
+          flagged={duplicateReview}
+          matches={duplicateReviewMatches}
+          onResolved={fetchSubmissions}
+        />
+        <BulkDecisionDialog
+          action={bulkAction}
+          submissions={submissions.filter((submission) => selectedIds.has(submission.id))}
+          onClose={() => setBulkAction(null)}
+          onFinished={(succeededIds) => {
+            setSelectedIds((current) => new Set(Array.from(current).filter((id) => !succeededIds.includes(id))));
+            fetchSubmissions();
+          }}
+        />
       </div>
     </div>
   );
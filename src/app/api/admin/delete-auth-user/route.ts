@@ -1,43 +1,62 @@
 // API route for deleting Firebase Auth users (Admin only)
-// This requires Firebase Admin SDK and proper authentication
+// Callers must hold the accounts:manage permission via an admin session or a Firebase ID token
 
 import { NextRequest, NextResponse } from 'next/server';
 import { deleteFirebaseAuthUser } from '@/lib/firebase-admin';
+import { guardApiRequest } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
+
+const AUDIT_ACTION = 'authUser.delete';
 
 export async function DELETE(request: NextRequest) {
+  const guard = await guardApiRequest(request, {
+    permission: 'accounts:manage',
+    action: AUDIT_ACTION,
+    rateLimit: { limit: 10, windowMs: 60 * 1000 },
+  });
+  if (!guard.ok) {
+    return guard.response;
+  }
+
   try {
     // Get the UID from the request
     const { uid } = await request.json();
     
-    if (!uid) {
+    if (!uid || typeof uid !== 'string') {
       return NextResponse.json(
         { success: false, message: 'UID is required' },
         { status: 400 }
       );
     }
 
-    // TODO: Add admin authentication check here
-    // You should verify that the requesting user is an admin
-    
     const result = await deleteFirebaseAuthUser(uid);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTION,
+      outcome: result.success ? 'success' : 'failure',
+      actor: guard.actor,
+      target: { type: 'authUser', id: uid },
+      details: result.success ? undefined : { message: result.message },
+      ...guard.context,
+    });
     
     return NextResponse.json(result, {
       status: result.success ? 200 : 500
     });
     
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error in delete auth user API:', error);
     return NextResponse.json(
-      { success: false, message: `Server error: ${error.message}` },
+      { success: false, message: `Server error: ${error instanceof Error ? error.message : String(error)}` },
       { status: 500 }
     );
   }
 }
 
 // Optional: GET method to check if user exists
-export async function GET(request: NextRequest) {
+export async function GET() {
   return NextResponse.json({
     message: 'Use DELETE method to delete Firebase Auth users',
-    note: 'This endpoint requires Firebase Admin SDK setup and admin authentication'
+    note: 'Requires an admin session cookie or an `Authorization: Bearer <Firebase ID token>` header for an account with the admin role'
   });
 }
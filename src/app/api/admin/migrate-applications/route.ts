@@ -0,0 +1,86 @@
+// API endpoint to move contactSubmissions and offCampusApplications into the applications collection
+// POST ?dryRun=true reports what would be copied without writing (requires submissions:decide)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { guardApiRequest } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { migrateApplications } from '@/lib/migrate-applications';
+import { APPLICATIONS_COLLECTION } from '@/lib/applications';
+
+const AUDIT_ACTION = 'applications.migrate';
+
+export async function POST(request: NextRequest) {
+  const guard = await guardApiRequest(request, {
+    permission: 'submissions:decide',
+    action: AUDIT_ACTION,
+    rateLimit: { limit: 5, windowMs: 10 * 60 * 1000 },
+  });
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+
+  try {
+    const report = await migrateApplications({ dryRun });
+    console.log('Application migration report:', JSON.stringify(report, null, 2));
+
+    if (!dryRun) {
+      await recordAuditEvent({
+        action: AUDIT_ACTION,
+        outcome: report.verified ? 'success' : 'failure',
+        actor: guard.actor,
+        target: { type: 'applications', collection: APPLICATIONS_COLLECTION },
+        details: {
+          verified: report.verified,
+          collections: report.collections.map(({ collection, legacyCount, copied, alreadyMigrated, conflicts, migratedCount }) => ({
+            collection,
+            legacyCount,
+            copied,
+            alreadyMigrated,
+            conflicts: conflicts.length,
+            migratedCount,
+          })),
+          applicationsBySource: report.applicationsBySource,
+          invitationsRepointed: report.invitationsRepointed,
+        },
+        ...guard.context,
+      });
+    }
+
+    return NextResponse.json({
+      success: report.verified,
+      message: report.verified
+        ? dryRun
+          ? 'Dry run: every legacy application can be copied.'
+          : 'Migration verified: every legacy application has its copy in applications.'
+        : 'Some applications could not be migrated; see the per-collection counts and conflicts.',
+      ...report,
+    }, { status: report.verified ? 200 : 409 });
+  } catch (error) {
+    console.error('Application migration failed:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (!dryRun) {
+      await recordAuditEvent({
+        action: AUDIT_ACTION,
+        outcome: 'failure',
+        actor: guard.actor,
+        target: { type: 'applications', collection: APPLICATIONS_COLLECTION },
+        details: { message },
+        ...guard.context,
+      });
+    }
+    return NextResponse.json({ success: false, message: `Migration failed: ${message}` }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Application Migration API',
+    description: 'Copies contactSubmissions and offCampusApplications into the applications collection and verifies the counts',
+    endpoints: {
+      'POST /api/admin/migrate-applications?dryRun=true': 'Report what would be copied without writing',
+      'POST /api/admin/migrate-applications': 'Run the migration (admin session cookie or Firebase ID token with the admin role)',
+    },
+  });
+}
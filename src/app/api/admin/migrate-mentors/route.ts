@@ -1,11 +1,24 @@
 // API endpoint to run mentor migration to subcollections
-// Call this endpoint to migrate existing mentors to the new structure
+// Call this endpoint to migrate existing mentors to the new structure (requires mentors:manage)
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, doc, setDoc, getDoc } from 'firebase/firestore';
+import { guardApiRequest } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
+
+const AUDIT_ACTION = 'mentors.migrate';
 
 export async function POST(request: NextRequest) {
+  const guard = await guardApiRequest(request, {
+    permission: 'mentors:manage',
+    action: AUDIT_ACTION,
+    rateLimit: { limit: 2, windowMs: 10 * 60 * 1000 },
+  });
+  if (!guard.ok) {
+    return guard.response;
+  }
+
   try {
     console.log('Starting migration of mentors to subcollection structure...');
     
@@ -84,10 +97,28 @@ export async function POST(request: NextRequest) {
     };
     
     console.log('Migration completed:', summary);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTION,
+      outcome: 'success',
+      actor: guard.actor,
+      target: { type: 'mentors' },
+      details: { migratedCount, skippedCount },
+      ...guard.context,
+    });
+
     return NextResponse.json(summary);
     
   } catch (error: any) {
     console.error('Migration failed:', error);
+    await recordAuditEvent({
+      action: AUDIT_ACTION,
+      outcome: 'failure',
+      actor: guard.actor,
+      target: { type: 'mentors' },
+      details: { message: error.message },
+      ...guard.context,
+    });
     return NextResponse.json(
       { 
         success: false, 
@@ -99,12 +130,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET(request: NextRequest) {
+export async function GET() {
   return NextResponse.json({
     message: 'Mentor Migration API',
     description: 'Use POST method to run the migration from old mentor structure to new subcollection structure',
     endpoints: {
-      'POST /api/admin/migrate-mentors': 'Run the migration'
+      'POST /api/admin/migrate-mentors': 'Run the migration (admin session cookie or Firebase ID token with the admin role)'
     }
   });
 }
@@ -0,0 +1,79 @@
+// API endpoint to rewrite applications stored under an older schema version in the current shape
+// POST ?dryRun=true reports what would change without writing (requires submissions:decide)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { guardApiRequest } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { migrateSubmissionSchema } from '@/lib/migrate-submission-schema';
+import { APPLICATIONS_COLLECTION } from '@/lib/applications';
+
+const AUDIT_ACTION = 'applications.migrateSchema';
+
+export async function POST(request: NextRequest) {
+  const guard = await guardApiRequest(request, {
+    permission: 'submissions:decide',
+    action: AUDIT_ACTION,
+    rateLimit: { limit: 5, windowMs: 10 * 60 * 1000 },
+  });
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+
+  try {
+    const report = await migrateSubmissionSchema({ dryRun });
+    console.log('Submission schema migration report:', JSON.stringify(report, null, 2));
+
+    if (!dryRun) {
+      await recordAuditEvent({
+        action: AUDIT_ACTION,
+        outcome: 'success',
+        actor: guard.actor,
+        target: { type: 'applications', collection: APPLICATIONS_COLLECTION },
+        details: {
+          schemaVersion: report.schemaVersion,
+          total: report.total,
+          versions: report.versions,
+          upgraded: report.upgraded,
+          legacyFieldsRemoved: report.legacyFieldsRemoved,
+          invalid: report.invalid.length,
+        },
+        ...guard.context,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${dryRun ? 'Dry run: ' : ''}${report.upgraded} of ${report.total} applications ${dryRun ? 'would be' : 'were'} upgraded to schema version ${report.schemaVersion}.${
+        report.invalid.length > 0 ? ` ${report.invalid.length} still need fixing by hand; see invalid.` : ''
+      }`,
+      ...report,
+    });
+  } catch (error) {
+    console.error('Submission schema migration failed:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (!dryRun) {
+      await recordAuditEvent({
+        action: AUDIT_ACTION,
+        outcome: 'failure',
+        actor: guard.actor,
+        target: { type: 'applications', collection: APPLICATIONS_COLLECTION },
+        details: { message },
+        ...guard.context,
+      });
+    }
+    return NextResponse.json({ success: false, message: `Migration failed: ${message}` }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Submission Schema Migration API',
+    description: 'Rewrites applications stored under an older schema version in the current shape and lists documents that still fail validation',
+    endpoints: {
+      'POST /api/admin/migrate-submission-schema?dryRun=true': 'Report what would change without writing',
+      'POST /api/admin/migrate-submission-schema': 'Run the migration (admin session cookie or Firebase ID token with the admin role)',
+    },
+  });
+}
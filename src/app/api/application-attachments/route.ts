@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getApiRequestContext } from '@/lib/api-auth';
+import { MAX_ATTACHMENT_SIZE, ATTACHMENT_KINDS } from '@/lib/attachment-validation';
+import { storeApplicationAttachment } from '@/lib/application-attachments';
+import type { ApplicationAttachmentKind } from '@/types/application-attachment';
+
+// Public endpoint used by the application form before it is submitted
+const IP_RATE_LIMIT = { limit: 20, windowMs: 60 * 60 * 1000 };
+
+function isAttachmentKind(value: unknown): value is ApplicationAttachmentKind {
+  return typeof value === 'string' && Object.keys(ATTACHMENT_KINDS).includes(value);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { ipAddress } = getApiRequestContext(request);
+    const ipLimit = checkRateLimit(`application-attachments:ip:${ipAddress}`, IP_RATE_LIMIT);
+    if (!ipLimit.allowed) {
+      return NextResponse.json(
+        { message: 'Too many uploads. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(ipLimit.retryAfterSeconds) } }
+      );
+    }
+
+    // Refuse oversized bodies before reading them into memory
+    const contentLength = Number(request.headers.get('content-length') ?? 0);
+    if (contentLength > MAX_ATTACHMENT_SIZE + 64 * 1024) {
+      return NextResponse.json({ message: `The file must be smaller than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB.` }, { status: 413 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const kind = formData.get('kind');
+    if (!(file instanceof File) || !isAttachmentKind(kind)) {
+      return NextResponse.json({ message: 'Choose a file to upload.' }, { status: 400 });
+    }
+
+    const result = await storeApplicationAttachment({
+      bytes: new Uint8Array(await file.arrayBuffer()),
+      fileName: file.name,
+      kind,
+    });
+    if (!result.success) {
+      console.warn(`Rejected a ${kind} upload from ${ipAddress}: ${result.error}`);
+      return NextResponse.json({ message: result.error }, { status: 422 });
+    }
+
+    const { fileName, size, contentType } = result.attachment;
+    return NextResponse.json({ message: 'File uploaded', token: result.token, fileName, size, contentType }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading an application attachment:', error);
+    return NextResponse.json({ message: 'The file could not be uploaded. Please try again.' }, { status: 500 });
+  }
+}
@@ -3,60 +3,143 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/firebase';
 import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
 import { CampusStatus } from '@/types/Submission';
-import { DOMAIN_OPTIONS, SECTOR_OPTIONS } from '@/lib/validation/dropdown-constants';
+import { getActiveApplicationForm, getApplicationFormVersion } from '@/lib/application-forms';
+import { deleteApplicationDraft } from '@/lib/application-drafts';
+import { isStandardFieldKey, validateApplicationAnswers } from '@/lib/validation/application-form-schema';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getApiRequestContext } from '@/lib/api-auth';
+import { duplicateKeysFor } from '@/lib/duplicate-detection';
+import { buildDuplicateCheck, loadDuplicatePool } from '@/lib/submission-duplicates';
+import { APPLICATIONS_COLLECTION, sourceForCampusStatus } from '@/lib/applications';
+import { resolveApplicationAttachments } from '@/lib/application-attachments';
+import { SUBMISSION_SCHEMA_VERSION } from '@/lib/validation/submission-schema';
+
+// Hidden form input real applicants never see; anything in it came from a bot
+const HONEYPOT_FIELD = '_website';
+
+// Public endpoint: bound submissions per address and per applicant email
+const IP_RATE_LIMIT = { limit: 10, windowMs: 60 * 60 * 1000 };
+const EMAIL_RATE_LIMIT = { limit: 3, windowMs: 60 * 60 * 1000 };
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'https:' || url.protocol === 'http:') && value.length <= 500;
+  } catch {
+    return false;
+  }
+}
+
+function tooManyRequests(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { message: 'Too many submissions. Please try again later.' },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
 
 export async function POST(request: NextRequest) {
   try {
+    const { ipAddress } = getApiRequestContext(request);
+    const ipLimit = checkRateLimit(`contact-submissions:ip:${ipAddress}`, IP_RATE_LIMIT);
+    if (!ipLimit.allowed) {
+      return tooManyRequests(ipLimit.retryAfterSeconds);
+    }
+
     const body = await request.json();
     console.log('Submission received:', body);
 
-    const requiredFields = [
-      'fullName', 'natureOfInquiry', 'companyName', 'companyEmail', 
-      'founderNames', 'founderBio', 'startupIdea', 'uniqueness', 'domain', 'sector'
-    ];
-    
-    for (const field of requiredFields) {
-      if (!body[field]) {
-        return NextResponse.json({ message: `Missing required field: ${field}` }, { status: 400 });
-      }
+    // Answer like a real submission so the bot has no reason to retry, but store nothing
+    if (typeof body[HONEYPOT_FIELD] === 'string' && body[HONEYPOT_FIELD].trim()) {
+      console.warn(`Discarded a submission from ${ipAddress} that filled in the honeypot field.`);
+      return NextResponse.json({ message: 'Application submitted successfully' }, { status: 201 });
     }
-    
-    if (!DOMAIN_OPTIONS.includes(body.domain)) {
-      return NextResponse.json({ message: `Invalid domain value.` }, { status: 400 });
+
+    // Validate against the version the applicant saw; archived versions still accept late submissions
+    const requestedVersion = body.formVersion;
+    if (requestedVersion !== undefined && (typeof requestedVersion !== 'number' || !Number.isInteger(requestedVersion))) {
+      return NextResponse.json({ message: 'Invalid form version.' }, { status: 400 });
     }
-    
-    if (!SECTOR_OPTIONS.includes(body.sector)) {
-      return NextResponse.json({ message: `Invalid sector value.` }, { status: 400 });
+    const form = requestedVersion === undefined
+      ? await getActiveApplicationForm()
+      : await getApplicationFormVersion(requestedVersion);
+    if (!form || form.status === 'draft') {
+      return NextResponse.json(
+        { message: 'The application form has changed. Please reload the page and submit again.' },
+        { status: 409 }
+      );
     }
 
-    const campusStatus = body.campusStatus === 'off-campus' ? 'off-campus' : 'campus';
-    const collectionName = campusStatus === 'off-campus' ? 'offCampusApplications' : 'contactSubmissions';
+    const { values, errors } = validateApplicationAnswers(form, body);
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors[0].message, errors }, { status: 400 });
+    }
+
+    const emailLimit = checkRateLimit(`contact-submissions:email:${values.companyEmail.toLowerCase()}`, EMAIL_RATE_LIMIT);
+    if (!emailLimit.allowed) {
+      return tooManyRequests(emailLimit.retryAfterSeconds);
+    }
+
+    const standardAnswers: Record<string, string> = {};
+    const customAnswers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (isStandardFieldKey(key)) {
+        standardAnswers[key] = value;
+      } else if (value) {
+        customAnswers[key] = value;
+      }
+    }
+
+    const campusStatus: CampusStatus = body.campusStatus === 'off-campus' ? 'off-campus' : 'campus';
+
+    const videoUrl = typeof body.videoUrl === 'string' ? body.videoUrl.trim() : '';
+    if (videoUrl && !isHttpUrl(videoUrl)) {
+      return NextResponse.json({ message: 'Enter the video link as a full http(s) URL.' }, { status: 400 });
+    }
+    // Files were validated and stored when they were uploaded; the tokens prove that
+    const attachments = await resolveApplicationAttachments(body.attachments);
+
+    // Flag, never block: the applicant may have a good reason to apply again
+    const duplicateCandidate = {
+      email: values.companyEmail,
+      companyEmail: values.companyEmail,
+      phone: values.phone,
+      companyName: values.companyName,
+    };
+    let duplicateCheck;
+    try {
+      duplicateCheck = buildDuplicateCheck(duplicateCandidate, await loadDuplicatePool(duplicateCandidate));
+    } catch (error) {
+      console.error('Error checking for duplicate submissions:', error);
+    }
 
     const submission = {
-      fullName: body.fullName,
-      phone: body.phone || '',
-      natureOfInquiry: body.natureOfInquiry,
-      companyName: body.companyName,
-      companyEmail: body.companyEmail,
-      founderNames: body.founderNames,
-      founderBio: body.founderBio,
-      portfolioUrl: body.portfolioUrl || '',
-      teamInfo: body.teamInfo || '',
-      startupIdea: body.startupIdea,
-      problemSolving: body.problemSolving || '',
-      uniqueness: body.uniqueness,
-      domain: body.domain,
-      sector: body.sector,
-      name: body.fullName,
-      email: body.companyEmail,
-      idea: body.startupIdea,
-      campusStatus: campusStatus as CampusStatus,
+      schemaVersion: SUBMISSION_SCHEMA_VERSION,
+      ...standardAnswers,
+      ...(Object.keys(customAnswers).length > 0 ? { customAnswers } : {}),
+      name: values.fullName,
+      email: values.companyEmail,
+      formVersion: form.version,
+      source: sourceForCampusStatus(campusStatus),
+      campusStatus,
       submittedAt: serverTimestamp(),
       status: 'pending' as const,
+      ...(attachments.length > 0 ? { attachments } : {}),
+      ...(videoUrl ? { videoUrl } : {}),
+      duplicateKeys: duplicateKeysFor(duplicateCandidate),
+      ...(duplicateCheck ? { duplicateCheck } : {}),
     };
 
-    const docRef = await addDoc(collection(db, collectionName), submission);
-    console.log(`Document added to ${collectionName} with ID:`, docRef.id);
+    const docRef = await addDoc(collection(db, APPLICATIONS_COLLECTION), submission);
+    console.log(`Document added to ${APPLICATIONS_COLLECTION} with ID:`, docRef.id);
+
+    // The saved draft has served its purpose; only the browser holding its token may remove it
+    if (typeof body.draftToken === 'string' && body.draftToken) {
+      try {
+        await deleteApplicationDraft({ email: values.companyEmail, token: body.draftToken });
+      } catch (error) {
+        console.error('Error deleting the application draft:', error);
+      }
+    }
 
     return NextResponse.json({ message: 'Application submitted successfully', id: docRef.id }, { status: 201 });
 
@@ -0,0 +1,26 @@
+// src/app/application/status/page.tsx
+// Public page where applicants verify their email with a one-time code and follow their application.
+import Link from "next/link";
+import { InnoNexusLogo } from "@/components/icons/innnexus-logo";
+import ApplicationStatusView from "@/components/application/application-status-view";
+import { getApplicationStatusAction } from "@/app/actions/application-status-actions";
+
+export const dynamic = "force-dynamic";
+
+export default async function ApplicationStatusPage() {
+  // Skip the code step when this browser verified its email in the last half hour
+  const status = await getApplicationStatusAction();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex flex-col items-center justify-center p-4">
+      <Link href="/" aria-label="Go to homepage" className="mb-8">
+        <InnoNexusLogo className="h-16 w-auto mx-auto text-gray-700" />
+      </Link>
+
+      <ApplicationStatusView
+        initialEmail={status.email}
+        initialApplications={status.success ? status.applications : undefined}
+      />
+    </div>
+  );
+}
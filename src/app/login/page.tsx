@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import AdminLoginForm from "@/components/auth/admin-login-form";
 import UserLoginForm from "@/components/auth/user-login-form";
 import MentorLoginForm from "@/components/auth/mentor-login-form"; // Import the new mentor form
@@ -9,7 +9,7 @@ import { InnoNexusLogo } from "@/components/icons/innnexus-logo";
 import { PasswordResetDialog } from "@/components/ui/password-reset-dialog";
 import Link from "next/link";
 import { motion } from "framer-motion";
-import { Users, Shield, UserCheck } from "lucide-react"; // Import a new icon for mentor
+import { Users, Shield, UserCheck, Clock } from "lucide-react"; // Import a new icon for mentor
 import {
   InteractiveLoginTabs,
   InteractiveLoginTabsList,
@@ -17,8 +17,21 @@ import {
   InteractiveLoginTabsContent,
 } from "@/components/ui/interactive-login-tabs";
 
+// Set by /logout when a session ended on its own
+const LOGOUT_REASON_MESSAGES: Record<string, string> = {
+  idle: "You were signed out after a period of inactivity.",
+  expired: "Your session expired. Please sign in again.",
+  revoked: "You were signed out on all devices. Please sign in again.",
+};
+
 export default function LoginPage() {
   const [isPasswordResetOpen, setIsPasswordResetOpen] = useState(false);
+  const [logoutNotice, setLogoutNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const reason = new URLSearchParams(window.location.search).get("reason");
+    setLogoutNotice(reason ? LOGOUT_REASON_MESSAGES[reason] ?? null : null);
+  }, []);
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 relative overflow-hidden">
       {/* Professional Background Pattern */}
@@ -84,6 +97,12 @@ export default function LoginPage() {
           transition={{ delay: 0.6, duration: 0.6 }}
           className="w-full max-w-md"
         >
+          {logoutNotice && (
+            <div className="mb-4 flex items-center rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm font-medium text-amber-800">
+              <Clock className="mr-2 h-4 w-4 flex-shrink-0" />
+              {logoutNotice}
+            </div>
+          )}
           <InteractiveLoginTabs defaultValue="user" className="w-full">
             <InteractiveLoginTabsList className="grid w-full grid-cols-3 mb-6">
               <InteractiveLoginTabsTrigger
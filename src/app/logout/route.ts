@@ -0,0 +1,20 @@
+// Clears the session cookie and sends the browser back to the login page.
+// Used by the portal logout buttons and by SessionManager when a session times out;
+// `?reason=` is passed on so the login page can explain why.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE_NAME } from '@/lib/session-token';
+
+const LOGOUT_REASONS = ['idle', 'expired', 'revoked'];
+
+export async function GET(request: NextRequest) {
+  const loginUrl = new URL('/login', request.url);
+  const reason = request.nextUrl.searchParams.get('reason');
+  if (reason && LOGOUT_REASONS.includes(reason)) {
+    loginUrl.searchParams.set('reason', reason);
+  }
+
+  const response = NextResponse.redirect(loginUrl);
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return response;
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { HandHelping, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getNominationOpeningsAction, setRoundNominationAction } from '@/app/actions/evaluation-assignment-actions';
+import type { NominationOpening } from '@/types/evaluation-score';
+
+// Rounds that take volunteers but do not draw on this evaluator's expertise; hidden when there are none
+export default function VolunteerRoundsCard() {
+  const { toast } = useToast();
+  const [openings, setOpenings] = useState<NominationOpening[]>([]);
+  const [busyRoundId, setBusyRoundId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getNominationOpeningsAction().then((result) => {
+      if (result.success) {
+        setOpenings(result.openings ?? []);
+      }
+    });
+  }, []);
+
+  if (openings.length === 0) {
+    return null;
+  }
+
+  const handleToggle = async (opening: NominationOpening) => {
+    setBusyRoundId(opening.roundId);
+    const result = await setRoundNominationAction(opening.roundId, !opening.nominated);
+    setBusyRoundId(null);
+    if (result.success) {
+      setOpenings((current) =>
+        current.map((entry) => (entry.roundId === opening.roundId ? { ...entry, nominated: !opening.nominated } : entry))
+      );
+    }
+    toast({
+      title: result.success ? 'Nomination updated' : 'Could not update your nomination',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  return (
+    <Card className="border-gray-200 bg-white shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg text-gray-900">
+          <HandHelping className="h-5 w-5 text-blue-600" /> Volunteer to evaluate
+        </CardTitle>
+        <CardDescription className="text-gray-600">
+          These rounds look for other expertise but take volunteers. Volunteers are assigned applications when the round
+          needs more evaluators.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y divide-gray-100">
+          {openings.map((opening) => (
+            <li key={opening.roundId} className="flex flex-wrap items-center gap-3 py-3">
+              <div className="min-w-0 flex-1">
+                <div className="font-medium text-gray-900">{opening.roundName}</div>
+                <div className="text-xs text-gray-500">
+                  Looking for {opening.evaluatorRoles.join(', ')}
+                  {opening.evaluationDeadline && ` · due ${format(new Date(opening.evaluationDeadline), 'PP')}`}
+                </div>
+              </div>
+              <Badge variant="secondary">{opening.status}</Badge>
+              <Button
+                type="button"
+                size="sm"
+                variant={opening.nominated ? 'outline' : 'default'}
+                onClick={() => handleToggle(opening)}
+                disabled={busyRoundId !== null}
+              >
+                {busyRoundId === opening.roundId && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {opening.nominated ? 'Withdraw' : 'Volunteer'}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Check, Loader2, Scale, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  approveReconciledScoreAction,
+  getReconciliationThreadAction,
+  postReconciliationMessageAction,
+  proposeReconciledScoreAction,
+} from '@/app/actions/evaluation-score-actions';
+import type { EvaluationReconciliation, ReconciliationThread } from '@/types/evaluation-score';
+
+interface ReconciliationPanelProps {
+  roundId: string;
+  submissionId: string;
+  refreshKey: number; // Bumped after the evaluator submits, since that can open a thread
+}
+
+// Consensus rounds: where evaluators whose totals diverged discuss and agree on a final score
+export default function ReconciliationPanel({ roundId, submissionId, refreshKey }: ReconciliationPanelProps) {
+  const { toast } = useToast();
+  const [thread, setThread] = useState<ReconciliationThread | null>(null);
+  const [messageText, setMessageText] = useState('');
+  const [proposedScore, setProposedScore] = useState('');
+  const [justification, setJustification] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    getReconciliationThreadAction(roundId, submissionId).then((result) => {
+      if (result.success) {
+        setThread(result.thread ?? null);
+      }
+    });
+  }, [roundId, submissionId, refreshKey]);
+
+  if (!thread) {
+    return null;
+  }
+
+  const { reconciliation, scores, maxScore, viewerUid, canParticipate } = thread;
+  const proposal = reconciliation.proposal;
+  const nameOf = (uid: string) => reconciliation.evaluators.find((evaluator) => evaluator.uid === uid)?.name ?? 'An evaluator';
+
+  const applyResult = (
+    result: { success: boolean; message: string; reconciliation?: EvaluationReconciliation },
+    failureTitle: string
+  ): boolean => {
+    if (result.success && result.reconciliation) {
+      const updated = result.reconciliation;
+      setThread({ ...thread, reconciliation: updated, canParticipate: canParticipate && updated.status === 'open' });
+      return true;
+    }
+    toast({ title: failureTitle, description: result.message, variant: 'destructive' });
+    return false;
+  };
+
+  const handlePost = async () => {
+    setIsBusy(true);
+    const result = await postReconciliationMessageAction(roundId, submissionId, messageText);
+    setIsBusy(false);
+    if (applyResult(result, 'Could not post the message')) {
+      setMessageText('');
+    }
+  };
+
+  const handlePropose = async () => {
+    setIsBusy(true);
+    const result = await proposeReconciledScoreAction(roundId, submissionId, Number(proposedScore), justification);
+    setIsBusy(false);
+    if (applyResult(result, 'Could not propose the final score')) {
+      setProposedScore('');
+      setJustification('');
+      toast({ title: result.message });
+    }
+  };
+
+  const handleApprove = async () => {
+    setIsBusy(true);
+    const result = await approveReconciledScoreAction(roundId, submissionId);
+    setIsBusy(false);
+    if (applyResult(result, 'Could not approve the final score')) {
+      toast({ title: result.message });
+    }
+  };
+
+  return (
+    <Card className="border-amber-200 bg-white shadow-sm">
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg text-gray-900">
+              <Scale className="h-5 w-5 text-amber-600" /> Score reconciliation
+            </CardTitle>
+            <CardDescription>
+              The evaluators&apos; totals are {reconciliation.spread} points apart, more than this round allows (
+              {reconciliation.threshold}). Discuss the scores below and agree on a final score.
+            </CardDescription>
+          </div>
+          <Badge variant={reconciliation.status === 'agreed' ? 'default' : 'outline'}>
+            {reconciliation.status === 'agreed' ? `Agreed: ${reconciliation.finalScore} / ${maxScore}` : 'Open'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        {/* Everyone's score sheets */}
+        <div className="grid gap-3 md:grid-cols-2">
+          {scores.map((score) => (
+            <div key={score.evaluatorUid} className="space-y-2 rounded-md border border-gray-100 p-3">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900">
+                  {score.evaluatorName}
+                  {score.evaluatorUid === viewerUid && ' (you)'}
+                </span>
+                <span className="font-semibold">
+                  {score.total ?? '—'} / {maxScore}
+                </span>
+              </div>
+              <ul className="space-y-1 text-xs text-gray-600">
+                {score.criterionScores.map((criterionScore) => (
+                  <li key={criterionScore.criterion}>
+                    <span className="font-medium">{criterionScore.criterion}:</span> {criterionScore.score ?? '—'}
+                    {criterionScore.comment && <span className="text-gray-500"> · {criterionScore.comment}</span>}
+                  </li>
+                ))}
+              </ul>
+              {score.overallComment && <p className="whitespace-pre-wrap text-xs text-gray-700">{score.overallComment}</p>}
+            </div>
+          ))}
+        </div>
+
+        {/* Discussion */}
+        <div className="space-y-3">
+          <div className="font-medium text-gray-900">Discussion</div>
+          {reconciliation.messages.length === 0 ? (
+            <p className="text-gray-500">No messages yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {reconciliation.messages.map((message) => (
+                <li key={message.id} className="rounded-md bg-gray-50 p-3">
+                  <div className="text-xs text-gray-500">
+                    {message.authorName} · {format(new Date(message.createdAt), 'PPp')}
+                  </div>
+                  <p className="whitespace-pre-wrap text-gray-800">{message.text}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+          {canParticipate && (
+            <div className="flex items-end gap-2">
+              <Textarea
+                value={messageText}
+                onChange={(event) => setMessageText(event.target.value)}
+                placeholder="Explain your score, or respond to the others"
+                rows={2}
+                maxLength={2000}
+                disabled={isBusy}
+              />
+              <Button type="button" variant="outline" onClick={handlePost} disabled={isBusy || !messageText.trim()}>
+                {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Final score */}
+        {reconciliation.status === 'agreed' ? (
+          <div className="rounded-md bg-green-50 p-3 text-green-900">
+            <div className="font-medium">
+              Final score {reconciliation.finalScore} / {maxScore}
+              {reconciliation.agreedBy !== 'evaluators' && ' (recorded by an admin)'}
+            </div>
+            {reconciliation.justification && <p className="whitespace-pre-wrap">{reconciliation.justification}</p>}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {proposal && (
+              <div className="space-y-2 rounded-md bg-amber-50 p-3 text-amber-900">
+                <div className="font-medium">
+                  {nameOf(proposal.proposedBy)} proposes {proposal.score} / {maxScore}
+                </div>
+                <p className="whitespace-pre-wrap">{proposal.justification}</p>
+                <div className="text-xs">
+                  Approved by {proposal.approvals.map(nameOf).join(', ')} ({proposal.approvals.length} of{' '}
+                  {reconciliation.evaluatorUids.length})
+                </div>
+                {canParticipate && !proposal.approvals.includes(viewerUid) && (
+                  <Button type="button" size="sm" onClick={handleApprove} disabled={isBusy}>
+                    <Check className="mr-2 h-4 w-4" /> Approve this score
+                  </Button>
+                )}
+              </div>
+            )}
+            {canParticipate && (
+              <div className="space-y-2 rounded-md border border-gray-100 p-3">
+                <Label htmlFor="proposed-score" className="font-medium text-gray-900">
+                  {proposal ? 'Propose a different final score' : 'Propose a final score'}
+                </Label>
+                <Input
+                  id="proposed-score"
+                  type="number"
+                  min={0}
+                  max={maxScore}
+                  step={0.5}
+                  value={proposedScore}
+                  onChange={(event) => setProposedScore(event.target.value)}
+                  className="w-32"
+                  disabled={isBusy}
+                />
+                <Textarea
+                  value={justification}
+                  onChange={(event) => setJustification(event.target.value)}
+                  placeholder="How did you reach this score?"
+                  rows={2}
+                  maxLength={2000}
+                  disabled={isBusy}
+                />
+                <p className="text-xs text-gray-500">
+                  A new proposal replaces the current one. The score is final once every evaluator has approved it.
+                </p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handlePropose}
+                  disabled={isBusy || proposedScore === '' || !justification.trim()}
+                >
+                  Propose
+                </Button>
+              </div>
+            )}
+            {!canParticipate && <p className="text-gray-500">This round is closed; an admin will record the final score.</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,384 @@
+// src/app/mentor/evaluation/[roundId]/[submissionId]/page.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ArrowLeft, EyeOff, FileText, Loader2, Lock, Save, Send, ShieldAlert } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  getEvaluationAttachmentUrlAction,
+  getScoreSheetAction,
+  saveEvaluationScoreAction,
+} from '@/app/actions/evaluation-score-actions';
+import { declareEvaluationConflictAction } from '@/app/actions/evaluation-assignment-actions';
+import { evaluatorTotal } from '@/lib/score-aggregation';
+import {
+  CRITERION_SCORE_MAX,
+  CRITERION_SCORE_STEP,
+  alignCriterionScores,
+  unscoredCriteria,
+} from '@/lib/validation/evaluation-score-schema';
+import type { CriterionScore, ScoreSheet } from '@/types/evaluation-score';
+import ReconciliationPanel from './ReconciliationPanel';
+
+// Application answers shown to the evaluator, in reading order
+const ANSWER_FIELDS: { key: keyof ScoreSheet['submission']; label: string }[] = [
+  { key: 'startupIdea', label: 'Startup idea' },
+  { key: 'problemSolving', label: 'Problem being solved' },
+  { key: 'targetAudience', label: 'Target audience' },
+  { key: 'uniqueness', label: 'What makes it unique' },
+  { key: 'developmentStage', label: 'Development stage' },
+  { key: 'founderNames', label: 'Founders' },
+  { key: 'founderBio', label: 'Founder background' },
+  { key: 'teamInfo', label: 'Team' },
+  { key: 'domain', label: 'Domain' },
+  { key: 'sector', label: 'Sector' },
+  { key: 'legalStatus', label: 'Legal status' },
+];
+
+export default function ScoreSubmissionPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const roundId = Array.isArray(params.roundId) ? params.roundId[0] : params.roundId;
+  const submissionId = Array.isArray(params.submissionId) ? params.submissionId[0] : params.submissionId;
+
+  const [sheet, setSheet] = useState<ScoreSheet | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scores, setScores] = useState<CriterionScore[]>([]);
+  const [overallComment, setOverallComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmSubmit, setConfirmSubmit] = useState(false);
+  const [conflictDetail, setConflictDetail] = useState<string | null>(null); // Set while declaring a conflict
+  const [submitCount, setSubmitCount] = useState(0); // Submitting can open a reconciliation thread
+
+  useEffect(() => {
+    if (!roundId || !submissionId) return;
+    getScoreSheetAction(roundId, submissionId).then((result) => {
+      if (result.success && result.sheet) {
+        setSheet(result.sheet);
+        setScores(alignCriterionScores(result.sheet.round.criteria, result.sheet.score?.criterionScores ?? []));
+        setOverallComment(result.sheet.score?.overallComment ?? '');
+      } else {
+        setError(result.message ?? 'Failed to load the score sheet.');
+      }
+    });
+  }, [roundId, submissionId]);
+
+  // Shown as the evaluator types; the stored total is worked out again on the server
+  const runningTotal = useMemo(
+    () => (sheet ? evaluatorTotal(sheet.round.scoringMethod, sheet.round.criteria, scores, sheet.round.maxScore) : null),
+    [sheet, scores]
+  );
+  const missing = useMemo(() => (sheet ? unscoredCriteria(sheet.round.criteria, scores) : []), [sheet, scores]);
+
+  const updateScore = (index: number, change: Partial<CriterionScore>) => {
+    setScores((current) => current.map((score, i) => (i === index ? { ...score, ...change } : score)));
+    setConfirmSubmit(false);
+  };
+
+  const handleSave = async (submit: boolean) => {
+    if (!sheet || !roundId || !submissionId) return;
+    setIsSaving(true);
+    const result = await saveEvaluationScoreAction(roundId, submissionId, { criterionScores: scores, overallComment }, submit);
+    setIsSaving(false);
+    setConfirmSubmit(false);
+    if (result.success && result.score) {
+      const score = result.score;
+      setSheet({
+        ...sheet,
+        score,
+        editable: score.status !== 'submitted',
+        lockedReason: score.status === 'submitted' ? 'You have submitted this score.' : undefined,
+      });
+      if (score.status === 'submitted') {
+        setSubmitCount((count) => count + 1);
+      }
+      toast({ title: result.message });
+    } else {
+      toast({ title: 'Could not save the score', description: result.message, variant: 'destructive' });
+    }
+  };
+
+  const handleDeclareConflict = async () => {
+    if (!roundId || !submissionId || conflictDetail === null) return;
+    setIsSaving(true);
+    const result = await declareEvaluationConflictAction(roundId, submissionId, conflictDetail);
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: result.message });
+      router.push('/mentor/evaluation');
+    } else {
+      toast({ title: 'Could not record the conflict', description: result.message, variant: 'destructive' });
+    }
+  };
+
+  const openAttachment = async (attachmentId: string) => {
+    if (!roundId || !submissionId) return;
+    const result = await getEvaluationAttachmentUrlAction(roundId, submissionId, attachmentId);
+    if (result.success && result.url) {
+      window.open(result.url, '_blank', 'noopener,noreferrer');
+    } else {
+      toast({ title: 'Could not open the file', description: result.message, variant: 'destructive' });
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-4">
+        <Link href="/mentor/evaluation" className="inline-flex items-center text-sm text-blue-600 hover:underline">
+          <ArrowLeft className="mr-1 h-4 w-4" /> Back to evaluations
+        </Link>
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="py-6 text-sm text-red-700">{error}</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!sheet) {
+    return (
+      <div className="flex items-center justify-center py-24 text-gray-500">
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Loading score sheet...
+      </div>
+    );
+  }
+
+  const { round, submission } = sheet;
+
+  return (
+    <div className="space-y-6">
+      <Link href="/mentor/evaluation" className="inline-flex items-center text-sm text-blue-600 hover:underline">
+        <ArrowLeft className="mr-1 h-4 w-4" /> Back to evaluations
+      </Link>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{submission.companyName || 'Unnamed startup'}</h1>
+            <p className="text-gray-600">
+              {round.roundName} · {round.phase}
+              {round.evaluationDeadline && ` · due ${format(new Date(round.evaluationDeadline), 'PPp')}`}
+            </p>
+          </div>
+          <Badge variant={sheet.score?.status === 'submitted' ? 'default' : 'outline'}>
+            {sheet.score?.status === 'submitted' ? 'Submitted' : sheet.score ? 'Draft saved' : 'Not started'}
+          </Badge>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* The application */}
+        <Card className="border-gray-200 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-lg text-gray-900">Application</CardTitle>
+            <CardDescription>
+              {round.blindEvaluation ? (
+                <span className="flex items-center gap-1">
+                  <EyeOff className="h-4 w-4" /> Blind evaluation: names, contact details and links are hidden
+                </span>
+              ) : (
+                [submission.fullName, submission.email].filter(Boolean).join(' · ')
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            {ANSWER_FIELDS.filter(({ key }) => submission[key]).map(({ key, label }) => (
+              <div key={key}>
+                <div className="font-medium text-gray-900">{label}</div>
+                <p className="whitespace-pre-wrap text-gray-700">{String(submission[key])}</p>
+              </div>
+            ))}
+            {(submission.linkedinUrl || submission.portfolioUrl || submission.videoUrl) && (
+              <div className="flex flex-wrap gap-3">
+                {[submission.linkedinUrl, submission.portfolioUrl, submission.videoUrl]
+                  .filter((url): url is string => Boolean(url))
+                  .map((url) => (
+                    <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                      {url}
+                    </a>
+                  ))}
+              </div>
+            )}
+            {submission.attachments && submission.attachments.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {submission.attachments.map((attachment) => (
+                  <Button key={attachment.id} type="button" variant="outline" size="sm" onClick={() => openAttachment(attachment.id)}>
+                    <FileText className="mr-1 h-4 w-4" /> {attachment.fileName}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* The score sheet */}
+        <Card className="border-gray-200 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-lg text-gray-900">Score sheet</CardTitle>
+            <CardDescription>
+              Score each criterion from 0 to {CRITERION_SCORE_MAX}.{' '}
+              {round.scoringMethod === 'simple'
+                ? 'Every criterion counts equally toward the total'
+                : 'The total is weighted by the criteria'}
+              , shown out of {round.maxScore}; {round.passingGrade} passes.
+              {round.scoringMethod === 'consensus' &&
+                ` If the evaluators' totals end up more than ${round.consensusThreshold} points apart, you agree on a final score together.`}
+            </CardDescription>
+            {round.evaluatorInstructions && (
+              <p className="mt-2 whitespace-pre-wrap rounded-md bg-blue-50 p-3 text-sm text-blue-900">{round.evaluatorInstructions}</p>
+            )}
+            {!sheet.editable && (
+              <p className="mt-2 flex items-center gap-2 rounded-md bg-gray-100 p-3 text-sm text-gray-700">
+                <Lock className="h-4 w-4" /> {sheet.lockedReason}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-5">
+            {round.criteria.map((criterion, index) => (
+              <div key={criterion.name} className="space-y-2 rounded-md border border-gray-100 p-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <Label htmlFor={`score-${index}`} className="font-medium text-gray-900">
+                      {criterion.name}
+                    </Label>
+                    {criterion.description && <p className="text-xs text-gray-500">{criterion.description}</p>}
+                  </div>
+                  {round.scoringMethod !== 'simple' && <Badge variant="secondary">{criterion.weight}%</Badge>}
+                </div>
+                <Input
+                  id={`score-${index}`}
+                  type="number"
+                  min={0}
+                  max={CRITERION_SCORE_MAX}
+                  step={CRITERION_SCORE_STEP}
+                  value={scores[index]?.score ?? ''}
+                  disabled={!sheet.editable || isSaving}
+                  onChange={(event) =>
+                    updateScore(index, { score: event.target.value === '' ? null : Number(event.target.value) })
+                  }
+                  className="w-32"
+                />
+                <Textarea
+                  value={scores[index]?.comment ?? ''}
+                  disabled={!sheet.editable || isSaving}
+                  onChange={(event) => updateScore(index, { comment: event.target.value })}
+                  placeholder="Comment on this criterion (optional)"
+                  rows={2}
+                  maxLength={2000}
+                />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label htmlFor="overall-comment" className="font-medium text-gray-900">
+                Overall comment
+              </Label>
+              <Textarea
+                id="overall-comment"
+                value={overallComment}
+                disabled={!sheet.editable || isSaving}
+                onChange={(event) => {
+                  setOverallComment(event.target.value);
+                  setConfirmSubmit(false);
+                }}
+                rows={4}
+                maxLength={5000}
+              />
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-wrap items-center justify-between gap-3 border-t border-gray-100 pt-4">
+            <div className="text-sm text-gray-700">
+              Total:{' '}
+              <span className="font-semibold">
+                {sheet.score?.status === 'submitted' && sheet.score.total !== null
+                  ? sheet.score.total
+                  : runningTotal ?? '—'}
+              </span>{' '}
+              / {round.maxScore}
+              {missing.length > 0 && sheet.editable && (
+                <span className="ml-2 text-xs text-gray-500">({missing.length} criteria left)</span>
+              )}
+            </div>
+            {sheet.editable && (
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={() => handleSave(false)} disabled={isSaving}>
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                  Save draft
+                </Button>
+                <Button
+                  type="button"
+                  onClick={() => (confirmSubmit ? handleSave(true) : setConfirmSubmit(true))}
+                  disabled={isSaving || missing.length > 0}
+                  title={missing.length > 0 ? `Score ${missing.join(', ')} first` : undefined}
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  {confirmSubmit ? 'Submit — this is final' : 'Submit score'}
+                </Button>
+              </div>
+            )}
+          </CardFooter>
+        </Card>
+      </div>
+
+      {round.scoringMethod === 'consensus' && roundId && submissionId && (
+        <ReconciliationPanel roundId={roundId} submissionId={submissionId} refreshKey={submitCount} />
+      )}
+
+      {/* Conflict of interest */}
+      {sheet.editable && (
+        <Card className="border-gray-200 bg-white shadow-sm">
+          <CardContent className="space-y-3 py-4 text-sm">
+            {conflictDetail === null ? (
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-gray-600">
+                  Know the founders, mentor them, or have a stake in this startup? Declare a conflict of interest instead of
+                  scoring.
+                </p>
+                <Button type="button" variant="outline" onClick={() => setConflictDetail('')} disabled={isSaving}>
+                  <ShieldAlert className="mr-2 h-4 w-4" /> Declare conflict of interest
+                </Button>
+              </div>
+            ) : (
+              <>
+                <Label htmlFor="conflict-detail" className="font-medium text-gray-900">
+                  Why can&apos;t you evaluate this application impartially?
+                </Label>
+                <Textarea
+                  id="conflict-detail"
+                  value={conflictDetail}
+                  onChange={(event) => setConflictDetail(event.target.value)}
+                  rows={2}
+                  maxLength={1000}
+                />
+                <p className="text-xs text-gray-500">
+                  The application leaves your queue and any draft is discarded. Admins can see what you wrote.
+                </p>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" onClick={() => setConflictDetail(null)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    onClick={handleDeclareConflict}
+                    disabled={isSaving || !conflictDetail.trim()}
+                  >
+                    Declare and leave
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
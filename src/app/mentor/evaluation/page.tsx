@@ -2,11 +2,20 @@
 "use client";
 
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
-import { ClipboardCheck, Star, TrendingUp, Award } from "lucide-react";
+import { ClipboardCheck, Star, TrendingUp, Award, Loader2 } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import Link from "next/link";
+import { format } from "date-fns";
+import { useEffect, useMemo, useState } from "react";
 import { useChat } from '@/hooks/useChat';
+import { useAuth } from "@/contexts/AuthContext";
+import { getMyEvaluationQueueAction } from "@/app/actions/evaluation-score-actions";
+import type { EvaluatorRoundQueue } from "@/types/evaluation-score";
+import VolunteerRoundsCard from "./VolunteerRoundsCard";
+
+const SCORE_STATUS_LABELS = { not_started: 'Not started', draft: 'Draft saved', submitted: 'Submitted' };
 
 export default function MentorEvaluationPage() {
   // Move questions to a variable for reuse
@@ -27,6 +36,42 @@ export default function MentorEvaluationPage() {
     sendMessage(text, 'mentor');
   };
 
+  // Evaluators without a mentor profile only get the scoring workspace
+  const { can, session } = useAuth();
+  const isMentor = can('mentorRequests:respond');
+  const canScore = can('evaluations:score');
+
+  const [queues, setQueues] = useState<EvaluatorRoundQueue[] | null>(null);
+  const [queueError, setQueueError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    if (!canScore) {
+      setQueues([]);
+      return;
+    }
+    getMyEvaluationQueueAction().then((result) => {
+      if (result.success) {
+        setQueues(result.queues ?? []);
+      } else {
+        setQueueError(result.message ?? 'Failed to load your evaluations.');
+      }
+    });
+  }, [session, canScore]);
+
+  const stats = useMemo(() => {
+    const items = (queues ?? []).flatMap((queue) => queue.items.map((item) => ({ round: queue.round, item })));
+    const submitted = items.filter(({ item }) => item.scoreStatus === 'submitted' && item.total !== undefined);
+    return {
+      pending: items.filter(({ round, item }) => round.status === 'Active' && item.scoreStatus !== 'submitted').length,
+      submitted: submitted.length,
+      averagePercent:
+        submitted.length > 0
+          ? Math.round(submitted.reduce((sum, { round, item }) => sum + (item.total ?? 0) / round.maxScore, 0) / submitted.length * 100)
+          : null,
+    };
+  }, [queues]);
+
   return (
     <div className="space-y-8">
       {/* Header Section */}
@@ -37,7 +82,7 @@ export default function MentorEvaluationPage() {
               Evaluation Center
             </h1>
             <p className="text-gray-600 text-lg">
-              Review and provide feedback on your mentees' progress.
+              Score the startups assigned to you{isMentor ? " and review your mentees' progress" : ''}.
             </p>
           </div>
           <div className="flex items-center space-x-2 text-gray-600">
@@ -55,22 +100,24 @@ export default function MentorEvaluationPage() {
             <ClipboardCheck className="h-5 w-5 text-blue-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-blue-700 mb-1">3</div>
+            <div className="text-3xl font-bold text-blue-700 mb-1">{stats.pending}</div>
             <div className="flex items-center text-xs text-gray-500">
-              <span>evaluations pending</span>
+              <span>in open rounds</span>
             </div>
           </CardContent>
         </Card>
 
         <Card className="border-gray-200 bg-white shadow-sm hover:shadow-md transition-shadow">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-gray-700">Average Rating</CardTitle>
+            <CardTitle className="text-sm font-medium text-gray-700">Average Score Given</CardTitle>
             <Star className="h-5 w-5 text-yellow-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-yellow-600 mb-1">4.8</div>
+            <div className="text-3xl font-bold text-yellow-600 mb-1">
+              {stats.averagePercent === null ? '—' : `${stats.averagePercent}%`}
+            </div>
             <div className="flex items-center text-xs text-gray-500">
-              <span>out of 5 stars</span>
+              <span>of each round&apos;s maximum score</span>
             </div>
           </CardContent>
         </Card>
@@ -81,77 +128,163 @@ export default function MentorEvaluationPage() {
             <Award className="h-5 w-5 text-green-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-green-700 mb-1">12</div>
+            <div className="text-3xl font-bold text-green-700 mb-1">{stats.submitted}</div>
             <div className="flex items-center text-xs text-gray-500">
-              <span>reviews completed</span>
+              <span>scores submitted</span>
             </div>
           </CardContent>
         </Card>
       </div>
 
-      {/* Prerequisite Questions Section */}
-      <Card className="border-gray-200 bg-white shadow-sm">
-        <CardHeader>
-          <CardTitle className="text-lg text-gray-900">Prerequisite Questions</CardTitle>
-          <CardDescription className="text-gray-600">
-            Ask your mentee the following questions to assess their progress:
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <ul className="list-disc pl-6 space-y-2 text-gray-800">
-            {prerequisiteQuestions.map((q, idx) => (
-              <li
-                key={idx}
-                className="cursor-pointer hover:underline hover:text-blue-600 transition-colors"
-                onClick={() => sendMentorMessage(q)}
-                tabIndex={0}
-                onKeyDown={e => { if (e.key === 'Enter' || e.key === ' ') sendMentorMessage(q); }}
-                role="button"
-                aria-label={`Send question: ${q}`}
-              >
-                {q}
-              </li>
-            ))}
-          </ul>
-        </CardContent>
-      </Card>
-
-      {/* Chatbox Section */}
-      <Card className="border-gray-200 bg-white shadow-sm">
-        <CardHeader>
-          <CardTitle className="text-lg text-gray-900">Chat with Mentee</CardTitle>
-          <CardDescription className="text-gray-600">
-            Use the chatbox below to communicate with your mentee in real-time.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <ChatBox
-            messages={messages}
-            loading={loading}
-            sendMessage={sendMessage}
-            user={user}
-          />
-        </CardContent>
-      </Card>
-
-      {/* Coming Soon Notice */}
-      <Card className="border-gray-200 bg-white shadow-sm">
-        <CardHeader>
-          <CardTitle className="text-xl text-gray-900">Evaluation System</CardTitle>
-          <CardDescription className="text-gray-600">
-            Comprehensive mentee evaluation and feedback tools
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="text-center py-12">
-          <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-6">
-            <TrendingUp className="h-8 w-8 text-blue-600" />
-          </div>
-          <h3 className="text-lg font-semibold text-gray-900 mb-3">Enhanced Evaluation Tools Coming Soon</h3>
-          <p className="text-gray-600 max-w-md mx-auto">
-            We're developing advanced evaluation features to help you better assess and guide your mentees' progress. Stay tuned for updates!
-          </p>
-        </CardContent>
-      </Card>
+      {/* Assigned submissions, by round */}
+      {queueError ? (
+        <Card className="border-red-200 bg-red-50 shadow-sm">
+          <CardContent className="py-6 text-sm text-red-700">{queueError}</CardContent>
+        </Card>
+      ) : queues === null ? (
+        <Card className="border-gray-200 bg-white shadow-sm">
+          <CardContent className="flex items-center justify-center py-12 text-gray-500">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Loading your evaluations...
+          </CardContent>
+        </Card>
+      ) : queues.length === 0 ? (
+        <Card className="border-gray-200 bg-white shadow-sm">
+          <CardContent className="text-center py-12">
+            <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-6">
+              <TrendingUp className="h-8 w-8 text-blue-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Nothing to score yet</h3>
+            <p className="text-gray-600 max-w-md mx-auto">
+              Submissions the TBI team assigns to you appear here once their evaluation round opens.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        queues.map(({ round, items }) => (
+          <Card key={round.id} className="border-gray-200 bg-white shadow-sm">
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <CardTitle className="text-lg text-gray-900">{round.roundName}</CardTitle>
+                  <CardDescription className="text-gray-600">
+                    {round.phase} · {round.criteria.length} criteri{round.criteria.length === 1 ? 'on' : 'a'} · scored out of {round.maxScore}
+                    {round.evaluationDeadline && ` · due ${format(new Date(round.evaluationDeadline), 'PP')}`}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  {round.blindEvaluation && (
+                    <Badge variant="outline" title="Applicant names and contact details are hidden">
+                      Blind
+                    </Badge>
+                  )}
+                  <Badge variant={round.status === 'Active' ? 'default' : 'secondary'}>{round.status}</Badge>
+                  <span className="text-sm text-gray-500">
+                    {items.filter((item) => item.scoreStatus === 'submitted').length}/{items.length} submitted
+                  </span>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y divide-gray-100">
+                {items.map((item) => (
+                  <li key={item.submissionId} className="flex flex-wrap items-center gap-3 py-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="font-medium text-gray-900">{item.companyName}</div>
+                      <div className="text-xs text-gray-500">
+                        {item.domain && `${item.domain} · `}assigned {format(new Date(item.assignedAt), 'PP')}
+                      </div>
+                    </div>
+                    <Badge variant={item.scoreStatus === 'submitted' ? 'default' : 'outline'}>
+                      {SCORE_STATUS_LABELS[item.scoreStatus]}
+                      {item.total !== undefined && ` · ${item.total}/${round.maxScore}`}
+                    </Badge>
+                    {item.reconciliationStatus && (
+                      <Badge
+                        variant="outline"
+                        className={item.reconciliationStatus === 'open' ? 'border-amber-300 bg-amber-50 text-amber-800' : undefined}
+                        title="The evaluators' totals were too far apart"
+                      >
+                        {item.reconciliationStatus === 'open' ? 'To reconcile' : 'Reconciled'}
+                      </Badge>
+                    )}
+                    <Button
+                      asChild
+                      size="sm"
+                      variant={
+                        item.reconciliationStatus === 'open' || (item.scoreStatus !== 'submitted' && round.status === 'Active')
+                          ? 'default'
+                          : 'outline'
+                      }
+                    >
+                      <Link href={`/mentor/evaluation/${round.id}/${item.submissionId}`}>
+                        {item.reconciliationStatus === 'open'
+                          ? 'Reconcile'
+                          : item.scoreStatus === 'submitted' || round.status !== 'Active'
+                            ? 'View'
+                            : item.scoreStatus === 'draft'
+                              ? 'Continue'
+                              : 'Score'}
+                      </Link>
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {canScore && <VolunteerRoundsCard />}
+
+      {/* Mentee check-in tools, for mentors */}
+      {isMentor && (
+        <>
+          {/* Prerequisite Questions Section */}
+          <Card className="border-gray-200 bg-white shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg text-gray-900">Prerequisite Questions</CardTitle>
+              <CardDescription className="text-gray-600">
+                Ask your mentee the following questions to assess their progress:
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="list-disc pl-6 space-y-2 text-gray-800">
+                {prerequisiteQuestions.map((q, idx) => (
+                  <li
+                    key={idx}
+                    className="cursor-pointer hover:underline hover:text-blue-600 transition-colors"
+                    onClick={() => sendMentorMessage(q)}
+                    tabIndex={0}
+                    onKeyDown={e => { if (e.key === 'Enter' || e.key === ' ') sendMentorMessage(q); }}
+                    role="button"
+                    aria-label={`Send question: ${q}`}
+                  >
+                    {q}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+
+          {/* Chatbox Section */}
+          <Card className="border-gray-200 bg-white shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg text-gray-900">Chat with Mentee</CardTitle>
+              <CardDescription className="text-gray-600">
+                Use the chatbox below to communicate with your mentee in real-time.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChatBox
+                messages={messages}
+                loading={loading}
+                sendMessage={sendMessage}
+                user={user}
+              />
+            </CardContent>
+          </Card>
+        </>
+      )}
     </div>
   );
 }
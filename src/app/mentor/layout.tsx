@@ -17,16 +17,20 @@ import {
 import { useUser } from "@/contexts/user-context";
 import { clearUserSession } from "@/lib/client-utils";
 import { logoutUser } from "@/app/actions/auth-actions";
+import { sessionManager } from "@/lib/session-manager";
 import { InnoNexusLogo } from "@/components/icons/innnexus-logo";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import NotificationsPanel from "@/components/ui/notifications-panel";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Permission } from "@/lib/permissions";
 
 interface NavItem {
   href: string;
   label: string;
   icon: React.ReactNode;
   disabled?: boolean;
+  permission: Permission;
 }
 
 function MentorLayoutContent({
@@ -37,6 +41,7 @@ function MentorLayoutContent({
   const pathname = usePathname();
   const router = useRouter();
   const { user } = useUser();
+  const { can } = useAuth();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = React.useState(false);
 
   React.useEffect(() => {
@@ -47,39 +52,52 @@ function MentorLayoutContent({
     }
   }, [isMobileMenuOpen]);
 
-  const navItems: NavItem[] = [
+  const allNavItems: NavItem[] = [
     {
       href: "/mentor/dashboard",
       label: "Dashboard",
       icon: <LayoutDashboard className="h-5 w-5" />,
+      permission: "mentor:portal",
     },
     {
       href: "/mentor/requests",
       label: "Requests",
       icon: <MessageSquare className="h-5 w-5" />,
+      permission: "mentorRequests:respond",
     },
     {
       href: "/mentor/my-mentees",
       label: "My Mentees",
       icon: <Users className="h-5 w-5" />,
+      permission: "mentorRequests:respond",
     },
     {
       href: "/mentor/evaluation",
       label: "Evaluation",
       icon: <ClipboardCheck className="h-5 w-5" />,
+      permission: "evaluations:score",
     },
     {
       href: "/mentor/profile",
       label: "Profile",
       icon: <User className="h-5 w-5" />,
+      permission: "mentorRequests:respond",
     },
   ];
 
+  // Evaluators without a mentor profile only see the sections their role allows
+  const navItems = allNavItems.filter((item) => can(item.permission));
+
   const handleLogout = async () => {
     try {
       await logoutUser();
       clearUserSession();
-      router.push('/login');
+      // Sign out of Firebase here and in every other open tab, then go to the login page
+      if (sessionManager) {
+        await sessionManager.endSession('logout');
+      } else {
+        router.push('/login');
+      }
     } catch (error) {
       console.error('Error during logout:', error);
       clearUserSession();
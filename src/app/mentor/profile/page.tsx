@@ -11,6 +11,8 @@ import { doc, getDoc, setDoc } from "firebase/firestore";
 import { db, storage } from "@/lib/firebase";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { User, Camera, Loader2, Save, Mail, MapPin, Globe, Edit } from "lucide-react";
+import { TwoFactorSettingsCard } from "@/components/auth/two-factor-settings-card";
+import { SignOutEverywhereCard } from "@/components/auth/sign-out-everywhere-card";
 
 function getInitials(name: string) {
   if (!name) return "?";
@@ -409,6 +411,11 @@ export default function MentorProfilePage() {
           </form>
         </CardContent>
       </Card>
+
+      <div className="mt-8 space-y-8">
+        <TwoFactorSettingsCard />
+        <SignOutEverywhereCard className="border-gray-200 bg-white shadow-sm" titleClassName="text-gray-900" />
+      </div>
     </div>
   );
 }
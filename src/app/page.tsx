@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import MainNavbar from '@/components/ui/main-navbar';
 import Footer from '@/components/ui/footer';
 import HeroSection from '@/components/sections/hero-section';
@@ -16,6 +16,26 @@ import ApplicationFormDialog from '@/components/ui/application-form-dialog';
 export default function HomePage() {
   const [isApplicationFormOpen, setIsApplicationFormOpen] = useState(false);
   const [showMainContent, setShowMainContent] = useState(false);
+  const [resumeToken, setResumeToken] = useState<string | null>(null);
+
+  // "Continue your application" links land here with ?resumeApplication=<token>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('resumeApplication');
+    if (!token) return;
+    setResumeToken(token);
+    // Keep the token out of the address bar and history
+    params.delete('resumeApplication');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, []);
+
+  // Open the form once the splash screen is out of the way
+  useEffect(() => {
+    if (resumeToken && showMainContent) {
+      setIsApplicationFormOpen(true);
+    }
+  }, [resumeToken, showMainContent]);
   
   const handleOpenApplicationForm = () => {
     // This function now simply opens the unified application form dialog.
@@ -67,6 +87,8 @@ export default function HomePage() {
       <ApplicationFormDialog 
         open={isApplicationFormOpen} 
         onOpenChange={setIsApplicationFormOpen} 
+        resumeToken={resumeToken}
+        onResumeHandled={() => setResumeToken(null)}
       />
     </div>
   );
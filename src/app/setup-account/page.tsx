@@ -0,0 +1,43 @@
+// src/app/setup-account/page.tsx
+// Landing page of the password-setup invitation emailed to accepted applicants and new mentors.
+import Link from "next/link";
+import { AlertTriangle } from "lucide-react";
+import { InnoNexusLogo } from "@/components/icons/innnexus-logo";
+import SetupAccountForm from "@/components/auth/setup-account-form";
+import { getAccountInvitationAction } from "@/app/actions/invitation-actions";
+
+export const dynamic = "force-dynamic";
+
+export default async function SetupAccountPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const invitation = token
+    ? await getAccountInvitationAction(token)
+    : { valid: false, error: "This page needs the link from your invitation email." };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex flex-col items-center justify-center p-4">
+      <Link href="/" aria-label="Go to homepage" className="mb-8">
+        <InnoNexusLogo className="h-16 w-auto mx-auto text-gray-700" />
+      </Link>
+
+      {token && invitation.valid && invitation.name && invitation.email ? (
+        <SetupAccountForm token={token} name={invitation.name} email={invitation.email} />
+      ) : (
+        <div className="mx-auto w-full max-w-md rounded-2xl bg-white shadow-lg border border-gray-200 p-6 text-center">
+          <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-amber-50 border border-amber-200 mb-3">
+            <AlertTriangle className="h-6 w-6 text-amber-600" />
+          </div>
+          <h2 className="text-xl font-bold text-gray-900 mb-1">Invitation unavailable</h2>
+          <p className="text-gray-600 text-sm mb-6">{invitation.error || "This invitation link is not valid."}</p>
+          <Link href="/login" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+            Back to login
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
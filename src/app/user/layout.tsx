@@ -32,6 +32,7 @@ import { useOnboarding } from "@/hooks/useOnboarding";
 import { UserProvider, useUser } from "@/contexts/user-context";
 import { clearUserSession } from "@/lib/client-utils";
 // import { logoutUser } from "@/app/actions/auth-actions";
+import { sessionManager } from "@/lib/session-manager";
 import { logoutUser } from "@/app/actions/auth-actions";
 
 interface NavItem {
@@ -97,7 +98,7 @@ function UserLayoutContent({
   ];
   const handleLogout = async () => {
     try {
-      // Sign out from Firebase Auth
+      // Clear the session cookie
       await logoutUser();
 
       // Clear local session data
@@ -108,8 +109,12 @@ function UserLayoutContent({
         setOpen(false);
       }
 
-      // Redirect to login
-      router.push('/login');
+      // Sign out of Firebase here and in every other open tab, then go to the login page
+      if (sessionManager) {
+        await sessionManager.endSession('logout');
+      } else {
+        router.push('/login');
+      }
     } catch (error) {
       console.error('Error during logout:', error);
       // Even if Firebase logout fails, still redirect
@@ -25,6 +25,7 @@ import { useUser } from "@/contexts/user-context";
 import { getUserData } from "@/app/actions/user-actions";
 import { useToast } from "@/hooks/use-toast";
 import { motion } from "framer-motion";
+import { SignOutEverywhereCard } from "@/components/auth/sign-out-everywhere-card";
 
 interface UserProfileData {
   uid: string;
@@ -456,6 +457,16 @@ export default function UserSettingsPage() {
             </CardContent>
           </Card>
         </motion.div>
+
+        {/* Sessions */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.6 }}
+          className="lg:col-span-2"
+        >
+          <SignOutEverywhereCard className="bg-neutral-800/50 border-neutral-700/50" titleClassName="text-white" />
+        </motion.div>
       </div>
     </div>
   );
@@ -1,51 +1,205 @@
-
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { Send } from "lucide-react";
-import { DOMAIN_OPTIONS, SECTOR_OPTIONS } from "@/lib/validation/dropdown-constants";
-
-interface FormData {
-  fullName: string;
-  phone: string;
-  natureOfInquiry: string;
-  companyName: string;
-  companyEmail: string;
-  founderNames: string;
-  founderBio: string;
-  portfolioUrl: string;
-  teamInfo: string;
-  startupIdea: string;
-  problemSolving: string;
-  uniqueness: string;
-  domain: string;
-  sector: string;
+import { Send, RefreshCw, CloudUpload, Mail } from "lucide-react";
+import { getActiveApplicationFormAction } from "@/app/actions/application-form-actions";
+import {
+  loadApplicationDraftAction,
+  requestApplicationResumeLinkAction,
+  resumeApplicationDraftAction,
+  saveApplicationDraftAction,
+  type ApplicationDraftActionResponse,
+} from "@/app/actions/application-draft-actions";
+import { resolveFieldOptions } from "@/lib/validation/application-form-schema";
+import type { ApplicationFormVersion, FormFieldDefinition } from "@/types/application-form";
+import type { ApplicationDraftKey } from "@/types/application-draft";
+import {
+  ApplicationAttachmentsFields,
+  EMPTY_ATTACHMENTS,
+  type ApplicationAttachmentsValue,
+} from "@/components/application/application-attachments-fields";
+
+// Accent bar and focus colours, cycled through the sections of the form
+const SECTION_ACCENTS = [
+  { bar: "from-blue-400 to-blue-600", focus: "focus:border-blue-400/60 focus:ring-blue-400/20" },
+  { bar: "from-purple-400 to-purple-600", focus: "focus:border-purple-400/60 focus:ring-purple-400/20" },
+  { bar: "from-green-400 to-green-600", focus: "focus:border-green-400/60 focus:ring-green-400/20" },
+  { bar: "from-yellow-400 to-orange-600", focus: "focus:border-yellow-400/60 focus:ring-yellow-400/20" },
+];
+
+const INPUT_TYPES: Record<FormFieldDefinition["type"], string> = {
+  text: "text",
+  email: "email",
+  phone: "tel",
+  url: "url",
+  textarea: "text",
+  select: "text",
+};
+
+// Where this browser keeps the key to its saved draft
+const DRAFT_KEY_STORAGE = "applicationDraft";
+const AUTOSAVE_INTERVAL_MS = 5000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type DraftSaveState = "idle" | "saving" | "saved" | "error" | "conflict";
+
+function readStoredDraftKey(): ApplicationDraftKey | null {
+  try {
+    const stored = localStorage.getItem(DRAFT_KEY_STORAGE);
+    return stored ? (JSON.parse(stored) as ApplicationDraftKey) : null;
+  } catch {
+    return null;
+  }
 }
 
-export default function CampusApplicationForm() {
-  const { toast } = useToast();
-  const [formData, setFormData] = useState<FormData>({
-    fullName: "",
-    phone: "",
-    natureOfInquiry: "",
-    companyName: "",
-    companyEmail: "",
-    founderNames: "",
-    founderBio: "",
-    portfolioUrl: "",
-    teamInfo: "",
-    startupIdea: "",
-    problemSolving: "",
-    uniqueness: "",
-    domain: "",
-    sector: "",
-  });
+function getCampusStatus() {
+  return typeof window !== 'undefined' && localStorage.getItem('applicantCampusStatus') === 'off-campus' ? 'off-campus' : 'campus';
+}
+
+function emptyAnswers(form: ApplicationFormVersion): Record<string, string> {
+  return Object.fromEntries(form.sections.flatMap((section) => section.fields.map((field) => [field.key, ""])));
+}
+
+interface CampusApplicationFormProps {
+  resumeToken?: string | null; // From an emailed "continue your application" link
+  onResumeHandled?: () => void; // The link has been used; later mounts restore from this browser instead
+}
 
+export default function CampusApplicationForm({ resumeToken, onResumeHandled }: CampusApplicationFormProps = {}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ApplicationFormVersion | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<Record<string, string>>({});
+  const [attachments, setAttachments] = useState<ApplicationAttachmentsValue>(EMPTY_ATTACHMENTS);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [saveState, setSaveState] = useState<DraftSaveState>("idle");
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [isSendingLink, setIsSendingLink] = useState(false);
+
+  // Autosave reads these from an interval, so keep them in refs
+  const formDataRef = useRef(formData);
+  const draftKeyRef = useRef<ApplicationDraftKey | null>(null);
+  const isDirtyRef = useRef(false);
+  const isSavingRef = useRef(false);
+  const conflictEmailRef = useRef<string | null>(null);
+  const restoredRef = useRef(false);
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  formDataRef.current = formData;
+
+  const loadForm = useCallback(async () => {
+    setLoadError(null);
+    try {
+      const activeForm = await getActiveApplicationFormAction();
+      setForm(activeForm);
+      // Keep whatever the applicant already typed into fields that still exist
+      setFormData(prev => ({ ...emptyAnswers(activeForm), ...prev }));
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "The application form could not be loaded.");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadForm();
+  }, [loadForm]);
+
+  const applyDraft = useCallback((result: ApplicationDraftActionResponse) => {
+    if (!result.success || !result.draft || !result.key) return false;
+    const { answers, campusStatus } = result.draft;
+    draftKeyRef.current = result.key;
+    localStorage.setItem(DRAFT_KEY_STORAGE, JSON.stringify(result.key));
+    localStorage.setItem('applicantCampusStatus', campusStatus ?? 'campus');
+    // Answers to questions the current form no longer asks are dropped on the next save
+    setFormData(prev => ({ ...prev, ...answers }));
+    setLastSavedAt(new Date(result.draft.updatedAt));
+    setSaveState("saved");
+    return true;
+  }, []);
+
+  // Once the form is there, bring back the draft from a resume link or from this browser
+  useEffect(() => {
+    if (!form || restoredRef.current) return;
+    restoredRef.current = true;
+
+    (async () => {
+      if (resumeToken) {
+        const result = await resumeApplicationDraftAction(resumeToken);
+        onResumeHandled?.();
+        if (applyDraft(result)) {
+          toast({ title: "Application Restored", description: result.message });
+          return;
+        }
+        toast({ title: "Could Not Resume", description: result.message, variant: "destructive" });
+      }
+
+      const storedKey = readStoredDraftKey();
+      if (storedKey) {
+        const result = await loadApplicationDraftAction(storedKey);
+        if (!applyDraft(result)) {
+          localStorage.removeItem(DRAFT_KEY_STORAGE);
+        }
+      }
+    })();
+  }, [form, resumeToken, onResumeHandled, applyDraft, toast]);
+
+  const saveDraft = useCallback(async () => {
+    if (!form || !isDirtyRef.current || isSavingRef.current) return;
+    const answers = formDataRef.current;
+    const email = (answers.companyEmail ?? "").trim().toLowerCase();
+    // Drafts are keyed by the company email, and a conflicting one is not retried until it changes
+    if (!EMAIL_PATTERN.test(email) || conflictEmailRef.current === email) return;
+
+    isSavingRef.current = true;
+    isDirtyRef.current = false;
+    setSaveState("saving");
+
+    const result = await saveApplicationDraftAction({
+      answers,
+      formVersion: form.version,
+      campusStatus: getCampusStatus(),
+      key: draftKeyRef.current ?? undefined,
+    });
+
+    if (result.success && result.key) {
+      draftKeyRef.current = result.key;
+      localStorage.setItem(DRAFT_KEY_STORAGE, JSON.stringify(result.key));
+      setLastSavedAt(new Date());
+      setSaveState("saved");
+    } else if (result.conflict) {
+      conflictEmailRef.current = email;
+      setSaveState("conflict");
+    } else {
+      isDirtyRef.current = true;
+      setSaveState("error");
+    }
+    isSavingRef.current = false;
+  }, [form]);
+
+  useEffect(() => {
+    if (!form) return;
+    const interval = setInterval(saveDraft, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [form, saveDraft]);
+
+  const handleSendResumeLink = async () => {
+    const email = (formData.companyEmail ?? "").trim();
+    setIsSendingLink(true);
+    const result = await requestApplicationResumeLinkAction(email);
+    toast({
+      title: result.success ? "Check Your Inbox" : "Could Not Send Link",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    setIsSendingLink(false);
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
+    isDirtyRef.current = true;
+    if (name === "companyEmail") {
+      conflictEmailRef.current = null;
+      setSaveState(state => (state === "conflict" ? "idle" : state));
+    }
     setFormData(prev => ({
       ...prev,
       [name]: value
@@ -54,6 +208,7 @@ export default function CampusApplicationForm() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!form) return;
     setIsSubmitting(true);
 
     try {
@@ -61,7 +216,14 @@ export default function CampusApplicationForm() {
 
       const submissionData = {
         ...formData,
+        formVersion: form.version,
         campusStatus: campusStatus,
+        attachments: Object.values(attachments.files).map((file) => file.token),
+        videoUrl: attachments.videoUrl,
+        // Lets the server delete the saved draft once the application is in
+        draftToken: draftKeyRef.current?.token,
+        // Hidden from people; bots that fill every input get their submission discarded
+        _website: honeypotRef.current?.value ?? '',
       };
 
       const response = await fetch('/api/contact-submissions', {
@@ -77,31 +239,26 @@ export default function CampusApplicationForm() {
       if (response.ok) {
         toast({
           title: "Application Submitted!",
-          description: "Thank you for your interest. We'll be in touch soon.",
+          description: "Thank you for your interest. You can follow its progress at /application/status.",
           variant: "default"
         });
-        setFormData({
-          fullName: "",
-          phone: "",
-          natureOfInquiry: "",
-          companyName: "",
-          companyEmail: "",
-          founderNames: "",
-          founderBio: "",
-          portfolioUrl: "",
-          teamInfo: "",
-          startupIdea: "",
-          problemSolving: "",
-          uniqueness: "",
-          domain: "",
-          sector: "",
-        });
+        setFormData(emptyAnswers(form));
+        setAttachments(EMPTY_ATTACHMENTS);
+        draftKeyRef.current = null;
+        isDirtyRef.current = false;
+        localStorage.removeItem(DRAFT_KEY_STORAGE);
+        setSaveState("idle");
+        setLastSavedAt(null);
       } else {
         toast({
           title: "Submission Failed",
           description: result.message || "There was an error submitting your application.",
           variant: "destructive"
         });
+        // The form was replaced while the applicant was filling it in
+        if (response.status === 409) {
+          await loadForm();
+        }
       }
     } catch (error) {
       toast({
@@ -114,6 +271,66 @@ export default function CampusApplicationForm() {
     }
   };
 
+  const renderField = (field: FormFieldDefinition, focusClass: string) => {
+    const baseClass = `w-full bg-neutral-800/60 border border-neutral-600/50 ${focusClass} focus:ring-2 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500`;
+    const value = formData[field.key] ?? "";
+
+    let control: React.ReactNode;
+    if (field.type === "textarea") {
+      control = (
+        <textarea
+          id={field.key}
+          name={field.key}
+          required={field.required}
+          placeholder={field.placeholder}
+          className={`${baseClass} min-h-[100px] resize-y`}
+          value={value}
+          onChange={handleChange}
+        />
+      );
+    } else if (field.type === "select") {
+      control = (
+        <select
+          id={field.key}
+          name={field.key}
+          required={field.required}
+          className={baseClass}
+          value={value}
+          onChange={handleChange}
+        >
+          <option value="" className="bg-neutral-800">{field.placeholder || `Select ${field.label.toLowerCase()}...`}</option>
+          {resolveFieldOptions(field).map((option) => (
+            <option key={option} value={option} className="bg-neutral-800">{option}</option>
+          ))}
+        </select>
+      );
+    } else {
+      control = (
+        <input
+          id={field.key}
+          name={field.key}
+          type={INPUT_TYPES[field.type]}
+          required={field.required}
+          placeholder={field.placeholder}
+          className={baseClass}
+          value={value}
+          onChange={handleChange}
+        />
+      );
+    }
+
+    return (
+      <div key={field.key} className={`space-y-2 ${field.type === "textarea" ? "md:col-span-2" : ""}`}>
+        <label htmlFor={field.key} className="text-sm font-medium text-neutral-300 flex items-center">
+          {field.label}
+          {field.required && <span className="text-red-400 ml-1">*</span>}
+        </label>
+        {control}
+        {field.helpText && <p className="text-xs text-neutral-500">{field.helpText}</p>}
+      </div>
+    );
+  };
+
   return (
     <div className="max-w-4xl mx-auto bg-gradient-to-br from-neutral-900/90 to-neutral-800/90 backdrop-blur-sm rounded-2xl border border-neutral-700/50 shadow-2xl">
       {/* Header Section */}
@@ -122,308 +339,147 @@ export default function CampusApplicationForm() {
           <div className="w-2 h-8 bg-gradient-to-b from-blue-400 to-purple-500 rounded-full"></div>
           <div>
             <h2 className="text-2xl font-bold text-white bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
-              Incubation Application
+              {form?.title ?? "Incubation Application"}
             </h2>
-            <p className="text-neutral-400 text-sm mt-1">
-              Join our innovation ecosystem and transform your startup vision into reality
-            </p>
+            {form?.description && (
+              <p className="text-neutral-400 text-sm mt-1">{form.description}</p>
+            )}
           </div>
         </div>
       </div>
 
-      <form onSubmit={handleSubmit} className="p-8 space-y-8">
-        {/* Personal Information Section */}
-        <div className="space-y-6">
-          <div className="flex items-center space-x-2 mb-4">
-            <div className="w-1 h-6 bg-gradient-to-b from-blue-400 to-blue-600 rounded-full"></div>
-            <h3 className="text-lg font-semibold text-neutral-200">Personal Information</h3>
-          </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Full Name */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-neutral-300 flex items-center">
-                Full Name
-                <span className="text-red-400 ml-1">*</span>
-              </label>
-              <input
-                name="fullName"
-                type="text"
-                required
-                placeholder="e.g. Ada Lovelace"
-                className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-blue-400/60 focus:ring-2 focus:ring-blue-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500"
-                value={formData.fullName}
-                onChange={handleChange}
-              />
-            </div>
-
-            {/* Phone Number */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-neutral-300">Phone Number</label>
-              <input
-                name="phone"
-                type="text"
-                placeholder="e.g. +91 9876543210"
-                className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-blue-400/60 focus:ring-2 focus:ring-blue-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500"
-                value={formData.phone}
-                onChange={handleChange}
-              />
-            </div>
-          </div>
-
-          {/* Nature of Inquiry */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-neutral-300 flex items-center">
-              Nature of Inquiry
-              <span className="text-red-400 ml-1">*</span>
-            </label>
-            <select
-              name="natureOfInquiry"
-              required
-              className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-blue-400/60 focus:ring-2 focus:ring-blue-400/20 rounded-lg px-4 py-3 text-white transition-all duration-200 hover:border-neutral-500"
-              value={formData.natureOfInquiry}
-              onChange={handleChange}
-            >
-              <option value="" className="bg-neutral-800">Select your inquiry type...</option>
-              <option value="Incubation" className="bg-neutral-800">Incubation</option>
-              <option value="Startup Idea" className="bg-neutral-800">Startup Idea</option>
-              <option value="General Question" className="bg-neutral-800">General Question</option>
-            </select>
-          </div>
-        </div>
-
-        {/* Company Information Section */}
-        <div className="space-y-6">
-          <div className="flex items-center space-x-2 mb-4">
-            <div className="w-1 h-6 bg-gradient-to-b from-purple-400 to-purple-600 rounded-full"></div>
-            <h3 className="text-lg font-semibold text-neutral-200">Company Information</h3>
-          </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Company Name */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-neutral-300 flex items-center">
-                Company Name
-                <span className="text-red-400 ml-1">*</span>
-              </label>
-              <input
-                name="companyName"
-                type="text"
-                required
-                placeholder="e.g. Tech Innovations Inc."
-                className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-purple-400/60 focus:ring-2 focus:ring-purple-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500"
-                value={formData.companyName}
-                onChange={handleChange}
-              />
-            </div>
-
-            {/* Company Email */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-neutral-300 flex items-center">
-                Company Email
-                <span className="text-red-400 ml-1">*</span>
-              </label>
-              <input
-                name="companyEmail"
-                type="email"
-                required
-                placeholder="e.g. founder@company.com"
-                className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-purple-400/60 focus:ring-2 focus:ring-purple-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500"
-                value={formData.companyEmail}
-                onChange={handleChange}
-              />
-            </div>
-          </div>
-
-          {/* Business Classification */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Domain */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-neutral-300 flex items-center">
-                Domain
-                <span className="text-red-400 ml-1">*</span>
-              </label>
-              <select
-                name="domain"
-                required
-                className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-purple-400/60 focus:ring-2 focus:ring-purple-400/20 rounded-lg px-4 py-3 text-white transition-all duration-200 hover:border-neutral-500"
-                value={formData.domain}
-                onChange={handleChange}
+      {!form ? (
+        <div className="p-8 flex flex-col items-center justify-center min-h-[300px] text-center">
+          {loadError ? (
+            <>
+              <p className="text-neutral-300 mb-4">{loadError}</p>
+              <button
+                type="button"
+                onClick={loadForm}
+                className="inline-flex items-center rounded-lg border border-neutral-600 px-4 py-2 text-sm text-neutral-200 hover:bg-neutral-800"
               >
-                <option value="" className="bg-neutral-800">Select domain...</option>
-                {DOMAIN_OPTIONS.map((domain) => (
-                  <option key={domain} value={domain} className="bg-neutral-800">{domain}</option>
-                ))}
-              </select>
-            </div>
-
-            {/* Sector */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-neutral-300 flex items-center">
-                Sector
-                <span className="text-red-400 ml-1">*</span>
-              </label>
-              <select
-                name="sector"
-                required
-                className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-purple-400/60 focus:ring-2 focus:ring-purple-400/20 rounded-lg px-4 py-3 text-white transition-all duration-200 hover:border-neutral-500"
-                value={formData.sector}
-                onChange={handleChange}
-              >
-                <option value="" className="bg-neutral-800">Select sector...</option>
-                {SECTOR_OPTIONS.map((sector) => (
-                  <option key={sector} value={sector} className="bg-neutral-800">{sector}</option>
-                ))}
-              </select>
-            </div>
-          </div>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Try again
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400 mb-3"></div>
+              <p className="text-neutral-400 text-sm">Loading application form...</p>
+            </>
+          )}
         </div>
-
-        {/* Founder Information Section */}
-        <div className="space-y-6">
-          <div className="flex items-center space-x-2 mb-4">
-            <div className="w-1 h-6 bg-gradient-to-b from-green-400 to-green-600 rounded-full"></div>
-            <h3 className="text-lg font-semibold text-neutral-200">Founder Information</h3>
-          </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Founder Names */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-neutral-300 flex items-center">
-                Founder Name(s)
-                <span className="text-red-400 ml-1">*</span>
-              </label>
-              <input
-                name="founderNames"
-                type="text"
-                required
-                placeholder="e.g. Ada Lovelace, Alan Turing"
-                className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-green-400/60 focus:ring-2 focus:ring-green-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500"
-                value={formData.founderNames}
-                onChange={handleChange}
-              />
+      ) : (
+        <form onSubmit={handleSubmit} className="p-8 space-y-8">
+          <input
+            ref={honeypotRef}
+            type="text"
+            name="website"
+            tabIndex={-1}
+            autoComplete="off"
+            aria-hidden="true"
+            className="absolute -left-[10000px] h-px w-px overflow-hidden opacity-0"
+          />
+          {/* Draft autosave status */}
+          {saveState === "conflict" ? (
+            <div className="rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <span>An application draft is already saved for this email. We can email you a link to continue it.</span>
+              <button
+                type="button"
+                onClick={handleSendResumeLink}
+                disabled={isSendingLink}
+                className="inline-flex items-center justify-center rounded-lg border border-amber-400/50 px-3 py-1.5 text-amber-100 hover:bg-amber-500/20 disabled:opacity-60"
+              >
+                <Mail className="mr-2 h-4 w-4" />
+                Email me the link
+              </button>
             </div>
-
-            {/* Portfolio URL */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-neutral-300">LinkedIn or Portfolio URL</label>
-              <input
-                name="portfolioUrl"
-                type="url"
-                placeholder="e.g. https://linkedin.com/in/yourprofile"
-                className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-green-400/60 focus:ring-2 focus:ring-green-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500"
-                value={formData.portfolioUrl}
-                onChange={handleChange}
-              />
+          ) : (
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-xs text-neutral-500">
+              <span className="flex items-center">
+                <CloudUpload className="mr-2 h-4 w-4" />
+                {saveState === "saving" && "Saving draft..."}
+                {saveState === "saved" && lastSavedAt && `Draft saved at ${lastSavedAt.toLocaleTimeString()}`}
+                {saveState === "error" && "Could not save your draft. We will keep trying."}
+                {saveState === "idle" && "Your answers are saved as a draft once you enter your company email."}
+              </span>
+              {saveState === "saved" && (
+                <button
+                  type="button"
+                  onClick={handleSendResumeLink}
+                  disabled={isSendingLink}
+                  className="inline-flex items-center text-blue-400 hover:text-blue-300 disabled:opacity-60"
+                >
+                  <Mail className="mr-1 h-3.5 w-3.5" />
+                  Email me a link to continue later
+                </button>
+              )}
             </div>
-          </div>
+          )}
 
-          {/* Founder Bio */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-neutral-300 flex items-center">
-              Founder Bio
-              <span className="text-red-400 ml-1">*</span>
-            </label>
-            <textarea
-              name="founderBio"
-              required
-              placeholder="Brief bio of the founder(s)..."
-              className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-green-400/60 focus:ring-2 focus:ring-green-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500 min-h-[100px] resize-y"
-              value={formData.founderBio}
-              onChange={handleChange}
-            />
-          </div>
+          {form.sections.map((section, index) => {
+            const accent = SECTION_ACCENTS[index % SECTION_ACCENTS.length];
+            return (
+              <div key={section.id} className="space-y-6">
+                <div className="mb-4">
+                  <div className="flex items-center space-x-2">
+                    <div className={`w-1 h-6 bg-gradient-to-b ${accent.bar} rounded-full`}></div>
+                    <h3 className="text-lg font-semibold text-neutral-200">{section.title}</h3>
+                  </div>
+                  {section.description && (
+                    <p className="text-sm text-neutral-400 mt-2 ml-3">{section.description}</p>
+                  )}
+                </div>
 
-          {/* Team Information */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-neutral-300">Team Information</label>
-            <textarea
-              name="teamInfo"
-              placeholder="Describe your team (optional)..."
-              className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-green-400/60 focus:ring-2 focus:ring-green-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500 min-h-[100px] resize-y"
-              value={formData.teamInfo}
-              onChange={handleChange}
-            />
-          </div>
-        </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {section.fields.map((field) => renderField(field, accent.focus))}
+                </div>
+              </div>
+            );
+          })}
 
-        {/* Startup Details Section */}
-        <div className="space-y-6">
-          <div className="flex items-center space-x-2 mb-4">
-            <div className="w-1 h-6 bg-gradient-to-b from-yellow-400 to-orange-600 rounded-full"></div>
-            <h3 className="text-lg font-semibold text-neutral-200">Startup Details</h3>
-          </div>
-          
-          {/* Startup Idea */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-neutral-300 flex items-center">
-              Describe Your Startup Idea
-              <span className="text-red-400 ml-1">*</span>
-            </label>
-            <textarea
-              name="startupIdea"
-              required
-              placeholder="Describe your startup idea in detail..."
-              className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-yellow-400/60 focus:ring-2 focus:ring-yellow-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500 min-h-[120px] resize-y"
-              value={formData.startupIdea}
-              onChange={handleChange}
+          {/* Supporting documents, uploaded and checked before the application is submitted */}
+          <div className="space-y-6">
+            <div className="mb-4">
+              <div className="flex items-center space-x-2">
+                <div className={`w-1 h-6 bg-gradient-to-b ${SECTION_ACCENTS[form.sections.length % SECTION_ACCENTS.length].bar} rounded-full`}></div>
+                <h3 className="text-lg font-semibold text-neutral-200">Supporting Documents</h3>
+              </div>
+              <p className="text-sm text-neutral-400 mt-2 ml-3">Optional. Attach your pitch deck and business plan, and link a short pitch video.</p>
+            </div>
+            <ApplicationAttachmentsFields
+              value={attachments}
+              onChange={setAttachments}
+              focusClass={SECTION_ACCENTS[form.sections.length % SECTION_ACCENTS.length].focus}
             />
           </div>
 
-          {/* Problem Solving */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-neutral-300">What Problem Are You Solving?</label>
-            <textarea
-              name="problemSolving"
-              placeholder="Describe the problem your startup addresses (optional)..."
-              className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-yellow-400/60 focus:ring-2 focus:ring-yellow-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500 min-h-[80px] resize-y"
-              value={formData.problemSolving}
-              onChange={handleChange}
-            />
-          </div>
+          {/* Submit Button */}
+          <div className="pt-6 border-t border-neutral-700/50">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 disabled:from-neutral-600 disabled:to-neutral-700 text-white font-semibold py-4 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.02] hover:shadow-lg hover:shadow-blue-500/25 disabled:hover:scale-100 disabled:hover:shadow-none flex items-center justify-center group"
+            >
+              {isSubmitting ? (
+                <>
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
+                  Submitting Application...
+                </>
+              ) : (
+                <>
+                  Let's Build the Future Together
+                  <Send className="ml-3 h-5 w-5 transition-transform group-hover:translate-x-1" />
+                </>
+              )}
+            </button>
 
-          {/* Uniqueness */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-neutral-300 flex items-center">
-              What Makes Your Startup Unique?
-              <span className="text-red-400 ml-1">*</span>
-            </label>
-            <textarea
-              name="uniqueness"
-              required
-              placeholder="What differentiates your startup from competitors?"
-              className="w-full bg-neutral-800/60 border border-neutral-600/50 focus:border-yellow-400/60 focus:ring-2 focus:ring-yellow-400/20 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500 min-h-[80px] resize-y"
-              value={formData.uniqueness}
-              onChange={handleChange}
-            />
+            <p className="text-center text-xs text-neutral-500 mt-4">
+              By submitting this form, you agree to our terms of service and privacy policy.
+            </p>
           </div>
-        </div>
-
-        {/* Submit Button */}
-        <div className="pt-6 border-t border-neutral-700/50">
-          <button 
-            type="submit" 
-            disabled={isSubmitting}
-            className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 disabled:from-neutral-600 disabled:to-neutral-700 text-white font-semibold py-4 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.02] hover:shadow-lg hover:shadow-blue-500/25 disabled:hover:scale-100 disabled:hover:shadow-none flex items-center justify-center group"
-          >
-            {isSubmitting ? (
-              <>
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
-                Submitting Application...
-              </>
-            ) : (
-              <>
-                Let's Build the Future Together
-                <Send className="ml-3 h-5 w-5 transition-transform group-hover:translate-x-1" />
-              </>
-            )}
-          </button>
-          
-          <p className="text-center text-xs text-neutral-500 mt-4">
-            By submitting this form, you agree to our terms of service and privacy policy.
-          </p>
-        </div>
-      </form>
+        </form>
+      )}
     </div>
   );
 }
@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { FileUp, Loader2, Paperclip, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { uploadSupportingDocument } from "@/app/actions/file-upload-actions";
+import { ATTACHMENT_KINDS, MAX_ATTACHMENT_SIZE, attachmentExtensions } from "@/lib/attachment-validation";
+import type { ApplicationAttachmentKind } from "@/types/application-attachment";
+
+export interface UploadedAttachment {
+  token: string;
+  fileName: string;
+}
+
+export interface ApplicationAttachmentsValue {
+  files: Partial<Record<ApplicationAttachmentKind, UploadedAttachment>>;
+  videoUrl: string;
+}
+
+export const EMPTY_ATTACHMENTS: ApplicationAttachmentsValue = { files: {}, videoUrl: "" };
+
+interface ApplicationAttachmentsFieldsProps {
+  value: ApplicationAttachmentsValue;
+  onChange: (value: ApplicationAttachmentsValue) => void;
+  focusClass: string;
+}
+
+// Pitch deck, business plan and pitch video link; files upload as soon as they are chosen
+export function ApplicationAttachmentsFields({ value, onChange, focusClass }: ApplicationAttachmentsFieldsProps) {
+  const { toast } = useToast();
+  const [uploading, setUploading] = useState<ApplicationAttachmentKind | null>(null);
+
+  const handleFile = async (kind: ApplicationAttachmentKind, file: File | undefined) => {
+    if (!file) return;
+    setUploading(kind);
+    try {
+      const result = await uploadSupportingDocument(file, kind);
+      if (result.success && result.token) {
+        onChange({ ...value, files: { ...value.files, [kind]: { token: result.token, fileName: result.fileName ?? file.name } } });
+      } else {
+        toast({ title: "Upload Failed", description: result.message, variant: "destructive" });
+      }
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const removeFile = (kind: ApplicationAttachmentKind) => {
+    const files = { ...value.files };
+    delete files[kind];
+    onChange({ ...value, files });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {(Object.keys(ATTACHMENT_KINDS) as ApplicationAttachmentKind[]).map((kind) => {
+        const uploaded = value.files[kind];
+        const extensions = attachmentExtensions(kind);
+        return (
+          <div key={kind} className="space-y-2">
+            <label htmlFor={`attachment-${kind}`} className="text-sm font-medium text-neutral-300 flex items-center">
+              {ATTACHMENT_KINDS[kind].label}
+            </label>
+            {uploaded ? (
+              <div className="flex items-center justify-between gap-2 rounded-lg border border-neutral-600/50 bg-neutral-800/60 px-4 py-3 text-sm text-neutral-200">
+                <span className="flex items-center min-w-0">
+                  <Paperclip className="mr-2 h-4 w-4 shrink-0 text-neutral-400" />
+                  <span className="truncate">{uploaded.fileName}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeFile(kind)}
+                  className="text-neutral-400 hover:text-neutral-200"
+                  aria-label={`Remove ${ATTACHMENT_KINDS[kind].label.toLowerCase()}`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ) : (
+              <label
+                htmlFor={`attachment-${kind}`}
+                className="flex cursor-pointer items-center justify-center rounded-lg border border-dashed border-neutral-600/70 bg-neutral-800/40 px-4 py-3 text-sm text-neutral-400 transition-all duration-200 hover:border-neutral-500 hover:text-neutral-200"
+              >
+                {uploading === kind ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Checking and uploading...
+                  </>
+                ) : (
+                  <>
+                    <FileUp className="mr-2 h-4 w-4" />
+                    Choose a file
+                  </>
+                )}
+              </label>
+            )}
+            <input
+              id={`attachment-${kind}`}
+              type="file"
+              accept={extensions.join(",")}
+              className="sr-only"
+              disabled={uploading !== null}
+              onChange={(event) => {
+                handleFile(kind, event.target.files?.[0]);
+                event.target.value = "";
+              }}
+            />
+            <p className="text-xs text-neutral-500">
+              {extensions.join(", ")} up to {MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB. Files with macros or scripts are not accepted.
+            </p>
+          </div>
+        );
+      })}
+
+      <div className="space-y-2 md:col-span-2">
+        <label htmlFor="videoUrl" className="text-sm font-medium text-neutral-300 flex items-center">
+          Pitch Video Link
+        </label>
+        <input
+          id="videoUrl"
+          name="videoUrl"
+          type="url"
+          placeholder="https://youtube.com/..."
+          className={`w-full bg-neutral-800/60 border border-neutral-600/50 ${focusClass} focus:ring-2 rounded-lg px-4 py-3 text-white placeholder-neutral-500 transition-all duration-200 hover:border-neutral-500`}
+          value={value.videoUrl}
+          onChange={(event) => onChange({ ...value, videoUrl: event.target.value })}
+        />
+        <p className="text-xs text-neutral-500">A YouTube, Vimeo or Drive link that anyone with the link can view.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { CheckCircle2, Circle, CircleDot, Loader2, MailCheck, MinusCircle, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import {
+  endApplicationStatusViewAction,
+  requestApplicationStatusCodeAction,
+  verifyApplicationStatusCodeAction,
+} from "@/app/actions/application-status-actions";
+import type { ApplicationStatusSummary, ApplicationTimelineStep } from "@/types/application-status";
+
+interface ApplicationStatusViewProps {
+  initialEmail?: string;
+  initialApplications?: ApplicationStatusSummary[];
+}
+
+const inputClassName =
+  "bg-gray-50 border border-gray-300 text-gray-900 placeholder:text-gray-500 focus:border-gray-600 focus:ring-2 focus:ring-gray-600/20 transition-all duration-200";
+const primaryButtonClassName =
+  "relative block h-10 w-full rounded-lg bg-gray-900 hover:bg-gray-800 font-semibold text-white shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+
+function formatDate(value?: string | null): string | null {
+  if (!value) return null;
+  return new Date(value).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+}
+
+function TimelineStep({ step, isLast }: { step: ApplicationTimelineStep; isLast: boolean }) {
+  const Icon =
+    step.state === "complete" ? CheckCircle2 : step.state === "current" ? CircleDot : step.state === "skipped" ? MinusCircle : Circle;
+  const date = formatDate(step.date);
+
+  return (
+    <li className="relative flex gap-3 pb-5 last:pb-0">
+      {!isLast && (
+        <span
+          className={cn(
+            "absolute left-[11px] top-6 h-[calc(100%-1.5rem)] w-px",
+            step.state === "complete" ? "bg-green-300" : "bg-gray-200"
+          )}
+          aria-hidden
+        />
+      )}
+      <Icon
+        className={cn(
+          "h-6 w-6 shrink-0",
+          step.state === "complete" && "text-green-600",
+          step.state === "current" && "text-blue-600",
+          step.state === "upcoming" && "text-gray-300",
+          step.state === "skipped" && "text-gray-400"
+        )}
+      />
+      <div className="min-w-0">
+        <p className={cn("text-sm font-semibold", step.state === "upcoming" || step.state === "skipped" ? "text-gray-500" : "text-gray-900")}>
+          {step.label}
+        </p>
+        {date && <p className="text-xs text-gray-500">{date}</p>}
+        {step.detail && <p className="text-xs text-gray-600 mt-0.5">{step.detail}</p>}
+      </div>
+    </li>
+  );
+}
+
+export default function ApplicationStatusView({ initialEmail, initialApplications }: ApplicationStatusViewProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState(initialEmail ?? "");
+  const [code, setCode] = useState("");
+  const [step, setStep] = useState<"email" | "code" | "status">(initialApplications ? "status" : "email");
+  const [applications, setApplications] = useState<ApplicationStatusSummary[]>(initialApplications ?? []);
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function handleRequestCode(event?: React.FormEvent) {
+    event?.preventDefault();
+    setIsLoading(true);
+    try {
+      const result = await requestApplicationStatusCodeAction(email);
+      if (result.success) {
+        setStep("code");
+        setCode("");
+        toast({ title: "Check your inbox", description: result.message });
+      } else {
+        toast({ title: "Could not send a code", description: result.message, variant: "destructive" });
+      }
+    } catch (error) {
+      console.error("Error requesting a status code:", error);
+      toast({ title: "Could not send a code", description: "An unexpected error occurred. Please try again.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleVerifyCode(event: React.FormEvent) {
+    event.preventDefault();
+    setIsLoading(true);
+    try {
+      const result = await verifyApplicationStatusCodeAction(email, code);
+      if (result.success) {
+        setApplications(result.applications ?? []);
+        setStep("status");
+      } else {
+        toast({ title: "Verification failed", description: result.message, variant: "destructive" });
+      }
+    } catch (error) {
+      console.error("Error verifying a status code:", error);
+      toast({ title: "Verification failed", description: "An unexpected error occurred. Please try again.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleSignOut() {
+    await endApplicationStatusViewAction();
+    setApplications([]);
+    setCode("");
+    setStep("email");
+  }
+
+  if (step === "status") {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+        className="mx-auto w-full max-w-xl space-y-4"
+      >
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-600 truncate">
+            Applications for <span className="font-medium text-gray-900">{email}</span>
+          </p>
+          <button type="button" onClick={handleSignOut} className="text-sm font-medium text-gray-700 hover:text-gray-900 shrink-0">
+            Not you?
+          </button>
+        </div>
+
+        {applications.length === 0 ? (
+          <div className="rounded-2xl bg-white shadow-lg border border-gray-200 p-6 text-center text-sm text-gray-600">
+            We could not find an application for this email.
+          </div>
+        ) : (
+          applications.map((application) => (
+            <div key={application.id} className="rounded-2xl bg-white shadow-lg border border-gray-200 p-6">
+              <div className="mb-4">
+                <h2 className="text-lg font-bold text-gray-900">{application.companyName}</h2>
+                {application.submittedAt && (
+                  <p className="text-xs text-gray-500">Submitted {formatDate(application.submittedAt)}</p>
+                )}
+              </div>
+              <ol>
+                {application.steps.map((timelineStep, index) => (
+                  <TimelineStep key={timelineStep.id} step={timelineStep} isLast={index === application.steps.length - 1} />
+                ))}
+              </ol>
+            </div>
+          ))
+        )}
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6 }}
+      className="mx-auto w-full max-w-md rounded-2xl bg-white shadow-lg border border-gray-200 p-6"
+    >
+      <div className="text-center mb-6">
+        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-gray-100 border border-gray-200 mb-3">
+          {step === "email" ? <Search className="h-6 w-6 text-gray-700" /> : <MailCheck className="h-6 w-6 text-gray-700" />}
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-1">Track your application</h2>
+        <p className="text-gray-600 text-xs font-medium">
+          {step === "email"
+            ? "Enter the company email you applied with. We'll send you a one-time code."
+            : `Enter the 6-digit code we sent to ${email}.`}
+        </p>
+      </div>
+
+      {step === "email" ? (
+        <form onSubmit={handleRequestCode} className="space-y-4">
+          <div className="flex w-full flex-col space-y-2">
+            <Label htmlFor="status-email" className="text-gray-900 font-medium">Company Email</Label>
+            <Input
+              id="status-email"
+              type="email"
+              autoComplete="email"
+              placeholder="you@startup.com"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              className={inputClassName}
+              disabled={isLoading}
+              required
+            />
+          </div>
+          <button className={primaryButtonClassName} type="submit" disabled={isLoading || !email.trim()}>
+            <div className="flex items-center justify-center">
+              {isLoading && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+              {isLoading ? "Sending..." : "Send code"}
+            </div>
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleVerifyCode} className="space-y-4">
+          <div className="flex w-full flex-col space-y-2">
+            <Label htmlFor="status-code" className="text-gray-900 font-medium">Verification Code</Label>
+            <Input
+              id="status-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              placeholder="123456"
+              value={code}
+              onChange={(event) => setCode(event.target.value.replace(/\D/g, ""))}
+              className={cn(inputClassName, "tracking-[0.4em] text-center text-lg")}
+              disabled={isLoading}
+              required
+            />
+          </div>
+          <button className={primaryButtonClassName} type="submit" disabled={isLoading || code.length !== 6}>
+            <div className="flex items-center justify-center">
+              {isLoading && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+              {isLoading ? "Verifying..." : "View status"}
+            </div>
+          </button>
+          <div className="flex justify-between text-sm">
+            <button type="button" onClick={() => setStep("email")} className="font-medium text-gray-700 hover:text-gray-900" disabled={isLoading}>
+              Change email
+            </button>
+            <button type="button" onClick={() => handleRequestCode()} className="font-medium text-gray-700 hover:text-gray-900" disabled={isLoading}>
+              Send a new code
+            </button>
+          </div>
+        </form>
+      )}
+    </motion.div>
+  );
+}
@@ -11,7 +11,10 @@ import { useToast } from "@/hooks/use-toast";
 import { useRouter } from "next/navigation";
 import { LogIn, Loader2, Shield } from "lucide-react";
 import { useState } from "react";
-import { verifyAdminCredentials, type AdminLoginFormValues, type VerifyUserCredentialsResponse } from "@/app/actions/auth-actions";
+import { verifyAdminCredentials, type AdminLoginFormValues, type VerifyAdminCredentialsResponse } from "@/app/actions/auth-actions";
+import TwoFactorChallenge from "@/components/auth/two-factor-challenge";
+import { signInWithCustomToken } from "firebase/auth";
+import { auth } from "@/lib/firebase";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
 import { group } from "console";
@@ -51,6 +54,7 @@ export default function AdminLoginForm({ onForgotPassword }: { onForgotPassword?
   const { toast } = useToast();
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
+  const [awaitingTwoFactor, setAwaitingTwoFactor] = useState(false);
 
   const form = useForm<AdminLoginFormValues>({
     resolver: zodResolver(formSchema),
@@ -60,25 +64,37 @@ export default function AdminLoginForm({ onForgotPassword }: { onForgotPassword?
     },
   });
 
+  // Final step of both the password-only and the two-factor login
+  async function finishLogin(result: { redirectTo?: string; firebaseToken?: string }) {
+    // Admin pages read Firestore directly; the security rules check the roles carried by this token
+    if (result.firebaseToken) {
+      await signInWithCustomToken(auth, result.firebaseToken);
+    } else {
+      console.warn("[AdminLoginForm] No Firebase token issued; Firestore reads from admin pages will be denied.");
+    }
+    const setupRequired = result.redirectTo === "/admin/settings";
+    toast({
+      title: "Admin Login Successful",
+      description: setupRequired
+        ? "Set up two-factor authentication to continue."
+        : "Redirecting to admin dashboard...",
+    });
+    if (result.redirectTo) {
+      setTimeout(() => router.push(result.redirectTo!), 0);
+    }
+  }
+
   async function onSubmit(values: AdminLoginFormValues) {
     setIsLoading(true);
     console.log("[AdminLoginForm] Attempting login with:", values);
     try {
-      const result: VerifyUserCredentialsResponse = await verifyAdminCredentials(values);
+      const result: VerifyAdminCredentialsResponse = await verifyAdminCredentials(values);
       console.log("[AdminLoginForm] Verification result:", result);
 
-      if (result.success) {
-        toast({
-          title: "Admin Login Successful",
-          description: "Redirecting to admin dashboard...",
-        });
-        if (result.redirectTo) {
-          console.log("[AdminLoginForm] Credentials correct. Attempting to redirect to", result.redirectTo);
-          setTimeout(() => {
-            console.log("[AdminLoginForm] router.push('", result.redirectTo, "') was called.");
-            router.push(result.redirectTo!);
-          }, 0);
-        }
+      if (result.success && result.requiresTwoFactor) {
+        setAwaitingTwoFactor(true);
+      } else if (result.success) {
+        await finishLogin(result);
       } else {
         toast({
           title: "Login Failed",
@@ -90,7 +106,7 @@ export default function AdminLoginForm({ onForgotPassword }: { onForgotPassword?
       console.error("[AdminLoginForm] Error during login submission: ", error);
       let message = "An unexpected error occurred.";
       if (error.code === 'permission-denied' || (error.message && (error.message.toLowerCase().includes('permission denied') || error.message.toLowerCase().includes('insufficient permissions')))) {
-        message = 'Login Failed: Firestore permission denied. Please check your Firestore security rules to allow reading the admin credentials document.';
+        message = 'Login Failed: Firestore permission denied. Please check your Firestore security rules for the adminAccounts collection.';
       } else if (error instanceof Error) {
         message = error.message;
       }
@@ -104,6 +120,18 @@ export default function AdminLoginForm({ onForgotPassword }: { onForgotPassword?
     }
   }
 
+  if (awaitingTwoFactor) {
+    return (
+      <TwoFactorChallenge
+        onVerified={finishLogin}
+        onCancel={() => {
+          setAwaitingTwoFactor(false);
+          form.resetField("password");
+        }}
+      />
+    );
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -193,7 +221,7 @@ export default function AdminLoginForm({ onForgotPassword }: { onForgotPassword?
           transition={{ delay: 0.8, duration: 0.6 }}
           className="text-xs text-center text-gray-600 pt-2 font-medium"
         >
-          Security Warning: Admin passwords should be stored hashed. This demo stores them in Firestore for simplicity.
+          Each administrator signs in with their own account.
         </motion.p>
       </form>
     </motion.div>
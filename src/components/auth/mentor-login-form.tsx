@@ -10,10 +10,12 @@ import { useToast } from "@/hooks/use-toast";
 import { useRouter } from "next/navigation";
 import { LogIn, Loader2, UserCheck } from "lucide-react";
 import { useState } from "react";
-import { signInWithEmailAndPassword } from "firebase/auth";
+import { signInWithCustomToken, signInWithEmailAndPassword, type User } from "firebase/auth";
 import { auth, db } from "@/lib/firebase";
-import { doc, getDoc } from "firebase/firestore";
+import { doc, getDoc, DocumentData } from "firebase/firestore";
 import { setCurrentUser } from "@/lib/client-utils";
+import { establishSessionFromIdToken } from "@/app/actions/session-actions";
+import TwoFactorChallenge from "@/components/auth/two-factor-challenge";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
 
@@ -42,6 +44,8 @@ export default function MentorLoginForm({ onForgotPassword }: { onForgotPassword
   const { toast } = useToast();
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
+  // Set while the session waits for the 2FA code; Firebase stays signed out until it is verified
+  const [awaitingCode, setAwaitingCode] = useState(false);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -51,40 +55,49 @@ export default function MentorLoginForm({ onForgotPassword }: { onForgotPassword
     },
   });
 
+  async function finishLogin(firebaseUser: User) {
+    const mentorDoc = await getDoc(doc(db, 'mentors', firebaseUser.uid));
+    const mentorData: DocumentData = mentorDoc.data() ?? {};
+    const userForContext = {
+      uid: firebaseUser.uid,
+      email: firebaseUser.email || '',
+      name: mentorData.name || mentorData.fullName || firebaseUser.displayName || 'Mentor',
+    };
+    setCurrentUser(userForContext);
+
+    toast({
+      title: "Mentor Login Successful",
+      description: "Welcome back!",
+    });
+
+    router.push('/mentor/dashboard');
+  }
+
   async function onSubmit(values: FormValues) {
     setIsLoading(true);
     try {
       const userCredential = await signInWithEmailAndPassword(auth, values.email, values.password);
       const firebaseUser = userCredential.user;
 
-      // Check if the user exists in the 'mentors' collection
-      const mentorDocRef = doc(db, 'mentors', firebaseUser.uid);
-      const mentorDoc = await getDoc(mentorDocRef);
-
-      if (!mentorDoc.exists()) {
-        await auth.signOut(); // Sign out if not a mentor
+      // The server checks the mentor profile (or evaluator claim) before issuing the session cookie
+      const sessionResult = await establishSessionFromIdToken(await firebaseUser.getIdToken(), 'mentor');
+      if (sessionResult.requiresTwoFactor) {
+        // Without this the Firestore rules would let the password alone read mentor data
+        await auth.signOut();
+        setAwaitingCode(true);
+        return;
+      }
+      if (!sessionResult.success) {
+        await auth.signOut(); // Sign out if not a mentor or evaluator
         toast({
           title: "Access Denied",
-          description: "This account does not have mentor privileges. Please contact an admin to set up your mentor profile.",
+          description: sessionResult.message,
           variant: "destructive",
         });
         return;
       }
 
-      const mentorData = mentorDoc.data();
-      const userForContext = {
-        uid: firebaseUser.uid,
-        email: firebaseUser.email || values.email,
-        name: mentorData.name || mentorData.fullName || 'Mentor',
-      };
-      setCurrentUser(userForContext);
-
-      toast({
-        title: "Mentor Login Successful",
-        description: "Welcome back!",
-      });
-
-      router.push('/mentor/dashboard');
+      await finishLogin(firebaseUser);
 
     } catch (error: any) {
       let errorMessage = "An unexpected error occurred. Please try again.";
@@ -106,6 +119,26 @@ export default function MentorLoginForm({ onForgotPassword }: { onForgotPassword
     }
   }
 
+  if (awaitingCode) {
+    return (
+      <TwoFactorChallenge
+        onVerified={async (result) => {
+          if (!result.firebaseToken) {
+            toast({ title: "Login Failed", description: "Could not sign you in. Please try again.", variant: "destructive" });
+            setAwaitingCode(false);
+            return;
+          }
+          const credential = await signInWithCustomToken(auth, result.firebaseToken);
+          await finishLogin(credential.user);
+        }}
+        onCancel={() => {
+          setAwaitingCode(false);
+          form.resetField("password");
+        }}
+      />
+    );
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,157 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import Link from "next/link";
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { CheckCircle2, KeyRound, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { setupAccountAction } from "@/app/actions/invitation-actions";
+
+const formSchema = z.object({
+  password: z.string().min(8, { message: "Password must be at least 8 characters." }),
+  confirmPassword: z.string().min(1, { message: "Please confirm your password." }),
+}).refine((values) => values.password === values.confirmPassword, {
+  message: "Passwords do not match.",
+  path: ["confirmPassword"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface SetupAccountFormProps {
+  token: string;
+  name: string;
+  email: string;
+}
+
+export default function SetupAccountForm({ token, name, email }: SetupAccountFormProps) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  async function onSubmit(values: FormValues) {
+    setIsLoading(true);
+    try {
+      const result = await setupAccountAction({ token, ...values });
+      if (result.success) {
+        setIsComplete(true);
+      } else {
+        toast({
+          title: "Account Setup Failed",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error during account setup:", error);
+      toast({
+        title: "Account Setup Failed",
+        description: "An unexpected error occurred. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  if (isComplete) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+        className="mx-auto w-full max-w-md rounded-2xl bg-white shadow-lg border border-gray-200 p-6 text-center"
+      >
+        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-green-50 border border-green-200 mb-3">
+          <CheckCircle2 className="h-6 w-6 text-green-600" />
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-1">You&apos;re all set</h2>
+        <p className="text-gray-600 text-sm mb-6">
+          Your password has been saved. Sign in with {email} and your new password.
+        </p>
+        <Link
+          href="/login"
+          className="block h-10 w-full rounded-lg bg-gray-900 hover:bg-gray-800 font-semibold text-white leading-10 shadow-lg transition-all duration-200"
+        >
+          Go to login
+        </Link>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6 }}
+      className="mx-auto w-full max-w-md rounded-2xl bg-white shadow-lg border border-gray-200 p-6"
+    >
+      <div className="text-center mb-6">
+        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-gray-100 border border-gray-200 mb-3">
+          <KeyRound className="h-6 w-6 text-gray-700" />
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-1">Welcome, {name}</h2>
+        <p className="text-gray-600 text-xs font-medium">
+          Choose a password for {email}
+        </p>
+      </div>
+
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="flex w-full flex-col space-y-2">
+          <Label htmlFor="setup-password" className="text-gray-900 font-medium">Password</Label>
+          <Input
+            id="setup-password"
+            type="password"
+            autoComplete="new-password"
+            placeholder="At least 8 characters"
+            {...form.register("password")}
+            className="bg-gray-50 border border-gray-300 text-gray-900 placeholder:text-gray-500 focus:border-gray-600 focus:ring-2 focus:ring-gray-600/20 transition-all duration-200"
+            disabled={isLoading}
+          />
+          {form.formState.errors.password && (
+            <p className="text-red-600 text-sm font-medium">{form.formState.errors.password.message}</p>
+          )}
+        </div>
+
+        <div className="flex w-full flex-col space-y-2">
+          <Label htmlFor="setup-confirm-password" className="text-gray-900 font-medium">Confirm Password</Label>
+          <Input
+            id="setup-confirm-password"
+            type="password"
+            autoComplete="new-password"
+            placeholder="••••••••"
+            {...form.register("confirmPassword")}
+            className="bg-gray-50 border border-gray-300 text-gray-900 placeholder:text-gray-500 focus:border-gray-600 focus:ring-2 focus:ring-gray-600/20 transition-all duration-200"
+            disabled={isLoading}
+          />
+          {form.formState.errors.confirmPassword && (
+            <p className="text-red-600 text-sm font-medium">{form.formState.errors.confirmPassword.message}</p>
+          )}
+        </div>
+
+        <button
+          className="relative block h-10 w-full rounded-lg bg-gray-900 hover:bg-gray-800 font-semibold text-white shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          type="submit"
+          disabled={isLoading}
+        >
+          <div className="flex items-center justify-center">
+            {isLoading && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+            {isLoading ? "Saving..." : "Set password"}
+          </div>
+        </button>
+      </form>
+    </motion.div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, LogOut, MonitorSmartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { signOutAllDevicesAction } from "@/app/actions/session-actions";
+import { sessionManager } from "@/lib/session-manager";
+
+// "Sign out all devices" for /user/settings and /mentor/profile; styled by the host page
+export function SignOutEverywhereCard({ className, titleClassName }: { className?: string; titleClassName?: string }) {
+  const { toast } = useToast();
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  async function handleSignOutEverywhere() {
+    setIsSigningOut(true);
+    const result = await signOutAllDevicesAction();
+    if (!result.success) {
+      toast({ title: "Sign Out Failed", description: result.message, variant: "destructive" });
+      setIsSigningOut(false);
+      return;
+    }
+    // This device goes too; other tabs follow through the storage event
+    await sessionManager?.endSession("revoked");
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className={`flex items-center ${titleClassName ?? ""}`}>
+          <MonitorSmartphone className="h-5 w-5 mr-2 text-indigo-400" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Signed in on a shared or lost device? End every session of your account, including this one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" disabled={isSigningOut}>
+              {isSigningOut ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+              Sign out all devices
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Every browser and device signed in to your account, including this one, will be signed out.
+                You will need your password to sign in again.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleSignOutEverywhere}>Sign out all devices</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { KeyRound, Loader2, ShieldCheck } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+  cancelTwoFactorLoginAction,
+  completeTwoFactorLoginAction,
+  type CompleteTwoFactorLoginResponse,
+} from "@/app/actions/two-factor-actions";
+
+interface TwoFactorChallengeProps {
+  // Called once the code is accepted and the session cookie has been issued
+  onVerified: (result: CompleteTwoFactorLoginResponse) => Promise<void> | void;
+  onCancel: () => Promise<void> | void;
+}
+
+// Second login step shown by the admin and mentor login forms when the account has 2FA enabled
+export default function TwoFactorChallenge({ onVerified, onCancel }: TwoFactorChallengeProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setIsVerifying(true);
+    try {
+      const result = await completeTwoFactorLoginAction(code);
+      if (!result.success) {
+        toast({ title: "Verification Failed", description: result.message, variant: "warning" });
+        return;
+      }
+      if (result.method === "recovery_code") {
+        toast({ title: "Recovery Code Used", description: result.message, variant: "warning" });
+      }
+      await onVerified(result);
+    } catch (error) {
+      console.error("[TwoFactorChallenge] Error verifying code:", error);
+      toast({
+        title: "Verification Error",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  }
+
+  async function handleCancel() {
+    await cancelTwoFactorLoginAction();
+    await onCancel();
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="mx-auto w-full max-w-md rounded-2xl bg-white shadow-lg border border-gray-200 p-6"
+    >
+      <div className="text-center mb-6">
+        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-gray-100 border border-gray-200 mb-3">
+          {useRecoveryCode ? <KeyRound className="h-6 w-6 text-gray-700" /> : <ShieldCheck className="h-6 w-6 text-gray-700" />}
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-1">Two-Factor Authentication</h2>
+        <p className="text-gray-600 text-xs font-medium">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when setting up 2FA."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex w-full flex-col space-y-2">
+          <Label htmlFor="two-factor-code" className="text-gray-900 font-medium">
+            {useRecoveryCode ? "Recovery Code" : "Authentication Code"}
+          </Label>
+          <Input
+            id="two-factor-code"
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+            inputMode={useRecoveryCode ? "text" : "numeric"}
+            autoComplete="one-time-code"
+            autoFocus
+            className="bg-gray-50 border border-gray-300 text-gray-900 text-center tracking-widest placeholder:text-gray-500 focus:border-gray-600 focus:ring-2 focus:ring-gray-600/20 transition-all duration-200"
+            disabled={isVerifying}
+          />
+        </div>
+
+        <button
+          className="relative block h-10 w-full rounded-lg bg-gray-900 hover:bg-gray-800 font-semibold text-white shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          type="submit"
+          disabled={isVerifying || code.trim().length < 6}
+        >
+          <div className="flex items-center justify-center">
+            {isVerifying && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+            {isVerifying ? "Verifying..." : "Verify"}
+          </div>
+        </button>
+
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode((value) => !value);
+              setCode("");
+            }}
+            className="text-gray-700 hover:text-gray-900 transition-colors font-medium"
+            disabled={isVerifying}
+          >
+            {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+          </button>
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+            disabled={isVerifying}
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </motion.div>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { signInWithCustomToken } from "firebase/auth";
+import { Copy, KeyRound, Loader2, RefreshCw, ShieldCheck, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { auth } from "@/lib/firebase";
+import {
+  beginTwoFactorEnrollmentAction,
+  confirmTwoFactorEnrollmentAction,
+  disableTwoFactorAction,
+  getTwoFactorStatusAction,
+  regenerateRecoveryCodesAction,
+} from "@/app/actions/two-factor-actions";
+import type { TwoFactorStatus } from "@/types/two-factor";
+
+interface Enrollment {
+  secret: string;
+  qrCodeDataUrl: string;
+}
+
+// Code-protected actions on an enabled 2FA
+type PendingChange = "disable" | "regenerate" | "reenroll";
+
+// Shared by /admin/settings (Security tab) and /mentor/profile
+export function TwoFactorSettingsCard({ onEnabled }: { onEnabled?: () => Promise<void> | void }) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    setIsLoading(true);
+    setStatus(await getTwoFactorStatusAction());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  function resetForm() {
+    setEnrollment(null);
+    setPendingChange(null);
+    setCode("");
+  }
+
+  // Moving an enabled 2FA to a new device passes the current code
+  async function startEnrollment(currentCode?: string) {
+    setIsWorking(true);
+    setRecoveryCodes(null);
+    const result = await beginTwoFactorEnrollmentAction(currentCode);
+    if (result.success && result.secret && result.qrCodeDataUrl) {
+      setEnrollment({ secret: result.secret, qrCodeDataUrl: result.qrCodeDataUrl });
+      setPendingChange(null);
+      setCode("");
+    } else {
+      toast({ title: "Setup Failed", description: result.message, variant: currentCode ? "warning" : "destructive" });
+    }
+    setIsWorking(false);
+  }
+
+  async function submitCode(event: React.FormEvent) {
+    event.preventDefault();
+    setIsWorking(true);
+    try {
+      if (enrollment) {
+        const result = await confirmTwoFactorEnrollmentAction(code);
+        if (!result.success) {
+          toast({ title: "Verification Failed", description: result.message, variant: "warning" });
+          return;
+        }
+        if (result.firebaseToken) {
+          await signInWithCustomToken(auth, result.firebaseToken);
+        }
+        setRecoveryCodes(result.recoveryCodes ?? null);
+        toast({ title: "Two-Factor Enabled", description: result.message });
+        resetForm();
+        await loadStatus();
+        await onEnabled?.();
+      } else if (pendingChange === "reenroll") {
+        await startEnrollment(code);
+      } else if (pendingChange === "regenerate") {
+        const result = await regenerateRecoveryCodesAction(code);
+        toast({
+          title: result.success ? "Recovery Codes Replaced" : "Verification Failed",
+          description: result.message,
+          variant: result.success ? "default" : "warning",
+        });
+        if (result.success) {
+          setRecoveryCodes(result.recoveryCodes ?? null);
+          resetForm();
+          await loadStatus();
+        }
+      } else if (pendingChange === "disable") {
+        const result = await disableTwoFactorAction(code);
+        toast({
+          title: result.success ? "Two-Factor Disabled" : "Could not disable",
+          description: result.message,
+          variant: result.success ? "default" : "warning",
+        });
+        if (result.success) {
+          setRecoveryCodes(null);
+          resetForm();
+          await loadStatus();
+        }
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function copyRecoveryCodes() {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+  }
+
+  const showCodeForm = enrollment !== null || pendingChange !== null;
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-lg rounded-xl overflow-hidden">
+      <CardHeader className="border-b border-gray-100 bg-gray-50">
+        <CardTitle className="flex items-center justify-between admin-heading-3">
+          <span className="flex items-center">
+            <ShieldCheck className="mr-3 h-6 w-6 text-indigo-600" />
+            Two-Factor Authentication
+          </span>
+          {status && (
+            <Badge variant={status.enabled ? "default" : "secondary"}>
+              {status.enabled ? "Enabled" : "Off"}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="admin-body-small">
+          Ask for a code from an authenticator app (Google Authenticator, 1Password, Authy…) after your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-5">
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading…
+          </div>
+        ) : !status ? (
+          <p className="text-sm text-gray-500">Two-factor settings are not available for this account.</p>
+        ) : (
+          <>
+            {status.required && !status.enabled && (
+              <div className="bg-amber-50 border-l-4 border-amber-400 p-4 rounded-r-lg text-sm text-amber-800">
+                Your organisation requires two-factor authentication for administrators. Set it up to continue.
+              </div>
+            )}
+
+            {status.enabled && !showCodeForm && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  Enabled{status.enabledAt ? ` on ${new Date(status.enabledAt).toLocaleDateString()}` : ""}.{" "}
+                  {status.recoveryCodesRemaining} recovery codes left.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPendingChange("regenerate")} disabled={isWorking}>
+                    <RefreshCw className="mr-2 h-4 w-4" /> New recovery codes
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setPendingChange("reenroll")} disabled={isWorking}>
+                    <KeyRound className="mr-2 h-4 w-4" /> Move to a new device
+                  </Button>
+                  {!status.required && (
+                    <Button variant="outline" size="sm" onClick={() => setPendingChange("disable")} disabled={isWorking}
+                      className="text-red-600 border-red-200 hover:bg-red-50">
+                      <ShieldOff className="mr-2 h-4 w-4" /> Turn off
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {!status.enabled && !showCodeForm && (
+              <Button onClick={() => startEnrollment()} disabled={isWorking} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+                {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+                Set up two-factor authentication
+              </Button>
+            )}
+
+            {enrollment && (
+              <div className="flex flex-col sm:flex-row gap-5 items-start">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" className="h-44 w-44 rounded-lg border border-gray-200" />
+                <div className="space-y-2 text-sm text-gray-600">
+                  <p>1. Scan the QR code with your authenticator app.</p>
+                  <p>2. Enter the 6-digit code it shows to finish.</p>
+                  <p className="pt-2">Can&apos;t scan? Enter this key manually:</p>
+                  <code className="block break-all rounded bg-gray-100 px-2 py-1 font-mono text-xs text-gray-800">
+                    {enrollment.secret}
+                  </code>
+                </div>
+              </div>
+            )}
+
+            {showCodeForm && (
+              <form onSubmit={submitCode} className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-settings-code">
+                    {enrollment
+                      ? "Code from your app"
+                      : pendingChange === "reenroll"
+                        ? "Current code from your authenticator app, or a recovery code"
+                        : "Current code from your authenticator app"}
+                  </Label>
+                  <Input
+                    id="two-factor-settings-code"
+                    value={code}
+                    onChange={(event) => setCode(event.target.value)}
+                    placeholder="123456"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    className="max-w-xs tracking-widest"
+                    disabled={isWorking}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" size="sm" disabled={isWorking || code.trim().length < 6}
+                    className={pendingChange === "disable" ? "bg-red-600 hover:bg-red-700 text-white" : "bg-indigo-600 hover:bg-indigo-700 text-white"}>
+                    {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {enrollment
+                      ? "Verify and enable"
+                      : pendingChange === "disable"
+                        ? "Turn off"
+                        : pendingChange === "reenroll"
+                          ? "Continue"
+                          : "Generate codes"}
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={resetForm} disabled={isWorking}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {recoveryCodes && (
+              <div className="rounded-lg border border-indigo-200 bg-indigo-50 p-4 space-y-3">
+                <p className="text-sm font-medium text-indigo-800">
+                  Save these recovery codes now — they will not be shown again. Each one signs you in once if you lose your phone.
+                </p>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-800">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <span key={recoveryCode} className="rounded bg-white px-2 py-1 border border-indigo-100">{recoveryCode}</span>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button type="button" size="sm" variant="outline" onClick={copyRecoveryCodes}>
+                    <Copy className="mr-2 h-4 w-4" /> Copy
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setRecoveryCodes(null)}>
+                    I&apos;ve saved them
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,6 +13,7 @@ import { useState } from "react";
 import { signInWithEmailAndPassword } from "firebase/auth";
 import { auth } from "@/lib/firebase";
 import { getUserData } from "@/app/actions/user-actions";
+import { establishSessionFromIdToken } from "@/app/actions/session-actions";
 import { setCurrentUser } from "@/lib/client-utils";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
@@ -99,6 +100,18 @@ export default function UserLoginForm({ onForgotPassword }: { onForgotPassword?:
         return;
       }
 
+      // Issue the server session cookie that guards /user routes
+      const sessionResult = await establishSessionFromIdToken(await firebaseUser.getIdToken(), 'user');
+      if (!sessionResult.success) {
+        await auth.signOut();
+        toast({
+          title: "Login Failed",
+          description: sessionResult.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
       // Store user data for the context
       const userForContext = {
         uid: firebaseUser.uid,
@@ -233,7 +246,7 @@ export default function UserLoginForm({ onForgotPassword }: { onForgotPassword?:
           transition={{ delay: 0.8, duration: 0.6 }}
           className="text-xs text-center text-gray-600 pt-2 font-medium"
         >
-          Accepted applicants can log in with their email and temporary password
+          Accepted applicants sign in with the password chosen from their invitation email
         </motion.p>
       </form>
     </motion.div>
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useEffect } from 'react';
+import { SessionTimeoutDialog } from '@/components/session-timeout-dialog';
 
 interface SessionProviderProps {
   children: React.ReactNode;
@@ -44,5 +45,10 @@ export function SessionProvider({ children }: SessionProviderProps) {
     };
   }, []);
 
-  return <>{children}</>;
+  return (
+    <>
+      {children}
+      <SessionTimeoutDialog />
+    </>
+  );
 }
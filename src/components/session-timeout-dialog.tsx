@@ -0,0 +1,76 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { sessionManager, type SessionTimeoutWarning } from '@/lib/session-manager';
+
+// Warns before the portal session ends and offers to keep it alive (idle limit only)
+export function SessionTimeoutDialog() {
+  const { session } = useAuth();
+  const [warning, setWarning] = useState<SessionTimeoutWarning | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Enforce the limits of whichever portal session is active
+  useEffect(() => {
+    if (!sessionManager) return;
+    if (session) {
+      sessionManager.startSession(session.portal, session.expiresAt);
+    } else {
+      sessionManager.stopSession();
+    }
+  }, [session]);
+
+  useEffect(() => {
+    if (!sessionManager) return;
+    return sessionManager.onWarning(setWarning);
+  }, []);
+
+  // Tick the countdown while the dialog is open
+  useEffect(() => {
+    if (!warning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [warning]);
+
+  if (!warning) return null;
+
+  const secondsLeft = Math.max(0, Math.ceil((warning.endsAt - now) / 1000));
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {warning.reason === 'idle' ? 'Are you still there?' : 'Your session is ending'}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {warning.reason === 'idle'
+              ? `You will be signed out in ${secondsLeft} seconds because of inactivity.`
+              : `Your session reaches its maximum length in ${secondsLeft} seconds. Save your work; you will need to sign in again.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => sessionManager?.endSession('logout')}>
+            Sign out now
+          </AlertDialogCancel>
+          {warning.reason === 'idle' && (
+            <AlertDialogAction onClick={() => sessionManager?.staySignedIn()}>
+              Stay signed in
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
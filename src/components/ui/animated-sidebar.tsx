@@ -163,6 +163,7 @@ export const SidebarLink = ({
 }: {
   link: Links;
   className?: string;
+  onClick?: React.MouseEventHandler<HTMLAnchorElement>;
 }) => {
   const { open, animate } = useSidebar();
   // Determine if this is the active link
@@ -12,9 +12,11 @@ import CampusApplicationForm from "@/components/CampusApplicationForm";
 interface ApplicationFormDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  resumeToken?: string | null; // Restores a saved draft from an emailed resume link
+  onResumeHandled?: () => void;
 }
 
-export default function ApplicationFormDialog({ open, onOpenChange }: ApplicationFormDialogProps) {
+export default function ApplicationFormDialog({ open, onOpenChange, resumeToken, onResumeHandled }: ApplicationFormDialogProps) {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[800px] bg-card max-h-[90vh] overflow-y-auto">
@@ -28,7 +30,7 @@ export default function ApplicationFormDialog({ open, onOpenChange }: Applicatio
           </DialogDescription>
         </DialogHeader>
         <div className="py-4">
-          <CampusApplicationForm />
+          <CampusApplicationForm resumeToken={resumeToken} onResumeHandled={onResumeHandled} />
         </div>
       </DialogContent>
     </Dialog>
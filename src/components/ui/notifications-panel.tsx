@@ -15,7 +15,9 @@ import {
   CheckCircle, 
   XCircle, 
   Users, 
-  Check
+  Check,
+  ClipboardCheck,
+  Scale
 } from 'lucide-react';
 import { useNotifications } from '@/hooks/useNotifications';
 import { formatDistanceToNow } from 'date-fns';
@@ -36,6 +38,10 @@ const getNotificationIcon = (type: NotificationData['type']) => {
       return <XCircle className="h-4 w-4 text-red-500" />;
     case 'mentor_decision':
       return <Users className="h-4 w-4 text-blue-500" />;
+    case 'evaluation_assigned':
+      return <ClipboardCheck className="h-4 w-4 text-purple-500" />;
+    case 'evaluation_reconciliation':
+      return <Scale className="h-4 w-4 text-amber-500" />;
     default:
       return <Bell className="h-4 w-4 text-gray-500" />;
   }
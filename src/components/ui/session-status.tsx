@@ -116,9 +116,9 @@ export function SessionStatus() {
         </Button>
         
         <div className="text-xs text-gray-500 space-y-1">
-          <p>• Sessions auto-refresh every 30 minutes</p>
-          <p>• Max session time: 24 hours</p>
-          <p>• Activity tracked for optimal performance</p>
+          <p>• Tokens refresh every 30 minutes while you are active</p>
+          <p>• Idle sessions are signed out automatically</p>
+          <p>• Signing out in one tab signs out every tab</p>
         </div>
       </CardContent>
     </Card>
@@ -2,6 +2,8 @@
 
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { getUserData } from '@/app/actions/user-actions';
+import { getSessionInfo, type SessionInfo } from '@/app/actions/session-actions';
+import { hasPermission, type Permission, type Role } from '@/lib/permissions';
 import { useUser } from './user-context';
 
 interface UserData {
@@ -31,6 +33,10 @@ interface AuthContextType {
   refreshUserData: () => Promise<void>;
   checkOnboardingStatus: () => Promise<boolean>;
   isOnboardingCompleted: boolean;
+  session: SessionInfo | null;
+  roles: Role[];
+  can: (permission: Permission) => boolean;
+  refreshSession: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -40,6 +46,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [userData, setUserData] = useState<UserData | null>(null);
   const [loading, setLoading] = useState(true);
   const [isOnboardingCompleted, setIsOnboardingCompleted] = useState(false);
+  const [session, setSession] = useState<SessionInfo | null>(null);
 
   const fetchUserData = async (uid: string): Promise<UserData | null> => {
     try {
@@ -110,6 +117,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // The session cookie is httpOnly, so roles are read through a server action
+  const refreshSession = async () => {
+    try {
+      setSession(await getSessionInfo());
+    } catch (error) {
+      console.error('Error fetching session info:', error);
+      setSession(null);
+    }
+  };
+
+  useEffect(() => {
+    refreshSession();
+  }, [user]);
+
   useEffect(() => {
     const loadUserData = async () => {
       if (!userLoading && user?.uid) {
@@ -132,7 +153,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     loading: loading || userLoading,
     refreshUserData,
     checkOnboardingStatus,
-    isOnboardingCompleted
+    isOnboardingCompleted,
+    session,
+    roles: session?.roles ?? [],
+    can: (permission: Permission) => hasPermission(session?.roles, permission),
+    refreshSession
   };
 
   return (
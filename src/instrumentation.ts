@@ -0,0 +1,15 @@
+// src/instrumentation.ts
+// Runs once when a Next.js server instance starts.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { signInServerFirestore } = await import('./lib/firestore-identity');
+  try {
+    await signInServerFirestore();
+    console.log('✅ Server Firestore client signed in as the server identity');
+  } catch (error) {
+    // Without credentials (e.g. local development against the emulator) requests stay unauthenticated
+    console.error('⚠️ Could not sign the server Firestore client in; privileged reads and writes will be denied by the security rules:', error);
+  }
+}
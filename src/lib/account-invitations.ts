@@ -0,0 +1,229 @@
+// src/lib/account-invitations.ts
+// Single-use, expiring invitations that let a newly provisioned account choose its password.
+// Invitations live in the emailTokens collection, keyed by the SHA-256 of the token so a leaked
+// document never yields a usable link.
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+  Timestamp,
+} from 'firebase/firestore';
+import crypto from 'crypto';
+import { db } from './firebase';
+import { adminAuth } from './firebase-admin';
+import { EMAIL_TOKENS_COLLECTION, generateSecureToken } from './email-tokens';
+import type {
+  AccountInvitation,
+  AccountInvitationFirestore,
+  InvitationAccountType,
+} from '@/types/account-invitation';
+
+export const ACCOUNT_INVITATION_TTL_MS = 72 * 60 * 60 * 1000; // 72 hours
+
+export interface IssueAccountInvitationInput {
+  uid: string;
+  email: string;
+  name: string;
+  accountType: InvitationAccountType;
+  subject?: { collection: string; id: string };
+  createdBy?: string;
+}
+
+export interface IssuedAccountInvitation {
+  url: string;
+  expiresAt: Date;
+}
+
+function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toAccountInvitation(id: string, data: AccountInvitationFirestore): AccountInvitation {
+  return {
+    ...data,
+    id,
+    createdAt: data.createdAt.toDate(),
+    expiresAt: data.expiresAt.toDate(),
+    usedAt: data.usedAt?.toDate(),
+    revokedAt: data.revokedAt?.toDate(),
+  };
+}
+
+function checkInvitation(data: AccountInvitationFirestore | undefined): string | null {
+  if (!data || data.purpose !== 'accountSetup') return 'This invitation link is not valid.';
+  if (data.revoked) return 'This invitation has been revoked. Please ask the TBI team for a new one.';
+  if (data.used) return 'This invitation has already been used. Sign in with the password you chose.';
+  if (data.expiresAt.toMillis() < Date.now()) return 'This invitation has expired. Please ask the TBI team for a new one.';
+  return null;
+}
+
+async function outstandingInvitations(uid: string) {
+  const snapshot = await getDocs(
+    query(
+      collection(db, EMAIL_TOKENS_COLLECTION),
+      where('purpose', '==', 'accountSetup'),
+      where('uid', '==', uid),
+      where('used', '==', false),
+      where('revoked', '==', false)
+    )
+  );
+  return snapshot.docs;
+}
+
+export function getSetupAccountUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002';
+  return `${appUrl}/setup-account?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Create a fresh invitation for an account, revoking any it still has outstanding,
+ * and mirror it onto the subject document. Returns the link to email; it is not stored anywhere.
+ */
+export async function issueAccountInvitation(input: IssueAccountInvitationInput): Promise<IssuedAccountInvitation> {
+  await revokeAccountInvitations(input.uid);
+
+  const token = generateSecureToken();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ACCOUNT_INVITATION_TTL_MS);
+
+  // JSON round-trip drops optional fields that are undefined (Firestore rejects them)
+  const invitationData = JSON.parse(JSON.stringify({
+    purpose: 'accountSetup',
+    uid: input.uid,
+    email: input.email.trim().toLowerCase(),
+    name: input.name,
+    accountType: input.accountType,
+    subject: input.subject,
+    createdBy: input.createdBy,
+    used: false,
+    revoked: false,
+  }));
+  await setDoc(doc(db, EMAIL_TOKENS_COLLECTION, hashInvitationToken(token)), {
+    ...invitationData,
+    createdAt: now,
+    expiresAt,
+  });
+
+  if (input.subject) {
+    await updateDoc(doc(db, input.subject.collection, input.subject.id), {
+      'invitation.status': 'sent',
+      'invitation.sentAt': now,
+      'invitation.expiresAt': expiresAt,
+      'invitation.sentCount': increment(1),
+      'invitation.redeemedAt': deleteField(),
+      'invitation.revokedAt': deleteField(),
+    });
+  }
+
+  return { url: getSetupAccountUrl(token), expiresAt };
+}
+
+/**
+ * Revoke every outstanding invitation of an account. Pass the subject document to record the
+ * revocation on it; returns how many invitations were revoked.
+ */
+export async function revokeAccountInvitations(uid: string, subject?: { collection: string; id: string }): Promise<number> {
+  const invitations = await outstandingInvitations(uid);
+  if (invitations.length === 0) return 0;
+
+  const batch = writeBatch(db);
+  invitations.forEach((invitationDoc) => {
+    batch.update(invitationDoc.ref, { revoked: true, revokedAt: serverTimestamp() });
+  });
+  if (subject) {
+    batch.update(doc(db, subject.collection, subject.id), {
+      'invitation.status': 'revoked',
+      'invitation.revokedAt': serverTimestamp(),
+    });
+  }
+  await batch.commit();
+
+  return invitations.length;
+}
+
+// Check a token from a setup link without consuming it
+export async function verifyAccountInvitation(
+  token: string
+): Promise<{ valid: boolean; invitation?: AccountInvitation; error?: string }> {
+  try {
+    const tokenId = hashInvitationToken(token);
+    const snapshot = await getDoc(doc(db, EMAIL_TOKENS_COLLECTION, tokenId));
+    const data = snapshot.exists() ? (snapshot.data() as AccountInvitationFirestore) : undefined;
+
+    const error = checkInvitation(data);
+    if (error || !data) return { valid: false, error: error ?? undefined };
+
+    return { valid: true, invitation: toAccountInvitation(tokenId, data) };
+  } catch (error) {
+    console.error('Error verifying account invitation:', error);
+    return { valid: false, error: 'Failed to verify the invitation.' };
+  }
+}
+
+/**
+ * Consume an invitation and set the account's password.
+ * The token is claimed in a transaction first so two concurrent submissions cannot both succeed;
+ * it is released again if the password cannot be set.
+ */
+export async function redeemAccountInvitation(
+  token: string,
+  password: string
+): Promise<{ success: boolean; invitation?: AccountInvitation; error?: string }> {
+  const tokenRef = doc(db, EMAIL_TOKENS_COLLECTION, hashInvitationToken(token));
+
+  let invitation: AccountInvitation;
+  try {
+    invitation = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(tokenRef);
+      const data = snapshot.exists() ? (snapshot.data() as AccountInvitationFirestore) : undefined;
+
+      const error = checkInvitation(data);
+      if (error || !data) throw new Error(error ?? 'This invitation link is not valid.');
+
+      transaction.update(tokenRef, { used: true, usedAt: serverTimestamp() });
+      return toAccountInvitation(tokenRef.id, data);
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to verify the invitation.' };
+  }
+
+  try {
+    await adminAuth.updateUser(invitation.uid, { password, emailVerified: true });
+  } catch (error) {
+    console.error('Error setting password from account invitation:', error);
+    await updateDoc(tokenRef, { used: false, usedAt: deleteField() });
+    return { success: false, error: 'Your password could not be set. Please try again.' };
+  }
+
+  // The password is set at this point; bookkeeping failures are logged rather than reported to the user
+  try {
+    const redeemedAt = Timestamp.now();
+    if (invitation.subject) {
+      await updateDoc(doc(db, invitation.subject.collection, invitation.subject.id), {
+        'invitation.status': 'redeemed',
+        'invitation.redeemedAt': redeemedAt,
+      });
+    }
+    if (invitation.accountType === 'user') {
+      await updateDoc(doc(db, 'users', invitation.uid), {
+        'onboardingProgress.passwordChanged': true,
+        'onboardingProgress.passwordChangedAt': redeemedAt,
+        updatedAt: serverTimestamp(),
+      });
+    }
+  } catch (error) {
+    console.error('Error recording redeemed account invitation:', error);
+  }
+
+  return { success: true, invitation };
+}
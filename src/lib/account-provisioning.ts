@@ -0,0 +1,58 @@
+// src/lib/account-provisioning.ts
+// Firebase Auth account provisioning for accepted applicants and new mentors.
+// Server-side only: accounts are created with the Admin SDK, never by signing the shared client auth instance in.
+import { adminAuth } from './firebase-admin';
+
+export interface ProvisionAccountInput {
+  email: string;
+  displayName: string;
+  existingUid?: string; // UID recorded by an earlier provisioning run, checked first
+}
+
+export interface ProvisionedAccount {
+  uid: string;
+  created: boolean; // false when an existing Auth user was reused
+}
+
+function authErrorCode(error: unknown): string | undefined {
+  return error && typeof error === 'object' && 'code' in error ? String(error.code) : undefined;
+}
+
+async function findAuthUid(email: string, existingUid?: string): Promise<string | null> {
+  if (existingUid) {
+    try {
+      return (await adminAuth.getUser(existingUid)).uid;
+    } catch (error) {
+      if (authErrorCode(error) !== 'auth/user-not-found') throw error;
+    }
+  }
+
+  try {
+    return (await adminAuth.getUserByEmail(email)).uid;
+  } catch (error) {
+    if (authErrorCode(error) !== 'auth/user-not-found') throw error;
+    return null;
+  }
+}
+
+/**
+ * Return the Auth user for an email, creating it without a password if none exists.
+ * Idempotent: retrying after a partial failure, or provisioning the same person twice, yields the same UID.
+ */
+export async function provisionAuthAccount({ email, displayName, existingUid }: ProvisionAccountInput): Promise<ProvisionedAccount> {
+  const normalizedEmail = email.trim().toLowerCase();
+
+  const uid = await findAuthUid(normalizedEmail, existingUid);
+  if (uid) return { uid, created: false };
+
+  try {
+    const user = await adminAuth.createUser({ email: normalizedEmail, displayName, emailVerified: false });
+    return { uid: user.uid, created: true };
+  } catch (error) {
+    // A concurrent request created the same account between the lookup and the create
+    if (authErrorCode(error) === 'auth/email-already-exists') {
+      return { uid: (await adminAuth.getUserByEmail(normalizedEmail)).uid, created: false };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,191 @@
+// src/lib/admin-accounts.ts
+// Data access for the adminAccounts collection. Server-side only.
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  limit,
+  addDoc,
+  updateDoc,
+  setDoc,
+  deleteField,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { hashPassword } from './password-hash';
+import { ADMIN_ACCOUNT_ROLES, type Role } from './permissions';
+import type { AdminAccount, AdminAccountFirestore, AdminAccountStatus } from '@/types/admin-account';
+
+export const ADMIN_ACCOUNTS_COLLECTION = 'adminAccounts';
+export const LEGACY_ADMIN_CREDENTIALS_PATH = 'admin_config/main_credentials';
+
+export function normalizeAdminEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Effective roles of an admin account; documents without a roles field predate RBAC and are full admins
+export function getAdminAccountRoles(data: Pick<AdminAccountFirestore, 'roles'>): Role[] {
+  const roles = (data.roles || []).filter((role) => ADMIN_ACCOUNT_ROLES.includes(role));
+  return roles.length > 0 ? roles : ['admin'];
+}
+
+export function toAdminAccount(id: string, data: AdminAccountFirestore): AdminAccount {
+  return {
+    id,
+    name: data.name,
+    email: data.email,
+    status: data.status,
+    roles: getAdminAccountRoles(data),
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : undefined,
+    createdBy: data.createdBy,
+    lastLoginAt: data.lastLoginAt instanceof Timestamp ? data.lastLoginAt.toDate() : undefined,
+    migratedFromLegacy: data.migratedFromLegacy,
+  };
+}
+
+// Look up an admin account (including its password hash) by email
+export async function findAdminAccountByEmail(
+  email: string
+): Promise<{ id: string; data: AdminAccountFirestore } | null> {
+  const accountsQuery = query(
+    collection(db, ADMIN_ACCOUNTS_COLLECTION),
+    where('email', '==', normalizeAdminEmail(email)),
+    limit(1)
+  );
+  const snapshot = await getDocs(accountsQuery);
+  if (snapshot.empty) return null;
+
+  const accountDoc = snapshot.docs[0];
+  return { id: accountDoc.id, data: accountDoc.data() as AdminAccountFirestore };
+}
+
+export async function listAdminAccounts(): Promise<AdminAccount[]> {
+  const snapshot = await getDocs(collection(db, ADMIN_ACCOUNTS_COLLECTION));
+  return snapshot.docs
+    .map((accountDoc) => toAdminAccount(accountDoc.id, accountDoc.data() as AdminAccountFirestore))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Number of active accounts holding the full admin role (used to prevent locking everyone out)
+export async function countActiveAdminAccounts(): Promise<number> {
+  const activeQuery = query(
+    collection(db, ADMIN_ACCOUNTS_COLLECTION),
+    where('status', '==', 'active')
+  );
+  const snapshot = await getDocs(activeQuery);
+  return snapshot.docs.filter((accountDoc) =>
+    getAdminAccountRoles(accountDoc.data() as AdminAccountFirestore).includes('admin')
+  ).length;
+}
+
+export async function createAdminAccount(input: {
+  name: string;
+  email: string;
+  password: string;
+  roles?: Role[];
+  createdBy?: string;
+  migratedFromLegacy?: boolean;
+}): Promise<string> {
+  const email = normalizeAdminEmail(input.email);
+  const existing = await findAdminAccountByEmail(email);
+  if (existing) {
+    throw new Error(`An admin account for ${email} already exists.`);
+  }
+
+  const accountData: Record<string, unknown> = {
+    name: input.name.trim(),
+    email,
+    passwordHash: await hashPassword(input.password),
+    status: 'active' as AdminAccountStatus,
+    roles: getAdminAccountRoles({ roles: input.roles }),
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+    passwordUpdatedAt: serverTimestamp(),
+  };
+
+  // Firestore doesn't allow undefined values
+  if (input.createdBy) accountData.createdBy = input.createdBy;
+  if (input.migratedFromLegacy) accountData.migratedFromLegacy = true;
+
+  const accountRef = await addDoc(collection(db, ADMIN_ACCOUNTS_COLLECTION), accountData);
+  return accountRef.id;
+}
+
+export async function setAdminAccountPassword(accountId: string, newPassword: string): Promise<void> {
+  await updateDoc(doc(db, ADMIN_ACCOUNTS_COLLECTION, accountId), {
+    passwordHash: await hashPassword(newPassword),
+    passwordUpdatedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function setAdminAccountStatus(accountId: string, status: AdminAccountStatus): Promise<void> {
+  await updateDoc(doc(db, ADMIN_ACCOUNTS_COLLECTION, accountId), {
+    status,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function setAdminAccountRoles(accountId: string, roles: Role[]): Promise<void> {
+  await updateDoc(doc(db, ADMIN_ACCOUNTS_COLLECTION, accountId), {
+    roles: getAdminAccountRoles({ roles }),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function recordAdminLogin(accountId: string): Promise<void> {
+  await updateDoc(doc(db, ADMIN_ACCOUNTS_COLLECTION, accountId), {
+    lastLoginAt: serverTimestamp(),
+  });
+}
+
+/**
+ * One-time migration of the legacy single-admin document.
+ *
+ * If admin_config/main_credentials still carries a plaintext password and the
+ * submitted credentials match it, an adminAccounts entry is created with a
+ * hashed password and the plaintext field is removed from the legacy document.
+ * Returns the new account, or null when there is nothing to migrate.
+ */
+export async function migrateLegacyAdminCredentials(
+  email: string,
+  password: string
+): Promise<{ id: string; data: AdminAccountFirestore } | null> {
+  const legacyRef = doc(db, LEGACY_ADMIN_CREDENTIALS_PATH);
+  const legacySnap = await getDoc(legacyRef);
+  if (!legacySnap.exists()) return null;
+
+  const legacy = legacySnap.data();
+  if (typeof legacy.email !== 'string' || typeof legacy.password !== 'string') {
+    return null;
+  }
+
+  if (normalizeAdminEmail(legacy.email) !== normalizeAdminEmail(email) || legacy.password !== password) {
+    return null;
+  }
+
+  const accountId = await createAdminAccount({
+    name: typeof legacy.name === 'string' && legacy.name ? legacy.name : 'Administrator',
+    email: legacy.email,
+    password,
+    createdBy: 'legacy-migration',
+    migratedFromLegacy: true,
+  });
+
+  await setDoc(
+    legacyRef,
+    {
+      password: deleteField(),
+      migratedToAdminAccountId: accountId,
+      migratedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  console.log(`[AdminAccounts] Migrated legacy admin credentials for ${legacy.email} to account ${accountId}`);
+  return findAdminAccountByEmail(email);
+}
@@ -0,0 +1,103 @@
+// src/lib/api-auth.ts
+// Authentication, authorization and rate limiting for privileged API route handlers.
+// Callers authenticate with either the signed session cookie or a Firebase ID token
+// (`Authorization: Bearer <idToken>`), which lets scripts call the routes without a browser session.
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from './firebase-admin';
+import { SESSION_COOKIE_NAME, verifySessionToken } from './session-token';
+import { hasPermission, isRole, type Permission } from './permissions';
+import { checkRateLimit, type RateLimitOptions } from './rate-limit';
+import { recordAuditEvent, toAuditActor } from './audit-log';
+import { isSessionRevoked } from './session-revocation';
+import type { AuditActor } from '@/types/audit-log';
+
+export interface ApiRequestContext {
+  ipAddress: string;
+  userAgent?: string;
+}
+
+export function getApiRequestContext(request: NextRequest): ApiRequestContext {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return {
+    ipAddress: forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown',
+    userAgent: request.headers.get('user-agent') || undefined,
+  };
+}
+
+// Resolve the caller from a bearer ID token or the session cookie; null when neither is valid
+export async function authenticateApiRequest(request: NextRequest): Promise<AuditActor | null> {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    try {
+      // checkRevoked: tokens minted before "sign out all devices" are refused
+      const decodedToken = await adminAuth.verifyIdToken(authorization.slice('Bearer '.length).trim(), true);
+      // Custom claims can only be set through the Admin SDK, so any role found there is trusted
+      const roles = Array.isArray(decodedToken.roles) ? decodedToken.roles.filter(isRole) : [];
+      return {
+        id: decodedToken.uid,
+        email: (decodedToken.email || '').toLowerCase(),
+        name: decodedToken.name,
+        roles,
+      };
+    } catch (error) {
+      console.warn('[ApiAuth] Rejected invalid ID token:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session || session.twoFactorSetupRequired || (await isSessionRevoked(session))) return null;
+
+  return toAuditActor(session);
+}
+
+export interface ApiGuardOptions {
+  permission: Permission;
+  action: string; // Audit action recorded when the call is denied
+  rateLimit: RateLimitOptions;
+}
+
+export type ApiGuardResult =
+  | { ok: true; actor: AuditActor; context: ApiRequestContext }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Authenticate the caller, enforce the rate limit and check the permission.
+ * Denied calls are audited here; the route handler audits the outcome of allowed calls.
+ */
+export async function guardApiRequest(request: NextRequest, options: ApiGuardOptions): Promise<ApiGuardResult> {
+  const context = getApiRequestContext(request);
+  const actor = await authenticateApiRequest(request);
+
+  // Authenticated callers are limited per account, anonymous ones per IP address
+  const rateLimitKey = `${options.action}:${actor ? `actor:${actor.id}` : `ip:${context.ipAddress}`}`;
+  const rateLimit = checkRateLimit(rateLimitKey, options.rateLimit);
+  if (!rateLimit.allowed) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, message: 'Too many requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+      ),
+    };
+  }
+
+  if (!actor || !hasPermission(actor.roles, options.permission)) {
+    await recordAuditEvent({
+      action: options.action,
+      outcome: 'denied',
+      actor,
+      details: { reason: actor ? 'missing permission' : 'unauthenticated', permission: options.permission },
+      ...context,
+    });
+
+    return {
+      ok: false,
+      response: actor
+        ? NextResponse.json({ success: false, message: 'You are not authorized to perform this action.' }, { status: 403 })
+        : NextResponse.json({ success: false, message: 'Authentication required.' }, { status: 401 }),
+    };
+  }
+
+  return { ok: true, actor, context };
+}
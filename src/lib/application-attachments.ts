@@ -0,0 +1,81 @@
+// src/lib/application-attachments.ts
+// Storage for files applicants attach to their application. Files are validated and uploaded by
+// the server before the application is submitted; the applicant's browser gets a signed token per
+// file and sends the tokens with the application, which then stores the references. Files whose
+// application is never submitted stay under their upload ID. Server-side only.
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import crypto from 'crypto';
+import { storage } from './firebase';
+import { validateAttachment } from './attachment-validation';
+import { createApplicationAttachmentToken, verifyApplicationAttachmentToken } from './session-token';
+import type { ApplicationAttachment, ApplicationAttachmentKind } from '@/types/application-attachment';
+
+export const APPLICATION_ATTACHMENTS_PATH = 'application-attachments';
+
+const MAX_FILE_NAME_LENGTH = 120;
+
+// Keep the applicant's file name readable in downloads without letting it shape the Storage path
+function safeFileName(fileName: string): string {
+  const cleaned = fileName
+    .normalize('NFKD')
+    .replace(/[^\w.\- ]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return (cleaned || 'attachment').slice(-MAX_FILE_NAME_LENGTH);
+}
+
+export type StoreApplicationAttachmentResult =
+  | { success: true; attachment: ApplicationAttachment; token: string }
+  | { success: false; error: string };
+
+export async function storeApplicationAttachment(input: {
+  bytes: Uint8Array;
+  fileName: string;
+  kind: ApplicationAttachmentKind;
+}): Promise<StoreApplicationAttachmentResult> {
+  const validation = validateAttachment(input);
+  if (!validation.valid) {
+    return { success: false, error: validation.error };
+  }
+
+  const id = crypto.randomUUID();
+  const fileName = safeFileName(input.fileName);
+  const storagePath = `${APPLICATION_ATTACHMENTS_PATH}/${id}/${fileName}`;
+  await uploadBytes(ref(storage, storagePath), input.bytes, {
+    contentType: validation.contentType,
+    // PDFs open in the admin's inline preview; Office files always download
+    contentDisposition: `${validation.contentType === 'application/pdf' ? 'inline' : 'attachment'}; filename="${fileName}"`,
+    customMetadata: { kind: input.kind },
+  });
+
+  const attachment: ApplicationAttachment = {
+    id,
+    kind: input.kind,
+    fileName,
+    contentType: validation.contentType,
+    size: input.bytes.length,
+    storagePath,
+    uploadedAt: new Date().toISOString(),
+  };
+  return { success: true, attachment, token: await createApplicationAttachmentToken(attachment) };
+}
+
+/**
+ * Attachment references for a submission from the tokens the applicant's browser sent back.
+ * Invalid or expired tokens are dropped; a later file of the same kind replaces an earlier one.
+ */
+export async function resolveApplicationAttachments(tokens: unknown): Promise<ApplicationAttachment[]> {
+  if (!Array.isArray(tokens)) return [];
+  const byKind = new Map<ApplicationAttachmentKind, ApplicationAttachment>();
+  for (const token of tokens.slice(0, 10)) {
+    if (typeof token !== 'string') continue;
+    const payload = await verifyApplicationAttachmentToken(token);
+    if (payload) byKind.set(payload.attachment.kind, payload.attachment);
+  }
+  return Array.from(byKind.values());
+}
+
+// Anyone holding the URL can read the file, so it is only handed out behind a permission check
+export async function getApplicationAttachmentUrl(attachment: ApplicationAttachment): Promise<string> {
+  return getDownloadURL(ref(storage, attachment.storagePath));
+}
@@ -0,0 +1,201 @@
+// src/lib/application-drafts.ts
+// Save-and-resume for the public application form. A draft is keyed by the applicant's company
+// email; the browser that created it (and any browser opened from an emailed resume link) holds
+// an access token that lets it autosave. Server-side only.
+import { deleteDoc, doc, getDoc, runTransaction, serverTimestamp, setDoc, Timestamp } from 'firebase/firestore';
+import crypto from 'crypto';
+import { db } from './firebase';
+import { EMAIL_TOKENS_COLLECTION, generateSecureToken } from './email-tokens';
+import type { CampusStatus } from '@/types/Submission';
+import type {
+  ApplicationDraft,
+  ApplicationDraftFirestore,
+  ApplicationDraftKey,
+  ApplicationResumeTokenFirestore,
+} from '@/types/application-draft';
+
+export const APPLICATION_DRAFTS_COLLECTION = 'applicationDrafts';
+export const APPLICATION_DRAFT_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days after the last save
+export const APPLICATION_RESUME_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Browsers that may edit one draft; the oldest is dropped when another resume link is opened
+const MAX_DRAFT_ACCESS_TOKENS = 5;
+const MAX_ANSWER_LENGTH = 5000;
+const MAX_ANSWERS = 100;
+const ANSWER_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,49}$/;
+
+export type SaveApplicationDraftResult =
+  | { status: 'saved'; key: ApplicationDraftKey }
+  | { status: 'conflict' }; // Someone else's browser owns the draft for this email
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// The email is not used as the document ID itself so it does not appear in paths and logs
+export function applicationDraftId(email: string): string {
+  return hashToken(`application-draft:${normalizeEmail(email)}`);
+}
+
+function draftRef(email: string) {
+  return doc(db, APPLICATION_DRAFTS_COLLECTION, applicationDraftId(email));
+}
+
+function isLiveDraft(data: ApplicationDraftFirestore | undefined): data is ApplicationDraftFirestore {
+  return !!data && data.status === 'draft' && data.expiresAt.toMillis() > Date.now();
+}
+
+function toApplicationDraft(data: ApplicationDraftFirestore): ApplicationDraft {
+  return {
+    email: data.email,
+    answers: data.answers ?? {},
+    formVersion: data.formVersion,
+    campusStatus: data.campusStatus,
+    updatedAt: data.updatedAt.toDate().toISOString(),
+  };
+}
+
+// Drafts are saved unvalidated, so only bound their shape and size
+function sanitizeAnswers(answers: Record<string, unknown>): Record<string, string> {
+  const sanitized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(answers).slice(0, MAX_ANSWERS)) {
+    if (ANSWER_KEY_PATTERN.test(key) && typeof value === 'string' && value.length > 0) {
+      sanitized[key] = value.slice(0, MAX_ANSWER_LENGTH);
+    }
+  }
+  return sanitized;
+}
+
+/**
+ * Create or update the draft for `email`. A new draft hands back an access token; an existing one
+ * is only updated when `token` is one of its access tokens.
+ */
+export async function saveApplicationDraft(input: {
+  email: string;
+  answers: Record<string, unknown>;
+  formVersion: number;
+  campusStatus: CampusStatus;
+  token?: string;
+}): Promise<SaveApplicationDraftResult> {
+  const email = normalizeEmail(input.email);
+  const ref = draftRef(email);
+  const expiresAt = Timestamp.fromMillis(Date.now() + APPLICATION_DRAFT_TTL_MS);
+  const answers = sanitizeAnswers(input.answers);
+
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const existing = snapshot.exists() ? (snapshot.data() as ApplicationDraftFirestore) : undefined;
+
+    if (isLiveDraft(existing)) {
+      if (!input.token || !existing.accessTokenHashes.includes(hashToken(input.token))) {
+        return { status: 'conflict' as const };
+      }
+      transaction.update(ref, {
+        answers,
+        formVersion: input.formVersion,
+        campusStatus: input.campusStatus,
+        updatedAt: serverTimestamp(),
+        expiresAt,
+      });
+      return { status: 'saved' as const, key: { email, token: input.token } };
+    }
+
+    // No draft yet, or an expired one that can be started over
+    const token = generateSecureToken();
+    transaction.set(ref, {
+      email,
+      status: 'draft',
+      answers,
+      formVersion: input.formVersion,
+      campusStatus: input.campusStatus,
+      accessTokenHashes: [hashToken(token)],
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      expiresAt,
+    });
+    return { status: 'saved' as const, key: { email, token } };
+  });
+}
+
+export async function getApplicationDraft(key: ApplicationDraftKey): Promise<ApplicationDraft | null> {
+  const snapshot = await getDoc(draftRef(key.email));
+  const data = snapshot.exists() ? (snapshot.data() as ApplicationDraftFirestore) : undefined;
+  if (!isLiveDraft(data) || !data.accessTokenHashes.includes(hashToken(key.token))) {
+    return null;
+  }
+  return toApplicationDraft(data);
+}
+
+// Delete a draft the caller holds a token for (after submitting, or when it moved to another email)
+export async function deleteApplicationDraft(key: ApplicationDraftKey): Promise<boolean> {
+  const snapshot = await getDoc(draftRef(key.email));
+  const data = snapshot.exists() ? (snapshot.data() as ApplicationDraftFirestore) : undefined;
+  if (!data || !data.accessTokenHashes?.includes(hashToken(key.token))) {
+    return false;
+  }
+  await deleteDoc(snapshot.ref);
+  return true;
+}
+
+export function getApplicationResumeUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002';
+  return `${appUrl}/?resumeApplication=${encodeURIComponent(token)}`;
+}
+
+// Create a resume link for the draft saved under `email`; null when there is no draft
+export async function issueApplicationResumeLink(email: string): Promise<{ url: string; expiresAt: Date } | null> {
+  const normalized = normalizeEmail(email);
+  const snapshot = await getDoc(draftRef(normalized));
+  if (!isLiveDraft(snapshot.exists() ? (snapshot.data() as ApplicationDraftFirestore) : undefined)) {
+    return null;
+  }
+
+  const token = generateSecureToken();
+  const expiresAt = new Date(Date.now() + APPLICATION_RESUME_LINK_TTL_MS);
+  await setDoc(doc(db, EMAIL_TOKENS_COLLECTION, hashToken(token)), {
+    purpose: 'applicationResume',
+    draftId: snapshot.id,
+    email: normalized,
+    createdAt: serverTimestamp(),
+    expiresAt: Timestamp.fromDate(expiresAt),
+  });
+
+  return { url: getApplicationResumeUrl(token), expiresAt };
+}
+
+/**
+ * Open a draft from a resume link. The link stays usable until it expires (the applicant may open
+ * it on several devices); each opening grants that browser its own access token.
+ */
+export async function redeemApplicationResumeLink(
+  resumeToken: string
+): Promise<{ success: boolean; draft?: ApplicationDraft; key?: ApplicationDraftKey; error?: string }> {
+  const linkSnapshot = await getDoc(doc(db, EMAIL_TOKENS_COLLECTION, hashToken(resumeToken)));
+  const link = linkSnapshot.exists() ? (linkSnapshot.data() as ApplicationResumeTokenFirestore) : undefined;
+  if (!link || link.purpose !== 'applicationResume' || link.expiresAt.toMillis() < Date.now()) {
+    return { success: false, error: 'This resume link is not valid or has expired. Request a new one from the application form.' };
+  }
+
+  const ref = doc(db, APPLICATION_DRAFTS_COLLECTION, link.draftId);
+  const accessToken = generateSecureToken();
+
+  const draft = await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const data = snapshot.exists() ? (snapshot.data() as ApplicationDraftFirestore) : undefined;
+    if (!isLiveDraft(data)) return null;
+
+    transaction.update(ref, {
+      accessTokenHashes: [...data.accessTokenHashes, hashToken(accessToken)].slice(-MAX_DRAFT_ACCESS_TOKENS),
+    });
+    return toApplicationDraft(data);
+  });
+
+  if (!draft) {
+    return { success: false, error: 'This draft was already submitted or has expired.' };
+  }
+  return { success: true, draft, key: { email: draft.email, token: accessToken } };
+}
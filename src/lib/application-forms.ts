@@ -0,0 +1,169 @@
+// src/lib/application-forms.ts
+// Versioned application form schemas edited in /admin/forms. One version is published at a time;
+// earlier ones are archived (never deleted) so submissions can always be checked against the
+// version the applicant filled in. Server-side only.
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { DEFAULT_APPLICATION_FORM, cleanFormDefinition } from './validation/application-form-schema';
+import type {
+  ApplicationFormDefinition,
+  ApplicationFormVersion,
+  ApplicationFormVersionFirestore,
+} from '@/types/application-form';
+
+export const APPLICATION_FORMS_COLLECTION = 'applicationForms';
+// { activeVersion, latestVersion }: the published version and the highest version number handed out
+export const APPLICATION_FORM_CONFIG_PATH = 'admin_config/application_form';
+
+function versionRef(version: number) {
+  return doc(db, APPLICATION_FORMS_COLLECTION, `v${version}`);
+}
+
+function toIsoString(value: unknown): string | undefined {
+  return value instanceof Timestamp ? value.toDate().toISOString() : undefined;
+}
+
+function toApplicationFormVersion(id: string, data: ApplicationFormVersionFirestore): ApplicationFormVersion {
+  return {
+    id,
+    version: data.version,
+    status: data.status,
+    title: data.title,
+    description: data.description || undefined,
+    sections: data.sections ?? [],
+    createdAt: toIsoString(data.createdAt),
+    createdBy: data.createdBy,
+    updatedAt: toIsoString(data.updatedAt),
+    updatedBy: data.updatedBy,
+    publishedAt: toIsoString(data.publishedAt),
+    publishedBy: data.publishedBy,
+  };
+}
+
+export async function listApplicationFormVersions(): Promise<ApplicationFormVersion[]> {
+  const snapshot = await getDocs(collection(db, APPLICATION_FORMS_COLLECTION));
+  return snapshot.docs
+    .map((docSnap) => toApplicationFormVersion(docSnap.id, docSnap.data() as ApplicationFormVersionFirestore))
+    .sort((a, b) => b.version - a.version);
+}
+
+// Any version, drafts included; version 0 is the built-in form
+export async function getApplicationFormVersion(version: number): Promise<ApplicationFormVersion | null> {
+  if (version === 0) return DEFAULT_APPLICATION_FORM;
+  if (!Number.isInteger(version) || version < 0) return null;
+
+  const snapshot = await getDoc(versionRef(version));
+  return snapshot.exists()
+    ? toApplicationFormVersion(snapshot.id, snapshot.data() as ApplicationFormVersionFirestore)
+    : null;
+}
+
+// The version shown to applicants: the published one, or the built-in form if none was published yet
+export async function getActiveApplicationForm(): Promise<ApplicationFormVersion> {
+  const config = await getDoc(doc(db, APPLICATION_FORM_CONFIG_PATH));
+  const activeVersion = config.exists() ? Number(config.data().activeVersion ?? 0) : 0;
+  if (!activeVersion) return DEFAULT_APPLICATION_FORM;
+
+  const form = await getApplicationFormVersion(activeVersion);
+  if (!form || form.status !== 'published') {
+    console.error(`[ApplicationForms] Active form version ${activeVersion} is missing or not published; using the built-in form.`);
+    return DEFAULT_APPLICATION_FORM;
+  }
+  return form;
+}
+
+/**
+ * Start a new draft as a copy of an existing version. Only one draft exists at a time so two
+ * admins do not end up editing diverging copies.
+ */
+export async function createApplicationFormDraft(baseVersion: number, createdBy: string): Promise<ApplicationFormVersion> {
+  const base = await getApplicationFormVersion(baseVersion);
+  if (!base) {
+    throw new Error(`Form version ${baseVersion} does not exist.`);
+  }
+  const existingDraft = (await listApplicationFormVersions()).find((form) => form.status === 'draft');
+  if (existingDraft) {
+    throw new Error(`Version ${existingDraft.version} is already a draft. Publish or discard it first.`);
+  }
+
+  const configRef = doc(db, APPLICATION_FORM_CONFIG_PATH);
+  const version = await runTransaction(db, async (transaction) => {
+    const config = await transaction.get(configRef);
+    const next = (config.exists() ? Number(config.data().latestVersion ?? 0) : 0) + 1;
+    transaction.set(configRef, { latestVersion: next }, { merge: true });
+    transaction.set(versionRef(next), {
+      ...cleanFormDefinition(base),
+      version: next,
+      status: 'draft',
+      createdAt: serverTimestamp(),
+      createdBy,
+      updatedAt: serverTimestamp(),
+    });
+    return next;
+  });
+
+  return (await getApplicationFormVersion(version))!;
+}
+
+// Replace the contents of a draft; the definition must already have passed applicationFormDefinitionSchema
+export async function saveApplicationFormDraft(
+  version: number,
+  definition: ApplicationFormDefinition,
+  updatedBy: string
+): Promise<void> {
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(versionRef(version));
+    if (!snapshot.exists() || snapshot.data().status !== 'draft') {
+      throw new Error('Only drafts can be edited. Create a new draft from this version instead.');
+    }
+    transaction.update(versionRef(version), {
+      ...cleanFormDefinition(definition),
+      description: definition.description ?? null,
+      updatedAt: serverTimestamp(),
+      updatedBy,
+    });
+  });
+}
+
+// Publish a draft; the previously published version is archived. Returns the version it replaced.
+export async function publishApplicationFormVersion(version: number, publishedBy: string): Promise<number> {
+  const configRef = doc(db, APPLICATION_FORM_CONFIG_PATH);
+
+  return runTransaction(db, async (transaction) => {
+    const [snapshot, config] = await Promise.all([transaction.get(versionRef(version)), transaction.get(configRef)]);
+    if (!snapshot.exists() || snapshot.data().status !== 'draft') {
+      throw new Error('Only drafts can be published.');
+    }
+
+    const previousVersion = config.exists() ? Number(config.data().activeVersion ?? 0) : 0;
+    if (previousVersion > 0) {
+      transaction.update(versionRef(previousVersion), { status: 'archived', updatedAt: serverTimestamp() });
+    }
+    transaction.update(versionRef(version), {
+      status: 'published',
+      publishedAt: serverTimestamp(),
+      publishedBy,
+      updatedAt: serverTimestamp(),
+    });
+    transaction.set(configRef, { activeVersion: version }, { merge: true });
+    return previousVersion;
+  });
+}
+
+// Drafts were never shown to applicants, so they can be thrown away
+export async function discardApplicationFormDraft(version: number): Promise<void> {
+  const snapshot = await getDoc(versionRef(version));
+  if (!snapshot.exists() || snapshot.data().status !== 'draft') {
+    throw new Error('Only drafts can be discarded.');
+  }
+  await deleteDoc(versionRef(version));
+}
@@ -0,0 +1,184 @@
+// src/lib/application-status.ts
+// Applicant-facing status of submitted applications. Applicants prove they own an email with a
+// one-time code, then see a timeline per submission built from its status, the admin decision
+// date and the evaluation round it was assigned to. Server-side only.
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import crypto from 'crypto';
+import { db } from './firebase';
+import { EMAIL_TOKENS_COLLECTION } from './email-tokens';
+import { APPLICATIONS_COLLECTION } from './applications';
+import { normalizeSubmission } from './validation/submission-schema';
+import type { Submission, SubmissionStatus } from '@/types/Submission';
+import type {
+  ApplicationStatusCodeFirestore,
+  ApplicationStatusSummary,
+  ApplicationTimelineStep,
+} from '@/types/application-status';
+
+export const APPLICATION_STATUS_CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+export const APPLICATION_STATUS_CODE_LENGTH = 6;
+const MAX_CODE_ATTEMPTS = 5;
+
+export type VerifyApplicationStatusCodeResult = 'verified' | 'invalid' | 'expired';
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function codeRef(email: string) {
+  return doc(db, EMAIL_TOKENS_COLLECTION, sha256(`application-status:${email}`));
+}
+
+function hashCode(email: string, code: string): string {
+  return sha256(`${email}:${code}`);
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return new Date(value).toISOString();
+  return undefined;
+}
+
+// Older documents keep the email as the applicant typed it, so look up both spellings
+async function findSubmissionsByEmail(email: string): Promise<Submission[]> {
+  const spellings = Array.from(new Set([email.trim(), normalizeEmail(email)]));
+  const snapshot = await getDocs(query(collection(db, APPLICATIONS_COLLECTION), where('email', 'in', spellings)));
+  return snapshot.docs.map((submissionDoc) => normalizeSubmission(submissionDoc.id, submissionDoc.data()));
+}
+
+/**
+ * Issue a one-time code for `email`, replacing any earlier one. Returns null (and stores nothing)
+ * when no application was submitted with that email.
+ */
+export async function issueApplicationStatusCode(email: string): Promise<{ code: string; expiresAt: Date } | null> {
+  const normalized = normalizeEmail(email);
+  const submissions = await findSubmissionsByEmail(email);
+  if (submissions.length === 0) return null;
+
+  const code = crypto.randomInt(0, 10 ** APPLICATION_STATUS_CODE_LENGTH).toString().padStart(APPLICATION_STATUS_CODE_LENGTH, '0');
+  const expiresAt = new Date(Date.now() + APPLICATION_STATUS_CODE_TTL_MS);
+  await setDoc(codeRef(normalized), {
+    purpose: 'applicationStatus',
+    email: normalized,
+    codeHash: hashCode(normalized, code),
+    attempts: 0,
+    createdAt: serverTimestamp(),
+    expiresAt: Timestamp.fromDate(expiresAt),
+  });
+
+  return { code, expiresAt };
+}
+
+// Check a code; it is consumed when it matches and dropped after too many wrong guesses
+export async function verifyApplicationStatusCode(email: string, code: string): Promise<VerifyApplicationStatusCodeResult> {
+  const normalized = normalizeEmail(email);
+  const ref = codeRef(normalized);
+  const snapshot = await getDoc(ref);
+  const data = snapshot.exists() ? (snapshot.data() as ApplicationStatusCodeFirestore) : undefined;
+  if (!data || data.purpose !== 'applicationStatus') return 'invalid';
+
+  if (data.expiresAt.toMillis() < Date.now() || data.attempts >= MAX_CODE_ATTEMPTS) {
+    await deleteDoc(ref);
+    return 'expired';
+  }
+
+  const expected = Buffer.from(data.codeHash, 'hex');
+  const actual = Buffer.from(hashCode(normalized, code.trim()), 'hex');
+  if (expected.length === actual.length && crypto.timingSafeEqual(expected, actual)) {
+    await deleteDoc(ref);
+    return 'verified';
+  }
+
+  if (data.attempts + 1 >= MAX_CODE_ATTEMPTS) {
+    await deleteDoc(ref);
+    return 'expired';
+  }
+  await updateDoc(ref, { attempts: data.attempts + 1 });
+  return 'invalid';
+}
+
+const DECISION_LABELS: Record<Exclude<SubmissionStatus, 'pending'>, string> = {
+  accepted: 'Accepted',
+  rejected: 'Not selected',
+};
+
+// received → screening → evaluation → decision. Applications decided during screening skip evaluation.
+export function buildApplicationTimeline(submission: Submission): ApplicationTimelineStep[] {
+  const decided = submission.status === 'accepted' || submission.status === 'rejected';
+  const evaluation = submission.evaluation;
+
+  const received: ApplicationTimelineStep = {
+    id: 'received',
+    label: 'Application received',
+    state: 'complete',
+    date: toIsoDate(submission.submittedAt),
+  };
+
+  const screening: ApplicationTimelineStep = {
+    id: 'screening',
+    label: 'Under screening',
+    state: decided || evaluation ? 'complete' : 'current',
+    detail: decided || evaluation ? undefined : 'Our team is reviewing your application.',
+  };
+
+  const evaluationStep: ApplicationTimelineStep = evaluation
+    ? {
+        id: 'evaluation',
+        label: 'Evaluation round assigned',
+        state: decided ? 'complete' : 'current',
+        date: toIsoDate(evaluation.assignedAt),
+        detail: evaluation.roundName,
+      }
+    : {
+        id: 'evaluation',
+        label: 'Evaluation round assigned',
+        state: decided ? 'skipped' : 'upcoming',
+        detail: decided ? 'Not needed for this application.' : undefined,
+      };
+
+  const decision: ApplicationTimelineStep = decided
+    ? {
+        id: 'decision',
+        label: `Decision: ${DECISION_LABELS[submission.status as keyof typeof DECISION_LABELS]}`,
+        state: 'complete',
+        date: toIsoDate(submission.processedByAdminAt),
+        detail:
+          submission.status === 'accepted'
+            ? 'Check your inbox for the email about setting up your account.'
+            : 'Thank you for applying. You are welcome to apply again in a future intake.',
+      }
+    : { id: 'decision', label: 'Decision', state: 'upcoming' };
+
+  return [received, screening, evaluationStep, decision];
+}
+
+// Every application submitted with `email`, newest first
+export async function getApplicationStatuses(email: string): Promise<ApplicationStatusSummary[]> {
+  const submissions = await findSubmissionsByEmail(email);
+  return submissions
+    .map((submission) => ({
+      id: submission.id,
+      companyName: submission.companyName || submission.name || 'Your application',
+      submittedAt: toIsoDate(submission.submittedAt) ?? null,
+      status: submission.status ?? 'pending',
+      steps: buildApplicationTimeline(submission),
+    }))
+    .sort((a, b) => (b.submittedAt ?? '').localeCompare(a.submittedAt ?? ''));
+}
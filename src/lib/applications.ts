@@ -0,0 +1,34 @@
+// src/lib/applications.ts
+// Every application lives in the `applications` collection, whatever channel it came in through;
+// `source` records the channel. Add a source here (and to ApplicationSource) for a new intake
+// channel instead of creating another collection. Pure data + helpers, safe in the browser.
+import type { ApplicationSource, CampusStatus, Submission } from '@/types/Submission';
+
+export const APPLICATIONS_COLLECTION = 'applications';
+
+export const APPLICATION_SOURCE_LABELS: Record<ApplicationSource, string> = {
+  campus: 'On-campus',
+  'off-campus': 'Off-campus',
+};
+
+export const APPLICATION_SOURCES = Object.keys(APPLICATION_SOURCE_LABELS) as ApplicationSource[];
+
+// Collections applications were kept in before they were unified; read only by the migration
+export const LEGACY_APPLICATION_COLLECTIONS: Record<'contactSubmissions' | 'offCampusApplications', ApplicationSource> = {
+  contactSubmissions: 'campus',
+  offCampusApplications: 'off-campus',
+};
+
+export function isApplicationSource(value: unknown): value is ApplicationSource {
+  return typeof value === 'string' && (APPLICATION_SOURCES as string[]).includes(value);
+}
+
+// Source of an application submitted through the public form
+export function sourceForCampusStatus(campusStatus: CampusStatus): ApplicationSource {
+  return campusStatus === 'off-campus' ? 'off-campus' : 'campus';
+}
+
+// Documents written before `source` existed only carry campusStatus
+export function applicationSourceOf(submission: Pick<Submission, 'source' | 'campusStatus'>): ApplicationSource {
+  return isApplicationSource(submission.source) ? submission.source : sourceForCampusStatus(submission.campusStatus);
+}
@@ -0,0 +1,158 @@
+// src/lib/attachment-validation.ts
+// Checks for files applicants attach to their application. The type is detected from the file's
+// bytes (the browser-reported type and the extension are both applicant-controlled), and files
+// carrying active content (PDF scripts and launch actions, Office macros) or the EICAR test
+// signature are refused. These are heuristics, not a full antivirus scan.
+import type { ApplicationAttachmentContentType, ApplicationAttachmentKind } from '@/types/application-attachment';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+const PDF = 'application/pdf';
+const DOC = 'application/msword';
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const PPT = 'application/vnd.ms-powerpoint';
+const PPTX = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+export const ATTACHMENT_KINDS: Record<
+  ApplicationAttachmentKind,
+  { label: string; contentTypes: ApplicationAttachmentContentType[] }
+> = {
+  pitchDeck: { label: 'Pitch Deck', contentTypes: [PDF, PPT, PPTX] },
+  businessPlan: { label: 'Business Plan', contentTypes: [PDF, DOC, DOCX] },
+};
+
+export const ATTACHMENT_EXTENSIONS: Record<ApplicationAttachmentContentType, string[]> = {
+  [PDF]: ['pdf'],
+  [DOC]: ['doc'],
+  [DOCX]: ['docx'],
+  [PPT]: ['ppt'],
+  [PPTX]: ['pptx'],
+};
+
+// File extensions a kind accepts, e.g. ['.pdf', '.ppt', '.pptx']
+export function attachmentExtensions(kind: ApplicationAttachmentKind): string[] {
+  return ATTACHMENT_KINDS[kind].contentTypes.flatMap((type) => ATTACHMENT_EXTENSIONS[type]).map((extension) => `.${extension}`);
+}
+
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const PDF_HEADER_SEARCH_BYTES = 1024; // The PDF header may follow a little leading garbage
+
+const EICAR_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+// PDF name objects that run code or open other files when the document is viewed
+const PDF_ACTIVE_CONTENT = /\/(JavaScript|JS|Launch|EmbeddedFile|RichMedia)(?![A-Za-z])/;
+
+export type AttachmentValidationResult =
+  | { valid: true; contentType: ApplicationAttachmentContentType }
+  | { valid: false; error: string };
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+// Byte-for-byte view of the file, so ASCII markers can be searched with string methods
+function toLatin1(bytes: Uint8Array): string {
+  let text = '';
+  const chunkSize = 0x8000;
+  for (let start = 0; start < bytes.length; start += chunkSize) {
+    text += String.fromCharCode(...bytes.subarray(start, start + chunkSize));
+  }
+  return text;
+}
+
+// PDF object dictionaries without the (usually compressed) stream bodies, where random bytes
+// would otherwise spell out names like "/JS"
+function withoutPdfStreams(text: string): string {
+  let result = '';
+  let position = 0;
+  while (position < text.length) {
+    const start = text.indexOf('stream', position);
+    if (start === -1) break;
+    const end = text.indexOf('endstream', start + 'stream'.length);
+    result += text.slice(position, start);
+    if (end === -1) return result;
+    position = end + 'endstream'.length;
+  }
+  return result + text.slice(position);
+}
+
+// OLE stream names are UTF-16LE
+function utf16Marker(name: string): string {
+  return name.split('').map((char) => `${char}\0`).join('');
+}
+
+/** Detect the file type from its contents; null when it is none of the accepted types. */
+export function sniffAttachmentType(bytes: Uint8Array, text = toLatin1(bytes)): ApplicationAttachmentContentType | null {
+  if (text.slice(0, PDF_HEADER_SEARCH_BYTES).includes('%PDF-')) return PDF;
+  if (startsWith(bytes, OLE_SIGNATURE)) {
+    if (text.includes(utf16Marker('WordDocument'))) return DOC;
+    if (text.includes(utf16Marker('PowerPoint Document'))) return PPT;
+    return null;
+  }
+  if (startsWith(bytes, ZIP_SIGNATURE)) {
+    if (text.includes('word/document.xml')) return DOCX;
+    if (text.includes('ppt/presentation.xml')) return PPTX;
+    return null;
+  }
+  return null;
+}
+
+/** Why the file looks unsafe, or null when nothing suspicious was found. */
+export function findUnsafeContent(text: string, contentType: ApplicationAttachmentContentType): string | null {
+  if (text.includes(EICAR_SIGNATURE)) {
+    return 'The file matches a known malware test signature.';
+  }
+  if (contentType === PDF) {
+    // "#xx" escapes in names would otherwise hide e.g. /J#61vaScript
+    const names = withoutPdfStreams(text).replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    if (PDF_ACTIVE_CONTENT.test(names)) {
+      return 'PDFs with scripts, launch actions or embedded files are not accepted. Please export a plain PDF.';
+    }
+  }
+  if (contentType === DOCX || contentType === PPTX) {
+    if (text.includes('vbaProject.bin')) {
+      return 'Documents with macros are not accepted. Please save a copy without macros.';
+    }
+  }
+  if (contentType === DOC || contentType === PPT) {
+    if (text.includes(utf16Marker('_VBA_PROJECT')) || text.includes(utf16Marker('Macros'))) {
+      return 'Documents with macros are not accepted. Please save a copy without macros.';
+    }
+  }
+  return null;
+}
+
+export function validateAttachment(input: {
+  bytes: Uint8Array;
+  fileName: string;
+  kind: ApplicationAttachmentKind;
+}): AttachmentValidationResult {
+  const { bytes, fileName, kind } = input;
+  const { label, contentTypes } = ATTACHMENT_KINDS[kind];
+
+  if (bytes.length === 0) {
+    return { valid: false, error: 'The file is empty.' };
+  }
+  if (bytes.length > MAX_ATTACHMENT_SIZE) {
+    return { valid: false, error: `The file must be smaller than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB.` };
+  }
+
+  const text = toLatin1(bytes);
+  const contentType = sniffAttachmentType(bytes, text);
+  if (!contentType || !contentTypes.includes(contentType)) {
+    return { valid: false, error: `The ${label.toLowerCase()} must be a ${attachmentExtensions(kind).join(', ')} file.` };
+  }
+
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (!ATTACHMENT_EXTENSIONS[contentType].includes(extension)) {
+    return { valid: false, error: `The file's contents do not match its .${extension || '?'} extension.` };
+  }
+
+  const unsafe = findUnsafeContent(text, contentType);
+  if (unsafe) {
+    return { valid: false, error: unsafe };
+  }
+
+  return { valid: true, contentType };
+}
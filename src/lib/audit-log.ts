@@ -0,0 +1,121 @@
+// src/lib/audit-log.ts
+// Append-only audit trail of privileged and destructive operations.
+import {
+  addDoc,
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  where,
+  FieldValue,
+  Timestamp,
+  type QueryConstraint,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import type { SessionPayload } from './session-token';
+import type {
+  AuditActor,
+  AuditChange,
+  AuditLog,
+  AuditLogFilters,
+  AuditLogFirestore,
+} from '@/types/audit-log';
+
+export const AUDIT_LOGS_COLLECTION = 'auditLogs';
+
+// Upper bound on rows returned to the audit page (and its CSV export)
+export const AUDIT_LOG_QUERY_LIMIT = 1000;
+
+export type AuditLogEntry = Omit<AuditLogFirestore, 'createdAt'>;
+
+export function toAuditActor(session: Pick<SessionPayload, 'sub' | 'email' | 'name' | 'roles'>): AuditActor {
+  return {
+    id: session.sub,
+    email: session.email.toLowerCase(),
+    name: session.name,
+    roles: session.roles,
+  };
+}
+
+// Snapshot a Firestore value in a JSON-safe form
+function toAuditValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toAuditValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, toAuditValue(nested)]));
+  }
+  return value;
+}
+
+/**
+ * Before/after diff of the fields an operation touched.
+ * Pass `after` as the update payload (or null for a deletion); `fields` limits the comparison.
+ * Server timestamps in the payload are skipped since their value is not known yet.
+ */
+export function diffForAudit(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  fields?: string[]
+): AuditChange[] {
+  const keys = fields ?? Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]));
+
+  return keys.flatMap((field) => {
+    const afterValue = after?.[field];
+    if (afterValue instanceof FieldValue) return [];
+
+    const change = { field, before: toAuditValue(before?.[field]), after: toAuditValue(afterValue) };
+    return JSON.stringify(change.before) === JSON.stringify(change.after) ? [] : [change];
+  });
+}
+
+/**
+ * Write one audit record.
+ * Never throws: a failed audit write is logged but must not turn a completed operation into an error.
+ */
+export async function recordAuditEvent(entry: AuditLogEntry): Promise<void> {
+  try {
+    // Firestore rejects undefined values anywhere in a document; a JSON round-trip drops them
+    const data = JSON.parse(JSON.stringify(entry));
+    await addDoc(collection(db, AUDIT_LOGS_COLLECTION), {
+      ...data,
+      createdAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('[AuditLog] Failed to record audit event:', entry.action, error);
+  }
+}
+
+// Newest first; each combination of equality filters needs a composite index with createdAt (firestore.indexes.json)
+export async function listAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLog[]> {
+  const constraints: QueryConstraint[] = [];
+
+  if (filters.actorEmail?.trim()) {
+    constraints.push(where('actor.email', '==', filters.actorEmail.trim().toLowerCase()));
+  }
+  if (filters.targetType) {
+    constraints.push(where('target.type', '==', filters.targetType));
+  }
+  if (filters.from) {
+    constraints.push(where('createdAt', '>=', Timestamp.fromDate(new Date(`${filters.from}T00:00:00`))));
+  }
+  if (filters.to) {
+    constraints.push(where('createdAt', '<=', Timestamp.fromDate(new Date(`${filters.to}T23:59:59.999`))));
+  }
+
+  const snapshot = await getDocs(
+    query(collection(db, AUDIT_LOGS_COLLECTION), ...constraints, orderBy('createdAt', 'desc'), limit(AUDIT_LOG_QUERY_LIMIT))
+  );
+
+  return snapshot.docs.map((logDoc) => {
+    const data = logDoc.data() as AuditLogFirestore;
+    return {
+      ...data,
+      id: logDoc.id,
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    };
+  });
+}
@@ -0,0 +1,121 @@
+// src/lib/auth-guard.ts
+// Server-side session helpers shared by server actions and route handlers.
+import { cookies } from 'next/headers';
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_TTL_SECONDS,
+  PENDING_LOGIN_COOKIE_NAME,
+  PENDING_LOGIN_TTL_SECONDS,
+  APPLICATION_STATUS_COOKIE_NAME,
+  APPLICATION_STATUS_TTL_SECONDS,
+  createSessionToken,
+  verifySessionToken,
+  createPendingLoginToken,
+  verifyPendingLoginToken,
+  createApplicationStatusToken,
+  verifyApplicationStatusToken,
+  type PendingLoginPayload,
+  type SessionIdentity,
+  type SessionPayload,
+} from './session-token';
+import { hasPermission, type Permission } from './permissions';
+import { isSessionRevoked } from './session-revocation';
+
+export class AuthorizationError extends Error {
+  constructor(message: string = 'You are not authorized to perform this action.') {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+// Issue a signed session cookie for the given identity
+export async function setSessionCookie(
+  identity: SessionIdentity
+): Promise<SessionPayload> {
+  const { token, payload } = await createSessionToken(identity);
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS[identity.role],
+  });
+  return payload;
+}
+
+export async function clearSessionCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE_NAME);
+}
+
+// Remember an identity whose password checked out until its second factor is verified
+export async function setPendingLoginCookie(identity: PendingLoginPayload['identity']): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(PENDING_LOGIN_COOKIE_NAME, await createPendingLoginToken(identity), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: PENDING_LOGIN_TTL_SECONDS,
+  });
+}
+
+export async function getPendingLogin(): Promise<PendingLoginPayload | null> {
+  const cookieStore = await cookies();
+  return verifyPendingLoginToken(cookieStore.get(PENDING_LOGIN_COOKIE_NAME)?.value);
+}
+
+export async function clearPendingLoginCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(PENDING_LOGIN_COOKIE_NAME);
+}
+
+// Let an applicant who entered the code emailed to them view their application status for a while
+export async function setApplicationStatusCookie(email: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(APPLICATION_STATUS_COOKIE_NAME, await createApplicationStatusToken(email), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/application',
+    maxAge: APPLICATION_STATUS_TTL_SECONDS,
+  });
+}
+
+export async function getApplicationStatusEmail(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const payload = await verifyApplicationStatusToken(cookieStore.get(APPLICATION_STATUS_COOKIE_NAME)?.value);
+  return payload?.email ?? null;
+}
+
+export async function clearApplicationStatusCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete({ name: APPLICATION_STATUS_COOKIE_NAME, path: '/application' });
+}
+
+// Read and verify the session cookie of the current request (and that it was not signed out everywhere)
+export async function getCurrentSession(): Promise<SessionPayload | null> {
+  const cookieStore = await cookies();
+  const session = await verifySessionToken(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+  if (!session || (await isSessionRevoked(session))) return null;
+  return session;
+}
+
+/**
+ * Ensure the current request carries a valid session whose roles grant the permission.
+ * Throws AuthorizationError otherwise, so callers can let their existing catch blocks report it.
+ */
+export async function requirePermission(permission: Permission): Promise<SessionPayload> {
+  const session = await getCurrentSession();
+  if (!session) {
+    throw new AuthorizationError('Your session has expired. Please log in again.');
+  }
+  if (session.twoFactorSetupRequired) {
+    throw new AuthorizationError('Set up two-factor authentication in Settings → Security to continue.');
+  }
+  if (!hasPermission(session.roles, permission)) {
+    throw new AuthorizationError();
+  }
+  return session;
+}
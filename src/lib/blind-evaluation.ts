@@ -0,0 +1,163 @@
+// src/lib/blind-evaluation.ts
+// Redaction rules for blind evaluation rounds: evaluators see an anonymous label instead of the
+// startup, and names, contact details and profile links are masked, also inside free-text answers.
+// Pure functions only, so the admin UI can reuse them to label anonymised submissions.
+import { normalizeCompanyNameForMatching } from './duplicate-detection';
+import type { EvaluationRound } from '@/types/evaluation-round';
+import type { EvaluationSubmissionView } from '@/types/evaluation-score';
+import type { Submission } from '@/types/Submission';
+
+export const REDACTED = '[redacted]';
+
+const MIN_TERM_LENGTH = 3;
+const MIN_PHONE_DIGITS = 10;
+const MAX_PHONE_DIGITS = 15;
+
+// Webmail domains say nothing about who the applicant is
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'yahoo.in',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'icloud.com',
+  'rediffmail.com',
+  'proton.me',
+  'protonmail.com',
+]);
+
+const NAME_TITLES = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'shri', 'smt']);
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{8,}\d/g;
+const LINKEDIN_PATTERN = /(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/(?:\S*[^\s.,;:!?)\]])?/gi;
+
+// The fields of a submission that identify the applicant
+export type IdentitySource = Pick<
+  Submission,
+  'name' | 'fullName' | 'founderNames' | 'companyName' | 'email' | 'companyEmail' | 'linkedinUrl' | 'portfolioUrl'
+>;
+
+// Stable per submission, so an evaluator can tell their anonymised submissions apart
+export function anonymousLabel(submissionId: string): string {
+  let hash = 0;
+  for (const char of submissionId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return `Applicant ${hash.toString(36).toUpperCase().padStart(6, '0').slice(-6)}`;
+}
+
+/**
+ * Admins see who a blind round's submissions belong to once no score can change any more: the round is
+ * closed, or its deadline has passed and no submission still waits for a reconciled score
+ * (`unreconciled`, see countUnreconciled in src/lib/evaluation-scores.ts).
+ */
+export function identitiesRevealed(
+  round: Pick<EvaluationRound, 'blindEvaluation' | 'status' | 'evaluationDeadline'>,
+  unreconciled: number,
+  now = Date.now()
+): boolean {
+  if (!round.blindEvaluation) return true;
+  if (round.status === 'Completed' || round.status === 'Cancelled') return true;
+  const pastDeadline =
+    round.status === 'Active' && Boolean(round.evaluationDeadline) && new Date(round.evaluationDeadline!).getTime() < now;
+  return pastDeadline && unreconciled === 0;
+}
+
+function personNames(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(/,|;|\n|&|\/|\band\b/i)
+    .map((name) => name.replace(/\(.*?\)/g, '').trim())
+    .filter(Boolean)
+    .flatMap((name) => [
+      name,
+      ...name.split(/[\s.]+/).filter((part) => part.length >= MIN_TERM_LENGTH && !NAME_TITLES.has(part.toLowerCase())),
+    ]);
+}
+
+function urlTerms(url: string | undefined): string[] {
+  const trimmed = (url ?? '').trim();
+  if (!trimmed) return [];
+  const host = trimmed.replace(/^https?:\/\//i, '').replace(/^www\./i, '').split(/[/?#]/)[0];
+  return host && !/(^|\.)linkedin\.com$/i.test(host) ? [trimmed, host] : [trimmed];
+}
+
+function emailTerms(email: string | undefined): string[] {
+  const [local, domain] = (email ?? '').trim().toLowerCase().split('@');
+  if (!local || !domain) return [];
+  return [local, ...(PUBLIC_EMAIL_DOMAINS.has(domain) ? [] : [domain])];
+}
+
+/**
+ * Words and phrases that give the applicant away: founder and applicant names (whole and by part),
+ * the company name with and without its legal form, email local parts and company domains, and
+ * profile links.
+ */
+export function identityTermsOf(submission: IdentitySource): string[] {
+  const terms = [
+    ...personNames(submission.fullName),
+    ...personNames(submission.name),
+    ...personNames(submission.founderNames),
+    submission.companyName?.trim() ?? '',
+    normalizeCompanyNameForMatching(submission.companyName),
+    ...emailTerms(submission.email),
+    ...emailTerms(submission.companyEmail),
+    ...urlTerms(submission.linkedinUrl),
+    ...urlTerms(submission.portfolioUrl),
+  ];
+  return Array.from(new Set(terms.filter((term) => term.length >= MIN_TERM_LENGTH))).sort((a, b) => b.length - a.length);
+}
+
+function escapeForPattern(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+}
+
+// Mask email addresses, phone numbers, LinkedIn links and the given identity terms in free text
+export function redactText(text: string, terms: string[]): string {
+  let redacted = text
+    .replace(EMAIL_PATTERN, REDACTED)
+    .replace(LINKEDIN_PATTERN, REDACTED)
+    .replace(PHONE_PATTERN, (match) => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= MIN_PHONE_DIGITS && digits <= MAX_PHONE_DIGITS ? REDACTED : match;
+    });
+  if (terms.length > 0) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeForPattern).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+  return redacted;
+}
+
+/**
+ * What an evaluator sees of a submission in a blind round: identifying fields are dropped, the
+ * startup becomes its anonymous label, and answers and file names are redacted. Attachment contents
+ * cannot be redacted and stay available.
+ */
+export function redactSubmissionView(view: EvaluationSubmissionView, source: IdentitySource): EvaluationSubmissionView {
+  const terms = identityTermsOf(source);
+  const redact = (value: string | undefined) => (value ? redactText(value, terms) : value);
+  const videoUrl = redact(view.videoUrl);
+  return {
+    id: view.id,
+    companyName: anonymousLabel(view.id),
+    founderBio: redact(view.founderBio),
+    teamInfo: redact(view.teamInfo),
+    startupIdea: redact(view.startupIdea),
+    targetAudience: redact(view.targetAudience),
+    problemSolving: redact(view.problemSolving),
+    uniqueness: redact(view.uniqueness),
+    developmentStage: redact(view.developmentStage),
+    domain: view.domain,
+    sector: view.sector,
+    legalStatus: redact(view.legalStatus),
+    videoUrl: videoUrl === view.videoUrl ? videoUrl : undefined,
+    // The Storage path contains the original file name; downloads look the attachment up by ID instead
+    attachments: view.attachments?.map((attachment) => ({
+      ...attachment,
+      fileName: redactText(attachment.fileName, terms),
+      storagePath: '',
+    })),
+  };
+}
@@ -0,0 +1,52 @@
+// src/lib/bulk-decisions.ts
+// Queue for accepting or rejecting many applications at once from the admin screens. Items run one
+// at a time: each decision can create an account and send an email, and running them in sequence
+// keeps within the email provider's rate limit and makes progress easy to follow. Safe in the browser.
+
+export const DECISION_MESSAGE_MAX_LENGTH = 2000;
+
+export type BulkDecisionItemStatus = 'queued' | 'processing' | 'succeeded' | 'failed' | 'skipped' | 'cancelled';
+
+export interface BulkDecisionItem {
+  id: string;
+  label: string;
+  status: BulkDecisionItemStatus;
+  message?: string; // Outcome, or why the item failed or was skipped
+}
+
+export interface BulkDecisionOutcome {
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * Run `process` for each queued item in order, reporting every status change. Once `isCancelled`
+ * returns true, the remaining items are marked cancelled; the item already running finishes.
+ */
+export async function runDecisionQueue(
+  items: BulkDecisionItem[],
+  process: (item: BulkDecisionItem) => Promise<BulkDecisionOutcome>,
+  callbacks: {
+    onUpdate: (id: string, update: Pick<BulkDecisionItem, 'status' | 'message'>) => void;
+    isCancelled: () => boolean;
+  }
+): Promise<void> {
+  for (const item of items) {
+    if (item.status !== 'queued') continue;
+    if (callbacks.isCancelled()) {
+      callbacks.onUpdate(item.id, { status: 'cancelled', message: 'Stopped before this application was processed.' });
+      continue;
+    }
+
+    callbacks.onUpdate(item.id, { status: 'processing' });
+    try {
+      const outcome = await process(item);
+      callbacks.onUpdate(item.id, { status: outcome.ok ? 'succeeded' : 'failed', message: outcome.message });
+    } catch (error) {
+      callbacks.onUpdate(item.id, {
+        status: 'failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
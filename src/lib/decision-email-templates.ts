@@ -0,0 +1,162 @@
+// src/lib/decision-email-templates.ts
+// Acceptance and rejection email templates edited in /admin/email-templates. Built-in templates live
+// in code (src/lib/validation/email-template-schema.ts); admins add their own here and choose which
+// one each decision uses by default. Server-side only.
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { BUILT_IN_DEFAULT_TEMPLATE_IDS, BUILT_IN_EMAIL_TEMPLATES } from './validation/email-template-schema';
+import type {
+  EmailTemplate,
+  EmailTemplateContent,
+  EmailTemplateDecision,
+  EmailTemplateFirestore,
+} from '@/types/email-template';
+
+export const EMAIL_TEMPLATES_COLLECTION = 'emailTemplates';
+// { defaults: { accept?, reject? } }: template ID used for each decision when none is chosen
+export const EMAIL_TEMPLATE_CONFIG_PATH = 'admin_config/email_templates';
+
+function toIsoString(value: unknown): string | undefined {
+  return value instanceof Timestamp ? value.toDate().toISOString() : undefined;
+}
+
+function toEmailTemplate(id: string, data: EmailTemplateFirestore, isDefault: boolean): EmailTemplate {
+  return {
+    id,
+    builtIn: false,
+    isDefault,
+    name: data.name,
+    decision: data.decision,
+    subject: data.subject,
+    text: data.text,
+    html: data.html,
+    createdAt: toIsoString(data.createdAt),
+    createdBy: data.createdBy,
+    updatedAt: toIsoString(data.updatedAt),
+    updatedBy: data.updatedBy,
+  };
+}
+
+async function getDefaultTemplateIds(): Promise<Record<EmailTemplateDecision, string>> {
+  const config = await getDoc(doc(db, EMAIL_TEMPLATE_CONFIG_PATH));
+  const defaults = config.exists() ? config.data().defaults ?? {} : {};
+  return {
+    accept: defaults.accept || BUILT_IN_DEFAULT_TEMPLATE_IDS.accept,
+    reject: defaults.reject || BUILT_IN_DEFAULT_TEMPLATE_IDS.reject,
+  };
+}
+
+// Built-in templates first, then the admins' own by name
+export async function listEmailTemplates(): Promise<EmailTemplate[]> {
+  const [snapshot, defaults] = await Promise.all([getDocs(collection(db, EMAIL_TEMPLATES_COLLECTION)), getDefaultTemplateIds()]);
+  const stored = snapshot.docs
+    .map((docSnap) => {
+      const data = docSnap.data() as EmailTemplateFirestore;
+      return toEmailTemplate(docSnap.id, data, defaults[data.decision] === docSnap.id);
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const builtIn = BUILT_IN_EMAIL_TEMPLATES.map((template) => ({ ...template, isDefault: defaults[template.decision] === template.id }));
+  return [...builtIn, ...stored];
+}
+
+export async function getEmailTemplate(id: string): Promise<EmailTemplate | null> {
+  const defaults = await getDefaultTemplateIds();
+  const builtIn = BUILT_IN_EMAIL_TEMPLATES.find((template) => template.id === id);
+  if (builtIn) return { ...builtIn, isDefault: defaults[builtIn.decision] === id };
+
+  const snapshot = await getDoc(doc(db, EMAIL_TEMPLATES_COLLECTION, id));
+  if (!snapshot.exists()) return null;
+  const data = snapshot.data() as EmailTemplateFirestore;
+  return toEmailTemplate(snapshot.id, data, defaults[data.decision] === snapshot.id);
+}
+
+/**
+ * The template to send for a decision: the one chosen, or the decision's default. A default that
+ * was deleted behind our back falls back to the built-in template rather than blocking decisions.
+ */
+export async function resolveDecisionEmailTemplate(decision: EmailTemplateDecision, templateId?: string): Promise<EmailTemplate> {
+  if (templateId) {
+    const chosen = await getEmailTemplate(templateId);
+    if (!chosen) {
+      throw new Error(`Email template ${templateId} does not exist.`);
+    }
+    if (chosen.decision !== decision) {
+      throw new Error(`"${chosen.name}" is not a${decision === 'accept' ? 'n acceptance' : ' rejection'} template.`);
+    }
+    return chosen;
+  }
+
+  const defaults = await getDefaultTemplateIds();
+  const template = await getEmailTemplate(defaults[decision]);
+  if (!template || template.decision !== decision) {
+    console.error(`[EmailTemplates] Default ${decision} template ${defaults[decision]} is missing; using the built-in one.`);
+    return (await getEmailTemplate(BUILT_IN_DEFAULT_TEMPLATE_IDS[decision]))!;
+  }
+  return template;
+}
+
+// The content must already have passed emailTemplateContentSchema
+export async function createEmailTemplate(content: EmailTemplateContent, createdBy: string): Promise<string> {
+  const ref = await addDoc(collection(db, EMAIL_TEMPLATES_COLLECTION), {
+    ...content,
+    createdAt: serverTimestamp(),
+    createdBy,
+    updatedAt: serverTimestamp(),
+    updatedBy: createdBy,
+  });
+  return ref.id;
+}
+
+// A template that is a decision's default cannot be switched to the other decision
+export async function saveEmailTemplate(id: string, content: EmailTemplateContent, updatedBy: string): Promise<void> {
+  const ref = doc(db, EMAIL_TEMPLATES_COLLECTION, id);
+  const configRef = doc(db, EMAIL_TEMPLATE_CONFIG_PATH);
+  await runTransaction(db, async (transaction) => {
+    const [snapshot, config] = await Promise.all([transaction.get(ref), transaction.get(configRef)]);
+    if (!snapshot.exists()) {
+      throw new Error('Built-in templates cannot be edited. Copy one to make changes.');
+    }
+    const previous = snapshot.data() as EmailTemplateFirestore;
+    const isDefault = config.exists() && config.data().defaults?.[previous.decision] === id;
+    if (isDefault && previous.decision !== content.decision) {
+      throw new Error(`This is the default ${previous.decision === 'accept' ? 'acceptance' : 'rejection'} template. Choose another default first.`);
+    }
+    transaction.update(ref, { ...content, updatedAt: serverTimestamp(), updatedBy });
+  });
+}
+
+export async function setDefaultEmailTemplate(id: string): Promise<EmailTemplate> {
+  const template = await getEmailTemplate(id);
+  if (!template) {
+    throw new Error(`Email template ${id} does not exist.`);
+  }
+  // merge keeps the other decision's default
+  await setDoc(doc(db, EMAIL_TEMPLATE_CONFIG_PATH), { defaults: { [template.decision]: id } }, { merge: true });
+  return { ...template, isDefault: true };
+}
+
+// Emails already sent are unaffected; the audit log keeps the ID of the template each decision used
+export async function deleteEmailTemplate(id: string): Promise<void> {
+  const template = await getEmailTemplate(id);
+  if (!template) {
+    throw new Error(`Email template ${id} does not exist.`);
+  }
+  if (template.builtIn) {
+    throw new Error('Built-in templates cannot be deleted.');
+  }
+  if (template.isDefault) {
+    throw new Error('This template is a default. Choose another default before deleting it.');
+  }
+  await deleteDoc(doc(db, EMAIL_TEMPLATES_COLLECTION, id));
+}
@@ -0,0 +1,194 @@
+// src/lib/duplicate-detection.ts
+// Matching rules for spotting the same founder or company applying more than once.
+// Pure functions only, so the admin UI can reuse them to explain a match.
+import type { ApplicationSource, DuplicateMatchReason, Submission, SubmissionDuplicateMatch } from '@/types/Submission';
+
+// Company names at least this similar (after normalization) are treated as the same company
+export const COMPANY_NAME_MATCH_THRESHOLD = 0.85;
+
+const MIN_PHONE_DIGITS = 7;
+const MIN_COMPANY_NAME_LENGTH = 3;
+// Company-name words are looked up by their first letters, so a typo later in the word still finds them
+const COMPANY_WORD_KEY_LENGTH = 4;
+
+// Legal-form words that do not tell two companies apart
+const COMPANY_SUFFIXES = new Set(['pvt', 'private', 'ltd', 'limited', 'llp', 'inc', 'corp', 'co', 'opc', 'the']);
+
+// Placeholders applicants (and the sheet import) use when they have no company name yet
+const GENERIC_COMPANY_NAMES = new Set(['startup', 'na', 'none', 'nil', 'test', 'company']);
+
+const REASON_SCORES: Record<Exclude<DuplicateMatchReason, 'companyName'>, number> = {
+  email: 1,
+  phone: 0.9,
+};
+
+// The fields of a submission that matching looks at
+export type DuplicateCandidate = Pick<Submission, 'email' | 'companyEmail' | 'phone' | 'companyName'>;
+
+export type DuplicatePoolEntry = DuplicateCandidate & {
+  id: string;
+  source: ApplicationSource;
+  sourceRow?: number; // Sheet row an imported submission came from
+};
+
+// Lower-cased, without "+tag" and, for Gmail, without the dots Gmail ignores
+export function normalizeEmailForMatching(email: string | undefined): string {
+  const trimmed = (email ?? '').trim().toLowerCase();
+  const [local, domain] = trimmed.split('@');
+  if (!local || !domain) return '';
+  const withoutTag = local.split('+')[0];
+  const isGmail = domain === 'gmail.com' || domain === 'googlemail.com';
+  return `${isGmail ? withoutTag.replace(/\./g, '') : withoutTag}@${isGmail ? 'gmail.com' : domain}`;
+}
+
+// Digits only, compared on the last 10 so "+91 98765 43210" and "09876543210" match
+export function normalizePhoneForMatching(phone: string | undefined): string {
+  const digits = (phone ?? '').replace(/\D/g, '');
+  if (digits.length < MIN_PHONE_DIGITS) return '';
+  return digits.slice(-10);
+}
+
+export function normalizeCompanyNameForMatching(name: string | undefined): string {
+  const words = (name ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !COMPANY_SUFFIXES.has(word));
+  const normalized = words.join(' ');
+  if (normalized.length < MIN_COMPANY_NAME_LENGTH || GENERIC_COMPANY_NAMES.has(normalized)) return '';
+  return normalized;
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical normalized names, falling towards 0 as more characters differ
+export function companyNameSimilarity(a: string | undefined, b: string | undefined): number {
+  const left = normalizeCompanyNameForMatching(a);
+  const right = normalizeCompanyNameForMatching(b);
+  if (!left || !right) return 0;
+  if (left === right || left.replace(/ /g, '') === right.replace(/ /g, '')) return 1;
+  return 1 - levenshteinDistance(left, right) / Math.max(left.length, right.length);
+}
+
+function candidateEmails(submission: DuplicateCandidate): string[] {
+  return Array.from(
+    new Set([normalizeEmailForMatching(submission.email), normalizeEmailForMatching(submission.companyEmail)].filter(Boolean))
+  );
+}
+
+/**
+ * Lookup keys stored on every application as `duplicateKeys`, so intake reads only the applications
+ * that share one with the new submission: an email, the phone number, the company name, or the start
+ * of a word in it. Similar company names share a word start unless every word is misspelt early on.
+ */
+export function duplicateKeysFor(submission: DuplicateCandidate): string[] {
+  const phone = normalizePhoneForMatching(submission.phone);
+  const company = normalizeCompanyNameForMatching(submission.companyName);
+  const companyWords = company
+    .split(' ')
+    .filter((word) => word.length >= COMPANY_WORD_KEY_LENGTH)
+    .map((word) => `companyWord:${word.slice(0, COMPANY_WORD_KEY_LENGTH)}`);
+  return Array.from(
+    new Set([
+      ...candidateEmails(submission).map((email) => `email:${email}`),
+      ...(phone ? [`phone:${phone}`] : []),
+      ...(company ? [`company:${company.replace(/ /g, '')}`] : []),
+      ...companyWords,
+    ])
+  );
+}
+
+// Compare one submission with one other; null when nothing matches
+export function compareForDuplicates(
+  candidate: DuplicateCandidate,
+  other: DuplicateCandidate
+): Pick<SubmissionDuplicateMatch, 'reasons' | 'score'> | null {
+  const reasons: DuplicateMatchReason[] = [];
+  let score = 0;
+
+  const otherEmails = candidateEmails(other);
+  if (candidateEmails(candidate).some((email) => otherEmails.includes(email))) {
+    reasons.push('email');
+    score = Math.max(score, REASON_SCORES.email);
+  }
+
+  const phone = normalizePhoneForMatching(candidate.phone);
+  if (phone && phone === normalizePhoneForMatching(other.phone)) {
+    reasons.push('phone');
+    score = Math.max(score, REASON_SCORES.phone);
+  }
+
+  const similarity = companyNameSimilarity(candidate.companyName, other.companyName);
+  if (similarity >= COMPANY_NAME_MATCH_THRESHOLD) {
+    reasons.push('companyName');
+    score = Math.max(score, similarity);
+  }
+
+  return reasons.length > 0 ? { reasons, score: Math.round(score * 100) / 100 } : null;
+}
+
+// Every entry in `pool` that looks like the same founder or company, best match first
+export function findDuplicateMatches(
+  candidate: DuplicateCandidate,
+  pool: DuplicatePoolEntry[],
+  excludeId?: string
+): SubmissionDuplicateMatch[] {
+  return pool
+    .filter((entry) => entry.id !== excludeId)
+    .flatMap((entry) => {
+      const match = compareForDuplicates(candidate, entry);
+      return match ? [{ id: entry.id, source: entry.source, ...match }] : [];
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  companyName: 'Similar company name',
+};
+
+// Answers an admin can carry over from a duplicate when merging it into the submission they keep.
+// `name` and `email` follow `fullName` and `companyEmail`.
+export const MERGEABLE_SUBMISSION_FIELDS = [
+  'fullName',
+  'phone',
+  'natureOfInquiry',
+  'companyName',
+  'companyEmail',
+  'founderNames',
+  'founderBio',
+  'portfolioUrl',
+  'linkedinUrl',
+  'teamInfo',
+  'startupIdea',
+  'problemSolving',
+  'uniqueness',
+  'videoUrl',
+  'targetAudience',
+  'developmentStage',
+  'domain',
+  'sector',
+  'legalStatus',
+] as const;
+
+export type MergeableSubmissionField = (typeof MERGEABLE_SUBMISSION_FIELDS)[number];
+
+// Custom form-builder answers are addressed as `customAnswers.<fieldKey>`
+export const CUSTOM_ANSWER_FIELD_PREFIX = 'customAnswers.';
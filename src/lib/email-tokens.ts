@@ -13,8 +13,10 @@ export interface EmailToken {
   used: boolean;
 }
 
+export const EMAIL_TOKENS_COLLECTION = 'emailTokens';
+
 // Generate a secure random token
-function generateSecureToken(): string {
+export function generateSecureToken(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
@@ -0,0 +1,55 @@
+// src/lib/email.ts
+// Shared Resend helper for transactional emails.
+import { Resend } from 'resend';
+
+export interface EmailResult {
+  success: boolean;
+  message: string;
+  error?: string;
+}
+
+export async function sendEmailNotification(to: string, subject: string, body: string, htmlBody?: string): Promise<EmailResult> {
+  if (!process.env.RESEND_API_KEY) {
+    console.error("**********************************************************************************");
+    console.error("ERROR: RESEND_API_KEY not found in environment variables.");
+    console.error("Email sending is DISABLED. The email below is a simulation logged to the console.");
+    console.error("To enable real email sending, set RESEND_API_KEY in your .env file and restart the server.");
+    console.error("**********************************************************************************");
+    console.log("------ SIMULATING EMAIL SENDING (RESEND_API_KEY missing) ------");
+    console.log("To:", to);
+    console.log("Subject:", subject);
+    console.log("Body:\n", body);
+    if (htmlBody) {
+      console.log("HTML Body:\n", htmlBody);
+    }
+    console.log("-----------------------------------------------------------");
+    return { success: false, message: "Email sending disabled: RESEND_API_KEY not found. Logged to console.", error: "RESEND_API_KEY_MISSING" };
+  }
+
+  const resend = new Resend(process.env.RESEND_API_KEY);
+
+  try {
+    const fromEmail = process.env.RESEND_FROM_EMAIL || 'TBI Platform <onboarding@resend.dev>';
+
+    const { data, error } = await resend.emails.send({
+      from: fromEmail,
+      to: [to],
+      subject,
+      text: body,
+      ...(htmlBody ? { html: htmlBody } : {}),
+    });
+
+    if (error) {
+      console.error("Resend API Error:", error);
+      const errorMessage = error.message || error.name || JSON.stringify(error) || 'Unknown Resend API error';
+      return { success: false, message: `Failed to send email via Resend: ${errorMessage}`, error: JSON.stringify(error) };
+    }
+
+    console.log("Email sent successfully via Resend. ID:", data?.id);
+    return { success: true, message: `Email sent successfully to ${to} via Resend.` };
+  } catch (error) {
+    console.error("Error in sendEmailNotification with Resend:", error);
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, message: `Exception during email sending: ${message}`, error: String(error) };
+  }
+}
@@ -0,0 +1,595 @@
+// src/lib/evaluation-assignments.ts
+// Which evaluators score which submissions in an evaluation round. Putting a submission into a round
+// shows that step on the applicant status page; assigning it puts it into evaluators' queues in the
+// mentor portal. Rounds with auto-assignment are filled by a load-balanced plan that skips conflicts of
+// interest (src/lib/evaluator-matching.ts) and draws on the evaluators holding the roles the round asks
+// for, plus those who volunteered when it takes volunteers; admins can still assign anyone by hand.
+// Server-side only.
+import {
+  addDoc,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { APPLICATIONS_COLLECTION } from './applications';
+import {
+  EVALUATION_ASSIGNMENTS_COLLECTION,
+  EVALUATION_ROUNDS_COLLECTION,
+  EVALUATION_SCORES_COLLECTION,
+  listRoundApplications,
+} from './evaluation-rounds';
+import { sendEmailNotification } from './email';
+import {
+  CONFLICTING_MENTOR_REQUEST_STATUSES,
+  EVALUATOR_ROLE_OPTIONS,
+  conflictKey,
+  findConflicts,
+  isRoundEvaluator,
+  planAssignments,
+  type AssignmentPlan,
+} from './evaluator-matching';
+import { DEFAULT_EVALUATORS_PER_SUBMISSION } from './validation/evaluation-round-schema';
+import { normalizeSubmission } from './validation/submission-schema';
+import type { EvaluationRoundFirestore } from '@/types/evaluation-round';
+import type {
+  DeclaredConflictFirestore,
+  EvaluationAssignment,
+  EvaluationAssignmentFirestore,
+  EvaluationAssignmentMethod,
+  EvaluationCandidate,
+  EvaluationConflict,
+  EvaluationNominationFirestore,
+  EvaluatorSummary,
+  NominationOpening,
+} from '@/types/evaluation-score';
+
+export const EVALUATION_CONFLICTS_COLLECTION = 'evaluationConflicts';
+export const EVALUATION_NOMINATIONS_COLLECTION = 'evaluationNominations';
+
+// Profiles that can hold the evaluator role (see src/lib/role-claims.ts)
+const EVALUATOR_PROFILE_COLLECTIONS = ['mentors', 'users'];
+
+type AssignmentPair = { submissionId: string; evaluatorUid: string };
+
+// Firestore accepts at most 30 values in an `in` filter
+const MAX_IN_QUERY_VALUES = 30;
+
+// Documents whose `field` is one of `values`, read in batches that fit an `in` filter
+async function getDocsWhereIn(
+  collectionName: string,
+  field: string,
+  values: string[],
+  ...constraints: QueryConstraint[]
+): Promise<QueryDocumentSnapshot[]> {
+  const unique = Array.from(new Set(values));
+  const snapshots = await Promise.all(
+    Array.from({ length: Math.ceil(unique.length / MAX_IN_QUERY_VALUES) }, (_, index) =>
+      getDocs(
+        query(
+          collection(db, collectionName),
+          where(field, 'in', unique.slice(index * MAX_IN_QUERY_VALUES, (index + 1) * MAX_IN_QUERY_VALUES)),
+          ...constraints
+        )
+      )
+    )
+  );
+  return snapshots.flatMap((snapshot) => snapshot.docs);
+}
+
+// Assignments and scores share an ID, so an evaluator has at most one score per submission and round
+export function evaluationRecordId(roundId: string, submissionId: string, evaluatorUid: string): string {
+  return `${roundId}_${submissionId}_${evaluatorUid}`;
+}
+
+function toIsoString(value: unknown): string | undefined {
+  return value instanceof Timestamp ? value.toDate().toISOString() : undefined;
+}
+
+function toEvaluationAssignment(id: string, data: EvaluationAssignmentFirestore): EvaluationAssignment {
+  return {
+    id,
+    roundId: data.roundId,
+    submissionId: data.submissionId,
+    evaluatorUid: data.evaluatorUid,
+    evaluatorEmail: data.evaluatorEmail,
+    evaluatorName: data.evaluatorName,
+    assignedAt: toIsoString(data.assignedAt) ?? new Date(0).toISOString(),
+    assignedBy: data.assignedBy,
+    method: data.method ?? 'manual',
+    conflictOverride: data.conflictOverride,
+  };
+}
+
+// Rounds that are still set up or being scored; closed rounds keep their assignments unchanged
+async function getOpenRound(roundId: string): Promise<EvaluationRoundFirestore> {
+  const snapshot = await getDoc(doc(db, EVALUATION_ROUNDS_COLLECTION, roundId));
+  if (!snapshot.exists()) {
+    throw new Error(`Evaluation round ${roundId} does not exist.`);
+  }
+  const round = snapshot.data() as EvaluationRoundFirestore;
+  if (round.status === 'Completed' || round.status === 'Cancelled') {
+    throw new Error(`This round is ${round.status.toLowerCase()}; its assignments can no longer change.`);
+  }
+  return round;
+}
+
+// Mentors and startup users who have been granted the evaluator role, by name
+export async function listEvaluators(): Promise<EvaluatorSummary[]> {
+  const snapshots = await Promise.all(
+    EVALUATOR_PROFILE_COLLECTIONS.map((name) => getDocs(query(collection(db, name), where('roles', 'array-contains', 'evaluator'))))
+  );
+  const evaluators = new Map<string, EvaluatorSummary>();
+  for (const profile of snapshots.flatMap((snapshot) => snapshot.docs)) {
+    const data = profile.data();
+    evaluators.set(profile.id, {
+      uid: profile.id,
+      name: data.name || data.email || 'Unnamed',
+      email: data.email || '',
+      evaluatorRoles: Array.isArray(data.evaluatorRoles) ? data.evaluatorRoles : [],
+    });
+  }
+  return Array.from(evaluators.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Set the expertise an evaluator is tagged with; rounds that ask for evaluator roles draw on the people
+ * holding one of them. Returns the tags they had before.
+ */
+export async function setEvaluatorRoles(
+  uid: string,
+  collectionName: 'mentors' | 'users',
+  evaluatorRoles: string[]
+): Promise<{ previousRoles: string[]; evaluatorRoles: string[] }> {
+  const profileRef = doc(db, collectionName, uid);
+  const profile = await getDoc(profileRef);
+  if (!profile.exists()) {
+    throw new Error('This account no longer exists.');
+  }
+  const previous = profile.data().evaluatorRoles;
+  const next = EVALUATOR_ROLE_OPTIONS.filter((role) => evaluatorRoles.includes(role));
+  await updateDoc(profileRef, { evaluatorRoles: next, updatedAt: serverTimestamp() });
+  return { previousRoles: Array.isArray(previous) ? previous : [], evaluatorRoles: next };
+}
+
+// UIDs of the evaluators who volunteered for a round
+export async function listRoundNominations(roundId: string): Promise<string[]> {
+  const snapshot = await getDocs(query(collection(db, EVALUATION_NOMINATIONS_COLLECTION), where('roundId', '==', roundId)));
+  return snapshot.docs.map((docSnap) => (docSnap.data() as EvaluationNominationFirestore).evaluatorUid);
+}
+
+/**
+ * The evaluators a round draws on when assigning automatically: holders of the roles it asks for, and
+ * volunteers when it takes them. Admins assigning by hand can still pick anyone with the evaluator role.
+ */
+export async function listRoundEvaluators(
+  roundId: string,
+  round: Pick<EvaluationRoundFirestore, 'evaluatorRoles' | 'allowSelfNomination'>
+): Promise<{ evaluators: EvaluatorSummary[]; eligibleUids: string[]; nominatedUids: string[] }> {
+  const [evaluators, nominatedUids] = await Promise.all([listEvaluators(), listRoundNominations(roundId)]);
+  const rules = { evaluatorRoles: round.evaluatorRoles ?? [], allowSelfNomination: round.allowSelfNomination ?? false };
+  const eligibleUids = evaluators
+    .filter((evaluator) => isRoundEvaluator(rules, evaluator, nominatedUids.includes(evaluator.uid)))
+    .map((evaluator) => evaluator.uid);
+  return { evaluators, eligibleUids, nominatedUids };
+}
+
+/**
+ * Open rounds that take volunteers but do not already draw on this evaluator through their roles,
+ * with whether they have volunteered.
+ */
+export async function listNominationOpenings(evaluator: EvaluatorSummary): Promise<NominationOpening[]> {
+  const [rounds, nominations] = await Promise.all([
+    getDocs(query(collection(db, EVALUATION_ROUNDS_COLLECTION), where('allowSelfNomination', '==', true))),
+    getDocs(query(collection(db, EVALUATION_NOMINATIONS_COLLECTION), where('evaluatorUid', '==', evaluator.uid))),
+  ]);
+  const nominated = new Set(nominations.docs.map((docSnap) => (docSnap.data() as EvaluationNominationFirestore).roundId));
+  return rounds.docs
+    .map((roundDoc) => ({ id: roundDoc.id, round: roundDoc.data() as EvaluationRoundFirestore }))
+    .filter(
+      ({ round }) =>
+        (round.status === 'Draft' || round.status === 'Active') &&
+        !isRoundEvaluator({ evaluatorRoles: round.evaluatorRoles ?? [], allowSelfNomination: false }, evaluator, false)
+    )
+    .map(({ id, round }) => ({
+      roundId: id,
+      roundName: round.roundName,
+      status: round.status as NominationOpening['status'],
+      evaluatorRoles: round.evaluatorRoles ?? [],
+      evaluationDeadline: toIsoString(round.evaluationDeadline),
+      nominated: nominated.has(id),
+    }))
+    .sort((a, b) => a.roundName.localeCompare(b.roundName));
+}
+
+/**
+ * Volunteer an evaluator for an open round that takes volunteers. They are drawn on from the next
+ * automatic assignment; volunteering twice changes nothing.
+ */
+export async function nominateForRound(roundId: string, evaluator: EvaluatorSummary): Promise<EvaluationRoundFirestore> {
+  const round = await getOpenRound(roundId);
+  if (!round.allowSelfNomination) {
+    throw new Error('This round does not take volunteers.');
+  }
+  const nomination: Omit<EvaluationNominationFirestore, 'nominatedAt'> = {
+    roundId,
+    evaluatorUid: evaluator.uid,
+    evaluatorEmail: evaluator.email,
+    evaluatorName: evaluator.name,
+  };
+  await setDoc(doc(db, EVALUATION_NOMINATIONS_COLLECTION, `${roundId}_${evaluator.uid}`), {
+    ...nomination,
+    nominatedAt: serverTimestamp(),
+  });
+  return round;
+}
+
+// Withdraw a volunteer. Submissions already assigned to them stay in their queue.
+export async function withdrawNomination(roundId: string, evaluatorUid: string): Promise<EvaluationRoundFirestore> {
+  const round = await getOpenRound(roundId);
+  await deleteDoc(doc(db, EVALUATION_NOMINATIONS_COLLECTION, `${roundId}_${evaluatorUid}`));
+  return round;
+}
+
+// Pending applications, which can be put into a round, and the applications already in `roundId`
+export async function listEvaluationCandidates(roundId: string): Promise<EvaluationCandidate[]> {
+  const [pending, inRound] = await Promise.all([
+    getDocs(query(collection(db, APPLICATIONS_COLLECTION), where('status', '==', 'pending'))),
+    listRoundApplications(roundId),
+  ]);
+  const applications = new Map([...pending.docs, ...inRound].map((docSnap) => [docSnap.id, docSnap]));
+  return Array.from(applications.values())
+    .map((docSnap) => {
+      const submission = normalizeSubmission(docSnap.id, docSnap.data());
+      return {
+        id: submission.id,
+        companyName: submission.companyName || submission.name || 'Unnamed startup',
+        applicantName: submission.fullName || submission.name,
+        status: submission.status,
+        roundId: submission.evaluation?.roundId,
+        roundName: submission.evaluation?.roundName,
+      };
+    })
+    .sort((a, b) => a.companyName.localeCompare(b.companyName));
+}
+
+export async function listRoundSubmissionIds(roundId: string): Promise<string[]> {
+  return (await listRoundApplications(roundId)).map((docSnap) => docSnap.id);
+}
+
+export async function listRoundAssignments(roundId: string): Promise<EvaluationAssignment[]> {
+  const snapshot = await getDocs(query(collection(db, EVALUATION_ASSIGNMENTS_COLLECTION), where('roundId', '==', roundId)));
+  return snapshot.docs.map((docSnap) => toEvaluationAssignment(docSnap.id, docSnap.data() as EvaluationAssignmentFirestore));
+}
+
+export async function listEvaluatorAssignments(evaluatorUid: string): Promise<EvaluationAssignment[]> {
+  const snapshot = await getDocs(
+    query(collection(db, EVALUATION_ASSIGNMENTS_COLLECTION), where('evaluatorUid', '==', evaluatorUid))
+  );
+  return snapshot.docs.map((docSnap) => toEvaluationAssignment(docSnap.id, docSnap.data() as EvaluationAssignmentFirestore));
+}
+
+export async function getEvaluationAssignment(
+  roundId: string,
+  submissionId: string,
+  evaluatorUid: string
+): Promise<EvaluationAssignment | null> {
+  const id = evaluationRecordId(roundId, submissionId, evaluatorUid);
+  const snapshot = await getDoc(doc(db, EVALUATION_ASSIGNMENTS_COLLECTION, id));
+  return snapshot.exists() ? toEvaluationAssignment(id, snapshot.data() as EvaluationAssignmentFirestore) : null;
+}
+
+/**
+ * Conflicts of interest between the given submissions and evaluators: the evaluator is the applicant,
+ * mentors them through a mentor request that was not rejected, or a conflict was declared.
+ */
+export async function findEvaluationConflicts(
+  submissionIds: string[],
+  evaluators: EvaluatorSummary[]
+): Promise<EvaluationConflict[]> {
+  if (submissionIds.length === 0 || evaluators.length === 0) {
+    return [];
+  }
+  // Mentor requests are found by the evaluator's UID or email, in the case they were stored with
+  const evaluatorEmails = evaluators.flatMap((evaluator) =>
+    evaluator.email ? [evaluator.email, evaluator.email.trim().toLowerCase()] : []
+  );
+  const [applications, requestsByUid, requestsByEmail, declared] = await Promise.all([
+    Promise.all(submissionIds.map((id) => getDoc(doc(db, APPLICATIONS_COLLECTION, id)))),
+    getDocsWhereIn('mentorRequests', 'mentorId', evaluators.map((evaluator) => evaluator.uid)),
+    getDocsWhereIn('mentorRequests', 'mentorEmail', evaluatorEmails),
+    getDocsWhereIn(EVALUATION_CONFLICTS_COLLECTION, 'submissionId', submissionIds),
+  ]);
+  const mentorRequests = new Map([...requestsByUid, ...requestsByEmail].map((requestDoc) => [requestDoc.id, requestDoc]));
+
+  const submissions = applications
+    .filter((snap) => snap.exists())
+    .map((snap) => {
+      const submission = normalizeSubmission(snap.id, snap.data());
+      return {
+        id: submission.id,
+        emails: [submission.email, submission.companyEmail].filter((email): email is string => Boolean(email)),
+        uids: submission.firebaseUid ? [submission.firebaseUid] : [],
+      };
+    });
+  const mentorships = Array.from(mentorRequests.values())
+    .map((requestDoc) => requestDoc.data())
+    .filter((data) => CONFLICTING_MENTOR_REQUEST_STATUSES.includes(data.status))
+    .map((data) => ({ mentorId: data.mentorId, mentorEmail: data.mentorEmail, userId: data.userId, userEmail: data.userEmail }));
+
+  const wanted = new Set(submissionIds);
+  const evaluatorUids = new Set(evaluators.map((evaluator) => evaluator.uid));
+  const declaredConflicts: EvaluationConflict[] = declared
+    .map((conflictDoc) => conflictDoc.data() as DeclaredConflictFirestore)
+    .filter((conflict) => wanted.has(conflict.submissionId) && evaluatorUids.has(conflict.evaluatorUid))
+    .map((conflict) => ({
+      submissionId: conflict.submissionId,
+      evaluatorUid: conflict.evaluatorUid,
+      reason: 'declared',
+      detail: conflict.detail || undefined,
+    }));
+
+  return [...findConflicts(submissions, evaluators, mentorships), ...declaredConflicts];
+}
+
+// Unscored assignments each evaluator has in open rounds other than `roundId`
+export async function getEvaluatorLoad(roundId: string): Promise<Record<string, number>> {
+  const rounds = await getDocs(query(collection(db, EVALUATION_ROUNDS_COLLECTION), where('status', 'in', ['Draft', 'Active'])));
+  const otherOpenRoundIds = rounds.docs.map((roundDoc) => roundDoc.id).filter((id) => id !== roundId);
+  const [assignments, submitted] = await Promise.all([
+    getDocsWhereIn(EVALUATION_ASSIGNMENTS_COLLECTION, 'roundId', otherOpenRoundIds),
+    getDocsWhereIn(EVALUATION_SCORES_COLLECTION, 'roundId', otherOpenRoundIds, where('status', '==', 'submitted')),
+  ]);
+  const scored = new Set(submitted.map((scoreDoc) => scoreDoc.id));
+
+  const load: Record<string, number> = {};
+  for (const assignmentDoc of assignments) {
+    const assignment = assignmentDoc.data() as EvaluationAssignmentFirestore;
+    if (!scored.has(assignmentDoc.id)) {
+      load[assignment.evaluatorUid] = (load[assignment.evaluatorUid] ?? 0) + 1;
+    }
+  }
+  return load;
+}
+
+/**
+ * Put submissions into a round that is still open. Submissions already in it are left alone; IDs that
+ * do not exist are returned in `missing`. The submission stays in the rounds it was in before; its
+ * `evaluation` summary, shown on the applicant status page, moves to the newest round.
+ */
+export async function addSubmissionsToRound(
+  roundId: string,
+  submissionIds: string[]
+): Promise<{ added: string[]; missing: string[] }> {
+  const round = await getOpenRound(roundId);
+  const result = { added: [] as string[], missing: [] as string[] };
+  for (const submissionId of submissionIds) {
+    const applicationRef = doc(db, APPLICATIONS_COLLECTION, submissionId);
+    const application = await getDoc(applicationRef);
+    if (!application.exists()) {
+      result.missing.push(submissionId);
+      continue;
+    }
+    const data = application.data();
+    const roundIds: string[] = Array.isArray(data.evaluationRoundIds) ? data.evaluationRoundIds : [];
+    if (!roundIds.includes(roundId) && data.evaluation?.roundId !== roundId) {
+      // Applications added before `evaluationRoundIds` existed keep the round their summary names
+      const previousRoundId: string | undefined = data.evaluation?.roundId;
+      await updateDoc(applicationRef, {
+        evaluation: { roundId, roundName: round.roundName, assignedAt: serverTimestamp() },
+        evaluationRoundIds: arrayUnion(...(previousRoundId ? [previousRoundId] : []), roundId),
+      });
+      result.added.push(submissionId);
+    }
+  }
+  return result;
+}
+
+async function createAssignments(
+  roundId: string,
+  pairs: AssignmentPair[],
+  evaluators: EvaluatorSummary[],
+  assignedBy: string,
+  method: EvaluationAssignmentMethod,
+  overrides: Map<string, EvaluationConflict[]> = new Map()
+): Promise<{ created: AssignmentPair[]; existing: number }> {
+  const byUid = new Map(evaluators.map((evaluator) => [evaluator.uid, evaluator]));
+  const result = { created: [] as AssignmentPair[], existing: 0 };
+  for (const pair of pairs) {
+    const evaluator = byUid.get(pair.evaluatorUid);
+    const ref = doc(db, EVALUATION_ASSIGNMENTS_COLLECTION, evaluationRecordId(roundId, pair.submissionId, pair.evaluatorUid));
+    if (!evaluator || (await getDoc(ref)).exists()) {
+      result.existing++;
+      continue;
+    }
+    const overridden = overrides.get(conflictKey(pair.submissionId, pair.evaluatorUid));
+    await setDoc(ref, {
+      roundId,
+      submissionId: pair.submissionId,
+      evaluatorUid: evaluator.uid,
+      evaluatorEmail: evaluator.email,
+      evaluatorName: evaluator.name,
+      assignedAt: serverTimestamp(),
+      assignedBy,
+      method,
+      ...(overridden ? { conflictOverride: overridden.map((conflict) => conflict.reason) } : {}),
+    });
+    result.created.push(pair);
+  }
+  return result;
+}
+
+/**
+ * Assign the chosen evaluators to the chosen submissions by hand, putting the submissions into the
+ * round first. Pairs with a conflict of interest are skipped and returned in `conflicts` unless
+ * `overrideConflicts` is set, in which case the assignment records which conflicts were overridden.
+ */
+export async function assignEvaluators(
+  roundId: string,
+  submissionIds: string[],
+  evaluators: EvaluatorSummary[],
+  assignedBy: string,
+  overrideConflicts = false
+): Promise<{ created: AssignmentPair[]; existing: number; missing: string[]; conflicts: EvaluationConflict[] }> {
+  const { missing } = await addSubmissionsToRound(roundId, submissionIds);
+  const present = submissionIds.filter((id) => !missing.includes(id));
+  const conflicts = await findEvaluationConflicts(present, evaluators);
+
+  const conflictsByPair = new Map<string, EvaluationConflict[]>();
+  for (const conflict of conflicts) {
+    const key = conflictKey(conflict.submissionId, conflict.evaluatorUid);
+    conflictsByPair.set(key, [...(conflictsByPair.get(key) ?? []), conflict]);
+  }
+  const pairs = present
+    .flatMap((submissionId) => evaluators.map((evaluator) => ({ submissionId, evaluatorUid: evaluator.uid })))
+    .filter((pair) => overrideConflicts || !conflictsByPair.has(conflictKey(pair.submissionId, pair.evaluatorUid)));
+
+  const result = await createAssignments(roundId, pairs, evaluators, assignedBy, 'manual', overrideConflicts ? conflictsByPair : new Map());
+  return { ...result, missing, conflicts: overrideConflicts ? [] : conflicts };
+}
+
+/**
+ * Give the round's submissions (or just `submissionIds`) the round's number of evaluators, picking from
+ * the evaluators the round draws on (listRoundEvaluators). Existing assignments are kept; conflicts are
+ * never auto-assigned.
+ */
+export async function autoAssignEvaluators(
+  roundId: string,
+  assignedBy: string,
+  submissionIds?: string[]
+): Promise<{ created: AssignmentPair[]; shortfalls: AssignmentPlan['shortfalls'] }> {
+  const round = await getOpenRound(roundId);
+  const [targets, { evaluators: everyone, eligibleUids }, existing, load] = await Promise.all([
+    submissionIds ? Promise.resolve(submissionIds) : listRoundSubmissionIds(roundId),
+    listRoundEvaluators(roundId, round),
+    listRoundAssignments(roundId),
+    getEvaluatorLoad(roundId),
+  ]);
+  const evaluators = everyone.filter((evaluator) => eligibleUids.includes(evaluator.uid));
+  const conflicts = await findEvaluationConflicts(targets, evaluators);
+
+  const plan = planAssignments({
+    submissionIds: targets,
+    evaluatorUids: evaluators.map((evaluator) => evaluator.uid),
+    evaluatorsPerSubmission: round.evaluatorsPerSubmission ?? DEFAULT_EVALUATORS_PER_SUBMISSION,
+    existing,
+    load,
+    conflicts,
+  });
+  const { created } = await createAssignments(roundId, plan.assignments, evaluators, assignedBy, 'auto');
+  return { created, shortfalls: plan.shortfalls };
+}
+
+// Take a submission out of an evaluator's queue, along with any draft score; submitted scores are kept
+export async function removeEvaluationAssignment(roundId: string, submissionId: string, evaluatorUid: string): Promise<void> {
+  const id = evaluationRecordId(roundId, submissionId, evaluatorUid);
+  await runTransaction(db, async (transaction) => {
+    const assignmentRef = doc(db, EVALUATION_ASSIGNMENTS_COLLECTION, id);
+    const scoreRef = doc(db, EVALUATION_SCORES_COLLECTION, id);
+    const [assignment, score] = await Promise.all([transaction.get(assignmentRef), transaction.get(scoreRef)]);
+    if (!assignment.exists()) {
+      throw new Error('This evaluator is not assigned to the submission.');
+    }
+    if (score.exists() && score.data().status === 'submitted') {
+      throw new Error('This evaluator has already submitted a score for the submission.');
+    }
+    transaction.delete(assignmentRef);
+    if (score.exists()) {
+      transaction.delete(scoreRef);
+    }
+  });
+}
+
+/**
+ * Record that an evaluator has a conflict of interest with a submission assigned to them and take it
+ * out of their queue. The conflict applies to every round from then on.
+ */
+export async function declareEvaluationConflict(
+  roundId: string,
+  submissionId: string,
+  evaluator: { uid: string; email: string },
+  detail: string,
+  declaredBy: string
+): Promise<void> {
+  if (!(await getEvaluationAssignment(roundId, submissionId, evaluator.uid))) {
+    throw new Error('This submission is not assigned to you.');
+  }
+  await getOpenRound(roundId);
+  await removeEvaluationAssignment(roundId, submissionId, evaluator.uid);
+
+  const conflict: Omit<DeclaredConflictFirestore, 'declaredAt'> = {
+    submissionId,
+    evaluatorUid: evaluator.uid,
+    evaluatorEmail: evaluator.email,
+    detail,
+    roundId,
+    declaredBy,
+  };
+  await setDoc(doc(db, EVALUATION_CONFLICTS_COLLECTION, `${submissionId}_${evaluator.uid}`), {
+    ...conflict,
+    declaredAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Tell evaluators how many submissions are waiting for them in a round, in the portal and by email.
+ * Only active rounds notify; activating a round notifies everyone assigned to it.
+ */
+export async function notifyEvaluatorsOfQueue(roundId: string, evaluatorUids?: string[]): Promise<number> {
+  const roundSnap = await getDoc(doc(db, EVALUATION_ROUNDS_COLLECTION, roundId));
+  const round = roundSnap.exists() ? (roundSnap.data() as EvaluationRoundFirestore) : null;
+  if (!round || round.status !== 'Active') {
+    return 0;
+  }
+
+  const [assignments, submitted] = await Promise.all([
+    listRoundAssignments(roundId),
+    getDocs(query(collection(db, EVALUATION_SCORES_COLLECTION), where('roundId', '==', roundId), where('status', '==', 'submitted'))),
+  ]);
+  const scored = new Set(submitted.docs.map((scoreDoc) => scoreDoc.id));
+  const queues = new Map<string, { email: string; name: string; open: number }>();
+  for (const assignment of assignments) {
+    if (evaluatorUids && !evaluatorUids.includes(assignment.evaluatorUid)) continue;
+    if (scored.has(assignment.id)) continue;
+    const queue = queues.get(assignment.evaluatorUid) ?? { email: assignment.evaluatorEmail, name: assignment.evaluatorName, open: 0 };
+    queue.open++;
+    queues.set(assignment.evaluatorUid, queue);
+  }
+
+  const deadline = round.evaluationDeadline ? round.evaluationDeadline.toDate().toLocaleDateString('en-IN', { dateStyle: 'medium' }) : null;
+  const workspaceUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002'}/mentor/evaluation`;
+  for (const { email, name, open } of Array.from(queues.values())) {
+    if (!email) continue;
+    const message = `You have ${open} submission${open === 1 ? '' : 's'} to score in ${round.roundName}${deadline ? ` by ${deadline}` : ''}.`;
+    await addDoc(collection(db, 'notifications'), {
+      userId: email, // The mentor portal lists notifications by email
+      type: 'evaluation_assigned',
+      title: `Evaluations waiting: ${round.roundName}`,
+      message,
+      roundId,
+      read: false,
+      createdAt: serverTimestamp(),
+    });
+    const emailResult = await sendEmailNotification(
+      email,
+      `Evaluations waiting for you: ${round.roundName}`,
+      `Dear ${name},\n\n${message}\n\nOpen your evaluation queue: ${workspaceUrl}\n\nBest regards,\nThe RCOEM-TBI Team`
+    );
+    if (!emailResult.success) {
+      console.warn(`[EvaluationAssignments] Could not email ${email}: ${emailResult.message}`);
+    }
+  }
+  return queues.size;
+}
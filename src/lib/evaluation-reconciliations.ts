@@ -0,0 +1,368 @@
+// src/lib/evaluation-reconciliations.ts
+// Consensus rounds: when the evaluators of a submission have all submitted and their totals are
+// further apart than the round's threshold, a reconciliation thread opens among them. They discuss,
+// one proposes a final score with a justification, and it is recorded once every one of them approves.
+// Admins can settle a thread that does not reach agreement. Server-side only.
+import crypto from 'crypto';
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { sendEmailNotification } from './email';
+import {
+  EVALUATION_ASSIGNMENTS_COLLECTION,
+  EVALUATION_RECONCILIATIONS_COLLECTION,
+  EVALUATION_ROUNDS_COLLECTION,
+  EVALUATION_SCORES_COLLECTION,
+} from './evaluation-rounds';
+import { evaluationRecordId } from './evaluation-assignments';
+import { isDivergent } from './score-aggregation';
+import { defaultConsensusThreshold } from './validation/evaluation-round-schema';
+import type { EvaluationRoundFirestore } from '@/types/evaluation-round';
+import type {
+  EvaluationAssignmentFirestore,
+  EvaluationReconciliation,
+  EvaluationReconciliationFirestore,
+  EvaluationScoreFirestore,
+  ReconciliationThread,
+} from '@/types/evaluation-score';
+
+// Long threads belong in a meeting, not a document
+const MAX_MESSAGES = 200;
+
+export function reconciliationId(roundId: string, submissionId: string): string {
+  return `${roundId}_${submissionId}`;
+}
+
+function reconciliationRef(roundId: string, submissionId: string) {
+  return doc(db, EVALUATION_RECONCILIATIONS_COLLECTION, reconciliationId(roundId, submissionId));
+}
+
+function toIsoString(value: unknown): string | undefined {
+  return value instanceof Timestamp ? value.toDate().toISOString() : undefined;
+}
+
+function toReconciliation(id: string, data: EvaluationReconciliationFirestore): EvaluationReconciliation {
+  return {
+    ...data,
+    id,
+    messages: (data.messages ?? []).map((message) => ({
+      ...message,
+      createdAt: toIsoString(message.createdAt) ?? new Date(0).toISOString(),
+    })),
+    proposal: data.proposal
+      ? { ...data.proposal, proposedAt: toIsoString(data.proposal.proposedAt) ?? new Date(0).toISOString() }
+      : null,
+    agreedAt: toIsoString(data.agreedAt),
+    openedAt: toIsoString(data.openedAt) ?? new Date(0).toISOString(),
+  };
+}
+
+async function getRound(roundId: string): Promise<EvaluationRoundFirestore> {
+  const snapshot = await getDoc(doc(db, EVALUATION_ROUNDS_COLLECTION, roundId));
+  if (!snapshot.exists()) {
+    throw new Error(`Evaluation round ${roundId} does not exist.`);
+  }
+  return snapshot.data() as EvaluationRoundFirestore;
+}
+
+// Evaluators keep discussing after the scoring deadline, but not once the round is closed
+function isClosed(round: EvaluationRoundFirestore): boolean {
+  return round.status === 'Completed' || round.status === 'Cancelled';
+}
+
+function consensusThresholdOf(round: EvaluationRoundFirestore): number {
+  return round.consensusThreshold ?? defaultConsensusThreshold(round.maxScore);
+}
+
+export async function getReconciliation(roundId: string, submissionId: string): Promise<EvaluationReconciliation | null> {
+  const snapshot = await getDoc(reconciliationRef(roundId, submissionId));
+  return snapshot.exists() ? toReconciliation(snapshot.id, snapshot.data() as EvaluationReconciliationFirestore) : null;
+}
+
+export async function listRoundReconciliations(roundId: string): Promise<EvaluationReconciliation[]> {
+  const snapshot = await getDocs(query(collection(db, EVALUATION_RECONCILIATIONS_COLLECTION), where('roundId', '==', roundId)));
+  return snapshot.docs.map((docSnap) => toReconciliation(docSnap.id, docSnap.data() as EvaluationReconciliationFirestore));
+}
+
+export async function listEvaluatorReconciliations(evaluatorUid: string): Promise<EvaluationReconciliation[]> {
+  const snapshot = await getDocs(
+    query(collection(db, EVALUATION_RECONCILIATIONS_COLLECTION), where('evaluatorUids', 'array-contains', evaluatorUid))
+  );
+  return snapshot.docs.map((docSnap) => toReconciliation(docSnap.id, docSnap.data() as EvaluationReconciliationFirestore));
+}
+
+type NewThread = Omit<EvaluationReconciliationFirestore, 'openedAt'>;
+
+// A thread for a submission whose evaluators have all submitted and whose totals diverge; null otherwise
+async function divergentThread(round: EvaluationRoundFirestore, roundId: string, submissionId: string): Promise<NewThread | null> {
+  if (round.scoringMethod !== 'consensus') {
+    return null;
+  }
+  const [assignmentsSnap, scoresSnap] = await Promise.all([
+    getDocs(
+      query(collection(db, EVALUATION_ASSIGNMENTS_COLLECTION), where('roundId', '==', roundId), where('submissionId', '==', submissionId))
+    ),
+    getDocs(
+      query(collection(db, EVALUATION_SCORES_COLLECTION), where('roundId', '==', roundId), where('submissionId', '==', submissionId))
+    ),
+  ]);
+  const scores = new Map(scoresSnap.docs.map((scoreDoc) => [scoreDoc.id, scoreDoc.data() as EvaluationScoreFirestore]));
+  const assignments = assignmentsSnap.docs.map((assignmentDoc) => ({
+    id: assignmentDoc.id,
+    ...(assignmentDoc.data() as EvaluationAssignmentFirestore),
+  }));
+
+  const totals: Record<string, number> = {};
+  for (const assignment of assignments) {
+    const score = scores.get(assignment.id);
+    if (score?.status !== 'submitted' || score.total === null) {
+      return null; // Wait for everyone
+    }
+    totals[assignment.evaluatorUid] = score.total;
+  }
+  const values = Object.values(totals);
+  const threshold = consensusThresholdOf(round);
+  if (!isDivergent(values, threshold)) {
+    return null;
+  }
+  return {
+    roundId,
+    submissionId,
+    status: 'open',
+    evaluators: assignments.map((assignment) => ({
+      uid: assignment.evaluatorUid,
+      name: assignment.evaluatorName,
+      email: assignment.evaluatorEmail,
+    })),
+    evaluatorUids: assignments.map((assignment) => assignment.evaluatorUid),
+    totals,
+    spread: Math.round((Math.max(...values) - Math.min(...values)) * 100) / 100,
+    threshold,
+    messages: [],
+    proposal: null,
+  };
+}
+
+/**
+ * Open a reconciliation thread for a submission in a consensus round if every assigned evaluator has
+ * submitted and their totals diverge. Returns the new thread, or null when none was needed or one
+ * already exists.
+ */
+export async function openReconciliationIfDivergent(roundId: string, submissionId: string): Promise<EvaluationReconciliation | null> {
+  const round = await getRound(roundId);
+  const thread = isClosed(round) ? null : await divergentThread(round, roundId, submissionId);
+  if (!thread) {
+    return null;
+  }
+
+  const ref = reconciliationRef(roundId, submissionId);
+  const opened = await runTransaction(db, async (transaction) => {
+    if ((await transaction.get(ref)).exists()) {
+      return false;
+    }
+    transaction.set(ref, { ...thread, openedAt: serverTimestamp() });
+    return true;
+  });
+  return opened ? getReconciliation(roundId, submissionId) : null;
+}
+
+// Tell the evaluators in a new thread that they need to agree on a final score
+export async function notifyReconciliationOpened(reconciliation: EvaluationReconciliation, roundName: string): Promise<void> {
+  const threadUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002'}/mentor/evaluation/${reconciliation.roundId}/${reconciliation.submissionId}`;
+  const message = `Your scores for a submission in ${roundName} are ${reconciliation.spread} points apart (more than ${reconciliation.threshold}). Discuss it with the other evaluators and agree on a final score.`;
+  for (const evaluator of reconciliation.evaluators) {
+    if (!evaluator.email) continue;
+    await addDoc(collection(db, 'notifications'), {
+      userId: evaluator.email, // The mentor portal lists notifications by email
+      type: 'evaluation_reconciliation',
+      title: `Scores to reconcile: ${roundName}`,
+      message,
+      roundId: reconciliation.roundId,
+      read: false,
+      createdAt: serverTimestamp(),
+    });
+    const emailResult = await sendEmailNotification(
+      evaluator.email,
+      `Scores to reconcile: ${roundName}`,
+      `Dear ${evaluator.name},\n\n${message}\n\nOpen the discussion: ${threadUrl}\n\nBest regards,\nThe RCOEM-TBI Team`
+    );
+    if (!emailResult.success) {
+      console.warn(`[EvaluationReconciliations] Could not email ${evaluator.email}: ${emailResult.message}`);
+    }
+  }
+}
+
+// The thread and every participant's score sheet, for one of the participating evaluators
+export async function getReconciliationThread(
+  roundId: string,
+  submissionId: string,
+  evaluatorUid: string
+): Promise<ReconciliationThread | null> {
+  const [reconciliation, round] = await Promise.all([getReconciliation(roundId, submissionId), getRound(roundId)]);
+  if (!reconciliation || !reconciliation.evaluatorUids.includes(evaluatorUid)) {
+    return null;
+  }
+  const scoreSnaps = await Promise.all(
+    reconciliation.evaluators.map((evaluator) =>
+      getDoc(doc(db, EVALUATION_SCORES_COLLECTION, evaluationRecordId(roundId, submissionId, evaluator.uid)))
+    )
+  );
+  return {
+    reconciliation,
+    scores: reconciliation.evaluators.map((evaluator, index) => {
+      const score = scoreSnaps[index].exists() ? (scoreSnaps[index].data() as EvaluationScoreFirestore) : null;
+      return {
+        evaluatorUid: evaluator.uid,
+        evaluatorName: evaluator.name,
+        total: score?.total ?? null,
+        criterionScores: score?.criterionScores ?? [],
+        overallComment: score?.overallComment ?? '',
+      };
+    }),
+    maxScore: round.maxScore,
+    viewerUid: evaluatorUid,
+    canParticipate: reconciliation.status === 'open' && !isClosed(round),
+  };
+}
+
+type ThreadUpdate = (
+  current: EvaluationReconciliationFirestore,
+  round: EvaluationRoundFirestore
+) => Partial<EvaluationReconciliationFirestore>;
+
+// Apply a change to an open thread on behalf of one of its evaluators
+async function updateOpenThread(roundId: string, submissionId: string, evaluatorUid: string, update: ThreadUpdate) {
+  const ref = reconciliationRef(roundId, submissionId);
+  await runTransaction(db, async (transaction) => {
+    const [snapshot, roundSnap] = await Promise.all([
+      transaction.get(ref),
+      transaction.get(doc(db, EVALUATION_ROUNDS_COLLECTION, roundId)),
+    ]);
+    if (!snapshot.exists() || !roundSnap.exists()) {
+      throw new Error('There is no reconciliation for this submission.');
+    }
+    const current = snapshot.data() as EvaluationReconciliationFirestore;
+    const round = roundSnap.data() as EvaluationRoundFirestore;
+    if (!current.evaluatorUids.includes(evaluatorUid)) {
+      throw new Error('You are not part of this reconciliation.');
+    }
+    if (current.status !== 'open') {
+      throw new Error('The evaluators have already agreed on a final score.');
+    }
+    if (isClosed(round)) {
+      throw new Error(`This round is ${round.status.toLowerCase()}.`);
+    }
+    transaction.update(ref, update(current, round));
+  });
+  return (await getReconciliation(roundId, submissionId))!;
+}
+
+export async function postReconciliationMessage(
+  roundId: string,
+  submissionId: string,
+  author: { uid: string; name: string },
+  text: string
+): Promise<EvaluationReconciliation> {
+  return updateOpenThread(roundId, submissionId, author.uid, (current) => {
+    if ((current.messages ?? []).length >= MAX_MESSAGES) {
+      throw new Error('This thread is full. Propose a final score, or ask an admin to settle it.');
+    }
+    return {
+      messages: [
+        ...(current.messages ?? []),
+        { id: crypto.randomUUID(), authorUid: author.uid, authorName: author.name, text, createdAt: Timestamp.now() },
+      ],
+    };
+  });
+}
+
+// Put a final score forward; it replaces any earlier proposal and starts with the proposer's approval
+export async function proposeReconciledScore(
+  roundId: string,
+  submissionId: string,
+  evaluatorUid: string,
+  score: number,
+  justification: string
+): Promise<EvaluationReconciliation> {
+  return updateOpenThread(roundId, submissionId, evaluatorUid, (_current, round) => {
+    if (score > round.maxScore) {
+      throw new Error(`The final score cannot be above ${round.maxScore}.`);
+    }
+    return { proposal: { score, justification, proposedBy: evaluatorUid, proposedAt: Timestamp.now(), approvals: [evaluatorUid] } };
+  });
+}
+
+// Approve the current proposal; the last approval records it as the agreed final score
+export async function approveReconciledScore(roundId: string, submissionId: string, evaluatorUid: string): Promise<EvaluationReconciliation> {
+  return updateOpenThread(roundId, submissionId, evaluatorUid, (current) => {
+    if (!current.proposal) {
+      throw new Error('Nobody has proposed a final score yet.');
+    }
+    const approvals = Array.from(new Set([...current.proposal.approvals, evaluatorUid]));
+    const agreed = current.evaluatorUids.every((uid) => approvals.includes(uid));
+    return {
+      proposal: { ...current.proposal, approvals },
+      ...(agreed
+        ? {
+            status: 'agreed' as const,
+            finalScore: current.proposal.score,
+            justification: current.proposal.justification,
+            agreedAt: Timestamp.now(),
+            agreedBy: 'evaluators',
+          }
+        : {}),
+    };
+  });
+}
+
+/**
+ * An admin records the final score of a thread the evaluators could not settle. Divergent submissions
+ * without a thread (scored before the threshold changed, say) get one recorded as settled.
+ */
+export async function settleReconciliation(
+  roundId: string,
+  submissionId: string,
+  score: number,
+  justification: string,
+  settledBy: string
+): Promise<EvaluationReconciliation> {
+  const round = await getRound(roundId);
+  const missingThread = await divergentThread(round, roundId, submissionId);
+  const ref = reconciliationRef(roundId, submissionId);
+  await runTransaction(db, async (transaction) => {
+    const [snapshot, roundSnap] = await Promise.all([
+      transaction.get(ref),
+      transaction.get(doc(db, EVALUATION_ROUNDS_COLLECTION, roundId)),
+    ]);
+    if (!roundSnap.exists() || (!snapshot.exists() && !missingThread)) {
+      throw new Error('There is no reconciliation for this submission.');
+    }
+    const current = roundSnap.data() as EvaluationRoundFirestore;
+    if (current.status === 'Cancelled') {
+      throw new Error('This round is cancelled.');
+    }
+    if (snapshot.exists() && (snapshot.data() as EvaluationReconciliationFirestore).status !== 'open') {
+      throw new Error('A final score has already been agreed.');
+    }
+    if (score > current.maxScore) {
+      throw new Error(`The final score cannot be above ${current.maxScore}.`);
+    }
+    const settlement = { status: 'agreed', finalScore: score, justification, agreedAt: Timestamp.now(), agreedBy: settledBy };
+    if (snapshot.exists()) {
+      transaction.update(ref, settlement);
+    } else {
+      transaction.set(ref, { ...missingThread, ...settlement, openedAt: serverTimestamp() });
+    }
+  });
+  return (await getReconciliation(roundId, submissionId))!;
+}
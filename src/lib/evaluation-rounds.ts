@@ -0,0 +1,288 @@
+// src/lib/evaluation-rounds.ts
+// Evaluation rounds managed in /admin/evaluation. Counts shown for a round are worked out from the
+// applications put into it and the scores evaluators submitted, never stored. Server-side only.
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  type QueryDocumentSnapshot,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { APPLICATIONS_COLLECTION } from './applications';
+import { aggregateScores } from './score-aggregation';
+import { DEFAULT_EVALUATORS_PER_SUBMISSION, defaultConsensusThreshold } from './validation/evaluation-round-schema';
+import type {
+  EvaluationRound,
+  EvaluationRoundFirestore,
+  EvaluationRoundSettings,
+  EvaluationRoundStats,
+  EvaluationRoundStatus,
+} from '@/types/evaluation-round';
+
+export const EVALUATION_ROUNDS_COLLECTION = 'evaluationRounds';
+// One document per evaluator and submission in a round (EvaluationScoreFirestore, see src/lib/evaluation-scores.ts)
+export const EVALUATION_SCORES_COLLECTION = 'evaluationScores';
+// Who scores what, under the same IDs as the scores (see src/lib/evaluation-assignments.ts)
+export const EVALUATION_ASSIGNMENTS_COLLECTION = 'evaluationAssignments';
+// Consensus rounds' threads for totals that diverged (see src/lib/evaluation-reconciliations.ts)
+export const EVALUATION_RECONCILIATIONS_COLLECTION = 'evaluationReconciliations';
+
+function roundRef(id: string) {
+  return doc(db, EVALUATION_ROUNDS_COLLECTION, id);
+}
+
+function toIsoString(value: unknown): string | undefined {
+  return value instanceof Timestamp ? value.toDate().toISOString() : undefined;
+}
+
+// Settings as stored: dates become Timestamps and empty optional text is cleared
+function toFirestoreSettings(settings: EvaluationRoundSettings) {
+  return {
+    ...settings,
+    description: settings.description || null,
+    evaluatorInstructions: settings.evaluatorInstructions || null,
+    scheduledAt: Timestamp.fromDate(new Date(settings.scheduledAt)),
+    evaluationDeadline: settings.evaluationDeadline ? Timestamp.fromDate(new Date(settings.evaluationDeadline)) : null,
+  };
+}
+
+/**
+ * Applications put into a round. Membership is kept in each application's `evaluationRoundIds`, so putting
+ * it into a later round does not take it out of earlier ones; applications added before that list existed
+ * are found through their `evaluation` summary.
+ */
+export async function listRoundApplications(roundId: string): Promise<QueryDocumentSnapshot[]> {
+  const [members, legacy] = await Promise.all([
+    getDocs(query(collection(db, APPLICATIONS_COLLECTION), where('evaluationRoundIds', 'array-contains', roundId))),
+    getDocs(query(collection(db, APPLICATIONS_COLLECTION), where('evaluation.roundId', '==', roundId))),
+  ]);
+  const applications = new Map(members.docs.map((applicationDoc) => [applicationDoc.id, applicationDoc]));
+  for (const applicationDoc of legacy.docs) {
+    if (!applications.has(applicationDoc.id)) {
+      applications.set(applicationDoc.id, applicationDoc);
+    }
+  }
+  return Array.from(applications.values());
+}
+
+// The average is of the submissions' final scores under the round's scoring method (see getRoundResults)
+async function getRoundStats(id: string, data: EvaluationRoundFirestore): Promise<EvaluationRoundStats> {
+  const byRound = (name: string) => getDocs(query(collection(db, name), where('roundId', '==', id)));
+  const [submissions, assignments, scores, reconciliations] = await Promise.all([
+    listRoundApplications(id),
+    byRound(EVALUATION_ASSIGNMENTS_COLLECTION),
+    byRound(EVALUATION_SCORES_COLLECTION),
+    byRound(EVALUATION_RECONCILIATIONS_COLLECTION),
+  ]);
+  const submitted = new Map(
+    scores.docs
+      .filter((scoreDoc) => scoreDoc.data().status === 'submitted' && Number.isFinite(Number(scoreDoc.data().total)))
+      .map((scoreDoc) => [scoreDoc.id, { evaluatorUid: String(scoreDoc.data().evaluatorUid), total: Number(scoreDoc.data().total) }])
+  );
+  const agreed = new Map(
+    reconciliations.docs
+      .map((reconciliationDoc) => reconciliationDoc.data())
+      .filter((reconciliation) => reconciliation.status === 'agreed')
+      .map((reconciliation) => [reconciliation.submissionId, Number(reconciliation.finalScore)])
+  );
+
+  const finalScores = submissions
+    .map((submission) => {
+      const assigned = assignments.docs.filter((assignmentDoc) => assignmentDoc.data().submissionId === submission.id);
+      return aggregateScores({
+        method: data.scoringMethod,
+        consensusThreshold: data.consensusThreshold ?? defaultConsensusThreshold(data.maxScore),
+        assignedCount: assigned.length,
+        totals: assigned
+          .map((assignmentDoc) => submitted.get(assignmentDoc.id)?.total)
+          .filter((total): total is number => total !== undefined),
+        agreedScore: agreed.get(submission.id) ?? null,
+      }).finalScore;
+    })
+    .filter((score): score is number => score !== null);
+
+  return {
+    criteriaCount: data.criteria?.length ?? 0,
+    evaluatorCount: new Set(Array.from(submitted.values(), (score) => score.evaluatorUid)).size,
+    submissionCount: submissions.length,
+    averageScore: finalScores.length > 0 ? finalScores.reduce((sum, score) => sum + score, 0) / finalScores.length : undefined,
+  };
+}
+
+async function toEvaluationRound(id: string, data: EvaluationRoundFirestore): Promise<EvaluationRound> {
+  return {
+    id,
+    roundName: data.roundName,
+    description: data.description || undefined,
+    phase: data.phase,
+    scheduledAt: toIsoString(data.scheduledAt) ?? new Date(0).toISOString(),
+    evaluationDeadline: toIsoString(data.evaluationDeadline),
+    maxScore: data.maxScore,
+    minimumScore: data.minimumScore,
+    passingGrade: data.passingGrade ?? data.minimumScore,
+    evaluationPeriod: data.evaluationPeriod,
+    scoringMethod: data.scoringMethod,
+    consensusThreshold: data.consensusThreshold ?? defaultConsensusThreshold(data.maxScore),
+    criteria: data.criteria ?? [],
+    autoAdvance: data.autoAdvance ?? false,
+    allowedSubmissionTypes: data.allowedSubmissionTypes ?? [],
+    evaluatorsPerSubmission: data.evaluatorsPerSubmission ?? DEFAULT_EVALUATORS_PER_SUBMISSION,
+    autoAssignEvaluators: data.autoAssignEvaluators ?? true,
+    evaluatorRoles: data.evaluatorRoles ?? [],
+    allowSelfNomination: data.allowSelfNomination ?? false,
+    blindEvaluation: data.blindEvaluation ?? true,
+    evaluatorInstructions: data.evaluatorInstructions || undefined,
+    status: data.status,
+    createdAt: toIsoString(data.createdAt) ?? new Date(0).toISOString(),
+    createdBy: data.createdBy,
+    updatedAt: toIsoString(data.updatedAt) ?? toIsoString(data.createdAt) ?? new Date(0).toISOString(),
+    updatedBy: data.updatedBy,
+    completedAt: toIsoString(data.completedAt),
+    cancelledAt: toIsoString(data.cancelledAt),
+    ...(await getRoundStats(id, data)),
+  };
+}
+
+// Newest first
+export async function listEvaluationRounds(): Promise<EvaluationRound[]> {
+  const snapshot = await getDocs(collection(db, EVALUATION_ROUNDS_COLLECTION));
+  const rounds = await Promise.all(
+    snapshot.docs.map((docSnap) => toEvaluationRound(docSnap.id, docSnap.data() as EvaluationRoundFirestore))
+  );
+  return rounds.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getEvaluationRound(id: string): Promise<EvaluationRound | null> {
+  const snapshot = await getDoc(roundRef(id));
+  return snapshot.exists() ? toEvaluationRound(snapshot.id, snapshot.data() as EvaluationRoundFirestore) : null;
+}
+
+// The settings must already have passed evaluationRoundSettingsSchema
+export async function createEvaluationRound(
+  settings: EvaluationRoundSettings,
+  status: Extract<EvaluationRoundStatus, 'Draft' | 'Active'>,
+  createdBy: string
+): Promise<string> {
+  const ref = await addDoc(collection(db, EVALUATION_ROUNDS_COLLECTION), {
+    ...toFirestoreSettings(settings),
+    status,
+    createdAt: serverTimestamp(),
+    createdBy,
+    updatedAt: serverTimestamp(),
+    updatedBy: createdBy,
+  });
+  return ref.id;
+}
+
+/**
+ * Replace a round's settings and move it between Draft and Active. Completed and cancelled rounds
+ * are read-only; closeEvaluationRound ends a round.
+ */
+export async function updateEvaluationRound(
+  id: string,
+  settings: EvaluationRoundSettings,
+  status: Extract<EvaluationRoundStatus, 'Draft' | 'Active'>,
+  updatedBy: string
+): Promise<void> {
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(roundRef(id));
+    if (!snapshot.exists()) {
+      throw new Error(`Evaluation round ${id} does not exist.`);
+    }
+    const current = snapshot.data() as EvaluationRoundFirestore;
+    if (current.status === 'Completed' || current.status === 'Cancelled') {
+      throw new Error(`This round is ${current.status.toLowerCase()} and can no longer be edited.`);
+    }
+    transaction.update(roundRef(id), { ...toFirestoreSettings(settings), status, updatedAt: serverTimestamp(), updatedBy });
+  });
+}
+
+// Close a round for good; returns the status it had
+export async function closeEvaluationRound(
+  id: string,
+  status: Extract<EvaluationRoundStatus, 'Completed' | 'Cancelled'>,
+  closedBy: string
+): Promise<EvaluationRoundStatus> {
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(roundRef(id));
+    if (!snapshot.exists()) {
+      throw new Error(`Evaluation round ${id} does not exist.`);
+    }
+    const current = snapshot.data() as EvaluationRoundFirestore;
+    if (current.status === 'Completed' || current.status === 'Cancelled') {
+      throw new Error(`This round is already ${current.status.toLowerCase()}.`);
+    }
+    if (status === 'Completed' && current.status !== 'Active') {
+      throw new Error('Only active rounds can be completed. Cancel a draft instead.');
+    }
+    transaction.update(roundRef(id), {
+      status,
+      ...(status === 'Completed'
+        ? { completedAt: serverTimestamp(), completedBy: closedBy }
+        : { cancelledAt: serverTimestamp(), cancelledBy: closedBy }),
+      updatedAt: serverTimestamp(),
+      updatedBy: closedBy,
+    });
+    return current.status;
+  });
+}
+
+// Only drafts nobody has been put into can be removed; anything else is cancelled instead
+export async function deleteEvaluationRound(id: string): Promise<void> {
+  const round = await getEvaluationRound(id);
+  if (!round) {
+    throw new Error(`Evaluation round ${id} does not exist.`);
+  }
+  if (round.status !== 'Draft' || round.submissionCount > 0) {
+    throw new Error('Only draft rounds without applications can be deleted. Cancel the round instead.');
+  }
+  await deleteDoc(roundRef(id));
+}
+
+export interface LegacyRoundImport {
+  localId: string;
+  settings: EvaluationRoundSettings;
+  status: EvaluationRoundStatus;
+  createdAt: string;
+}
+
+/**
+ * Copy rounds from an admin's browser storage. Rounds are matched on their old local ID and creation
+ * time, so importing the same browser twice (or two browsers with the same rounds) adds them once.
+ */
+export async function importLegacyEvaluationRounds(
+  rounds: LegacyRoundImport[],
+  importedBy: string
+): Promise<{ imported: string[]; skipped: string[] }> {
+  const existing = await getDocs(query(collection(db, EVALUATION_ROUNDS_COLLECTION), where('legacyLocalId', '!=', null)));
+  const seen = new Set(existing.docs.map((docSnap) => docSnap.data().legacyLocalId as string));
+  const result = { imported: [] as string[], skipped: [] as string[] };
+
+  for (const round of rounds) {
+    const legacyLocalId = `${round.localId}@${round.createdAt}`;
+    if (seen.has(legacyLocalId)) {
+      result.skipped.push(round.settings.roundName);
+      continue;
+    }
+    await addDoc(collection(db, EVALUATION_ROUNDS_COLLECTION), {
+      ...toFirestoreSettings(round.settings),
+      status: round.status,
+      legacyLocalId,
+      createdAt: Timestamp.fromDate(new Date(round.createdAt)),
+      createdBy: importedBy,
+      updatedAt: serverTimestamp(),
+      updatedBy: importedBy,
+    });
+    seen.add(legacyLocalId);
+    result.imported.push(round.settings.roundName);
+  }
+  return result;
+}
@@ -0,0 +1,365 @@
+// src/lib/evaluation-scores.ts
+// Evaluators' score sheets for the submissions assigned to them. Totals are worked out here from the
+// round's criteria rather than taken from the browser, and a submitted score is final. Server-side only.
+import { collection, doc, getDoc, getDocs, query, runTransaction, serverTimestamp, Timestamp, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { APPLICATIONS_COLLECTION } from './applications';
+import {
+  EVALUATION_ASSIGNMENTS_COLLECTION,
+  EVALUATION_ROUNDS_COLLECTION,
+  EVALUATION_SCORES_COLLECTION,
+  listRoundApplications,
+} from './evaluation-rounds';
+import {
+  evaluationRecordId,
+  listEvaluatorAssignments,
+  listRoundAssignments,
+} from './evaluation-assignments';
+import { listEvaluatorReconciliations, listRoundReconciliations, reconciliationId } from './evaluation-reconciliations';
+import { aggregateScores, evaluatorTotal } from './score-aggregation';
+import { anonymousLabel, redactSubmissionView } from './blind-evaluation';
+import { normalizeSubmission } from './validation/submission-schema';
+import { defaultConsensusThreshold } from './validation/evaluation-round-schema';
+import {
+  alignCriterionScores,
+  scoringCriteriaOf,
+  unscoredCriteria,
+  type ScoreSheetInput,
+} from './validation/evaluation-score-schema';
+import type { EvaluationRound, EvaluationRoundFirestore } from '@/types/evaluation-round';
+import type {
+  EvaluationScore,
+  EvaluationScoreFirestore,
+  EvaluationSubmissionView,
+  EvaluatorQueueItem,
+  EvaluatorRoundInfo,
+  EvaluatorRoundQueue,
+  ScoreSheet,
+  SubmissionResult,
+} from '@/types/evaluation-score';
+import type { ApplicationAttachment } from '@/types/application-attachment';
+import type { Submission } from '@/types/Submission';
+
+function toIsoString(value: unknown): string | undefined {
+  return value instanceof Timestamp ? value.toDate().toISOString() : undefined;
+}
+
+function toEvaluationScore(id: string, data: EvaluationScoreFirestore): EvaluationScore {
+  return {
+    id,
+    roundId: data.roundId,
+    submissionId: data.submissionId,
+    evaluatorUid: data.evaluatorUid,
+    evaluatorEmail: data.evaluatorEmail,
+    status: data.status,
+    criterionScores: data.criterionScores ?? [],
+    overallComment: data.overallComment ?? '',
+    total: data.total ?? null,
+    createdAt: toIsoString(data.createdAt) ?? new Date(0).toISOString(),
+    updatedAt: toIsoString(data.updatedAt) ?? new Date(0).toISOString(),
+    submittedAt: toIsoString(data.submittedAt),
+  };
+}
+
+function toRoundInfo(id: string, data: EvaluationRoundFirestore): EvaluatorRoundInfo {
+  return {
+    id,
+    roundName: data.roundName,
+    phase: data.phase,
+    status: data.status,
+    evaluationDeadline: toIsoString(data.evaluationDeadline),
+    maxScore: data.maxScore,
+    passingGrade: data.passingGrade ?? data.minimumScore,
+    scoringMethod: data.scoringMethod,
+    consensusThreshold: data.consensusThreshold ?? defaultConsensusThreshold(data.maxScore),
+    criteria: scoringCriteriaOf({ criteria: data.criteria ?? [] }),
+    evaluatorInstructions: data.evaluatorInstructions || undefined,
+    blindEvaluation: data.blindEvaluation === true,
+  };
+}
+
+// Blind rounds only ever reach evaluators redacted (src/lib/blind-evaluation.ts)
+function toSubmissionView(submission: Submission, blind: boolean): EvaluationSubmissionView {
+  const view: EvaluationSubmissionView = {
+    id: submission.id,
+    companyName: submission.companyName,
+    fullName: submission.fullName || submission.name,
+    email: submission.email,
+    phone: submission.phone,
+    founderNames: submission.founderNames,
+    founderBio: submission.founderBio,
+    portfolioUrl: submission.portfolioUrl,
+    linkedinUrl: submission.linkedinUrl,
+    teamInfo: submission.teamInfo,
+    startupIdea: submission.startupIdea,
+    targetAudience: submission.targetAudience,
+    problemSolving: submission.problemSolving,
+    uniqueness: submission.uniqueness,
+    developmentStage: submission.developmentStage,
+    domain: submission.domain,
+    sector: submission.sector,
+    legalStatus: submission.legalStatus,
+    videoUrl: submission.videoUrl,
+    attachments: submission.attachments,
+  };
+  return blind ? redactSubmissionView(view, submission) : view;
+}
+
+// Why a score can no longer be changed, if it can't
+function lockedReason(round: EvaluationRoundFirestore, score: EvaluationScoreFirestore | null): string | undefined {
+  if (score?.status === 'submitted') {
+    return 'You have submitted this score.';
+  }
+  if (round.status === 'Draft') {
+    return 'This round has not opened for scoring yet.';
+  }
+  if (round.status !== 'Active') {
+    return `This round is ${round.status.toLowerCase()}.`;
+  }
+  if (round.evaluationDeadline && round.evaluationDeadline.toMillis() < Date.now()) {
+    return 'The evaluation deadline has passed.';
+  }
+  return undefined;
+}
+
+/**
+ * An evaluator's assigned submissions, grouped by round: active rounds first, then by deadline.
+ * Rounds that have not opened yet or were cancelled are left out.
+ */
+export async function getEvaluatorQueue(evaluatorUid: string): Promise<EvaluatorRoundQueue[]> {
+  const [assignments, scoresSnap, reconciliations] = await Promise.all([
+    listEvaluatorAssignments(evaluatorUid),
+    getDocs(query(collection(db, EVALUATION_SCORES_COLLECTION), where('evaluatorUid', '==', evaluatorUid))),
+    listEvaluatorReconciliations(evaluatorUid),
+  ]);
+  const scores = new Map(scoresSnap.docs.map((scoreDoc) => [scoreDoc.id, scoreDoc.data() as EvaluationScoreFirestore]));
+  const reconciliationStatus = new Map(reconciliations.map((reconciliation) => [reconciliation.id, reconciliation.status]));
+
+  const roundIds = Array.from(new Set(assignments.map((assignment) => assignment.roundId)));
+  const submissionIds = Array.from(new Set(assignments.map((assignment) => assignment.submissionId)));
+  const [roundSnaps, submissionSnaps] = await Promise.all([
+    Promise.all(roundIds.map((id) => getDoc(doc(db, EVALUATION_ROUNDS_COLLECTION, id)))),
+    Promise.all(submissionIds.map((id) => getDoc(doc(db, APPLICATIONS_COLLECTION, id)))),
+  ]);
+  const submissions = new Map(
+    submissionSnaps.filter((snap) => snap.exists()).map((snap) => [snap.id, normalizeSubmission(snap.id, snap.data())])
+  );
+
+  const queues: EvaluatorRoundQueue[] = [];
+  for (const roundSnap of roundSnaps) {
+    if (!roundSnap.exists()) continue;
+    const round = roundSnap.data() as EvaluationRoundFirestore;
+    if (round.status === 'Draft' || round.status === 'Cancelled') continue;
+
+    const items = assignments
+      .filter((assignment) => assignment.roundId === roundSnap.id && submissions.has(assignment.submissionId))
+      .map((assignment): EvaluatorQueueItem => {
+        const submission = submissions.get(assignment.submissionId)!;
+        const score = scores.get(assignment.id);
+        return {
+          submissionId: assignment.submissionId,
+          companyName: round.blindEvaluation
+            ? anonymousLabel(submission.id)
+            : submission.companyName || submission.name || 'Unnamed startup',
+          domain: submission.domain,
+          assignedAt: assignment.assignedAt,
+          scoreStatus: score?.status ?? 'not_started',
+          total: score?.status === 'submitted' && score.total !== null ? score.total : undefined,
+          updatedAt: toIsoString(score?.updatedAt),
+          reconciliationStatus: reconciliationStatus.get(reconciliationId(assignment.roundId, assignment.submissionId)),
+        };
+      })
+      .sort((a, b) => a.assignedAt.localeCompare(b.assignedAt));
+    if (items.length > 0) {
+      queues.push({ round: toRoundInfo(roundSnap.id, round), items });
+    }
+  }
+
+  return queues.sort((a, b) => {
+    if ((a.round.status === 'Active') !== (b.round.status === 'Active')) {
+      return a.round.status === 'Active' ? -1 : 1;
+    }
+    return (a.round.evaluationDeadline ?? '9999').localeCompare(b.round.evaluationDeadline ?? '9999');
+  });
+}
+
+// Every score saved in a round, drafts included
+export async function listRoundScores(roundId: string): Promise<EvaluationScore[]> {
+  const snapshot = await getDocs(query(collection(db, EVALUATION_SCORES_COLLECTION), where('roundId', '==', roundId)));
+  return snapshot.docs.map((scoreDoc) => toEvaluationScore(scoreDoc.id, scoreDoc.data() as EvaluationScoreFirestore));
+}
+
+/**
+ * Every submission in a round with its evaluators' totals and final score under the round's scoring
+ * method. Company names are the real ones; callers hide them for blind rounds.
+ */
+export async function getRoundResults(roundId: string): Promise<SubmissionResult[]> {
+  const roundSnap = await getDoc(doc(db, EVALUATION_ROUNDS_COLLECTION, roundId));
+  if (!roundSnap.exists()) {
+    throw new Error(`Evaluation round ${roundId} does not exist.`);
+  }
+  const round = roundSnap.data() as EvaluationRoundFirestore;
+  const [applications, assignments, scores, reconciliations] = await Promise.all([
+    listRoundApplications(roundId),
+    listRoundAssignments(roundId),
+    listRoundScores(roundId),
+    listRoundReconciliations(roundId),
+  ]);
+  const scoresById = new Map(scores.map((score) => [score.id, score]));
+  const reconciliationsBySubmission = new Map(reconciliations.map((reconciliation) => [reconciliation.submissionId, reconciliation]));
+  const passingGrade = round.passingGrade ?? round.minimumScore;
+
+  return applications
+    .map((applicationDoc): SubmissionResult => {
+      const submission = normalizeSubmission(applicationDoc.id, applicationDoc.data());
+      const evaluatorTotals = assignments
+        .filter((assignment) => assignment.submissionId === submission.id)
+        .map((assignment) => {
+          const score = scoresById.get(assignment.id);
+          return {
+            evaluatorUid: assignment.evaluatorUid,
+            evaluatorName: assignment.evaluatorName,
+            total: score?.status === 'submitted' ? score.total : null,
+          };
+        });
+      const reconciliation = reconciliationsBySubmission.get(submission.id);
+      const aggregation = aggregateScores({
+        method: round.scoringMethod,
+        consensusThreshold: round.consensusThreshold ?? defaultConsensusThreshold(round.maxScore),
+        assignedCount: evaluatorTotals.length,
+        totals: evaluatorTotals.map((entry) => entry.total).filter((total): total is number => total !== null),
+        agreedScore: reconciliation?.status === 'agreed' ? reconciliation.finalScore : null,
+      });
+      return {
+        submissionId: submission.id,
+        companyName: submission.companyName || submission.name || 'Unnamed startup',
+        evaluatorTotals,
+        ...aggregation,
+        passed: aggregation.finalScore !== null ? aggregation.finalScore >= passingGrade : undefined,
+        reconciliation: reconciliation
+          ? {
+              status: reconciliation.status,
+              finalScore: reconciliation.finalScore,
+              justification: reconciliation.justification,
+              agreedAt: reconciliation.agreedAt,
+            }
+          : undefined,
+      };
+    })
+    .sort((a, b) => (b.finalScore ?? -1) - (a.finalScore ?? -1) || a.companyName.localeCompare(b.companyName));
+}
+
+// Submissions in a consensus round whose evaluators' totals diverged and that have no agreed score yet
+export async function countUnreconciled(round: Pick<EvaluationRound, 'id' | 'scoringMethod'>): Promise<number> {
+  if (round.scoringMethod !== 'consensus') {
+    return 0;
+  }
+  return (await getRoundResults(round.id)).filter((result) => result.status === 'divergent').length;
+}
+
+// The round, submission and the evaluator's own score for one assignment
+export async function getScoreSheet(roundId: string, submissionId: string, evaluatorUid: string): Promise<ScoreSheet> {
+  const id = evaluationRecordId(roundId, submissionId, evaluatorUid);
+  const [assignmentSnap, roundSnap, submissionSnap, scoreSnap] = await Promise.all([
+    getDoc(doc(db, EVALUATION_ASSIGNMENTS_COLLECTION, id)),
+    getDoc(doc(db, EVALUATION_ROUNDS_COLLECTION, roundId)),
+    getDoc(doc(db, APPLICATIONS_COLLECTION, submissionId)),
+    getDoc(doc(db, EVALUATION_SCORES_COLLECTION, id)),
+  ]);
+  if (!assignmentSnap.exists() || !roundSnap.exists()) {
+    throw new Error('This submission is not assigned to you.');
+  }
+  if (!submissionSnap.exists()) {
+    throw new Error('This submission no longer exists.');
+  }
+
+  const round = roundSnap.data() as EvaluationRoundFirestore;
+  const score = scoreSnap.exists() ? (scoreSnap.data() as EvaluationScoreFirestore) : null;
+  const reason = lockedReason(round, score);
+  return {
+    round: toRoundInfo(roundSnap.id, round),
+    submission: toSubmissionView(normalizeSubmission(submissionSnap.id, submissionSnap.data()), round.blindEvaluation === true),
+    score: score ? toEvaluationScore(id, score) : null,
+    editable: !reason,
+    lockedReason: reason,
+  };
+}
+
+// An attachment of a submission assigned to the evaluator, as stored (blind score sheets hide its path)
+export async function getEvaluationAttachment(
+  roundId: string,
+  submissionId: string,
+  evaluatorUid: string,
+  attachmentId: string
+): Promise<ApplicationAttachment | null> {
+  const [assignmentSnap, submissionSnap] = await Promise.all([
+    getDoc(doc(db, EVALUATION_ASSIGNMENTS_COLLECTION, evaluationRecordId(roundId, submissionId, evaluatorUid))),
+    getDoc(doc(db, APPLICATIONS_COLLECTION, submissionId)),
+  ]);
+  if (!assignmentSnap.exists()) {
+    throw new Error('This submission is not assigned to you.');
+  }
+  if (!submissionSnap.exists()) {
+    return null;
+  }
+  const submission = normalizeSubmission(submissionSnap.id, submissionSnap.data());
+  return submission.attachments?.find((attachment) => attachment.id === attachmentId) ?? null;
+}
+
+/**
+ * Save an evaluator's draft, or submit it. Submitting needs a score for every criterion and stores the
+ * total on the round's scale under its scoring method; after that the score can no longer be changed.
+ */
+export async function saveEvaluationScore(
+  roundId: string,
+  submissionId: string,
+  evaluator: { uid: string; email: string },
+  input: ScoreSheetInput,
+  submit: boolean
+): Promise<EvaluationScore> {
+  const id = evaluationRecordId(roundId, submissionId, evaluator.uid);
+  const scoreRef = doc(db, EVALUATION_SCORES_COLLECTION, id);
+
+  await runTransaction(db, async (transaction) => {
+    const [assignmentSnap, roundSnap, scoreSnap] = await Promise.all([
+      transaction.get(doc(db, EVALUATION_ASSIGNMENTS_COLLECTION, id)),
+      transaction.get(doc(db, EVALUATION_ROUNDS_COLLECTION, roundId)),
+      transaction.get(scoreRef),
+    ]);
+    if (!assignmentSnap.exists() || !roundSnap.exists()) {
+      throw new Error('This submission is not assigned to you.');
+    }
+    const round = roundSnap.data() as EvaluationRoundFirestore;
+    const current = scoreSnap.exists() ? (scoreSnap.data() as EvaluationScoreFirestore) : null;
+    const reason = lockedReason(round, current);
+    if (reason) {
+      throw new Error(reason);
+    }
+
+    const criteria = scoringCriteriaOf({ criteria: round.criteria ?? [] });
+    const criterionScores = alignCriterionScores(criteria, input.criterionScores);
+    if (submit) {
+      const missing = unscoredCriteria(criteria, criterionScores);
+      if (missing.length > 0) {
+        throw new Error(`Score every criterion before submitting (missing: ${missing.join(', ')}).`);
+      }
+    }
+
+    transaction.set(scoreRef, {
+      roundId,
+      submissionId,
+      evaluatorUid: evaluator.uid,
+      evaluatorEmail: evaluator.email,
+      status: submit ? 'submitted' : 'draft',
+      criterionScores,
+      overallComment: input.overallComment,
+      total: submit ? evaluatorTotal(round.scoringMethod, criteria, criterionScores, round.maxScore) : null,
+      createdAt: current?.createdAt ?? serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      ...(submit ? { submittedAt: serverTimestamp() } : {}),
+    });
+  });
+
+  const saved = await getDoc(scoreRef);
+  return toEvaluationScore(id, saved.data() as EvaluationScoreFirestore);
+}
@@ -0,0 +1,170 @@
+// src/lib/evaluator-matching.ts
+// Rules for choosing who evaluates a submission: which evaluators a round draws on, conflicts of
+// interest and a load-balanced plan that gives every submission the round's number of evaluators.
+// Pure functions only, so the assignment dialog can explain a choice with the same rules the server applies.
+import type { EvaluationConflict, EvaluationConflictReason } from '@/types/evaluation-score';
+
+export const CONFLICT_REASON_LABELS: Record<EvaluationConflictReason, string> = {
+  mentorship: 'Mentors the applicant',
+  self: 'Is the applicant',
+  declared: 'Declared conflict',
+};
+
+// Expertise an admin can tag an evaluator with, and a round can ask for (EvaluationRoundSettings.evaluatorRoles)
+export const EVALUATOR_ROLE_OPTIONS = [
+  'Industry Expert',
+  'Technical Reviewer',
+  'Business Analyst',
+  'Financial Advisor',
+  'Market Specialist',
+  'Product Manager',
+  'Venture Capitalist',
+  'Academic Researcher',
+];
+
+// Mentor requests in these states mean the evaluator mentors, or is about to mentor, the applicant
+export const CONFLICTING_MENTOR_REQUEST_STATUSES = ['pending', 'admin_approved', 'mentor_approved'];
+
+export interface MatchingSubmission {
+  id: string;
+  emails: string[]; // Applicant addresses, compared case-insensitively
+  uids: string[]; // Firebase UIDs of the applicant's startup account
+}
+
+export interface MatchingEvaluator {
+  uid: string;
+  email: string;
+}
+
+export interface RoundEvaluatorRules {
+  evaluatorRoles: string[]; // Empty: every evaluator
+  allowSelfNomination: boolean;
+}
+
+/**
+ * Whether a round draws on an evaluator: they hold one of the roles it asks for (any evaluator when it
+ * asks for none), or they volunteered for it and the round takes volunteers.
+ */
+export function isRoundEvaluator(
+  round: RoundEvaluatorRules,
+  evaluator: { evaluatorRoles: string[] },
+  nominated: boolean
+): boolean {
+  if (round.evaluatorRoles.length === 0 || evaluator.evaluatorRoles.some((role) => round.evaluatorRoles.includes(role))) {
+    return true;
+  }
+  return round.allowSelfNomination && nominated;
+}
+
+export interface MatchingMentorship {
+  mentorId: string;
+  mentorEmail: string;
+  userId: string;
+  userEmail: string;
+}
+
+export function conflictKey(submissionId: string, evaluatorUid: string): string {
+  return `${submissionId}:${evaluatorUid}`;
+}
+
+function normalizeEmail(email: string | undefined): string {
+  return (email ?? '').trim().toLowerCase();
+}
+
+/**
+ * Conflicts worked out from the data: evaluators who are the applicant, or who mentor them through a
+ * mentor request that is not rejected. Declared conflicts are stored and added by the caller.
+ */
+export function findConflicts(
+  submissions: MatchingSubmission[],
+  evaluators: MatchingEvaluator[],
+  mentorships: MatchingMentorship[]
+): EvaluationConflict[] {
+  const conflicts: EvaluationConflict[] = [];
+  for (const submission of submissions) {
+    const emails = new Set(submission.emails.map(normalizeEmail).filter(Boolean));
+    const uids = new Set(submission.uids.filter(Boolean));
+    for (const evaluator of evaluators) {
+      if (uids.has(evaluator.uid) || emails.has(normalizeEmail(evaluator.email))) {
+        conflicts.push({ submissionId: submission.id, evaluatorUid: evaluator.uid, reason: 'self' });
+        continue;
+      }
+      const mentorship = mentorships.find(
+        (entry) =>
+          (entry.mentorId === evaluator.uid || (evaluator.email && normalizeEmail(entry.mentorEmail) === normalizeEmail(evaluator.email))) &&
+          (uids.has(entry.userId) || emails.has(normalizeEmail(entry.userEmail)))
+      );
+      if (mentorship) {
+        conflicts.push({ submissionId: submission.id, evaluatorUid: evaluator.uid, reason: 'mentorship', detail: mentorship.userEmail });
+      }
+    }
+  }
+  return conflicts;
+}
+
+export interface AssignmentPlanInput {
+  submissionIds: string[];
+  evaluatorUids: string[];
+  evaluatorsPerSubmission: number;
+  existing: { submissionId: string; evaluatorUid: string }[]; // Assignments already in the round
+  load: Record<string, number>; // Unscored assignments each evaluator has in other open rounds
+  conflicts: EvaluationConflict[];
+}
+
+export interface AssignmentPlan {
+  assignments: { submissionId: string; evaluatorUid: string }[];
+  // Submissions that could not get enough evaluators without a conflict
+  shortfalls: { submissionId: string; assigned: number; needed: number }[];
+}
+
+// Spreads ties between equally loaded evaluators differently for each submission
+function tieBreak(submissionId: string, evaluatorUid: string): number {
+  let hash = 0;
+  for (const char of `${submissionId}|${evaluatorUid}`) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return hash;
+}
+
+/**
+ * Top every submission up to `evaluatorsPerSubmission` evaluators. Submissions with the fewest eligible
+ * evaluators are filled first, and each pick goes to the eligible evaluator with the lightest load,
+ * counting this round's assignments and unscored ones elsewhere.
+ */
+export function planAssignments(input: AssignmentPlanInput): AssignmentPlan {
+  const blocked = new Set(input.conflicts.map((conflict) => conflictKey(conflict.submissionId, conflict.evaluatorUid)));
+  const assigned = new Map<string, Set<string>>();
+  const load = new Map(input.evaluatorUids.map((uid) => [uid, input.load[uid] ?? 0]));
+  for (const { submissionId, evaluatorUid } of input.existing) {
+    assigned.set(submissionId, (assigned.get(submissionId) ?? new Set()).add(evaluatorUid));
+    if (load.has(evaluatorUid)) {
+      load.set(evaluatorUid, (load.get(evaluatorUid) ?? 0) + 1);
+    }
+  }
+
+  const eligible = (submissionId: string) =>
+    input.evaluatorUids.filter(
+      (uid) => !blocked.has(conflictKey(submissionId, uid)) && !assigned.get(submissionId)?.has(uid)
+    );
+  const order = Array.from(new Set(input.submissionIds)).sort(
+    (a, b) => eligible(a).length - eligible(b).length || a.localeCompare(b)
+  );
+
+  const plan: AssignmentPlan = { assignments: [], shortfalls: [] };
+  for (const submissionId of order) {
+    const current = assigned.get(submissionId)?.size ?? 0;
+    const needed = Math.max(0, input.evaluatorsPerSubmission - current);
+    const picks = eligible(submissionId)
+      .sort((a, b) => (load.get(a) ?? 0) - (load.get(b) ?? 0) || tieBreak(submissionId, a) - tieBreak(submissionId, b))
+      .slice(0, needed);
+
+    for (const evaluatorUid of picks) {
+      plan.assignments.push({ submissionId, evaluatorUid });
+      load.set(evaluatorUid, (load.get(evaluatorUid) ?? 0) + 1);
+    }
+    if (picks.length < needed) {
+      plan.shortfalls.push({ submissionId, assigned: current + picks.length, needed: input.evaluatorsPerSubmission });
+    }
+  }
+  return plan;
+}
@@ -21,9 +21,20 @@ if (!getApps().length) {
   app = getApp();
 }
 
-const db: Firestore = getFirestore(app);
-const storage: FirebaseStorage = getStorage(app);
+// On the server, Firestore and Storage run on their own app instance signed in as the server
+// identity (see src/lib/firestore-identity.ts), so server code that signs users in and out of
+// `auth` does not change the identity their requests are made with.
+const SERVER_FIRESTORE_APP_NAME = 'server-firestore';
+let firestoreApp: FirebaseApp = app;
+if (typeof window === 'undefined') {
+  firestoreApp = getApps().find((existingApp) => existingApp.name === SERVER_FIRESTORE_APP_NAME)
+    ?? initializeApp(firebaseConfig, SERVER_FIRESTORE_APP_NAME);
+}
+
+const db: Firestore = getFirestore(firestoreApp);
+const storage: FirebaseStorage = getStorage(firestoreApp);
 const auth: Auth = getAuth(app);
+const serverAuth: Auth = getAuth(firestoreApp);
 
 // Configure Firebase Auth to persist sessions across browser sessions
 // This will keep users logged in even after closing the browser
@@ -35,4 +46,4 @@ if (typeof window !== 'undefined') {
 
 // Note: uploadBytesResumable will be used for file uploads with retry logic in the form handler.
 
-export { app, db, storage, auth };
+export { app, db, storage, auth, serverAuth };
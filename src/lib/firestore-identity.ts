@@ -0,0 +1,43 @@
+// src/lib/firestore-identity.ts
+// Firebase identities that carry roles into the Firestore security rules.
+// Server-side only: uses the Firebase Admin SDK to mint custom tokens.
+import { signInWithCustomToken } from 'firebase/auth';
+import { serverAuth } from './firebase';
+import { adminAuth } from './firebase-admin';
+import type { Role } from './permissions';
+
+// UID of the identity the Next.js server uses for Firestore (rules grant it full access)
+export const SERVER_FIRESTORE_UID = 'tbi-server';
+
+// Firebase UID an admin account's browser is signed in to Firestore as
+export function adminFirebaseUid(accountId: string): string {
+  return `admin:${accountId}`;
+}
+
+/**
+ * Custom token for an admin account. Admins are not Firebase Auth users, so the admin login form
+ * signs the browser in with this token to let admin pages read Firestore under the rules' role checks.
+ */
+export async function createAdminFirebaseToken(accountId: string, roles: Role[]): Promise<string> {
+  return adminAuth.createCustomToken(adminFirebaseUid(accountId), { roles });
+}
+
+/**
+ * Custom token for a mentor or evaluator who passed 2FA. Their login form signs the browser out of
+ * Firebase while the code is pending, so the rules see them only once the second factor is verified;
+ * the token keeps the user's own UID and custom claims.
+ */
+export async function createMentorFirebaseToken(uid: string): Promise<string> {
+  return adminAuth.createCustomToken(uid);
+}
+
+/**
+ * Sign the server's Firestore client in as the server identity.
+ * Called once at startup from src/instrumentation.ts; the client SDK keeps the ID token refreshed.
+ */
+export async function signInServerFirestore(): Promise<void> {
+  if (serverAuth.currentUser?.uid === SERVER_FIRESTORE_UID) return;
+
+  const token = await adminAuth.createCustomToken(SERVER_FIRESTORE_UID, { server: true });
+  await signInWithCustomToken(serverAuth, token);
+}
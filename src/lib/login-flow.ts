@@ -0,0 +1,69 @@
+// src/lib/login-flow.ts
+// Shared last steps of the admin and mentor logins: hand over to the second factor when the
+// account has one, otherwise issue the session (and the Firestore custom token for admins, and for
+// mentors who signed in with a second factor).
+import { clearPendingLoginCookie, setPendingLoginCookie, setSessionCookie } from './auth-guard';
+import { recordAdminLogin } from './admin-accounts';
+import { createAdminFirebaseToken, createMentorFirebaseToken } from './firestore-identity';
+import { getTwoFactorPolicy, isTwoFactorEnabled, isTwoFactorRequired } from './two-factor';
+import type { SessionIdentity } from './session-token';
+
+type LoginIdentity = Omit<SessionIdentity, 'twoFactorSetupRequired'>;
+
+export interface CompletedLogin {
+  redirectTo: string;
+  firebaseToken?: string; // Admins (withheld until 2FA setup is complete) and mentors after a 2FA code
+  twoFactorSetupRequired: boolean;
+}
+
+/**
+ * Called once the password is verified. Returns true when the account has 2FA enabled;
+ * the login then continues with a code against the pending-login cookie set here.
+ */
+export async function beginSecondFactorIfEnrolled(identity: LoginIdentity): Promise<boolean> {
+  if (!(await isTwoFactorEnabled(identity))) return false;
+
+  await setPendingLoginCookie(identity);
+  return true;
+}
+
+export async function completeLogin(
+  identity: LoginIdentity,
+  { twoFactorVerified }: { twoFactorVerified: boolean }
+): Promise<CompletedLogin> {
+  const twoFactorSetupRequired = !twoFactorVerified && isTwoFactorRequired(identity, await getTwoFactorPolicy());
+
+  await clearPendingLoginCookie();
+  await setSessionCookie({ ...identity, ...(twoFactorSetupRequired ? { twoFactorSetupRequired } : {}) });
+
+  if (identity.role === 'mentor' && twoFactorVerified) {
+    // The login form signed out of Firebase while the code was pending
+    let firebaseToken: string | undefined;
+    try {
+      firebaseToken = await createMentorFirebaseToken(identity.sub);
+    } catch (tokenError) {
+      console.error('[LoginFlow] Could not create Firebase custom token for mentor (check Firebase Admin credentials):', tokenError);
+    }
+    return { redirectTo: '/mentor/dashboard', firebaseToken, twoFactorSetupRequired };
+  }
+  if (identity.role !== 'admin') {
+    return { redirectTo: identity.role === 'mentor' ? '/mentor/dashboard' : '/user/dashboard', twoFactorSetupRequired };
+  }
+
+  await recordAdminLogin(identity.sub);
+
+  let firebaseToken: string | undefined;
+  if (!twoFactorSetupRequired) {
+    try {
+      firebaseToken = await createAdminFirebaseToken(identity.sub, identity.roles);
+    } catch (tokenError) {
+      console.error('[LoginFlow] Could not create Firebase custom token for admin (check Firebase Admin credentials):', tokenError);
+    }
+  }
+
+  return {
+    redirectTo: twoFactorSetupRequired ? '/admin/settings' : '/admin/dashboard',
+    firebaseToken,
+    twoFactorSetupRequired,
+  };
+}
@@ -0,0 +1,146 @@
+// src/lib/migrate-applications.ts
+// One-shot migration of contactSubmissions and offCampusApplications into the unified
+// applications collection. Documents keep their IDs, so users.submissionId, duplicate flags and
+// audit log targets stay valid. Re-running is safe: documents copied earlier are skipped. The
+// legacy collections are left in place; delete them once the report verifies. Server-side only.
+import {
+  collection,
+  doc,
+  getCountFromServer,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+  type DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { EMAIL_TOKENS_COLLECTION } from './email-tokens';
+import { APPLICATIONS_COLLECTION, APPLICATION_SOURCES, LEGACY_APPLICATION_COLLECTIONS } from './applications';
+import type { ApplicationSource } from '@/types/Submission';
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+export interface LegacyCollectionReport {
+  collection: string;
+  source: ApplicationSource;
+  legacyCount: number; // Documents in the legacy collection
+  copied: number; // Copied by this run (or that would be, on a dry run)
+  alreadyMigrated: number; // Copied by an earlier run
+  conflicts: string[]; // IDs already used in applications by a document from elsewhere
+  migratedCount: number; // Applications that came from this collection, counted after the run
+  verified: boolean; // Every legacy document has its copy in applications
+}
+
+export interface ApplicationMigrationReport {
+  dryRun: boolean;
+  collections: LegacyCollectionReport[];
+  applicationsBySource: Record<ApplicationSource, number>;
+  invitationsRepointed: number; // Unredeemed invitations now mirrored onto the applications copy
+  verified: boolean;
+}
+
+function rewriteLegacyReferences(data: DocumentData, fallback: ApplicationSource): DocumentData {
+  const sourceOf = (legacyCollection: unknown): ApplicationSource =>
+    LEGACY_APPLICATION_COLLECTIONS[legacyCollection as keyof typeof LEGACY_APPLICATION_COLLECTIONS] ?? fallback;
+  const withSource = ({ collection: legacyCollection, ...rest }: DocumentData) => ({ ...rest, source: sourceOf(legacyCollection) });
+
+  return {
+    ...(data.duplicateCheck
+      ? { duplicateCheck: { ...data.duplicateCheck, matches: (data.duplicateCheck.matches ?? []).map(withSource) } }
+      : {}),
+    ...(Array.isArray(data.mergedFrom) ? { mergedFrom: data.mergedFrom.map(withSource) } : {}),
+  };
+}
+
+async function countApplications(field: string, value: string): Promise<number> {
+  const snapshot = await getCountFromServer(query(collection(db, APPLICATIONS_COLLECTION), where(field, '==', value)));
+  return snapshot.data().count;
+}
+
+// Invitation links issued before the migration would otherwise update the legacy document on redemption
+async function repointInvitations(legacyCollections: string[]): Promise<number> {
+  const snapshot = await getDocs(
+    query(collection(db, EMAIL_TOKENS_COLLECTION), where('subject.collection', 'in', legacyCollections))
+  );
+  for (let start = 0; start < snapshot.docs.length; start += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    snapshot.docs.slice(start, start + BATCH_SIZE).forEach((tokenDoc) => {
+      batch.update(tokenDoc.ref, { 'subject.collection': APPLICATIONS_COLLECTION });
+    });
+    await batch.commit();
+  }
+  return snapshot.size;
+}
+
+export async function migrateApplications(options: { dryRun: boolean }): Promise<ApplicationMigrationReport> {
+  const existing = await getDocs(collection(db, APPLICATIONS_COLLECTION));
+  const existingById = new Map(existing.docs.map((applicationDoc) => [applicationDoc.id, applicationDoc.data()]));
+
+  const collections: LegacyCollectionReport[] = [];
+  for (const [legacyCollection, source] of Object.entries(LEGACY_APPLICATION_COLLECTIONS)) {
+    const snapshot = await getDocs(collection(db, legacyCollection));
+    const report: LegacyCollectionReport = {
+      collection: legacyCollection,
+      source,
+      legacyCount: snapshot.size,
+      copied: 0,
+      alreadyMigrated: 0,
+      conflicts: [],
+      migratedCount: 0,
+      verified: false,
+    };
+
+    const toCopy = snapshot.docs.filter((legacyDoc) => {
+      const current = existingById.get(legacyDoc.id);
+      if (!current) return true;
+      if (current.legacyCollection === legacyCollection) {
+        report.alreadyMigrated++;
+      } else {
+        report.conflicts.push(legacyDoc.id);
+      }
+      return false;
+    });
+    report.copied = toCopy.length;
+
+    if (!options.dryRun) {
+      for (let start = 0; start < toCopy.length; start += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        toCopy.slice(start, start + BATCH_SIZE).forEach((legacyDoc) => {
+          const data = legacyDoc.data();
+          batch.set(doc(db, APPLICATIONS_COLLECTION, legacyDoc.id), {
+            ...data,
+            ...rewriteLegacyReferences(data, source),
+            source,
+            campusStatus: data.campusStatus ?? source,
+            legacyCollection,
+            migratedAt: serverTimestamp(),
+          });
+        });
+        await batch.commit();
+      }
+    }
+
+    report.migratedCount = options.dryRun
+      ? report.alreadyMigrated + report.copied
+      : await countApplications('legacyCollection', legacyCollection);
+    report.verified = report.conflicts.length === 0 && report.migratedCount === report.legacyCount;
+    collections.push(report);
+  }
+
+  const invitationsRepointed = options.dryRun ? 0 : await repointInvitations(Object.keys(LEGACY_APPLICATION_COLLECTIONS));
+
+  const counts = await Promise.all(APPLICATION_SOURCES.map((source) => countApplications('source', source)));
+  const applicationsBySource = Object.fromEntries(
+    APPLICATION_SOURCES.map((source, index) => [source, counts[index]])
+  ) as Record<ApplicationSource, number>;
+
+  return {
+    dryRun: options.dryRun,
+    collections,
+    applicationsBySource,
+    invitationsRepointed,
+    verified: collections.every((report) => report.verified),
+  };
+}
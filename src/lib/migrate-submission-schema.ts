@@ -0,0 +1,93 @@
+// src/lib/migrate-submission-schema.ts
+// Rewrites applications stored under an older schema version in the current shape (see
+// src/lib/validation/submission-schema.ts). Only the fields an upgrade changes are written, legacy
+// fields are deleted, and documents that still fail the schema afterwards are listed for manual
+// fixing. Re-running is safe: current documents are only checked. Server-side only.
+import { collection, deleteField, getDocs, writeBatch, type DocumentData, type DocumentReference } from 'firebase/firestore';
+import { db } from './firebase';
+import { APPLICATIONS_COLLECTION } from './applications';
+import {
+  LEGACY_SUBMISSION_FIELDS,
+  SUBMISSION_SCHEMA_VERSION,
+  submissionSchema,
+  submissionSchemaVersionOf,
+  upgradeSubmissionData,
+} from './validation/submission-schema';
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+export interface InvalidSubmissionReport {
+  id: string;
+  issues: string[]; // "path: message"
+}
+
+export interface SubmissionSchemaMigrationReport {
+  dryRun: boolean;
+  schemaVersion: number; // Version documents are upgraded to
+  total: number;
+  versions: Record<string, number>; // Documents per stored version, before the run
+  upgraded: number; // Rewritten by this run (or that would be, on a dry run)
+  legacyFieldsRemoved: Record<string, number>; // Per legacy field name
+  invalid: InvalidSubmissionReport[]; // Still not matching the schema after upgrading
+}
+
+// Only what the upgrade changed; upgrade steps touch top-level fields, so a shallow diff is enough
+function upgradeChanges(before: DocumentData, after: DocumentData): DocumentData {
+  const changes: DocumentData = {};
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) changes[key] = deleteField();
+  }
+  for (const [key, value] of Object.entries(after)) {
+    if (before[key] !== value) changes[key] = value;
+  }
+  return changes;
+}
+
+export async function migrateSubmissionSchema(options: { dryRun: boolean }): Promise<SubmissionSchemaMigrationReport> {
+  const snapshot = await getDocs(collection(db, APPLICATIONS_COLLECTION));
+  const report: SubmissionSchemaMigrationReport = {
+    dryRun: options.dryRun,
+    schemaVersion: SUBMISSION_SCHEMA_VERSION,
+    total: snapshot.size,
+    versions: {},
+    upgraded: 0,
+    legacyFieldsRemoved: {},
+    invalid: [],
+  };
+
+  const updates: { ref: DocumentReference; changes: DocumentData }[] = [];
+  for (const submissionDoc of snapshot.docs) {
+    const data = submissionDoc.data();
+    const version = submissionSchemaVersionOf(data);
+    report.versions[version] = (report.versions[version] ?? 0) + 1;
+
+    const upgraded = upgradeSubmissionData(data);
+    const parsed = submissionSchema.safeParse({ ...upgraded, id: submissionDoc.id });
+    if (!parsed.success) {
+      report.invalid.push({
+        id: submissionDoc.id,
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(document)'}: ${issue.message}`),
+      });
+    }
+
+    if (version >= SUBMISSION_SCHEMA_VERSION) continue;
+    for (const legacyField of Object.keys(LEGACY_SUBMISSION_FIELDS)) {
+      if (legacyField in data) {
+        report.legacyFieldsRemoved[legacyField] = (report.legacyFieldsRemoved[legacyField] ?? 0) + 1;
+      }
+    }
+    updates.push({ ref: submissionDoc.ref, changes: upgradeChanges(data, upgraded) });
+  }
+  report.upgraded = updates.length;
+
+  if (!options.dryRun) {
+    for (let start = 0; start < updates.length; start += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      updates.slice(start, start + BATCH_SIZE).forEach(({ ref, changes }) => batch.update(ref, changes));
+      await batch.commit();
+    }
+  }
+
+  return report;
+}
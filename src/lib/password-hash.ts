@@ -0,0 +1,35 @@
+// src/lib/password-hash.ts
+// Server-only helpers for salted password hashing (scrypt).
+import crypto from 'crypto';
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const HASH_PREFIX = 'scrypt';
+
+function scryptAsync(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+// Hash a password with a fresh random salt. Returns "scrypt:<salt-hex>:<hash-hex>".
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const derivedKey = await scryptAsync(password, salt);
+  return `${HASH_PREFIX}:${salt.toString('hex')}:${derivedKey.toString('hex')}`;
+}
+
+// Compare a password against a stored hash in constant time.
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [prefix, saltHex, hashHex] = storedHash.split(':');
+  if (prefix !== HASH_PREFIX || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const derivedKey = await scryptAsync(password, Buffer.from(saltHex, 'hex'));
+  return expected.length === derivedKey.length && crypto.timingSafeEqual(expected, derivedKey);
+}
@@ -0,0 +1,101 @@
+// src/lib/permissions.ts
+// Role and permission model shared by middleware, server actions, layouts and AuthContext.
+// Pure data + helpers only, so it is safe to import from the Edge runtime and the browser.
+
+export type Role = 'admin' | 'auditor' | 'mentor' | 'evaluator' | 'user';
+
+export type Permission =
+  | 'admin:portal'
+  | 'mentor:portal'
+  | 'user:portal'
+  | 'submissions:read'
+  | 'submissions:decide'
+  | 'mentors:manage'
+  | 'mentorRequests:read'
+  | 'mentorRequests:decide'
+  | 'mentorRequests:respond'
+  | 'startups:manage'
+  | 'events:manage'
+  | 'evaluations:read'
+  | 'evaluations:manage'
+  | 'evaluations:score'
+  | 'settings:manage'
+  | 'forms:manage'
+  | 'roles:manage'
+  | 'accounts:manage'
+  | 'audit:read';
+
+export const ALL_ROLES: Role[] = ['admin', 'auditor', 'mentor', 'evaluator', 'user'];
+
+// Roles stored on adminAccounts documents (admins are not Firebase Auth users)
+export const ADMIN_ACCOUNT_ROLES: Role[] = ['admin', 'auditor'];
+
+// Roles that can be granted to Firebase Auth users through custom claims
+export const GRANTABLE_USER_ROLES: Role[] = ['evaluator'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Administrator',
+  auditor: 'Read-only Auditor',
+  mentor: 'Mentor',
+  evaluator: 'Evaluator',
+  user: 'Startup User',
+};
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'admin:portal',
+    'submissions:read',
+    'submissions:decide',
+    'mentors:manage',
+    'mentorRequests:read',
+    'mentorRequests:decide',
+    'startups:manage',
+    'events:manage',
+    'evaluations:read',
+    'evaluations:manage',
+    'settings:manage',
+    'forms:manage',
+    'roles:manage',
+    'accounts:manage',
+    'audit:read',
+  ],
+  auditor: [
+    'admin:portal',
+    'submissions:read',
+    'mentorRequests:read',
+    'evaluations:read',
+    'audit:read',
+  ],
+  mentor: ['mentor:portal', 'mentorRequests:respond'],
+  evaluator: ['mentor:portal', 'evaluations:score'],
+  user: ['user:portal'],
+};
+
+// Permission needed to open a route; the longest matching prefix wins
+export const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: '/admin/settings', permission: 'settings:manage' },
+  { prefix: '/admin/forms', permission: 'forms:manage' },
+  { prefix: '/admin/email-templates', permission: 'settings:manage' },
+  { prefix: '/admin/submissions/import', permission: 'submissions:decide' },
+  { prefix: '/admin/roles', permission: 'roles:manage' },
+  { prefix: '/admin/audit', permission: 'audit:read' },
+  { prefix: '/admin', permission: 'admin:portal' },
+  { prefix: '/mentor', permission: 'mentor:portal' },
+  { prefix: '/user', permission: 'user:portal' },
+];
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ALL_ROLES as string[]).includes(value);
+}
+
+export function hasPermission(roles: readonly Role[] | undefined | null, permission: Permission): boolean {
+  if (!roles) return false;
+  return roles.some((role) => ROLE_PERMISSIONS[role]?.includes(permission));
+}
+
+export function getRoutePermission(pathname: string): Permission | null {
+  const match = ROUTE_PERMISSIONS
+    .filter(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  return match ? match.permission : null;
+}
@@ -0,0 +1,52 @@
+// src/lib/rate-limit.ts
+// Fixed-window rate limiter kept in memory.
+// Counters are per server instance, which is enough to blunt scripted abuse of a single deployment.
+
+export interface RateLimitOptions {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+interface RateLimitBucket {
+  count: number;
+  resetAt: number;
+}
+
+const buckets = new Map<string, RateLimitBucket>();
+
+function pruneExpiredBuckets(now: number) {
+  buckets.forEach((bucket, key) => {
+    if (bucket.resetAt <= now) {
+      buckets.delete(key);
+    }
+  });
+}
+
+// Count one hit against `key` and report whether it is within the limit
+export function checkRateLimit(key: string, { limit, windowMs }: RateLimitOptions): RateLimitResult {
+  const now = Date.now();
+  if (buckets.size > 1000) {
+    pruneExpiredBuckets(now);
+  }
+
+  let bucket = buckets.get(key);
+  if (!bucket || bucket.resetAt <= now) {
+    bucket = { count: 0, resetAt: now + windowMs };
+    buckets.set(key, bucket);
+  }
+
+  bucket.count++;
+  const allowed = bucket.count <= limit;
+
+  return {
+    allowed,
+    remaining: Math.max(0, limit - bucket.count),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((bucket.resetAt - now) / 1000),
+  };
+}
@@ -0,0 +1,44 @@
+// src/lib/role-claims.ts
+// Firebase custom claims for extra roles (e.g. evaluator) on mentor and startup user accounts.
+// Server-side only: uses the Firebase Admin SDK.
+import { doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { adminAuth } from './firebase-admin';
+import { GRANTABLE_USER_ROLES, isRole, type Role } from './permissions';
+
+export type MemberCollection = 'mentors' | 'users';
+
+// Extract the grantable roles from a decoded ID token or a user record's custom claims
+export function getClaimRoles(claims: Record<string, unknown> | undefined | null): Role[] {
+  const rawRoles = claims?.roles;
+  if (!Array.isArray(rawRoles)) return [];
+  return rawRoles.filter((role): role is Role => isRole(role) && GRANTABLE_USER_ROLES.includes(role));
+}
+
+/**
+ * Replace the granted roles of a Firebase Auth user.
+ * Custom claims are the source of truth; the profile document keeps a copy so admin screens can list it.
+ * The user picks up the new claims on their next ID token refresh (or next login).
+ */
+export async function setUserGrantedRoles(
+  uid: string,
+  collectionName: MemberCollection,
+  roles: Role[]
+): Promise<{ previousRoles: Role[]; grantedRoles: Role[] }> {
+  const grantedRoles = roles.filter((role) => GRANTABLE_USER_ROLES.includes(role));
+  const userRecord = await adminAuth.getUser(uid);
+  const previousRoles = getClaimRoles(userRecord.customClaims);
+
+  await adminAuth.setCustomUserClaims(uid, {
+    ...(userRecord.customClaims || {}),
+    roles: grantedRoles,
+  });
+
+  const profileRef = doc(db, collectionName, uid);
+  const profileSnap = await getDoc(profileRef);
+  if (profileSnap.exists()) {
+    await updateDoc(profileRef, { roles: grantedRoles, rolesUpdatedAt: serverTimestamp() });
+  }
+
+  return { previousRoles, grantedRoles };
+}
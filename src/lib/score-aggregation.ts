@@ -0,0 +1,79 @@
+// src/lib/score-aggregation.ts
+// How a round's scoring method turns criterion scores into an evaluator's total and evaluators' totals
+// into a submission's final score. Pure functions only, so the score sheet and the results dialog show
+// the numbers the server stores.
+import { weightedTotal } from './validation/evaluation-score-schema';
+import type { EvaluationCriterion, ScoringMethod } from '@/types/evaluation-round';
+import type { CriterionScore, SubmissionResultStatus } from '@/types/evaluation-score';
+
+export const SCORING_METHOD_LABELS: Record<ScoringMethod, string> = {
+  weighted: 'Weighted average',
+  simple: 'Simple average',
+  consensus: 'Consensus',
+};
+
+export const SCORING_METHOD_DESCRIPTIONS: Record<ScoringMethod, string> = {
+  weighted: 'Each criterion counts by its weight; the final score is the average of the evaluators’ totals.',
+  simple: 'Every criterion counts equally; the final score is the average of the evaluators’ totals.',
+  consensus:
+    'Each criterion counts by its weight. When the evaluators’ totals are too far apart they agree on the final score together.',
+};
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * An evaluator's total on the round's maxScore scale. Simple rounds give every criterion the same
+ * weight; weighted and consensus rounds use the criteria's weights. Null until every criterion is scored.
+ */
+export function evaluatorTotal(
+  method: ScoringMethod,
+  criteria: EvaluationCriterion[],
+  scores: CriterionScore[],
+  maxScore: number
+): number | null {
+  const counted = method === 'simple' ? criteria.map((criterion) => ({ ...criterion, weight: 0 })) : criteria;
+  return weightedTotal(counted, scores, maxScore);
+}
+
+export interface AggregationInput {
+  method: ScoringMethod;
+  consensusThreshold: number;
+  assignedCount: number; // Evaluators assigned to the submission
+  totals: number[]; // Submitted totals
+  agreedScore?: number | null; // Final score the evaluators agreed on in a reconciliation
+}
+
+export interface Aggregation {
+  average: number | null;
+  spread: number | null;
+  finalScore: number | null;
+  status: SubmissionResultStatus;
+}
+
+// Consensus rounds send submissions to reconciliation when at least two totals are further apart than this
+export function isDivergent(totals: number[], consensusThreshold: number): boolean {
+  return totals.length >= 2 && Math.max(...totals) - Math.min(...totals) > consensusThreshold;
+}
+
+/**
+ * A submission's final score: the average of its evaluators' totals once all of them have submitted.
+ * In consensus rounds, totals that diverge have no final score until the evaluators agree on one.
+ */
+export function aggregateScores(input: AggregationInput): Aggregation {
+  const { totals } = input;
+  const average = totals.length > 0 ? round2(totals.reduce((sum, total) => sum + total, 0) / totals.length) : null;
+  const spread = totals.length > 0 ? round2(Math.max(...totals) - Math.min(...totals)) : null;
+
+  if (input.method === 'consensus' && input.agreedScore !== undefined && input.agreedScore !== null) {
+    return { average, spread, finalScore: input.agreedScore, status: 'reconciled' };
+  }
+  if (totals.length === 0 || totals.length < input.assignedCount) {
+    return { average, spread, finalScore: null, status: 'awaiting_scores' };
+  }
+  if (input.method === 'consensus' && isDivergent(totals, input.consensusThreshold)) {
+    return { average, spread, finalScore: null, status: 'divergent' };
+  }
+  return { average, spread, finalScore: average, status: 'final' };
+}
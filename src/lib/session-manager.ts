@@ -1,19 +1,54 @@
-// Session management utilities for Firebase Auth
-// This helps maintain longer user sessions and handle token refresh
+// Session management utilities for Firebase Auth and the portal session cookie
+// Keeps the Firebase token fresh while the user is active, ends the session after the role's
+// idle or absolute limit, and keeps every open tab in step through localStorage events.
 
 import { auth } from '@/lib/firebase';
-import { User as FirebaseUser, onIdTokenChanged, getIdToken } from 'firebase/auth';
+import { User as FirebaseUser, onIdTokenChanged, getIdToken, signOut } from 'firebase/auth';
+import { getSessionInfo } from '@/app/actions/session-actions';
+import {
+  SESSION_EXPIRY_WARNING_SECONDS,
+  SESSION_IDLE_TIMEOUT_SECONDS,
+  type SessionRole,
+} from '@/lib/session-token';
+
+// Why a session ended; passed on to the login page so it can say so
+export type SessionEndReason = 'logout' | 'idle' | 'expired' | 'revoked';
+
+export interface SessionTimeoutWarning {
+  reason: 'idle' | 'expired';
+  endsAt: number; // ms since epoch
+}
+
+type WarningListener = (warning: SessionTimeoutWarning | null) => void;
+
+interface ActiveSession {
+  portal: SessionRole;
+  expiresAt: number; // Absolute end of the session cookie (ms since epoch)
+}
+
+// localStorage keys shared by every tab
+const LAST_ACTIVITY_KEY = 'lastActivity';
+const SESSION_ENDED_KEY = 'sessionEnded';
 
 export class SessionManager {
   private static instance: SessionManager;
   private refreshInterval: NodeJS.Timeout | null = null;
   private readonly TOKEN_REFRESH_INTERVAL = 30 * 60 * 1000; // 30 minutes
-  private readonly ACTIVITY_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private readonly ACTIVITY_CHECK_INTERVAL = 10 * 1000; // 10 seconds, fine enough for the warning countdown
+  private readonly SESSION_VERIFY_INTERVAL = 5 * 60 * 1000; // 5 minutes; notices "sign out all devices"
+  private readonly ACTIVITY_WRITE_THROTTLE = 5 * 1000; // Limit localStorage writes from mousemove
   private lastActivity: number = Date.now();
+  private lastActivityWrite = 0;
   private activityCheckInterval: NodeJS.Timeout | null = null;
+  private sessionVerifyInterval: NodeJS.Timeout | null = null;
+  private activeSession: ActiveSession | null = null;
+  private warning: SessionTimeoutWarning | null = null;
+  private warningListeners = new Set<WarningListener>();
+  private ending = false;
 
   private constructor() {
     this.setupActivityTracking();
+    this.setupCrossTabSync();
     this.setupTokenRefresh();
   }
 
@@ -45,13 +80,11 @@ export class SessionManager {
     this.stopTokenRefresh(); // Clear any existing interval
 
     this.refreshInterval = setInterval(async () => {
+      // An idle user is signed out, not kept alive
+      if (this.isIdle()) return;
       try {
-        // Force refresh the ID token
         await getIdToken(user, true);
         console.log('🔄 Firebase Auth token refreshed successfully');
-        
-        // Update last activity time
-        this.updateActivity();
       } catch (error) {
         console.error('❌ Failed to refresh Firebase Auth token:', error);
         // If token refresh fails, user might be logged out
@@ -74,15 +107,17 @@ export class SessionManager {
   }
 
   /**
-   * Setup user activity tracking to maintain session
+   * Setup user activity tracking
    */
   private setupActivityTracking() {
     if (typeof window === 'undefined') return;
 
     // Track user activity events
     const activityEvents = ['mousedown', 'mousemove', 'keypress', 'scroll', 'touchstart', 'click'];
-    
+
     const updateActivity = () => {
+      // Once the warning is up only "stay signed in" extends the session
+      if (this.warning) return;
       this.updateActivity();
     };
 
@@ -91,19 +126,49 @@ export class SessionManager {
       document.addEventListener(event, updateActivity, true);
     });
 
+    const storedActivity = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+    if (storedActivity > this.lastActivity) {
+      this.lastActivity = storedActivity;
+    }
+
     // Start activity check interval
     this.startActivityCheck();
   }
 
+  /**
+   * Follow activity and logouts happening in other tabs
+   */
+  private setupCrossTabSync() {
+    if (typeof window === 'undefined') return;
+
+    window.addEventListener('storage', (event: StorageEvent) => {
+      if (event.key === LAST_ACTIVITY_KEY && event.newValue) {
+        const activity = Number(event.newValue);
+        if (activity > this.lastActivity) {
+          this.lastActivity = activity;
+          this.checkSession();
+        }
+      } else if (event.key === SESSION_ENDED_KEY && event.newValue) {
+        try {
+          const { reason } = JSON.parse(event.newValue) as { reason: SessionEndReason };
+          this.endSession(reason, { broadcast: false });
+        } catch {
+          this.endSession('logout', { broadcast: false });
+        }
+      }
+    });
+  }
+
   /**
    * Update the last activity timestamp
    */
-  private updateActivity() {
+  private updateActivity(force: boolean = false) {
     this.lastActivity = Date.now();
-    
+
     // Store activity in localStorage for persistence across tabs
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('lastActivity', this.lastActivity.toString());
+    if (typeof window !== 'undefined' && (force || this.lastActivity - this.lastActivityWrite > this.ACTIVITY_WRITE_THROTTLE)) {
+      this.lastActivityWrite = this.lastActivity;
+      localStorage.setItem(LAST_ACTIVITY_KEY, this.lastActivity.toString());
     }
   }
 
@@ -111,17 +176,135 @@ export class SessionManager {
    * Start periodic activity checking
    */
   private startActivityCheck() {
-    this.activityCheckInterval = setInterval(() => {
-      // Check if user has been inactive for too long (2 hours)
-      const inactiveTime = Date.now() - this.lastActivity;
-      const MAX_INACTIVE_TIME = 2 * 60 * 60 * 1000; // 2 hours
-
-      if (inactiveTime > MAX_INACTIVE_TIME) {
-        console.log('⏰ User inactive for 2+ hours, maintaining session...');
-        // Optionally show a warning or refresh token
-        this.forceTokenRefresh();
+    this.activityCheckInterval = setInterval(() => this.checkSession(), this.ACTIVITY_CHECK_INTERVAL);
+  }
+
+  private getIdleTimeoutMs(): number | null {
+    return this.activeSession ? SESSION_IDLE_TIMEOUT_SECONDS[this.activeSession.portal] * 1000 : null;
+  }
+
+  private isIdle(): boolean {
+    const idleTimeout = this.getIdleTimeoutMs();
+    return idleTimeout !== null && this.getTimeSinceLastActivity() >= idleTimeout;
+  }
+
+  /**
+   * End the session at the idle or absolute limit, and warn shortly before
+   */
+  private checkSession() {
+    const idleTimeout = this.getIdleTimeoutMs();
+    if (!this.activeSession || idleTimeout === null || this.ending) return;
+
+    const now = Date.now();
+    const idleEndsAt = this.lastActivity + idleTimeout;
+    const { expiresAt } = this.activeSession;
+    const reason: SessionTimeoutWarning['reason'] = idleEndsAt <= expiresAt ? 'idle' : 'expired';
+    const endsAt = Math.min(idleEndsAt, expiresAt);
+
+    if (now >= endsAt) {
+      console.log(`⏰ Session ended (${reason})`);
+      this.endSession(reason);
+    } else if (endsAt - now <= SESSION_EXPIRY_WARNING_SECONDS * 1000) {
+      this.setWarning({ reason, endsAt });
+    } else {
+      this.setWarning(null);
+    }
+  }
+
+  private setWarning(warning: SessionTimeoutWarning | null) {
+    if (this.warning?.endsAt === warning?.endsAt && this.warning?.reason === warning?.reason) return;
+    this.warning = warning;
+    this.warningListeners.forEach(listener => listener(warning));
+  }
+
+  /**
+   * Start enforcing the limits of the signed-in portal session
+   */
+  public startSession(portal: SessionRole, expiresAt: number) {
+    if (this.activeSession?.portal === portal && this.activeSession.expiresAt === expiresAt) return;
+    this.activeSession = { portal, expiresAt };
+    this.ending = false;
+    this.updateActivity(true);
+
+    if (!this.activityCheckInterval) {
+      this.startActivityCheck();
+    }
+    if (!this.sessionVerifyInterval) {
+      this.sessionVerifyInterval = setInterval(() => this.verifySession(), this.SESSION_VERIFY_INTERVAL);
+    }
+    this.checkSession();
+  }
+
+  /**
+   * Stop enforcing limits (no portal session, e.g. on public pages)
+   */
+  public stopSession() {
+    this.activeSession = null;
+    this.setWarning(null);
+    if (this.sessionVerifyInterval) {
+      clearInterval(this.sessionVerifyInterval);
+      this.sessionVerifyInterval = null;
+    }
+  }
+
+  // The cookie is httpOnly; ask the server whether it still honours it
+  private async verifySession() {
+    if (!this.activeSession || this.ending) return;
+    try {
+      if (!(await getSessionInfo())) {
+        this.endSession(Date.now() >= this.activeSession.expiresAt ? 'expired' : 'revoked');
       }
-    }, this.ACTIVITY_CHECK_INTERVAL);
+    } catch (error) {
+      console.error('❌ Could not verify the session:', error);
+    }
+  }
+
+  /**
+   * Subscribe to the expiry warning; called with null once it no longer applies
+   */
+  public onWarning(listener: WarningListener): () => void {
+    this.warningListeners.add(listener);
+    listener(this.warning);
+    return () => {
+      this.warningListeners.delete(listener);
+    };
+  }
+
+  /**
+   * "Stay signed in": resets the idle timer in every tab. The absolute limit cannot be extended.
+   */
+  public async staySignedIn(): Promise<void> {
+    this.updateActivity(true);
+    this.setWarning(null);
+    this.checkSession();
+    await this.forceTokenRefresh();
+  }
+
+  /**
+   * Sign out of Firebase and the portal session in this tab and, unless told otherwise, every other tab
+   */
+  public async endSession(reason: SessionEndReason, { broadcast = true }: { broadcast?: boolean } = {}): Promise<void> {
+    if (this.ending) return;
+    this.ending = true;
+    this.stopSession();
+
+    if (typeof window !== 'undefined') {
+      if (broadcast) {
+        localStorage.setItem(SESSION_ENDED_KEY, JSON.stringify({ reason, at: Date.now() }));
+      }
+      localStorage.removeItem('currentUser');
+    }
+
+    try {
+      await signOut(auth);
+    } catch (error) {
+      console.error('❌ Error signing out of Firebase:', error);
+    }
+
+    if (typeof window !== 'undefined') {
+      // The logout route clears the httpOnly cookie and forwards to the login page
+      window.location.href = `/logout?reason=${reason}`;
+    }
   }
 
   /**
@@ -150,11 +333,10 @@ export class SessionManager {
    * Check if user session is still valid
    */
   public isSessionValid(): boolean {
-    const user = auth.currentUser;
-    const timeSinceActivity = this.getTimeSinceLastActivity();
-    const MAX_SESSION_TIME = 24 * 60 * 60 * 1000; // 24 hours
-
-    return !!(user && timeSinceActivity < MAX_SESSION_TIME);
+    if (this.activeSession) {
+      return !this.isIdle() && Date.now() < this.activeSession.expiresAt;
+    }
+    return !!auth.currentUser;
   }
 
   /**
@@ -162,7 +344,8 @@ export class SessionManager {
    */
   public cleanup() {
     this.stopTokenRefresh();
-    
+    this.stopSession();
+
     if (this.activityCheckInterval) {
       clearInterval(this.activityCheckInterval);
       this.activityCheckInterval = null;
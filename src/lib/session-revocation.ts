@@ -0,0 +1,75 @@
+// src/lib/session-revocation.ts
+// "Sign out all devices": session cookies are stateless, so each principal gets a cut-off time
+// and any session issued before it is rejected. Server-side only.
+import { doc, getDoc, serverTimestamp, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { adminAuth } from './firebase-admin';
+import { adminFirebaseUid } from './firestore-identity';
+import type { SessionPayload } from './session-token';
+
+export const SESSION_REVOCATIONS_COLLECTION = 'sessionRevocations';
+
+// Cut-offs are read on every authenticated request, so keep them briefly in memory
+const REVOCATION_CACHE_TTL_MS = 60 * 1000;
+const revocationCache = new Map<string, { revokedAt: number | null; cachedAt: number }>();
+
+type SessionPrincipal = Pick<SessionPayload, 'sub' | 'role'>;
+
+// Admin account IDs and Firebase UIDs live in different namespaces, so the portal is part of the key
+function principalKey({ role, sub }: SessionPrincipal): string {
+  return `${role}:${sub}`;
+}
+
+async function getRevokedAt(principal: SessionPrincipal): Promise<number | null> {
+  const key = principalKey(principal);
+  const cached = revocationCache.get(key);
+  if (cached && Date.now() - cached.cachedAt < REVOCATION_CACHE_TTL_MS) {
+    return cached.revokedAt;
+  }
+
+  const snapshot = await getDoc(doc(db, SESSION_REVOCATIONS_COLLECTION, key));
+  const revokedAt = snapshot.exists() && snapshot.data().revokedAt instanceof Timestamp
+    ? (snapshot.data().revokedAt as Timestamp).toMillis()
+    : null;
+  revocationCache.set(key, { revokedAt, cachedAt: Date.now() });
+  return revokedAt;
+}
+
+// True when the session was issued before the principal last signed out everywhere
+export async function isSessionRevoked(session: Pick<SessionPayload, 'sub' | 'role' | 'iat'>): Promise<boolean> {
+  try {
+    const revokedAt = await getRevokedAt(session);
+    return revokedAt !== null && session.iat * 1000 < revokedAt;
+  } catch (error) {
+    // A Firestore outage should not lock everyone out; the signature and expiry still hold
+    console.error('[SessionRevocation] Could not read the revocation cut-off:', error);
+    return false;
+  }
+}
+
+function authErrorCode(error: unknown): string | undefined {
+  return error && typeof error === 'object' && 'code' in error ? String(error.code) : undefined;
+}
+
+/**
+ * End every session of the principal, on every device. Their Firebase identity (the user itself, or
+ * the `admin:` UID an admin browser reads Firestore as) also loses its refresh tokens, so browsers
+ * cannot mint a new session from a cached login and API bearer tokens stop verifying.
+ */
+export async function revokeAllSessions(principal: SessionPrincipal, revokedBy: string): Promise<void> {
+  try {
+    await adminAuth.revokeRefreshTokens(principal.role === 'admin' ? adminFirebaseUid(principal.sub) : principal.sub);
+  } catch (error) {
+    // An admin who never opened the portal has no Firebase user yet, so there is nothing to revoke
+    if (principal.role !== 'admin' || authErrorCode(error) !== 'auth/user-not-found') throw error;
+  }
+
+  const key = principalKey(principal);
+  await setDoc(doc(db, SESSION_REVOCATIONS_COLLECTION, key), {
+    role: principal.role,
+    sub: principal.sub,
+    revokedAt: serverTimestamp(),
+    revokedBy,
+  });
+  revocationCache.set(key, { revokedAt: Date.now(), cachedAt: Date.now() });
+}
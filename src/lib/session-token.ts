@@ -0,0 +1,210 @@
+// src/lib/session-token.ts
+// Signed session tokens stored in an httpOnly cookie.
+// Uses Web Crypto only so it can run both in middleware (Edge runtime) and in server actions.
+import type { Role } from './permissions';
+import type { ApplicationAttachment } from '@/types/application-attachment';
+
+export const SESSION_COOKIE_NAME = 'tbi_session';
+
+// The portal the session was issued for (which login form was used)
+export type SessionRole = 'admin' | 'mentor' | 'user';
+
+export interface SessionPayload {
+  sub: string; // Admin account ID or Firebase Auth UID
+  email: string;
+  name: string;
+  role: SessionRole;
+  roles: Role[]; // Effective roles, checked against the permissions matrix
+  twoFactorSetupRequired?: boolean; // Password verified, but policy requires enrolling in 2FA before anything else
+  iat: number; // Issued at (seconds since epoch)
+  exp: number; // Expires at (seconds since epoch)
+}
+
+export type SessionIdentity = Pick<SessionPayload, 'sub' | 'email' | 'name' | 'role' | 'roles' | 'twoFactorSetupRequired'>;
+
+// Short-lived cookie between a correct password and the second factor
+export const PENDING_LOGIN_COOKIE_NAME = 'tbi_2fa_pending';
+export const PENDING_LOGIN_TTL_SECONDS = 5 * 60;
+
+export interface PendingLoginPayload {
+  identity: Omit<SessionIdentity, 'twoFactorSetupRequired'>;
+  iat: number;
+  exp: number;
+}
+
+// Signed into pending-login tokens so one can never be replayed as a session token
+const PENDING_LOGIN_SIGNING_CONTEXT = 'two-factor-pending';
+
+// Cookie proving an applicant confirmed their email on /application/status with a one-time code
+export const APPLICATION_STATUS_COOKIE_NAME = 'tbi_application_status';
+export const APPLICATION_STATUS_TTL_SECONDS = 30 * 60;
+
+export interface ApplicationStatusAccessPayload {
+  email: string; // As the applicant entered it
+  iat: number;
+  exp: number;
+}
+
+const APPLICATION_STATUS_SIGNING_CONTEXT = 'application-status';
+
+// Handed to the applicant's browser for each uploaded attachment and sent back with the application,
+// so only files that passed validation on this server can be referenced from a submission
+export const APPLICATION_ATTACHMENT_TTL_SECONDS = 24 * 60 * 60;
+
+export interface ApplicationAttachmentPayload {
+  attachment: ApplicationAttachment;
+  iat: number;
+  exp: number;
+}
+
+const APPLICATION_ATTACHMENT_SIGNING_CONTEXT = 'application-attachment';
+
+// How long a session cookie stays valid for each role
+export const SESSION_TTL_SECONDS: Record<SessionRole, number> = {
+  admin: 8 * 60 * 60, // 8 hours
+  mentor: 24 * 60 * 60, // 24 hours
+  user: 7 * 24 * 60 * 60, // 7 days
+};
+
+// How long a session may sit without user activity before the browser signs it out
+export const SESSION_IDLE_TIMEOUT_SECONDS: Record<SessionRole, number> = {
+  admin: 30 * 60, // 30 minutes
+  mentor: 60 * 60, // 1 hour
+  user: 2 * 60 * 60, // 2 hours
+};
+
+// The "stay signed in" dialog appears this long before either limit is reached
+export const SESSION_EXPIRY_WARNING_SECONDS = 60;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET environment variable is not set.');
+  }
+  return secret;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+async function signPayload(payload: object, context?: string): Promise<string> {
+  const encodedPayload = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signedData = context ? `${context}.${encodedPayload}` : encodedPayload;
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(signedData));
+  return `${encodedPayload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Verify signature and expiry; returns null for any invalid, tampered or expired token
+async function readSignedPayload<T extends { exp: number }>(token: string | undefined | null, context?: string): Promise<T | null> {
+  if (!token) return null;
+
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const signedData = context ? `${context}.${encodedPayload}` : encodedPayload;
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      base64UrlDecode(encodedSignature),
+      encoder.encode(signedData)
+    );
+    if (!isValid) return null;
+
+    const payload = JSON.parse(decoder.decode(base64UrlDecode(encodedPayload))) as T;
+    if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return payload;
+  } catch (error) {
+    console.error('[SessionToken] Failed to verify signed token:', error);
+    return null;
+  }
+}
+
+/**
+ * Create a signed token for the given identity.
+ * Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 signature)
+ */
+export async function createSessionToken(
+  identity: SessionIdentity
+): Promise<{ token: string; payload: SessionPayload }> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = {
+    ...identity,
+    iat: now,
+    exp: now + SESSION_TTL_SECONDS[identity.role],
+  };
+
+  return { token: await signPayload(payload), payload };
+}
+
+// Verify signature and expiry. Returns null for any invalid, tampered or expired token.
+export async function verifySessionToken(token: string | undefined | null): Promise<SessionPayload | null> {
+  const payload = await readSignedPayload<SessionPayload>(token);
+  if (!payload || !Array.isArray(payload.roles)) return null;
+  return payload;
+}
+
+export async function createPendingLoginToken(identity: PendingLoginPayload['identity']): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return signPayload({ identity, iat: now, exp: now + PENDING_LOGIN_TTL_SECONDS }, PENDING_LOGIN_SIGNING_CONTEXT);
+}
+
+export async function verifyPendingLoginToken(token: string | undefined | null): Promise<PendingLoginPayload | null> {
+  return readSignedPayload<PendingLoginPayload>(token, PENDING_LOGIN_SIGNING_CONTEXT);
+}
+
+export async function createApplicationStatusToken(email: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return signPayload({ email, iat: now, exp: now + APPLICATION_STATUS_TTL_SECONDS }, APPLICATION_STATUS_SIGNING_CONTEXT);
+}
+
+export async function verifyApplicationStatusToken(
+  token: string | undefined | null
+): Promise<ApplicationStatusAccessPayload | null> {
+  const payload = await readSignedPayload<ApplicationStatusAccessPayload>(token, APPLICATION_STATUS_SIGNING_CONTEXT);
+  if (!payload || typeof payload.email !== 'string') return null;
+  return payload;
+}
+
+export async function createApplicationAttachmentToken(attachment: ApplicationAttachment): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return signPayload({ attachment, iat: now, exp: now + APPLICATION_ATTACHMENT_TTL_SECONDS }, APPLICATION_ATTACHMENT_SIGNING_CONTEXT);
+}
+
+export async function verifyApplicationAttachmentToken(
+  token: string | undefined | null
+): Promise<ApplicationAttachmentPayload | null> {
+  const payload = await readSignedPayload<ApplicationAttachmentPayload>(token, APPLICATION_ATTACHMENT_SIGNING_CONTEXT);
+  if (!payload || typeof payload.attachment?.storagePath !== 'string') return null;
+  return payload;
+}
@@ -0,0 +1,352 @@
+// src/lib/sheet-import.ts
+// Incremental import of off-campus applications from Google Sheets. Each configured source maps
+// sheet columns (by header text) to submission fields and keeps a cursor, so a run only reads rows
+// added since the last one. Rows already imported are recognised by sheet row and email or by
+// timestamp and email, which keeps re-runs idempotent. Server-side only.
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { APPLICATIONS_COLLECTION } from './applications';
+import { getSheetsClient, type SheetsClient } from './sheets-client';
+import { buildDuplicateCheck, loadDuplicatePool } from './submission-duplicates';
+import { duplicateKeysFor, normalizeEmailForMatching, type DuplicatePoolEntry } from './duplicate-detection';
+import { SHEET_IMPORT_FIELDS } from './validation/sheet-import-schema';
+import { SUBMISSION_SCHEMA_VERSION } from './validation/submission-schema';
+import type {
+  SheetImportCursor,
+  SheetImportField,
+  SheetImportResult,
+  SheetImportRowResult,
+  SheetImportSource,
+  SheetImportSourceFirestore,
+  SheetImportSourceInput,
+} from '@/types/sheet-import';
+
+export const SHEET_IMPORT_SOURCES_COLLECTION = 'sheetImportSources';
+
+// Row 1 holds the headers, so a fresh cursor starts after it
+const INITIAL_CURSOR: SheetImportCursor = { lastRow: 1, retryRows: [] };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function toIsoString(value: unknown): string | undefined {
+  return value instanceof Timestamp ? value.toDate().toISOString() : undefined;
+}
+
+function toSheetImportSource(id: string, data: SheetImportSourceFirestore): SheetImportSource {
+  return {
+    id,
+    name: data.name,
+    spreadsheetId: data.spreadsheetId,
+    sheetName: data.sheetName,
+    columnMapping: data.columnMapping ?? {},
+    cursor: { ...INITIAL_CURSOR, ...data.cursor },
+    createdAt: toIsoString(data.createdAt),
+    createdBy: data.createdBy,
+    updatedAt: toIsoString(data.updatedAt),
+    updatedBy: data.updatedBy,
+    lastRunAt: toIsoString(data.lastRunAt),
+    lastRunBy: data.lastRunBy,
+    lastRunSummary: data.lastRunSummary,
+  };
+}
+
+export async function listSheetImportSources(): Promise<SheetImportSource[]> {
+  const snapshot = await getDocs(collection(db, SHEET_IMPORT_SOURCES_COLLECTION));
+  return snapshot.docs
+    .map((sourceDoc) => toSheetImportSource(sourceDoc.id, sourceDoc.data() as SheetImportSourceFirestore))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getSheetImportSource(id: string): Promise<SheetImportSource | null> {
+  const snapshot = await getDoc(doc(db, SHEET_IMPORT_SOURCES_COLLECTION, id));
+  return snapshot.exists() ? toSheetImportSource(snapshot.id, snapshot.data() as SheetImportSourceFirestore) : null;
+}
+
+export async function createSheetImportSource(input: SheetImportSourceInput, createdBy: string): Promise<SheetImportSource> {
+  const ref = await addDoc(collection(db, SHEET_IMPORT_SOURCES_COLLECTION), {
+    ...input,
+    cursor: INITIAL_CURSOR,
+    createdAt: serverTimestamp(),
+    createdBy,
+    updatedAt: serverTimestamp(),
+    updatedBy: createdBy,
+  });
+  return (await getSheetImportSource(ref.id)) as SheetImportSource;
+}
+
+// Pointing a source at another spreadsheet or tab starts its cursor over
+export async function updateSheetImportSource(
+  id: string,
+  input: SheetImportSourceInput,
+  updatedBy: string
+): Promise<{ before: SheetImportSource; after: SheetImportSource }> {
+  const before = await getSheetImportSource(id);
+  if (!before) {
+    throw new Error('Import source not found.');
+  }
+  const sheetChanged = before.spreadsheetId !== input.spreadsheetId || before.sheetName !== input.sheetName;
+  await updateDoc(doc(db, SHEET_IMPORT_SOURCES_COLLECTION, id), {
+    ...input,
+    ...(sheetChanged ? { cursor: INITIAL_CURSOR } : {}),
+    updatedAt: serverTimestamp(),
+    updatedBy,
+  });
+  return { before, after: (await getSheetImportSource(id)) as SheetImportSource };
+}
+
+export async function deleteSheetImportSource(id: string): Promise<SheetImportSource | null> {
+  const source = await getSheetImportSource(id);
+  if (source) {
+    await deleteDoc(doc(db, SHEET_IMPORT_SOURCES_COLLECTION, id));
+  }
+  return source;
+}
+
+// Read the whole sheet again on the next run; rows already imported are still skipped
+export async function resetSheetImportCursor(id: string): Promise<void> {
+  await updateDoc(doc(db, SHEET_IMPORT_SOURCES_COLLECTION, id), { cursor: INITIAL_CURSOR });
+}
+
+export async function readSheetHeaders(spreadsheetId: string, sheetName: string, client?: SheetsClient): Promise<string[]> {
+  const rows = await (client ?? (await getSheetsClient())).getRows(spreadsheetId, sheetName);
+  return (rows[0] ?? []).map((header) => header.trim()).filter(Boolean);
+}
+
+// Google Forms writes timestamps like "10/19/2026 14:03:22"; anything Date can read is accepted
+function parseTimestamp(value: string | undefined): string | undefined {
+  if (!value?.trim()) return undefined;
+  const millis = Date.parse(value);
+  return Number.isNaN(millis) ? undefined : new Date(millis).toISOString();
+}
+
+function extractEmailFromText(text: string): string {
+  if (!text) return '';
+  const emailRegex = /([a-zA-Z0-9._-]+@[a-zA-Z0-9._-]+\.[a-zA-Z0-9_-]+)/gi;
+  const matches = text.match(emailRegex);
+  return matches ? matches[0] : '';
+}
+
+// Keys that identify an imported row; a row matching either was imported before
+function importKeys(sourceRow: number | undefined, email: string, timestamp: string | undefined): string[] {
+  const normalizedEmail = normalizeEmailForMatching(email) || email.trim().toLowerCase();
+  return [
+    ...(sourceRow !== undefined ? [`row:${sourceRow}:${normalizedEmail}`] : []),
+    ...(timestamp ? [`ts:${timestamp}:${normalizedEmail}`] : []),
+  ];
+}
+
+// Import keys of the stored submissions with this email that came from this source, or from before
+// sources existed (no importSourceId); they are found through the email lookup key in duplicateKeys
+async function loadImportedKeys(sourceId: string, email: string): Promise<Set<string>> {
+  const normalizedEmail = normalizeEmailForMatching(email) || email.trim().toLowerCase();
+  const snapshot = await getDocs(
+    query(collection(db, APPLICATIONS_COLLECTION), where('duplicateKeys', 'array-contains', `email:${normalizedEmail}`))
+  );
+  const keys = new Set<string>();
+  snapshot.docs.forEach((submissionDoc) => {
+    const data = submissionDoc.data();
+    if (data.source !== 'off-campus') return;
+    if (data.importSourceId && data.importSourceId !== sourceId) return;
+    if (typeof data.email !== 'string' || !data.email) return;
+    const sourceRow = typeof data.sourceRow === 'number' ? data.sourceRow : undefined;
+    importKeys(sourceRow, data.email, parseTimestamp(data.formSubmittedAt)).forEach((key) => keys.add(key));
+  });
+  return keys;
+}
+
+type ColumnIndexes = Partial<Record<SheetImportField, number>>;
+
+function resolveColumns(source: SheetImportSource, headers: string[]): ColumnIndexes {
+  const columns: ColumnIndexes = {};
+  for (const [field, header] of Object.entries(source.columnMapping) as [SheetImportField, string][]) {
+    const index = headers.findIndex((candidate) => candidate.trim().toLowerCase() === header.trim().toLowerCase());
+    if (index === -1) {
+      const label = SHEET_IMPORT_FIELDS.find((entry) => entry.key === field)?.label ?? field;
+      throw new Error(`The column "${header}" mapped to ${label} is no longer in the sheet. Update the column mapping.`);
+    }
+    columns[field] = index;
+  }
+  return columns;
+}
+
+// The submission a row becomes, with the defaults the import has always used for blank cells
+function rowToSubmission(row: string[], columns: ColumnIndexes, rowNumber: number, sourceId: string) {
+  const cell = (field: SheetImportField) => {
+    const index = columns[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  const fullName = cell('fullName');
+  const email = cell('companyEmail') || extractEmailFromText(cell('phone'));
+  if (!email) {
+    return { error: 'Could not determine email for row.' };
+  }
+  if (!EMAIL_PATTERN.test(email)) {
+    return { error: `"${email}" is not a valid email address.` };
+  }
+
+  return {
+    data: {
+      schemaVersion: SUBMISSION_SCHEMA_VERSION,
+      fullName: fullName || 'Unknown Name',
+      phone: cell('phone'),
+      natureOfInquiry: cell('natureOfInquiry') || 'General',
+      companyName: cell('companyName') || (fullName ? `${fullName}'s Startup` : 'Startup'),
+      companyEmail: cell('companyEmail'),
+      founderNames: cell('founderNames') || fullName || 'Unknown Founder',
+      founderBio: cell('founderBio'),
+      linkedinUrl: cell('linkedinUrl'),
+      teamInfo: cell('teamInfo'),
+      startupIdea: cell('startupIdea'),
+      targetAudience: cell('targetAudience'),
+      problemSolving: cell('problemSolving'),
+      uniqueness: cell('uniqueness'),
+      developmentStage: cell('developmentStage'),
+      source: 'off-campus' as const,
+      campusStatus: 'off-campus' as const,
+      email,
+      name: fullName || 'Unknown Name',
+      status: 'pending' as const,
+      sourceRow: rowNumber,
+      formSubmittedAt: cell('formSubmittedAt'),
+      importSourceId: sourceId,
+    },
+  };
+}
+
+/**
+ * Import the rows added to a source since its last run. A dry run reads and checks everything the
+ * same way but writes nothing, so its result previews the real run.
+ */
+export async function runSheetImport(
+  sourceId: string,
+  options: { dryRun: boolean; runBy: string; client?: SheetsClient }
+): Promise<{ source: SheetImportSource; result: SheetImportResult }> {
+  const source = await getSheetImportSource(sourceId);
+  if (!source) {
+    throw new Error('Import source not found.');
+  }
+
+  const client = options.client ?? (await getSheetsClient());
+  const rows = await client.getRows(source.spreadsheetId, source.sheetName);
+  if (rows.length === 0) {
+    throw new Error(`The tab "${source.sheetName}" is empty.`);
+  }
+  const columns = resolveColumns(source, rows[0]);
+
+  // Import keys of the rows created by this run, which a dry run never stores
+  const runKeys = new Set<string>();
+  // Rows created by this run, which a dry run never stores for loadDuplicatePool to find
+  const runPool: DuplicatePoolEntry[] = [];
+  const cursor = source.cursor;
+  const nextCursor: SheetImportCursor = {
+    lastRow: cursor.lastRow,
+    retryRows: [],
+    ...(cursor.lastTimestamp ? { lastTimestamp: cursor.lastTimestamp } : {}),
+  };
+  const results: SheetImportRowResult[] = [];
+  let rowsBeforeCursor = 0;
+
+  for (let index = 1; index < rows.length; index++) {
+    const rowNumber = index + 1;
+    const row = rows[index];
+    if (row.every((value) => !value?.trim())) continue;
+
+    const timestamp = columns.formSubmittedAt !== undefined ? parseTimestamp(row[columns.formSubmittedAt]) : undefined;
+    const isNew =
+      rowNumber > cursor.lastRow ||
+      cursor.retryRows.includes(rowNumber) ||
+      (!!timestamp && !!cursor.lastTimestamp && timestamp > cursor.lastTimestamp);
+    if (!isNew) {
+      rowsBeforeCursor++;
+      continue;
+    }
+    nextCursor.lastRow = Math.max(nextCursor.lastRow, rowNumber);
+
+    const parsed = rowToSubmission(row, columns, rowNumber, source.id);
+    if ('error' in parsed) {
+      results.push({ rowNumber, action: 'error', message: parsed.error });
+      nextCursor.retryRows.push(rowNumber);
+      continue;
+    }
+    const submission = parsed.data;
+    const preview = { name: submission.name, email: submission.email, companyName: submission.companyName };
+
+    const keys = importKeys(rowNumber, submission.email, timestamp);
+    const importedKeys = await loadImportedKeys(source.id, submission.email);
+    if (keys.some((key) => runKeys.has(key) || importedKeys.has(key))) {
+      results.push({ rowNumber, action: 'skip', message: 'Already imported.', ...preview });
+      continue;
+    }
+
+    try {
+      const storedPool = await loadDuplicatePool(submission);
+      const storedIds = new Set(storedPool.map((entry) => entry.id));
+      const duplicateCheck = buildDuplicateCheck(submission, [
+        ...storedPool,
+        ...runPool.filter((entry) => !storedIds.has(entry.id)),
+      ]);
+      let id = `row-${rowNumber}`;
+      if (!options.dryRun) {
+        const docRef = await addDoc(collection(db, APPLICATIONS_COLLECTION), {
+          ...submission,
+          submittedAt: serverTimestamp(),
+          importedAt: serverTimestamp(),
+          duplicateKeys: duplicateKeysFor(submission),
+          ...(duplicateCheck ? { duplicateCheck } : {}),
+        });
+        id = docRef.id;
+      }
+      // Later rows of the same run are checked against this one too
+      runPool.push({ id, source: 'off-campus', ...preview, companyEmail: submission.companyEmail, phone: submission.phone });
+      keys.forEach((key) => runKeys.add(key));
+      if (timestamp && (!nextCursor.lastTimestamp || timestamp > nextCursor.lastTimestamp)) {
+        nextCursor.lastTimestamp = timestamp;
+      }
+      results.push({ rowNumber, action: 'create', possibleDuplicate: !!duplicateCheck, ...preview });
+    } catch (error) {
+      console.error(`[SheetImport] Error importing row ${rowNumber}:`, error);
+      results.push({ rowNumber, action: 'error', message: error instanceof Error ? error.message : 'Failed to save the row.', ...preview });
+      nextCursor.retryRows.push(rowNumber);
+    }
+  }
+
+  const summary = {
+    created: results.filter((result) => result.action === 'create').length,
+    skipped: results.filter((result) => result.action === 'skip').length,
+    errors: results.filter((result) => result.action === 'error').length,
+    flagged: results.filter((result) => result.possibleDuplicate).length,
+  };
+
+  if (!options.dryRun) {
+    await updateDoc(doc(db, SHEET_IMPORT_SOURCES_COLLECTION, source.id), {
+      cursor: nextCursor,
+      lastRunAt: serverTimestamp(),
+      lastRunBy: options.runBy,
+      lastRunSummary: summary,
+    });
+  }
+
+  return {
+    source,
+    result: {
+      dryRun: options.dryRun,
+      rows: results,
+      summary,
+      cursor: options.dryRun ? cursor : nextCursor,
+      rowsBeforeCursor,
+    },
+  };
+}
@@ -0,0 +1,64 @@
+// src/lib/sheets-client.ts
+// Read access to Google Sheets behind a small interface, so the import can run against a local
+// fixture file instead of the real API. Server-side only.
+import { readFile } from 'fs/promises';
+import { google } from 'googleapis';
+import { JWT } from 'google-auth-library';
+
+export interface SheetsClient {
+  // All rows of a tab, first row (headers) included; trailing empty cells may be missing
+  getRows(spreadsheetId: string, sheetName: string): Promise<string[][]>;
+}
+
+// spreadsheetId → tab name → rows
+export type SheetsFixture = Record<string, Record<string, string[][]>>;
+
+// A1 notation needs quotes around tab names with spaces or punctuation
+function tabRange(sheetName: string): string {
+  return `'${sheetName.replace(/'/g, "''")}'`;
+}
+
+export function createGoogleSheetsClient(): SheetsClient {
+  if (!process.env.GOOGLE_SERVICE_ACCOUNT_KEY_JSON) {
+    throw new Error('GOOGLE_SERVICE_ACCOUNT_KEY_JSON environment variable is not set.');
+  }
+  const credentials = JSON.parse(process.env.GOOGLE_SERVICE_ACCOUNT_KEY_JSON);
+  const jwtClient = new JWT({
+    email: credentials.client_email,
+    key: credentials.private_key,
+    scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
+  });
+  const sheets = google.sheets({ version: 'v4', auth: jwtClient });
+
+  return {
+    async getRows(spreadsheetId, sheetName) {
+      const response = await sheets.spreadsheets.values.get({ spreadsheetId, range: tabRange(sheetName) });
+      return (response.data.values ?? []).map((row) => row.map((cell) => (cell == null ? '' : String(cell))));
+    },
+  };
+}
+
+export function createFixtureSheetsClient(fixture: SheetsFixture): SheetsClient {
+  return {
+    async getRows(spreadsheetId, sheetName) {
+      const rows = fixture[spreadsheetId]?.[sheetName];
+      if (!rows) {
+        throw new Error(`The sheets fixture has no tab "${sheetName}" in spreadsheet ${spreadsheetId}.`);
+      }
+      return rows.map((row) => row.map((cell) => String(cell ?? '')));
+    },
+  };
+}
+
+/**
+ * The client the import uses: the Google Sheets API, or the JSON fixture named by
+ * SHEETS_FIXTURE_PATH (shaped like SheetsFixture) when that is set, e.g. in local development.
+ */
+export async function getSheetsClient(): Promise<SheetsClient> {
+  const fixturePath = process.env.SHEETS_FIXTURE_PATH;
+  if (fixturePath) {
+    const fixture = JSON.parse(await readFile(fixturePath, 'utf8')) as SheetsFixture;
+    return createFixtureSheetsClient(fixture);
+  }
+  return createGoogleSheetsClient();
+}
@@ -0,0 +1,239 @@
+// src/lib/submission-duplicates.ts
+// Intake-time duplicate flagging and the admin merge of two submissions. Server-side only.
+import {
+  arrayUnion,
+  collection,
+  deleteField,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  Timestamp,
+  updateDoc,
+  where,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { APPLICATIONS_COLLECTION, applicationSourceOf } from './applications';
+import { normalizeSubmission } from './validation/submission-schema';
+import {
+  CUSTOM_ANSWER_FIELD_PREFIX,
+  MERGEABLE_SUBMISSION_FIELDS,
+  duplicateKeysFor,
+  findDuplicateMatches,
+  type DuplicateCandidate,
+  type DuplicatePoolEntry,
+} from './duplicate-detection';
+import type { ApplicationAttachment } from '@/types/application-attachment';
+import type {
+  MergedSubmissionRecord,
+  SubmissionDuplicateCheck,
+  SubmissionDuplicateMatch,
+} from '@/types/Submission';
+
+// Keep the stored list short; the strongest matches are the useful ones
+const MAX_STORED_MATCHES = 5;
+
+// Firestore accepts at most 30 values in an array-contains-any filter
+const MAX_KEYS_PER_QUERY = 30;
+
+function toIsoDate(value: unknown): string | undefined {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * The applications that share a lookup key with `candidate` (see duplicateKeysFor), reduced to the
+ * fields matching looks at. Applications stored before the keys existed get them from the submission
+ * schema migration.
+ */
+export async function loadDuplicatePool(candidate: DuplicateCandidate): Promise<DuplicatePoolEntry[]> {
+  const keys = duplicateKeysFor(candidate);
+  const snapshots = await Promise.all(
+    Array.from({ length: Math.ceil(keys.length / MAX_KEYS_PER_QUERY) }, (_, index) =>
+      getDocs(
+        query(
+          collection(db, APPLICATIONS_COLLECTION),
+          where('duplicateKeys', 'array-contains-any', keys.slice(index * MAX_KEYS_PER_QUERY, (index + 1) * MAX_KEYS_PER_QUERY))
+        )
+      )
+    )
+  );
+  const submissionDocs = new Map<string, QueryDocumentSnapshot>();
+  for (const submissionDoc of snapshots.flatMap((snapshot) => snapshot.docs)) {
+    submissionDocs.set(submissionDoc.id, submissionDoc);
+  }
+  return Array.from(submissionDocs.values(), (submissionDoc) => {
+    const data = normalizeSubmission(submissionDoc.id, submissionDoc.data());
+    return {
+      id: submissionDoc.id,
+      source: data.source ?? applicationSourceOf(data),
+      email: data.email,
+      companyEmail: data.companyEmail,
+      phone: data.phone,
+      companyName: data.companyName,
+      ...(typeof data.sourceRow === 'number' ? { sourceRow: data.sourceRow } : {}),
+    };
+  });
+}
+
+// The duplicateCheck to store on a new submission, or undefined when it matches nothing
+export function buildDuplicateCheck(
+  candidate: DuplicateCandidate,
+  pool: DuplicatePoolEntry[],
+  excludeId?: string
+): SubmissionDuplicateCheck | undefined {
+  const matches = findDuplicateMatches(candidate, pool, excludeId).slice(0, MAX_STORED_MATCHES);
+  if (matches.length === 0) return undefined;
+  return { status: 'flagged', matches, checkedAt: Timestamp.now() };
+}
+
+function readField(data: DocumentData, field: string): unknown {
+  if (field.startsWith(CUSTOM_ANSWER_FIELD_PREFIX)) {
+    return data.customAnswers?.[field.slice(CUSTOM_ANSWER_FIELD_PREFIX.length)];
+  }
+  return data[field];
+}
+
+function isMergeableField(field: string): boolean {
+  return (
+    (MERGEABLE_SUBMISSION_FIELDS as readonly string[]).includes(field) ||
+    /^customAnswers\.[a-zA-Z][a-zA-Z0-9_]{0,49}$/.test(field)
+  );
+}
+
+export interface MergeSubmissionsResult {
+  before: DocumentData; // The kept submission before the merge
+  updates: Record<string, unknown>; // Answers copied from the duplicate
+  duplicate: DocumentData;
+  attachments: ApplicationAttachment[]; // The duplicate's files, now on the kept submission
+  unlinkedFrom: string[]; // Other submissions whose duplicate matches pointed at the deleted one
+}
+
+// Drop matches pointing at a deleted submission from every other submission's duplicate check
+async function removeStaleMatches(deletedId: string, skipIds: string[]): Promise<string[]> {
+  // Merges are rare admin actions, so reading every application here is acceptable
+  const snapshot = await getDocs(collection(db, APPLICATIONS_COLLECTION));
+  const unlinked: string[] = [];
+  for (const submissionDoc of snapshot.docs) {
+    const check = submissionDoc.data().duplicateCheck as SubmissionDuplicateCheck | undefined;
+    if (skipIds.includes(submissionDoc.id) || !check?.matches?.some((match) => match.id === deletedId)) continue;
+    const remaining = check.matches.filter((match) => match.id !== deletedId);
+    await updateDoc(
+      submissionDoc.ref,
+      remaining.length > 0 ? { 'duplicateCheck.matches': remaining } : { duplicateCheck: deleteField() }
+    );
+    unlinked.push(submissionDoc.id);
+  }
+  return unlinked;
+}
+
+/**
+ * Copy the chosen answers from `duplicate` into `primary`, move its attachments over, record the merge
+ * on `primary` and delete `duplicate`. Only a pending duplicate that is in no evaluation round can be
+ * merged away; decided ones have accounts and emails attached to them, and evaluated ones have
+ * assignments and scores recorded under their ID.
+ */
+export async function mergeSubmissions(input: {
+  primaryId: string;
+  duplicateId: string;
+  fields: string[];
+  mergedBy: string;
+}): Promise<MergeSubmissionsResult> {
+  const { primaryId, duplicateId } = input;
+  if (primaryId === duplicateId) {
+    throw new Error('A submission cannot be merged into itself.');
+  }
+  const invalidField = input.fields.find((field) => !isMergeableField(field));
+  if (invalidField) {
+    throw new Error(`"${invalidField}" cannot be merged.`);
+  }
+
+  const primaryRef = doc(db, APPLICATIONS_COLLECTION, primaryId);
+  const duplicateRef = doc(db, APPLICATIONS_COLLECTION, duplicateId);
+
+  const result = await runTransaction(db, async (transaction) => {
+    const [primarySnapshot, duplicateSnapshot] = await Promise.all([
+      transaction.get(primaryRef),
+      transaction.get(duplicateRef),
+    ]);
+    if (!primarySnapshot.exists() || !duplicateSnapshot.exists()) {
+      throw new Error('One of the submissions no longer exists. Refresh and try again.');
+    }
+    const kept = normalizeSubmission(primaryId, primarySnapshot.data());
+    const removed = normalizeSubmission(duplicateId, duplicateSnapshot.data());
+    if ((removed.status ?? 'pending') !== 'pending' || removed.firebaseUid) {
+      throw new Error('Only a pending submission can be merged into another one. Keep the decided submission instead.');
+    }
+    if (removed.evaluation || (removed.evaluationRoundIds ?? []).length > 0) {
+      throw new Error('This submission is in an evaluation round, so its scores would be lost. Keep it instead.');
+    }
+
+    const updates: Record<string, unknown> = {};
+    for (const field of input.fields) {
+      const value = readField(removed, field);
+      if (value === undefined || value === '') continue;
+      updates[field] = value;
+      if (field === 'fullName') updates.name = value;
+      if (field === 'companyEmail') updates.email = value;
+    }
+
+    const record: MergedSubmissionRecord = {
+      id: duplicateId,
+      source: applicationSourceOf(removed),
+      mergedAt: new Date().toISOString(),
+      mergedBy: input.mergedBy,
+      ...(toIsoDate(removed.submittedAt) ? { submittedAt: toIsoDate(removed.submittedAt) } : {}),
+    };
+
+    // The kept submission no longer needs to point at what was merged into it
+    const remainingMatches = (kept.duplicateCheck?.matches ?? []).filter(
+      (match: SubmissionDuplicateMatch) => match.id !== duplicateId
+    );
+
+    const keptAttachmentIds = new Set((kept.attachments ?? []).map((attachment) => attachment.id));
+    const attachments = (removed.attachments ?? []).filter((attachment) => !keptAttachmentIds.has(attachment.id));
+
+    transaction.update(primaryRef, {
+      ...updates,
+      duplicateKeys: duplicateKeysFor({ ...kept, ...updates }),
+      ...(attachments.length > 0 ? { attachments: arrayUnion(...attachments) } : {}),
+      mergedFrom: arrayUnion(record),
+      ...(kept.duplicateCheck
+        ? remainingMatches.length > 0
+          ? { 'duplicateCheck.matches': remainingMatches }
+          : { duplicateCheck: deleteField() }
+        : {}),
+    });
+    transaction.delete(duplicateRef);
+
+    return { before: kept, updates, duplicate: removed, attachments };
+  });
+
+  // The merge has happened by now; a match left behind only points at a submission that is gone
+  try {
+    return { ...result, unlinkedFrom: await removeStaleMatches(duplicateId, [primaryId]) };
+  } catch (error) {
+    console.error('[SubmissionDuplicates] Error removing matches to a merged submission:', error);
+    return { ...result, unlinkedFrom: [] };
+  }
+}
+
+// An admin confirmed the flagged matches are different applicants
+export async function dismissDuplicateFlag(submissionId: string): Promise<DocumentData> {
+  const submissionRef = doc(db, APPLICATIONS_COLLECTION, submissionId);
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(submissionRef);
+    if (!snapshot.exists()) {
+      throw new Error('Submission not found.');
+    }
+    const data = snapshot.data();
+    if (!data.duplicateCheck) {
+      throw new Error('This submission is not flagged as a possible duplicate.');
+    }
+    transaction.update(submissionRef, { 'duplicateCheck.status': 'dismissed' });
+    return data;
+  });
+}
@@ -0,0 +1,233 @@
+// src/lib/two-factor.ts
+// TOTP two-factor authentication for the admin and mentor portals: enrollment, verification,
+// recovery codes and the policy that makes it mandatory for administrators.
+// Server-side only. Secrets are encrypted at rest with a key derived from SESSION_SECRET.
+import { doc, getDoc, runTransaction, serverTimestamp, setDoc, Timestamp, updateDoc, deleteField } from 'firebase/firestore';
+import crypto from 'crypto';
+import { db } from './firebase';
+import { buildOtpauthUri, generateTotpSecret, verifyTotpCode } from './totp';
+import type { SessionIdentity } from './session-token';
+import type { TwoFactorCredentialFirestore, TwoFactorPolicy, TwoFactorStatus } from '@/types/two-factor';
+
+export const TWO_FACTOR_COLLECTION = 'twoFactorCredentials';
+export const SECURITY_POLICY_PATH = 'admin_config/security_policy';
+export const TWO_FACTOR_ISSUER = 'RCOEM-TBI';
+export const RECOVERY_CODE_COUNT = 10;
+
+type TwoFactorPrincipal = Pick<SessionIdentity, 'sub' | 'role'>;
+
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+// Admin account IDs and Firebase UIDs live in different namespaces, so the portal is part of the key
+export function twoFactorPrincipalId({ role, sub }: TwoFactorPrincipal): string {
+  return `${role}:${sub}`;
+}
+
+function credentialRef(principal: TwoFactorPrincipal) {
+  return doc(db, TWO_FACTOR_COLLECTION, twoFactorPrincipalId(principal));
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET environment variable is not set.');
+  }
+  return crypto.createHash('sha256').update(`two-factor:${secret}`).digest();
+}
+
+function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+function decryptSecret(stored: string): string {
+  const [version, iv, tag, ciphertext] = stored.split(':');
+  if (version !== 'v1' || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognised two-factor secret format.');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+}
+
+// Ten codes like "7f3k2-q9m4x", shown to the user once
+function generateRecoveryCodes(): string[] {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.randomBytes(10), (byte) => alphabet[byte % alphabet.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+async function getCredential(principal: TwoFactorPrincipal): Promise<TwoFactorCredentialFirestore | null> {
+  const snapshot = await getDoc(credentialRef(principal));
+  return snapshot.exists() ? (snapshot.data() as TwoFactorCredentialFirestore) : null;
+}
+
+export async function getTwoFactorPolicy(): Promise<TwoFactorPolicy> {
+  const snapshot = await getDoc(doc(db, SECURITY_POLICY_PATH));
+  const data = snapshot.exists() ? snapshot.data() : {};
+  return {
+    requireForAdmins: data.requireAdminTwoFactor === true,
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate().toISOString() : undefined,
+    updatedBy: data.updatedBy,
+  };
+}
+
+export async function setTwoFactorPolicy(requireForAdmins: boolean, updatedBy: string): Promise<void> {
+  await setDoc(
+    doc(db, SECURITY_POLICY_PATH),
+    { requireAdminTwoFactor: requireForAdmins, updatedAt: serverTimestamp(), updatedBy },
+    { merge: true }
+  );
+}
+
+// The policy applies to admin-portal sessions that hold the admin role (auditors are exempt)
+export function isTwoFactorRequired(identity: Pick<SessionIdentity, 'role' | 'roles'>, policy: TwoFactorPolicy): boolean {
+  return policy.requireForAdmins && identity.role === 'admin' && identity.roles.includes('admin');
+}
+
+export async function isTwoFactorEnabled(principal: TwoFactorPrincipal): Promise<boolean> {
+  return (await getCredential(principal))?.enabled === true;
+}
+
+export async function getTwoFactorStatus(identity: SessionIdentity): Promise<TwoFactorStatus> {
+  const [credential, policy] = await Promise.all([getCredential(identity), getTwoFactorPolicy()]);
+  return {
+    enabled: credential?.enabled === true,
+    required: isTwoFactorRequired(identity, policy),
+    recoveryCodesRemaining: credential?.enabled ? credential.recoveryCodeHashes.length : 0,
+    enabledAt: credential?.enabledAt?.toDate().toISOString(),
+  };
+}
+
+// How long a re-enrollment may take between entering the current code and confirming the new secret
+const REENROLLMENT_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * Start (or restart) enrollment with a fresh secret. The account's current 2FA, if any,
+ * stays in force until the new secret is confirmed with a code, and replacing it needs the
+ * caller to have checked the current factor first (see verifySecondFactor).
+ */
+export async function beginTwoFactorEnrollment(
+  identity: SessionIdentity,
+  { currentFactorVerified = false }: { currentFactorVerified?: boolean } = {}
+): Promise<{ secret: string; otpauthUri: string }> {
+  const secret = generateTotpSecret();
+  const existing = await getCredential(identity);
+  if (existing?.enabled && !currentFactorVerified) {
+    throw new Error('Enter a code from your current authenticator app or a recovery code first.');
+  }
+
+  await setDoc(credentialRef(identity), {
+    email: identity.email.toLowerCase(),
+    enabled: existing?.enabled === true,
+    recoveryCodeHashes: existing?.recoveryCodeHashes ?? [],
+    pendingSecret: encryptSecret(secret),
+    pendingVerifiedAt: existing?.enabled ? Timestamp.now() : deleteField(),
+    updatedAt: serverTimestamp(),
+  }, { merge: true });
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, identity.email, TWO_FACTOR_ISSUER) };
+}
+
+// Confirm enrollment with the first code from the app; returns the recovery codes to show once
+export async function confirmTwoFactorEnrollment(
+  principal: TwoFactorPrincipal,
+  code: string
+): Promise<{ success: boolean; recoveryCodes?: string[]; error?: string }> {
+  const credential = await getCredential(principal);
+  if (!credential?.pendingSecret) {
+    return { success: false, error: 'Start the setup again to get a new QR code.' };
+  }
+  // Replacing an enabled 2FA needs the current factor to have been checked when the setup started
+  const verifiedAt = credential.pendingVerifiedAt?.toMillis();
+  if (credential.enabled && (verifiedAt === undefined || Date.now() - verifiedAt > REENROLLMENT_WINDOW_MS)) {
+    return { success: false, error: 'Your setup has expired. Start again and enter your current code.' };
+  }
+
+  const secret = decryptSecret(credential.pendingSecret);
+  const step = verifyTotpCode(secret, code);
+  if (step === null) {
+    return { success: false, error: 'That code is not valid. Check the time on your phone and try again.' };
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await updateDoc(credentialRef(principal), {
+    enabled: true,
+    secret: encryptSecret(secret),
+    pendingSecret: deleteField(),
+    pendingVerifiedAt: deleteField(),
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    lastUsedStep: step,
+    enabledAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+
+  return { success: true, recoveryCodes };
+}
+
+/**
+ * Check a login or re-authentication code: a current TOTP code, or an unused recovery code
+ * (which is consumed). Runs in a transaction so a code cannot be accepted twice.
+ */
+export async function verifySecondFactor(
+  principal: TwoFactorPrincipal,
+  code: string,
+  { allowRecoveryCode = true }: { allowRecoveryCode?: boolean } = {}
+): Promise<{ success: boolean; method?: SecondFactorMethod; recoveryCodesRemaining?: number; error?: string }> {
+  const ref = credentialRef(principal);
+
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const credential = snapshot.exists() ? (snapshot.data() as TwoFactorCredentialFirestore) : null;
+    if (!credential?.enabled || !credential.secret) {
+      return { success: false, error: 'Two-factor authentication is not enabled for this account.' };
+    }
+
+    const step = verifyTotpCode(decryptSecret(credential.secret), code, credential.lastUsedStep ?? -1);
+    if (step !== null) {
+      transaction.update(ref, { lastUsedStep: step, updatedAt: serverTimestamp() });
+      return { success: true, method: 'totp' as const, recoveryCodesRemaining: credential.recoveryCodeHashes.length };
+    }
+
+    if (allowRecoveryCode) {
+      const codeHash = hashRecoveryCode(code);
+      if (credential.recoveryCodeHashes.includes(codeHash)) {
+        const remaining = credential.recoveryCodeHashes.filter((hash) => hash !== codeHash);
+        transaction.update(ref, { recoveryCodeHashes: remaining, updatedAt: serverTimestamp() });
+        return { success: true, method: 'recovery_code' as const, recoveryCodesRemaining: remaining.length };
+      }
+    }
+
+    return { success: false, error: 'That code is not valid.' };
+  });
+}
+
+export async function regenerateRecoveryCodes(principal: TwoFactorPrincipal): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+  await updateDoc(credentialRef(principal), {
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    updatedAt: serverTimestamp(),
+  });
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(principal: TwoFactorPrincipal): Promise<void> {
+  await updateDoc(credentialRef(principal), {
+    enabled: false,
+    secret: deleteField(),
+    pendingSecret: deleteField(),
+    pendingVerifiedAt: deleteField(),
+    recoveryCodeHashes: [],
+    lastUsedStep: deleteField(),
+    enabledAt: deleteField(),
+    updatedAt: serverTimestamp(),
+  });
+}
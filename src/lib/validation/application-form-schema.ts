@@ -0,0 +1,250 @@
+// Application form schema: the built-in form, definition checks for the /admin/forms builder and
+// answer validation. Pure code, shared by the public form (client) and /api/contact-submissions (server).
+import { z } from 'zod';
+import { DOMAIN_OPTIONS, LEGAL_STATUS_OPTIONS, SECTOR_OPTIONS } from './dropdown-constants';
+import type {
+  ApplicationFormDefinition,
+  ApplicationFormVersion,
+  DropdownSource,
+  FormFieldDefinition,
+  FormFieldType,
+} from '@/types/application-form';
+
+export const FORM_FIELD_TYPES: FormFieldType[] = ['text', 'email', 'phone', 'url', 'textarea', 'select'];
+
+export const FORM_FIELD_TYPE_LABELS: Record<FormFieldType, string> = {
+  text: 'Short text',
+  email: 'Email',
+  phone: 'Phone',
+  url: 'URL',
+  textarea: 'Long text',
+  select: 'Dropdown',
+};
+
+export const DROPDOWN_SOURCES: Record<DropdownSource, { label: string; options: readonly string[] }> = {
+  domain: { label: 'Domains', options: DOMAIN_OPTIONS },
+  sector: { label: 'Sectors', options: SECTOR_OPTIONS },
+  legalStatus: { label: 'Legal statuses', options: LEGAL_STATUS_OPTIONS },
+};
+
+// Submission fields with their own top-level property; answers to any other key go to `customAnswers`
+export const STANDARD_FIELD_KEYS = [
+  'fullName',
+  'phone',
+  'natureOfInquiry',
+  'companyName',
+  'companyEmail',
+  'founderNames',
+  'founderBio',
+  'portfolioUrl',
+  'teamInfo',
+  'startupIdea',
+  'problemSolving',
+  'uniqueness',
+  'domain',
+  'sector',
+  'legalStatus',
+] as const;
+
+// Every version must ask for these: the applicant's account is created from them on acceptance
+export const LOCKED_FIELDS: Record<string, FormFieldType> = {
+  fullName: 'text',
+  companyEmail: 'email',
+};
+
+const MAX_LENGTH: Record<FormFieldType, number> = {
+  text: 300,
+  email: 254,
+  phone: 30,
+  url: 1000,
+  textarea: 5000,
+  select: 200,
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s()-]{6,20}$/;
+
+export function isStandardFieldKey(key: string): boolean {
+  return (STANDARD_FIELD_KEYS as readonly string[]).includes(key);
+}
+
+export function resolveFieldOptions(field: FormFieldDefinition): readonly string[] {
+  if (field.type !== 'select') return [];
+  return field.optionsSource ? DROPDOWN_SOURCES[field.optionsSource].options : field.options ?? [];
+}
+
+// The form as it was hard-coded before the builder; served until an admin publishes a version
+export const DEFAULT_APPLICATION_FORM: ApplicationFormVersion = {
+  id: 'default',
+  version: 0,
+  status: 'published',
+  title: 'Incubation Application',
+  description: 'Join our innovation ecosystem and transform your startup vision into reality',
+  sections: [
+    {
+      id: 'personal',
+      title: 'Personal Information',
+      fields: [
+        { key: 'fullName', label: 'Full Name', type: 'text', required: true, placeholder: 'e.g. Ada Lovelace' },
+        { key: 'phone', label: 'Phone Number', type: 'phone', required: false, placeholder: 'e.g. +91 9876543210' },
+        {
+          key: 'natureOfInquiry',
+          label: 'Nature of Inquiry',
+          type: 'select',
+          required: true,
+          options: ['Incubation', 'Startup Idea', 'General Question'],
+        },
+      ],
+    },
+    {
+      id: 'company',
+      title: 'Company Information',
+      fields: [
+        { key: 'companyName', label: 'Company Name', type: 'text', required: true, placeholder: 'e.g. Tech Innovations Inc.' },
+        { key: 'companyEmail', label: 'Company Email', type: 'email', required: true, placeholder: 'e.g. founder@company.com' },
+        { key: 'domain', label: 'Domain', type: 'select', required: true, optionsSource: 'domain' },
+        { key: 'sector', label: 'Sector', type: 'select', required: true, optionsSource: 'sector' },
+      ],
+    },
+    {
+      id: 'founders',
+      title: 'Founder Information',
+      fields: [
+        { key: 'founderNames', label: 'Founder Name(s)', type: 'text', required: true, placeholder: 'e.g. Ada Lovelace, Alan Turing' },
+        { key: 'portfolioUrl', label: 'LinkedIn or Portfolio URL', type: 'url', required: false, placeholder: 'e.g. https://linkedin.com/in/yourprofile' },
+        { key: 'founderBio', label: 'Founder Bio', type: 'textarea', required: true, placeholder: 'Brief bio of the founder(s)...' },
+        { key: 'teamInfo', label: 'Team Information', type: 'textarea', required: false, placeholder: 'Describe your team (optional)...' },
+      ],
+    },
+    {
+      id: 'startup',
+      title: 'Startup Details',
+      fields: [
+        { key: 'startupIdea', label: 'Describe Your Startup Idea', type: 'textarea', required: true, placeholder: 'Describe your startup idea in detail...' },
+        { key: 'problemSolving', label: 'What Problem Are You Solving?', type: 'textarea', required: false, placeholder: 'Describe the problem your startup addresses (optional)...' },
+        { key: 'uniqueness', label: 'What Makes Your Startup Unique?', type: 'textarea', required: true, placeholder: 'What differentiates your startup from competitors?' },
+      ],
+    },
+  ],
+};
+
+const fieldSchema = z.object({
+  key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]{0,49}$/, 'Field keys start with a letter and use only letters, digits and underscores.'),
+  label: z.string().trim().min(1, 'Every field needs a label.').max(200),
+  type: z.enum(['text', 'email', 'phone', 'url', 'textarea', 'select']),
+  required: z.boolean(),
+  helpText: z.string().trim().max(500).optional(),
+  placeholder: z.string().trim().max(200).optional(),
+  optionsSource: z.enum(['domain', 'sector', 'legalStatus']).optional(),
+  options: z.array(z.string().trim().min(1).max(200)).max(100).optional(),
+});
+
+const sectionSchema = z.object({
+  id: z.string().min(1).max(50),
+  title: z.string().trim().min(1, 'Every section needs a title.').max(200),
+  description: z.string().trim().max(1000).optional(),
+  fields: z.array(fieldSchema).min(1, 'Sections need at least one field.'),
+});
+
+export const applicationFormDefinitionSchema = z.object({
+  title: z.string().trim().min(1, 'The form needs a title.').max(200),
+  description: z.string().trim().max(1000).optional(),
+  sections: z.array(sectionSchema).min(1, 'The form needs at least one section.'),
+}).superRefine((form, ctx) => {
+  const fields = form.sections.flatMap((section) => section.fields);
+  const seen = new Set<string>();
+
+  for (const field of fields) {
+    if (seen.has(field.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `The field key "${field.key}" is used more than once.` });
+    }
+    seen.add(field.key);
+
+    if (field.type === 'select' && !field.optionsSource && !(field.options && field.options.length > 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${field.label}" needs a list of options.` });
+    }
+  }
+
+  for (const [key, type] of Object.entries(LOCKED_FIELDS)) {
+    const field = fields.find((candidate) => candidate.key === key);
+    if (!field || field.type !== type || !field.required) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `The form must keep "${key}" as a required ${FORM_FIELD_TYPE_LABELS[type].toLowerCase()} field.` });
+    }
+  }
+});
+
+// Normalise a definition coming from the builder (drops options that do not apply to the field type)
+export function cleanFormDefinition(definition: ApplicationFormDefinition): ApplicationFormDefinition {
+  return {
+    title: definition.title,
+    ...(definition.description ? { description: definition.description } : {}),
+    sections: definition.sections.map((section) => ({
+      id: section.id,
+      title: section.title,
+      ...(section.description ? { description: section.description } : {}),
+      fields: section.fields.map((field) => ({
+        key: field.key,
+        label: field.label,
+        type: field.type,
+        required: field.required,
+        ...(field.helpText ? { helpText: field.helpText } : {}),
+        ...(field.placeholder ? { placeholder: field.placeholder } : {}),
+        ...(field.type === 'select' && field.optionsSource ? { optionsSource: field.optionsSource } : {}),
+        ...(field.type === 'select' && !field.optionsSource ? { options: field.options ?? [] } : {}),
+      })),
+    })),
+  };
+}
+
+function validateFieldValue(field: FormFieldDefinition, value: string): string | null {
+  if (!value) {
+    return field.required ? `${field.label} is required.` : null;
+  }
+  if (value.length > MAX_LENGTH[field.type]) {
+    return `${field.label} must be at most ${MAX_LENGTH[field.type]} characters.`;
+  }
+
+  switch (field.type) {
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? null : `${field.label} must be a valid email address.`;
+    case 'phone':
+      return PHONE_PATTERN.test(value) ? null : `${field.label} must be a valid phone number.`;
+    case 'url':
+      try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? null : `${field.label} must be a web address.`;
+      } catch {
+        return `${field.label} must be a valid URL.`;
+      }
+    case 'select':
+      return resolveFieldOptions(field).includes(value) ? null : `Invalid ${field.label.toLowerCase()} value.`;
+    default:
+      return null;
+  }
+}
+
+export interface ApplicationAnswersValidation {
+  values: Record<string, string>; // Trimmed answers for the fields of the form, keyed by field key
+  errors: { field: string; message: string }[];
+}
+
+// Check raw answers against a form version; keys that are not on the form are ignored
+export function validateApplicationAnswers(
+  form: ApplicationFormDefinition,
+  answers: Record<string, unknown>
+): ApplicationAnswersValidation {
+  const values: Record<string, string> = {};
+  const errors: ApplicationAnswersValidation['errors'] = [];
+
+  for (const field of form.sections.flatMap((section) => section.fields)) {
+    const raw = answers[field.key];
+    const value = typeof raw === 'string' ? raw.trim() : '';
+    const error = validateFieldValue(field, value);
+    if (error) {
+      errors.push({ field: field.key, message: error });
+    }
+    values[field.key] = value;
+  }
+
+  return { values, errors };
+}
@@ -0,0 +1,207 @@
+// Decision email templates: the variables they can use, checks for the /admin/email-templates editor,
+// the built-in templates and rendering. Pure code, shared by the editor preview (client) and the
+// decision flow (server).
+import { z } from 'zod';
+import type {
+  EmailTemplate,
+  EmailTemplateContent,
+  EmailTemplateDecision,
+  EmailTemplateVariables,
+  RenderedEmail,
+} from '@/types/email-template';
+
+export const EMAIL_TEMPLATE_DECISION_LABELS: Record<EmailTemplateDecision, string> = {
+  accept: 'Acceptance',
+  reject: 'Rejection',
+};
+
+export const EMAIL_TEMPLATE_VARIABLES: Record<keyof EmailTemplateVariables, { description: string; decisions: EmailTemplateDecision[] }> = {
+  applicantName: { description: "The applicant's name", decisions: ['accept', 'reject'] },
+  companyName: { description: 'Startup or company name (may be empty)', decisions: ['accept', 'reject'] },
+  loginEmail: { description: 'Email address the applicant signs in with', decisions: ['accept', 'reject'] },
+  loginUrl: { description: 'One-time link to choose a password', decisions: ['accept'] },
+  linkExpiresInHours: { description: 'Hours until the password link expires', decisions: ['accept'] },
+  message: { description: 'Note typed when deciding; left out when there is none', decisions: ['accept', 'reject'] },
+};
+
+// Used by the editor's live preview
+export const SAMPLE_EMAIL_VARIABLES: EmailTemplateVariables = {
+  applicantName: 'Priya Sharma',
+  companyName: 'AgriSense Labs',
+  loginEmail: 'priya@agrisense.example',
+  loginUrl: 'https://example.com/set-password?token=sample',
+  linkExpiresInHours: '72',
+  message: 'Orientation for this cohort is on the 12th at 10am in the TBI hall.',
+};
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+export function templateVariablesUsed(source: string): string[] {
+  return Array.from(new Set(Array.from(source.matchAll(PLACEHOLDER), (match) => match[1])));
+}
+
+export const emailTemplateContentSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Give the template a name.').max(100, 'Template names must be at most 100 characters.'),
+    decision: z.enum(['accept', 'reject']),
+    subject: z
+      .string()
+      .trim()
+      .min(1, 'The subject is required.')
+      .max(200, 'The subject must be at most 200 characters.')
+      .refine((subject) => !/[\r\n]/.test(subject), 'The subject must be a single line.'),
+    text: z.string().trim().min(1, 'The plain-text version is required.').max(20000, 'The plain-text version is too long.'),
+    html: z.string().trim().min(1, 'The HTML version is required.').max(50000, 'The HTML version is too long.'),
+  })
+  .superRefine((template, ctx) => {
+    (['subject', 'text', 'html'] as const).forEach((part) => {
+      for (const variable of templateVariablesUsed(template[part])) {
+        const known = EMAIL_TEMPLATE_VARIABLES[variable as keyof EmailTemplateVariables];
+        if (!known) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [part], message: `Unknown variable {{${variable}}}.` });
+        } else if (!known.decisions.includes(template.decision)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [part],
+            message: `{{${variable}}} is only available in acceptance emails.`,
+          });
+        }
+      }
+    });
+    (['text', 'html'] as const).forEach((part) => {
+      const used = templateVariablesUsed(template[part]);
+      const label = part === 'text' ? 'plain-text' : 'HTML';
+      // Accepted applicants have no other way to reach their new account
+      if (template.decision === 'accept' && !used.includes('loginUrl')) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [part], message: `The ${label} version must include {{loginUrl}}.` });
+      }
+      if (!used.includes('message')) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [part],
+          message: `The ${label} version must include {{message}} so notes added when deciding reach the applicant.`,
+        });
+      }
+    });
+  });
+
+// Shipped with the platform; always available, and the defaults until an admin picks another one
+export const BUILT_IN_EMAIL_TEMPLATES: EmailTemplate[] = [
+  {
+    id: 'builtin-accept',
+    builtIn: true,
+    isDefault: false,
+    name: 'Accepted',
+    decision: 'accept',
+    subject: 'Congratulations! Your RCOEM-TBI Application has been Accepted!',
+    text: `Dear {{applicantName}},
+
+We are thrilled to inform you that your application to RCOEM-TBI has been accepted!
+
+{{message}}
+
+We were very impressed with your idea and believe in its potential. An account has been created for you on our portal. Please choose your password using the link below:
+
+{{loginUrl}}
+
+The link can be used once and expires in {{linkExpiresInHours}} hours; if it expires, reply to this email for a new one. Your login email is {{loginEmail}}. We will be in touch shortly with the next steps.
+
+Welcome to RCOEM-TBI!
+
+Best regards,
+The RCOEM-TBI Team`,
+    html: `<p>Dear {{applicantName}},</p>
+<p>We are thrilled to inform you that your application to RCOEM-TBI has been accepted!</p>
+<p>{{message}}</p>
+<p>We were very impressed with your idea and believe in its potential. An account has been created for you on our portal. Please choose your password using the link below:</p>
+<p><a href="{{loginUrl}}">Set your password</a></p>
+<p>The link can be used once and expires in {{linkExpiresInHours}} hours; if it expires, reply to this email for a new one. Your login email is {{loginEmail}}. We will be in touch shortly with the next steps.</p>
+<p>Welcome to RCOEM-TBI!</p>
+<p>Best regards,<br>The RCOEM-TBI Team</p>`,
+  },
+  {
+    id: 'builtin-reject',
+    builtIn: true,
+    isDefault: false,
+    name: 'Rejected',
+    decision: 'reject',
+    subject: 'Update on Your RCOEM-TBI Application',
+    text: `Dear {{applicantName}},
+
+Thank you for your interest in RCOEM-TBI and for taking the time to apply.
+
+{{message}}
+
+After careful consideration, we regret to inform you that we will not be moving forward with your application at this time. The selection process is highly competitive, and we receive many qualified applications.
+
+We wish you the best of luck in your future endeavors.
+
+Sincerely,
+The RCOEM-TBI Team`,
+    html: `<p>Dear {{applicantName}},</p>
+<p>Thank you for your interest in RCOEM-TBI and for taking the time to apply.</p>
+<p>{{message}}</p>
+<p>After careful consideration, we regret to inform you that we will not be moving forward with your application at this time. The selection process is highly competitive, and we receive many qualified applications.</p>
+<p>We wish you the best of luck in your future endeavors.</p>
+<p>Sincerely,<br>The RCOEM-TBI Team</p>`,
+  },
+  {
+    id: 'builtin-reject-reapply',
+    builtIn: true,
+    isDefault: false,
+    name: 'Rejected – reapply next cohort',
+    decision: 'reject',
+    subject: 'Update on Your RCOEM-TBI Application',
+    text: `Dear {{applicantName}},
+
+Thank you for applying to RCOEM-TBI.
+
+{{message}}
+
+We will not be taking your application forward in this cohort, but we saw real promise in it and would like to hear from you again. Please apply for the next cohort once you have made progress on the points the panel raised; your new application will be reviewed afresh.
+
+Sincerely,
+The RCOEM-TBI Team`,
+    html: `<p>Dear {{applicantName}},</p>
+<p>Thank you for applying to RCOEM-TBI.</p>
+<p>{{message}}</p>
+<p>We will not be taking your application forward in this cohort, but we saw real promise in it and would like to hear from you again. Please apply for the next cohort once you have made progress on the points the panel raised; your new application will be reviewed afresh.</p>
+<p>Sincerely,<br>The RCOEM-TBI Team</p>`,
+  },
+];
+
+// Used for a decision until an admin marks another template as the default
+export const BUILT_IN_DEFAULT_TEMPLATE_IDS: Record<EmailTemplateDecision, string> = {
+  accept: 'builtin-accept',
+  reject: 'builtin-reject',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function substitute(source: string, variables: EmailTemplateVariables, format: (value: string) => string): string {
+  return source.replace(PLACEHOLDER, (_, name: string) => {
+    const value = variables[name as keyof EmailTemplateVariables];
+    return value === undefined ? '' : format(value);
+  });
+}
+
+/**
+ * Fill in a template. Values are escaped in the HTML variant (message line breaks become <br>), and
+ * the paragraph or blank lines left behind by an empty variable such as {{message}} are removed.
+ */
+export function renderEmailTemplate(template: EmailTemplateContent, variables: EmailTemplateVariables): RenderedEmail {
+  return {
+    subject: substitute(template.subject, variables, (value) => value.replace(/\s+/g, ' ')).trim(),
+    text: substitute(template.text, variables, (value) => value).replace(/\n{3,}/g, '\n\n').trim(),
+    html: substitute(template.html, variables, (value) => escapeHtml(value).replace(/\r?\n/g, '<br>'))
+      .replace(/<p>\s*<\/p>\s*/g, '')
+      .trim(),
+  };
+}
@@ -0,0 +1,138 @@
+// Evaluation round settings checks for /admin/evaluation, and the shape rounds had when the page kept
+// them in the browser's localStorage (read by the one-time importer). Pure code, shared by the page
+// (client) and the evaluation round server actions.
+import { z } from 'zod';
+import type { EvaluationPhase, EvaluationRoundSettings, ScoringMethod } from '@/types/evaluation-round';
+
+export const EVALUATION_PHASES: EvaluationPhase[] = ['Application', 'Screening', 'Pitch', 'Demo', 'Due Diligence', 'Final'];
+export const SCORING_METHODS: ScoringMethod[] = ['weighted', 'simple', 'consensus'];
+
+// Evaluators each submission gets when a round does not say
+export const DEFAULT_EVALUATORS_PER_SUBMISSION = 3;
+
+// Consensus rounds reconcile evaluators whose totals are further apart than this share of the maximum
+// score unless the round sets its own threshold
+export const DEFAULT_CONSENSUS_THRESHOLD_SHARE = 0.2;
+
+export function defaultConsensusThreshold(maxScore: number): number {
+  return Math.round(maxScore * DEFAULT_CONSENSUS_THRESHOLD_SHARE * 100) / 100;
+}
+
+// Key the evaluation page used before rounds moved to Firestore
+export const LEGACY_ROUNDS_STORAGE_KEY = 'admin_evaluation_rounds';
+
+// Names of the sample rounds the old page seeded into every browser, so the importer can leave them out
+export const LEGACY_SAMPLE_ROUND_NAMES = [
+  'Q1 2024 Startup Pitch Competition',
+  'FinTech Innovation Challenge',
+  'Healthcare Innovation Round',
+  'AI & Machine Learning Showcase',
+];
+
+const isoDate = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Enter a valid date.');
+
+const criterionSchema = z.object({
+  name: z.string().trim().min(1, 'Every criterion needs a name.').max(100),
+  weight: z.number().min(0, 'Criterion weights cannot be negative.').max(100),
+  description: z.string().trim().max(500),
+});
+
+export const evaluationRoundSettingsSchema = z
+  .object({
+    roundName: z.string().trim().min(1, 'Give the round a name.').max(150, 'Round names must be at most 150 characters.'),
+    description: z.string().trim().max(2000).optional(),
+    phase: z.enum(EVALUATION_PHASES as [EvaluationPhase, ...EvaluationPhase[]]),
+    scheduledAt: isoDate,
+    evaluationDeadline: isoDate.optional(),
+    maxScore: z.number().positive('The maximum score must be above 0.').max(1000),
+    minimumScore: z.number().min(0),
+    passingGrade: z.number().min(0),
+    evaluationPeriod: z.number().int().min(1, 'The evaluation period must be at least one day.').max(365),
+    scoringMethod: z.enum(SCORING_METHODS as [ScoringMethod, ...ScoringMethod[]]),
+    consensusThreshold: z.number().min(0, 'The consensus threshold cannot be negative.').max(1000),
+    criteria: z.array(criterionSchema).max(30),
+    autoAdvance: z.boolean(),
+    allowedSubmissionTypes: z.array(z.string().trim().min(1)).max(20),
+    evaluatorsPerSubmission: z.number().int().min(1, 'At least one evaluator per submission is needed.').max(20),
+    autoAssignEvaluators: z.boolean(),
+    evaluatorRoles: z.array(z.string()).max(10),
+    allowSelfNomination: z.boolean(),
+    blindEvaluation: z.boolean(),
+    evaluatorInstructions: z.string().trim().max(5000).optional(),
+  })
+  .superRefine((settings, ctx) => {
+    if (settings.minimumScore > settings.maxScore) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['minimumScore'], message: 'The minimum score cannot be above the maximum score.' });
+    }
+    if (settings.passingGrade > settings.maxScore) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['passingGrade'], message: 'The passing grade cannot be above the maximum score.' });
+    }
+    if (settings.consensusThreshold > settings.maxScore) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['consensusThreshold'],
+        message: 'The consensus threshold cannot be above the maximum score.',
+      });
+    }
+    if (settings.evaluationDeadline && Date.parse(settings.evaluationDeadline) < Date.parse(settings.scheduledAt)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['evaluationDeadline'], message: 'The deadline must be after the round starts.' });
+    }
+    const totalWeight = settings.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+    if (settings.scoringMethod === 'weighted' && settings.criteria.length > 0 && Math.abs(totalWeight - 100) > 0.01) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['criteria'],
+        message: `Criterion weights must add up to 100% (currently ${totalWeight}%).`,
+      });
+    }
+  }) satisfies z.ZodType<EvaluationRoundSettings, z.ZodTypeDef, unknown>;
+
+// A round as the old page stored it; counts were placeholders and are not imported
+export const legacyLocalRoundSchema = z.object({
+  id: z.string(),
+  roundName: z.string(),
+  description: z.string().optional(),
+  phase: z.enum(EVALUATION_PHASES as [EvaluationPhase, ...EvaluationPhase[]]).catch('Application'),
+  scheduledAt: isoDate,
+  evaluationDeadline: isoDate.optional().catch(undefined),
+  status: z.enum(['Draft', 'Active', 'Completed', 'Cancelled']).catch('Draft'),
+  createdAt: isoDate.catch(() => new Date().toISOString()),
+  maxScore: z.number().catch(100),
+  minimumScore: z.number().catch(60),
+  evaluationPeriod: z.number().catch(7),
+  scoringMethod: z.enum(SCORING_METHODS as [ScoringMethod, ...ScoringMethod[]]).catch('weighted'),
+  autoAdvance: z.boolean().catch(false),
+  allowedSubmissionTypes: z.array(z.string()).catch([]),
+});
+
+export type LegacyLocalRound = z.infer<typeof legacyLocalRoundSchema>;
+
+export function isLegacySampleRound(round: Pick<LegacyLocalRound, 'id' | 'roundName'>): boolean {
+  return ['1', '2', '3', '4'].includes(round.id) && LEGACY_SAMPLE_ROUND_NAMES.includes(round.roundName);
+}
+
+// Settings for an imported round; fields the old page never stored get the new-round defaults
+export function settingsFromLegacyRound(round: LegacyLocalRound): EvaluationRoundSettings {
+  return {
+    roundName: round.roundName.trim(),
+    description: round.description?.trim() || undefined,
+    phase: round.phase,
+    scheduledAt: new Date(round.scheduledAt).toISOString(),
+    evaluationDeadline: round.evaluationDeadline ? new Date(round.evaluationDeadline).toISOString() : undefined,
+    maxScore: round.maxScore,
+    minimumScore: round.minimumScore,
+    passingGrade: round.minimumScore,
+    evaluationPeriod: round.evaluationPeriod,
+    scoringMethod: round.scoringMethod,
+    consensusThreshold: defaultConsensusThreshold(round.maxScore),
+    criteria: [],
+    autoAdvance: round.autoAdvance,
+    allowedSubmissionTypes: round.allowedSubmissionTypes,
+    evaluatorsPerSubmission: DEFAULT_EVALUATORS_PER_SUBMISSION,
+    autoAssignEvaluators: true,
+    evaluatorRoles: [],
+    allowSelfNomination: false,
+    blindEvaluation: true,
+    evaluatorInstructions: undefined,
+  };
+}
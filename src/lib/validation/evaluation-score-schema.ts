@@ -0,0 +1,87 @@
+// Score sheets evaluators fill in for a round: the criteria they score, checks on what they send or
+// write when reconciling, and the weighted total. Pure code, shared by the scoring form (client, for the
+// running total) and the evaluation score server actions, which work out the stored total themselves.
+import { z } from 'zod';
+import type { EvaluationCriterion, EvaluationRoundSettings } from '@/types/evaluation-round';
+import type { CriterionScore } from '@/types/evaluation-score';
+
+// Every criterion is scored on the same scale; weights decide how much each counts toward the total
+export const CRITERION_SCORE_MAX = 10;
+export const CRITERION_SCORE_STEP = 0.5;
+
+// Rounds without criteria (such as ones imported from a browser) are scored as a whole
+export const OVERALL_CRITERION: EvaluationCriterion = {
+  name: 'Overall',
+  weight: 100,
+  description: 'Overall assessment of the submission.',
+};
+
+export function scoringCriteriaOf(round: Pick<EvaluationRoundSettings, 'criteria'>): EvaluationCriterion[] {
+  return round.criteria.length > 0 ? round.criteria : [OVERALL_CRITERION];
+}
+
+export const scoreSheetInputSchema = z.object({
+  criterionScores: z
+    .array(
+      z.object({
+        criterion: z.string().trim().min(1).max(100),
+        score: z
+          .number()
+          .min(0, 'Scores cannot be negative.')
+          .max(CRITERION_SCORE_MAX, `Scores go up to ${CRITERION_SCORE_MAX}.`)
+          .multipleOf(CRITERION_SCORE_STEP, `Scores go in steps of ${CRITERION_SCORE_STEP}.`)
+          .nullable(),
+        comment: z.string().trim().max(2000, 'Criterion comments must be at most 2,000 characters.'),
+      })
+    )
+    .max(30),
+  overallComment: z.string().trim().max(5000, 'The overall comment must be at most 5,000 characters.'),
+});
+
+export type ScoreSheetInput = z.infer<typeof scoreSheetInputSchema>;
+
+// One entry per criterion in the round's order; scores for criteria the round does not have are dropped
+export function alignCriterionScores(criteria: EvaluationCriterion[], scores: CriterionScore[]): CriterionScore[] {
+  const byName = new Map(scores.map((score) => [score.criterion, score]));
+  return criteria.map((criterion) => ({
+    criterion: criterion.name,
+    score: byName.get(criterion.name)?.score ?? null,
+    comment: byName.get(criterion.name)?.comment ?? '',
+  }));
+}
+
+export function unscoredCriteria(criteria: EvaluationCriterion[], scores: CriterionScore[]): string[] {
+  return alignCriterionScores(criteria, scores)
+    .filter((score) => score.score === null)
+    .map((score) => score.criterion);
+}
+
+/**
+ * Total on the round's maxScore scale: each criterion's share of CRITERION_SCORE_MAX, weighted by its
+ * weight (equal weights when none are set). Null until every criterion has a score.
+ */
+export function weightedTotal(criteria: EvaluationCriterion[], scores: CriterionScore[], maxScore: number): number | null {
+  const aligned = alignCriterionScores(criteria, scores);
+  if (aligned.length === 0 || aligned.some((score) => score.score === null)) {
+    return null;
+  }
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const weightOf = (index: number) => (totalWeight > 0 ? criteria[index].weight / totalWeight : 1 / criteria.length);
+  const fraction = aligned.reduce((sum, score, index) => sum + weightOf(index) * ((score.score ?? 0) / CRITERION_SCORE_MAX), 0);
+  return Math.round(fraction * maxScore * 100) / 100;
+}
+
+// Consensus rounds: what evaluators write in a reconciliation thread
+export const reconciliationMessageSchema = z.object({
+  text: z.string().trim().min(1, 'Write a message first.').max(2000, 'Messages must be at most 2,000 characters.'),
+});
+
+// A final score put forward by an evaluator, or recorded by an admin; the round's maxScore is checked on save
+export const reconciledScoreSchema = z.object({
+  score: z.number().min(0, 'The final score cannot be negative.').max(1000),
+  justification: z
+    .string()
+    .trim()
+    .min(1, 'Explain how the final score was reached.')
+    .max(2000, 'The justification must be at most 2,000 characters.'),
+});
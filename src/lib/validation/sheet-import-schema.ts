@@ -0,0 +1,78 @@
+// src/lib/validation/sheet-import-schema.ts
+// Column mapping for the off-campus Google Sheet import. Shared by the import screen and the server.
+import { z } from 'zod';
+import type { SheetColumnMapping, SheetImportField } from '@/types/sheet-import';
+
+export const SHEET_IMPORT_FIELDS: { key: SheetImportField; label: string; required?: boolean }[] = [
+  { key: 'formSubmittedAt', label: 'Timestamp' },
+  { key: 'fullName', label: 'Full Name' },
+  { key: 'companyEmail', label: 'Email', required: true },
+  { key: 'phone', label: 'Phone' },
+  { key: 'natureOfInquiry', label: 'Nature of Inquiry' },
+  { key: 'companyName', label: 'Company Name' },
+  { key: 'founderNames', label: 'Founder Names' },
+  { key: 'founderBio', label: 'Founder Bio' },
+  { key: 'linkedinUrl', label: 'LinkedIn' },
+  { key: 'teamInfo', label: 'Team Info' },
+  { key: 'startupIdea', label: 'Startup Idea' },
+  { key: 'targetAudience', label: 'Target Audience' },
+  { key: 'problemSolving', label: 'Problem Solving' },
+  { key: 'uniqueness', label: 'Uniqueness' },
+  { key: 'developmentStage', label: 'Development Stage' },
+];
+
+const SHEET_IMPORT_FIELD_KEYS = SHEET_IMPORT_FIELDS.map((field) => field.key) as [SheetImportField, ...SheetImportField[]];
+
+// The sheet the import read before it could be configured
+export const LEGACY_SPREADSHEET_ID = '1wPgY5n0Ytj0GjnTIWqktGbnG3OEEK20QLRxihxj8DuI';
+export const LEGACY_SHEET_NAME = 'Sheet1';
+
+// Header words that identify a column, most specific first. Fields are matched in this order so that
+// "Company Name" goes to companyName before the generic "name" hint of fullName can take it.
+const HEADER_HINTS: [SheetImportField, string[]][] = [
+  ['formSubmittedAt', ['timestamp', 'submitted at', 'submission date']],
+  ['companyEmail', ['company email', 'email']],
+  ['companyName', ['company name', 'startup name', 'company', 'startup']],
+  ['founderNames', ['founder names', 'co-founder', 'founders']],
+  ['founderBio', ['founder bio', 'background', 'bio']],
+  ['linkedinUrl', ['linkedin']],
+  ['phone', ['phone', 'mobile', 'contact number', 'whatsapp']],
+  ['natureOfInquiry', ['nature of inquiry', 'inquiry', 'enquiry']],
+  ['teamInfo', ['team']],
+  ['targetAudience', ['target audience', 'audience', 'customers']],
+  ['problemSolving', ['problem']],
+  ['uniqueness', ['unique', 'differentiat']],
+  ['developmentStage', ['development stage', 'stage']],
+  ['startupIdea', ['startup idea', 'idea', 'describe']],
+  ['fullName', ['full name', 'your name', 'applicant name', 'name']],
+];
+
+// Guess a mapping from the header row; admins review it before saving
+export function suggestColumnMapping(headers: string[]): SheetColumnMapping {
+  const mapping: SheetColumnMapping = {};
+  const used = new Set<string>();
+  for (const [field, hints] of HEADER_HINTS) {
+    for (const hint of hints) {
+      const header = headers.find((candidate) => candidate && !used.has(candidate) && candidate.toLowerCase().includes(hint));
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+  return mapping;
+}
+
+export const sheetImportSourceSchema = z.object({
+  name: z.string().trim().min(1, 'Give the source a name.').max(100),
+  spreadsheetId: z
+    .string()
+    .trim()
+    .regex(/^[a-zA-Z0-9_-]{20,100}$/, 'Enter the spreadsheet ID from the sheet URL (the part after /d/).'),
+  sheetName: z.string().trim().min(1, 'Enter the tab name.').max(100),
+  columnMapping: z
+    .record(z.enum(SHEET_IMPORT_FIELD_KEYS), z.string().trim().max(200))
+    .transform((mapping) => Object.fromEntries(Object.entries(mapping).filter(([, header]) => header)) as SheetColumnMapping)
+    .refine((mapping) => !!mapping.companyEmail, { message: 'Map a column to Email.' }),
+});
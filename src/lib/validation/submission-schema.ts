@@ -0,0 +1,227 @@
+// src/lib/validation/submission-schema.ts
+// The shape of a stored application. Documents carry the `schemaVersion` they were written with;
+// older ones are upgraded step by step when read (normalizeSubmission), and the batch migration in
+// src/lib/migrate-submission-schema.ts rewrites them in place. To change the shape, bump
+// SUBMISSION_SCHEMA_VERSION and add the step from the previous version to SUBMISSION_UPGRADES.
+import { z } from 'zod';
+import { Timestamp, type DocumentData } from 'firebase/firestore';
+import { APPLICATION_SOURCES, applicationSourceOf } from '@/lib/applications';
+import { duplicateKeysFor } from '@/lib/duplicate-detection';
+import type { ApplicationSource, Submission } from '@/types/Submission';
+
+export const SUBMISSION_SCHEMA_VERSION = 3;
+
+// Documents written before versioning are version 1
+export const UNVERSIONED_SUBMISSION_SCHEMA_VERSION = 1;
+
+// Fields older forms and imports wrote under another name, with the field that replaced each one
+export const LEGACY_SUBMISSION_FIELDS = {
+  idea: 'startupIdea',
+  startupName: 'companyName',
+  linkedin: 'linkedinUrl',
+  businessCategory: 'domain',
+  currentStage: 'developmentStage',
+} as const satisfies Record<string, keyof Submission>;
+
+const dateValue = z.union([z.date(), z.instanceof(Timestamp), z.string()]);
+const text = z.string().optional();
+const sourceSchema = z.enum(APPLICATION_SOURCES as [ApplicationSource, ...ApplicationSource[]]);
+
+const duplicateMatchSchema = z.object({
+  id: z.string(),
+  source: sourceSchema,
+  reasons: z.array(z.enum(['email', 'phone', 'companyName'])),
+  score: z.number(),
+});
+
+const attachmentSchema = z.object({
+  id: z.string(),
+  kind: z.enum(['pitchDeck', 'businessPlan']),
+  fileName: z.string(),
+  contentType: z.enum([
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  ]),
+  size: z.number(),
+  storagePath: z.string(),
+  uploadedAt: z.string(),
+});
+
+export const submissionSchema = z.object({
+  schemaVersion: z.literal(SUBMISSION_SCHEMA_VERSION),
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+
+  fullName: text,
+  phone: text,
+  natureOfInquiry: text,
+  companyName: text,
+  companyEmail: text,
+  founderNames: text,
+  founderBio: text,
+  portfolioUrl: text,
+  linkedinUrl: text,
+  teamInfo: text,
+  startupIdea: text,
+  targetAudience: text,
+  problemSolving: text,
+  uniqueness: text,
+  developmentStage: text,
+  domain: text,
+  sector: text,
+  legalStatus: text,
+  customAnswers: z.record(z.string()).optional(),
+
+  attachments: z.array(attachmentSchema).optional(),
+  videoUrl: text,
+
+  source: sourceSchema,
+  campusStatus: z.enum(['campus', 'off-campus']).optional(),
+  formVersion: z.number().optional(),
+  submittedAt: dateValue,
+  status: z.enum(['pending', 'accepted', 'rejected']),
+
+  temporaryUserId: text,
+  temporaryPassword: text,
+  firebaseUid: text,
+  invitation: z
+    .object({
+      status: z.enum(['sent', 'redeemed', 'revoked']),
+      sentAt: dateValue,
+      expiresAt: dateValue,
+      sentCount: z.number(),
+      redeemedAt: dateValue.optional(),
+      revokedAt: dateValue.optional(),
+    })
+    .optional(),
+  processedByAdminAt: dateValue.optional(),
+  decisionInProgress: z.object({ action: z.enum(['accept', 'reject']), claimedAt: dateValue }).optional(),
+  evaluation: z.object({ roundId: z.string(), roundName: z.string(), assignedAt: dateValue }).optional(),
+  evaluationRoundIds: z.array(z.string()).optional(),
+
+  duplicateKeys: z.array(z.string()).optional(),
+  duplicateCheck: z
+    .object({ status: z.enum(['flagged', 'dismissed']), matches: z.array(duplicateMatchSchema), checkedAt: dateValue })
+    .optional(),
+  mergedFrom: z
+    .array(
+      z.object({
+        id: z.string(),
+        source: sourceSchema,
+        submittedAt: text,
+        mergedAt: z.string(),
+        mergedBy: z.string(),
+      })
+    )
+    .optional(),
+
+  onboardingCompleted: z.boolean().optional(),
+  onboardingProgress: z
+    .object({
+      passwordChanged: z.boolean().optional(),
+      passwordChangedAt: dateValue.optional(),
+      profileCompleted: z.boolean().optional(),
+      profileCompletedAt: dateValue.optional(),
+      notificationsConfigured: z.boolean().optional(),
+      notificationsConfiguredAt: dateValue.optional(),
+      completed: z.boolean().optional(),
+      completedAt: dateValue.optional(),
+    })
+    .optional(),
+  notificationPreferences: z
+    .object({ emailNotifications: z.boolean(), updatedAt: dateValue.optional() })
+    .optional(),
+  bio: text,
+  profileUpdatedAt: dateValue.optional(),
+
+  contactInfo: text,
+  sourceRow: z.number().optional(),
+  importSourceId: text,
+  importedAt: dateValue.optional(),
+  formSubmittedAt: text,
+
+  legacyCollection: text,
+  migratedAt: dateValue.optional(),
+
+  campus: text,
+  yearOfStudy: text,
+  course: text,
+  message: text,
+  attachmentBase64: text,
+  attachmentName: text,
+}) satisfies z.ZodType<Submission, z.ZodTypeDef, unknown>;
+
+function nonEmpty(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Upgrade steps keyed by the version they start from; each returns the data one version later.
+ * Steps work on raw document data and must be safe to run on data that is already partly upgraded.
+ */
+export const SUBMISSION_UPGRADES: Record<number, (data: DocumentData) => DocumentData> = {
+  // v1 -> v2: one name per field, and every document knows its source and status
+  1: (data) => {
+    const upgraded: DocumentData = { ...data };
+    for (const [legacy, current] of Object.entries(LEGACY_SUBMISSION_FIELDS)) {
+      if (nonEmpty(upgraded[legacy]) && !nonEmpty(upgraded[current])) {
+        upgraded[current] = upgraded[legacy];
+      }
+      delete upgraded[legacy];
+    }
+    if (!nonEmpty(upgraded.name) && nonEmpty(upgraded.fullName)) upgraded.name = upgraded.fullName;
+    if (!nonEmpty(upgraded.email) && nonEmpty(upgraded.companyEmail)) upgraded.email = upgraded.companyEmail;
+    upgraded.name = upgraded.name ?? '';
+    upgraded.email = upgraded.email ?? '';
+    upgraded.source = applicationSourceOf(upgraded);
+    if (!['pending', 'accepted', 'rejected'].includes(upgraded.status)) upgraded.status = 'pending';
+    return { ...upgraded, schemaVersion: 2 };
+  },
+  // v2 -> v3: the keys duplicate detection looks applications up by
+  2: (data) => ({
+    ...data,
+    duplicateKeys: duplicateKeysFor({
+      email: data.email,
+      companyEmail: data.companyEmail,
+      phone: data.phone,
+      companyName: data.companyName,
+    }),
+    schemaVersion: 3,
+  }),
+};
+
+export function submissionSchemaVersionOf(data: DocumentData): number {
+  return typeof data.schemaVersion === 'number' ? data.schemaVersion : UNVERSIONED_SUBMISSION_SCHEMA_VERSION;
+}
+
+// Stored data brought up to the current version; fields are renamed, never validated here
+export function upgradeSubmissionData(data: DocumentData): DocumentData {
+  let upgraded = data;
+  for (let version = submissionSchemaVersionOf(data); version < SUBMISSION_SCHEMA_VERSION; version++) {
+    const step = SUBMISSION_UPGRADES[version];
+    if (!step) {
+      throw new Error(`No upgrade from submission schema version ${version}.`);
+    }
+    upgraded = step(upgraded);
+  }
+  return upgraded;
+}
+
+/**
+ * A stored application in the current shape. Documents that still fail the schema after upgrading
+ * are returned as they are (and logged) so one bad document does not hide the rest of a list;
+ * the batch migration reports them.
+ */
+export function normalizeSubmission(id: string, data: DocumentData): Submission {
+  const upgraded = { ...upgradeSubmissionData(data), id };
+  const parsed = submissionSchema.safeParse(upgraded);
+  if (!parsed.success) {
+    console.warn(`Submission ${id} does not match schema version ${SUBMISSION_SCHEMA_VERSION}:`, parsed.error.issues);
+    return upgraded as Submission;
+  }
+  return parsed.data;
+}
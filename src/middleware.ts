@@ -0,0 +1,38 @@
+// src/middleware.ts
+// Guards the role-specific areas of the app using the signed session cookie.
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySessionToken } from '@/lib/session-token';
+import { getRoutePermission, hasPermission } from '@/lib/permissions';
+
+const TWO_FACTOR_SETUP_PATH = '/admin/settings';
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const requiredPermission = getRoutePermission(pathname);
+  if (!requiredPermission) {
+    return NextResponse.next();
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+
+  if (!session || !hasPermission(session.roles, requiredPermission)) {
+    const loginUrl = new URL('/login', request.url);
+    const response = NextResponse.redirect(loginUrl);
+    if (!session) {
+      // Drop expired or tampered cookies so the browser stops sending them
+      response.cookies.delete(SESSION_COOKIE_NAME);
+    }
+    return response;
+  }
+
+  // Admins the 2FA policy applies to may only open the page where they enroll
+  if (session.twoFactorSetupRequired && pathname !== TWO_FACTOR_SETUP_PATH) {
+    return NextResponse.redirect(new URL(TWO_FACTOR_SETUP_PATH, request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/mentor/:path*', '/user/:path*'],
+};
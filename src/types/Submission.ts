@@ -1,10 +1,62 @@
 
 import { Timestamp } from 'firebase/firestore';
+import type { AccountInvitationSummary } from './account-invitation';
+import type { ApplicationAttachment } from './application-attachment';
 
 export type SubmissionStatus = 'pending' | 'accepted' | 'rejected';
 export type CampusStatus = 'campus' | 'off-campus' | undefined;
+// Intake channel an application came in through (see src/lib/applications.ts)
+export type ApplicationSource = 'campus' | 'off-campus';
 
+export type DuplicateMatchReason = 'email' | 'phone' | 'companyName';
+
+// An earlier submission that looks like the same founder or company
+export interface SubmissionDuplicateMatch {
+  id: string;
+  source: ApplicationSource;
+  reasons: DuplicateMatchReason[];
+  score: number; // 0-1; 1 for an exact email or phone match
+}
+
+// Set at intake when matches were found; 'dismissed' once an admin confirmed it is not a duplicate
+export interface SubmissionDuplicateCheck {
+  status: 'flagged' | 'dismissed';
+  matches: SubmissionDuplicateMatch[];
+  checkedAt: Date | Timestamp | string;
+}
+
+// A duplicate that was merged into this submission and deleted
+export interface MergedSubmissionRecord {
+  id: string;
+  source: ApplicationSource;
+  submittedAt?: string; // ISO date of the merged submission
+  mergedAt: string; // ISO date
+  mergedBy: string; // Admin email
+}
+
+// Onboarding steps an accepted applicant has done (the same shape as on their users document)
+export interface SubmissionOnboardingProgress {
+  passwordChanged?: boolean;
+  passwordChangedAt?: Date | Timestamp | string;
+  profileCompleted?: boolean;
+  profileCompletedAt?: Date | Timestamp | string;
+  notificationsConfigured?: boolean;
+  notificationsConfiguredAt?: Date | Timestamp | string;
+  completed?: boolean;
+  completedAt?: Date | Timestamp | string;
+}
+
+// Evaluation round the submission was put into, kept on the submission for the applicant status page
+export interface SubmissionEvaluationSummary {
+  roundId: string;
+  roundName: string;
+  assignedAt: Date | Timestamp | string;
+}
+
+// Validated by submissionSchema (src/lib/validation/submission-schema.ts); read documents through
+// normalizeSubmission so older documents arrive in this shape
 export interface Submission {
+  schemaVersion: number;
   id: string;
   name: string; // From fullName
   email: string; // From companyEmail
@@ -17,21 +69,31 @@ export interface Submission {
   companyEmail?: string;
   founderNames?: string;
   founderBio?: string;
-  portfolioUrl?: string; // Also for LinkedIn
+  portfolioUrl?: string; // "LinkedIn or Portfolio URL" on the public form
+  linkedinUrl?: string;
   teamInfo?: string;
   startupIdea?: string;
+  targetAudience?: string;
   problemSolving?: string;
   uniqueness?: string;
+  developmentStage?: string;
 
   // Dropdown fields
   domain?: string;
   sector?: string;
+  legalStatus?: string;
 
-  // Legacy or simplified fields
-  idea?: string; // From startupIdea
+  // Fields added in the form builder, keyed by field key (see src/types/application-form.ts)
+  customAnswers?: Record<string, string>;
+
+  // Supporting documents (files in Storage, see src/lib/application-attachments.ts)
+  attachments?: ApplicationAttachment[];
+  videoUrl?: string; // Pitch video link
 
   // Metadata
+  source?: ApplicationSource; // Set on every application since the collections were unified
   campusStatus?: CampusStatus;
+  formVersion?: number; // Application form version the applicant filled in (0 = built-in form)
   submittedAt: Date | Timestamp | string;
   status: SubmissionStatus;
 
@@ -39,30 +101,43 @@ export interface Submission {
   temporaryUserId?: string; // For login credentials before user logs in
   temporaryPassword?: string;
   firebaseUid?: string; // The final Firebase Auth UID
+  invitation?: AccountInvitationSummary; // Password-setup invitation sent on acceptance
   processedByAdminAt?: Date | Timestamp | string;
+  // Set while an accept or reject is under way, so a second decision cannot start alongside it
+  decisionInProgress?: { action: 'accept' | 'reject'; claimedAt: Date | Timestamp | string };
+  evaluation?: SubmissionEvaluationSummary; // Newest round only
+  evaluationRoundIds?: string[]; // Every round the submission was put into
+
+  // Duplicate detection (see src/lib/duplicate-detection.ts)
+  duplicateKeys?: string[]; // Normalized email, phone and company-name keys candidates are looked up by
+  duplicateCheck?: SubmissionDuplicateCheck;
+  mergedFrom?: MergedSubmissionRecord[];
+
+  // Onboarding and profile fields some applications carry alongside the users document
+  onboardingCompleted?: boolean;
+  onboardingProgress?: SubmissionOnboardingProgress;
+  notificationPreferences?: { emailNotifications: boolean; updatedAt?: Date | Timestamp | string };
+  bio?: string;
+  profileUpdatedAt?: Date | Timestamp | string;
 
   // Off-campus import specific fields
-  source?: 'campus' | 'off-campus'; // Potentially from import logic
-  developmentStage?: string;
-  businessCategory?: string;
   contactInfo?: string;
   sourceRow?: number;
+  importSourceId?: string; // sheetImportSources document the row was imported by
   importedAt?: Date | Timestamp | string;
   formSubmittedAt?: string;
-  linkedinUrl?: string;
 
-  // Deprecated fields that might still be in old documents
-  targetAudience?: string;
-  currentStage?: string;
-  legalStatus?: string;
-  attachmentBase64?: string;
-  attachmentName?: string;
+  // Set on documents copied over from the pre-unification collections
+  legacyCollection?: string;
+  migratedAt?: Date | Timestamp | string;
+
+  // Only on applications from the original contact form; nothing writes them any more
   campus?: string;
   yearOfStudy?: string;
   course?: string;
-  linkedin?: string;
-  startupName?: string;
   message?: string;
+  attachmentBase64?: string;
+  attachmentName?: string;
 }
 
 export interface ProcessingActionState {
@@ -0,0 +1,42 @@
+// src/types/account-invitation.ts
+import { Timestamp } from 'firebase/firestore';
+
+export type InvitationAccountType = 'user' | 'mentor';
+
+// 'expired' is not stored; it is derived from expiresAt while the status is still 'sent'
+export type InvitationStatus = 'sent' | 'redeemed' | 'revoked' | 'expired';
+
+// Data as stored in emailTokens/{sha256(token)}; the raw token only ever appears in the emailed link
+export interface AccountInvitationFirestore {
+  purpose: 'accountSetup';
+  uid: string; // Firebase Auth UID whose password the invitation sets
+  email: string;
+  name: string;
+  accountType: InvitationAccountType;
+  subject?: { collection: string; id: string }; // Document that mirrors the invitation status (submission or mentor)
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  createdBy?: string; // Admin email, when the invite was (re)sent from the admin panel
+  used: boolean;
+  usedAt?: Timestamp;
+  revoked: boolean;
+  revokedAt?: Timestamp;
+}
+
+export interface AccountInvitation extends Omit<AccountInvitationFirestore, 'createdAt' | 'expiresAt' | 'usedAt' | 'revokedAt'> {
+  id: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+  revokedAt?: Date;
+}
+
+// Invitation state mirrored onto the subject document as `invitation`
+export interface AccountInvitationSummary {
+  status: Exclude<InvitationStatus, 'expired'>;
+  sentAt: Date | Timestamp | string;
+  expiresAt: Date | Timestamp | string;
+  sentCount: number;
+  redeemedAt?: Date | Timestamp | string;
+  revokedAt?: Date | Timestamp | string;
+}
@@ -0,0 +1,33 @@
+// src/types/admin-account.ts
+import { Timestamp } from 'firebase/firestore';
+import type { Role } from '@/lib/permissions';
+
+export type AdminAccountStatus = 'active' | 'disabled';
+
+// Data as stored in the adminAccounts collection
+export interface AdminAccountFirestore {
+  name: string;
+  email: string; // Always stored lowercased
+  passwordHash: string; // Format: scrypt:<salt-hex>:<hash-hex>
+  status: AdminAccountStatus;
+  roles?: Role[]; // 'admin' or 'auditor'; accounts created before roles existed are admins
+  createdAt: Timestamp;
+  createdBy?: string;
+  updatedAt: Timestamp;
+  lastLoginAt?: Timestamp;
+  passwordUpdatedAt?: Timestamp;
+  migratedFromLegacy?: boolean;
+}
+
+// Public shape returned to components (never includes the password hash)
+export interface AdminAccount {
+  id: string;
+  name: string;
+  email: string;
+  status: AdminAccountStatus;
+  roles: Role[];
+  createdAt?: Date;
+  createdBy?: string;
+  lastLoginAt?: Date;
+  migratedFromLegacy?: boolean;
+}
@@ -0,0 +1,22 @@
+// src/types/application-attachment.ts
+
+export type ApplicationAttachmentKind = 'pitchDeck' | 'businessPlan';
+
+// File types accepted for attachments, as detected from the file contents
+export type ApplicationAttachmentContentType =
+  | 'application/pdf'
+  | 'application/msword'
+  | 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  | 'application/vnd.ms-powerpoint'
+  | 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+// Reference stored on the application; the file itself is in Storage at `storagePath`
+export interface ApplicationAttachment {
+  id: string;
+  kind: ApplicationAttachmentKind;
+  fileName: string; // As uploaded, for display and downloads
+  contentType: ApplicationAttachmentContentType;
+  size: number; // Bytes
+  storagePath: string;
+  uploadedAt: string; // ISO date
+}
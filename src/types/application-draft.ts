@@ -0,0 +1,40 @@
+// src/types/application-draft.ts
+import { Timestamp } from 'firebase/firestore';
+import type { CampusStatus } from './Submission';
+
+// Data as stored in applicationDrafts/{sha256(email)}. Drafts are kept apart from the applications
+// collection, so they never show up in /admin/submissions, the dashboard or analysis.
+export interface ApplicationDraftFirestore {
+  email: string; // Lower-cased company email the draft is keyed by
+  status: 'draft';
+  answers: Record<string, string>; // Keyed by form field key
+  formVersion: number; // Form version the answers were typed into
+  campusStatus: CampusStatus;
+  accessTokenHashes: string[]; // SHA-256 of the tokens held by the browsers that may edit the draft
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  expiresAt: Timestamp; // Pushed back on every save; expired drafts are treated as gone
+}
+
+// Resume link, stored in emailTokens keyed by the SHA-256 of the token
+export interface ApplicationResumeTokenFirestore {
+  purpose: 'applicationResume';
+  draftId: string;
+  email: string;
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+}
+
+// What the applicant's browser keeps in localStorage to autosave into its draft
+export interface ApplicationDraftKey {
+  email: string;
+  token: string;
+}
+
+export interface ApplicationDraft {
+  email: string;
+  answers: Record<string, string>;
+  formVersion: number;
+  campusStatus: CampusStatus;
+  updatedAt: string; // ISO date
+}
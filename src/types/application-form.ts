@@ -0,0 +1,58 @@
+// src/types/application-form.ts
+import { Timestamp } from 'firebase/firestore';
+
+export type FormFieldType = 'text' | 'email' | 'phone' | 'url' | 'textarea' | 'select';
+
+// Option lists maintained in src/lib/validation/dropdown-constants.ts
+export type DropdownSource = 'domain' | 'sector' | 'legalStatus';
+
+export interface FormFieldDefinition {
+  key: string; // Stored under this name on the submission (top-level for standard fields, else customAnswers)
+  label: string;
+  type: FormFieldType;
+  required: boolean;
+  helpText?: string;
+  placeholder?: string;
+  optionsSource?: DropdownSource; // select only: shared option list
+  options?: string[]; // select only: options typed in the builder, used when there is no optionsSource
+}
+
+export interface FormSectionDefinition {
+  id: string;
+  title: string;
+  description?: string;
+  fields: FormFieldDefinition[];
+}
+
+export interface ApplicationFormDefinition {
+  title: string;
+  description?: string;
+  sections: FormSectionDefinition[];
+}
+
+// draft: being edited; published: shown to applicants; archived: replaced, kept to validate late submissions
+export type ApplicationFormStatus = 'draft' | 'published' | 'archived';
+
+// Data as stored in applicationForms/v{version}
+export interface ApplicationFormVersionFirestore extends ApplicationFormDefinition {
+  version: number;
+  status: ApplicationFormStatus;
+  createdAt: Timestamp;
+  createdBy: string;
+  updatedAt: Timestamp;
+  updatedBy?: string;
+  publishedAt?: Timestamp;
+  publishedBy?: string;
+}
+
+export interface ApplicationFormVersion extends ApplicationFormDefinition {
+  id: string;
+  version: number; // 0 is the built-in form used until a version is published
+  status: ApplicationFormStatus;
+  createdAt?: string; // ISO date
+  createdBy?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  publishedAt?: string;
+  publishedBy?: string;
+}
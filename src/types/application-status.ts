@@ -0,0 +1,35 @@
+// src/types/application-status.ts
+import { Timestamp } from 'firebase/firestore';
+import type { SubmissionStatus } from './Submission';
+
+// One-time code for /application/status, stored in emailTokens keyed by sha256('application-status:' + email)
+export interface ApplicationStatusCodeFirestore {
+  purpose: 'applicationStatus';
+  email: string; // Lower-cased
+  codeHash: string; // SHA-256 of the email and the code, never the code itself
+  attempts: number; // Wrong guesses so far; the code is dropped after too many
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+}
+
+export type ApplicationTimelineStepId = 'received' | 'screening' | 'evaluation' | 'decision';
+
+// complete: reached; current: where the application is now; skipped: not part of this application's path
+export type ApplicationTimelineStepState = 'complete' | 'current' | 'upcoming' | 'skipped';
+
+export interface ApplicationTimelineStep {
+  id: ApplicationTimelineStepId;
+  label: string;
+  state: ApplicationTimelineStepState;
+  date?: string; // ISO date, when known
+  detail?: string;
+}
+
+// What an applicant is shown about one of their submissions; internal fields never leave the server
+export interface ApplicationStatusSummary {
+  id: string;
+  companyName: string;
+  submittedAt: string | null; // ISO date
+  status: SubmissionStatus;
+  steps: ApplicationTimelineStep[];
+}
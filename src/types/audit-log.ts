@@ -0,0 +1,94 @@
+// src/types/audit-log.ts
+import { Timestamp } from 'firebase/firestore';
+import type { Role } from '@/lib/permissions';
+
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+// Kinds of documents an audited action can target
+export type AuditTargetType =
+  | 'application'
+  | 'mentorRequest'
+  | 'mentor'
+  | 'startup'
+  | 'user'
+  | 'event'
+  | 'authUser'
+  | 'adminAccount'
+  | 'mentors'
+  | 'settings'
+  | 'applicationForm'
+  | 'sheetImportSource'
+  | 'applications'
+  | 'emailTemplate'
+  | 'evaluationRound'
+  | 'evaluationScore'
+  | 'evaluationReconciliation';
+
+export const AUDIT_TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  application: 'Application',
+  mentorRequest: 'Mentor Request',
+  mentor: 'Mentor',
+  startup: 'Startup',
+  user: 'Startup User',
+  event: 'Event',
+  authUser: 'Auth User',
+  adminAccount: 'Admin Account',
+  mentors: 'Mentors (bulk)',
+  settings: 'Settings',
+  applicationForm: 'Application Form',
+  sheetImportSource: 'Sheet Import Source',
+  applications: 'Applications (bulk)',
+  emailTemplate: 'Email Template',
+  evaluationRound: 'Evaluation Round',
+  evaluationScore: 'Evaluation Score',
+  evaluationReconciliation: 'Score Reconciliation',
+};
+
+// Who performed the action; null when the caller could not be authenticated
+export interface AuditActor {
+  id: string; // Admin account ID or Firebase Auth UID
+  email: string;
+  name?: string;
+  roles: Role[];
+}
+
+export interface AuditTarget {
+  type: AuditTargetType;
+  id?: string;
+  label?: string; // Human-readable name at the time of the action (e.g. startup name)
+  collection?: string; // Firestore collection of the target document
+}
+
+// One changed field; values are stored as JSON-safe snapshots (timestamps become ISO strings)
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Data as stored in the auditLogs collection
+export interface AuditLogFirestore {
+  action: string; // Dotted verb, e.g. 'application.accept'
+  outcome: AuditOutcome;
+  actor: AuditActor | null;
+  target?: AuditTarget;
+  changes?: AuditChange[];
+  reason?: string;
+  details?: Record<string, unknown>;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Timestamp;
+}
+
+// Interface for data as used in React components (after timestamp conversion)
+export interface AuditLog extends Omit<AuditLogFirestore, 'createdAt'> {
+  id: string;
+  createdAt: Date;
+}
+
+export interface AuditLogFilters {
+  actorEmail?: string;
+  targetType?: AuditTargetType;
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string; // yyyy-MM-dd, inclusive
+}
@@ -0,0 +1,47 @@
+// src/types/email-template.ts
+import { Timestamp } from 'firebase/firestore';
+
+// Decisions that send the applicant an email
+export type EmailTemplateDecision = 'accept' | 'reject';
+
+export interface EmailTemplateContent {
+  name: string; // Shown to admins when picking a template, e.g. "Rejected – reapply next cohort"
+  decision: EmailTemplateDecision;
+  subject: string;
+  text: string; // Plain-text variant
+  html: string; // HTML variant; variable values are escaped when rendered
+}
+
+// Data as stored in emailTemplates/{id}
+export interface EmailTemplateFirestore extends EmailTemplateContent {
+  createdAt: Timestamp;
+  createdBy: string;
+  updatedAt: Timestamp;
+  updatedBy: string;
+}
+
+export interface EmailTemplate extends EmailTemplateContent {
+  id: string;
+  builtIn: boolean; // Shipped with the platform and read-only; copy it to make changes
+  isDefault: boolean; // Used when no template is chosen for the decision
+  createdAt?: string; // ISO date
+  createdBy?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// Values substituted for {{variable}} placeholders
+export interface EmailTemplateVariables {
+  applicantName: string;
+  companyName: string;
+  loginEmail: string;
+  loginUrl: string; // Set-password link; empty for rejections
+  linkExpiresInHours: string;
+  message: string; // Note typed at decision time; may be empty
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
@@ -0,0 +1,76 @@
+// src/types/evaluation-round.ts
+import { Timestamp } from 'firebase/firestore';
+
+export type EvaluationPhase = 'Application' | 'Screening' | 'Pitch' | 'Demo' | 'Due Diligence' | 'Final';
+
+// Draft: being set up; Active: open for scoring; Completed and Cancelled rounds are read-only
+export type EvaluationRoundStatus = 'Draft' | 'Active' | 'Completed' | 'Cancelled';
+
+// How an evaluator's criterion scores make up their total and how evaluators' totals make up the final
+// score: simple and weighted average the evaluators; consensus reconciles totals that diverge
+export type ScoringMethod = 'weighted' | 'simple' | 'consensus';
+
+export interface EvaluationCriterion {
+  name: string;
+  weight: number; // Percent; a round's weights add up to 100
+  description: string;
+}
+
+// Everything an admin sets on a round
+export interface EvaluationRoundSettings {
+  roundName: string;
+  description?: string;
+  phase: EvaluationPhase;
+  scheduledAt: string; // ISO date the round opens
+  evaluationDeadline?: string; // ISO date
+  maxScore: number;
+  minimumScore: number;
+  passingGrade: number;
+  evaluationPeriod: number; // Days
+  scoringMethod: ScoringMethod;
+  consensusThreshold: number; // Consensus rounds: totals further apart than this (on the maxScore scale) are reconciled
+  criteria: EvaluationCriterion[];
+  autoAdvance: boolean;
+  allowedSubmissionTypes: string[];
+  evaluatorsPerSubmission: number;
+  autoAssignEvaluators: boolean;
+  evaluatorRoles: string[];
+  allowSelfNomination: boolean;
+  blindEvaluation: boolean;
+  evaluatorInstructions?: string;
+}
+
+// Data as stored in evaluationRounds/{id}
+export interface EvaluationRoundFirestore extends Omit<EvaluationRoundSettings, 'scheduledAt' | 'evaluationDeadline'> {
+  scheduledAt: Timestamp;
+  evaluationDeadline?: Timestamp | null;
+  status: EvaluationRoundStatus;
+  createdAt: Timestamp;
+  createdBy: string;
+  updatedAt: Timestamp;
+  updatedBy: string;
+  completedAt?: Timestamp;
+  completedBy?: string;
+  cancelledAt?: Timestamp;
+  cancelledBy?: string;
+  legacyLocalId?: string; // Set on rounds imported from an admin's browser storage
+}
+
+// Worked out from the round's applications and scores when it is read
+export interface EvaluationRoundStats {
+  criteriaCount: number;
+  evaluatorCount: number; // Evaluators who have scored at least one submission
+  submissionCount: number; // Applications put into the round
+  averageScore?: number; // Mean of the submissions' final scores; missing until the first submission has one
+}
+
+export interface EvaluationRound extends EvaluationRoundSettings, EvaluationRoundStats {
+  id: string;
+  status: EvaluationRoundStatus;
+  createdAt: string; // ISO date
+  createdBy?: string;
+  updatedAt: string;
+  updatedBy?: string;
+  completedAt?: string;
+  cancelledAt?: string;
+}
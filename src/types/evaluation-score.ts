@@ -0,0 +1,264 @@
+// src/types/evaluation-score.ts
+import { Timestamp } from 'firebase/firestore';
+import type { ApplicationAttachment } from './application-attachment';
+import type { EvaluationRound } from './evaluation-round';
+import type { SubmissionStatus } from './Submission';
+
+// Data as stored in evaluationAssignments/{roundId}_{submissionId}_{evaluatorUid}
+export interface EvaluationAssignmentFirestore {
+  roundId: string;
+  submissionId: string;
+  evaluatorUid: string;
+  evaluatorEmail: string;
+  evaluatorName: string;
+  assignedAt: Timestamp;
+  assignedBy: string;
+  method?: EvaluationAssignmentMethod; // Missing on assignments made before auto-assignment existed
+  conflictOverride?: EvaluationConflictReason[]; // Conflicts an admin chose to assign despite
+}
+
+export type EvaluationAssignmentMethod = 'auto' | 'manual';
+
+export interface EvaluationAssignment {
+  id: string;
+  roundId: string;
+  submissionId: string;
+  evaluatorUid: string;
+  evaluatorEmail: string;
+  evaluatorName: string;
+  assignedAt: string; // ISO date
+  assignedBy: string;
+  method: EvaluationAssignmentMethod;
+  conflictOverride?: EvaluationConflictReason[];
+}
+
+// mentorship: the evaluator mentors (or was asked to mentor) the applicant; self: the evaluator is the
+// applicant; declared: the evaluator or an admin recorded a conflict
+export type EvaluationConflictReason = 'mentorship' | 'self' | 'declared';
+
+export interface EvaluationConflict {
+  submissionId: string;
+  evaluatorUid: string;
+  reason: EvaluationConflictReason;
+  detail?: string;
+}
+
+// Data as stored in evaluationConflicts/{submissionId}_{evaluatorUid}; applies to every round
+export interface DeclaredConflictFirestore {
+  submissionId: string;
+  evaluatorUid: string;
+  evaluatorEmail: string;
+  detail: string;
+  roundId?: string; // Round it was declared in
+  declaredAt: Timestamp;
+  declaredBy: string;
+}
+
+// Someone who can be asked to score: a mentor or startup user holding the evaluator role
+export interface EvaluatorSummary {
+  uid: string;
+  name: string;
+  email: string;
+  evaluatorRoles: string[]; // Expertise tags set by an admin (EVALUATOR_ROLE_OPTIONS)
+}
+
+// Data as stored in evaluationNominations/{roundId}_{evaluatorUid}: an evaluator volunteering for a round
+export interface EvaluationNominationFirestore {
+  roundId: string;
+  evaluatorUid: string;
+  evaluatorEmail: string;
+  evaluatorName: string;
+  nominatedAt: Timestamp;
+}
+
+// A round that takes volunteers, as offered to an evaluator who does not hold the roles it asks for
+export interface NominationOpening {
+  roundId: string;
+  roundName: string;
+  status: 'Draft' | 'Active';
+  evaluatorRoles: string[];
+  evaluationDeadline?: string; // ISO string
+  nominated: boolean;
+}
+
+// An application an admin can put into a round
+export interface EvaluationCandidate {
+  id: string;
+  companyName: string;
+  applicantName: string;
+  status: SubmissionStatus;
+  roundId?: string; // Round it was last put into
+  roundName?: string;
+}
+
+// Drafts can be edited by their evaluator; submitted scores are final
+export type EvaluationScoreStatus = 'draft' | 'submitted';
+
+export interface CriterionScore {
+  criterion: string; // EvaluationCriterion.name
+  score: number | null; // 0 to CRITERION_SCORE_MAX; null while a draft leaves it open
+  comment: string;
+}
+
+// Data as stored in evaluationScores/{same ID as the assignment}
+export interface EvaluationScoreFirestore {
+  roundId: string;
+  submissionId: string;
+  evaluatorUid: string;
+  evaluatorEmail: string;
+  status: EvaluationScoreStatus;
+  criterionScores: CriterionScore[];
+  overallComment: string;
+  total: number | null; // On the round's maxScore scale, worked out by the server on submit
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  submittedAt?: Timestamp;
+}
+
+export interface EvaluationScore extends Omit<EvaluationScoreFirestore, 'createdAt' | 'updatedAt' | 'submittedAt'> {
+  id: string;
+  createdAt: string; // ISO date
+  updatedAt: string;
+  submittedAt?: string;
+}
+
+// The round details an evaluator works with
+export type EvaluatorRoundInfo = Pick<
+  EvaluationRound,
+  | 'id'
+  | 'roundName'
+  | 'phase'
+  | 'status'
+  | 'evaluationDeadline'
+  | 'maxScore'
+  | 'passingGrade'
+  | 'scoringMethod'
+  | 'criteria'
+  | 'evaluatorInstructions'
+  | 'blindEvaluation'
+  | 'consensusThreshold'
+>;
+
+// One submission in an evaluator's queue
+export interface EvaluatorQueueItem {
+  submissionId: string;
+  companyName: string; // The anonymous label in blind rounds
+  domain?: string;
+  assignedAt: string; // ISO date
+  scoreStatus: EvaluationScoreStatus | 'not_started';
+  total?: number;
+  updatedAt?: string; // When the evaluator last saved a score
+  reconciliationStatus?: ReconciliationStatus; // Consensus rounds, when the evaluators' totals diverged
+}
+
+export interface EvaluatorRoundQueue {
+  round: EvaluatorRoundInfo;
+  items: EvaluatorQueueItem[];
+}
+
+// The application answers an evaluator scores against
+export interface EvaluationSubmissionView {
+  id: string;
+  companyName?: string;
+  fullName?: string;
+  email?: string;
+  phone?: string;
+  founderNames?: string;
+  founderBio?: string;
+  portfolioUrl?: string;
+  linkedinUrl?: string;
+  teamInfo?: string;
+  startupIdea?: string;
+  targetAudience?: string;
+  problemSolving?: string;
+  uniqueness?: string;
+  developmentStage?: string;
+  domain?: string;
+  sector?: string;
+  legalStatus?: string;
+  videoUrl?: string;
+  attachments?: ApplicationAttachment[];
+}
+
+// Everything the scoring form needs for one assignment
+export interface ScoreSheet {
+  round: EvaluatorRoundInfo;
+  submission: EvaluationSubmissionView;
+  score: EvaluationScore | null;
+  editable: boolean; // False once submitted, or when the round is not open for scoring
+  lockedReason?: string;
+}
+
+// Where a submission's final score stands (see src/lib/score-aggregation.ts)
+// awaiting_scores: not every assigned evaluator has submitted; final: the mean of the evaluators' totals;
+// divergent: a consensus round whose totals differ by more than the threshold; reconciled: the
+// evaluators agreed on a final score
+export type SubmissionResultStatus = 'awaiting_scores' | 'final' | 'divergent' | 'reconciled';
+
+export interface SubmissionResult {
+  submissionId: string;
+  companyName: string; // The anonymous label while a blind round's identities are hidden
+  evaluatorTotals: { evaluatorUid: string; evaluatorName: string; total: number | null }[]; // null until submitted
+  average: number | null;
+  spread: number | null; // Highest minus lowest submitted total
+  finalScore: number | null;
+  status: SubmissionResultStatus;
+  passed?: boolean; // Final score against the round's passing grade
+  reconciliation?: Pick<EvaluationReconciliation, 'status' | 'finalScore' | 'justification' | 'agreedAt'>;
+}
+
+export type ReconciliationStatus = 'open' | 'agreed';
+
+export interface ReconciliationMessage {
+  id: string;
+  authorUid: string;
+  authorName: string;
+  text: string;
+  createdAt: Timestamp;
+}
+
+// A final score one participant put forward; agreed once every participant has approved it
+export interface ReconciliationProposal {
+  score: number;
+  justification: string;
+  proposedBy: string; // Evaluator UID
+  proposedAt: Timestamp;
+  approvals: string[]; // Evaluator UIDs, the proposer included
+}
+
+// Data as stored in evaluationReconciliations/{roundId}_{submissionId}
+export interface EvaluationReconciliationFirestore {
+  roundId: string;
+  submissionId: string;
+  status: ReconciliationStatus;
+  evaluators: Pick<EvaluatorSummary, 'uid' | 'name' | 'email'>[]; // The evaluators whose totals diverged
+  evaluatorUids: string[]; // Same people, for queries and security rules
+  totals: Record<string, number>; // Submitted totals by evaluator UID when the thread opened
+  spread: number;
+  threshold: number;
+  messages: ReconciliationMessage[];
+  proposal?: ReconciliationProposal | null;
+  finalScore?: number;
+  justification?: string;
+  agreedAt?: Timestamp;
+  agreedBy?: string; // 'evaluators', or the admin who settled it
+  openedAt: Timestamp;
+}
+
+export interface EvaluationReconciliation
+  extends Omit<EvaluationReconciliationFirestore, 'messages' | 'proposal' | 'agreedAt' | 'openedAt'> {
+  id: string;
+  messages: (Omit<ReconciliationMessage, 'createdAt'> & { createdAt: string })[];
+  proposal?: (Omit<ReconciliationProposal, 'proposedAt'> & { proposedAt: string }) | null;
+  agreedAt?: string; // ISO date
+  openedAt: string;
+}
+
+// What a participating evaluator sees: the thread plus everyone's submitted score sheets
+export interface ReconciliationThread {
+  reconciliation: EvaluationReconciliation;
+  scores: { evaluatorUid: string; evaluatorName: string; total: number | null; criterionScores: CriterionScore[]; overallComment: string }[];
+  maxScore: number;
+  viewerUid: string; // The evaluator the thread was loaded for
+  canParticipate: boolean; // False once agreed or when the round is closed
+}
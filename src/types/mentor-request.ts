@@ -79,12 +79,13 @@ export interface MentorRequestEmailData {
 
 export interface NotificationData {
   userId: string;
-  type: 'mentor_request_approved' | 'mentor_request_rejected' | 'mentor_decision';
+  type: 'mentor_request_approved' | 'mentor_request_rejected' | 'mentor_decision' | 'evaluation_assigned' | 'evaluation_reconciliation';
   title: string;
   message: string;
   mentorId?: string;
   mentorName?: string;
-  requestId: string;
+  requestId?: string; // Mentor request notifications
+  roundId?: string; // Evaluation notifications
   createdAt: Timestamp;
   read: boolean;
 }
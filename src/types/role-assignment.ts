@@ -0,0 +1,12 @@
+// src/types/role-assignment.ts
+import type { Role } from '@/lib/permissions';
+
+// A mentor or startup user (Firebase Auth account) as listed on the roles screen
+export interface RoleMember {
+  uid: string;
+  name: string;
+  email: string;
+  baseRole: 'mentor' | 'user'; // Implied by the collection the profile lives in
+  grantedRoles: Role[]; // Extra roles held as Firebase custom claims
+  evaluatorRoles: string[]; // Expertise rounds can ask for (EVALUATOR_ROLE_OPTIONS)
+}
@@ -0,0 +1,92 @@
+// src/types/sheet-import.ts
+import { Timestamp } from 'firebase/firestore';
+
+// Submission fields a sheet column can be mapped to
+export type SheetImportField =
+  | 'formSubmittedAt'
+  | 'fullName'
+  | 'phone'
+  | 'natureOfInquiry'
+  | 'companyName'
+  | 'companyEmail'
+  | 'founderNames'
+  | 'founderBio'
+  | 'linkedinUrl'
+  | 'teamInfo'
+  | 'startupIdea'
+  | 'targetAudience'
+  | 'problemSolving'
+  | 'uniqueness'
+  | 'developmentStage';
+
+// Field → header text of the column it is read from (row 1 of the tab)
+export type SheetColumnMapping = Partial<Record<SheetImportField, string>>;
+
+// How far a source has been imported. Rows up to `lastRow` are not read again, except rows whose
+// timestamp is newer than `lastTimestamp` (rows shift up when earlier ones are deleted from the sheet)
+// and the rows in `retryRows` that failed last time.
+export interface SheetImportCursor {
+  lastRow: number;
+  lastTimestamp?: string; // ISO date of the newest timestamp imported
+  retryRows: number[];
+}
+
+export interface SheetImportRunSummary {
+  created: number;
+  skipped: number;
+  errors: number;
+  flagged: number; // Created submissions flagged as possible duplicates
+}
+
+// Data as stored in sheetImportSources/{id}
+export interface SheetImportSourceFirestore {
+  name: string;
+  spreadsheetId: string;
+  sheetName: string; // Tab title
+  columnMapping: SheetColumnMapping;
+  cursor?: SheetImportCursor;
+  createdAt: Timestamp;
+  createdBy: string;
+  updatedAt: Timestamp;
+  updatedBy: string;
+  lastRunAt?: Timestamp;
+  lastRunBy?: string;
+  lastRunSummary?: SheetImportRunSummary;
+}
+
+export interface SheetImportSource {
+  id: string;
+  name: string;
+  spreadsheetId: string;
+  sheetName: string;
+  columnMapping: SheetColumnMapping;
+  cursor: SheetImportCursor;
+  createdAt?: string; // ISO dates
+  createdBy?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  lastRunAt?: string;
+  lastRunBy?: string;
+  lastRunSummary?: SheetImportRunSummary;
+}
+
+export type SheetImportSourceInput = Pick<SheetImportSource, 'name' | 'spreadsheetId' | 'sheetName' | 'columnMapping'>;
+
+// What an import did (or, in a dry run, would do) with one sheet row
+export interface SheetImportRowResult {
+  rowNumber: number;
+  action: 'create' | 'skip' | 'error';
+  message?: string; // Why the row was skipped or failed
+  name?: string;
+  email?: string;
+  companyName?: string;
+  possibleDuplicate?: boolean;
+}
+
+export interface SheetImportResult {
+  dryRun: boolean;
+  rows: SheetImportRowResult[]; // Rows before the cursor are left out
+  summary: SheetImportRunSummary;
+  cursor: SheetImportCursor; // The cursor after this run (unchanged by a dry run)
+  rowsBeforeCursor: number;
+}
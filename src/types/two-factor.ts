@@ -0,0 +1,29 @@
+// src/types/two-factor.ts
+import { Timestamp } from 'firebase/firestore';
+
+// Data as stored in twoFactorCredentials/{portal}:{id} (server-only collection)
+export interface TwoFactorCredentialFirestore {
+  email: string;
+  enabled: boolean;
+  secret?: string; // AES-GCM encrypted TOTP secret
+  pendingSecret?: string; // Encrypted secret awaiting its first code during enrollment
+  pendingVerifiedAt?: Timestamp; // When the current factor was checked to start re-enrollment
+  recoveryCodeHashes: string[]; // SHA-256 of the unused recovery codes
+  lastUsedStep?: number; // TOTP time step of the last accepted code, to stop replays
+  enabledAt?: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // Enforced by the security policy for this account
+  recoveryCodesRemaining: number;
+  enabledAt?: string; // ISO date
+}
+
+// admin_config/security_policy
+export interface TwoFactorPolicy {
+  requireForAdmins: boolean;
+  updatedAt?: string; // ISO date
+  updatedBy?: string;
+}
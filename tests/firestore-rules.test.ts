@@ -0,0 +1,344 @@
+// tests/firestore-rules.test.ts
+// Security rules tests. Run against the Firestore emulator with `npm run test:rules`
+// (requires the Firebase CLI; no live project is used).
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestContext,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+const PROJECT_ID = 'demo-tbi-rules';
+
+let testEnv: RulesTestEnvironment;
+
+// Identities as the rules see them
+const anonymous = () => testEnv.unauthenticatedContext();
+const server = () => testEnv.authenticatedContext('tbi-server', { server: true });
+const admin = () => testEnv.authenticatedContext('admin:acc-1', { roles: ['admin'] });
+const auditor = () => testEnv.authenticatedContext('admin:acc-2', { roles: ['auditor'] });
+const applicant = () => testEnv.authenticatedContext('applicant-1', { email: 'founder@startup.io' });
+const otherUser = () => testEnv.authenticatedContext('user-2', { email: 'someone@else.io' });
+const mentor = () => testEnv.authenticatedContext('mentor-1', { email: 'mentor@rcoem.edu' });
+const otherMentor = () => testEnv.authenticatedContext('mentor-2', { email: 'other.mentor@rcoem.edu' });
+const evaluator = () => testEnv.authenticatedContext('mentor-3', { email: 'evaluator@rcoem.edu', roles: ['evaluator'] });
+
+const pendingApplication = {
+  name: 'Founder',
+  email: 'founder@startup.io',
+  companyName: 'Startup',
+  status: 'pending',
+};
+
+async function seed(path: string, data: Record<string, unknown>) {
+  await testEnv.withSecurityRulesDisabled(async (context: RulesTestContext) => {
+    await context.firestore().doc(path).set(data);
+  });
+}
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      rules: readFileSync(resolve(__dirname, '../firestore.rules'), 'utf8'),
+    },
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed('mentors/mentor-1', { name: 'Mentor One', email: 'mentor@rcoem.edu', role: 'mentor', status: 'active' });
+  await seed('mentors/mentor-2', { name: 'Mentor Two', email: 'other.mentor@rcoem.edu', role: 'mentor', status: 'active' });
+});
+
+after(async () => {
+  await testEnv.cleanup();
+});
+
+describe('server-only collections', () => {
+  it('hides admin credentials and accounts from every client', async () => {
+    await seed('admin_config/main_credentials', { email: 'admin@tbi.com', password: 'secret' });
+    await seed('adminAccounts/acc-1', { email: 'admin@tbi.com', passwordHash: 'scrypt:x:y' });
+
+    await assertFails(anonymous().firestore().doc('admin_config/main_credentials').get());
+    await assertFails(applicant().firestore().doc('admin_config/main_credentials').get());
+    await assertFails(admin().firestore().doc('adminAccounts/acc-1').get());
+    await assertSucceeds(server().firestore().doc('adminAccounts/acc-1').get());
+  });
+
+  it('keeps email tokens server-side', async () => {
+    await seed('emailTokens/t1', { email: 'founder@startup.io', token: 'abc' });
+
+    await assertFails(anonymous().firestore().doc('emailTokens/t1').get());
+    await assertFails(applicant().firestore().doc('emailTokens/t1').get());
+    await assertSucceeds(server().firestore().doc('emailTokens/t1').get());
+  });
+
+  it('keeps two-factor secrets server-side, even from their owner', async () => {
+    await seed('twoFactorCredentials/mentor:mentor-1', { email: 'mentor@rcoem.edu', enabled: true, secret: 'v1:a:b:c' });
+
+    await assertFails(mentor().firestore().doc('twoFactorCredentials/mentor:mentor-1').get());
+    await assertFails(admin().firestore().doc('twoFactorCredentials/mentor:mentor-1').get());
+    await assertFails(mentor().firestore().doc('twoFactorCredentials/mentor:mentor-1').update({ enabled: false }));
+    await assertSucceeds(server().firestore().doc('twoFactorCredentials/mentor:mentor-1').get());
+  });
+
+  it('does not let a signed-out device lift its own session cut-off', async () => {
+    await seed('sessionRevocations/mentor:mentor-1', { role: 'mentor', sub: 'mentor-1' });
+
+    await assertFails(mentor().firestore().doc('sessionRevocations/mentor:mentor-1').get());
+    await assertFails(mentor().firestore().doc('sessionRevocations/mentor:mentor-1').delete());
+    await assertSucceeds(server().firestore().doc('sessionRevocations/mentor:mentor-1').get());
+  });
+
+  it('keeps application drafts away from applicants and staff', async () => {
+    await seed('applicationDrafts/d1', { email: 'founder@startup.io', status: 'draft', answers: {} });
+
+    await assertFails(applicant().firestore().doc('applicationDrafts/d1').get());
+    await assertFails(anonymous().firestore().doc('applicationDrafts/d1').set({ status: 'draft' }));
+    await assertFails(admin().firestore().collection('applicationDrafts').get());
+    await assertSucceeds(server().firestore().doc('applicationDrafts/d1').get());
+  });
+
+  it('keeps sheet import sources server-only', async () => {
+    await seed('sheetImportSources/s1', { name: 'Off-campus form', spreadsheetId: 'sheet', sheetName: 'Sheet1' });
+
+    await assertFails(admin().firestore().doc('sheetImportSources/s1').get());
+    await assertFails(auditor().firestore().doc('sheetImportSources/s1').update({ cursor: { lastRow: 1 } }));
+    await assertSucceeds(server().firestore().doc('sheetImportSources/s1').update({ cursor: { lastRow: 1, retryRows: [] } }));
+  });
+
+  it('lets staff read the audit log but nobody rewrite it', async () => {
+    await seed('auditLogs/l1', { action: 'authUser.delete', outcome: 'success' });
+
+    await assertSucceeds(auditor().firestore().doc('auditLogs/l1').get());
+    await assertFails(mentor().firestore().doc('auditLogs/l1').get());
+    await assertFails(admin().firestore().collection('auditLogs').add({ action: 'forged' }));
+    await assertSucceeds(server().firestore().collection('auditLogs').add({ action: 'mentors.migrate' }));
+    await assertFails(server().firestore().doc('auditLogs/l1').update({ outcome: 'failure' }));
+    await assertFails(admin().firestore().doc('auditLogs/l1').delete());
+  });
+});
+
+describe('applications', () => {
+  it('lets staff read form versions but only the server change them', async () => {
+    await seed('applicationForms/v1', { version: 1, status: 'published', title: 'Incubation Application', sections: [] });
+
+    await assertSucceeds(auditor().firestore().doc('applicationForms/v1').get());
+    await assertFails(anonymous().firestore().doc('applicationForms/v1').get());
+    await assertFails(admin().firestore().doc('applicationForms/v1').update({ status: 'archived' }));
+    await assertSucceeds(server().firestore().doc('applicationForms/v2').set({ version: 2, status: 'draft' }));
+  });
+
+  it('lets staff read email templates but only the server change them', async () => {
+    await seed('emailTemplates/t1', { name: 'Rejected – reapply next cohort', decision: 'reject', subject: 'Update', text: '', html: '' });
+
+    await assertSucceeds(auditor().firestore().doc('emailTemplates/t1').get());
+    await assertFails(applicant().firestore().doc('emailTemplates/t1').get());
+    await assertFails(admin().firestore().doc('emailTemplates/t1').update({ subject: 'Changed' }));
+    await assertSucceeds(server().firestore().doc('emailTemplates/t2').set({ name: 'Accepted', decision: 'accept' }));
+  });
+
+  it('lets applicants create pending applications only', async () => {
+    const applications = anonymous().firestore().collection('applications');
+
+    await assertSucceeds(applications.add(pendingApplication));
+    await assertFails(applications.add({ ...pendingApplication, status: 'accepted' }));
+  });
+
+  it('lets owners read only their own application', async () => {
+    await seed('applications/s1', pendingApplication);
+
+    await assertFails(anonymous().firestore().doc('applications/s1').get());
+    await assertSucceeds(applicant().firestore().doc('applications/s1').get());
+    await assertFails(otherUser().firestore().doc('applications/s1').get());
+    await assertFails(applicant().firestore().collection('applications').get());
+  });
+
+  it('reserves decisions for admins', async () => {
+    await seed('applications/s1', pendingApplication);
+
+    await assertFails(applicant().firestore().doc('applications/s1').update({ status: 'accepted' }));
+    await assertFails(auditor().firestore().doc('applications/s1').update({ status: 'accepted' }));
+    await assertFails(anonymous().firestore().doc('applications/s1').update({ status: 'accepted' }));
+    await assertSucceeds(admin().firestore().doc('applications/s1').update({ status: 'accepted' }));
+    await assertSucceeds(auditor().firestore().collection('applications').get());
+  });
+
+  it('allows accepted applicants to complete onboarding on their own application', async () => {
+    await seed('applications/s1', { ...pendingApplication, status: 'accepted' });
+    const update = { phone: '9999999999', onboardingCompleted: true };
+
+    await assertSucceeds(applicant().firestore().doc('applications/s1').update(update));
+    await assertFails(otherUser().firestore().doc('applications/s1').update(update));
+    await assertFails(applicant().firestore().doc('applications/s1').update({ status: 'pending' }));
+  });
+
+  it('keeps the pre-unification collections read-only for staff', async () => {
+    await seed('contactSubmissions/s1', pendingApplication);
+    await seed('offCampusApplications/o1', pendingApplication);
+
+    await assertSucceeds(auditor().firestore().doc('contactSubmissions/s1').get());
+    await assertFails(applicant().firestore().doc('contactSubmissions/s1').get());
+    await assertFails(anonymous().firestore().collection('contactSubmissions').add(pendingApplication));
+    await assertFails(admin().firestore().doc('offCampusApplications/o1').update({ status: 'accepted' }));
+    await assertSucceeds(admin().firestore().doc('offCampusApplications/o1').delete());
+  });
+});
+
+describe('mentor requests', () => {
+  const approvedRequest = {
+    userId: 'applicant-1',
+    userEmail: 'founder@startup.io',
+    mentorId: 'mentor-1',
+    mentorEmail: 'mentor@rcoem.edu',
+    status: 'admin_approved',
+  };
+
+  it('shows a request only to its startup, its mentor and staff', async () => {
+    await seed('mentorRequests/r1', approvedRequest);
+
+    await assertSucceeds(applicant().firestore().doc('mentorRequests/r1').get());
+    await assertSucceeds(mentor().firestore().doc('mentorRequests/r1').get());
+    await assertSucceeds(auditor().firestore().doc('mentorRequests/r1').get());
+    await assertFails(otherMentor().firestore().doc('mentorRequests/r1').get());
+    await assertFails(otherUser().firestore().doc('mentorRequests/r1').get());
+    await assertFails(anonymous().firestore().doc('mentorRequests/r1').get());
+  });
+
+  it('limits mentor queries to their own requests', async () => {
+    await seed('mentorRequests/r1', approvedRequest);
+
+    await assertSucceeds(
+      mentor().firestore().collection('mentorRequests').where('mentorEmail', '==', 'mentor@rcoem.edu').get()
+    );
+    await assertFails(mentor().firestore().collection('mentorRequests').get());
+  });
+
+  it('lets startups create their own pending requests', async () => {
+    const requests = applicant().firestore().collection('mentorRequests');
+
+    await assertSucceeds(requests.add({ ...approvedRequest, status: 'pending' }));
+    await assertFails(requests.add({ ...approvedRequest, status: 'admin_approved' }));
+    await assertFails(requests.add({ ...approvedRequest, userId: 'user-2', status: 'pending' }));
+  });
+
+  it('lets the addressed mentor answer an approved request and nothing else', async () => {
+    await seed('mentorRequests/r1', approvedRequest);
+
+    await assertFails(otherMentor().firestore().doc('mentorRequests/r1').update({ status: 'mentor_approved' }));
+    await assertFails(mentor().firestore().doc('mentorRequests/r1').update({ status: 'mentor_approved', userId: 'user-2' }));
+    await assertSucceeds(mentor().firestore().doc('mentorRequests/r1').update({ status: 'mentor_approved', mentorNotes: 'Happy to help' }));
+  });
+});
+
+describe('profiles and public content', () => {
+  it('lets users edit their own profile but not their role', async () => {
+    await seed('users/applicant-1', { name: 'Founder', email: 'founder@startup.io', role: 'user', status: 'active' });
+
+    await assertSucceeds(applicant().firestore().doc('users/applicant-1').update({ bio: 'Hello' }));
+    await assertFails(applicant().firestore().doc('users/applicant-1').update({ roles: ['evaluator'] }));
+    await assertFails(applicant().firestore().doc('users/applicant-1').update({ evaluatorRoles: ['Industry Expert'] }));
+    await assertFails(otherUser().firestore().doc('users/applicant-1').get());
+    await assertSucceeds(mentor().firestore().doc('users/applicant-1').get());
+  });
+
+  it('keeps mentors public but editable only by themselves and admins', async () => {
+    await assertSucceeds(anonymous().firestore().doc('mentors/mentor-1').get());
+    await assertSucceeds(mentor().firestore().doc('mentors/mentor-1').update({ designation: 'CTO' }));
+    await assertFails(mentor().firestore().doc('mentors/mentor-1').update({ status: 'disabled' }));
+    await assertFails(otherMentor().firestore().doc('mentors/mentor-1').update({ designation: 'CTO' }));
+    await assertFails(anonymous().firestore().doc('mentors/mentor-9').set({ name: 'Intruder' }));
+    await assertSucceeds(admin().firestore().doc('mentors/mentor-9').set({ name: 'New Mentor' }));
+  });
+
+  it('serves events and startups publicly and lets only admins write them', async () => {
+    await seed('events/e1', { title: 'Demo Day' });
+
+    await assertSucceeds(anonymous().firestore().doc('events/e1').get());
+    await assertFails(anonymous().firestore().doc('events/e1').update({ title: 'Hacked' }));
+    await assertFails(mentor().firestore().collection('startups').add({ name: 'Spam' }));
+    await assertSucceeds(admin().firestore().collection('startups').add({ name: 'Acme' }));
+  });
+
+  it('restricts evaluation criteria to staff and evaluators', async () => {
+    await seed('evaluationCriteria/c1', { name: 'Innovation', weight: 20 });
+
+    await assertFails(anonymous().firestore().doc('evaluationCriteria/c1').get());
+    await assertSucceeds(evaluator().firestore().doc('evaluationCriteria/c1').get());
+    await assertFails(evaluator().firestore().doc('evaluationCriteria/c1').update({ weight: 90 }));
+    await assertSucceeds(admin().firestore().doc('evaluationCriteria/c1').update({ weight: 25 }));
+  });
+
+  it('keeps evaluation rounds readable by staff and evaluators and writable only by the server', async () => {
+    await seed('evaluationRounds/r1', { roundName: 'Pitch Day', status: 'Active' });
+
+    await assertFails(anonymous().firestore().doc('evaluationRounds/r1').get());
+    await assertSucceeds(evaluator().firestore().doc('evaluationRounds/r1').get());
+    await assertSucceeds(auditor().firestore().doc('evaluationRounds/r1').get());
+    await assertFails(admin().firestore().doc('evaluationRounds/r1').update({ status: 'Completed' }));
+    await assertSucceeds(server().firestore().doc('evaluationRounds/r1').update({ status: 'Completed' }));
+  });
+
+  it('shows evaluators only their own assignments and scores', async () => {
+    await seed('evaluationScores/r1_s1_mentor-3', { roundId: 'r1', evaluatorUid: 'mentor-3', status: 'draft' });
+    await seed('evaluationScores/r1_s1_evaluator-2', { roundId: 'r1', evaluatorUid: 'evaluator-2', status: 'submitted' });
+
+    await assertSucceeds(evaluator().firestore().doc('evaluationScores/r1_s1_mentor-3').get());
+    await assertFails(evaluator().firestore().doc('evaluationScores/r1_s1_evaluator-2').get());
+    await assertFails(evaluator().firestore().doc('evaluationScores/r1_s1_mentor-3').update({ status: 'submitted' }));
+    await assertSucceeds(auditor().firestore().doc('evaluationScores/r1_s1_evaluator-2').get());
+    await assertFails(admin().firestore().doc('evaluationScores/r1_s1_evaluator-2').update({ total: 100 }));
+    await assertSucceeds(server().firestore().doc('evaluationScores/r1_s1_mentor-3').update({ status: 'submitted' }));
+  });
+
+  it('keeps declared conflicts of interest server-written', async () => {
+    await seed('evaluationConflicts/s1_mentor-3', { submissionId: 's1', evaluatorUid: 'mentor-3', detail: 'Co-founder is my student' });
+    await seed('evaluationConflicts/s1_evaluator-2', { submissionId: 's1', evaluatorUid: 'evaluator-2', detail: 'Former colleague' });
+
+    await assertSucceeds(evaluator().firestore().doc('evaluationConflicts/s1_mentor-3').get());
+    await assertFails(evaluator().firestore().doc('evaluationConflicts/s1_evaluator-2').get());
+    await assertFails(evaluator().firestore().doc('evaluationConflicts/s2_mentor-3').set({ submissionId: 's2', evaluatorUid: 'mentor-3' }));
+    await assertSucceeds(auditor().firestore().doc('evaluationConflicts/s1_evaluator-2').get());
+    await assertSucceeds(server().firestore().doc('evaluationConflicts/s2_mentor-3').set({ submissionId: 's2', evaluatorUid: 'mentor-3' }));
+  });
+
+  it('keeps nominations server-written and shows evaluators only their own', async () => {
+    await seed('evaluationNominations/r1_mentor-3', { roundId: 'r1', evaluatorUid: 'mentor-3' });
+    await seed('evaluationNominations/r1_evaluator-2', { roundId: 'r1', evaluatorUid: 'evaluator-2' });
+
+    await assertSucceeds(evaluator().firestore().doc('evaluationNominations/r1_mentor-3').get());
+    await assertFails(evaluator().firestore().doc('evaluationNominations/r1_evaluator-2').get());
+    await assertFails(evaluator().firestore().doc('evaluationNominations/r2_mentor-3').set({ roundId: 'r2', evaluatorUid: 'mentor-3' }));
+    await assertSucceeds(auditor().firestore().doc('evaluationNominations/r1_evaluator-2').get());
+    await assertSucceeds(server().firestore().doc('evaluationNominations/r2_mentor-3').set({ roundId: 'r2', evaluatorUid: 'mentor-3' }));
+  });
+
+  it('shows score reconciliations only to their evaluators and staff', async () => {
+    await seed('evaluationReconciliations/r1_s1', { roundId: 'r1', submissionId: 's1', evaluatorUids: ['mentor-3', 'evaluator-4'] });
+    await seed('evaluationReconciliations/r1_s2', { roundId: 'r1', submissionId: 's2', evaluatorUids: ['evaluator-2', 'evaluator-4'] });
+
+    await assertSucceeds(evaluator().firestore().doc('evaluationReconciliations/r1_s1').get());
+    await assertFails(evaluator().firestore().doc('evaluationReconciliations/r1_s2').get());
+    await assertFails(evaluator().firestore().doc('evaluationReconciliations/r1_s1').update({ status: 'agreed', finalScore: 90 }));
+    await assertSucceeds(auditor().firestore().doc('evaluationReconciliations/r1_s2').get());
+    await assertSucceeds(server().firestore().doc('evaluationReconciliations/r1_s2').update({ status: 'agreed', finalScore: 70 }));
+  });
+
+  it('lets notification owners only mark their notifications read', async () => {
+    await seed('notifications/n1', { userId: 'applicant-1', message: 'Accepted', read: false });
+
+    await assertSucceeds(applicant().firestore().doc('notifications/n1').update({ read: true }));
+    await assertFails(applicant().firestore().doc('notifications/n1').update({ message: 'Changed' }));
+    await assertFails(otherUser().firestore().doc('notifications/n1').get());
+  });
+
+  it('denies collections without a rule', async () => {
+    await assertFails(admin().firestore().collection('unknownCollection').add({ value: 1 }));
+    await assertFails(anonymous().firestore().doc('unknownCollection/x').get());
+  });
+});
@@ -0,0 +1,172 @@
+// tests/sheet-import.test.ts
+// The off-campus sheet import against the Firestore emulator and the local sheet fixture. Run with
+// `npm run test:sheet-import` (requires the Firebase CLI; no live project or Google Sheets API is used).
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import type { SheetsClient, SheetsFixture } from '../src/lib/sheets-client';
+
+const PROJECT_ID = 'demo-tbi-sheet-import';
+const SOURCE_ID = 'off-campus-form';
+const SPREADSHEET_ID = '1wPgY5n0Ytj0GjnTIWqktGbnG3OEEK20QLRxihxj8DuI';
+const SHEET_NAME = 'Sheet1';
+
+// The app's Firebase config is read when src/lib/firebase.ts loads, so it is set before the import below
+process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID = PROJECT_ID;
+process.env.NEXT_PUBLIC_FIREBASE_API_KEY = 'demo-api-key';
+
+type SheetImportModule = typeof import('../src/lib/sheet-import');
+type FirebaseModule = typeof import('../src/lib/firebase');
+type FirestoreModule = typeof import('firebase/firestore');
+
+let testEnv: RulesTestEnvironment;
+let sheetImport: SheetImportModule;
+let app: FirebaseModule;
+let firestore: FirestoreModule;
+let createFixtureSheetsClient: (fixture: SheetsFixture) => SheetsClient;
+
+const fixture = JSON.parse(
+  readFileSync(resolve(__dirname, 'fixtures/off-campus-sheet.json'), 'utf8')
+) as SheetsFixture;
+
+// The fixture with extra rows appended, as if more people filled in the form since the last run
+function sheetWith(extraRows: string[][] = []): SheetsClient {
+  return createFixtureSheetsClient({
+    [SPREADSHEET_ID]: { [SHEET_NAME]: [...fixture[SPREADSHEET_ID][SHEET_NAME], ...extraRows] },
+  });
+}
+
+const lateRow = [
+  '9/12/2026 16:05:43', 'Kavya Rao', '9123456780', 'Incubation', 'LoomLedger', 'kavya@loomledger.in', 'Kavya Rao',
+  'Textile exporter', '', 'Solo founder', 'Inventory for handloom cooperatives', 'Weaver cooperatives', 'Lost stock',
+  'Works on feature phones', 'Idea',
+];
+
+async function importedApplications() {
+  const { collection, getDocs, query, where } = firestore;
+  const snapshot = await getDocs(query(collection(app.db, 'applications'), where('importSourceId', '==', SOURCE_ID)));
+  return snapshot.docs.map((applicationDoc) => applicationDoc.data()).sort((a, b) => a.sourceRow - b.sourceRow);
+}
+
+function run(dryRun: boolean, client = sheetWith()) {
+  return sheetImport.runSheetImport(SOURCE_ID, { dryRun, runBy: 'admin@tbi.com', client });
+}
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      rules: readFileSync(resolve(__dirname, '../firestore.rules'), 'utf8'),
+    },
+  });
+
+  firestore = await import('firebase/firestore');
+  app = await import('../src/lib/firebase');
+  // The import runs as the server identity, as it does in the app
+  const [host, port] = (process.env.FIRESTORE_EMULATOR_HOST ?? '127.0.0.1:8080').split(':');
+  firestore.connectFirestoreEmulator(app.db, host, Number(port), {
+    mockUserToken: { sub: 'tbi-server', server: true },
+  });
+  sheetImport = await import('../src/lib/sheet-import');
+  ({ createFixtureSheetsClient } = await import('../src/lib/sheets-client'));
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await context.firestore().doc(`sheetImportSources/${SOURCE_ID}`).set({
+      name: 'Off-campus form',
+      spreadsheetId: SPREADSHEET_ID,
+      sheetName: SHEET_NAME,
+      columnMapping: {
+        formSubmittedAt: 'Timestamp',
+        fullName: 'Full Name',
+        phone: 'Phone Number',
+        natureOfInquiry: 'Nature of Inquiry',
+        companyName: 'Company Name',
+        companyEmail: 'Email Address',
+        startupIdea: 'Startup Idea',
+        developmentStage: 'Development Stage',
+      },
+      createdBy: 'admin@tbi.com',
+      updatedBy: 'admin@tbi.com',
+    });
+  });
+});
+
+after(async () => {
+  await firestore.terminate(app.db);
+  await testEnv.cleanup();
+});
+
+describe('runSheetImport', () => {
+  it('previews a run without writing anything', async () => {
+    const { result } = await run(true);
+
+    assert.deepEqual(
+      result.rows.map((row) => [row.rowNumber, row.action]),
+      [[2, 'create'], [3, 'create'], [4, 'create'], [5, 'error']]
+    );
+    assert.deepEqual(result.summary, { created: 3, skipped: 0, errors: 1, flagged: 1 });
+    // Row 4 is the same founder as row 3, found among the rows of this run
+    assert.equal(result.rows.find((row) => row.rowNumber === 4)?.possibleDuplicate, true);
+    assert.deepEqual(result.cursor, { lastRow: 1, retryRows: [] });
+
+    assert.equal((await importedApplications()).length, 0);
+    const source = await sheetImport.getSheetImportSource(SOURCE_ID);
+    assert.deepEqual(source?.cursor, { lastRow: 1, retryRows: [] });
+    assert.equal(source?.lastRunAt, undefined);
+  });
+
+  it('imports new rows and advances the cursor', async () => {
+    const { result } = await run(false);
+
+    assert.deepEqual(result.summary, { created: 3, skipped: 0, errors: 1, flagged: 1 });
+    assert.deepEqual(result.cursor, {
+      lastRow: 5,
+      retryRows: [5],
+      lastTimestamp: new Date(Date.parse('9/6/2026 09:02:17')).toISOString(),
+    });
+
+    const applications = await importedApplications();
+    assert.deepEqual(
+      applications.map((application) => [application.sourceRow, application.email]),
+      [[2, 'asha@agrosense.in'], [3, 'imran@mediqueue.app'], [4, 'Imran@MediQueue.app']]
+    );
+    assert.equal(applications[2].duplicateCheck?.status, 'flagged');
+    assert.ok(applications[0].duplicateKeys.includes('email:asha@agrosense.in'));
+
+    const source = await sheetImport.getSheetImportSource(SOURCE_ID);
+    assert.deepEqual(source?.cursor, result.cursor);
+    assert.deepEqual(source?.lastRunSummary, result.summary);
+
+    // The next run reads only what was added since, plus the row that failed
+    const { result: next } = await run(false, sheetWith([lateRow]));
+    assert.equal(next.rowsBeforeCursor, 3);
+    assert.deepEqual(
+      next.rows.map((row) => [row.rowNumber, row.action]),
+      [[5, 'error'], [6, 'create']]
+    );
+    assert.equal(next.cursor.lastRow, 6);
+    assert.equal((await importedApplications()).length, 4);
+  });
+
+  it('skips rows it imported before when the cursor is reset', async () => {
+    await run(false);
+    await sheetImport.resetSheetImportCursor(SOURCE_ID);
+
+    const { result } = await run(false);
+    assert.deepEqual(
+      result.rows.map((row) => [row.rowNumber, row.action, row.message]),
+      [
+        [2, 'skip', 'Already imported.'],
+        [3, 'skip', 'Already imported.'],
+        [4, 'skip', 'Already imported.'],
+        [5, 'error', '"not-an-email" is not a valid email address.'],
+      ]
+    );
+    assert.equal((await importedApplications()).length, 3);
+  });
+});